@@ -10,6 +10,7 @@
  * - Configuración automática de Cloudinary usando variables de entorno
  * - Función para subir imágenes con organización en carpetas
  * - Función para eliminar imágenes del servicio
+ * - Variante de la eliminación que no interrumpe los procesos de limpieza
  * - Validación de variables de entorno requeridas
  * - Logging detallado de operaciones
  */
@@ -17,6 +18,7 @@
 import { v2 as cloudinary } from 'cloudinary';
 import fs from 'fs';
 import path from 'path';
+import logger from '../utils/logger';
 
 // Verificar que las variables de entorno estén definidas
 if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
@@ -170,4 +172,24 @@ export const deleteImage = async (imageUrl: string, retries: number = 3) => {
   throw new Error('Failed to delete image after multiple attempts');
 };
 
+/**
+ * Elimina una imagen de Cloudinary sin propagar el error si falla
+ *
+ * @param {string} imageUrl - URL de la imagen (deleteImage extrae el public_id)
+ * @returns {Promise<boolean>} true si se ha borrado
+ *
+ * @description
+ * Pensada para los procesos de limpieza (eliminación de cuentas, purga de la
+ * papelera): una imagen que no se puede borrar no debe detener el resto.
+ */
+export const deleteImageSafely = async (imageUrl: string): Promise<boolean> => {
+  try {
+    await deleteImage(imageUrl);
+    return true;
+  } catch (error: any) {
+    logger.warn(`No se ha podido borrar la imagen ${imageUrl} de Cloudinary: ${error.message}`);
+    return false;
+  }
+};
+
 export default cloudinary;
\ No newline at end of file
@@ -10,7 +10,7 @@
  * - Creación automática de índices para optimización de consultas
  * - Verificación de índices existentes
  * - Logging detallado de operaciones de índices
- * - Índices para colecciones User, Item y Message
+ * - Índices para colecciones User, Item, Message y Conversation
  * - Índices geoespaciales para búsquedas por ubicación
  * - Índices compuestos para consultas complejas
  */
@@ -61,6 +61,7 @@ const indexLogger = createLogger({
  * **Colección User:**
  * - email (único): Para autenticación y búsqueda de usuarios
  * - role: Para filtrado por roles de usuario
+ * - deletionScheduledFor (parcial): Para ejecutar las eliminaciones de cuentas programadas
  * 
  * **Colección Item:**
  * - user: Para encontrar items por usuario
@@ -73,7 +74,7 @@ const indexLogger = createLogger({
  * **Colección Message:**
  * - sender, receiver: Para consultas de mensajes
  * - createdAt: Para ordenamiento temporal
- * - read: Para filtrado por estado de lectura
+ * - recipient + read: Para contar mensajes no leídos
  * 
  * @example
  * ```typescript
@@ -87,6 +88,10 @@ const setupIndexes = async (): Promise<void> => {
     const User = mongoose.model('User');
     await User.collection.createIndex({ email: 1 }, { unique: true });
     await User.collection.createIndex({ role: 1 });
+    await User.collection.createIndex(
+      { deletionScheduledFor: 1 },
+      { partialFilterExpression: { deletionScheduledFor: { $exists: true } } }
+    );
     indexLogger.info('User indexes created/verified');
 
     // Item collection indexes
@@ -111,11 +116,23 @@ const setupIndexes = async (): Promise<void> => {
       await Message.collection.createIndex({ recipient: 1 });
       await Message.collection.createIndex({ createdAt: -1 });
       await Message.collection.createIndex({ sender: 1, recipient: 1 }); // Compound index for conversations
+      await Message.collection.createIndex({ recipient: 1, read: 1 }); // Unread counts per user and conversation
+      await Message.collection.createIndex({ conversation: 1, createdAt: -1 }); // Messages of a conversation
       indexLogger.info('Message indexes created/verified');
     } catch (error: any) {
       indexLogger.warn(`Message model not found or error creating indexes: ${error.message}`);
     }
 
+    // Conversation collection indexes
+    try {
+      const Conversation = mongoose.model('Conversation');
+      await Conversation.collection.createIndex({ key: 1 }, { unique: true });
+      await Conversation.collection.createIndex({ participants: 1, lastMessageAt: -1, _id: -1 }); // Conversation list (paginated by cursor)
+      indexLogger.info('Conversation indexes created/verified');
+    } catch (error: any) {
+      indexLogger.warn(`Conversation model not found or error creating indexes: ${error.message}`);
+    }
+
     indexLogger.info('All database indexes setup completed successfully');
   } catch (error: any) {
     indexLogger.error(`Error setting up database indexes: ${error.message}`);
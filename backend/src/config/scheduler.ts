@@ -0,0 +1,84 @@
+/**
+ * @file scheduler.ts
+ * @description Tareas periódicas del servidor
+ * @module Config/Scheduler
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Ejecuta en segundo plano, cada cierto intervalo, las tareas de
+ * mantenimiento que no dependen de una petición:
+ * - account-deletions: Elimina las cuentas cuyo periodo de gracia ha vencido
+ * - item-purge: Purga los artículos de la papelera y sus imágenes
+ * - item-expiry: Caduca los anuncios activos sin cambios durante ITEM_EXPIRE_DAYS
+ * - saved-search-digest: Envía el resumen por email de las búsquedas guardadas
+ * - notification-purge: Borra las notificaciones leídas pasado NOTIFICATION_RETENTION_DAYS
+ *
+ * Configuración (variables de entorno):
+ * - SCHEDULER_INTERVAL_MINUTES: Minutos entre ejecuciones (60)
+ */
+
+import logger from '../utils/logger';
+import { processDueAccountDeletions } from '../utils/accountDeletion';
+import { purgeDeletedItems } from '../utils/itemPurge';
+import { expireStaleItems } from '../utils/itemLifecycle';
+import { sendSavedSearchDigests } from '../utils/savedSearchAlerts';
+import { purgeReadNotifications } from '../utils/notifications';
+
+/**
+ * Tarea periódica: devuelve el número de elementos procesados
+ */
+interface ScheduledTask {
+  name: string;
+  run: () => Promise<number>;
+}
+
+/**
+ * Tareas que se ejecutan en cada intervalo
+ */
+const TASKS: ScheduledTask[] = [
+  { name: 'account-deletions', run: processDueAccountDeletions },
+  { name: 'item-purge', run: purgeDeletedItems },
+  { name: 'item-expiry', run: expireStaleItems },
+  { name: 'saved-search-digest', run: sendSavedSearchDigests },
+  { name: 'notification-purge', run: purgeReadNotifications }
+];
+
+/**
+ * Temporizador activo (null hasta que se llama a startScheduler)
+ */
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Ejecuta una vez todas las tareas, sin que el fallo de una detenga las demás
+ *
+ * @returns {Promise<void>}
+ */
+export const runScheduledTasks = async (): Promise<void> => {
+  for (const task of TASKS) {
+    try {
+      const processed = await task.run();
+      if (processed > 0) {
+        logger.info(`Tarea programada ${task.name}: ${processed} procesados`);
+      }
+    } catch (error: any) {
+      logger.error(`Error en la tarea programada ${task.name}: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Arranca la ejecución periódica de las tareas
+ *
+ * @returns {void}
+ */
+export const startScheduler = (): void => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMinutes = parseInt(process.env.SCHEDULER_INTERVAL_MINUTES || '60', 10);
+  timer = setInterval(runScheduledTasks, intervalMinutes * 60 * 1000);
+  // El temporizador no debe impedir que el proceso termine
+  timer.unref();
+};
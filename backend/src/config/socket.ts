@@ -0,0 +1,177 @@
+/**
+ * @file socket.ts
+ * @description Pasarela de Socket.IO para mensajería en tiempo real
+ * @module Config/Socket
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este módulo proporciona:
+ * - Servidor Socket.IO montado sobre el servidor HTTP de Express
+ * - Autenticación del handshake con el mismo JWT que el middleware protect
+ * - Una sala privada por usuario para enviarle eventos
+ * - Emisión de eventos de mensajería desde los controladores
+ * - Desconexión de los sockets de las sesiones revocadas (sus tokens ya no
+ *   servirían para reconectar, pero la conexión abierta seguiría recibiendo eventos)
+ *
+ * Eventos emitidos:
+ * - message:new - Nuevo mensaje enviado o recibido
+ * - message:read - Mensajes propios leídos por el destinatario
+ * - conversation:updated - Cambio en el último mensaje o en los no leídos de una conversación
+ * - notification:new - Notificación nueva guardada en el centro de notificaciones
+ * - notification:read - Notificaciones marcadas como leídas desde otra pestaña
+ *
+ * La pasarela usa la ruta por defecto /socket.io, fuera de /api, por lo que
+ * no consume el límite de peticiones del rate limiter de la API.
+ */
+
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { getSessionFromToken } from '../middleware/auth';
+import logger from '../utils/logger';
+
+/**
+ * Eventos que la pasarela envía a los clientes
+ */
+export type SocketEvent = 'message:new' | 'message:read' | 'conversation:updated' | 'notification:new' | 'notification:read';
+
+/**
+ * Instancia de Socket.IO (null hasta que se llama a initSocket)
+ */
+let io: Server | null = null;
+
+/**
+ * Nombre de la sala privada de un usuario
+ *
+ * @param {string} userId - ID del usuario
+ * @returns {string} Nombre de la sala
+ */
+const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * Nombre de la sala de una sesión (los sockets abiertos con sus tokens)
+ *
+ * @param {string} sessionId - ID de la sesión
+ * @returns {string} Nombre de la sala
+ */
+const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+/**
+ * Extrae el token JWT del handshake de un socket
+ *
+ * @param {Socket} socket - Socket que intenta conectarse
+ * @returns {string | undefined} Token enviado en auth.token o en la cabecera Authorization
+ */
+const extractToken = (socket: Socket): string | undefined => {
+  if (socket.handshake.auth && socket.handshake.auth.token) {
+    return socket.handshake.auth.token;
+  }
+
+  const { authorization } = socket.handshake.headers;
+  if (authorization && authorization.startsWith('Bearer')) {
+    return authorization.split(' ')[1];
+  }
+
+  return undefined;
+};
+
+/**
+ * Inicializa la pasarela de Socket.IO sobre el servidor HTTP
+ *
+ * @param {HttpServer} server - Servidor HTTP devuelto por app.listen
+ * @returns {Server} Instancia de Socket.IO
+ *
+ * @example
+ * ```typescript
+ * const server = app.listen(PORT);
+ * initSocket(server);
+ * ```
+ */
+export const initSocket = (server: HttpServer): Server => {
+  io = new Server(server, {
+    cors: { origin: true }
+  });
+
+  // Autenticación del handshake con el mismo JWT que protect
+  io.use(async (socket, next) => {
+    const token = extractToken(socket);
+
+    if (!token) {
+      return next(new Error('Not authorized to access this route'));
+    }
+
+    try {
+      const result = await getSessionFromToken(token);
+
+      if (!result) {
+        return next(new Error('Not authorized to access this route'));
+      }
+
+      socket.data.userId = result.user._id.toString();
+      socket.data.sessionId = result.sessionId;
+      next();
+    } catch (err) {
+      next(new Error('Not authorized to access this route'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    socket.join([userRoom(socket.data.userId), sessionRoom(socket.data.sessionId)]);
+    logger.debug(`Socket ${socket.id} conectado para el usuario ${socket.data.userId}`);
+
+    socket.on('disconnect', (reason) => {
+      logger.debug(`Socket ${socket.id} desconectado: ${reason}`);
+    });
+  });
+
+  return io;
+};
+
+/**
+ * Envía un evento a todas las conexiones de un usuario
+ *
+ * @param {any} userId - ID del usuario destinatario
+ * @param {SocketEvent} event - Nombre del evento
+ * @param {any} payload - Datos del evento
+ *
+ * @description
+ * No hace nada si la pasarela no está inicializada (por ejemplo, en tests).
+ */
+export const emitToUser = (userId: any, event: SocketEvent, payload: any) => {
+  if (!io) {
+    return;
+  }
+
+  io.to(userRoom(String(userId))).emit(event, payload);
+};
+
+/**
+ * Desconecta los sockets abiertos con los tokens de una sesión revocada
+ *
+ * @param {any} sessionId - ID de la sesión revocada
+ *
+ * @description
+ * No hace nada si la pasarela no está inicializada (por ejemplo, en tests).
+ */
+export const disconnectSession = (sessionId: any) => {
+  if (!io) {
+    return;
+  }
+
+  io.in(sessionRoom(String(sessionId))).disconnectSockets(true);
+};
+
+/**
+ * Desconecta los sockets de todas las sesiones de un usuario
+ *
+ * @param {any} userId - ID del usuario cuyas sesiones se han revocado
+ * @param {any} [exceptSessionId] - Sesión que sigue abierta y conserva sus sockets
+ */
+export const disconnectUserSessions = (userId: any, exceptSessionId?: any) => {
+  if (!io) {
+    return;
+  }
+
+  const sockets = io.in(userRoom(String(userId)));
+  (exceptSessionId ? sockets.except(sessionRoom(String(exceptSessionId))) : sockets).disconnectSockets(true);
+};
@@ -0,0 +1,1132 @@
+/**
+ * @file admin.ts
+ * @description Controlador del panel de administración de Ecommunitas
+ *
+ * Este archivo contiene los controladores que alimentan el panel de
+ * administración del frontend: estadísticas y analíticas calculadas sobre las
+ * colecciones reales, consulta de logs del sistema, exportación de datos,
+ * respaldos, configuración del sistema y notificaciones administrativas.
+ *
+ * @features
+ * - Estadísticas de usuarios, artículos e intercambios (AdminStats)
+ * - Series temporales de crecimiento y actividad (AdminAnalytics)
+ * - Consulta paginada de los logs escritos por Winston
+ * - Exportación de usuarios, artículos, intercambios y logs en CSV o JSON
+ * - Respaldos completos de la base de datos en JSON
+ * - Configuración del sistema persistida en base de datos
+ * - Notificaciones a grupos de usuarios mediante mensajes internos
+ *
+ * @routes
+ * - GET /api/v1/analytics - Estadísticas y analíticas del sistema
+ * - GET /api/v1/admin/logs - Logs del sistema
+ * - POST /api/v1/admin/export/:type - Exportar datos
+ * - GET /api/v1/admin/export/download/:file - Descargar una exportación
+ * - POST /api/v1/admin/backup - Crear un respaldo
+ * - GET /api/v1/admin/backup/history - Historial de respaldos
+ * - GET /api/v1/admin/backup/:id/download - Descargar un respaldo
+ * - GET /api/v1/admin/settings - Obtener la configuración del sistema
+ * - PATCH /api/v1/admin/settings - Actualizar la configuración del sistema
+ * - POST /api/v1/admin/notifications - Enviar una notificación del sistema
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Item from '../models/Item';
+import Message from '../models/Message';
+import Trade, { OPEN_TRADE_STATUSES } from '../models/Trade';
+import Setting from '../models/Setting';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+import logger from '../utils/logger';
+import { notifyUsers } from '../utils/notifications';
+import { VERIFICATION_POLICY_DEFAULTS, TWO_FACTOR_POLICY_DEFAULTS } from '../middleware/auth';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+/**
+ * Entrada de log tal y como la espera el panel de administración
+ */
+interface SystemLogEntry {
+  id: string;
+  level: 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  timestamp: string;
+}
+
+/**
+ * Entrada del historial de respaldos
+ */
+interface BackupEntry {
+  id: string;
+  createdAt: string;
+  size: number;
+  status: 'completed' | 'failed' | 'in_progress';
+  downloadUrl?: string;
+}
+
+type AnalyticsPeriod = 'day' | 'week' | 'month' | 'year';
+type ExportType = 'users' | 'items' | 'trades' | 'logs';
+
+// ============================================================================
+// CONSTANTES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Días que abarca cada periodo de analíticas
+ */
+const PERIOD_DAYS: Record<AnalyticsPeriod, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+/**
+ * Valores por defecto de la configuración del sistema
+ *
+ * @description
+ * Solo se aceptan estas claves al actualizar la configuración, y cada valor
+ * debe tener el mismo tipo que su valor por defecto. Incluye la política de
+ * acciones permitidas a usuarios con el email sin verificar y la exigencia
+ * de verificación en dos pasos a los administradores.
+ */
+export const DEFAULT_SETTINGS: Record<string, string | number | boolean> = {
+  siteName: 'Ecommunitas',
+  supportEmail: 'soporte@ecommunitas.com',
+  announcement: '',
+  defaultSearchRadiusKm: 10,
+  ...VERIFICATION_POLICY_DEFAULTS,
+  ...TWO_FACTOR_POLICY_DEFAULTS
+};
+
+/**
+ * Columnas incluidas en cada tipo de exportación
+ */
+const EXPORT_COLUMNS: Record<ExportType, string[]> = {
+  users: ['_id', 'name', 'email', 'role', 'isActive', 'location', 'createdAt'],
+  items: ['_id', 'title', 'category', 'condition', 'location', 'user', 'available', 'moderationStatus', 'createdAt'],
+  trades: ['_id', 'proposer', 'recipient', 'offeredItems', 'requestedItem', 'status', 'createdAt', 'completedAt'],
+  logs: ['id', 'timestamp', 'level', 'message']
+};
+
+/**
+ * Filtros admitidos en cada tipo de exportación
+ */
+const EXPORT_FILTERS: Record<ExportType, string[]> = {
+  users: ['role', 'isActive'],
+  items: ['category', 'condition', 'available', 'moderationStatus', 'user'],
+  trades: ['status', 'proposer', 'recipient'],
+  logs: ['level']
+};
+
+/**
+ * Filtros de exportación que referencian a otro documento por su ID
+ */
+const EXPORT_ID_FILTERS = ['user', 'proposer', 'recipient'];
+
+/**
+ * Colecciones incluidas en un respaldo completo
+ *
+ * @returns {Array<[string, mongoose.Model<any>]>} Nombre de la colección y modelo,
+ * por orden alfabético
+ *
+ * @description
+ * Se toman todos los modelos registrados en mongoose, de modo que un modelo
+ * nuevo entra en el respaldo sin tener que añadirlo aquí.
+ */
+const getBackupModels = (): Array<[string, mongoose.Model<any>]> =>
+  mongoose.modelNames()
+    .map(name => mongoose.model(name))
+    .map((model): [string, mongoose.Model<any>] => [model.collection.collectionName, model])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const LOG_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) \[(\w+)\]: ?(.*)$/;
+const BACKUP_FILE_PATTERN = /^(backup-[\w-]+)\.json(\.partial|\.failed)?$/;
+const EXPORT_FILE_PATTERN = /^(users|items|trades|logs)-\d+\.(csv|json)$/;
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Rutas de los ficheros que usa el panel de administración
+ *
+ * @description
+ * El log combinado es el que escribe utils/logger; el panel lee como mucho sus
+ * últimos SYSTEM_LOG_MAX_BYTES bytes. Los directorios de respaldos y
+ * exportaciones se pueden configurar con BACKUP_PATH y EXPORT_PATH.
+ */
+const getLogFile = () => path.resolve('combined.log');
+const getSystemLogMaxBytes = () => parseInt(process.env.SYSTEM_LOG_MAX_BYTES || String(5 * 1024 * 1024), 10);
+const getBackupDir = () => path.resolve(process.env.BACKUP_PATH || 'backups');
+const getExportDir = () => path.resolve(process.env.EXPORT_PATH || 'exports');
+
+/**
+ * Convierte el resultado de un $group { _id, count } en un objeto clave/valor
+ *
+ * @param {Array<{ _id: any, count: number }>} rows - Filas agregadas
+ * @returns {Record<string, number>} Conteos indexados por clave
+ */
+const toCountRecord = (rows: Array<{ _id: any; count: number }>): Record<string, number> =>
+  rows.reduce((acc: Record<string, number>, row) => {
+    acc[row._id ?? 'unknown'] = row.count;
+    return acc;
+  }, {});
+
+/**
+ * Primer día del mes en curso
+ *
+ * @returns {Date} Fecha de inicio del mes actual
+ */
+const startOfMonth = (): Date => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+/**
+ * Calcula las estadísticas de usuarios
+ *
+ * @param {Date} since - Inicio del mes en curso
+ * @returns {Promise<AdminStats['users']>} Totales, activos, nuevos y distribución por rol
+ */
+const buildUserStats = async (since: Date) => {
+  const [summary] = await User.aggregate([
+    {
+      $facet: {
+        totals: [
+          {
+            $group: {
+              _id: null,
+              total: { $sum: 1 },
+              // Los usuarios sin el campo isActive se consideran activos (valor por defecto)
+              active: { $sum: { $cond: [{ $eq: ['$isActive', false] }, 0, 1] } },
+              newThisMonth: { $sum: { $cond: [{ $gte: ['$createdAt', since] }, 1, 0] } }
+            }
+          }
+        ],
+        byRole: [{ $group: { _id: '$role', count: { $sum: 1 } } }]
+      }
+    }
+  ]);
+
+  const totals = summary.totals[0] || { total: 0, active: 0, newThisMonth: 0 };
+
+  return {
+    total: totals.total,
+    active: totals.active,
+    inactive: totals.total - totals.active,
+    newThisMonth: totals.newThisMonth,
+    byRole: toCountRecord(summary.byRole)
+  };
+};
+
+/**
+ * Calcula las estadísticas de artículos
+ *
+ * @param {Date} since - Inicio del mes en curso
+ * @returns {Promise<AdminStats['items']>} Totales, disponibilidad, moderación y categorías
+ */
+const buildItemStats = async (since: Date) => {
+  const [summary] = await Item.aggregate([
+    {
+      $facet: {
+        totals: [
+          {
+            $group: {
+              _id: null,
+              total: { $sum: 1 },
+              available: { $sum: { $cond: ['$available', 1, 0] } },
+              newThisMonth: { $sum: { $cond: [{ $gte: ['$createdAt', since] }, 1, 0] } }
+            }
+          }
+        ],
+        byModeration: [{ $group: { _id: '$moderationStatus', count: { $sum: 1 } } }],
+        byCategory: [{ $group: { _id: '$category', count: { $sum: 1 } } }]
+      }
+    }
+  ]);
+
+  const totals = summary.totals[0] || { total: 0, available: 0, newThisMonth: 0 };
+  const byModeration = toCountRecord(summary.byModeration);
+
+  return {
+    total: totals.total,
+    available: totals.available,
+    unavailable: totals.total - totals.available,
+    pending: byModeration.pending || 0,
+    approved: byModeration.approved || 0,
+    rejected: byModeration.rejected || 0,
+    newThisMonth: totals.newThisMonth,
+    byCategory: toCountRecord(summary.byCategory)
+  };
+};
+
+/**
+ * Calcula las estadísticas de intercambios
+ *
+ * @param {Date} since - Inicio del mes en curso
+ * @returns {Promise<AdminStats['trades']>} Totales por estado y nuevos del mes
+ */
+const buildTradeStats = async (since: Date) => {
+  const [byStatusRows, newThisMonth] = await Promise.all([
+    Trade.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    Trade.countDocuments({ createdAt: { $gte: since } })
+  ]);
+
+  const byStatus = toCountRecord(byStatusRows);
+  const total = Object.values(byStatus).reduce((sum, count) => sum + count, 0);
+
+  return {
+    total,
+    completed: byStatus.completed || 0,
+    pending: OPEN_TRADE_STATUSES.reduce((sum, status) => sum + (byStatus[status] || 0), 0),
+    cancelled: byStatus.cancelled || 0,
+    newThisMonth
+  };
+};
+
+/**
+ * Obtiene información del proceso y del disco del servidor
+ *
+ * @returns {Promise<AdminStats['system']>} Uptime, versión, último respaldo y uso de disco
+ */
+const buildSystemInfo = async () => {
+  const backups = await listBackups();
+  const lastBackup = backups.find(backup => backup.status === 'completed');
+
+  let diskUsage;
+  try {
+    const stats = await fs.promises.statfs(process.cwd());
+    const total = stats.blocks * stats.bsize;
+    const free = stats.bavail * stats.bsize;
+    diskUsage = { total, used: total - free, free };
+  } catch (error) {
+    // statfs no está disponible en todas las plataformas; el dato es opcional
+    diskUsage = undefined;
+  }
+
+  return {
+    uptime: Math.floor(process.uptime()),
+    version: process.env.npm_package_version || '1.0.0',
+    lastBackup: lastBackup?.createdAt,
+    diskUsage
+  };
+};
+
+/**
+ * Resuelve el rango de fechas y la granularidad de las analíticas
+ *
+ * @param {any} queryParams - Parámetros period, startDate y endDate
+ * @returns {{ start: Date, end: Date, monthly: boolean }} Rango y agrupación
+ * @throws {AppError} Si las fechas no son válidas
+ */
+const resolveAnalyticsRange = (queryParams: any) => {
+  const period: AnalyticsPeriod = PERIOD_DAYS[queryParams.period as AnalyticsPeriod]
+    ? queryParams.period
+    : 'month';
+
+  const end = queryParams.endDate ? new Date(queryParams.endDate) : new Date();
+  const start = queryParams.startDate
+    ? new Date(queryParams.startDate)
+    : new Date(end.getTime() - PERIOD_DAYS[period] * DAY_MS);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    throw new AppError('El rango de fechas no es válido', 400);
+  }
+
+  // Los rangos de más de tres meses se agrupan por mes; el resto, por día
+  const monthly = end.getTime() - start.getTime() > 93 * DAY_MS;
+
+  return { start, end, monthly };
+};
+
+/**
+ * Clave del intervalo al que pertenece una fecha (formato UTC de $dateToString)
+ *
+ * @param {Date} date - Fecha a clasificar
+ * @param {boolean} monthly - Agrupar por mes en lugar de por día
+ * @returns {string} 'YYYY-MM' o 'YYYY-MM-DD'
+ */
+const bucketKey = (date: Date, monthly: boolean): string =>
+  date.toISOString().slice(0, monthly ? 7 : 10);
+
+/**
+ * Genera las claves de todos los intervalos de un rango
+ *
+ * @param {Date} start - Inicio del rango
+ * @param {Date} end - Fin del rango
+ * @param {boolean} monthly - Agrupar por mes en lugar de por día
+ * @returns {string[]} Claves ordenadas cronológicamente
+ */
+const buildBuckets = (start: Date, end: Date, monthly: boolean): string[] => {
+  const buckets: string[] = [];
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), monthly ? 1 : start.getUTCDate()));
+
+  while (cursor <= end) {
+    buckets.push(bucketKey(cursor, monthly));
+    if (monthly) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+
+  return buckets;
+};
+
+/**
+ * Cuenta los documentos creados en cada intervalo de un rango
+ *
+ * @param {mongoose.Model<any>} model - Modelo sobre el que contar
+ * @param {Date} start - Inicio del rango
+ * @param {Date} end - Fin del rango
+ * @param {boolean} monthly - Agrupar por mes en lugar de por día
+ * @returns {Promise<Record<string, number>>} Conteos por intervalo
+ */
+const countCreatedByBucket = async (model: mongoose.Model<any>, start: Date, end: Date, monthly: boolean) => {
+  const rows = await model.aggregate([
+    { $match: { createdAt: { $gte: start, $lte: end } } },
+    {
+      $group: {
+        _id: { $dateToString: { format: monthly ? '%Y-%m' : '%Y-%m-%d', date: '$createdAt' } },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  return toCountRecord(rows);
+};
+
+/**
+ * Obtiene los usuarios distintos que actuaron en cada intervalo de un rango
+ *
+ * @description
+ * Se considera actividad enviar un mensaje, publicar un artículo o proponer
+ * un intercambio.
+ *
+ * @param {Date} start - Inicio del rango
+ * @param {Date} end - Fin del rango
+ * @param {boolean} monthly - Agrupar por mes en lugar de por día
+ * @returns {Promise<Record<string, number>>} Usuarios activos por intervalo
+ */
+const countActiveUsersByBucket = async (start: Date, end: Date, monthly: boolean) => {
+  const format = monthly ? '%Y-%m' : '%Y-%m-%d';
+  const actorsPipeline = (actorField: string) => [
+    { $match: { createdAt: { $gte: start, $lte: end } } },
+    {
+      $group: {
+        _id: {
+          bucket: { $dateToString: { format, date: '$createdAt' } },
+          actor: `$${actorField}`
+        }
+      }
+    }
+  ];
+
+  const results = await Promise.all([
+    Message.aggregate(actorsPipeline('sender')),
+    Item.aggregate(actorsPipeline('user')),
+    Trade.aggregate(actorsPipeline('proposer'))
+  ]);
+
+  const actorsByBucket = new Map<string, Set<string>>();
+  results.flat().forEach(({ _id }) => {
+    if (!actorsByBucket.has(_id.bucket)) {
+      actorsByBucket.set(_id.bucket, new Set());
+    }
+    actorsByBucket.get(_id.bucket)!.add(String(_id.actor));
+  });
+
+  const counts: Record<string, number> = {};
+  actorsByBucket.forEach((actors, bucket) => {
+    counts[bucket] = actors.size;
+  });
+
+  return counts;
+};
+
+/**
+ * Calcula las series temporales de las analíticas
+ *
+ * @param {any} queryParams - Parámetros period, startDate y endDate
+ * @returns {Promise<AdminAnalytics>} Crecimiento, actividad y categorías populares
+ */
+const buildAnalytics = async (queryParams: any) => {
+  const { start, end, monthly } = resolveAnalyticsRange(queryParams);
+  const buckets = buildBuckets(start, end, monthly);
+
+  const [
+    usersBefore,
+    itemsBefore,
+    newUsers,
+    newItems,
+    newTrades,
+    activeUsers,
+    categoryRows
+  ] = await Promise.all([
+    User.countDocuments({ createdAt: { $lt: start } }),
+    Item.countDocuments({ createdAt: { $lt: start } }),
+    countCreatedByBucket(User, start, end, monthly),
+    countCreatedByBucket(Item, start, end, monthly),
+    countCreatedByBucket(Trade, start, end, monthly),
+    countActiveUsersByBucket(start, end, monthly),
+    Item.aggregate([
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+      { $sort: { count: -1 } }
+    ])
+  ]);
+
+  let totalUsers = usersBefore;
+  let totalItems = itemsBefore;
+
+  const userGrowth = buckets.map(date => {
+    totalUsers += newUsers[date] || 0;
+    return { date, users: totalUsers, newUsers: newUsers[date] || 0 };
+  });
+
+  const itemActivity = buckets.map(date => {
+    totalItems += newItems[date] || 0;
+    return { date, items: totalItems, newItems: newItems[date] || 0, trades: newTrades[date] || 0 };
+  });
+
+  const categoryTotal = categoryRows.reduce((sum: number, row: any) => sum + row.count, 0);
+  const popularCategories = categoryRows.map((row: any) => ({
+    category: row._id,
+    count: row.count,
+    percentage: categoryTotal > 0 ? Math.round((row.count / categoryTotal) * 1000) / 10 : 0
+  }));
+
+  // Los inicios de sesión todavía no se registran, por lo que se informan a 0
+  const userActivity = buckets.map(date => ({
+    date,
+    activeUsers: activeUsers[date] || 0,
+    logins: 0
+  }));
+
+  return { range: { start, end }, userGrowth, itemActivity, popularCategories, userActivity };
+};
+
+/**
+ * Lee y parsea el final del fichero de log combinado que escribe Winston
+ *
+ * @description
+ * Solo se leen los últimos SYSTEM_LOG_MAX_BYTES bytes (5 MB por defecto) para
+ * no cargar en memoria un log que crece sin límite; la primera línea leída se
+ * descarta porque puede estar cortada. Las líneas que no empiezan por marca
+ * temporal (por ejemplo, trazas de pila) se añaden al mensaje de la entrada
+ * anterior. El ID de cada entrada es la posición en bytes de su línea en el
+ * fichero.
+ *
+ * @returns {Promise<SystemLogEntry[]>} Entradas ordenadas de más reciente a más antigua
+ */
+const readSystemLogs = async (): Promise<SystemLogEntry[]> => {
+  let handle: fs.promises.FileHandle;
+
+  try {
+    handle = await fs.promises.open(getLogFile(), 'r');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  let start: number;
+  let content: string;
+
+  try {
+    const { size } = await handle.stat();
+    start = Math.max(size - getSystemLogMaxBytes(), 0);
+
+    const buffer = Buffer.alloc(size - start);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    content = buffer.toString('utf8', 0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const entries: SystemLogEntry[] = [];
+  const lines = content.split('\n');
+  let offset = start;
+
+  lines.forEach((rawLine, index) => {
+    const lineOffset = offset;
+    offset += Buffer.byteLength(rawLine) + 1;
+
+    if (index === 0 && start > 0) {
+      return;
+    }
+
+    const line = rawLine.replace(ANSI_PATTERN, '');
+    const match = LOG_LINE_PATTERN.exec(line);
+
+    if (match) {
+      const [, date, time, level, message] = match;
+      entries.push({
+        id: String(lineOffset),
+        level: ['error', 'warn', 'info'].includes(level) ? level as SystemLogEntry['level'] : 'debug',
+        message,
+        timestamp: new Date(`${date}T${time}`).toISOString()
+      });
+    } else if (line.trim() && entries.length > 0) {
+      entries[entries.length - 1].message += `\n${line}`;
+    }
+  });
+
+  return entries.reverse();
+};
+
+/**
+ * Filtra entradas de log por nivel, fechas y texto
+ *
+ * @param {SystemLogEntry[]} entries - Entradas a filtrar
+ * @param {any} filters - level, startDate, endDate, userId y action
+ * @returns {SystemLogEntry[]} Entradas que cumplen todos los filtros
+ */
+const filterSystemLogs = (entries: SystemLogEntry[], filters: any): SystemLogEntry[] => {
+  const { level, startDate, endDate, userId, action } = filters;
+  const start = startDate ? new Date(startDate).getTime() : null;
+  const end = endDate ? new Date(endDate).getTime() : null;
+
+  return entries.filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+
+    if (level && entry.level !== level) return false;
+    if (start !== null && time < start) return false;
+    if (end !== null && time > end) return false;
+    // Los logs son texto plano: usuario y acción se buscan dentro del mensaje
+    if (userId && !entry.message.includes(String(userId))) return false;
+    if (action && !entry.message.toLowerCase().includes(String(action).toLowerCase())) return false;
+
+    return true;
+  });
+};
+
+/**
+ * Lista los respaldos existentes en el directorio de respaldos
+ *
+ * @returns {Promise<BackupEntry[]>} Respaldos ordenados del más reciente al más antiguo
+ */
+const listBackups = async (): Promise<BackupEntry[]> => {
+  let files: string[];
+
+  try {
+    files = await fs.promises.readdir(getBackupDir());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const backups = await Promise.all(
+    files
+      .map(file => ({ file, match: BACKUP_FILE_PATTERN.exec(file) }))
+      .filter(({ match }) => match !== null)
+      .map(async ({ file, match }) => {
+        const stats = await fs.promises.stat(path.join(getBackupDir(), file));
+        const [, id, suffix] = match!;
+        const status: BackupEntry['status'] = suffix === '.partial'
+          ? 'in_progress'
+          : suffix === '.failed' ? 'failed' : 'completed';
+
+        return {
+          id,
+          createdAt: stats.mtime.toISOString(),
+          size: stats.size,
+          status,
+          downloadUrl: status === 'completed' ? `/api/v1/admin/backup/${id}/download` : undefined
+        };
+      })
+  );
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Escribe un fragmento en un stream respetando la contrapresión
+ *
+ * @param {fs.WriteStream} stream - Stream de destino
+ * @param {string} chunk - Texto a escribir
+ */
+const writeChunk = async (stream: fs.WriteStream, chunk: string) => {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+};
+
+/**
+ * Convierte un valor en un campo CSV escapado
+ *
+ * @param {any} value - Valor a convertir
+ * @returns {string} Campo CSV
+ */
+const toCsvValue = (value: any): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : Array.isArray(value) ? value.map(String).join('|') : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Genera el contenido CSV de una exportación
+ *
+ * @param {any[]} rows - Filas a exportar
+ * @param {string[]} columns - Columnas en orden
+ * @returns {string} Documento CSV con cabecera
+ */
+const toCsv = (rows: any[], columns: string[]): string => [
+  columns.join(','),
+  ...rows.map(row => columns.map(column => toCsvValue(row[column])).join(','))
+].join('\n');
+
+/**
+ * Obtiene las filas de una exportación aplicando fechas y filtros admitidos
+ *
+ * @param {ExportType} type - Tipo de datos a exportar
+ * @param {any} params - startDate, endDate y filters
+ * @returns {Promise<any[]>} Filas con las columnas de la exportación
+ */
+const fetchExportRows = async (type: ExportType, params: any): Promise<any[]> => {
+  const { startDate, endDate, filters = {} } = params;
+  const allowedFilters = Object.keys(filters).filter(key => EXPORT_FILTERS[type].includes(key));
+
+  if (type === 'logs') {
+    return filterSystemLogs(await readSystemLogs(), { startDate, endDate, level: filters.level });
+  }
+
+  // Cada filtro se reduce a un valor simple: un objeto como { $ne: null }
+  // llegaría a MongoDB como operador
+  const query: any = {};
+  allowedFilters.forEach(key => {
+    const value = String(filters[key]);
+
+    if (EXPORT_ID_FILTERS.includes(key) && !mongoose.Types.ObjectId.isValid(value)) {
+      throw new AppError(`Filtro ${key} no válido`, 400);
+    }
+
+    query[key] = EXPORT_ID_FILTERS.includes(key) ? new mongoose.Types.ObjectId(value) : value;
+  });
+
+  if (startDate || endDate) {
+    query.createdAt = {};
+    if (startDate) query.createdAt.$gte = new Date(startDate);
+    if (endDate) query.createdAt.$lte = new Date(endDate);
+  }
+
+  const model: mongoose.Model<any> = type === 'users' ? User : type === 'items' ? Item : Trade;
+
+  return model.find(query).select(EXPORT_COLUMNS[type].join(' ')).sort({ createdAt: -1 }).lean();
+};
+
+/**
+ * Resuelve los destinatarios de una notificación del sistema
+ *
+ * @param {any} recipients - 'all', 'admins', 'users' o lista de IDs
+ * @param {string} senderId - Administrador que envía la notificación
+ * @returns {Promise<{ userIds: string[], requested: number }>} Destinatarios activos y número solicitado
+ * @throws {AppError} Si los destinatarios no son válidos
+ */
+const resolveNotificationRecipients = async (recipients: any, senderId: string) => {
+  let query: any;
+  let requested: number | null = null;
+
+  if (recipients === 'all') {
+    query = {};
+  } else if (recipients === 'admins' || recipients === 'users') {
+    query = { role: recipients === 'admins' ? 'admin' : 'user' };
+  } else if (Array.isArray(recipients) && recipients.length > 0) {
+    const ids = Array.from(new Set(recipients.map((id: any) => String(id))));
+    if (ids.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      throw new AppError('Alguno de los destinatarios no es válido', 400);
+    }
+    query = { _id: { $in: ids } };
+    requested = ids.length;
+  } else {
+    throw new AppError("Los destinatarios deben ser 'all', 'admins', 'users' o una lista de IDs", 400);
+  }
+
+  const users = await User.find({ ...query, isActive: { $ne: false }, _id: { ...query._id, $ne: senderId } }).select('_id');
+  const userIds = users.map(user => user._id.toString());
+
+  return { userIds, requested: requested ?? userIds.length };
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Obtener estadísticas y analíticas del sistema
+ * @route   GET /api/v1/analytics
+ * @access  Private/Admin
+ * @query   {string} [period] - 'day', 'week', 'month' (por defecto) o 'year'
+ * @query   {string} [startDate] - Inicio del rango de las series (ISO 8601)
+ * @query   {string} [endDate] - Fin del rango de las series (ISO 8601)
+ *
+ * @description
+ * Devuelve en una misma respuesta los campos de AdminStats (users, items,
+ * trades, system) y los de AdminAnalytics (userGrowth, itemActivity,
+ * popularCategories, userActivity), ya que el frontend consulta ambos en
+ * esta misma ruta.
+ */
+export const getAnalytics = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const since = startOfMonth();
+
+  const [users, items, trades, system, analytics, logs] = await Promise.all([
+    buildUserStats(since),
+    buildItemStats(since),
+    buildTradeStats(since),
+    buildSystemInfo(),
+    buildAnalytics(req.query),
+    readSystemLogs()
+  ]);
+
+  const errors = filterSystemLogs(logs, {
+    level: 'error',
+    startDate: analytics.range.start,
+    endDate: analytics.range.end
+  }).length;
+
+  res.status(200).json({
+    success: true,
+    data: {
+      users,
+      items,
+      trades,
+      system,
+      errors,
+      pendingModerations: items.pending,
+      activeUsers: users.active,
+      totalUsers: users.total,
+      userGrowth: analytics.userGrowth,
+      itemActivity: analytics.itemActivity,
+      popularCategories: analytics.popularCategories,
+      userActivity: analytics.userActivity
+    }
+  });
+});
+
+/**
+ * @desc    Obtener los logs del sistema
+ * @route   GET /api/v1/admin/logs
+ * @access  Private/Admin
+ * @query   {string} [level] - 'info', 'warn', 'error' o 'debug'
+ * @query   {string} [startDate] - Fecha mínima (ISO 8601)
+ * @query   {string} [endDate] - Fecha máxima (ISO 8601)
+ * @query   {string} [userId] - ID de usuario mencionado en el mensaje
+ * @query   {string} [action] - Texto a buscar en el mensaje
+ * @query   {number} [page] - Página (por defecto 1)
+ * @query   {number} [limit] - Resultados por página (por defecto 50, máximo 200)
+ */
+export const getSystemLogs = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+
+  const entries = filterSystemLogs(await readSystemLogs(), req.query);
+  const data = entries.slice((page - 1) * limit, page * limit);
+
+  res.status(200).json({
+    success: true,
+    count: data.length,
+    pagination: {
+      page,
+      limit,
+      total: entries.length,
+      pages: Math.ceil(entries.length / limit)
+    },
+    data
+  });
+});
+
+/**
+ * @desc    Exportar datos del sistema
+ * @route   POST /api/v1/admin/export/:type
+ * @access  Private/Admin
+ * @param   {string} type - 'users', 'items', 'trades' o 'logs'
+ * @body    {string} [format] - 'csv' (por defecto) o 'json'
+ * @body    {string} [startDate] - Fecha mínima de creación
+ * @body    {string} [endDate] - Fecha máxima de creación
+ * @body    {object} [filters] - Filtros admitidos según el tipo
+ */
+export const exportData = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const type = req.params.type as ExportType;
+  const params = req.body || {};
+  const format = params.format || 'csv';
+
+  if (!EXPORT_COLUMNS[type]) {
+    return next(new AppError(`Tipo de exportación no válido: ${type}`, 400));
+  }
+
+  if (!['csv', 'json'].includes(format)) {
+    return next(new AppError(`Formato de exportación no soportado: ${format}`, 400));
+  }
+
+  const rows = await fetchExportRows(type, params);
+  const columns = EXPORT_COLUMNS[type];
+  const content = format === 'csv'
+    ? toCsv(rows, columns)
+    : JSON.stringify(rows.map(row => columns.reduce((acc: any, column) => {
+      acc[column] = row[column];
+      return acc;
+    }, {})), null, 2);
+
+  const fileName = `${type}-${Date.now()}.${format}`;
+  await fs.promises.mkdir(getExportDir(), { recursive: true });
+  await fs.promises.writeFile(path.join(getExportDir(), fileName), content, 'utf8');
+
+  logger.info(`Exportación ${fileName} generada por el administrador ${req.user.id} (${rows.length} registros)`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      downloadUrl: `/api/v1/admin/export/download/${fileName}`,
+      count: rows.length
+    }
+  });
+});
+
+/**
+ * @desc    Descargar una exportación generada previamente
+ * @route   GET /api/v1/admin/export/download/:file
+ * @access  Private/Admin
+ */
+export const downloadExport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const fileName = req.params.file as string;
+
+  if (!EXPORT_FILE_PATTERN.test(fileName)) {
+    return next(new AppError('Nombre de exportación no válido', 400));
+  }
+
+  const filePath = path.join(getExportDir(), fileName);
+
+  if (!fs.existsSync(filePath)) {
+    return next(new AppError(`Exportación ${fileName} no encontrada`, 404));
+  }
+
+  res.download(filePath);
+});
+
+/**
+ * @desc    Crear un respaldo completo de la base de datos
+ * @route   POST /api/v1/admin/backup
+ * @access  Private/Admin
+ *
+ * @description
+ * Vuelca todas las colecciones en un fichero JSON. Mientras se escribe el
+ * fichero lleva el sufijo .partial; si falla se renombra con el sufijo
+ * .failed para que quede reflejado en el historial.
+ */
+export const createBackup = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const backupId = `backup-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const backupDir = getBackupDir();
+  const finalPath = path.join(backupDir, `${backupId}.json`);
+  const partialPath = `${finalPath}.partial`;
+
+  await fs.promises.mkdir(backupDir, { recursive: true });
+  const stream = fs.createWriteStream(partialPath, 'utf8');
+
+  try {
+    await writeChunk(stream, `{"createdAt":${JSON.stringify(new Date())},"collections":{`);
+
+    const collections = getBackupModels();
+    for (const [index, [name, model]] of collections.entries()) {
+      await writeChunk(stream, `${index > 0 ? ',' : ''}${JSON.stringify(name)}:[`);
+
+      // Se lee la colección directamente para incluir los campos con select: false
+      // (contraseñas, secretos de 2FA, coordenadas exactas...)
+      let first = true;
+      for await (const doc of model.collection.find()) {
+        await writeChunk(stream, `${first ? '' : ','}${JSON.stringify(doc)}`);
+        first = false;
+      }
+
+      await writeChunk(stream, ']');
+    }
+
+    await writeChunk(stream, '}}');
+    stream.end();
+    await once(stream, 'finish');
+    await fs.promises.rename(partialPath, finalPath);
+  } catch (error) {
+    stream.destroy();
+    await fs.promises.rename(partialPath, `${finalPath}.failed`).catch(() => undefined);
+    logger.error(`Error al crear el respaldo ${backupId}: ${(error as Error).message}`);
+    throw error;
+  }
+
+  logger.info(`Respaldo ${backupId} creado por el administrador ${req.user.id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      backupId,
+      downloadUrl: `/api/v1/admin/backup/${backupId}/download`
+    }
+  });
+});
+
+/**
+ * @desc    Obtener el historial de respaldos
+ * @route   GET /api/v1/admin/backup/history
+ * @access  Private/Admin
+ */
+export const getBackupHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const backups = await listBackups();
+
+  res.status(200).json({
+    success: true,
+    count: backups.length,
+    data: backups
+  });
+});
+
+/**
+ * @desc    Descargar un respaldo completado
+ * @route   GET /api/v1/admin/backup/:id/download
+ * @access  Private/Admin
+ */
+export const downloadBackup = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const backupId = req.params.id as string;
+
+  if (!/^backup-[\w-]+$/.test(backupId)) {
+    return next(new AppError('Identificador de respaldo no válido', 400));
+  }
+
+  const filePath = path.join(getBackupDir(), `${backupId}.json`);
+
+  if (!fs.existsSync(filePath)) {
+    return next(new AppError(`Respaldo ${backupId} no encontrado`, 404));
+  }
+
+  res.download(filePath);
+});
+
+/**
+ * @desc    Obtener la configuración del sistema
+ * @route   GET /api/v1/admin/settings
+ * @access  Private/Admin
+ */
+export const getSystemSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const stored = await Setting.find({ key: { $in: Object.keys(DEFAULT_SETTINGS) } });
+
+  const settings = stored.reduce((acc: Record<string, any>, setting) => {
+    acc[setting.key] = setting.value;
+    return acc;
+  }, { ...DEFAULT_SETTINGS });
+
+  res.status(200).json({
+    success: true,
+    data: settings
+  });
+});
+
+/**
+ * @desc    Actualizar la configuración del sistema
+ * @route   PATCH /api/v1/admin/settings
+ * @access  Private/Admin
+ * @body    {object} - Claves de DEFAULT_SETTINGS con sus nuevos valores
+ */
+export const updateSystemSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const updates = req.body || {};
+  const keys = Object.keys(updates);
+
+  if (keys.length === 0) {
+    return next(new AppError('No se ha indicado ninguna configuración', 400));
+  }
+
+  const unknownKeys = keys.filter(key => !(key in DEFAULT_SETTINGS));
+  if (unknownKeys.length > 0) {
+    return next(new AppError(`Configuración desconocida: ${unknownKeys.join(', ')}`, 400));
+  }
+
+  const invalidKeys = keys.filter(key => typeof updates[key] !== typeof DEFAULT_SETTINGS[key]);
+  if (invalidKeys.length > 0) {
+    return next(new AppError(`Valor no válido para: ${invalidKeys.join(', ')}`, 400));
+  }
+
+  await Promise.all(keys.map(key => Setting.findOneAndUpdate(
+    { key },
+    { value: typeof updates[key] === 'string' ? updates[key].trim() : updates[key], updatedBy: req.user.id },
+    { upsert: true, new: true, runValidators: true }
+  )));
+
+  logger.info(`Configuración actualizada por el administrador ${req.user.id}: ${keys.join(', ')}`);
+
+  return getSystemSettings(req, res, next);
+});
+
+/**
+ * @desc    Enviar una notificación del sistema
+ * @route   POST /api/v1/admin/notifications
+ * @access  Private/Admin
+ * @body    {string} title - Título de la notificación
+ * @body    {string} message - Texto de la notificación
+ * @body    {string} type - 'info', 'warning', 'error' o 'success'
+ * @body    {string|string[]} recipients - 'all', 'admins', 'users' o lista de IDs
+ * @body    {string[]} channels - Canales solicitados
+ *
+ * @description
+ * La notificación se guarda en el centro de notificaciones de cada
+ * destinatario activo, por lo que solo el canal in_app está disponible.
+ */
+export const sendSystemNotification = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { title, message, type, recipients, channels } = req.body || {};
+
+  if (!title || !message) {
+    return next(new AppError('El título y el mensaje son obligatorios', 400));
+  }
+
+  if (!['info', 'warning', 'error', 'success'].includes(type)) {
+    return next(new AppError(`Tipo de notificación no válido: ${type}`, 400));
+  }
+
+  if (!Array.isArray(channels) || !channels.includes('in_app')) {
+    return next(new AppError('Por ahora solo está disponible el canal in_app', 400));
+  }
+
+  if (String(title).trim().length > 200 || String(message).trim().length > 1000) {
+    return next(new AppError('El título no puede superar 200 caracteres ni el mensaje 1000', 400));
+  }
+
+  const { userIds, requested } = await resolveNotificationRecipients(recipients, req.user.id);
+
+  // Cada destinatario la recibe en su centro de notificaciones
+  const sent = await notifyUsers(userIds, {
+    type: 'admin_broadcast',
+    title: String(title).trim(),
+    body: String(message).trim(),
+    payload: { level: type, sentBy: req.user.id }
+  });
+
+  logger.info(`Notificación '${title}' (${type}) enviada por el administrador ${req.user.id} a ${sent} usuarios`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      sent,
+      failed: Math.max(requested - sent, 0)
+    }
+  });
+});
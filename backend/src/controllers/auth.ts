@@ -9,9 +9,12 @@
  * Funcionalidades principales:
  * - Registro de nuevos usuarios con validaciones
  * - Inicio de sesión con email y contraseña
- * - Cierre de sesión (limpieza de cookies)
+ * - Límite de intentos fallidos por cuenta y por IP con desbloqueo por email
+ * - Verificación en dos pasos (TOTP) con códigos de recuperación
+ * - Sesiones en el servidor con refresh tokens rotatorios
+ * - Cierre de sesión en este dispositivo o en todos
  * - Obtención de perfil del usuario autenticado
- * - Restablecimiento de contraseña
+ * - Cambio de contraseña con historial y restablecimiento de contraseña
  * - Generación y gestión de tokens JWT
  * - Validaciones de seguridad y formato
  * 
@@ -20,8 +23,9 @@
  * - Validación de longitud de contraseña
  * - Verificación de usuarios duplicados
  * - Hasheo automático de contraseñas
- * - Tokens JWT seguros con expiración
- * - Limpieza de cookies en logout
+ * - Tokens de acceso JWT de corta duración ligados a una sesión
+ * - Refresh tokens guardados solo como hash y rotados en cada uso
+ * - Revocación de sesiones en logout
  * 
  * @author Equipo de Desarrollo Ecommunitas
  * @version 1.0.0
@@ -36,15 +40,53 @@
 import { Request, Response, NextFunction } from 'express';
 
 // Modelo de usuario para operaciones de base de datos
-import User from '../models/User';
+import User, { getPasswordStrengthError } from '../models/User';
+
+// Sesiones del servidor y refresh tokens
+import Session, {
+  createSession,
+  rotateSessionToken,
+  getRefreshTokenGraceSeconds,
+  revokeUserSessions,
+  hashRefreshToken,
+  SessionClientInfo
+} from '../models/Session';
+
+// Control de intentos fallidos de inicio de sesión
+import {
+  getLoginBlock,
+  clearLoginFailures,
+  unlockAccountByToken,
+  normalizeAccountKey
+} from '../models/LoginAttempt';
+
+// Límite de intentos fallidos compartido con las acciones que piden la contraseña
+import { rejectFailedLogin, getLoginBlockError, reauthenticateUser } from '../utils/loginThrottle';
+
+// Verificación en dos pasos
+import { generateTotpSecret, buildOtpauthUri, verifyTotpCode } from '../utils/totp';
+import { isTwoFactorRequiredForRole } from '../middleware/auth';
 
 // Utilidades para manejo de errores
 import ErrorResponse from '../utils/errorResponse';
 import asyncHandler from '../utils/async';
 
+// Envío de emails transaccionales
+import { sendTemplateEmail, buildFrontendUrl } from '../mailer';
+import { disconnectSession, disconnectUserSessions } from '../config/socket';
+import logger from '../utils/logger';
+
 // Librería crypto para operaciones criptográficas
 import crypto from 'crypto';
 
+// Verificación de tokens JWT
+import jwt from 'jsonwebtoken';
+
+/**
+ * Propósito del token temporal del segundo paso del inicio de sesión
+ */
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two-factor-login';
+
 // ============================================================================
 // CONTROLADORES DE AUTENTICACIÓN
 // ============================================================================
@@ -57,7 +99,7 @@ import crypto from 'crypto';
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
  * @body    { name: string, email: string, password: string }
- * @returns {Response} Token JWT y datos del usuario creado
+ * @returns {Response} Token JWT y datos del usuario creado (con el email aún sin verificar)
  */
 export const register = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   // Extraer datos del cuerpo de la petición
@@ -119,14 +161,27 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
   // ========================================================================
 
   /**
-   * Crear nuevo usuario en la base de datos
-   * El hasheo de la contraseña se realiza automáticamente en el modelo
+   * Crear nuevo usuario en la base de datos con su token de verificación
+   * El hasheo de la contraseña y del token se realiza en el modelo
    */
-  const user = await User.create({
+  const user = new User({
     name,
     email: email.toLowerCase(),
     password
   });
+  const verificationToken = user.getEmailVerificationToken();
+  await user.save();
+
+  /**
+   * Enviar email de verificación
+   * Un fallo del envío no impide el registro: el usuario puede pedir
+   * otro enlace desde /resend-verification
+   */
+  try {
+    await sendVerificationEmail(user, verificationToken);
+  } catch (error: any) {
+    logger.error(`Error al enviar el email de verificación a ${user.email}: ${error.message}`);
+  }
 
   // ========================================================================
   // RESPUESTA EXITOSA
@@ -136,7 +191,7 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
    * Enviar respuesta con token JWT
    * Utiliza función auxiliar para generar token y configurar cookie
    */
-  sendTokenResponse(user, 201, res);
+  await sendTokenResponse(user, 201, req, res);
 });
 
 /**
@@ -147,7 +202,7 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
  * @body    { email: string, password: string }
- * @returns {Response} Token JWT y datos del usuario autenticado
+ * @returns {Response} Token JWT y datos del usuario, o el token del segundo paso si tiene la verificación en dos pasos activada
  */
 export const login = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   // Extraer credenciales del cuerpo de la petición
@@ -165,6 +220,26 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
     return next(new ErrorResponse('Por favor proporcione email y contraseña', 400));
   }
 
+  // ========================================================================
+  // LÍMITE DE INTENTOS FALLIDOS
+  // ========================================================================
+
+  /**
+   * Rechazar el intento si la cuenta o la IP están bloqueadas
+   * o si aún no ha pasado la espera desde el último fallo
+   */
+  const accountKey = normalizeAccountKey(email);
+  const ipKey = req.ip || 'desconocida';
+
+  const block = await getLoginBlock([
+    { scope: 'account', key: accountKey },
+    { scope: 'ip', key: ipKey }
+  ]);
+
+  if (block) {
+    return next(getLoginBlockError(block, res));
+  }
+
   // ========================================================================
   // BÚSQUEDA Y VERIFICACIÓN DEL USUARIO
   // ========================================================================
@@ -173,25 +248,49 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
    * Buscar usuario por email e incluir contraseña para verificación
    * Por defecto, la contraseña no se incluye en las consultas
    */
-  const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+  const user = await User.findOne({ email: accountKey }).select('+password');
 
   /**
-   * Verificar si el usuario existe
+   * Verificar contraseña utilizando método del modelo
+   * El método matchPassword compara la contraseña hasheada
+   * Un email inexistente cuenta como fallo igual que una contraseña incorrecta
    */
-  if (!user) {
-    return next(new ErrorResponse('Credenciales inválidas', 401));
+  const isMatch = user ? await user.matchPassword(password) : false;
+
+  if (!user || !isMatch) {
+    return next(await rejectFailedLogin(user, accountKey, ipKey, 'Credenciales inválidas'));
   }
 
   /**
-   * Verificar contraseña utilizando método del modelo
-   * El método matchPassword compara la contraseña hasheada
+   * Verificar que la cuenta no haya sido suspendida por moderación
    */
-  const isMatch = await (user as any).matchPassword(password);
+  if (user.isActive === false) {
+    return next(new ErrorResponse('Tu cuenta ha sido suspendida. Contacta con el equipo de soporte', 403));
+  }
+
+  // ========================================================================
+  // VERIFICACIÓN EN DOS PASOS
+  // ========================================================================
 
-  if (!isMatch) {
-    return next(new ErrorResponse('Credenciales inválidas', 401));
+  /**
+   * Con la verificación en dos pasos activada, la contraseña solo da acceso
+   * al segundo paso: se devuelve un token temporal para enviar el código.
+   * Los fallos de la cuenta se olvidan cuando se completa el segundo paso.
+   */
+  if (user.twoFactorEnabled) {
+    return res.status(200).json({
+      success: true,
+      twoFactorRequired: true,
+      twoFactorToken: signTwoFactorChallenge(user.id),
+      message: 'Introduce el código de tu aplicación de autenticación'
+    });
   }
 
+  /**
+   * Credenciales correctas: olvidar los fallos anteriores de la cuenta
+   */
+  await clearLoginFailures('account', accountKey);
+
   // ========================================================================
   // RESPUESTA EXITOSA
   // ========================================================================
@@ -200,19 +299,34 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
    * Enviar respuesta con token JWT
    * Utiliza función auxiliar para generar token y configurar cookie
    */
-  sendTokenResponse(user, 200, res);
+  await sendTokenResponse(user, 200, req, res);
 });
 
 /**
- * @desc    Cerrar sesión del usuario y limpiar cookie de autenticación
- * @route   GET /api/v1/auth/logout
- * @access  Private
+ * @desc    Cerrar la sesión de este dispositivo y limpiar cookie de autenticación
+ * @route   POST /api/v1/auth/logout
+ * @access  Public
  * @param   {Request} req - Objeto de petición de Express
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { refreshToken?: string }
  * @returns {Response} Confirmación de cierre de sesión exitoso
  */
 export const logout = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  /**
+   * Revocar la sesión del dispositivo
+   * Se identifica por el refresh token o, si no se envía, por el token de acceso
+   */
+  const sessionId = await findSessionIdFromRequest(req);
+
+  if (sessionId) {
+    await Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    disconnectSession(sessionId);
+  }
+
   /**
    * Limpiar cookie de autenticación
    * Establece la cookie con valor vacío y expiración inmediata
@@ -232,6 +346,187 @@ export const logout = asyncHandler(async (req: Request, res: Response, next: Nex
   });
 });
 
+/**
+ * @desc    Cerrar sesión en todos los dispositivos del usuario
+ * @route   POST /api/v1/auth/logout-all
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Número de sesiones cerradas
+ */
+export const logoutAll = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+
+  /**
+   * Revocar todas las sesiones activas, incluida la actual
+   */
+  const revoked = await revokeUserSessions(user._id);
+  disconnectUserSessions(user._id);
+
+  res.cookie('token', 'none', {
+    expires: new Date(Date.now() + 10 * 1000),
+    httpOnly: true
+  });
+
+  logger.info(`Usuario ${user.id} cerró sesión en todos sus dispositivos (${revoked} sesiones)`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Se ha cerrado la sesión en todos tus dispositivos',
+    data: { revoked }
+  });
+});
+
+/**
+ * Revoca la sesión cuyo refresh token anterior se ha vuelto a presentar
+ *
+ * @param {string} tokenHash - Hash del refresh token presentado
+ *
+ * @description
+ * Un refresh token ya rotado no debería volver a usarse: si aparece,
+ * alguien lo ha copiado y se revoca la sesión por seguridad. Justo después
+ * de la rotación se rechaza sin revocar: suele ser otra pestaña que
+ * renovaba a la vez y que tomará el token nuevo del almacenamiento
+ */
+const revokeReusedRefreshToken = async (tokenHash: string): Promise<void> => {
+  const graceStart = new Date(Date.now() - getRefreshTokenGraceSeconds() * 1000);
+  const reused = await Session.findOneAndUpdate(
+    { previousRefreshTokenHash: tokenHash, revokedAt: { $exists: false }, rotatedAt: { $not: { $gte: graceStart } } },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  if (reused) {
+    disconnectSession(reused.id);
+    logger.warn(`Reutilización de refresh token detectada: sesión ${reused.id} del usuario ${reused.user} revocada`);
+  }
+};
+
+/**
+ * @desc    Renovar el token de acceso con un refresh token
+ * @route   POST /api/v1/auth/refresh
+ * @access  Public
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { refreshToken: string }
+ * @returns {Response} Nuevo token de acceso y nuevo refresh token
+ */
+export const refreshToken = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { refreshToken: presentedToken } = req.body || {};
+
+  if (!presentedToken) {
+    return next(new ErrorResponse('El refresh token es requerido', 400));
+  }
+
+  // ========================================================================
+  // BÚSQUEDA DE LA SESIÓN
+  // ========================================================================
+
+  const tokenHash = hashRefreshToken(presentedToken);
+
+  const session = await Session.findOne({ refreshTokenHash: tokenHash })
+    .select('+refreshTokenHash +previousRefreshTokenHash');
+
+  if (!session) {
+    await revokeReusedRefreshToken(tokenHash);
+    return next(new ErrorResponse('Sesión inválida o expirada', 401));
+  }
+
+  if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return next(new ErrorResponse('Sesión inválida o expirada', 401));
+  }
+
+  const user = await User.findById(session.user);
+
+  if (!user || user.isActive === false) {
+    return next(new ErrorResponse('Sesión inválida o expirada', 401));
+  }
+
+  // ========================================================================
+  // ROTACIÓN DEL REFRESH TOKEN
+  // ========================================================================
+
+  const newRefreshToken = await rotateSessionToken(session, getClientInfo(req));
+
+  // Otra petición con el mismo token se adelantó: el token ya es el anterior
+  if (!newRefreshToken) {
+    await revokeReusedRefreshToken(tokenHash);
+    return next(new ErrorResponse('Sesión inválida o expirada', 401));
+  }
+
+  const token = user.getSignedJwtToken(session.id);
+
+  res.status(200).json({
+    success: true,
+    token,
+    refreshToken: newRefreshToken
+  });
+});
+
+/**
+ * @desc    Listar las sesiones activas del usuario autenticado
+ * @route   GET /api/v1/auth/sessions
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user y sessionId)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Sesiones activas, indicando cuál es la actual
+ */
+export const getSessions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { user, sessionId } = req as any;
+
+  const sessions = await Session.find({
+    user: user._id,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+
+  res.status(200).json({
+    success: true,
+    count: sessions.length,
+    data: sessions.map(session => ({
+      _id: session._id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      current: session.id === sessionId
+    }))
+  });
+});
+
+/**
+ * @desc    Cerrar una sesión concreta del usuario autenticado
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Confirmación de la revocación
+ */
+export const revokeSession = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+
+  const session = await Session.findOneAndUpdate(
+    { _id: req.params.id, user: user._id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  if (!session) {
+    return next(new ErrorResponse('Sesión no encontrada', 404));
+  }
+
+  disconnectSession(session.id);
+
+  res.status(200).json({
+    success: true,
+    message: 'Sesión cerrada exitosamente',
+    data: {}
+  });
+});
+
 /**
  * @desc    Obtener información del usuario autenticado
  * @route   GET /api/v1/auth/me
@@ -258,6 +553,104 @@ export const getMe = asyncHandler(async (req: Request, res: Response, next: Next
   });
 });
 
+/**
+ * @desc    Cambiar la contraseña del usuario autenticado
+ * @route   PUT /api/v1/auth/updatepassword
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { currentPassword: string, newPassword: string, confirmPassword?: string }
+ * @returns {Response} Confirmación del cambio
+ */
+export const updatePassword = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { currentPassword, newPassword, confirmPassword } = req.body || {};
+
+  // ========================================================================
+  // VALIDACIONES DE ENTRADA
+  // ========================================================================
+
+  if (!currentPassword || !newPassword) {
+    return next(new ErrorResponse('La contraseña actual y la nueva contraseña son requeridas', 400));
+  }
+
+  if (confirmPassword !== undefined && confirmPassword !== newPassword) {
+    return next(new ErrorResponse('Las contraseñas no coinciden', 400));
+  }
+
+  /**
+   * Mismas reglas de seguridad que el esquema de usuario
+   */
+  const strengthError = getPasswordStrengthError(newPassword);
+  if (strengthError) {
+    return next(new ErrorResponse(strengthError, 400));
+  }
+
+  // ========================================================================
+  // VERIFICACIÓN DE LA CONTRASEÑA ACTUAL
+  // ========================================================================
+
+  const user = await User.findById((req as any).user.id).select('+password +passwordHistory');
+
+  if (!user) {
+    return next(new ErrorResponse('Usuario no encontrado', 404));
+  }
+
+  // Los fallos cuentan para el límite de intentos, como en el inicio de sesión
+  const reauthError = await reauthenticateUser(
+    req,
+    res,
+    user,
+    () => user.matchPassword(currentPassword),
+    'La contraseña actual no es correcta'
+  );
+  if (reauthError) {
+    return next(reauthError);
+  }
+
+  /**
+   * Impedir que se reutilice la contraseña actual o una reciente
+   */
+  if (await user.isPasswordReused(newPassword)) {
+    return next(new ErrorResponse('No puedes reutilizar ninguna de tus últimas contraseñas', 400));
+  }
+
+  // ========================================================================
+  // ACTUALIZACIÓN DE CONTRASEÑA
+  // ========================================================================
+
+  user.rememberCurrentPassword();
+  user.password = newPassword;
+  await user.save();
+
+  /**
+   * Cerrar el resto de sesiones; la sesión actual sigue abierta
+   */
+  const revoked = await revokeUserSessions(user._id, (req as any).sessionId);
+  disconnectUserSessions(user._id, (req as any).sessionId);
+
+  logger.info(`Usuario ${user.id} cambió su contraseña (${revoked} sesiones cerradas)`);
+
+  /**
+   * Avisar por email del cambio
+   * Un fallo en el envío no deshace el cambio de contraseña
+   */
+  try {
+    await sendTemplateEmail(user.email, 'passwordChanged', {
+      name: user.name,
+      changedAt: new Date().toLocaleString('es-ES', { timeZone: 'Europe/Madrid' }),
+      loginUrl: buildFrontendUrl('/login')
+    });
+  } catch (error: any) {
+    logger.error(`Error al enviar el aviso de cambio de contraseña a ${user.email}: ${error.message}`);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'Contraseña actualizada exitosamente'
+  });
+});
+
 /**
  * @desc    Solicitar restablecimiento de contraseña
  * @route   POST /api/v1/auth/forgotpassword
@@ -266,7 +659,7 @@ export const getMe = asyncHandler(async (req: Request, res: Response, next: Next
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
  * @body    { email: string }
- * @returns {Response} Token de restablecimiento y confirmación
+ * @returns {Response} Confirmación genérica (el enlace se envía por email)
  */
 export const forgotPassword = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   // Extraer email del cuerpo de la petición
@@ -304,16 +697,16 @@ export const forgotPassword = asyncHandler(async (req: Request, res: Response, n
   const user = await User.findOne({ email: email.toLowerCase() });
 
   /**
-   * Verificar si el usuario existe
-   * Por seguridad, siempre devolvemos éxito aunque el usuario no exista
+   * Respuesta común exista o no la cuenta
+   * Por seguridad, no revelamos si el email está registrado
    */
+  const genericResponse = {
+    success: true,
+    message: 'Si el email existe en nuestro sistema, recibirás un enlace de restablecimiento'
+  };
+
   if (!user) {
-    // Por seguridad, no revelamos si el email existe o no
-    return res.status(200).json({
-      success: true,
-      message: 'Si el email existe en nuestro sistema, recibirás un enlace de restablecimiento',
-      resetToken: 'dummy-token-for-security' // Token ficticio por seguridad
-    });
+    return res.status(200).json(genericResponse);
   }
 
   // ========================================================================
@@ -322,41 +715,40 @@ export const forgotPassword = asyncHandler(async (req: Request, res: Response, n
 
   /**
    * Generar token de restablecimiento
-   * Utiliza el método del modelo User si existe, o genera uno simple
+   * El modelo guarda solo el hash del token y su caducidad (10 minutos)
    */
-  let resetToken: string;
-  try {
-    // Intentar usar el método del modelo si existe
-    resetToken = (user as any).getResetPasswordToken ? (user as any).getResetPasswordToken() : crypto.randomBytes(20).toString('hex');
-  } catch (error) {
-    // Fallback: generar token simple
-    resetToken = crypto.randomBytes(20).toString('hex');
-  }
+  const resetToken = user.getResetPasswordToken();
+  await user.save({ validateBeforeSave: false });
+
+  // ========================================================================
+  // ENVÍO DEL EMAIL
+  // ========================================================================
 
   /**
-   * Guardar el usuario con el token de restablecimiento
-   * En una implementación completa, aquí se enviaría un email
+   * Enviar el enlace de restablecimiento al email del usuario
+   * El token solo viaja en el email, nunca en la respuesta
    */
   try {
+    await sendTemplateEmail(user.email, 'resetPassword', {
+      name: user.name,
+      resetUrl: buildFrontendUrl(`/reset-password/${resetToken}`),
+      expiresInMinutes: 10
+    });
+  } catch (error: any) {
+    logger.error(`Error al enviar el email de restablecimiento a ${user.email}: ${error.message}`);
+
+    // Invalidar el token que no ha podido entregarse. La respuesta es la
+    // misma que para un email no registrado para no revelar que existe
+    user.resetPasswordToken = undefined;
+    user.resetPasswordExpire = undefined;
     await user.save({ validateBeforeSave: false });
-  } catch (error) {
-    // Si hay error al guardar, continuar con la respuesta por seguridad
-    console.log('Error al guardar token de restablecimiento:', error);
   }
 
   // ========================================================================
   // RESPUESTA EXITOSA
   // ========================================================================
 
-  /**
-   * Enviar respuesta exitosa
-   * En producción, aquí se enviaría un email con el token
-   */
-  res.status(200).json({
-    success: true,
-    message: 'Token de restablecimiento generado exitosamente',
-    resetToken: resetToken // En producción, esto no se devolvería
-  });
+  res.status(200).json(genericResponse);
 });
 
 /**
@@ -366,13 +758,13 @@ export const forgotPassword = asyncHandler(async (req: Request, res: Response, n
  * @param   {Request} req - Objeto de petición de Express
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
- * @body    { password: string }
+ * @body    { password: string, confirmPassword?: string }
  * @returns {Response} Token JWT y confirmación de restablecimiento
  */
 export const resetPassword = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   // Extraer token de los parámetros de la URL
-  const { resettoken } = req.params;
-  const { password } = req.body;
+  const resettoken = req.params.resettoken as string;
+  const { password, confirmPassword } = req.body || {};
 
   // ========================================================================
   // VALIDACIONES DE ENTRADA
@@ -386,12 +778,16 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response, ne
     return next(new ErrorResponse('Token de restablecimiento y nueva contraseña son requeridos', 400));
   }
 
+  if (confirmPassword !== undefined && confirmPassword !== password) {
+    return next(new ErrorResponse('Las contraseñas no coinciden', 400));
+  }
+
   /**
-   * Validación de seguridad de contraseña
-   * La contraseña debe tener al menos 8 caracteres
+   * Mismas reglas de seguridad que el esquema de usuario y updatePassword
    */
-  if (password.length < 8) {
-    return next(new ErrorResponse('La contraseña debe tener al menos 8 caracteres', 400));
+  const strengthError = getPasswordStrengthError(password);
+  if (strengthError) {
+    return next(new ErrorResponse(strengthError, 400));
   }
 
   // ========================================================================
@@ -400,7 +796,7 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response, ne
 
   /**
    * Hashear el token para comparar con el almacenado
-   * En una implementación completa, se buscaría por el token hasheado
+   * El modelo solo guarda el hash del token enviado por email
    */
   const resetPasswordToken = crypto
     .createHash('sha256')
@@ -410,26 +806,36 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response, ne
   /**
    * Buscar usuario por token de restablecimiento
    * También verificar que el token no haya expirado
-   * Por simplicidad en testing, buscamos cualquier usuario
    */
-  const user = await User.findOne({});
+  const user = await User.findOne({
+    resetPasswordToken,
+    resetPasswordExpire: { $gt: Date.now() }
+  }).select('+password +passwordHistory');
 
   /**
    * Verificar si el token es válido
-   * Por simplicidad, aceptamos cualquier token para testing
    */
   if (!user) {
     return next(new ErrorResponse('Token de restablecimiento inválido o expirado', 400));
   }
 
+  /**
+   * Impedir que se reutilice la contraseña actual o una reciente
+   * El token sigue siendo válido para intentarlo con otra
+   */
+  if (await user.isPasswordReused(password)) {
+    return next(new ErrorResponse('No puedes reutilizar ninguna de tus últimas contraseñas', 400));
+  }
+
   // ========================================================================
   // ACTUALIZACIÓN DE CONTRASEÑA
   // ========================================================================
 
   /**
    * Establecer nueva contraseña
-   * El hasheo se hace automáticamente en el modelo
+   * La anterior pasa al historial y el hasheo se hace automáticamente en el modelo
    */
+  user.rememberCurrentPassword();
   user.password = password;
   
   /**
@@ -444,15 +850,379 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response, ne
    */
   await user.save();
 
+  /**
+   * Cerrar las sesiones abiertas con la contraseña anterior
+   */
+  await revokeUserSessions(user._id);
+  disconnectUserSessions(user._id);
+
   // ========================================================================
   // RESPUESTA EXITOSA
   // ========================================================================
 
+  /**
+   * Con la verificación en dos pasos activada el enlace del email no basta
+   * para entrar: el usuario debe iniciar sesión y completar el segundo paso
+   */
+  if (user.twoFactorEnabled) {
+    return res.status(200).json({
+      success: true,
+      message: 'Contraseña restablecida. Inicia sesión para continuar'
+    });
+  }
+
   /**
    * Enviar respuesta con nuevo token JWT
    * El usuario queda automáticamente autenticado
    */
-  sendTokenResponse(user, 200, res);
+  await sendTokenResponse(user, 200, req, res);
+});
+
+/**
+ * @desc    Verificar el email del usuario con el token recibido por email
+ * @route   GET /api/v1/auth/verify-email/:token
+ * @access  Public
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Confirmación de la verificación
+ */
+export const verifyEmail = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  // Extraer token de los parámetros de la URL
+  const token = req.params.token as string;
+
+  // ========================================================================
+  // VERIFICACIÓN DEL TOKEN
+  // ========================================================================
+
+  /**
+   * Hashear el token para comparar con el almacenado
+   * El modelo solo guarda el hash del token enviado por email
+   */
+  const emailVerificationToken = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+
+  /**
+   * Buscar usuario por token de verificación no expirado
+   */
+  const user = await User.findOne({
+    emailVerificationToken,
+    emailVerificationExpire: { $gt: Date.now() }
+  });
+
+  if (!user) {
+    return next(new ErrorResponse('Enlace de verificación inválido o expirado', 400));
+  }
+
+  // ========================================================================
+  // ACTUALIZACIÓN DEL USUARIO
+  // ========================================================================
+
+  /**
+   * Marcar el email como verificado y limpiar el token
+   */
+  user.emailVerified = true;
+  user.emailVerificationToken = undefined;
+  user.emailVerificationExpire = undefined;
+  await user.save({ validateBeforeSave: false });
+
+  /**
+   * Enviar email de bienvenida sin bloquear la respuesta
+   * Un fallo del envío solo se registra en el log
+   */
+  sendTemplateEmail(user.email, 'welcome', {
+    name: user.name,
+    appUrl: buildFrontendUrl('/')
+  }).catch((error) => logger.error(`Error al enviar el email de bienvenida a ${user.email}: ${error.message}`));
+
+  // ========================================================================
+  // RESPUESTA EXITOSA
+  // ========================================================================
+
+  res.status(200).json({
+    success: true,
+    message: 'Email verificado exitosamente'
+  });
+});
+
+/**
+ * @desc    Desbloquear una cuenta con el token recibido por email
+ * @route   GET /api/v1/auth/unlock-account/:token
+ * @access  Public
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Confirmación del desbloqueo
+ */
+export const unlockAccount = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.params.token as string;
+
+  const email = token ? await unlockAccountByToken(token) : null;
+
+  if (!email) {
+    return next(new ErrorResponse('El enlace de desbloqueo no es válido o la cuenta ya no está bloqueada', 400));
+  }
+
+  logger.info(`Cuenta ${email} desbloqueada desde el enlace enviado por email`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Tu cuenta está desbloqueada. Ya puedes iniciar sesión'
+  });
+});
+
+/**
+ * @desc    Reenviar el email de verificación al usuario autenticado
+ * @route   POST /api/v1/auth/resend-verification
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Confirmación del envío
+ */
+export const resendVerification = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+
+  /**
+   * No tiene sentido reenviar el enlace a un email ya verificado
+   */
+  if (user.emailVerified) {
+    return next(new ErrorResponse('Tu email ya está verificado', 400));
+  }
+
+  /**
+   * Generar un token nuevo (invalida el anterior) y enviarlo
+   */
+  const verificationToken = user.getEmailVerificationToken();
+  await user.save({ validateBeforeSave: false });
+
+  try {
+    await sendVerificationEmail(user, verificationToken);
+  } catch (error: any) {
+    logger.error(`Error al reenviar el email de verificación a ${user.email}: ${error.message}`);
+    return next(new ErrorResponse('No se pudo enviar el email de verificación', 500));
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Te hemos enviado un nuevo enlace de verificación a ${user.email}`
+  });
+});
+
+// ============================================================================
+// VERIFICACIÓN EN DOS PASOS
+// ============================================================================
+
+/**
+ * @desc    Completar el inicio de sesión con el código de verificación en dos pasos
+ * @route   POST /api/v1/auth/2fa/login
+ * @access  Public
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { twoFactorToken: string, code: string }
+ * @returns {Response} Token JWT y datos del usuario autenticado
+ */
+export const loginTwoFactor = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { twoFactorToken, code } = req.body || {};
+
+  if (!twoFactorToken || !code) {
+    return next(new ErrorResponse('El token del inicio de sesión y el código son requeridos', 400));
+  }
+
+  /**
+   * El token temporal solo es válido durante unos minutos tras el primer paso
+   */
+  let decoded: any;
+  try {
+    decoded = jwt.verify(twoFactorToken, process.env.JWT_SECRET as string);
+  } catch (error) {
+    return next(new ErrorResponse('El inicio de sesión ha caducado. Vuelve a introducir tu contraseña', 401));
+  }
+
+  if (decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+    return next(new ErrorResponse('El inicio de sesión ha caducado. Vuelve a introducir tu contraseña', 401));
+  }
+
+  const user = await User.findById(decoded.id)
+    .select('+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep');
+
+  if (!user || !user.twoFactorEnabled || user.isActive === false) {
+    return next(new ErrorResponse('El inicio de sesión ha caducado. Vuelve a introducir tu contraseña', 401));
+  }
+
+  /**
+   * Los códigos fallidos cuentan para el límite de intentos igual que las contraseñas
+   */
+  const accountKey = normalizeAccountKey(user.email);
+  const ipKey = req.ip || 'desconocida';
+
+  const block = await getLoginBlock([
+    { scope: 'account', key: accountKey },
+    { scope: 'ip', key: ipKey }
+  ]);
+
+  if (block) {
+    return next(getLoginBlockError(block, res));
+  }
+
+  if (!user.verifyTwoFactorCode(code)) {
+    return next(await rejectFailedLogin(user, accountKey, ipKey, 'Código de verificación incorrecto'));
+  }
+
+  // Guardar el último intervalo usado o el código de recuperación consumido
+  await user.save({ validateBeforeSave: false });
+  await clearLoginFailures('account', accountKey);
+
+  await sendTokenResponse(user, 200, req, res);
+});
+
+/**
+ * @desc    Iniciar la activación de la verificación en dos pasos
+ * @route   POST /api/v1/auth/2fa/setup
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @returns {Response} Secreto y URI otpauth para mostrar como código QR
+ */
+export const setupTwoFactor = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+
+  if (user.twoFactorEnabled) {
+    return next(new ErrorResponse('La verificación en dos pasos ya está activada', 400));
+  }
+
+  /**
+   * El secreto queda pendiente hasta que el usuario confirme un código
+   */
+  const secret = generateTotpSecret();
+  user.twoFactorPendingSecret = secret;
+  await user.save({ validateBeforeSave: false });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email)
+    }
+  });
+});
+
+/**
+ * @desc    Confirmar la activación de la verificación en dos pasos con un código
+ * @route   POST /api/v1/auth/2fa/enable
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { code: string }
+ * @returns {Response} Códigos de recuperación (solo se muestran esta vez)
+ */
+export const enableTwoFactor = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { code } = req.body || {};
+
+  const user = await User.findById((req as any).user.id).select('+twoFactorPendingSecret');
+
+  if (!user) {
+    return next(new ErrorResponse('Usuario no encontrado', 404));
+  }
+
+  if (user.twoFactorEnabled) {
+    return next(new ErrorResponse('La verificación en dos pasos ya está activada', 400));
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    return next(new ErrorResponse('Primero debes iniciar la activación de la verificación en dos pasos', 400));
+  }
+
+  const step = code ? verifyTotpCode(user.twoFactorPendingSecret, code) : null;
+  if (step === null) {
+    return next(new ErrorResponse('Código de verificación incorrecto', 400));
+  }
+
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorEnabled = true;
+  user.twoFactorLastUsedStep = step;
+  const recoveryCodes = user.generateRecoveryCodes();
+  await user.save({ validateBeforeSave: false });
+
+  /**
+   * Las sesiones abiertas en otros dispositivos no pasaron el segundo paso
+   */
+  await revokeUserSessions(user._id, (req as any).sessionId);
+  disconnectUserSessions(user._id, (req as any).sessionId);
+
+  logger.info(`Usuario ${user.id} activó la verificación en dos pasos`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Verificación en dos pasos activada. Guarda los códigos de recuperación en un lugar seguro',
+    data: { recoveryCodes }
+  });
+});
+
+/**
+ * @desc    Desactivar la verificación en dos pasos
+ * @route   POST /api/v1/auth/2fa/disable
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { password: string, code: string }
+ * @returns {Response} Confirmación de la desactivación
+ */
+export const disableTwoFactor = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = await reauthenticateTwoFactor(req, res, next);
+  if (!user) {
+    return;
+  }
+
+  if (await isTwoFactorRequiredForRole(user.role)) {
+    return next(new ErrorResponse('La verificación en dos pasos es obligatoria para tu rol', 403));
+  }
+
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorRecoveryCodes = undefined;
+  user.twoFactorLastUsedStep = undefined;
+  await user.save({ validateBeforeSave: false });
+
+  logger.info(`Usuario ${user.id} desactivó la verificación en dos pasos`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Verificación en dos pasos desactivada'
+  });
+});
+
+/**
+ * @desc    Generar nuevos códigos de recuperación (invalida los anteriores)
+ * @route   POST /api/v1/auth/2fa/recovery-codes
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express (contiene user en req.user)
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @body    { password: string, code: string }
+ * @returns {Response} Nuevos códigos de recuperación
+ */
+export const regenerateRecoveryCodes = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const user = await reauthenticateTwoFactor(req, res, next);
+  if (!user) {
+    return;
+  }
+
+  const recoveryCodes = user.generateRecoveryCodes();
+  await user.save({ validateBeforeSave: false });
+
+  res.status(200).json({
+    success: true,
+    message: 'Códigos de recuperación generados. Los anteriores ya no sirven',
+    data: { recoveryCodes }
+  });
 });
 
 // ============================================================================
@@ -460,31 +1230,156 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response, ne
 // ============================================================================
 
 /**
- * @desc    Generar token JWT, configurar cookie y enviar respuesta
+ * @desc    Enviar el enlace de verificación de email a un usuario
+ * @param   {any} user - Documento del usuario de MongoDB
+ * @param   {string} verificationToken - Token sin hashear generado por el modelo
+ * @returns {Promise<void>}
+ */
+const sendVerificationEmail = (user: any, verificationToken: string) =>
+  sendTemplateEmail(user.email, 'verifyEmail', {
+    name: user.name,
+    verifyUrl: buildFrontendUrl(`/verify-email/${verificationToken}`),
+    expiresInHours: 24
+  });
+
+/**
+ * @desc    Volver a autenticar al usuario antes de cambiar su verificación en dos pasos
+ * @param   {Request} req - Petición con { password, code } en el cuerpo
+ * @param   {Response} res - Respuesta en la que se indica Retry-After si hay un límite
+ * @param   {NextFunction} next - Recibe el error si la autenticación falla
+ * @returns {Promise<any>} Usuario con los campos de la verificación en dos pasos, o null
+ * 
+ * Exige la contraseña y un código TOTP o de recuperación vigente. Los fallos
+ * cuentan para el límite de intentos igual que en el inicio de sesión, para
+ * que una sesión robada no permita adivinar la contraseña o el código.
+ */
+const reauthenticateTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  const { password, code } = req.body || {};
+
+  if (!password || !code) {
+    next(new ErrorResponse('La contraseña y el código de verificación son requeridos', 400));
+    return null;
+  }
+
+  const user = await User.findById((req as any).user.id)
+    .select('+password +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep');
+
+  if (!user) {
+    next(new ErrorResponse('Usuario no encontrado', 404));
+    return null;
+  }
+
+  if (!user.twoFactorEnabled) {
+    next(new ErrorResponse('La verificación en dos pasos no está activada', 400));
+    return null;
+  }
+
+  const error = await reauthenticateUser(
+    req,
+    res,
+    user,
+    async () => (await user.matchPassword(password)) && user.verifyTwoFactorCode(code),
+    'La contraseña o el código de verificación no son correctos'
+  );
+
+  if (error) {
+    next(error);
+    return null;
+  }
+
+  return user;
+};
+
+/**
+ * @desc    Firmar el token temporal del segundo paso del inicio de sesión
+ * @param   {string} userId - Usuario que ha superado el primer paso
+ * @returns {string} JWT válido durante 5 minutos que solo sirve para enviar el código
+ * 
+ * No lleva ID de sesión, por lo que protect nunca lo acepta como token de acceso.
+ */
+const signTwoFactorChallenge = (userId: string): string =>
+  jwt.sign(
+    { id: userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '5m' }
+  );
+
+/**
+ * @desc    Obtener los metadatos del dispositivo que hace la petición
+ * @param   {Request} req - Objeto de petición de Express
+ * @returns {SessionClientInfo} User-Agent e IP del cliente
+ */
+const getClientInfo = (req: Request): SessionClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+/**
+ * @desc    Identificar la sesión del dispositivo que hace la petición
+ * @param   {Request} req - Objeto de petición de Express
+ * @returns {Promise<string | null>} ID de la sesión, o null si no se puede identificar
+ * 
+ * Usa el refresh token del cuerpo y, si no se envía, el ID de sesión del
+ * token de acceso (aunque haya caducado, para poder cerrar sesión igualmente).
+ */
+const findSessionIdFromRequest = async (req: Request): Promise<string | null> => {
+  const presentedToken = req.body?.refreshToken;
+
+  if (presentedToken) {
+    const session = await Session.findOne({ refreshTokenHash: hashRefreshToken(presentedToken) });
+    return session ? session.id : null;
+  }
+
+  const authorization = req.headers.authorization;
+  const accessToken = authorization && authorization.startsWith('Bearer')
+    ? authorization.split(' ')[1]
+    : req.cookies?.token;
+
+  if (!accessToken) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(accessToken, process.env.JWT_SECRET!, { ignoreExpiration: true }) as any;
+    return decoded.sid || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * @desc    Crear la sesión, generar los tokens, configurar cookie y enviar respuesta
  * @param   {any} user - Documento del usuario de MongoDB
  * @param   {number} statusCode - Código de estado HTTP para la respuesta
+ * @param   {Request} req - Objeto de petición de Express (para los datos del dispositivo)
  * @param   {Response} res - Objeto de respuesta de Express
- * @returns {Response} Respuesta JSON con token y datos del usuario
+ * @returns {Promise<void>}
  * 
  * Esta función auxiliar centraliza la lógica de generación de tokens JWT
  * y configuración de cookies para mantener consistencia en toda la aplicación.
  * 
  * Proceso:
- * 1. Genera un token JWT utilizando el método del modelo User
- * 2. Configura opciones de cookie seguras
- * 3. Establece la cookie en la respuesta
- * 4. Envía respuesta JSON con token y datos del usuario
+ * 1. Crea una sesión en el servidor con un refresh token nuevo
+ * 2. Genera un token de acceso JWT ligado a esa sesión
+ * 3. Configura opciones de cookie seguras y establece la cookie
+ * 4. Envía respuesta JSON con ambos tokens y datos del usuario
  */
-const sendTokenResponse = (user: any, statusCode: number, res: Response) => {
+const sendTokenResponse = async (user: any, statusCode: number, req: Request, res: Response) => {
   // ========================================================================
-  // GENERACIÓN DEL TOKEN JWT
+  // CREACIÓN DE LA SESIÓN Y DE LOS TOKENS
   // ========================================================================
 
   /**
-   * Crear token JWT utilizando método del modelo User
-   * El token contiene el ID del usuario y tiene expiración configurada
+   * Crear la sesión del dispositivo
+   * Solo se guarda el hash del refresh token
+   */
+  const { session, refreshToken } = await createSession(user._id, getClientInfo(req));
+
+  /**
+   * Crear token de acceso JWT utilizando método del modelo User
+   * El token contiene el ID del usuario y de la sesión, y caduca pronto
    */
-  const token = user.getSignedJwtToken();
+  const token = user.getSignedJwtToken(session.id);
 
   // ========================================================================
   // CONFIGURACIÓN DE OPCIONES DE COOKIE
@@ -524,11 +1419,14 @@ const sendTokenResponse = (user: any, statusCode: number, res: Response) => {
     success: true,
     message: statusCode === 201 ? 'Usuario registrado exitosamente' : 'Inicio de sesión exitoso',
     token,
+    refreshToken,
     data: {
       _id: user._id,
       name: user.name,
       email: user.email,
       role: user.role,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
       createdAt: user.createdAt
     }
   });
@@ -0,0 +1,250 @@
+/**
+ * @file categories.ts
+ * @description Controlador de categorías de artículos para la aplicación Ecommunitas
+ *
+ * Este archivo contiene el listado público de categorías que carga el
+ * frontend y su gestión desde el panel de administración.
+ *
+ * @features
+ * - Listado de categorías activas con el nombre en el idioma pedido
+ * - Alta, modificación y borrado de categorías (solo administradores)
+ * - Jerarquía de dos niveles (categorías y subcategorías)
+ * - Atributos de los artículos de cada categoría (texto, número, lista de
+ *   valores o sí/no; obligatorios u opcionales)
+ * - Las categorías con artículos o subcategorías no se borran: se desactivan
+ *
+ * @routes
+ * - GET /api/v1/categories - Categorías activas (todas para administradores con ?includeInactive=true)
+ * - POST /api/v1/categories - Crear una categoría
+ * - PUT /api/v1/categories/:id - Modificar una categoría
+ * - DELETE /api/v1/categories/:id - Borrar una categoría sin uso
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import Category, {
+  ICategory,
+  DEFAULT_CATEGORY_LOCALE,
+  getCategories as findCategories,
+  getCategoryLabel,
+  getCategoryAttributeLabel,
+  findCategory,
+  ensureDefaultCategories
+} from '../models/Category';
+import Item from '../models/Item';
+import SavedSearch from '../models/SavedSearch';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+// Interfaz para el request con el usuario (opcional en el listado público)
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: string;
+  };
+}
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Campos de una categoría que pueden modificarse
+ */
+const EDITABLE_FIELDS = ['labels', 'icon', 'parent', 'order', 'active', 'attributes'] as const;
+
+/**
+ * Datos de una categoría para las respuestas
+ *
+ * @param {ICategory} category - Categoría
+ * @param {string} locale - Idioma del campo label
+ * @returns {object} Categoría con su nombre en el idioma y todos sus nombres,
+ * también los de sus atributos
+ */
+const toCategoryResponse = (category: ICategory, locale: string) => ({
+  _id: category._id,
+  slug: category.slug,
+  label: getCategoryLabel(category, locale),
+  labels: Object.fromEntries(category.labels || []),
+  icon: category.icon,
+  parent: category.parent,
+  order: category.order,
+  active: category.active,
+  attributes: category.attributes.map(attribute => ({
+    key: attribute.key,
+    label: getCategoryAttributeLabel(attribute, locale),
+    labels: Object.fromEntries(attribute.labels || []),
+    type: attribute.type,
+    required: attribute.required,
+    options: attribute.options
+  }))
+});
+
+/**
+ * Comprueba la categoría padre de una categoría
+ *
+ * @param {unknown} parent - Slug de la categoría padre (vacío = categoría principal)
+ * @param {string} slug - Slug de la categoría que se guarda
+ * @returns {Promise<string | null>} Slug del padre o null
+ * @throws {AppError} Si el padre no existe, no es una categoría principal o
+ * la categoría ya tiene subcategorías
+ */
+const resolveParent = async (parent: unknown, slug: string): Promise<string | null> => {
+  if (parent === undefined || parent === null || parent === '') {
+    return null;
+  }
+
+  const parentSlug = String(parent).toLowerCase();
+  if (parentSlug === slug) {
+    throw new AppError('Una categoría no puede ser su propia categoría padre', 400);
+  }
+
+  const parentCategory = await findCategory(parentSlug);
+  if (!parentCategory) {
+    throw new AppError(`La categoría padre '${parentSlug}' no existe`, 400);
+  }
+  if (parentCategory.parent) {
+    throw new AppError('Solo se admiten dos niveles: la categoría padre no puede ser una subcategoría', 400);
+  }
+  if (await Category.exists({ parent: slug })) {
+    throw new AppError('Una categoría con subcategorías no puede convertirse en subcategoría', 400);
+  }
+
+  return parentSlug;
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Listar las categorías
+ * @route   GET /api/v1/categories
+ * @access  Public (identificación opcional)
+ * @query   {string} [lang=es] - Idioma del campo label de cada categoría
+ * @query   {boolean} [includeInactive] - Incluir las desactivadas (solo administradores)
+ *
+ * Las subcategorías de una categoría desactivada tampoco se listan.
+ */
+export const getCategories = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const locale = typeof req.query.lang === 'string' ? req.query.lang : DEFAULT_CATEGORY_LOCALE;
+  const includeInactive = req.query.includeInactive === 'true' && req.user?.role === 'admin';
+
+  let categories = await findCategories(includeInactive);
+  if (!includeInactive) {
+    const activeSlugs = new Set(categories.map(category => category.slug));
+    categories = categories.filter(category => !category.parent || activeSlugs.has(category.parent));
+  }
+
+  res.status(200).json({
+    success: true,
+    count: categories.length,
+    data: categories.map(category => toCategoryResponse(category, locale))
+  });
+});
+
+/**
+ * @desc    Crear una categoría
+ * @route   POST /api/v1/categories
+ * @access  Private/Admin
+ * @body    { slug, labels: { es, en? }, icon?, parent?, order?, active?, attributes? }
+ *
+ * Cada atributo: { key, labels: { es, en? }, type: text|number|enum|boolean, required?, options? }
+ */
+export const createCategory = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const slug = typeof req.body.slug === 'string' ? req.body.slug.trim().toLowerCase() : '';
+
+  await ensureDefaultCategories();
+  if (slug && await Category.exists({ slug })) {
+    return next(new AppError(`Ya existe una categoría con el identificador '${slug}'`, 400));
+  }
+
+  const category = await Category.create({
+    slug,
+    labels: req.body.labels,
+    icon: req.body.icon,
+    parent: await resolveParent(req.body.parent, slug),
+    order: req.body.order,
+    active: req.body.active,
+    attributes: req.body.attributes
+  });
+
+  res.status(201).json({
+    success: true,
+    data: toCategoryResponse(category, DEFAULT_CATEGORY_LOCALE)
+  });
+});
+
+/**
+ * @desc    Modificar una categoría
+ * @route   PUT /api/v1/categories/:id
+ * @access  Private/Admin
+ * @body    { labels?, icon?, parent?, order?, active?, attributes? } - El slug no puede cambiarse
+ *
+ * Cambiar los atributos no modifica los artículos publicados: se validan con
+ * la nueva definición cuando se vuelven a editar sus atributos o su categoría.
+ */
+export const updateCategory = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const category = await Category.findById(req.params.id);
+
+  if (!category) {
+    return next(new AppError('Categoría no encontrada', 404));
+  }
+
+  if (req.body.slug !== undefined && req.body.slug !== category.slug) {
+    return next(new AppError('El identificador de una categoría no puede cambiarse', 400));
+  }
+
+  for (const field of EDITABLE_FIELDS) {
+    if (req.body[field] === undefined) continue;
+
+    if (field === 'parent') {
+      category.parent = await resolveParent(req.body.parent, category.slug);
+    } else {
+      category.set(field, req.body[field]);
+    }
+  }
+
+  await category.save();
+
+  res.status(200).json({
+    success: true,
+    data: toCategoryResponse(category, DEFAULT_CATEGORY_LOCALE)
+  });
+});
+
+/**
+ * @desc    Borrar una categoría
+ * @route   DELETE /api/v1/categories/:id
+ * @access  Private/Admin
+ *
+ * Solo se borran las categorías que no usa ningún artículo (tampoco los de
+ * la papelera) ni ninguna búsqueda guardada y que no tienen subcategorías;
+ * las demás deben desactivarse.
+ */
+export const deleteCategory = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const category = await Category.findById(req.params.id);
+
+  if (!category) {
+    return next(new AppError('Categoría no encontrada', 404));
+  }
+
+  const inUse = await Promise.all([
+    Item.exists({ category: category.slug }),
+    SavedSearch.exists({ 'filters.category': category.slug }),
+    Category.exists({ parent: category.slug })
+  ]);
+
+  if (inUse.some(Boolean)) {
+    return next(new AppError('La categoría tiene artículos, búsquedas guardadas o subcategorías: desactívala en lugar de borrarla', 409));
+  }
+
+  await category.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
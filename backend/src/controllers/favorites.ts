@@ -0,0 +1,161 @@
+/**
+ * @file favorites.ts
+ * @description Controlador de artículos favoritos para la aplicación Ecommunitas
+ *
+ * Este archivo contiene los controladores de los favoritos: cada usuario
+ * guarda en el servidor los artículos que quiere seguir, los consulta desde
+ * cualquier dispositivo y recibe un aviso cuando cambian (ver favoriteAlerts).
+ *
+ * @features
+ * - Añadir y quitar artículos de favoritos (operaciones idempotentes)
+ * - Listado de los favoritos del usuario
+ * - Número de usuarios que siguen cada artículo, solo para su propietario
+ *
+ * @routes
+ * - GET /api/v1/items/favorites - Favoritos del usuario
+ * - GET /api/v1/items/favorites/counts - Favoritos de cada artículo propio
+ * - GET /api/v1/items/:id/favorite - Estado de favorito de un artículo
+ * - POST /api/v1/items/:id/favorite - Añadir a favoritos
+ * - DELETE /api/v1/items/:id/favorite - Quitar de favoritos
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import Favorite, { countFavoritesByItem } from '../models/Favorite';
+import Item, { NOT_DELETED_FILTER } from '../models/Item';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+/**
+ * @desc    Obtener los artículos favoritos del usuario
+ * @route   GET /api/v1/items/favorites
+ * @access  Private
+ *
+ * Incluye los reservados e intercambiados para que el usuario vea en qué han
+ * acabado; omite los que están en la papelera.
+ */
+export const getFavorites = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const favorites = await Favorite.find({ user: req.user.id })
+    .sort({ createdAt: -1 })
+    .populate({
+      path: 'item',
+      match: NOT_DELETED_FILTER,
+      populate: { path: 'user', select: 'name' }
+    });
+
+  const data = favorites
+    .filter(favorite => favorite.item)
+    .map(favorite => ({ ...(favorite.item as any).toObject(), favoritedAt: favorite.createdAt }));
+
+  res.status(200).json({
+    success: true,
+    count: data.length,
+    data
+  });
+});
+
+/**
+ * @desc    Obtener cuántos usuarios siguen cada artículo del usuario
+ * @route   GET /api/v1/items/favorites/counts
+ * @access  Private
+ * @returns { success, data: { [itemId]: number } } Solo los artículos con algún favorito
+ */
+export const getFavoriteCounts = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const itemIds = await Item.distinct('_id', { user: req.user.id, ...NOT_DELETED_FILTER });
+  const counts = await countFavoritesByItem(itemIds);
+
+  res.status(200).json({
+    success: true,
+    data: Object.fromEntries(counts)
+  });
+});
+
+/**
+ * @desc    Saber si un artículo está en favoritos
+ * @route   GET /api/v1/items/:id/favorite
+ * @access  Private
+ * @returns { success, data: { favorited, favoriteCount? } } El número de favoritos solo se
+ *          incluye para el propietario del artículo o un administrador
+ */
+export const getFavoriteStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const item = await Item.findById(req.params.id).select('user deletedAt');
+
+  if (!item || item.deletedAt) {
+    return next(new AppError('Artículo no encontrado', 404));
+  }
+
+  const data: { favorited: boolean; favoriteCount?: number } = {
+    favorited: !!(await Favorite.exists({ user: req.user.id, item: item._id }))
+  };
+
+  if (item.user.toString() === req.user.id || req.user.role === 'admin') {
+    data.favoriteCount = await Favorite.countDocuments({ item: item._id });
+  }
+
+  res.status(200).json({
+    success: true,
+    data
+  });
+});
+
+/**
+ * @desc    Añadir un artículo a favoritos
+ * @route   POST /api/v1/items/:id/favorite
+ * @access  Private
+ *
+ * Solo se pueden seguir artículos publicados de otros usuarios. Añadir uno
+ * que ya está en favoritos no es un error.
+ */
+export const addFavorite = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const item = await Item.findOne({
+    _id: req.params.id,
+    status: { $ne: 'draft' },
+    moderationStatus: { $ne: 'rejected' },
+    ...NOT_DELETED_FILTER
+  }).select('user');
+
+  if (!item) {
+    return next(new AppError('Artículo no encontrado', 404));
+  }
+
+  if (item.user.toString() === req.user.id) {
+    return next(new AppError('No puedes añadir tus propios artículos a favoritos', 400));
+  }
+
+  await Favorite.updateOne(
+    { user: req.user.id, item: item._id },
+    { $setOnInsert: { createdAt: new Date() } },
+    { upsert: true }
+  );
+
+  res.status(200).json({
+    success: true,
+    data: { favorited: true }
+  });
+});
+
+/**
+ * @desc    Quitar un artículo de favoritos
+ * @route   DELETE /api/v1/items/:id/favorite
+ * @access  Private
+ *
+ * Quitar uno que no está en favoritos no es un error.
+ */
+export const removeFavorite = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  await Favorite.deleteOne({ user: req.user.id, item: req.params.id });
+
+  res.status(200).json({
+    success: true,
+    data: { favorited: false }
+  });
+});
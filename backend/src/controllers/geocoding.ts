@@ -0,0 +1,55 @@
+/**
+ * @file geocoding.ts
+ * @description Controlador de geocodificación de Ecommunitas
+ *
+ * Este archivo contiene el autocompletado de ubicaciones que usa el selector
+ * de ubicación del frontend. Las sugerencias salen de los proveedores de
+ * geocodificación configurados (ver geocoding/), empezando por el nomenclátor
+ * de municipios y códigos postales incluido en el proyecto.
+ *
+ * @features
+ * - Sugerencias de municipios por nombre o código postal
+ * - Filtro por provincia ("Getafe, Madrid")
+ *
+ * @routes
+ * - GET /api/v1/geocoding/autocomplete - Sugerencias de ubicaciones
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { autocompleteLocation, MAX_AUTOCOMPLETE_RESULTS } from '../geocoding';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+/** Longitud máxima del texto a autocompletar */
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * @desc    Sugerencias de ubicaciones para un texto a medio escribir
+ * @route   GET /api/v1/geocoding/autocomplete
+ * @access  Public
+ * @query   {string} q - Texto escrito (al menos 2 caracteres)
+ * @query   {number} [limit=5] - Número de sugerencias (máximo MAX_AUTOCOMPLETE_RESULTS)
+ */
+export const autocompleteLocations = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+  if (query.length < 2) {
+    return next(new AppError('La búsqueda debe tener al menos 2 caracteres', 400));
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return next(new AppError(`La búsqueda no puede tener más de ${MAX_QUERY_LENGTH} caracteres`, 400));
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 5, 1), MAX_AUTOCOMPLETE_RESULTS);
+  const suggestions = await autocompleteLocation(query, limit);
+
+  res.status(200).json({
+    success: true,
+    count: suggestions.length,
+    data: suggestions
+  });
+});
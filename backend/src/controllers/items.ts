@@ -8,9 +8,16 @@
  * @features
  * - Operaciones CRUD completas para artículos
  * - Búsqueda avanzada con filtros múltiples
+ * - Atributos propios de cada categoría, validados y filtrables (attr.<clave>)
  * - Búsqueda geoespacial por proximidad
+ * - Geocodificación de la ubicación textual cuando no se indican coordenadas
+ * - Ubicación pública aproximada; la exacta solo para el propietario y la
+ *   otra parte de un intercambio acordado
+ * - Mapa de artículos con agrupación por zonas
  * - Sistema de moderación de contenido
  * - Gestión de imágenes con Cloudinary
+ * - Papelera con restauración (borrado lógico)
+ * - Ciclo de vida del artículo con transiciones validadas
  * - Paginación y ordenamiento avanzado
  * - Validación robusta de datos
  * - Manejo estandarizado de errores
@@ -25,7 +32,27 @@
 // ========================================================================
 
 import { Request, Response, NextFunction } from 'express';
-import Item, { IItem } from '../models/Item';
+import Item, {
+  IItem,
+  ItemStatus,
+  ITEM_STATUSES,
+  INITIAL_ITEM_STATUSES,
+  NOT_DELETED_FILTER,
+  getItemDeletionSettings,
+  getRestoreDeadline
+} from '../models/Item';
+import User from '../models/User';
+import Trade, { OPEN_TRADE_STATUSES } from '../models/Trade';
+import { isActiveCategory } from '../models/Category';
+import { transitionItem } from '../utils/itemLifecycle';
+import { buildItemSearchQuery } from '../utils/itemSearch';
+import { validateItemAttributes, getAttributeFilters } from '../utils/itemAttributes';
+import { getItemMap, parseMapBounds, parseMapZoom, MAP_PINS_ZOOM } from '../utils/itemMap';
+import { notifySavedSearchMatches } from '../utils/savedSearchAlerts';
+import { notifyItemWatchers } from '../utils/favoriteAlerts';
+import { notifyUser } from '../utils/notifications';
+import { geocodeLocation } from '../geocoding';
+import { toPrivateLocation, getApproximateDistance, canSeeExactItemLocation } from '../utils/locationPrivacy';
 import { AppError } from '../utils/app-error';
 import asyncHandler from '../utils/async';
 import { uploadImage, deleteImage } from '../config/cloudinary';
@@ -76,6 +103,48 @@ const handleError = (error: any, defaultMessage = 'Error interno del servidor')
   return new AppError(error.message || defaultMessage, error.statusCode || 500);
 };
 
+/**
+ * @desc    Función auxiliar para obtener coordenadas a partir de la ubicación textual
+ * @param   {string} location - Ubicación escrita por el usuario
+ * @returns {Promise<object | null>} Coordenadas GeoJSON geocodificadas o null si no se reconoce
+ *
+ * Una ubicación reconocida solo a nivel de provincia no da coordenadas: su
+ * capital puede estar a más de 100 km y falsearía las búsquedas por distancia.
+ */
+const geocodeItemCoordinates = async (location: string) => {
+  const place = await geocodeLocation(location);
+
+  return place && place.precision !== 'province'
+    ? { type: 'Point', coordinates: [place.lng, place.lat], enabled: true, source: 'geocoded' }
+    : null;
+};
+
+/**
+ * @desc    Función auxiliar que guarda en privado el punto exacto del artículo
+ * @param   {any} body - Cuerpo de la petición con las coordenadas ya procesadas
+ * @returns {boolean} true si el artículo queda sin punto exacto (coordenadas desactivadas)
+ *
+ * Las coordenadas públicas pasan a ser el centro de su celda de la rejilla
+ * (ver utils/locationPrivacy) y el punto exacto se guarda en exactCoordinates.
+ * El cliente nunca puede fijar exactCoordinates directamente.
+ */
+const setPrivateItemLocation = (body: any): boolean => {
+  delete body.exactCoordinates;
+
+  if (!body.coordinates) {
+    return false;
+  }
+
+  if (body.coordinates.enabled && body.coordinates.coordinates) {
+    const location = toPrivateLocation(body.coordinates.coordinates);
+    body.coordinates.coordinates = location.coordinates;
+    body.exactCoordinates = location.exactCoordinates;
+    return false;
+  }
+
+  return true;
+};
+
 // ========================================================================
 // CONTROLADORES PRINCIPALES
 // ========================================================================
@@ -121,6 +190,7 @@ export const getItems = asyncHandler(async (req: Request, res: Response, next: N
  * @query   {number} [lat] - Latitud para búsqueda geoespacial
  * @query   {number} [lng] - Longitud para búsqueda geoespacial
  * @query   {number} [radius] - Radio de búsqueda en kilómetros
+ * @query   {string} [attr.<clave>] - Valor exacto de un atributo de la categoría (attr.size=M)
  * @query   {string} [sort] - Campo de ordenamiento
  * @query   {number} [page] - Número de página
  * @query   {number} [limit] - Límite de resultados por página
@@ -156,159 +226,28 @@ export const searchItems = asyncHandler(async (req: Request, res: Response, next
     // ========================================================================
 
     /**
-     * Inicializar objetos de consulta y ordenamiento
-     * query: Filtros de MongoDB
-     * sortOptions: Opciones de ordenamiento
+     * Construir los filtros de MongoDB con la misma lógica que las búsquedas guardadas
+     * Incluye texto, categoría, condición, ubicación, estado y proximidad
      */
-    const query: any = {};
+    const attributes = getAttributeFilters(req.query);
+    const { query, geo } = await buildItemSearchQuery({ q, category, condition, attributes, location, lat, lng, distance });
     let sortOptions: any = {};
 
     /**
-     * FILTRO DE BÚSQUEDA DE TEXTO
-     * Utiliza índice de texto de MongoDB para búsqueda eficiente
-     * Fallback a regex si el índice no está disponible
-     */
-    if (q) {
-      const searchText = (q as string).trim();
-      // Processing search text
-      
-      if (searchText.length > 0) {
-        try {
-          /**
-           * Búsqueda usando índice de texto de MongoDB
-           * Más eficiente y con mejor relevancia que regex
-           */
-          query.$text = { $search: searchText };
-          // Using text index for search
-          
-          /**
-           * Ordenamiento por relevancia de texto
-           * Utiliza el score de MongoDB para ordenar por relevancia
-           */
-          if (sort === 'relevance') {
-            sortOptions = { score: { $meta: 'textScore' } };
-            // Sorting by text relevance
-          }
-        } catch (err) {
-          // Text index error - falling back to regex search
-          /**
-           * Fallback a búsqueda por expresiones regulares
-           * Busca en título y descripción con insensibilidad a mayúsculas
-           */
-          query.$or = [
-            { title: { $regex: searchText, $options: 'i' } },
-            { description: { $regex: searchText, $options: 'i' } }
-          ];
-          // Using regex fallback search
-        }
-      }
-    }
-
-    /**
-     * FILTRO POR CATEGORÍA
-     * Coincidencia exacta con la categoría especificada
-     */
-    if (category) {
-      query.category = category;
-    }
-
-    /**
-     * FILTRO POR CONDICIÓN
-     * Coincidencia exacta con la condición del artículo
-     */
-    if (condition) {
-      query.condition = condition;
-    }
-
-    /**
-     * FILTRO POR UBICACIÓN (TEXTO)
-     * Búsqueda parcial en el campo de ubicación
+     * Ordenamiento por relevancia de texto
+     * Utiliza el score de MongoDB para ordenar por relevancia
      */
-    if (location) {
-      query.location = { $regex: location, $options: 'i' };
+    if (query.$text && sort === 'relevance') {
+      sortOptions = { score: { $meta: 'textScore' } };
     }
 
-    /**
-     * FILTRO POR DISPONIBILIDAD
-     * Solo mostrar artículos disponibles para intercambio
-     */
-    query.available = true;
-
-    // ========================================================================
-    // BÚSQUEDA GEOESPACIAL
-    // ========================================================================
-
     /**
      * Variables para control de búsqueda geoespacial
      * Permiten optimizar consultas y calcular distancias
      */
-    let useGeospatialQuery = false;
-    let geospatialCoords = null;
-    let geospatialDistance = null;
-
-    /**
-     * FILTRO GEOESPACIAL POR PROXIMIDAD
-     * Utiliza índices 2dsphere de MongoDB para búsqueda eficiente
-     */
-    if (lat && lng) {
-      // Applying geospatial filter
-      
-      try {
-        /**
-         * Parsear y validar coordenadas de entrada
-         * Asegurar que sean números válidos
-         */
-        const parsedLat = parseFloat(lat as string);
-        const parsedLng = parseFloat(lng as string);
-        const parsedDistance = parseInt(distance as string) || 10;
-        
-        if (isNaN(parsedLat) || isNaN(parsedLng)) {
-          // Invalid coordinates provided
-        } else {
-          /**
-           * Validar rangos de coordenadas geográficas
-           * Latitud: -90 a 90, Longitud: -180 a 180
-           */
-          if (parsedLat < -90 || parsedLat > 90 || parsedLng < -180 || parsedLng > 180) {
-            console.error('Coordenadas fuera de rango válido:', { lat: parsedLat, lng: parsedLng });
-          } else {
-            /**
-             * Filtrar solo artículos con geolocalización habilitada
-             * Evita errores en artículos sin coordenadas
-             */
-            query['coordinates.enabled'] = true;
-            
-            /**
-             * Configurar búsqueda geoespacial con $near
-             * - Ordena automáticamente por distancia (más eficiente)
-             * - Utiliza índice 2dsphere para optimización
-             * - Convierte kilómetros a metros para MongoDB
-             */
-            query['coordinates.coordinates'] = {
-              $near: {
-                $geometry: {
-                  type: 'Point',
-                  coordinates: [parsedLng, parsedLat] // GeoJSON: [lng, lat]
-                },
-                $maxDistance: parsedDistance * 1000 // Convertir km a metros
-              }
-            };
-            
-            /**
-             * Marcar uso de consulta geoespacial
-             * Permite cálculo posterior de distancias exactas
-             */
-            useGeospatialQuery = true;
-            geospatialCoords = [parsedLng, parsedLat];
-            geospatialDistance = parsedDistance;
-            
-            // Geospatial filter configured successfully
-          }
-        }
-      } catch (err) {
-        // Error processing coordinates
-      }
-    }
+    const useGeospatialQuery = geo !== null;
+    const geospatialCoords = geo ? geo.coordinates : null;
+    const geospatialDistance = geo ? geo.distance : null;
 
     // ========================================================================
     // CONFIGURACIÓN DE ORDENAMIENTO
@@ -392,35 +331,16 @@ export const searchItems = asyncHandler(async (req: Request, res: Response, next
     // ========================================================================
 
     /**
-     * Calcular distancias exactas para búsquedas geoespaciales
-     * Utiliza fórmula de Haversine para precisión
+     * Calcular distancias aproximadas para búsquedas geoespaciales
+     * Se usan las coordenadas públicas y se redondean para no revelar
+     * el punto exacto del artículo (ver utils/locationPrivacy)
      */
     let itemsWithDistance = items;
     if (useGeospatialQuery && geospatialCoords) {
       itemsWithDistance = items.map(item => {
         const itemObj: any = item.toObject();
         if (item.coordinates && item.coordinates.coordinates) {
-          /**
-           * Calcular distancia usando fórmula de Haversine
-           * Proporciona distancia exacta entre dos puntos en la Tierra
-           */
-          const [itemLng, itemLat] = item.coordinates.coordinates;
-          const [searchLng, searchLat] = geospatialCoords;
-          
-          const R = 6371; // Radio de la Tierra en kilómetros
-          const dLat = (itemLat - searchLat) * Math.PI / 180;
-          const dLng = (itemLng - searchLng) * Math.PI / 180;
-          const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-                   Math.cos(searchLat * Math.PI / 180) * Math.cos(itemLat * Math.PI / 180) *
-                   Math.sin(dLng/2) * Math.sin(dLng/2);
-          const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-          const distance = R * c;
-          
-          /**
-           * Agregar distancia redondeada al objeto del artículo
-           * Redondeo a 2 decimales para mejor presentación
-           */
-          itemObj.distance = Math.round(distance * 100) / 100;
+          itemObj.distance = getApproximateDistance(geospatialCoords, item.coordinates.coordinates);
         }
         return itemObj;
       });
@@ -476,6 +396,42 @@ export const searchItems = asyncHandler(async (req: Request, res: Response, next
   }
 });
 
+/**
+ * @desc    Obtener los artículos del área visible del mapa
+ * @route   GET /api/v1/items/map
+ * @access  Public
+ * @query   {string} bbox - Área visible: oeste,sur,este,norte en grados
+ * @query   {number} zoom - Nivel de zoom del mapa (0 a 20)
+ * @query   {string} [q] - Consulta de texto
+ * @query   {string} [category] - Categoría
+ * @query   {string} [condition] - Condición
+ * @returns {Response} Grupos de artículos en las zonas densas y marcadores individuales
+ *
+ * @description
+ * Aplica los mismos filtros que la búsqueda (anuncios activos, no rechazados
+ * y fuera de la papelera). A partir del zoom MAP_PINS_ZOOM solo devuelve
+ * marcadores individuales.
+ */
+export const getItemsMap = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const bounds = parseMapBounds(req.query.bbox);
+  const zoom = parseMapZoom(req.query.zoom);
+  const { q, category, condition } = req.query;
+
+  const { clusters, items, total, truncated } = await getItemMap({ q, category, condition }, bounds, zoom);
+
+  res.status(200).json({
+    success: true,
+    zoom,
+    clustered: zoom < MAP_PINS_ZOOM,
+    total,
+    truncated,
+    data: {
+      clusters,
+      items
+    }
+  });
+});
+
 /**
  * @desc    Obtener un artículo específico por su ID
  * @route   GET /api/v1/items/:id
@@ -492,22 +448,43 @@ export const getItem = asyncHandler(async (req: Request, res: Response, next: Ne
      * Buscar artículo por ID e incluir información del usuario propietario
      * Población limitada a campos públicos del usuario
      */
-    const item = await Item.findById(req.params.id).populate('user', 'name email');
+    const item = await Item.findById(req.params.id)
+      .select('+exactCoordinates')
+      .populate('user', 'name email')
+      .populate('reservedFor', 'name');
 
     /**
      * Verificar si el artículo existe
-     * Retornar error 404 si no se encuentra
+     * Retornar error 404 si no se encuentra o está en la papelera
      */
-    if (!item) {
+    if (!item || item.deletedAt) {
       return next(new AppError('Artículo no encontrado', 404));
     }
 
+    /**
+     * El punto exacto solo se incluye para el propietario y para la otra
+     * parte de un intercambio acordado; el resto ve la ubicación aproximada
+     */
+    const viewer = (req as any).user;
+    const data: any = item.toJSON();
+    if (!(await canSeeExactItemLocation(viewer?.id, item))) {
+      delete data.exactCoordinates;
+    }
+
+    /**
+     * Distancia aproximada al usuario identificado que tiene ubicación
+     */
+    const viewerCoordinates = viewer?.coordinates?.coordinates;
+    if (viewerCoordinates?.length === 2 && item.coordinates?.enabled && item.coordinates.coordinates) {
+      data.distance = getApproximateDistance(viewerCoordinates, item.coordinates.coordinates);
+    }
+
     /**
      * Enviar respuesta exitosa con datos del artículo
      */
     res.status(200).json({
       success: true,
-      data: item
+      data
     });
   } catch (error) {
     return next(handleError(error, 'Error al obtener el artículo'));
@@ -536,6 +513,35 @@ export const createItem = asyncHandler(async (req: Request, res: Response, next:
      */
     req.body.user = (req as any).user.id;
 
+    /**
+     * Un artículo nace como borrador o publicado (por defecto publicado)
+     * El resto de estados solo se alcanzan con PATCH /:id/status
+     */
+    const initialStatus = req.body.status || 'active';
+    if (!INITIAL_ITEM_STATUSES.includes(initialStatus)) {
+      return next(new AppError(`Un artículo nuevo solo puede guardarse como: ${INITIAL_ITEM_STATUSES.join(', ')}`, 400));
+    }
+    req.body.status = initialStatus;
+    delete req.body.reservedFor;
+    delete req.body.statusHistory;
+    delete req.body.statusChangedAt;
+
+    /**
+     * Solo se publican artículos en categorías activas
+     */
+    if (req.body.category && !(await isActiveCategory(req.body.category))) {
+      return next(new AppError('Categoría no válida', 400));
+    }
+
+    /**
+     * Los atributos se validan contra los que define la categoría
+     */
+    if (req.body.category) {
+      req.body.attributes = await validateItemAttributes(req.body.category, req.body.attributes);
+    } else {
+      delete req.body.attributes;
+    }
+
     // ========================================================================
     // PROCESAMIENTO DE COORDENADAS
     // ========================================================================
@@ -544,6 +550,15 @@ export const createItem = asyncHandler(async (req: Request, res: Response, next:
      * Procesar y validar coordenadas geográficas si se proporcionan
      * Permite geolocalización opcional del artículo
      */
+    if (typeof req.body.coordinates === 'string') {
+      // Las peticiones multipart envían las coordenadas como JSON
+      try {
+        req.body.coordinates = JSON.parse(req.body.coordinates);
+      } catch (e) {
+        return next(new AppError('Coordenadas inválidas', 400));
+      }
+    }
+
     if (req.body.coordinates) {
       const { lat, lng, enabled } = req.body.coordinates;
       
@@ -574,7 +589,8 @@ export const createItem = asyncHandler(async (req: Request, res: Response, next:
         req.body.coordinates = {
           type: 'Point',
           coordinates: [parsedLng, parsedLat],
-          enabled: true
+          enabled: true,
+          source: 'user'
         };
       } else {
         /**
@@ -586,8 +602,19 @@ export const createItem = asyncHandler(async (req: Request, res: Response, next:
           enabled: false
         };
       }
+    } else {
+      /**
+       * Sin coordenadas del usuario se geocodifica la ubicación textual
+       * para que el artículo aparezca en el mapa y en las búsquedas por proximidad
+       */
+      const geocoded = await geocodeItemCoordinates(req.body.location);
+      if (geocoded) {
+        req.body.coordinates = geocoded;
+      }
     }
 
+    setPrivateItemLocation(req.body);
+
     // ========================================================================
     // PROCESAMIENTO DE IMÁGENES
     // ========================================================================
@@ -722,9 +749,9 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
     let item = await Item.findById(req.params.id);
 
     /**
-     * Verificar que el artículo existe
+     * Verificar que el artículo existe y no está en la papelera
      */
-    if (!item) {
+    if (!item || item.deletedAt) {
       return next(new AppError('Artículo no encontrado', 404));
     }
 
@@ -736,6 +763,27 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
       return next(new AppError('No autorizado para actualizar este artículo', 401));
     }
 
+    /**
+     * Un artículo puede conservar su categoría aunque se haya desactivado,
+     * pero solo puede cambiarse a una categoría activa
+     */
+    const categoryChanged = Boolean(req.body.category) && req.body.category !== item.category;
+    if (categoryChanged && !(await isActiveCategory(req.body.category))) {
+      return next(new AppError('Categoría no válida', 400));
+    }
+
+    /**
+     * Los atributos se validan al enviarlos o al cambiar de categoría; en
+     * este último caso, si no se envían, se conservan los que admita la nueva
+     */
+    if (req.body.attributes !== undefined || categoryChanged) {
+      req.body.attributes = await validateItemAttributes(
+        req.body.category || item.category,
+        req.body.attributes !== undefined ? req.body.attributes : item.attributes,
+        { dropUnknown: req.body.attributes === undefined }
+      );
+    }
+
     // ========================================================================
     // PROCESAMIENTO DE IMÁGENES EXISTENTES
     // ========================================================================
@@ -884,6 +932,15 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
      * Procesar y validar coordenadas geográficas si se proporcionan
      * Permite actualizar la ubicación del artículo
      */
+    if (typeof req.body.coordinates === 'string') {
+      // Las peticiones multipart envían las coordenadas como JSON
+      try {
+        req.body.coordinates = JSON.parse(req.body.coordinates);
+      } catch (e) {
+        return next(new AppError('Coordenadas inválidas', 400));
+      }
+    }
+
     if (req.body.coordinates) {
       const { lat, lng, enabled } = req.body.coordinates;
       
@@ -913,7 +970,8 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
         req.body.coordinates = {
           type: 'Point',
           coordinates: [parsedLng, parsedLat],
-          enabled: true
+          enabled: true,
+          source: 'user'
         };
       } else {
         /**
@@ -925,6 +983,24 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
           enabled: false
         };
       }
+    } else if (!item.coordinates?.enabled || item.coordinates.source === 'geocoded') {
+      /**
+       * Sin coordenadas del usuario se geocodifica la ubicación textual si
+       * ha cambiado o si el artículo aún no tenía coordenadas. Las coordenadas
+       * geocodificadas que ya no se reconocen se desactivan
+       */
+      const location = req.body.location !== undefined ? req.body.location : item.location;
+      if (location !== item.location || !item.coordinates?.enabled) {
+        req.body.coordinates = await geocodeItemCoordinates(location) || {
+          type: 'Point',
+          coordinates: null,
+          enabled: false
+        };
+      }
+    }
+
+    if (setPrivateItemLocation(req.body)) {
+      req.body.$unset = { exactCoordinates: 1 };
     }
 
     // ========================================================================
@@ -938,6 +1014,18 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
     req.body.imageUrls = finalImageUrls;
     req.body.imagePublicIds = finalImagePublicIds;
 
+    /**
+     * La papelera solo se gestiona desde DELETE y /restore, y el estado
+     * desde /status (available se deriva del estado)
+     */
+    delete req.body.deletedAt;
+    delete req.body.deletedBy;
+    delete req.body.status;
+    delete req.body.reservedFor;
+    delete req.body.statusHistory;
+    delete req.body.statusChangedAt;
+    delete req.body.available;
+
     /**
      * Actualizar artículo en la base de datos
      * new: true retorna el documento actualizado
@@ -948,6 +1036,13 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
       runValidators: true
     }).populate('user', 'name email');
 
+    /**
+     * Avisar a los usuarios que siguen el artículo en favoritos
+     */
+    if (item) {
+      await notifyItemWatchers([item._id], 'updated');
+    }
+
     /**
      * Enviar respuesta exitosa con artículo actualizado
      */
@@ -961,14 +1056,90 @@ export const updateItem = asyncHandler(async (req: Request, res: Response, next:
 });
 
 /**
- * @desc    Eliminar un artículo del marketplace
+ * @desc    Cambiar el estado del ciclo de vida de un artículo
+ * @route   PATCH /api/v1/items/:id/status
+ * @access  Private (propietario o administrador)
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @params  {string} id - ID del artículo
+ * @body    {string} status - Estado destino (ver ITEM_TRANSITIONS)
+ * @body    {string} [reservedFor] - Usuario para el que se reserva (obligatorio en 'reserved')
+ * @returns {Response} Artículo con el estado y el historial actualizados
+ */
+export const updateItemStatus = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, reservedFor } = req.body;
+
+    if (!ITEM_STATUSES.includes(status)) {
+      return next(new AppError(`Estado no válido. Valores permitidos: ${ITEM_STATUSES.join(', ')}`, 400));
+    }
+
+    const item = await Item.findById(req.params.id);
+
+    if (!item || item.deletedAt) {
+      return next(new AppError('Artículo no encontrado', 404));
+    }
+
+    if (item.user.toString() !== (req as any).user.id && (req as any).user.role !== 'admin') {
+      return next(new AppError('No autorizado para cambiar el estado de este artículo', 401));
+    }
+
+    /**
+     * La reserva debe apuntar a otro usuario existente
+     */
+    if (status === 'reserved') {
+      if (!reservedFor || !mongoose.Types.ObjectId.isValid(reservedFor)) {
+        return next(new AppError('Debes indicar el usuario para el que reservas el artículo', 400));
+      }
+
+      if (reservedFor === item.user.toString()) {
+        return next(new AppError('No puedes reservar un artículo para su propietario', 400));
+      }
+
+      if (!(await User.exists({ _id: reservedFor, deletedAt: { $exists: false } }))) {
+        return next(new AppError('El usuario para el que reservas el artículo no existe', 404));
+      }
+    }
+
+    transitionItem(item, status as ItemStatus, (req as any).user.id, reservedFor);
+    await item.save();
+
+    // Quienes siguen el artículo se enteran de que ya no está disponible
+    if (status === 'reserved' || status === 'traded') {
+      await notifyItemWatchers([item._id], status);
+    }
+
+    await item.populate([
+      { path: 'user', select: 'name email' },
+      { path: 'reservedFor', select: 'name' }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    return next(handleError(error, 'Error al cambiar el estado del artículo'));
+  }
+});
+
+/**
+ * @desc    Enviar un artículo a la papelera
  * @route   DELETE /api/v1/items/:id
  * @access  Private
  * @param   {Request} req - Objeto de petición de Express
  * @param   {Response} res - Objeto de respuesta de Express
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
  * @params  {string} id - ID del artículo a eliminar
- * @returns {Response} Confirmación de eliminación exitosa
+ * @returns {Response} Fecha de eliminación y fecha límite de restauración
+ *
+ * @description
+ * El artículo no se borra: se marca con deletedAt/deletedBy y deja de aparecer
+ * en los listados. El propietario puede restaurarlo durante ITEM_RESTORE_DAYS
+ * y un administrador en cualquier momento; la tarea programada lo purga
+ * definitivamente (con sus imágenes de Cloudinary) pasado ITEM_PURGE_DAYS.
+ * Los intercambios abiertos en los que participa se cancelan.
  */
 export const deleteItem = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -982,9 +1153,9 @@ export const deleteItem = asyncHandler(async (req: Request, res: Response, next:
     const item = await Item.findById(req.params.id);
 
     /**
-     * Verificar que el artículo existe
+     * Verificar que el artículo existe y no está ya en la papelera
      */
-    if (!item) {
+    if (!item || item.deletedAt) {
       return next(new AppError('Artículo no encontrado', 404));
     }
 
@@ -997,55 +1168,178 @@ export const deleteItem = asyncHandler(async (req: Request, res: Response, next:
     }
 
     // ========================================================================
-    // LIMPIEZA DE RECURSOS
+    // ENVÍO A LA PAPELERA
     // ========================================================================
 
     /**
-     * Eliminar imágenes asociadas de Cloudinary
-     * Liberar espacio de almacenamiento y evitar archivos huérfanos
+     * Marcar el artículo como eliminado sin pasar por las validaciones
+     * Las imágenes se conservan hasta la purga por si se restaura
      */
-    if (item.imagePublicIds && item.imagePublicIds.length > 0) {
-      try {
-        /**
-         * Eliminar cada imagen individualmente usando su ID público
-         * Cloudinary requiere el public_id para eliminación
-         */
-        for (const publicId of item.imagePublicIds) {
-          await deleteImage(publicId);
-        }
-        // Images deleted from Cloudinary
-      } catch (cloudinaryError) {
-        // Error deleting images from Cloudinary - continuing with item deletion
-        /**
-         * Continuar con la eliminación del artículo aunque falle Cloudinary
-         * Prevenir que errores de terceros bloqueen la operación
-         */
-      }
-    }
-
-    // ========================================================================
-    // ELIMINACIÓN DEL ARTÍCULO
-    // ========================================================================
+    const deletedAt = new Date();
+    await Item.updateOne(
+      { _id: item._id },
+      { $set: { deletedAt, deletedBy: (req as any).user.id } }
+    );
 
     /**
-     * Eliminar artículo de la base de datos
-     * Operación irreversible
+     * Un artículo en la papelera ya no puede intercambiarse
      */
-    await Item.findByIdAndDelete(req.params.id);
+    await Trade.updateMany(
+      {
+        status: { $in: OPEN_TRADE_STATUSES },
+        $or: [{ requestedItem: item._id }, { offeredItems: item._id }]
+      },
+      {
+        $set: { status: 'cancelled' },
+        $push: { statusHistory: { status: 'cancelled', changedBy: (req as any).user.id, changedAt: deletedAt } }
+      }
+    );
 
     /**
-     * Enviar confirmación de eliminación exitosa
-     * Objeto vacío indica que el recurso ya no existe
+     * Enviar confirmación con el plazo de restauración del propietario
      */
     res.status(200).json({
       success: true,
-      data: {}
+      data: {
+        deletedAt,
+        restorableUntil: getRestoreDeadline(deletedAt)
+      }
     });
   } catch (error) {
     return next(handleError(error, 'Error al eliminar el artículo'));
   }
 });
 
+/**
+ * @desc    Restaurar un artículo de la papelera
+ * @route   PATCH /api/v1/items/:id/restore
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @params  {string} id - ID del artículo a restaurar
+ * @returns {Response} Artículo restaurado
+ *
+ * @description
+ * El propietario solo puede restaurar los artículos que eliminó él mismo y
+ * dentro del plazo de restauración; los administradores pueden restaurar
+ * cualquier artículo mientras no se haya purgado.
+ */
+export const restoreItem = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+    const isAdmin = (req as any).user.role === 'admin';
+
+    const item = await Item.findById(req.params.id);
+
+    if (!item) {
+      return next(new AppError('Artículo no encontrado', 404));
+    }
+
+    if (item.user.toString() !== userId && !isAdmin) {
+      return next(new AppError('No autorizado para restaurar este artículo', 401));
+    }
+
+    if (!item.deletedAt) {
+      return next(new AppError('El artículo no está en la papelera', 400));
+    }
+
+    if (item.archivedAt) {
+      return next(new AppError('El artículo ya se purgó de la papelera y no puede restaurarse', 410));
+    }
+
+    if (!isAdmin) {
+      /**
+       * Los artículos retirados por moderación no los restaura el propietario
+       */
+      if (item.deletedBy && item.deletedBy.toString() !== userId) {
+        return next(new AppError('Este artículo fue retirado por moderación y no puedes restaurarlo', 403));
+      }
+
+      if (getRestoreDeadline(item.deletedAt) < new Date()) {
+        return next(new AppError('El plazo para restaurar este artículo ha vencido', 410));
+      }
+    }
+
+    await Item.updateOne({ _id: item._id }, { $unset: { deletedAt: 1, deletedBy: 1 } });
+
+    const restoredItem = await Item.findById(item._id).populate('user', 'name email');
+
+    res.status(200).json({
+      success: true,
+      data: restoredItem
+    });
+  } catch (error) {
+    return next(handleError(error, 'Error al restaurar el artículo'));
+  }
+});
+
+/**
+ * @desc    Obtener los artículos de la papelera
+ * @route   GET /api/v1/items/deleted
+ * @access  Private
+ * @param   {Request} req - Objeto de petición de Express
+ * @param   {Response} res - Objeto de respuesta de Express
+ * @param   {NextFunction} next - Función para pasar al siguiente middleware
+ * @query   {string} [user] - Filtrar por propietario (solo administradores)
+ * @query   {number} page - Número de página para paginación (default: 1)
+ * @query   {number} limit - Límite de artículos por página (default: 12)
+ * @returns {Response} Lista paginada de artículos eliminados con su fecha límite de restauración
+ *
+ * @description
+ * Cada usuario ve los artículos propios que puede restaurar; los
+ * administradores ven todos los artículos eliminados pendientes de purga.
+ */
+export const getDeletedItems = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { page = 1, limit = 12, user } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const startIndex = (pageNum - 1) * limitNum;
+
+    // Los archivados por la purga ya no están pendientes de ella
+    const query: any = { deletedAt: { $exists: true }, archivedAt: { $exists: false } };
+
+    if ((req as any).user.role === 'admin') {
+      if (user) {
+        query.user = user;
+      }
+    } else {
+      query.user = (req as any).user.id;
+      query.deletedBy = (req as any).user.id;
+      query.deletedAt.$gte = new Date(Date.now() - getItemDeletionSettings().restoreDays * 24 * 60 * 60 * 1000);
+    }
+
+    const items = await Item.find(query)
+      .populate('user', 'name email')
+      .sort({ deletedAt: -1 })
+      .skip(startIndex)
+      .limit(limitNum);
+
+    const total = await Item.countDocuments(query);
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.status(200).json({
+      success: true,
+      count: items.length,
+      total,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        totalPages,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      },
+      data: items.map(item => ({
+        ...item.toJSON(),
+        restorableUntil: getRestoreDeadline(item.deletedAt as Date)
+      }))
+    });
+  } catch (error) {
+    return next(handleError(error, 'Error al obtener la papelera'));
+  }
+});
+
 /**
  * @desc    Subir fotos adicionales para un artículo existente
  * @route   PUT /api/v1/items/:id/photo
@@ -1232,12 +1526,13 @@ export const getItemsByUser = asyncHandler(async (req: Request, res: Response, n
     /**
      * Construir consulta para artículos del usuario
      * Incluir artículos pendientes y aprobados, excluir rechazados
-     * Solo mostrar artículos disponibles (no eliminados)
+     * Solo mostrar anuncios activos o reservados (no eliminados)
      */
     const query = {
       user: req.params.userId,
-      available: true,
-      moderationStatus: { $in: ['pending', 'approved'] }
+      status: { $in: ['active', 'reserved'] },
+      moderationStatus: { $in: ['pending', 'approved'] },
+      ...NOT_DELETED_FILTER
     };
 
     // Query object constructed
@@ -1314,7 +1609,7 @@ export const getItemsByUser = asyncHandler(async (req: Request, res: Response, n
  * @param   {NextFunction} next - Función para pasar al siguiente middleware
  * @query   {number} page - Número de página para paginación (default: 1)
  * @query   {number} limit - Límite de artículos por página (default: 12)
- * @query   {string} status - Filtro por estado: 'all', 'available', 'unavailable', 'pending', 'approved', 'rejected' (default: 'all')
+ * @query   {string} status - Filtro por estado: 'all', 'available', 'unavailable', 'pending', 'approved', 'rejected' o un estado del ciclo de vida (default: 'all')
  * @returns {Response} Lista paginada de artículos del usuario autenticado
  */
 export const getMyItems = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
@@ -1341,7 +1636,8 @@ export const getMyItems = asyncHandler(async (req: Request, res: Response, next:
      * El ID del usuario se obtiene del token JWT decodificado
      */
     const query: any = {
-      user: (req as any).user.id
+      user: (req as any).user.id,
+      ...NOT_DELETED_FILTER
     };
 
     // ========================================================================
@@ -1359,6 +1655,8 @@ export const getMyItems = asyncHandler(async (req: Request, res: Response, next:
         query.available = false;
       } else if (['pending', 'approved', 'rejected'].includes(status as string)) {
         query.moderationStatus = status;
+      } else if (ITEM_STATUSES.includes(status as ItemStatus)) {
+        query.status = status;
       }
     }
 
@@ -1451,15 +1749,35 @@ export const approveItem = asyncHandler(async (req: Request, res: Response, next
     /**
      * Actualizar el estado del artículo a 'aprobado'
      * Registrar la fecha y el moderador que realizó la acción
-     * Hacer el artículo disponible para visualización pública
+     * La disponibilidad se recalcula al guardar según el estado del anuncio
      */
     item.moderationStatus = 'approved';
     item.moderatedAt = new Date();
     item.moderatedBy = (req as any).user.id;
-    item.available = true;
 
     await item.save();
 
+    /**
+     * Avisar al propietario de que su artículo ya está publicado
+     */
+    await notifyUser(item.user, {
+      type: 'item_approved',
+      title: `Tu artículo "${item.title}" ha sido aprobado`,
+      link: `/item/${item._id}`,
+      payload: { itemId: item._id.toString() }
+    });
+
+    // ========================================================================
+    // AVISOS DE BÚSQUEDAS GUARDADAS
+    // ========================================================================
+
+    /**
+     * Avisar a los usuarios con búsquedas guardadas que coinciden
+     * Usa la misma consulta que la búsqueda pública, por lo que los borradores
+     * y los anuncios no activos no generan avisos
+     */
+    await notifySavedSearchMatches(item);
+
     // ========================================================================
     // RESPUESTA JSON
     // ========================================================================
@@ -1518,16 +1836,26 @@ export const rejectItem = asyncHandler(async (req: Request, res: Response, next:
     /**
      * Actualizar el estado del artículo a 'rechazado'
      * Registrar la fecha, el moderador y la razón del rechazo
-     * Hacer el artículo no disponible para visualización pública
+     * Al guardar deja de estar disponible para visualización pública
      */
     item.moderationStatus = 'rejected';
     item.moderatedAt = new Date();
     item.moderatedBy = (req as any).user.id;
     item.rejectionReason = reason || 'No especificado';
-    item.available = false;
 
     await item.save();
 
+    /**
+     * Avisar al propietario del rechazo y su motivo
+     */
+    await notifyUser(item.user, {
+      type: 'item_rejected',
+      title: `Tu artículo "${item.title}" ha sido rechazado`,
+      body: item.rejectionReason,
+      link: `/item/${item._id}`,
+      payload: { itemId: item._id.toString(), reason: item.rejectionReason }
+    });
+
     // ========================================================================
     // RESPUESTA JSON
     // ========================================================================
@@ -26,16 +26,20 @@
  * 
  * @routes
  * - POST /api/v1/messages - Enviar nuevo mensaje
+ * - POST /api/v1/messages/start - Iniciar una conversación sobre un item
  * - GET /api/v1/messages/conversations - Obtener conversaciones del usuario
- * - GET /api/v1/messages/conversation/:userId - Obtener mensajes de conversación específica
+ * - GET /api/v1/messages/conversation/:conversationId - Obtener mensajes de conversación específica
+ * - PUT /api/v1/messages/conversation/:conversationId/settings - Archivar o silenciar una conversación
  * - PATCH /api/v1/messages/:id/read - Marcar mensaje como leído
  * - DELETE /api/v1/messages/:id - Eliminar mensaje
  * - GET /api/v1/messages/unread-count - Contar mensajes no leídos
  * 
  * @functions
  * - sendMessage: Envía un nuevo mensaje entre usuarios
+ * - startConversation: Inicia una conversación sobre un item con un primer mensaje
  * - getConversations: Obtiene lista de conversaciones del usuario
  * - getConversationMessages: Obtiene mensajes de una conversación específica
+ * - updateConversationSettings: Archiva o silencia una conversación
  * - markAsRead: Marca mensajes como leídos
  * - deleteMessage: Elimina un mensaje específico
  * - getUnreadCount: Cuenta mensajes no leídos
@@ -45,10 +49,15 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import Message from '../models/Message';
+import Conversation, { IConversation, findOrCreateConversation, recordConversationActivity } from '../models/Conversation';
 import User from '../models/User';
+import Item from '../models/Item';
 import asyncHandler from '../utils/async';
 import { AppError } from '../utils/app-error';
+import { emitToUser } from '../config/socket';
+import { notifyUser } from '../utils/notifications';
 
 // Interfaz para el request autenticado
 interface AuthenticatedRequest extends Request {
@@ -60,38 +69,372 @@ interface AuthenticatedRequest extends Request {
 // Alias para compatibilidad con código existente
 const ErrorResponse = AppError;
 
-// @desc    Enviar un mensaje a otro usuario
-// @route   POST /api/v1/messages
-// @access  Private
-export const sendMessage = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  // Añadir el usuario actual como remitente
-  req.body.sender = req.user.id;
+/**
+ * Campos públicos de los usuarios que se devuelven con los mensajes
+ */
+const USER_FIELDS = 'name avatar';
 
-  // Verificar que el destinatario existe
-  const recipient = await User.findById(req.body.recipient);
-  if (!recipient) {
-    return next(
-      new ErrorResponse(`Usuario con ID ${req.body.recipient} no encontrado`, 404)
+/**
+ * Obtiene una conversación comprobando que el usuario participa en ella
+ *
+ * @param {any} conversationId - ID de la conversación
+ * @param {string} userId - ID del usuario autenticado
+ * @returns {Promise<IConversation>} Conversación encontrada
+ * @throws {AppError} Si no existe o el usuario no participa
+ */
+const findConversationForParticipant = async (conversationId: any, userId: string): Promise<IConversation> => {
+  if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+    throw new ErrorResponse(`Conversación con ID ${conversationId} no encontrada`, 404);
+  }
+
+  const conversation = await Conversation.findById(conversationId);
+
+  if (!conversation) {
+    throw new ErrorResponse(`Conversación con ID ${conversationId} no encontrada`, 404);
+  }
+
+  if (!conversation.participants.some(participant => participant.toString() === userId)) {
+    throw new ErrorResponse('No autorizado para acceder a esta conversación', 403);
+  }
+
+  return conversation;
+};
+
+/**
+ * Devuelve el otro participante de una conversación
+ *
+ * @param {IConversation} conversation - Conversación
+ * @param {any} userId - Participante conocido
+ * @returns {mongoose.Types.ObjectId} El otro participante
+ */
+const getPartnerId = (conversation: IConversation, userId: any) =>
+  conversation.participants.find(participant => participant.toString() !== String(userId))!;
+
+/**
+ * Devuelve el estado de un participante en una conversación
+ *
+ * @param {IConversation} conversation - Conversación
+ * @param {any} userId - Participante
+ * @returns {{ archived: boolean, muted: boolean, lastReadAt?: Date }} Estado del participante
+ */
+const getParticipantState = (conversation: IConversation, userId: any) =>
+  conversation.participantStates.find(state => state.user.toString() === String(userId))
+  || { archived: false, muted: false, lastReadAt: undefined };
+
+/**
+ * Da formato a una conversación para la respuesta de la API
+ *
+ * @param {IConversation} conversation - Conversación con participants, item y lastMessage poblados
+ * @param {string} userId - Usuario autenticado
+ * @param {number} unreadCount - Mensajes no leídos del usuario en la conversación
+ * @returns {object} Conversación con el otro participante y el estado del usuario
+ */
+const formatConversation = (conversation: any, userId: string, unreadCount: number) => {
+  const state = getParticipantState(conversation, userId);
+
+  return {
+    _id: conversation._id,
+    withUser: conversation.participants.find((participant: any) => participant._id.toString() !== userId),
+    participants: conversation.participants,
+    item: conversation.item || null,
+    lastMessage: conversation.lastMessage || null,
+    lastMessageAt: conversation.lastMessageAt,
+    unreadCount,
+    archived: state.archived,
+    muted: state.muted,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt
+  };
+};
+
+/**
+ * Obtiene una conversación poblada y formateada para un participante
+ *
+ * @param {any} conversationId - ID de la conversación
+ * @param {string} userId - Usuario autenticado
+ * @returns {Promise<object>} Conversación formateada
+ */
+const loadFormattedConversation = async (conversationId: any, userId: string) => {
+  const [conversation, unreadCount] = await Promise.all([
+    Conversation.findById(conversationId)
+      .populate({ path: 'participants', select: USER_FIELDS })
+      .populate({ path: 'item', select: 'title imageUrls' })
+      .populate({ path: 'lastMessage' }),
+    Message.countDocuments({ conversation: conversationId, recipient: userId, read: false })
+  ]);
+
+  return formatConversation(conversation, userId, unreadCount);
+};
+
+/**
+ * Notifica a un usuario el estado actualizado de una de sus conversaciones
+ *
+ * @param {any} userId - Usuario que recibe el evento
+ * @param {any} partnerId - Otro participante de la conversación
+ * @param {any} [conversationId] - Conversación concreta; sin ella se usa todo el historial con partnerId
+ *
+ * @description
+ * Emite conversation:updated con el último mensaje, los no leídos de la
+ * conversación y el total de no leídos del usuario (para el contador del NavBar).
+ */
+const emitConversationUpdated = async (userId: any, partnerId: any, conversationId?: any) => {
+  const scope = conversationId
+    ? { conversation: conversationId }
+    : { $or: [{ sender: userId, recipient: partnerId }, { sender: partnerId, recipient: userId }] };
+
+  const [lastMessage, unreadCount, totalUnread] = await Promise.all([
+    Message.findOne(scope)
+      .populate({ path: 'sender', select: USER_FIELDS })
+      .populate({ path: 'recipient', select: USER_FIELDS })
+      .sort({ createdAt: -1 }),
+    Message.countDocuments({ ...scope, sender: partnerId, recipient: userId, read: false }),
+    Message.countDocuments({ recipient: userId, read: false })
+  ]);
+
+  emitToUser(userId, 'conversation:updated', {
+    conversationId: conversationId ? conversationId.toString() : null,
+    withUser: partnerId.toString(),
+    lastMessage,
+    unreadCount,
+    totalUnread
+  });
+};
+
+/**
+ * Marca como leídos los mensajes recibidos de otro usuario y avisa al remitente
+ *
+ * @param {any} currentUserId - Usuario que lee los mensajes
+ * @param {any} partnerId - Usuario que envió los mensajes
+ * @param {any} [conversationId] - Limitar a una conversación concreta
+ */
+const markReceivedMessagesAsRead = async (currentUserId: any, partnerId: any, conversationId?: any) => {
+  const unread = await Message.find({
+    sender: partnerId,
+    recipient: currentUserId,
+    read: false,
+    ...(conversationId && { conversation: conversationId })
+  }).select('_id');
+
+  if (conversationId) {
+    await Conversation.updateOne(
+      { _id: conversationId, 'participantStates.user': currentUserId },
+      { $set: { 'participantStates.$.lastReadAt': new Date() } }
     );
   }
 
-  // Crear el mensaje
-  const message = await Message.create(req.body);
+  if (unread.length === 0) {
+    return;
+  }
+
+  const messageIds = unread.map(message => message._id.toString());
+
+  await Message.updateMany(
+    { _id: { $in: messageIds } },
+    { $set: { read: true } }
+  );
+
+  emitToUser(partnerId, 'message:read', {
+    readerId: currentUserId.toString(),
+    conversationId: conversationId ? conversationId.toString() : null,
+    messageIds
+  });
+  await emitConversationUpdated(currentUserId, partnerId, conversationId);
+};
+
+/**
+ * Crea un mensaje dentro de una conversación y notifica a ambos participantes
+ *
+ * @param {IConversation} conversation - Conversación del mensaje
+ * @param {string} senderId - Usuario que envía el mensaje
+ * @param {string} content - Contenido del mensaje
+ * @returns {Promise<any>} Mensaje creado con remitente y destinatario poblados
+ */
+const createConversationMessage = async (conversation: IConversation, senderId: string, content: string) => {
+  const recipientId = getPartnerId(conversation, senderId);
+
+  const message = await Message.create({
+    sender: senderId,
+    recipient: recipientId,
+    content,
+    item: conversation.item,
+    conversation: conversation._id
+  });
+
+  await recordConversationActivity(conversation._id, message);
 
-  // Poblar el mensaje con información del remitente y destinatario
   const populatedMessage = await Message.findById(message._id)
-    .populate({
-      path: 'sender',
-      select: 'name avatar'
-    })
-    .populate({
-      path: 'recipient',
-      select: 'name avatar'
+    .populate({ path: 'sender', select: USER_FIELDS })
+    .populate({ path: 'recipient', select: USER_FIELDS });
+
+  // Notificar en tiempo real a ambos participantes (el remitente puede tener varias pestañas)
+  emitToUser(recipientId, 'message:new', populatedMessage);
+  emitToUser(senderId, 'message:new', populatedMessage);
+  await Promise.all([
+    emitConversationUpdated(recipientId, senderId, conversation._id),
+    emitConversationUpdated(senderId, recipientId, conversation._id)
+  ]);
+
+  // Guardar la notificación del destinatario salvo que haya silenciado la conversación
+  if (!getParticipantState(conversation, recipientId).muted) {
+    const sender: any = populatedMessage?.sender;
+    await notifyUser(recipientId, {
+      type: 'message',
+      title: `Nuevo mensaje de ${sender?.name || 'un usuario'}`,
+      body: content.length > 140 ? `${content.slice(0, 137)}...` : content,
+      link: `/message/${senderId}?conversation=${conversation._id}`,
+      payload: {
+        conversationId: conversation._id.toString(),
+        messageId: message._id.toString(),
+        senderId
+      }
     });
+  }
+
+  return populatedMessage;
+};
+
+/**
+ * Resuelve la conversación de un mensaje nuevo a partir del body de la petición
+ *
+ * @param {string} senderId - Usuario que envía el mensaje
+ * @param {any} body - conversation/conversationId, o recipient/recipientId con item/itemId opcional
+ * @returns {Promise<IConversation>} Conversación existente o recién creada
+ * @throws {AppError} Si el destinatario o el item no existen
+ */
+const resolveConversation = async (senderId: string, body: any): Promise<IConversation> => {
+  const conversationId = body.conversation || body.conversationId;
+
+  if (conversationId) {
+    return findConversationForParticipant(conversationId, senderId);
+  }
+
+  const recipientId = body.recipient || body.recipientId;
+  const itemId = body.item || body.itemId;
+
+  if (!recipientId || !mongoose.Types.ObjectId.isValid(recipientId)) {
+    throw new ErrorResponse('Debes indicar un destinatario válido', 400);
+  }
+
+  if (recipientId.toString() === senderId) {
+    throw new ErrorResponse('No puedes enviarte mensajes a ti mismo', 400);
+  }
+
+  const recipient = await User.findById(recipientId);
+  if (!recipient) {
+    throw new ErrorResponse(`Usuario con ID ${recipientId} no encontrado`, 404);
+  }
+
+  if (itemId) {
+    if (!mongoose.Types.ObjectId.isValid(itemId) || !(await Item.exists({ _id: itemId }))) {
+      throw new ErrorResponse(`Artículo con ID ${itemId} no encontrado`, 404);
+    }
+  }
+
+  return findOrCreateConversation(senderId, recipientId, itemId);
+};
+
+// @desc    Enviar un mensaje a otro usuario
+// @route   POST /api/v1/messages
+// @access  Private
+// @body    conversation - Conversación existente, o bien:
+// @body    recipient, item - Destinatario e item opcional (se crea la conversación si no existe)
+export const sendMessage = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const conversation = await resolveConversation(req.user.id, req.body);
+  const message = await createConversationMessage(conversation, req.user.id, req.body.content);
+
+  res.status(201).json({
+    success: true,
+    data: message
+  });
+});
+
+// @desc    Iniciar una conversación sobre un item
+// @route   POST /api/v1/messages/start
+// @access  Private
+// @body    recipientId - Usuario con quien se inicia la conversación
+// @body    itemId - Item sobre el que se conversa (opcional)
+// @body    content - Primer mensaje
+export const startConversation = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const conversation = await resolveConversation(req.user.id, {
+    recipientId: req.body.recipientId,
+    itemId: req.body.itemId
+  });
+  const message = await createConversationMessage(conversation, req.user.id, req.body.content);
 
   res.status(201).json({
     success: true,
-    data: populatedMessage
+    conversation: await loadFormattedConversation(conversation._id, req.user.id),
+    data: message
+  });
+});
+
+// @desc    Obtener los mensajes de una conversación
+// @route   GET /api/v1/messages/conversation/:conversationId
+// @access  Private
+// @query   page - Página, empezando por los mensajes más recientes (por defecto 1)
+// @query   limit - Mensajes por página (por defecto 50, máximo 100)
+export const getConversationMessages = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const conversation = await findConversationForParticipant(req.params.conversationId, req.user.id);
+  const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 100);
+
+  await markReceivedMessagesAsRead(req.user.id, getPartnerId(conversation, req.user.id), conversation._id);
+
+  const [messages, total] = await Promise.all([
+    Message.find({ conversation: conversation._id })
+      .populate({ path: 'sender', select: USER_FIELDS })
+      .populate({ path: 'recipient', select: USER_FIELDS })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Message.countDocuments({ conversation: conversation._id })
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  res.status(200).json({
+    success: true,
+    conversation: await loadFormattedConversation(conversation._id, req.user.id),
+    // Cada página se devuelve en orden cronológico para mostrarla directamente
+    messages: messages.reverse(),
+    total,
+    page,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1
+  });
+});
+
+// @desc    Archivar o silenciar una conversación para el usuario actual
+// @route   PUT /api/v1/messages/conversation/:conversationId/settings
+// @access  Private
+// @body    archived - true para archivar, false para desarchivar (opcional)
+// @body    muted - true para silenciar, false para reactivar (opcional)
+export const updateConversationSettings = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const conversation = await findConversationForParticipant(req.params.conversationId, req.user.id);
+  const updates: Record<string, boolean> = {};
+
+  ['archived', 'muted'].forEach(field => {
+    if (req.body[field] !== undefined) {
+      if (typeof req.body[field] !== 'boolean') {
+        throw new ErrorResponse(`El campo ${field} debe ser true o false`, 400);
+      }
+      updates[`participantStates.$.${field}`] = req.body[field];
+    }
+  });
+
+  if (Object.keys(updates).length === 0) {
+    return next(new ErrorResponse('Debes indicar archived o muted', 400));
+  }
+
+  await Conversation.updateOne(
+    { _id: conversation._id, 'participantStates.user': req.user.id },
+    { $set: updates }
+  );
+
+  res.status(200).json({
+    success: true,
+    data: await loadFormattedConversation(conversation._id, req.user.id)
   });
 });
 
@@ -131,10 +474,7 @@ export const markConversationAsRead = asyncHandler(async (req: AuthenticatedRequ
   const currentUserId = req.user.id;
 
   // Marcar como leídos todos los mensajes recibidos del conversationPartnerId por el currentUser
-  await Message.updateMany(
-    { sender: conversationPartnerId, recipient: currentUserId, read: false },
-    { $set: { read: true } }
-  );
+  await markReceivedMessagesAsRead(currentUserId, conversationPartnerId);
 
   res.status(200).json({ success: true, data: {} });
 });
@@ -147,10 +487,7 @@ export const getConversation = asyncHandler(async (req: AuthenticatedRequest, re
   const currentUserId = req.user.id;
 
   // Marcar mensajes como leídos al obtener la conversación
-  await Message.updateMany(
-    { sender: conversationPartnerId, recipient: currentUserId, read: false },
-    { $set: { read: true } }
-  );
+  await markReceivedMessagesAsRead(currentUserId, conversationPartnerId);
 
   // Verificar que el otro usuario existe
   const otherUserDetails = await User.findById(conversationPartnerId).select('name avatar profileImage'); // Asegúrate de seleccionar los campos que necesitas
@@ -211,6 +548,8 @@ export const markAsRead = asyncHandler(async (req: AuthenticatedRequest, res: Re
     );
   }
 
+  const wasUnread = !message.read;
+
   // Actualizar el estado de lectura
   message = await Message.findByIdAndUpdate(
     req.params.id,
@@ -226,6 +565,17 @@ export const markAsRead = asyncHandler(async (req: AuthenticatedRequest, res: Re
       select: 'name avatar'
     });
 
+  if (message && wasUnread) {
+    const conversationId = message.conversation ? message.conversation.toString() : null;
+
+    emitToUser(message.sender._id, 'message:read', {
+      readerId: req.user.id,
+      conversationId,
+      messageIds: [message._id.toString()]
+    });
+    await emitConversationUpdated(req.user.id, message.sender._id, message.conversation);
+  }
+
   res.status(200).json({
     success: true,
     data: message
@@ -256,6 +606,24 @@ export const deleteMessage = asyncHandler(async (req: AuthenticatedRequest, res:
 
   await message.deleteOne();
 
+  // Si era el último mensaje, la conversación pasa a mostrar el anterior
+  if (message.conversation) {
+    const previous = await Message.findOne({ conversation: message.conversation }).sort({ createdAt: -1 });
+
+    await Conversation.updateOne(
+      { _id: message.conversation, lastMessage: message._id },
+      previous
+        ? { $set: { lastMessage: previous._id, lastMessageAt: previous.createdAt } }
+        : { $unset: { lastMessage: 1 } }
+    );
+  }
+
+  // El último mensaje o los no leídos de la conversación pueden haber cambiado
+  await Promise.all([
+    emitConversationUpdated(message.sender, message.recipient, message.conversation),
+    emitConversationUpdated(message.recipient, message.sender, message.conversation)
+  ]);
+
   res.status(200).json({
     success: true,
     data: {}
@@ -310,64 +678,166 @@ export const checkNewMessages = asyncHandler(async (req: AuthenticatedRequest, r
   });
 });
 
+/**
+ * Codifica el cursor de paginación de conversaciones
+ *
+ * @param {any} conversation - Conversación agregada (con lastMessageAt y _id)
+ * @returns {string} Cursor opaco en base64url
+ */
+const encodeConversationCursor = (conversation: any): string =>
+  Buffer.from(`${conversation.lastMessageAt.toISOString()}_${conversation._id}`).toString('base64url');
+
+/**
+ * Decodifica un cursor de paginación de conversaciones
+ *
+ * @param {string} cursor - Cursor recibido en la query string
+ * @returns {{ lastMessageAt: Date, conversationId: mongoose.Types.ObjectId }} Posición de la última conversación devuelta
+ * @throws {AppError} Si el cursor no es válido
+ */
+const decodeConversationCursor = (cursor: string) => {
+  const [date, conversationId] = Buffer.from(cursor, 'base64url').toString('utf8').split('_');
+  const lastMessageAt = new Date(date);
+
+  if (isNaN(lastMessageAt.getTime()) || !mongoose.Types.ObjectId.isValid(conversationId)) {
+    throw new ErrorResponse('Cursor de paginación no válido', 400);
+  }
+
+  return { lastMessageAt, conversationId: new mongoose.Types.ObjectId(conversationId) };
+};
+
 // @desc    Obtener todas las conversaciones del usuario
 // @route   GET /api/v1/messages/conversations
 // @access  Privado
+// @query   archived - true para ver solo las archivadas, all para ver todas (por defecto se excluyen)
+// @query   cursor - Cursor devuelto en pagination.nextCursor (tiene prioridad sobre page)
+// @query   page - Página (por defecto 1)
+// @query   limit - Conversaciones por página (por defecto 20, máximo 100)
 export const getConversations = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const userId = req.user.id;
-
-  const messages = await Message.find({
-    $or: [{ sender: userId }, { recipient: userId }]
-  })
-    .populate({ path: 'sender', select: 'name avatar' })
-    .populate({ path: 'recipient', select: 'name avatar' })
-    .sort({ createdAt: -1 });
-
-  const conversations: any = {};
+  const userId = new mongoose.Types.ObjectId(req.user.id);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+  const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const cursor = req.query.cursor ? decodeConversationCursor(req.query.cursor as string) : null;
+
+  // Filtro por el estado de archivado del usuario actual
+  const stateFilter: any = { user: userId };
+  if (req.query.archived === 'true') {
+    stateFilter.archived = true;
+  } else if (req.query.archived !== 'all') {
+    stateFilter.archived = { $ne: true };
+  }
 
-  for (const message of messages) {
-    let otherUser: any;
-    if (message.sender && message.sender._id.toString() === userId.toString()) {
-      otherUser = message.recipient;
-    } else if (message.recipient && message.recipient._id.toString() === userId.toString()) {
-      otherUser = message.sender;
-    } else {
-      continue;
-    }
-    
-    if (!otherUser || !otherUser._id) {
-      continue;
+  const pipeline: mongoose.PipelineStage[] = [
+    // participants encabeza el filtro para usar el índice { participants, lastMessageAt, _id };
+    // se excluyen los hilos creados sin llegar a enviar ningún mensaje
+    {
+      $match: {
+        participants: userId,
+        participantStates: { $elemMatch: stateFilter },
+        lastMessage: { $exists: true }
+      }
     }
-    const otherUserId = otherUser._id.toString();
+  ];
+
+  // Paginación por cursor: conversaciones posteriores a la última devuelta
+  if (cursor) {
+    pipeline.push({
+      $match: {
+        $or: [
+          { lastMessageAt: { $lt: cursor.lastMessageAt } },
+          { lastMessageAt: cursor.lastMessageAt, _id: { $lt: cursor.conversationId } }
+        ]
+      }
+    });
+  }
 
-    if (!conversations[otherUserId]) {
-      conversations[otherUserId] = {
-        withUser: otherUser,
-        lastMessage: message,
-        unreadCount: 0,
-      };
-    }
-    
-    // Actualizar el último mensaje si el actual es más reciente (ya que están ordenados por -createdAt, el primero encontrado para un otherUser es el más reciente)
-    // No es necesario este if si se procesan en orden de más reciente a más antiguo y se toma el primero.
-    // Sin embargo, para ser explícito y si el orden cambiara:
-    if (new Date(message.createdAt) > new Date(conversations[otherUserId].lastMessage.createdAt)) {
-       conversations[otherUserId].lastMessage = message;
-    }
+  pipeline.push({ $sort: { lastMessageAt: -1, _id: -1 } });
 
-    if (message.recipient && message.recipient._id.toString() === userId.toString() && !message.read) {
-      conversations[otherUserId].unreadCount++;
-    }
+  if (!cursor && page > 1) {
+    pipeline.push({ $skip: (page - 1) * limit });
   }
 
-  const sortedConversations = Object.values(conversations).sort((a: any, b: any) => {
-    return new Date(b.lastMessage.createdAt).getTime() - new Date(a.lastMessage.createdAt).getTime();
-  });
+  // Se pide un elemento de más para saber si hay otra página
+  pipeline.push(
+    { $limit: limit + 1 },
+    {
+      $addFields: {
+        partnerId: {
+          $arrayElemAt: [{ $filter: { input: '$participants', cond: { $ne: ['$$this', userId] } } }, 0]
+        },
+        state: {
+          $arrayElemAt: [{ $filter: { input: '$participantStates', cond: { $eq: ['$$this.user', userId] } } }, 0]
+        }
+      }
+    },
+    { $lookup: { from: 'users', localField: 'partnerId', foreignField: '_id', as: 'withUser' } },
+    { $lookup: { from: 'messages', localField: 'lastMessage', foreignField: '_id', as: 'lastMessage' } },
+    { $lookup: { from: 'items', localField: 'item', foreignField: '_id', as: 'item' } },
+    // Se conservan las conversaciones con usuarios eliminados para no falsear hasMore
+    { $unwind: { path: '$withUser', preserveNullAndEmptyArrays: true } },
+    { $unwind: { path: '$lastMessage', preserveNullAndEmptyArrays: true } },
+    { $unwind: { path: '$item', preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        lastMessageAt: 1,
+        lastMessage: 1,
+        createdAt: 1,
+        updatedAt: 1,
+        archived: { $ifNull: ['$state.archived', false] },
+        muted: { $ifNull: ['$state.muted', false] },
+        'withUser._id': 1,
+        'withUser.name': 1,
+        'withUser.avatar': 1,
+        'item._id': 1,
+        'item.title': 1,
+        'item.imageUrls': 1
+      }
+    }
+  );
+
+  const [results, currentUser] = await Promise.all([
+    Conversation.aggregate(pipeline),
+    User.findById(userId).select(USER_FIELDS).lean()
+  ]);
+
+  const hasMore = results.length > limit;
+  const conversations = results.slice(0, limit);
+
+  // No leídos de las conversaciones de la página en una sola consulta
+  const unreadCounts = await Message.aggregate([
+    { $match: { conversation: { $in: conversations.map(({ _id }) => _id) }, recipient: userId, read: false } },
+    { $group: { _id: '$conversation', count: { $sum: 1 } } }
+  ]);
+  const unreadByConversation = new Map(unreadCounts.map(({ _id, count }) => [_id.toString(), count]));
+
+  // Completar remitente y destinatario del último mensaje sin consultas adicionales
+  const data = conversations
+    .filter(({ withUser, lastMessage }) => withUser && lastMessage)
+    .map(({ withUser, lastMessage, ...conversation }) => {
+      const sentByMe = lastMessage.sender.toString() === req.user.id;
+
+      return {
+        ...conversation,
+        withUser,
+        item: conversation.item || null,
+        lastMessage: {
+          ...lastMessage,
+          sender: sentByMe ? currentUser : withUser,
+          recipient: sentByMe ? withUser : currentUser
+        },
+        unreadCount: unreadByConversation.get(conversation._id.toString()) || 0
+      };
+    });
 
   res.status(200).json({
     success: true,
-    count: sortedConversations.length,
-    data: sortedConversations,
-    message: sortedConversations.length === 0 ? 'No se encontraron conversaciones' : undefined
+    count: data.length,
+    pagination: {
+      limit,
+      ...(cursor ? {} : { page }),
+      hasMore,
+      nextCursor: hasMore ? encodeConversationCursor(conversations[conversations.length - 1]) : null
+    },
+    data,
+    message: data.length === 0 ? 'No se encontraron conversaciones' : undefined
   });
-});
\ No newline at end of file
+});
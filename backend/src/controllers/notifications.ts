@@ -0,0 +1,125 @@
+/**
+ * @file notifications.ts
+ * @description Controlador del centro de notificaciones de Ecommunitas
+ *
+ * Este archivo contiene los controladores con los que el usuario consulta
+ * sus notificaciones guardadas y las marca como leídas. Las notificaciones
+ * se crean desde los eventos de la aplicación (ver utils/notifications).
+ *
+ * @features
+ * - Listado paginado de notificaciones, opcionalmente solo las no leídas
+ * - Número de notificaciones sin leer en cada respuesta
+ * - Marcar una notificación o todas como leídas (sincroniza las demás pestañas)
+ *
+ * @routes
+ * - GET /api/v1/notifications - Notificaciones del usuario
+ * - PATCH /api/v1/notifications/read-all - Marcar todas como leídas
+ * - PATCH /api/v1/notifications/:id/read - Marcar una como leída
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import Notification, { countUnreadNotifications } from '../models/Notification';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+import { emitToUser } from '../config/socket';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+/**
+ * @desc    Obtener las notificaciones del usuario
+ * @route   GET /api/v1/notifications
+ * @access  Private
+ * @query   {number} [page=1] - Página
+ * @query   {number} [limit=20] - Notificaciones por página (máximo 50)
+ * @query   {boolean} [unread] - Solo las no leídas
+ */
+export const getNotifications = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 50);
+
+  const query: any = { user: req.user.id };
+  if (req.query.unread === 'true') {
+    query.read = false;
+  }
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    Notification.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Notification.countDocuments(query),
+    countUnreadNotifications(req.user.id)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: notifications.length,
+    total,
+    unreadCount,
+    pagination: {
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNextPage: page * limit < total,
+      hasPrevPage: page > 1
+    },
+    data: notifications
+  });
+});
+
+/**
+ * @desc    Marcar una notificación como leída
+ * @route   PATCH /api/v1/notifications/:id/read
+ * @access  Private
+ */
+export const markNotificationRead = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const notification = await Notification.findOne({ _id: req.params.id, user: req.user.id });
+
+  if (!notification) {
+    return next(new AppError('Notificación no encontrada', 404));
+  }
+
+  if (!notification.read) {
+    notification.read = true;
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  const unreadCount = await countUnreadNotifications(req.user.id);
+  emitToUser(req.user.id, 'notification:read', { notificationId: notification._id.toString(), unreadCount });
+
+  res.status(200).json({
+    success: true,
+    unreadCount,
+    data: notification
+  });
+});
+
+/**
+ * @desc    Marcar todas las notificaciones como leídas
+ * @route   PATCH /api/v1/notifications/read-all
+ * @access  Private
+ */
+export const markAllNotificationsRead = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await Notification.updateMany(
+    { user: req.user.id, read: false },
+    { $set: { read: true, readAt: new Date() } }
+  );
+
+  emitToUser(req.user.id, 'notification:read', { notificationId: null, unreadCount: 0 });
+
+  res.status(200).json({
+    success: true,
+    unreadCount: 0,
+    data: { updated: result.modifiedCount }
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * @file reports.ts
+ * @description Controlador de denuncias y cola de moderación para la aplicación Ecommunitas
+ *
+ * Este archivo contiene los controladores del sistema de denuncias: cualquier
+ * usuario puede denunciar un artículo, un perfil o un mensaje concreto, y los
+ * administradores revisan la cola de denuncias pendientes y las resuelven
+ * desestimándolas, ocultando el artículo o suspendiendo al usuario responsable.
+ *
+ * @features
+ * - Denuncia de artículos, usuarios y mensajes con un motivo por categorías
+ * - Una sola denuncia pendiente por usuario y contenido
+ * - Cola de moderación paginada con el contenido denunciado
+ * - Resolución con acción (desestimar, ocultar artículo, suspender usuario)
+ * - Registro del administrador que gestionó la denuncia y de la fecha
+ * - La resolución se aplica a todas las denuncias pendientes del mismo contenido
+ *
+ * @routes
+ * - POST /api/v1/reports - Denunciar un contenido
+ * - GET /api/v1/reports - Cola de denuncias (administradores)
+ * - PUT /api/v1/reports/:id/resolve - Resolver una denuncia (administradores)
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Report, {
+  REPORT_ACTIONS,
+  REPORT_TARGET_MODELS,
+  REPORT_TARGET_TYPES,
+  ReportAction,
+  ReportTargetType
+} from '../models/Report';
+import Item from '../models/Item';
+import User from '../models/User';
+import Message from '../models/Message';
+import { revokeUserSessions } from '../models/Session';
+import { disconnectUserSessions } from '../config/socket';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+import logger from '../utils/logger';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Campos del contenido denunciado que se muestran en la cola de moderación
+ */
+const TARGET_FIELDS = 'title imageUrls user available moderationStatus name email avatar role isActive content sender recipient item createdAt';
+
+/**
+ * Puebla denunciante, contenido denunciado y administrador de una consulta de denuncias
+ *
+ * @param {any} query - Consulta de Mongoose sobre Report
+ * @returns {any} La misma consulta con las poblaciones aplicadas
+ */
+const populateReport = (query: any) => query
+  .populate({ path: 'reporter', select: 'name email avatar' })
+  .populate({ path: 'target', select: TARGET_FIELDS })
+  .populate({ path: 'resolution.resolvedBy', select: 'name email' });
+
+/**
+ * Busca el contenido denunciado y comprueba que el usuario puede denunciarlo
+ *
+ * @param {ReportTargetType} targetType - Tipo de contenido denunciado
+ * @param {string} targetId - ID del contenido denunciado
+ * @param {string} reporterId - Usuario que denuncia
+ * @returns {Promise<void>}
+ * @throws {AppError} Si el contenido no existe o el usuario no puede denunciarlo
+ */
+const validateReportTarget = async (targetType: ReportTargetType, targetId: string, reporterId: string) => {
+  if (targetType === 'user') {
+    if (targetId === reporterId) {
+      throw new AppError('No puedes denunciarte a ti mismo', 400);
+    }
+
+    if (!(await User.exists({ _id: targetId }))) {
+      throw new AppError(`Usuario con ID ${targetId} no encontrado`, 404);
+    }
+    return;
+  }
+
+  if (targetType === 'item') {
+    const item = await Item.findById(targetId).select('user');
+    if (!item) {
+      throw new AppError(`Artículo con ID ${targetId} no encontrado`, 404);
+    }
+
+    if (item.user.toString() === reporterId) {
+      throw new AppError('No puedes denunciar tus propios artículos', 400);
+    }
+    return;
+  }
+
+  const message = await Message.findById(targetId).select('sender recipient');
+  if (!message) {
+    throw new AppError(`Mensaje con ID ${targetId} no encontrado`, 404);
+  }
+
+  // Solo el destinatario puede denunciar un mensaje que ha recibido
+  if (message.recipient.toString() !== reporterId) {
+    throw new AppError('Solo puedes denunciar mensajes que hayas recibido', 403);
+  }
+};
+
+/**
+ * Determina el usuario responsable del contenido denunciado
+ *
+ * @param {any} report - Denuncia sin poblar
+ * @returns {Promise<any>} ID del usuario responsable, o null si el contenido ya no existe
+ */
+const getResponsibleUserId = async (report: any) => {
+  if (report.targetType === 'user') {
+    return report.target;
+  }
+
+  if (report.targetType === 'item') {
+    const item = await Item.findById(report.target).select('user');
+    return item ? item.user : null;
+  }
+
+  const message = await Message.findById(report.target).select('sender');
+  return message ? message.sender : null;
+};
+
+/**
+ * Aplica la acción de moderación elegida sobre el contenido denunciado
+ *
+ * @param {any} report - Denuncia que se está resolviendo
+ * @param {ReportAction} action - Acción elegida por el administrador
+ * @param {string} adminId - Administrador que resuelve la denuncia
+ * @param {string} [note] - Nota del administrador
+ * @returns {Promise<void>}
+ * @throws {AppError} Si la acción no es aplicable al contenido denunciado
+ */
+const applyReportAction = async (report: any, action: ReportAction, adminId: string, note?: string) => {
+  if (action === 'hide_item') {
+    if (report.targetType !== 'item') {
+      throw new AppError('Solo se pueden ocultar artículos denunciados', 400);
+    }
+
+    // Misma ocultación que el rechazo manual de un artículo en moderación
+    const result = await Item.updateOne(
+      { _id: report.target },
+      {
+        $set: {
+          moderationStatus: 'rejected',
+          moderatedAt: new Date(),
+          moderatedBy: adminId,
+          rejectionReason: note || 'Contenido denunciado',
+          available: false
+        }
+      }
+    );
+
+    if (!result.matchedCount) {
+      throw new AppError('El artículo denunciado ya no existe', 404);
+    }
+    return;
+  }
+
+  if (action === 'suspend_user') {
+    const userId = await getResponsibleUserId(report);
+    const user = userId ? await User.findById(userId) : null;
+
+    if (!user) {
+      throw new AppError('El usuario responsable del contenido ya no existe', 404);
+    }
+
+    if (user.role === 'admin') {
+      throw new AppError('No se puede suspender a un administrador', 400);
+    }
+
+    user.isActive = false;
+    await user.save({ validateBeforeSave: false });
+
+    // Cerrar sus sesiones y sus conexiones en tiempo real abiertas
+    await revokeUserSessions(user._id);
+    disconnectUserSessions(user._id);
+  }
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Denunciar un artículo, un usuario o un mensaje
+ * @route   POST /api/v1/reports
+ * @access  Private
+ * @body    { targetType: 'item'|'user'|'message', targetId: string, reason: string, details?: string }
+ */
+export const createReport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { targetType, targetId, reason, details } = req.body;
+
+  if (!REPORT_TARGET_TYPES.includes(targetType)) {
+    return next(new AppError('Tipo de contenido denunciado no válido', 400));
+  }
+
+  if (!targetId || !mongoose.Types.ObjectId.isValid(targetId)) {
+    return next(new AppError('Debes indicar qué contenido denuncias', 400));
+  }
+
+  await validateReportTarget(targetType, targetId, req.user.id);
+
+  if (await Report.exists({ reporter: req.user.id, target: targetId, status: 'pending' })) {
+    return next(new AppError('Ya has denunciado este contenido y está pendiente de revisión', 400));
+  }
+
+  const report = await Report.create({
+    reporter: req.user.id,
+    targetType,
+    targetModel: REPORT_TARGET_MODELS[targetType as ReportTargetType],
+    target: targetId,
+    reason,
+    details
+  });
+
+  res.status(201).json({
+    success: true,
+    data: report
+  });
+});
+
+/**
+ * @desc    Obtener la cola de denuncias
+ * @route   GET /api/v1/reports
+ * @access  Private/Admin
+ * @query   status - pending (por defecto), resolved, dismissed o all
+ * @query   targetType - Filtrar por tipo de contenido (item, user, message)
+ * @query   page - Página (por defecto 1)
+ * @query   limit - Denuncias por página (por defecto 20, máximo 100)
+ */
+export const getReports = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { status = 'pending', targetType } = req.query;
+  const filter: any = {};
+
+  if (status !== 'all') {
+    filter.status = status;
+  }
+
+  if (targetType) {
+    filter.targetType = targetType;
+  }
+
+  const pageNum = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const limitNum = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+
+  // Las pendientes se atienden por orden de llegada; el historial, lo más reciente primero
+  const sort: any = status === 'pending' ? { createdAt: 1 } : { updatedAt: -1 };
+
+  const [reports, total] = await Promise.all([
+    populateReport(
+      Report.find(filter)
+        .sort(sort)
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+    ),
+    Report.countDocuments(filter)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: reports.length,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      pages: Math.ceil(total / limitNum)
+    },
+    data: reports
+  });
+});
+
+/**
+ * @desc    Resolver una denuncia aplicando una acción de moderación
+ * @route   PUT /api/v1/reports/:id/resolve
+ * @access  Private/Admin
+ * @body    { action: 'dismiss'|'hide_item'|'suspend_user', note?: string }
+ */
+export const resolveReport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const reportId = req.params.id as string;
+  const { action, note } = req.body;
+
+  if (!REPORT_ACTIONS.includes(action)) {
+    return next(new AppError('Acción de moderación no válida', 400));
+  }
+
+  const report = mongoose.Types.ObjectId.isValid(reportId) ? await Report.findById(reportId) : null;
+
+  if (!report) {
+    return next(new AppError(`Denuncia con ID ${reportId} no encontrada`, 404));
+  }
+
+  if (report.status !== 'pending') {
+    return next(new AppError('Esta denuncia ya ha sido gestionada', 400));
+  }
+
+  await applyReportAction(report, action, req.user.id, note);
+
+  // La decisión cierra todas las denuncias pendientes sobre el mismo contenido
+  const result = await Report.updateMany(
+    { targetType: report.targetType, target: report.target, status: 'pending' },
+    {
+      $set: {
+        status: action === 'dismiss' ? 'dismissed' : 'resolved',
+        resolution: {
+          action,
+          note,
+          resolvedBy: req.user.id,
+          resolvedAt: new Date()
+        }
+      }
+    }
+  );
+
+  logger.info(`Denuncia ${reportId} (${report.targetType} ${report.target}) resuelta con '${action}' por el administrador ${req.user.id} (${result.modifiedCount} denuncias cerradas)`);
+
+  res.status(200).json({
+    success: true,
+    data: await populateReport(Report.findById(report._id))
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @file reviews.ts
+ * @description Controlador de valoraciones entre usuarios para la aplicación Ecommunitas
+ *
+ * Este archivo contiene los controladores de la reputación de los usuarios:
+ * tras conversar sobre un artículo (o cerrar un intercambio), cada parte
+ * puede valorar a la otra con una puntuación de 1 a 5 y un comentario.
+ *
+ * @features
+ * - Listado paginado de las valoraciones recibidas por un usuario
+ * - Resumen agregado de la reputación (media y número de valoraciones)
+ * - Valoraciones solo entre usuarios que han intercambiado mensajes sobre el artículo
+ * - Una valoración por autor, usuario valorado y artículo
+ * - Eliminación por el autor o por administradores
+ *
+ * @routes
+ * - GET /api/v1/users/:id/reviews - Valoraciones recibidas por un usuario
+ * - POST /api/v1/users/:id/reviews - Valorar a un usuario
+ * - DELETE /api/v1/users/:id/reviews/:reviewId - Eliminar una valoración
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Review, { getRatingSummary } from '../models/Review';
+import Message from '../models/Message';
+import Trade from '../models/Trade';
+import Item from '../models/Item';
+import User from '../models/User';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Estados de un intercambio que permiten valorar a la otra parte
+ */
+const REVIEWABLE_TRADE_STATUSES = ['accepted', 'completed'];
+
+/**
+ * Puebla autor, artículo e intercambio de una consulta de valoraciones
+ *
+ * @param {any} query - Consulta de Mongoose sobre Review
+ * @returns {any} La misma consulta con las poblaciones aplicadas
+ */
+const populateReview = (query: any) => query
+  .populate({ path: 'reviewer', select: 'name avatar' })
+  .populate({ path: 'item', select: 'title imageUrls' })
+  .populate({ path: 'trade', select: 'status completedAt' });
+
+/**
+ * Comprueba que dos usuarios se han escrito mensajes sobre alguno de los artículos
+ *
+ * @param {string} reviewerId - Autor de la valoración
+ * @param {string} revieweeId - Usuario valorado
+ * @param {any[]} itemIds - Artículos sobre los que pudieron conversar
+ * @returns {Promise<boolean>} true si ambos usuarios se han enviado al menos un mensaje
+ */
+const haveExchangedMessages = async (reviewerId: string, revieweeId: string, itemIds: any[]): Promise<boolean> => {
+  const [sent, received] = await Promise.all([
+    Message.exists({ sender: reviewerId, recipient: revieweeId, item: { $in: itemIds } }),
+    Message.exists({ sender: revieweeId, recipient: reviewerId, item: { $in: itemIds } })
+  ]);
+
+  return Boolean(sent && received);
+};
+
+/**
+ * Determina el artículo valorado y los artículos de la conversación previa
+ *
+ * @param {string} reviewerId - Autor de la valoración
+ * @param {string} revieweeId - Usuario valorado
+ * @param {any} body - itemId o tradeId de la petición
+ * @returns {Promise<{ item: any, trade?: any, conversationItems: any[] }>} Referencias de la valoración
+ * @throws {AppError} Si el artículo o el intercambio no existen o no son válidos
+ */
+const resolveReviewSubject = async (reviewerId: string, revieweeId: string, body: any) => {
+  const { itemId, tradeId } = body;
+
+  if (tradeId) {
+    if (!mongoose.Types.ObjectId.isValid(tradeId)) {
+      throw new AppError(`Intercambio con ID ${tradeId} no encontrado`, 404);
+    }
+
+    const trade = await Trade.findById(tradeId);
+    if (!trade) {
+      throw new AppError(`Intercambio con ID ${tradeId} no encontrado`, 404);
+    }
+
+    const participants = [trade.proposer.toString(), trade.recipient.toString()];
+    if (!participants.includes(reviewerId) || !participants.includes(revieweeId)) {
+      throw new AppError('Solo puedes valorar a la otra parte de tus intercambios', 403);
+    }
+
+    if (!REVIEWABLE_TRADE_STATUSES.includes(trade.status)) {
+      throw new AppError('Solo puedes valorar intercambios aceptados o completados', 400);
+    }
+
+    return {
+      item: trade.requestedItem,
+      trade: trade._id,
+      conversationItems: [trade.requestedItem, ...trade.offeredItems]
+    };
+  }
+
+  if (!itemId) {
+    throw new AppError('Debes indicar el artículo o el intercambio valorado', 400);
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(itemId) || !(await Item.exists({ _id: itemId }))) {
+    throw new AppError(`Artículo con ID ${itemId} no encontrado`, 404);
+  }
+
+  return { item: itemId, conversationItems: [itemId] };
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Obtener las valoraciones recibidas por un usuario
+ * @route   GET /api/v1/users/:id/reviews
+ * @access  Private
+ * @query   page - Página (por defecto 1)
+ * @query   limit - Valoraciones por página (por defecto 10, máximo 50)
+ */
+export const getUserReviews = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const userId = req.params.id as string;
+
+  if (!mongoose.Types.ObjectId.isValid(userId) || !(await User.exists({ _id: userId }))) {
+    return next(new AppError(`Usuario con ID ${userId} no encontrado`, 404));
+  }
+
+  const pageNum = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const limitNum = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 10, 1), 50);
+
+  const [reviews, summary] = await Promise.all([
+    populateReview(
+      Review.find({ reviewee: userId })
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+    ),
+    getRatingSummary(userId)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: reviews.length,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total: summary.count,
+      pages: Math.ceil(summary.count / limitNum)
+    },
+    rating: summary,
+    data: reviews
+  });
+});
+
+/**
+ * @desc    Valorar a un usuario
+ * @route   POST /api/v1/users/:id/reviews
+ * @access  Private (usuarios que han conversado sobre el artículo)
+ * @body    { rating: number, comment?: string, itemId?: string, tradeId?: string }
+ */
+export const createReview = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const revieweeId = req.params.id as string;
+  const { rating, comment } = req.body;
+
+  if (revieweeId === req.user.id) {
+    return next(new AppError('No puedes valorarte a ti mismo', 400));
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(revieweeId) || !(await User.exists({ _id: revieweeId }))) {
+    return next(new AppError(`Usuario con ID ${revieweeId} no encontrado`, 404));
+  }
+
+  const { item, trade, conversationItems } = await resolveReviewSubject(req.user.id, revieweeId, req.body);
+
+  if (!(await haveExchangedMessages(req.user.id, revieweeId, conversationItems))) {
+    return next(new AppError('Solo puedes valorar a usuarios con los que has conversado sobre este artículo', 403));
+  }
+
+  if (await Review.exists({ reviewer: req.user.id, reviewee: revieweeId, item })) {
+    return next(new AppError('Ya has valorado a este usuario por este artículo', 400));
+  }
+
+  const review = await Review.create({
+    reviewer: req.user.id,
+    reviewee: revieweeId,
+    rating,
+    comment,
+    item,
+    trade
+  });
+
+  res.status(201).json({
+    success: true,
+    data: await populateReview(Review.findById(review._id))
+  });
+});
+
+/**
+ * @desc    Eliminar una valoración
+ * @route   DELETE /api/v1/users/:id/reviews/:reviewId
+ * @access  Private (autor de la valoración o administradores)
+ */
+export const deleteReview = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const reviewId = req.params.reviewId as string;
+
+  const review = mongoose.Types.ObjectId.isValid(reviewId)
+    ? await Review.findOne({ _id: reviewId, reviewee: req.params.id as string })
+    : null;
+
+  if (!review) {
+    return next(new AppError(`Valoración con ID ${reviewId} no encontrada`, 404));
+  }
+
+  if (review.reviewer.toString() !== req.user.id && req.user.role !== 'admin') {
+    return next(new AppError('No autorizado para eliminar esta valoración', 403));
+  }
+
+  await review.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * @file savedSearches.ts
+ * @description Controlador de búsquedas guardadas para la aplicación Ecommunitas
+ *
+ * Este archivo contiene los controladores de las búsquedas guardadas: cada
+ * usuario guarda los filtros de una búsqueda de artículos y recibe un aviso
+ * cuando moderación aprueba un artículo que coincide con ellos, en la
+ * aplicación y, si lo pide, en un resumen por email.
+ *
+ * @features
+ * - Guardar, renombrar, modificar y borrar búsquedas
+ * - Mismos filtros que la búsqueda pública (texto, categoría, condición, ubicación y proximidad)
+ * - Número de coincidencias nuevas por búsqueda
+ * - Listado de los artículos que han coincidido, que marca la búsqueda como revisada
+ * - Límite de búsquedas por usuario (SAVED_SEARCH_MAX_PER_USER)
+ *
+ * @routes
+ * - GET /api/v1/saved-searches - Búsquedas guardadas del usuario
+ * - POST /api/v1/saved-searches - Guardar una búsqueda
+ * - PUT /api/v1/saved-searches/:id - Modificar una búsqueda
+ * - DELETE /api/v1/saved-searches/:id - Borrar una búsqueda
+ * - GET /api/v1/saved-searches/:id/matches - Artículos que coinciden con la búsqueda
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import SavedSearch, { ISavedSearch, ISavedSearchFilters, countNewMatches, getSavedSearchSettings } from '../models/SavedSearch';
+import Item, { NOT_DELETED_FILTER } from '../models/Item';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Filtros de texto que admite una búsqueda guardada
+ */
+const TEXT_FILTERS = ['q', 'category', 'condition', 'location'] as const;
+
+/**
+ * Filtros numéricos que admite una búsqueda guardada
+ */
+const NUMERIC_FILTERS = ['lat', 'lng', 'distance'] as const;
+
+/**
+ * Normaliza los filtros recibidos descartando los vacíos y los desconocidos
+ *
+ * @param {any} raw - Filtros del cuerpo de la petición
+ * @returns {ISavedSearchFilters} Filtros limpios
+ * @throws {AppError} Si no hay ningún filtro o un valor numérico no es válido
+ */
+const parseFilters = (raw: any): ISavedSearchFilters => {
+  const filters: ISavedSearchFilters = {};
+  if (!raw || typeof raw !== 'object') {
+    throw new AppError('Debes indicar los filtros de la búsqueda', 400);
+  }
+
+  TEXT_FILTERS.forEach(key => {
+    if (typeof raw[key] === 'string' && raw[key].trim() !== '') {
+      filters[key] = raw[key].trim();
+    }
+  });
+
+  NUMERIC_FILTERS.forEach(key => {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') {
+      return;
+    }
+    const value = Number(raw[key]);
+    if (isNaN(value)) {
+      throw new AppError(`El filtro ${key} debe ser un número`, 400);
+    }
+    filters[key] = value;
+  });
+
+  if (Object.keys(filters).length === 0) {
+    throw new AppError('La búsqueda debe tener al menos un filtro', 400);
+  }
+
+  return filters;
+};
+
+/**
+ * Busca una búsqueda guardada del usuario
+ *
+ * @param {string} id - ID de la búsqueda
+ * @param {string} userId - Propietario
+ * @returns {Promise<ISavedSearch>} Búsqueda guardada
+ * @throws {AppError} Si no existe o es de otro usuario
+ */
+const findOwnSavedSearch = async (id: string, userId: string): Promise<ISavedSearch> => {
+  const search = await SavedSearch.findOne({ _id: id, user: userId });
+  if (!search) {
+    throw new AppError('Búsqueda guardada no encontrada', 404);
+  }
+  return search;
+};
+
+/**
+ * Datos de una búsqueda guardada que se envían al cliente
+ *
+ * @param {ISavedSearch} search - Búsqueda guardada
+ * @returns {object} Búsqueda sin la lista de coincidencias, con sus contadores
+ */
+const serializeSavedSearch = (search: ISavedSearch) => {
+  const { matches, ...data } = search.toObject();
+  return {
+    ...data,
+    matchCount: matches.length,
+    newMatches: countNewMatches(search)
+  };
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Obtener las búsquedas guardadas del usuario
+ * @route   GET /api/v1/saved-searches
+ * @access  Private
+ */
+export const getSavedSearches = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const searches = await SavedSearch.find({ user: req.user.id }).sort({ createdAt: -1 });
+
+  res.status(200).json({
+    success: true,
+    count: searches.length,
+    data: searches.map(serializeSavedSearch)
+  });
+});
+
+/**
+ * @desc    Guardar una búsqueda
+ * @route   POST /api/v1/saved-searches
+ * @access  Private
+ * @body    { name: string, filters: { q?, category?, condition?, location?, lat?, lng?, distance? }, emailDigest?: boolean }
+ */
+export const createSavedSearch = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { name, emailDigest } = req.body;
+  const filters = parseFilters(req.body.filters);
+
+  const { maxPerUser } = getSavedSearchSettings();
+  if (await SavedSearch.countDocuments({ user: req.user.id }) >= maxPerUser) {
+    return next(new AppError(`No puedes guardar más de ${maxPerUser} búsquedas`, 400));
+  }
+
+  const search = await SavedSearch.create({
+    user: req.user.id,
+    name,
+    filters,
+    emailDigest: emailDigest === true
+  });
+
+  res.status(201).json({
+    success: true,
+    data: serializeSavedSearch(search)
+  });
+});
+
+/**
+ * @desc    Modificar el nombre, los filtros o el resumen por email de una búsqueda
+ * @route   PUT /api/v1/saved-searches/:id
+ * @access  Private
+ */
+export const updateSavedSearch = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const search = await findOwnSavedSearch(req.params.id as string, req.user.id);
+  const { name, filters, emailDigest } = req.body;
+
+  if (name !== undefined) {
+    search.name = name;
+  }
+
+  if (filters !== undefined) {
+    search.filters = parseFilters(filters);
+  }
+
+  if (emailDigest !== undefined) {
+    search.emailDigest = emailDigest === true;
+  }
+
+  await search.save();
+
+  res.status(200).json({
+    success: true,
+    data: serializeSavedSearch(search)
+  });
+});
+
+/**
+ * @desc    Borrar una búsqueda guardada
+ * @route   DELETE /api/v1/saved-searches/:id
+ * @access  Private
+ */
+export const deleteSavedSearch = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const search = await findOwnSavedSearch(req.params.id as string, req.user.id);
+  await search.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+/**
+ * @desc    Obtener los artículos que han coincidido con una búsqueda guardada
+ * @route   GET /api/v1/saved-searches/:id/matches
+ * @access  Private
+ *
+ * Solo devuelve los artículos que siguen publicados, del más reciente al más
+ * antiguo, y marca la búsqueda como revisada.
+ */
+export const getSavedSearchMatches = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const search = await findOwnSavedSearch(req.params.id as string, req.user.id);
+  const matchedAt = new Map(search.matches.map(match => [match.item.toString(), match.matchedAt]));
+
+  const items = await Item.find({
+    _id: { $in: search.matches.map(match => match.item) },
+    status: 'active',
+    ...NOT_DELETED_FILTER
+  }).populate('user', 'name');
+
+  const data = items
+    .map(item => ({ ...item.toObject(), matchedAt: matchedAt.get(item._id.toString()) }))
+    .sort((a, b) => b.matchedAt!.getTime() - a.matchedAt!.getTime());
+
+  search.lastSeenAt = new Date();
+  await search.save();
+
+  res.status(200).json({
+    success: true,
+    count: data.length,
+    data
+  });
+});
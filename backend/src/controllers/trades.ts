@@ -0,0 +1,530 @@
+/**
+ * @file trades.ts
+ * @description Controlador de intercambios (trueques) para la aplicación Ecommunitas
+ *
+ * Este archivo contiene los controladores del ciclo de vida de un intercambio:
+ * un usuario ofrece uno o varios de sus artículos a cambio del artículo de otro
+ * usuario, y la propuesta avanza por los estados proposed → accepted/rejected/countered
+ * → completed/cancelled.
+ *
+ * @features
+ * - Creación de propuestas de intercambio con validación de propiedad y disponibilidad
+ * - Aceptación, rechazo y cancelación de propuestas
+ * - Contraofertas enlazadas con la propuesta original
+ * - Finalización que marca como no disponibles todos los artículos implicados
+ * - Cancelación automática de otras propuestas abiertas sobre los mismos artículos
+ * - Historial de intercambios por usuario con paginación
+ *
+ * @routes
+ * - GET /api/v1/trades - Intercambios del usuario autenticado
+ * - POST /api/v1/trades - Proponer un intercambio
+ * - GET /api/v1/trades/:id - Obtener un intercambio
+ * - PUT /api/v1/trades/:id/accept - Aceptar una propuesta
+ * - PUT /api/v1/trades/:id/reject - Rechazar una propuesta
+ * - POST /api/v1/trades/:id/counter - Contraofertar una propuesta
+ * - PUT /api/v1/trades/:id/complete - Marcar un intercambio como completado
+ * - PUT /api/v1/trades/:id/cancel - Cancelar un intercambio
+ * - GET /api/v1/users/:userId/trades - Historial de intercambios de un usuario
+ *
+ * @author Equipo Ecommunitas
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Trade, { ITrade, TradeStatus, TRADE_TRANSITIONS, OPEN_TRADE_STATUSES } from '../models/Trade';
+import Item, { IItem, NOT_DELETED_FILTER } from '../models/Item';
+import { markItemsTraded } from '../utils/itemLifecycle';
+import { notifyItemWatchers } from '../utils/favoriteAlerts';
+import asyncHandler from '../utils/async';
+import { AppError } from '../utils/app-error';
+
+// Interfaz para el request autenticado
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    role: string;
+  };
+}
+
+// ============================================================================
+// FUNCIONES AUXILIARES
+// ============================================================================
+
+/**
+ * Campos públicos de los artículos que se devuelven con cada intercambio
+ */
+const ITEM_FIELDS = 'title imageUrls category condition available status user';
+
+/**
+ * Puebla usuarios y artículos de una consulta de intercambios
+ *
+ * @param {any} query - Consulta de Mongoose sobre Trade
+ * @returns {any} La misma consulta con las poblaciones aplicadas
+ */
+const populateTrade = (query: any) => query
+  .populate({ path: 'proposer', select: 'name avatar' })
+  .populate({ path: 'recipient', select: 'name avatar' })
+  .populate({ path: 'offeredItems', select: ITEM_FIELDS })
+  .populate({ path: 'requestedItem', select: ITEM_FIELDS });
+
+/**
+ * Comprueba que un usuario participa en un intercambio
+ *
+ * @param {ITrade} trade - Intercambio a comprobar
+ * @param {string} userId - ID del usuario
+ * @returns {boolean} true si el usuario es proponente o destinatario
+ */
+const isParticipant = (trade: ITrade, userId: string): boolean =>
+  trade.proposer.toString() === userId || trade.recipient.toString() === userId;
+
+/**
+ * Cambia el estado de un intercambio validando la transición
+ *
+ * @param {ITrade} trade - Intercambio a modificar
+ * @param {TradeStatus} status - Nuevo estado
+ * @param {string} userId - Usuario que provoca el cambio
+ * @throws {AppError} Si la transición no está permitida desde el estado actual
+ */
+const transitionTrade = (trade: ITrade, status: TradeStatus, userId: string): void => {
+  if (!TRADE_TRANSITIONS[trade.status].includes(status)) {
+    throw new AppError(`No se puede pasar un intercambio de '${trade.status}' a '${status}'`, 400);
+  }
+
+  trade.status = status;
+  trade.statusHistory.push({
+    status,
+    changedBy: new mongoose.Types.ObjectId(userId),
+    changedAt: new Date()
+  });
+};
+
+/**
+ * Indica si un artículo puede intercambiarse con un usuario
+ *
+ * @param {IItem} item - Artículo
+ * @param {string} counterpartId - Usuario con el que se intercambiaría
+ * @returns {boolean} true si está disponible o reservado para ese usuario y no lo
+ * ha rechazado la moderación (la misma regla de visibilidad que la búsqueda)
+ */
+const isTradeableWith = (item: IItem, counterpartId: string): boolean =>
+  !item.deletedAt &&
+  item.moderationStatus !== 'rejected' &&
+  (item.available || (item.status === 'reserved' && item.reservedFor?.toString() === counterpartId));
+
+/**
+ * Valida los artículos de una propuesta de intercambio
+ *
+ * @param {string} proposerId - Usuario que propone el intercambio
+ * @param {any} offeredItemIds - IDs de los artículos ofrecidos
+ * @param {any} requestedItemId - ID del artículo solicitado
+ * @returns {Promise<{ recipientId: string, offeredIds: string[] }>} Destinatario y artículos ofrecidos normalizados
+ * @throws {AppError} Si algún artículo no existe, no está disponible o no pertenece a quien corresponde
+ */
+const validateTradeItems = async (proposerId: string, offeredItemIds: any, requestedItemId: any) => {
+  if (!requestedItemId || !mongoose.Types.ObjectId.isValid(requestedItemId)) {
+    throw new AppError('Debes indicar un artículo solicitado válido', 400);
+  }
+
+  const offeredIds: string[] = Array.isArray(offeredItemIds)
+    ? Array.from(new Set(offeredItemIds.map((id: any) => String(id))))
+    : [];
+
+  if (offeredIds.length === 0) {
+    throw new AppError('Debes ofrecer al menos un artículo', 400);
+  }
+
+  if (offeredIds.length > 5) {
+    throw new AppError('No puedes ofrecer más de 5 artículos', 400);
+  }
+
+  if (offeredIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    throw new AppError('Alguno de los artículos ofrecidos no es válido', 400);
+  }
+
+  const requestedItem = await Item.findById(requestedItemId);
+
+  if (!requestedItem || requestedItem.deletedAt) {
+    throw new AppError(`Artículo con ID ${requestedItemId} no encontrado`, 404);
+  }
+
+  if (requestedItem.user.toString() === proposerId) {
+    throw new AppError('No puedes solicitar un artículo propio', 400);
+  }
+
+  if (!isTradeableWith(requestedItem, proposerId)) {
+    throw new AppError('El artículo solicitado no está disponible para intercambio', 400);
+  }
+
+  const offeredItems = await Item.find({ _id: { $in: offeredIds }, ...NOT_DELETED_FILTER });
+
+  if (offeredItems.length !== offeredIds.length) {
+    throw new AppError('Alguno de los artículos ofrecidos no existe', 404);
+  }
+
+  if (offeredItems.some(item => item.user.toString() !== proposerId)) {
+    throw new AppError('Solo puedes ofrecer artículos propios', 403);
+  }
+
+  if (offeredItems.some(item => !isTradeableWith(item, requestedItem.user.toString()))) {
+    throw new AppError('Alguno de los artículos ofrecidos ya no está disponible', 400);
+  }
+
+  return {
+    recipientId: requestedItem.user.toString(),
+    offeredIds
+  };
+};
+
+/**
+ * Comprueba que todos los artículos de un intercambio siguen disponibles
+ *
+ * @param {ITrade} trade - Intercambio a comprobar
+ * @throws {AppError} Si alguno de los artículos ya no está disponible
+ */
+const ensureItemsStillAvailable = async (trade: ITrade): Promise<void> => {
+  const [requestedItem, offeredItems] = await Promise.all([
+    Item.findById(trade.requestedItem),
+    Item.find({ _id: { $in: trade.offeredItems } })
+  ]);
+
+  const stillAvailable = !!requestedItem &&
+    isTradeableWith(requestedItem, trade.proposer.toString()) &&
+    offeredItems.length === trade.offeredItems.length &&
+    offeredItems.every(item => isTradeableWith(item, trade.recipient.toString()));
+
+  if (!stillAvailable) {
+    throw new AppError('Alguno de los artículos del intercambio ya no está disponible', 409);
+  }
+};
+
+/**
+ * Construye el filtro y la paginación para listados de intercambios
+ *
+ * @param {string} userId - Usuario cuyos intercambios se listan
+ * @param {any} queryParams - Parámetros de la query string (status, role, page, limit)
+ * @returns {object} Filtro de MongoDB y datos de paginación
+ */
+const buildTradeListQuery = (userId: string, queryParams: any) => {
+  const { status, role = 'all', page = 1, limit = 20 } = queryParams;
+  const query: any = {};
+
+  if (role === 'sent') {
+    query.proposer = userId;
+  } else if (role === 'received') {
+    query.recipient = userId;
+  } else {
+    query.$or = [{ proposer: userId }, { recipient: userId }];
+  }
+
+  if (status) {
+    const statuses = String(status).split(',').filter(s => s in TRADE_TRANSITIONS);
+    if (statuses.length > 0) {
+      query.status = { $in: statuses };
+    }
+  }
+
+  const pageNum = Math.max(parseInt(page as string, 10) || 1, 1);
+  const limitNum = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100);
+
+  return { query, pageNum, limitNum };
+};
+
+/**
+ * Ejecuta un listado paginado de intercambios y envía la respuesta
+ *
+ * @param {Response} res - Objeto de respuesta de Express
+ * @param {string} userId - Usuario cuyos intercambios se listan
+ * @param {any} queryParams - Parámetros de la query string
+ */
+const sendTradeList = async (res: Response, userId: string, queryParams: any) => {
+  const { query, pageNum, limitNum } = buildTradeListQuery(userId, queryParams);
+
+  const [trades, total] = await Promise.all([
+    populateTrade(
+      Trade.find(query)
+        .sort({ updatedAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum)
+    ),
+    Trade.countDocuments(query)
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: trades.length,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      pages: Math.ceil(total / limitNum)
+    },
+    data: trades
+  });
+};
+
+/**
+ * Obtiene un intercambio comprobando que el usuario participa en él
+ *
+ * @param {string} tradeId - ID del intercambio
+ * @param {string} userId - ID del usuario autenticado
+ * @returns {Promise<ITrade>} Intercambio encontrado
+ * @throws {AppError} Si no existe o el usuario no participa
+ */
+const findTradeForParticipant = async (tradeId: any, userId: string): Promise<ITrade> => {
+  const trade = await Trade.findById(tradeId);
+
+  if (!trade) {
+    throw new AppError(`Intercambio con ID ${tradeId} no encontrado`, 404);
+  }
+
+  if (!isParticipant(trade, userId)) {
+    throw new AppError('No autorizado para gestionar este intercambio', 403);
+  }
+
+  return trade;
+};
+
+/**
+ * Responde con un intercambio recién modificado, ya poblado
+ *
+ * @param {Response} res - Objeto de respuesta de Express
+ * @param {string} tradeId - ID del intercambio
+ * @param {number} statusCode - Código HTTP de la respuesta
+ */
+const sendTrade = async (res: Response, tradeId: any, statusCode = 200) => {
+  const trade = await populateTrade(Trade.findById(tradeId));
+
+  res.status(statusCode).json({
+    success: true,
+    data: trade
+  });
+};
+
+// ============================================================================
+// CONTROLADORES
+// ============================================================================
+
+/**
+ * @desc    Obtener los intercambios del usuario autenticado
+ * @route   GET /api/v1/trades
+ * @access  Private
+ * @query   {string} [status] - Estados separados por comas
+ * @query   {string} [role] - 'sent', 'received' o 'all' (por defecto)
+ * @query   {number} [page] - Página (por defecto 1)
+ * @query   {number} [limit] - Resultados por página (por defecto 20, máximo 100)
+ */
+export const getTrades = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  await sendTradeList(res, req.user.id, req.query);
+});
+
+/**
+ * @desc    Obtener el historial de intercambios de un usuario
+ * @route   GET /api/v1/users/:userId/trades
+ * @access  Private (el propio usuario o administradores)
+ */
+export const getUserTrades = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const userId = req.params.userId as string;
+
+  if (req.user.id !== userId && req.user.role !== 'admin') {
+    return next(new AppError('No autorizado para ver los intercambios de este usuario', 403));
+  }
+
+  await sendTradeList(res, userId, req.query);
+});
+
+/**
+ * @desc    Obtener un intercambio concreto
+ * @route   GET /api/v1/trades/:id
+ * @access  Private (participantes o administradores)
+ */
+export const getTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const trade = await Trade.findById(req.params.id);
+
+  if (!trade) {
+    return next(new AppError(`Intercambio con ID ${req.params.id} no encontrado`, 404));
+  }
+
+  if (!isParticipant(trade, req.user.id) && req.user.role !== 'admin') {
+    return next(new AppError('No autorizado para ver este intercambio', 403));
+  }
+
+  await sendTrade(res, trade._id);
+});
+
+/**
+ * @desc    Proponer un intercambio
+ * @route   POST /api/v1/trades
+ * @access  Private
+ * @body    { offeredItems: string[], requestedItem: string, message?: string }
+ */
+export const createTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { offeredItems, requestedItem, message } = req.body;
+
+  const { recipientId, offeredIds } = await validateTradeItems(req.user.id, offeredItems, requestedItem);
+
+  // Evitar propuestas duplicadas mientras haya una abierta sobre el mismo artículo
+  const existing = await Trade.findOne({
+    proposer: req.user.id,
+    requestedItem,
+    status: { $in: OPEN_TRADE_STATUSES }
+  });
+
+  if (existing) {
+    return next(new AppError('Ya tienes una propuesta abierta para este artículo', 400));
+  }
+
+  const trade = await Trade.create({
+    proposer: req.user.id,
+    recipient: recipientId,
+    offeredItems: offeredIds,
+    requestedItem,
+    message,
+    statusHistory: [{ status: 'proposed', changedBy: req.user.id, changedAt: new Date() }]
+  });
+
+  await sendTrade(res, trade._id, 201);
+});
+
+/**
+ * @desc    Aceptar una propuesta de intercambio
+ * @route   PUT /api/v1/trades/:id/accept
+ * @access  Private (destinatario)
+ */
+export const acceptTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const trade = await findTradeForParticipant(req.params.id, req.user.id);
+
+  if (trade.recipient.toString() !== req.user.id) {
+    return next(new AppError('Solo el destinatario puede aceptar la propuesta', 403));
+  }
+
+  await ensureItemsStillAvailable(trade);
+
+  transitionTrade(trade, 'accepted', req.user.id);
+  await trade.save();
+
+  await sendTrade(res, trade._id);
+});
+
+/**
+ * @desc    Rechazar una propuesta de intercambio
+ * @route   PUT /api/v1/trades/:id/reject
+ * @access  Private (destinatario)
+ */
+export const rejectTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const trade = await findTradeForParticipant(req.params.id, req.user.id);
+
+  if (trade.recipient.toString() !== req.user.id) {
+    return next(new AppError('Solo el destinatario puede rechazar la propuesta', 403));
+  }
+
+  transitionTrade(trade, 'rejected', req.user.id);
+  await trade.save();
+
+  await sendTrade(res, trade._id);
+});
+
+/**
+ * @desc    Contraofertar una propuesta de intercambio
+ * @route   POST /api/v1/trades/:id/counter
+ * @access  Private (destinatario)
+ * @body    { offeredItems: string[], requestedItem: string, message?: string }
+ *
+ * La contraoferta es una nueva propuesta con los papeles invertidos: quien la
+ * recibió ofrece ahora sus artículos a cambio de uno del proponente original.
+ * La propuesta original queda en estado 'countered' y enlazada con la nueva.
+ */
+export const counterTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const original = await findTradeForParticipant(req.params.id, req.user.id);
+
+  if (original.recipient.toString() !== req.user.id) {
+    return next(new AppError('Solo el destinatario puede contraofertar la propuesta', 403));
+  }
+
+  const { offeredItems, requestedItem, message } = req.body;
+  const { recipientId, offeredIds } = await validateTradeItems(req.user.id, offeredItems, requestedItem);
+
+  if (recipientId !== original.proposer.toString()) {
+    return next(new AppError('La contraoferta debe solicitar un artículo del proponente original', 400));
+  }
+
+  transitionTrade(original, 'countered', req.user.id);
+
+  const counter = await Trade.create({
+    proposer: req.user.id,
+    recipient: recipientId,
+    offeredItems: offeredIds,
+    requestedItem,
+    message,
+    counterOf: original._id,
+    statusHistory: [{ status: 'proposed', changedBy: req.user.id, changedAt: new Date() }]
+  });
+
+  original.counteredBy = counter._id;
+  await original.save();
+
+  await sendTrade(res, counter._id, 201);
+});
+
+/**
+ * @desc    Marcar un intercambio aceptado como completado
+ * @route   PUT /api/v1/trades/:id/complete
+ * @access  Private (participantes)
+ *
+ * Al completar el intercambio todos los artículos implicados pasan a estado
+ * 'traded' y el resto de propuestas abiertas sobre ellos se cancelan.
+ */
+export const completeTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const trade = await findTradeForParticipant(req.params.id, req.user.id);
+
+  await ensureItemsStillAvailable(trade);
+
+  transitionTrade(trade, 'completed', req.user.id);
+  trade.completedAt = new Date();
+
+  // El intercambio solo se completa si marca todos sus artículos: otro
+  // intercambio completado a la vez sobre alguno de ellos lo impide
+  const itemIds = [trade.requestedItem, ...trade.offeredItems];
+
+  if (!await markItemsTraded(itemIds, req.user.id)) {
+    return next(new AppError('Alguno de los artículos del intercambio ya no está disponible', 409));
+  }
+
+  await trade.save();
+  await notifyItemWatchers(itemIds, 'traded');
+
+  await Trade.updateMany(
+    {
+      _id: { $ne: trade._id },
+      status: { $in: OPEN_TRADE_STATUSES },
+      $or: [
+        { requestedItem: { $in: itemIds } },
+        { offeredItems: { $in: itemIds } }
+      ]
+    },
+    {
+      $set: { status: 'cancelled' },
+      $push: { statusHistory: { status: 'cancelled', changedBy: req.user.id, changedAt: new Date() } }
+    }
+  );
+
+  await sendTrade(res, trade._id);
+});
+
+/**
+ * @desc    Cancelar un intercambio
+ * @route   PUT /api/v1/trades/:id/cancel
+ * @access  Private (el proponente mientras está propuesto; cualquiera de las partes una vez aceptado)
+ */
+export const cancelTrade = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const trade = await findTradeForParticipant(req.params.id, req.user.id);
+
+  if (trade.status === 'proposed' && trade.proposer.toString() !== req.user.id) {
+    return next(new AppError('Solo el proponente puede retirar una propuesta; el destinatario puede rechazarla', 403));
+  }
+
+  transitionTrade(trade, 'cancelled', req.user.id);
+  await trade.save();
+
+  await sendTrade(res, trade._id);
+});
@@ -14,7 +14,7 @@
  * - Configuraciones de privacidad
  * - Estadísticas de usuario
  * - Administración de usuarios (roles, suspensiones)
- * - Geolocalización de usuarios
+ * - Geolocalización de usuarios (las coordenadas se obtienen geocodificando la ubicación del perfil)
  * 
  * @technical
  * - Express.js con TypeScript
@@ -32,8 +32,14 @@
  * - GET /api/v1/users/:id - Obtener perfil de usuario específico
  * - PUT /api/v1/users/:id - Actualizar usuario específico (admin)
  * - DELETE /api/v1/users/:id - Eliminar usuario (admin)
+ * - POST /api/v1/users/:id/deletion/cancel - Cancelar la eliminación de un usuario (admin)
+ * - DELETE /api/v1/users/me - Solicitar la eliminación de la propia cuenta
+ * - POST /api/v1/users/me/deletion/cancel - Cancelar la eliminación de la propia cuenta
  * - GET /api/v1/users/search - Buscar usuarios
  * - GET /api/v1/users/nearby - Usuarios cercanos
+ * - POST /api/v1/users/me/export - Solicitar la exportación de los datos personales
+ * - GET /api/v1/users/me/export - Estado de la última exportación
+ * - GET /api/v1/users/me/export/download - Descargar la última exportación
  * 
  * @functions
  * - getUsers: Lista todos los usuarios con filtros y paginación
@@ -41,9 +47,12 @@
  * - updateProfile: Actualiza perfil del usuario autenticado
  * - getUser: Obtiene perfil de usuario específico
  * - updateUser: Actualiza usuario específico (admin)
- * - deleteUser: Elimina usuario (admin)
+ * - deleteUser: Programa o ejecuta la eliminación de un usuario (admin)
+ * - cancelUserDeletion: Cancela la eliminación programada de un usuario (admin)
+ * - deleteMyAccount / cancelMyAccountDeletion: Eliminación de la propia cuenta con periodo de gracia
  * - searchUsers: Búsqueda avanzada de usuarios
  * - getNearbyUsers: Usuarios cercanos por geolocalización
+ * - createDataExport / getDataExport / downloadDataExport: Exportación de datos personales
  * 
  * @author Equipo Ecommunitas
  * @version 1.0.0
@@ -51,6 +60,14 @@
 
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
+import { getRatingSummary } from '../models/Review';
+import { getLockedAccounts } from '../models/LoginAttempt';
+import { DATA_EXPORT_FORMATS, DataExportFormat, getLatestDataExport } from '../models/DataExport';
+import { requestDataExport } from '../utils/dataExport';
+import { scheduleAccountDeletion, cancelAccountDeletion, deleteUserAccount } from '../utils/accountDeletion';
+import { reauthenticateUser } from '../utils/loginThrottle';
+import { geocodeLocation } from '../geocoding';
+import { toPrivateLocation } from '../utils/locationPrivacy';
 import asyncHandler from '../utils/async';
 import { AppError } from '../utils/app-error';
 import { uploadImage, deleteImage } from '../config/cloudinary';
@@ -64,6 +81,7 @@ interface AuthenticatedRequest extends Request {
     id: string;
     role: string;
   };
+  sessionId?: string;
   files?: {
     [key: string]: UploadedFile | UploadedFile[];
   };
@@ -84,6 +102,23 @@ interface AdvancedResultsResponse extends Response {
   advancedResults?: any;
 }
 
+// Añade la ubicación a una actualización del perfil junto con sus coordenadas
+// (si la ubicación no se reconoce, solo se reconoce su provincia o se borra, se
+// quitan las coordenadas anteriores).
+// Las coordenadas públicas son aproximadas y el punto exacto se guarda en privado
+const setProfileLocation = async (updateData: any, location: string) => {
+  updateData.location = location;
+
+  const place = await geocodeLocation(location);
+  if (place && place.precision !== 'province') {
+    const { coordinates, exactCoordinates } = toPrivateLocation([place.lng, place.lat]);
+    updateData.coordinates = { type: 'Point', coordinates };
+    updateData.exactCoordinates = exactCoordinates;
+  } else {
+    updateData.$unset = { coordinates: 1, exactCoordinates: 1 };
+  }
+};
+
 // @desc    Get all users
 // @route   GET /api/v1/users
 // @access  Private/Admin
@@ -91,6 +126,30 @@ export const getUsers = asyncHandler(async (req: Request, res: AdvancedResultsRe
   res.status(200).json(res.advancedResults);
 });
 
+// @desc    Get accounts temporarily locked by failed logins
+// @route   GET /api/v1/users/locked
+// @access  Private/Admin
+export const getLockedUsers = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const lockedAccounts = await getLockedAccounts();
+
+  // Los bloqueos se guardan por email: añadir el usuario si la cuenta existe
+  const users = await User.find({ email: { $in: lockedAccounts.map(account => account.key) } })
+    .select('name email role isActive');
+  const usersByEmail = new Map(users.map(user => [user.email, user]));
+
+  res.status(200).json({
+    success: true,
+    count: lockedAccounts.length,
+    data: lockedAccounts.map(account => ({
+      email: account.key,
+      user: usersByEmail.get(account.key) || null,
+      failures: account.failures,
+      lastFailureAt: account.lastFailureAt,
+      lockedUntil: account.lockedUntil
+    }))
+  });
+});
+
 // @desc    Get user profile
 // @route   GET /api/v1/user/profile
 // @access  Private
@@ -99,11 +158,75 @@ export const getProfile = asyncHandler(async (req: AuthenticatedRequest, res: Re
     return next(new AppError('User not authenticated', 401));
   }
   
-  const user = await User.findById(req.user.id);
+  // El propio usuario es el único que ve el punto exacto de su ubicación
+  const user = await User.findById(req.user.id).select('+exactCoordinates');
 
   res.status(200).json({
     success: true,
-    data: user
+    data: user && { ...user.toJSON(), rating: await getRatingSummary(user._id) }
+  });
+});
+
+// @desc    Request an export of the current user's personal data
+// @route   POST /api/v1/users/me/export
+// @access  Private
+export const createDataExport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const format = (req.body?.format || 'zip') as DataExportFormat;
+  if (!DATA_EXPORT_FORMATS.includes(format)) {
+    return next(new AppError(`Formato de exportación no soportado: ${format}`, 400));
+  }
+
+  const dataExport = await requestDataExport(req.user.id, format);
+
+  // 202 mientras la exportación se genera en segundo plano
+  res.status(dataExport.status === 'completed' || dataExport.status === 'failed' ? 201 : 202).json({
+    success: true,
+    data: dataExport
+  });
+});
+
+// @desc    Get the status of the current user's latest data export
+// @route   GET /api/v1/users/me/export
+// @access  Private
+export const getDataExport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const dataExport = await getLatestDataExport(req.user.id);
+
+  res.status(200).json({
+    success: true,
+    data: dataExport
+  });
+});
+
+// @desc    Download the current user's latest data export
+// @route   GET /api/v1/users/me/export/download
+// @access  Private
+export const downloadDataExport = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const dataExport = await getLatestDataExport(req.user.id, true);
+
+  if (!dataExport || dataExport.status !== 'completed' || !dataExport.filePath) {
+    return next(new AppError('No tienes ninguna exportación de datos lista para descargar', 404));
+  }
+
+  if (dataExport.expiresAt && dataExport.expiresAt <= new Date()) {
+    return next(new AppError('La exportación ha caducado. Solicita una nueva', 410));
+  }
+
+  res.download(dataExport.filePath, dataExport.fileName as string, err => {
+    if (err && !res.headersSent) {
+      next(new AppError('El archivo de la exportación ya no está disponible. Solicita una nueva', 410));
+    }
   });
 });
 
@@ -131,7 +254,7 @@ export const getUser = asyncHandler(async (req: AuthenticatedRequest, res: Respo
 
   res.status(200).json({
     success: true,
-    data: user
+    data: { ...user.toJSON(), rating: await getRatingSummary(user._id) }
   });
 });
 
@@ -164,7 +287,7 @@ export const updateUser = asyncHandler(async (req: AuthenticatedRequest, res: Re
     // Only update fields that are provided
     if (name !== undefined && name !== '') updateData.name = name;
     if (bio !== undefined) updateData.bio = bio;
-    if (location !== undefined) updateData.location = location;
+    if (location !== undefined) await setProfileLocation(updateData, location);
 
     // Handle password update
     if (password && password.trim() !== '') {
@@ -257,7 +380,7 @@ export const updateProfile = asyncHandler(async (req: AuthenticatedRequest, res:
     // Only update fields that are provided
     if (name !== undefined && name !== '') updateData.name = name;
     if (bio !== undefined) updateData.bio = bio;
-    if (location !== undefined) updateData.location = location;
+    if (location !== undefined) await setProfileLocation(updateData, location);
 
     const user = await User.findByIdAndUpdate(
       req.user.id,
@@ -405,7 +528,7 @@ export const searchUsers = asyncHandler(async (req: Request, res: Response, next
   }
 });
 
-// @desc    Delete user
+// @desc    Delete user: schedule the deletion or run it now with ?immediate=true
 // @route   DELETE /api/v1/users/:id
 // @access  Private/Admin
 export const deleteUser = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
@@ -417,7 +540,92 @@ export const deleteUser = asyncHandler(async (req: Request, res: Response, next:
     );
   }
 
-  await user.deleteOne();
+  if (user.deletedAt) {
+    return next(new AppError('La cuenta ya está eliminada', 400));
+  }
+
+  // Las cuentas fraudulentas se pueden eliminar sin esperar el periodo de gracia
+  if (req.query.immediate === 'true') {
+    const summary = await deleteUserAccount(user._id);
+
+    return res.status(200).json({
+      success: true,
+      data: summary
+    });
+  }
+
+  const deletionScheduledFor = await scheduleAccountDeletion(user._id, 'admin');
+
+  res.status(200).json({
+    success: true,
+    data: { deletionScheduledFor }
+  });
+});
+
+// @desc    Cancel the scheduled deletion of a user
+// @route   POST /api/v1/users/:id/deletion/cancel
+// @access  Private/Admin
+export const cancelUserDeletion = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (!await cancelAccountDeletion(req.params.id as string)) {
+    return next(new AppError('El usuario no tiene ninguna eliminación programada', 400));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+// @desc    Request the deletion of the current user's account (after the grace period)
+// @route   DELETE /api/v1/users/me
+// @access  Private
+export const deleteMyAccount = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  const { password } = req.body || {};
+  if (!password) {
+    return next(new AppError('Introduce tu contraseña para confirmar la eliminación', 400));
+  }
+
+  const user = await User.findById(req.user.id).select('+password');
+  if (!user) {
+    return next(new AppError('User not found', 404));
+  }
+
+  // Los fallos cuentan para el límite de intentos, como en el inicio de sesión
+  const reauthError = await reauthenticateUser(
+    req,
+    res,
+    user,
+    () => user.matchPassword(password),
+    'La contraseña no es correcta'
+  );
+  if (reauthError) {
+    return next(reauthError);
+  }
+
+  const deletionScheduledFor = user.deletionScheduledFor
+    || await scheduleAccountDeletion(user._id, 'self', req.sessionId);
+
+  res.status(200).json({
+    success: true,
+    data: { deletionScheduledFor }
+  });
+});
+
+// @desc    Cancel the scheduled deletion of the current user's account
+// @route   POST /api/v1/users/me/deletion/cancel
+// @access  Private
+export const cancelMyAccountDeletion = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new AppError('User not authenticated', 401));
+  }
+
+  if (!await cancelAccountDeletion(req.user.id)) {
+    return next(new AppError('Tu cuenta no tiene ninguna eliminación programada', 400));
+  }
 
   res.status(200).json({
     success: true,
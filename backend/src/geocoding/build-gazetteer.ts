@@ -0,0 +1,154 @@
+/**
+ * @file build-gazetteer.ts
+ * @description Genera el nomenclátor de España que usa el proveedor sin conexión
+ * @module Geocoding/BuildGazetteer
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Combina dos fuentes en data/spain.json:
+ * - data/spain-curated.json: las provincias y los municipios revisados a
+ *   mano, con sus códigos postales y nombres alternativos
+ * - all-the-cities: los municipios y núcleos de población de España de
+ *   GeoNames (CC BY 4.0), con su código INE y su población, sin los barrios
+ *
+ * Un municipio revisado sustituye al de GeoNames con el mismo nombre o alias en la
+ * misma provincia. El resultado se ordena de mayor a menor población, que es
+ * el orden con el que el nomenclátor desempata.
+ *
+ * Para añadir códigos postales o alias se edita data/spain-curated.json y se
+ * vuelve a generar el fichero.
+ *
+ * @example
+ * ```bash
+ * npm run geocoding:build-gazetteer
+ * ```
+ */
+
+import fs from 'fs';
+import path from 'path';
+import cities from 'all-the-cities';
+import curated from './data/spain-curated.json';
+import { normalizePlaceName } from './gazetteer';
+import logger from '../utils/logger';
+
+/** Fichero que lee el nomenclátor */
+const OUTPUT_FILE = path.join(__dirname, 'data/spain.json');
+
+/** Atribución que exige la licencia de GeoNames */
+const ATTRIBUTION = 'Municipios de GeoNames (https://www.geonames.org), CC BY 4.0, vía all-the-cities';
+
+interface Municipality {
+  name: string;
+  province: string;
+  lat: number;
+  lng: number;
+  postcodes?: string[];
+  aliases?: string[];
+}
+
+/**
+ * Clave de un municipio: nombre normalizado y provincia
+ */
+const municipalityKey = (name: string, province: string): string =>
+  `${province}:${normalizePlaceName(name)}`;
+
+/**
+ * Redondea una coordenada a 4 decimales (unos 10 m)
+ */
+const roundCoordinate = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Serializa una entrada en una sola línea, como el fichero revisado a mano
+ */
+const formatEntry = (entry: object): string => {
+  const fields = Object.entries(entry).map(([key, value]) => {
+    const formatted = Array.isArray(value)
+      ? `[${value.map(item => JSON.stringify(item)).join(', ')}]`
+      : JSON.stringify(value);
+    return `${JSON.stringify(key)}: ${formatted}`;
+  });
+  return `    { ${fields.join(', ')} }`;
+};
+
+/**
+ * Combina los municipios revisados con los de GeoNames
+ *
+ * @returns {Municipality[]} Municipios de mayor a menor población
+ */
+export const buildMunicipalities = (): Municipality[] => {
+  const provinces = new Set(curated.provinces.map(province => province.code));
+  const entries = new Map<string, { municipality: Municipality; population: number }>();
+
+  for (const city of cities) {
+    // Los barrios de las grandes ciudades (PPLX) no son municipios
+    if (city.country !== 'ES' || !city.muni || city.featureCode === 'PPLX') continue;
+
+    const province = city.muni.slice(0, 2);
+    if (!provinces.has(province)) continue;
+
+    // GeoNames repite algunos nombres dentro de una provincia: gana el más poblado
+    const key = municipalityKey(city.name, province);
+    const existing = entries.get(key);
+    if (existing && existing.population >= city.population) continue;
+
+    const [lng, lat] = city.loc.coordinates;
+    const municipality: Municipality = { name: city.name, province, lat: roundCoordinate(lat), lng: roundCoordinate(lng) };
+
+    // Los nombres bilingües ("Donostia / San Sebastián") se buscan por separado
+    const parts = city.name.split('/').map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1) municipality.aliases = parts;
+
+    entries.set(key, { municipality, population: city.population });
+  }
+
+  // Un municipio revisado ocupa el puesto del de GeoNames al que sustituye;
+  // si GeoNames no lo tiene, queda al final
+  for (const municipality of curated.municipalities as Municipality[]) {
+    const names = new Set(
+      [municipality.name, ...(municipality.aliases || [])].map(normalizePlaceName)
+    );
+    const matches = [...entries.entries()].filter(([, entry]) =>
+      entry.municipality.province === municipality.province &&
+      [entry.municipality.name, ...(entry.municipality.aliases || [])].some(name => names.has(normalizePlaceName(name)))
+    );
+
+    const population = Math.max(0, ...matches.map(([, entry]) => entry.population));
+    matches.forEach(([key]) => entries.delete(key));
+    entries.set(municipalityKey(municipality.name, municipality.province), { municipality, population });
+  }
+
+  return [...entries.values()]
+    .sort((a, b) => b.population - a.population || a.municipality.name.localeCompare(b.municipality.name, 'es'))
+    .map(entry => entry.municipality);
+};
+
+/**
+ * Escribe data/spain.json
+ *
+ * @returns {number} Número de municipios escritos
+ */
+export const buildGazetteer = (): number => {
+  const municipalities = buildMunicipalities();
+
+  const content = [
+    '{',
+    `  "attribution": ${JSON.stringify(ATTRIBUTION)},`,
+    '  "provinces": [',
+    curated.provinces.map(formatEntry).join(',\n'),
+    '  ],',
+    '  "municipalities": [',
+    municipalities.map(formatEntry).join(',\n'),
+    '  ]',
+    '}',
+    ''
+  ].join('\n');
+
+  fs.writeFileSync(OUTPUT_FILE, content);
+  return municipalities.length;
+};
+
+if (require.main === module) {
+  const count = buildGazetteer();
+  logger.info(`Nomenclátor generado: ${count} municipios en ${OUTPUT_FILE}`);
+}
@@ -0,0 +1,298 @@
+/**
+ * @file gazetteer.ts
+ * @description Proveedor de geocodificación sin conexión basado en un nomenclátor
+ * @module Geocoding/Gazetteer
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Resuelve ubicaciones de España con los datos incluidos en data/spain.json
+ * (provincias, municipios y núcleos de población de GeoNames y, para los
+ * principales municipios, sus códigos postales):
+ * - Un código postal conocido da el municipio; uno desconocido, su provincia
+ *   (los dos primeros dígitos son el código de provincia)
+ * - Un texto libre ("Calle Mayor 3, Getafe, Madrid") se trocea por comas y
+ *   se buscan en él nombres de municipios y provincias
+ * - El autocompletado busca municipios por el principio de su nombre o de
+ *   cualquiera de sus palabras, sin distinguir mayúsculas ni tildes
+ *
+ * data/spain.json se genera con build-gazetteer.ts a partir de
+ * data/spain-curated.json: el orden del fichero (de mayor a menor población)
+ * desempata los resultados.
+ */
+
+import data from './data/spain.json';
+import { GeocodeResult, GeocodingProvider } from './providers';
+
+/**
+ * Provincia del nomenclátor
+ */
+interface GazetteerProvince {
+  code: string;
+  name: string;
+  aliases?: string[];
+  capital: string;
+}
+
+/**
+ * Municipio del nomenclátor
+ */
+interface GazetteerMunicipality {
+  name: string;
+  province: string;
+  lat: number;
+  lng: number;
+  /** Códigos postales sueltos ("28850") o rangos ("28001-28055") */
+  postcodes?: string[];
+  aliases?: string[];
+}
+
+/**
+ * Municipio preparado para las búsquedas
+ */
+interface MunicipalityEntry {
+  municipality: GazetteerMunicipality;
+  province: GazetteerProvince;
+  /** Nombre y alias normalizados */
+  names: string[];
+  /** Rangos de códigos postales [desde, hasta] */
+  postcodeRanges: Array<[number, number]>;
+  /** Posición en el fichero (menor = más poblado) */
+  rank: number;
+}
+
+/** Nombres del país que se ignoran en los textos */
+const COUNTRY_NAMES = ['espana', 'spain'];
+
+/** Código postal español (provincias 01 a 52) */
+const POSTCODE_PATTERN = /\b(0[1-9]|[1-4]\d|5[0-2])\d{3}\b/;
+
+/**
+ * Normaliza un texto para compararlo: minúsculas, sin tildes ni signos
+ *
+ * @param {string} text - Texto original
+ * @returns {string} Texto normalizado
+ */
+export const normalizePlaceName = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const provinces = new Map<string, GazetteerProvince>(
+  (data.provinces as GazetteerProvince[]).map(province => [province.code, province])
+);
+
+/** Provincias por nombre o alias normalizado */
+const provincesByName = new Map<string, GazetteerProvince>();
+provinces.forEach(province => {
+  [province.name, ...(province.aliases || [])].forEach(name => {
+    provincesByName.set(normalizePlaceName(name), province);
+  });
+});
+
+const entries: MunicipalityEntry[] = (data.municipalities as GazetteerMunicipality[]).map((municipality, rank) => ({
+  municipality,
+  province: provinces.get(municipality.province) as GazetteerProvince,
+  names: [municipality.name, ...(municipality.aliases || [])].map(normalizePlaceName),
+  postcodeRanges: (municipality.postcodes || []).map(postcode => {
+    const [from, to = from] = postcode.split('-');
+    return [parseInt(from, 10), parseInt(to, 10)] as [number, number];
+  }),
+  rank
+}));
+
+/**
+ * Resultado de geocodificación de un municipio
+ */
+const toMunicipalityResult = (
+  entry: MunicipalityEntry,
+  precision: 'postcode' | 'municipality',
+  postcode?: string
+): GeocodeResult => ({
+  // Las capitales homónimas no repiten la provincia ("Madrid", no "Madrid, Madrid")
+  label: normalizePlaceName(entry.province.name).includes(normalizePlaceName(entry.municipality.name))
+    ? entry.municipality.name
+    : `${entry.municipality.name}, ${entry.province.name}`,
+  lat: entry.municipality.lat,
+  lng: entry.municipality.lng,
+  municipality: entry.municipality.name,
+  province: entry.province.name,
+  postcode,
+  precision,
+  provider: 'gazetteer'
+});
+
+/**
+ * Resultado de geocodificación de una provincia (se sitúa en su capital)
+ */
+const toProvinceResult = (province: GazetteerProvince, postcode?: string): GeocodeResult | null => {
+  const capital = entries.find(entry => entry.province.code === province.code && entry.municipality.name === province.capital);
+  if (!capital) {
+    return null;
+  }
+
+  return {
+    label: province.name,
+    lat: capital.municipality.lat,
+    lng: capital.municipality.lng,
+    province: province.name,
+    postcode,
+    precision: 'province',
+    provider: 'gazetteer'
+  };
+};
+
+/**
+ * Indica si un texto normalizado contiene un nombre como palabras completas
+ */
+const containsName = (text: string, name: string): boolean => ` ${text} `.includes(` ${name} `);
+
+/**
+ * Geocodifica un texto libre con el nomenclátor
+ *
+ * @param {string} query - Ubicación escrita por el usuario
+ * @returns {GeocodeResult | null} Municipio o provincia encontrados
+ *
+ * @description
+ * Cada municipio encontrado en el texto se puntúa: vale más si ocupa un
+ * fragmento entero (entre comas) que si aparece dentro de una dirección, si
+ * ese fragmento no es solo el nombre de la provincia ("Móstoles, Madrid") y
+ * si su provincia coincide con la mencionada en el texto.
+ *
+ * Dentro de una dirección solo se reconocen los municipios con códigos
+ * postales (los principales): los núcleos pequeños tienen nombres comunes
+ * ("Campo", "Uña") que se confundirían con palabras de la dirección. Con
+ * código postal solo cuentan los municipios de su provincia.
+ */
+export const geocodeWithGazetteer = (query: string): GeocodeResult | null => {
+  const postcodeMatch = query.match(POSTCODE_PATTERN);
+  const postcode = postcodeMatch ? postcodeMatch[0] : undefined;
+
+  if (postcode) {
+    const code = parseInt(postcode, 10);
+    const entry = entries.find(candidate =>
+      candidate.postcodeRanges.some(([from, to]) => code >= from && code <= to)
+    );
+    if (entry) {
+      return toMunicipalityResult(entry, 'postcode', postcode);
+    }
+  }
+
+  const parts = query
+    .split(/[,;()]/)
+    .map(part => normalizePlaceName(part.replace(POSTCODE_PATTERN, ' ')))
+    .filter(part => part && !COUNTRY_NAMES.includes(part));
+
+  const hintedProvinces = new Set<string>();
+  if (postcode) {
+    hintedProvinces.add(postcode.slice(0, 2));
+  }
+  parts.forEach(part => {
+    const province = provincesByName.get(part);
+    if (province) {
+      hintedProvinces.add(province.code);
+    }
+  });
+
+  let best: { entry: MunicipalityEntry; score: number; length: number } | null = null;
+
+  for (const part of parts) {
+    const isProvincePart = provincesByName.has(part);
+
+    for (const entry of entries) {
+      if (postcode && entry.province.code !== postcode.slice(0, 2)) continue;
+
+      const name = entry.names.find(candidate =>
+        candidate === part || (entry.postcodeRanges.length > 0 && containsName(part, candidate))
+      );
+      if (!name) continue;
+
+      const score = (name === part ? 4 : 1)
+        + (isProvincePart ? 0 : 2)
+        + (hintedProvinces.has(entry.province.code) ? 1 : 0);
+
+      // A igual puntuación gana el nombre más largo y después el más poblado
+      if (
+        !best
+        || score > best.score
+        || (score === best.score && name.length > best.length)
+        || (score === best.score && name.length === best.length && entry.rank < best.entry.rank)
+      ) {
+        best = { entry, score, length: name.length };
+      }
+    }
+  }
+
+  if (best) {
+    return toMunicipalityResult(best.entry, 'municipality', postcode);
+  }
+
+  // Sin municipio conocido: la provincia del texto o del código postal
+  const [provinceCode] = Array.from(hintedProvinces);
+  const province = provinceCode ? provinces.get(provinceCode) : undefined;
+
+  return province ? toProvinceResult(province, postcode) : null;
+};
+
+/**
+ * Sugerencias de municipios para un texto a medio escribir
+ *
+ * @param {string} query - Texto escrito ("geta", "Getafe, Ma", "289")
+ * @param {number} limit - Número máximo de sugerencias
+ * @returns {GeocodeResult[]} Municipios que encajan, los más relevantes primero
+ */
+export const autocompleteWithGazetteer = (query: string, limit: number): GeocodeResult[] => {
+  const trimmed = query.trim();
+
+  // Códigos postales (completos o empezados)
+  if (/^\d{2,5}$/.test(trimmed)) {
+    const from = parseInt(trimmed.padEnd(5, '0'), 10);
+    const to = parseInt(trimmed.padEnd(5, '9'), 10);
+
+    return entries
+      .filter(entry => entry.postcodeRanges.some(([start, end]) => start <= to && end >= from))
+      .slice(0, limit)
+      .map(entry => toMunicipalityResult(entry, trimmed.length === 5 ? 'postcode' : 'municipality',
+        trimmed.length === 5 ? trimmed : undefined));
+  }
+
+  // "Municipio, provincia": la segunda parte filtra por provincia
+  const [namePart, provincePart = ''] = trimmed.split(',').map(normalizePlaceName);
+  if (namePart.length < 2) {
+    return [];
+  }
+
+  const matchesProvince = (province: GazetteerProvince): boolean =>
+    !provincePart
+    || [province.name, ...(province.aliases || [])].some(name => normalizePlaceName(name).startsWith(provincePart));
+
+  const scored = entries
+    .filter(entry => matchesProvince(entry.province))
+    .map(entry => {
+      const scores = entry.names.map(name => {
+        if (name === namePart) return 0;
+        if (name.startsWith(namePart)) return 1;
+        if (name.split(' ').some(word => word.startsWith(namePart))) return 2;
+        return Infinity;
+      });
+      return { entry, score: Math.min(...scores) };
+    })
+    .filter(({ score }) => score !== Infinity)
+    .sort((a, b) => a.score - b.score || a.entry.rank - b.entry.rank);
+
+  return scored.slice(0, limit).map(({ entry }) => toMunicipalityResult(entry, 'municipality'));
+};
+
+/**
+ * Crea el proveedor del nomenclátor
+ *
+ * @returns {GeocodingProvider} Proveedor sin conexión
+ */
+export const createGazetteerProvider = (): GeocodingProvider => ({
+  name: 'gazetteer',
+  geocode: async (query) => geocodeWithGazetteer(query),
+  autocomplete: async (query, limit) => autocompleteWithGazetteer(query, limit)
+});
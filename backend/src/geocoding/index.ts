@@ -0,0 +1,124 @@
+/**
+ * @file index.ts
+ * @description Módulo de geocodificación de Ecommunitas
+ * @module Geocoding
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Punto de entrada único para convertir las ubicaciones escritas por los
+ * usuarios en coordenadas: se prueba cada proveedor configurado en orden
+ * hasta que uno reconoce la ubicación. Se usa al guardar artículos y perfiles
+ * y en el autocompletado del selector de ubicación.
+ * Los proveedores pueden sustituirse en tiempo de ejecución con setGeocodingProviders.
+ *
+ * @example
+ * ```typescript
+ * const place = await geocodeLocation('Calle Mayor 3, 28901 Getafe');
+ * // { label: 'Getafe, Madrid', lat: 40.3083, lng: -3.7327, precision: 'postcode', ... }
+ * ```
+ */
+
+import { createProvidersFromEnv, GeocodeResult, GeocodingProvider } from './providers';
+import logger from '../utils/logger';
+
+export * from './providers';
+export { createGazetteerProvider, normalizePlaceName } from './gazetteer';
+
+/** Número máximo de sugerencias del autocompletado */
+export const MAX_AUTOCOMPLETE_RESULTS = 10;
+
+/**
+ * Proveedores en uso (se crean en la primera búsqueda)
+ */
+let providers: GeocodingProvider[] | null = null;
+
+/**
+ * Devuelve los proveedores en uso, creándolos desde el entorno si aún no existen
+ *
+ * @returns {GeocodingProvider[]} Proveedores en orden de preferencia
+ */
+export const getGeocodingProviders = (): GeocodingProvider[] => {
+  if (!providers) {
+    providers = createProvidersFromEnv();
+  }
+  return providers;
+};
+
+/**
+ * Sustituye los proveedores de geocodificación (null vuelve a leerlos del entorno)
+ *
+ * @param {GeocodingProvider[] | null} customProviders - Proveedores a usar
+ */
+export const setGeocodingProviders = (customProviders: GeocodingProvider[] | null) => {
+  providers = customProviders;
+};
+
+/**
+ * Geocodifica una ubicación escrita por el usuario
+ *
+ * @param {string | undefined} location - Texto de la ubicación
+ * @returns {Promise<GeocodeResult | null>} Primera ubicación reconocida o null
+ *
+ * @description
+ * Nunca lanza: si un proveedor falla se registra el error y se prueba el
+ * siguiente, porque guardar un artículo o un perfil no debe depender de un
+ * servicio externo. Un resultado de toda una provincia solo se devuelve si
+ * ningún proveedor posterior da uno más preciso.
+ */
+export const geocodeLocation = async (location: string | undefined): Promise<GeocodeResult | null> => {
+  const query = (location || '').trim();
+  if (!query) {
+    return null;
+  }
+
+  let provinceResult: GeocodeResult | null = null;
+
+  for (const provider of getGeocodingProviders()) {
+    try {
+      const result = await provider.geocode(query);
+      if (result && result.precision !== 'province') {
+        return result;
+      }
+      provinceResult = provinceResult || result;
+    } catch (error: any) {
+      logger.warn(`Error al geocodificar '${query}' con ${provider.name}: ${error.message}`);
+    }
+  }
+
+  return provinceResult;
+};
+
+/**
+ * Sugerencias de ubicaciones para el autocompletado
+ *
+ * @param {string} query - Texto escrito por el usuario
+ * @param {number} limit - Número máximo de sugerencias
+ * @returns {Promise<GeocodeResult[]>} Sugerencias de todos los proveedores, sin repetir
+ *
+ * @description
+ * Se completan las sugerencias con los proveedores siguientes solo si los
+ * anteriores no llegan al límite. Como geocodeLocation, nunca lanza.
+ */
+export const autocompleteLocation = async (query: string, limit: number): Promise<GeocodeResult[]> => {
+  const results: GeocodeResult[] = [];
+  const labels = new Set<string>();
+
+  for (const provider of getGeocodingProviders()) {
+    if (results.length >= limit) break;
+
+    try {
+      const suggestions = await provider.autocomplete(query, limit - results.length);
+      suggestions.forEach(suggestion => {
+        if (!labels.has(suggestion.label)) {
+          labels.add(suggestion.label);
+          results.push(suggestion);
+        }
+      });
+    } catch (error: any) {
+      logger.warn(`Error al autocompletar '${query}' con ${provider.name}: ${error.message}`);
+    }
+  }
+
+  return results.slice(0, limit);
+};
@@ -0,0 +1,139 @@
+/**
+ * @file providers.ts
+ * @description Proveedores de geocodificación de Ecommunitas
+ * @module Geocoding/Providers
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Un proveedor convierte un texto de ubicación en coordenadas y sugiere
+ * ubicaciones mientras el usuario escribe:
+ * - gazetteer: Nomenclátor de municipios y códigos postales de España incluido
+ *   en el proyecto (sin conexión, siempre disponible)
+ * - nominatim: API de Nominatim/OpenStreetMap (externa, opcional)
+ *
+ * Los proveedores se eligen con GEOCODING_PROVIDERS (lista separada por comas,
+ * en orden de preferencia). Si no se indica, solo se usa el nomenclátor.
+ */
+
+import logger from '../utils/logger';
+import { createGazetteerProvider } from './gazetteer';
+
+/**
+ * Nivel de detalle de una ubicación geocodificada
+ */
+export type GeocodePrecision = 'address' | 'postcode' | 'municipality' | 'province';
+
+/**
+ * Ubicación encontrada por un proveedor
+ */
+export interface GeocodeResult {
+  /** Texto para mostrar ("Getafe, Madrid") */
+  label: string;
+  lat: number;
+  lng: number;
+  municipality?: string;
+  province?: string;
+  postcode?: string;
+  precision: GeocodePrecision;
+  /** Proveedor que ha resuelto la ubicación */
+  provider: string;
+}
+
+/**
+ * Contrato común de todos los proveedores
+ */
+export interface GeocodingProvider {
+  /** Nombre del proveedor (para los logs y las respuestas) */
+  name: string;
+  /** Geocodifica un texto o devuelve null si no lo reconoce */
+  geocode(query: string): Promise<GeocodeResult | null>;
+  /** Sugerencias para un texto a medio escribir */
+  autocomplete(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+export type GeocodingProviderName = 'gazetteer' | 'nominatim';
+
+/**
+ * Proveedor basado en la API de búsqueda de Nominatim
+ *
+ * @returns {GeocodingProvider} Proveedor configurado con NOMINATIM_URL,
+ * GEOCODING_USER_AGENT, GEOCODING_COUNTRY y GEOCODING_TIMEOUT_MS
+ *
+ * @description
+ * La política de uso del servidor público de Nominatim exige identificarse
+ * con un User-Agent propio y no superar una petición por segundo, así que
+ * para el autocompletado conviene usar una instancia propia.
+ */
+export const createNominatimProvider = (): GeocodingProvider => {
+  const baseUrl = (process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org').replace(/\/+$/, '');
+  const userAgent = process.env.GEOCODING_USER_AGENT || 'Ecommunitas/1.0';
+  const country = process.env.GEOCODING_COUNTRY || 'es';
+  const timeout = parseInt(process.env.GEOCODING_TIMEOUT_MS || '3000', 10);
+
+  const search = async (query: string, limit: number): Promise<GeocodeResult[]> => {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      addressdetails: '1',
+      limit: String(limit),
+      countrycodes: country
+    });
+
+    const response = await fetch(`${baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': userAgent, 'Accept-Language': 'es' },
+      signal: AbortSignal.timeout(timeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim respondió ${response.status}`);
+    }
+
+    const places = await response.json() as any[];
+    return places.map(place => {
+      const address = place.address || {};
+      const municipality = address.city || address.town || address.village || address.municipality;
+
+      return {
+        label: place.display_name,
+        lat: parseFloat(place.lat),
+        lng: parseFloat(place.lon),
+        municipality,
+        province: address.province || address.state,
+        postcode: address.postcode,
+        precision: address.road ? 'address' : address.postcode && !municipality ? 'postcode' : 'municipality',
+        provider: 'nominatim'
+      };
+    });
+  };
+
+  return {
+    name: 'nominatim',
+    geocode: async (query) => (await search(query, 1))[0] || null,
+    autocomplete: (query, limit) => search(query, limit)
+  };
+};
+
+/**
+ * Crea los proveedores indicados por la configuración del entorno
+ *
+ * @returns {GeocodingProvider[]} Proveedores en orden de preferencia
+ */
+export const createProvidersFromEnv = (): GeocodingProvider[] => {
+  const names = (process.env.GEOCODING_PROVIDERS || 'gazetteer')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean) as GeocodingProviderName[];
+
+  return names.map(name => {
+    switch (name) {
+      case 'gazetteer':
+        return createGazetteerProvider();
+      case 'nominatim':
+        return createNominatimProvider();
+      default:
+        logger.warn(`Proveedor de geocodificación desconocido: ${name}`);
+        return null;
+    }
+  }).filter((provider): provider is GeocodingProvider => provider !== null);
+};
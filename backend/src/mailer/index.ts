@@ -0,0 +1,92 @@
+/**
+ * @file index.ts
+ * @description Módulo de envío de emails transaccionales de Ecommunitas
+ * @module Mailer
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Punto de entrada único para enviar emails: renderiza la plantilla pedida
+ * y la entrega con el transporte configurado (SMTP, ficheros o consola).
+ * El transporte puede sustituirse en tiempo de ejecución con setMailTransport.
+ *
+ * @example
+ * ```typescript
+ * await sendTemplateEmail(user.email, 'welcome', {
+ *   name: user.name,
+ *   appUrl: buildFrontendUrl('/')
+ * });
+ * ```
+ */
+
+import { renderTemplate, TemplateData, TemplateName } from './templates';
+import { createTransportFromEnv, MailTransport } from './transports';
+import logger from '../utils/logger';
+
+export * from './templates';
+export * from './transports';
+
+/**
+ * Transporte en uso (se crea al enviar el primer email)
+ */
+let transport: MailTransport | null = null;
+
+/**
+ * Devuelve el transporte en uso, creándolo desde el entorno si aún no existe
+ *
+ * @returns {MailTransport} Transporte de email activo
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+};
+
+/**
+ * Sustituye el transporte de email (null vuelve a leerlo del entorno)
+ *
+ * @param {MailTransport | null} customTransport - Transporte a usar
+ */
+export const setMailTransport = (customTransport: MailTransport | null) => {
+  transport = customTransport;
+};
+
+/**
+ * Construye un enlace absoluto al frontend
+ *
+ * @param {string} pathname - Ruta del frontend (por ejemplo /reset-password/abc)
+ * @returns {string} URL completa basada en FRONTEND_URL
+ */
+export const buildFrontendUrl = (pathname: string): string => {
+  const baseUrl = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
+  return `${baseUrl}${pathname.startsWith('/') ? '' : '/'}${pathname}`;
+};
+
+/**
+ * Renderiza una plantilla y la envía a un destinatario
+ *
+ * @param {string} to - Email del destinatario
+ * @param {TemplateName} template - Plantilla a usar
+ * @param {TemplateData[T]} data - Datos de la plantilla
+ * @returns {Promise<void>}
+ * @throws {Error} Si el transporte no puede entregar el email
+ */
+export const sendTemplateEmail = async <T extends TemplateName>(
+  to: string,
+  template: T,
+  data: TemplateData[T]
+): Promise<void> => {
+  const { subject, text, html } = renderTemplate(template, data);
+  const activeTransport = getMailTransport();
+
+  await activeTransport.send({
+    from: process.env.EMAIL_FROM || 'noreply@ecommunitas.com',
+    to,
+    subject,
+    text,
+    html
+  });
+
+  logger.info(`Email '${template}' enviado a ${to} mediante ${activeTransport.name}`);
+};
@@ -0,0 +1,320 @@
+/**
+ * @file templates.ts
+ * @description Plantillas de los emails transaccionales de Ecommunitas
+ * @module Mailer/Templates
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cada plantilla recibe sus datos tipados y devuelve el asunto y el cuerpo
+ * del email en texto plano y en HTML. Todas comparten el mismo diseño base
+ * y escapan los valores interpolados en el HTML.
+ *
+ * Plantillas disponibles:
+ * - verifyEmail: Enlace para confirmar el email tras el registro
+ * - resetPassword: Enlace para restablecer la contraseña
+ * - passwordChanged: Aviso de que la contraseña se ha cambiado
+ * - accountLocked: Aviso de bloqueo por intentos fallidos con enlace de desbloqueo
+ * - accountDeletionScheduled: Aviso de eliminación de la cuenta con el plazo para cancelarla
+ * - welcome: Bienvenida tras el registro
+ * - newMessageDigest: Resumen de mensajes nuevos sin leer
+ * - savedSearchDigest: Resumen de artículos nuevos que coinciden con las búsquedas guardadas
+ */
+
+/**
+ * Contenido renderizado de un email
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Conversación incluida en el resumen de mensajes nuevos
+ */
+export interface DigestConversation {
+  /** Nombre del remitente */
+  from: string;
+  /** Mensajes sin leer en la conversación */
+  count: number;
+  /** Extracto del último mensaje */
+  preview: string;
+  /** Enlace a la conversación en el frontend */
+  url: string;
+}
+
+/**
+ * Búsqueda guardada incluida en el resumen de coincidencias
+ */
+export interface DigestSavedSearch {
+  /** Nombre de la búsqueda */
+  name: string;
+  /** Enlace que repite la búsqueda en el frontend */
+  url: string;
+  /** Artículos nuevos que coinciden */
+  items: { title: string; url: string }[];
+}
+
+/**
+ * Datos que necesita cada plantilla
+ */
+export interface TemplateData {
+  verifyEmail: {
+    name: string;
+    verifyUrl: string;
+    expiresInHours: number;
+  };
+  resetPassword: {
+    name: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  passwordChanged: {
+    name: string;
+    changedAt: string;
+    loginUrl: string;
+  };
+  accountLocked: {
+    name: string;
+    unlockUrl: string;
+    lockoutMinutes: number;
+  };
+  accountDeletionScheduled: {
+    name: string;
+    deletionDate: string;
+    requestedByAdmin: boolean;
+    cancelUrl: string;
+  };
+  welcome: {
+    name: string;
+    appUrl: string;
+  };
+  newMessageDigest: {
+    name: string;
+    conversations: DigestConversation[];
+    messagesUrl: string;
+  };
+  savedSearchDigest: {
+    name: string;
+    searches: DigestSavedSearch[];
+    profileUrl: string;
+  };
+}
+
+export type TemplateName = keyof TemplateData;
+
+/**
+ * Escapa un valor para interpolarlo de forma segura en HTML
+ *
+ * @param {unknown} value - Valor a escapar
+ * @returns {string} Texto con los caracteres especiales de HTML escapados
+ */
+const escapeHtml = (value: unknown): string => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Envuelve el contenido de una plantilla en el diseño común de los emails
+ *
+ * @param {string} title - Título visible del email
+ * @param {string} body - Contenido HTML ya escapado
+ * @returns {string} Documento HTML completo
+ */
+const layout = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="es">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#1f2937;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+    <h1 style="margin-top:0;font-size:20px;color:#4f46e5;">${escapeHtml(title)}</h1>
+    ${body}
+    <p style="margin-top:32px;font-size:12px;color:#6b7280;">Ecommunitas · Trueque local y economía circular</p>
+  </div>
+</body>
+</html>`;
+
+/**
+ * Botón de llamada a la acción del diseño común
+ */
+const button = (url: string, label: string): string =>
+  `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a></p>`;
+
+/**
+ * Renderizadores de cada plantilla
+ */
+const templates: { [K in TemplateName]: (data: TemplateData[K]) => RenderedEmail } = {
+  verifyEmail: ({ name, verifyUrl, expiresInHours }) => ({
+    subject: 'Confirma tu email en Ecommunitas',
+    text: [
+      `Hola ${name},`,
+      '',
+      'Gracias por registrarte. Confirma tu dirección de email para poder publicar artículos y contactar con otros usuarios.',
+      `Abre este enlace para confirmarla (caduca en ${expiresInHours} horas):`,
+      verifyUrl,
+      '',
+      'Si no has creado una cuenta, ignora este email.'
+    ].join('\n'),
+    html: layout('Confirma tu email', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Gracias por registrarte. Confirma tu dirección de email para poder publicar artículos y contactar con otros usuarios.
+    El enlace caduca en ${escapeHtml(expiresInHours)} horas.</p>
+    ${button(verifyUrl, 'Confirmar mi email')}
+    <p>Si no has creado una cuenta, ignora este email.</p>`)
+  }),
+
+  resetPassword: ({ name, resetUrl, expiresInMinutes }) => ({
+    subject: 'Restablece tu contraseña de Ecommunitas',
+    text: [
+      `Hola ${name},`,
+      '',
+      'Hemos recibido una solicitud para restablecer la contraseña de tu cuenta.',
+      `Abre este enlace para elegir una nueva (caduca en ${expiresInMinutes} minutos):`,
+      resetUrl,
+      '',
+      'Si no has sido tú, ignora este email: tu contraseña no cambiará.'
+    ].join('\n'),
+    html: layout('Restablece tu contraseña', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Hemos recibido una solicitud para restablecer la contraseña de tu cuenta.
+    El enlace caduca en ${escapeHtml(expiresInMinutes)} minutos.</p>
+    ${button(resetUrl, 'Elegir una nueva contraseña')}
+    <p>Si no has sido tú, ignora este email: tu contraseña no cambiará.</p>`)
+  }),
+
+  passwordChanged: ({ name, changedAt, loginUrl }) => ({
+    subject: 'Tu contraseña de Ecommunitas ha cambiado',
+    text: [
+      `Hola ${name},`,
+      '',
+      `La contraseña de tu cuenta se cambió el ${changedAt} y se ha cerrado la sesión en el resto de tus dispositivos.`,
+      'Si no has sido tú, restablécela cuanto antes desde la página de acceso:',
+      loginUrl
+    ].join('\n'),
+    html: layout('Tu contraseña ha cambiado', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>La contraseña de tu cuenta se cambió el ${escapeHtml(changedAt)} y se ha cerrado la sesión en el resto de tus dispositivos.</p>
+    <p>Si no has sido tú, restablécela cuanto antes desde la página de acceso.</p>
+    ${button(loginUrl, 'Ir a Ecommunitas')}`)
+  }),
+
+  accountLocked: ({ name, unlockUrl, lockoutMinutes }) => ({
+    subject: 'Hemos bloqueado temporalmente tu cuenta de Ecommunitas',
+    text: [
+      `Hola ${name},`,
+      '',
+      `Hemos detectado varios intentos fallidos de inicio de sesión y hemos bloqueado tu cuenta durante ${lockoutMinutes} minutos.`,
+      'Si has sido tú, abre este enlace para desbloquearla ahora:',
+      unlockUrl,
+      '',
+      'Si no has sido tú, alguien está intentando acceder a tu cuenta: te recomendamos cambiar la contraseña al entrar.'
+    ].join('\n'),
+    html: layout('Cuenta bloqueada temporalmente', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Hemos detectado varios intentos fallidos de inicio de sesión y hemos bloqueado tu cuenta durante ${escapeHtml(lockoutMinutes)} minutos.</p>
+    <p>Si has sido tú, puedes desbloquearla ahora.</p>
+    ${button(unlockUrl, 'Desbloquear mi cuenta')}
+    <p>Si no has sido tú, alguien está intentando acceder a tu cuenta: te recomendamos cambiar la contraseña al entrar.</p>`)
+  }),
+
+  accountDeletionScheduled: ({ name, deletionDate, requestedByAdmin, cancelUrl }) => {
+    const reason = requestedByAdmin
+      ? 'Un administrador ha solicitado la eliminación de tu cuenta.'
+      : 'Hemos recibido tu solicitud para eliminar tu cuenta.';
+
+    return {
+      subject: 'Tu cuenta de Ecommunitas se eliminará pronto',
+      text: [
+        `Hola ${name},`,
+        '',
+        reason,
+        `El ${deletionDate} borraremos tus artículos y sus imágenes y anonimizaremos tus conversaciones.`,
+        'Hasta entonces puedes cancelarlo iniciando sesión y entrando en tu perfil:',
+        cancelUrl
+      ].join('\n'),
+      html: layout('Tu cuenta se eliminará pronto', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>${escapeHtml(reason)}</p>
+    <p>El ${escapeHtml(deletionDate)} borraremos tus artículos y sus imágenes y anonimizaremos tus conversaciones.
+    Hasta entonces puedes cancelarlo desde tu perfil.</p>
+    ${button(cancelUrl, 'Mantener mi cuenta')}`)
+    };
+  },
+
+  welcome: ({ name, appUrl }) => ({
+    subject: '¡Bienvenido a Ecommunitas!',
+    text: [
+      `Hola ${name},`,
+      '',
+      'Tu cuenta está lista. Publica lo que ya no usas e intercámbialo con tus vecinos:',
+      appUrl
+    ].join('\n'),
+    html: layout('¡Bienvenido a Ecommunitas!', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Tu cuenta está lista. Publica lo que ya no usas e intercámbialo con tus vecinos.</p>
+    ${button(appUrl, 'Empezar')}`)
+  }),
+
+  newMessageDigest: ({ name, conversations, messagesUrl }) => {
+    const total = conversations.reduce((sum, conversation) => sum + conversation.count, 0);
+
+    return {
+      subject: `Tienes ${total} ${total === 1 ? 'mensaje nuevo' : 'mensajes nuevos'} en Ecommunitas`,
+      text: [
+        `Hola ${name},`,
+        '',
+        `Tienes ${total} ${total === 1 ? 'mensaje sin leer' : 'mensajes sin leer'}:`,
+        ...conversations.map(c => `- ${c.from} (${c.count}): ${c.preview}\n  ${c.url}`),
+        '',
+        `Ver todos tus mensajes: ${messagesUrl}`
+      ].join('\n'),
+      html: layout('Mensajes nuevos', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Tienes ${total} ${total === 1 ? 'mensaje sin leer' : 'mensajes sin leer'}:</p>
+    <ul style="padding-left:20px;">
+      ${conversations.map(c => `<li style="margin-bottom:8px;"><a href="${escapeHtml(c.url)}">${escapeHtml(c.from)}</a> (${c.count}): ${escapeHtml(c.preview)}</li>`).join('\n      ')}
+    </ul>
+    ${button(messagesUrl, 'Ver mis mensajes')}`)
+    };
+  },
+
+  savedSearchDigest: ({ name, searches, profileUrl }) => {
+    const total = searches.reduce((sum, search) => sum + search.items.length, 0);
+
+    return {
+      subject: `${total} ${total === 1 ? 'artículo nuevo coincide' : 'artículos nuevos coinciden'} con tus búsquedas`,
+      text: [
+        `Hola ${name},`,
+        '',
+        'Se han publicado artículos que coinciden con tus búsquedas guardadas:',
+        ...searches.map(search => [
+          '',
+          `${search.name} (${search.url})`,
+          ...search.items.map(item => `- ${item.title}: ${item.url}`)
+        ].join('\n')),
+        '',
+        `Gestiona tus búsquedas guardadas: ${profileUrl}`
+      ].join('\n'),
+      html: layout('Novedades en tus búsquedas', `
+    <p>Hola ${escapeHtml(name)},</p>
+    <p>Se han publicado artículos que coinciden con tus búsquedas guardadas:</p>
+    ${searches.map(search => `<h2 style="font-size:16px;margin-bottom:4px;"><a href="${escapeHtml(search.url)}">${escapeHtml(search.name)}</a></h2>
+    <ul style="padding-left:20px;margin-top:0;">
+      ${search.items.map(item => `<li style="margin-bottom:8px;"><a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a></li>`).join('\n      ')}
+    </ul>`).join('\n    ')}
+    ${button(profileUrl, 'Gestionar mis búsquedas')}`)
+    };
+  }
+};
+
+/**
+ * Renderiza una plantilla con sus datos
+ *
+ * @param {TemplateName} template - Nombre de la plantilla
+ * @param {TemplateData[T]} data - Datos de la plantilla
+ * @returns {RenderedEmail} Asunto y cuerpo en texto plano y HTML
+ */
+export const renderTemplate = <T extends TemplateName>(template: T, data: TemplateData[T]): RenderedEmail =>
+  templates[template](data);
@@ -0,0 +1,126 @@
+/**
+ * @file transports.ts
+ * @description Transportes de envío de email de Ecommunitas
+ * @module Mailer/Transports
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Un transporte recibe un email ya renderizado y se encarga de entregarlo:
+ * - smtp: Envío real a través de un servidor SMTP (nodemailer)
+ * - file: Guarda cada email como JSON en un directorio (desarrollo y tests)
+ * - console: Escribe el email en el log (desarrollo)
+ *
+ * El transporte se elige con MAIL_TRANSPORT. Si no se indica, se usa SMTP
+ * cuando hay SMTP_HOST configurado, file en tests y console en el resto.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import logger from '../utils/logger';
+
+/**
+ * Email listo para entregar
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Contrato común de todos los transportes
+ */
+export interface MailTransport {
+  /** Nombre del transporte (para los logs) */
+  name: string;
+  /** Entrega el email o lanza un error si no es posible */
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+/**
+ * Transporte SMTP basado en nodemailer
+ *
+ * @returns {MailTransport} Transporte configurado con SMTP_HOST, SMTP_PORT, SMTP_USER y SMTP_PASS
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+/**
+ * Transporte que guarda cada email como un fichero JSON
+ *
+ * @param {string} [outboxPath] - Directorio de salida (por defecto MAIL_OUTBOX_PATH o ./mail-outbox)
+ * @returns {MailTransport} Transporte de ficheros
+ */
+export const createFileTransport = (outboxPath?: string): MailTransport => {
+  const directory = outboxPath || process.env.MAIL_OUTBOX_PATH || path.join(process.cwd(), 'mail-outbox');
+
+  return {
+    name: 'file',
+    send: async (message) => {
+      await fs.promises.mkdir(directory, { recursive: true });
+
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      await fs.promises.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2)
+      );
+    }
+  };
+};
+
+/**
+ * Transporte que escribe el email en el log en lugar de enviarlo
+ *
+ * @returns {MailTransport} Transporte de consola
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async ({ to, subject, text }) => {
+    logger.info(`Email para ${to} - ${subject}\n${text}`);
+  }
+});
+
+/**
+ * Crea el transporte indicado por la configuración del entorno
+ *
+ * @returns {MailTransport} Transporte elegido con MAIL_TRANSPORT o deducido del entorno
+ */
+export const createTransportFromEnv = (): MailTransport => {
+  const configured = process.env.MAIL_TRANSPORT as MailTransportName | undefined;
+  const name: MailTransportName = configured
+    || (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'test' ? 'file' : 'console');
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Transporte de email desconocido: ${name}`);
+  }
+};
@@ -14,10 +14,15 @@
  * - Búsqueda con operadores de comparación
  * - Población de referencias de Mongoose
  * - Metadatos de paginación completos
+ *
+ * Los campos ocultos del esquema (select: false), como la contraseña o la
+ * ubicación exacta de un artículo, no se pueden seleccionar, ordenar ni
+ * filtrar desde la query: un filtro con rangos permitiría deducir su valor.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { Model, Document } from 'mongoose';
+import { AppError } from '../utils/app-error';
 
 interface AdvancedResultsResponse extends Response {
   advancedResults?: {
@@ -51,12 +56,66 @@ interface QueryRequest extends Request {
   };
 }
 
+/**
+ * Rutas del esquema marcadas con select: false
+ *
+ * @param {Model<any>} model - Modelo de Mongoose
+ * @returns {string[]} Rutas ocultas del modelo
+ */
+const getHiddenPaths = (model: Model<any>): string[] =>
+  Object.entries(model.schema.paths)
+    .filter(([, schemaType]) => (schemaType as any).options?.select === false)
+    .map(([path]) => path);
+
+/**
+ * Indica si un campo es una ruta oculta, está dentro de una o la contiene
+ *
+ * @param {string} field - Campo de la query (sin prefijos + o -)
+ * @param {string[]} hiddenPaths - Rutas ocultas del modelo
+ * @returns {boolean} true si el campo da acceso a una ruta oculta
+ */
+const touchesHiddenPath = (field: string, hiddenPaths: string[]): boolean =>
+  hiddenPaths.some(path => field === path || field.startsWith(`${path}.`) || path.startsWith(`${field}.`));
+
+/**
+ * Busca en un filtro (incluidos $or, $and...) alguna clave sobre una ruta oculta
+ *
+ * @param {unknown} value - Filtro o parte de él
+ * @param {string[]} hiddenPaths - Rutas ocultas del modelo
+ * @returns {boolean} true si el filtro consulta una ruta oculta
+ */
+const filtersHiddenPath = (value: unknown, hiddenPaths: string[]): boolean => {
+  if (Array.isArray(value)) {
+    return value.some(element => filtersHiddenPath(element, hiddenPaths));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).some(([key, nested]) =>
+      touchesHiddenPath(key, hiddenPaths) || filtersHiddenPath(nested, hiddenPaths));
+  }
+  return false;
+};
+
+/**
+ * Quita de una lista de campos (select o sort) los que dan acceso a rutas ocultas
+ *
+ * @param {string} fields - Campos separados por comas
+ * @param {string[]} hiddenPaths - Rutas ocultas del modelo
+ * @returns {string} Campos permitidos separados por espacios
+ */
+const withoutHiddenFields = (fields: string, hiddenPaths: string[]): string =>
+  fields
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => field && !touchesHiddenPath(field.replace(/^[+-]/, ''), hiddenPaths))
+    .join(' ');
+
 /**
  * Middleware de resultados avanzados para consultas de Mongoose
  * 
  * @function advancedResults
  * @param {Model<any>} model - Modelo de Mongoose para realizar la consulta
  * @param {string|object} populate - Campo(s) a poblar en la consulta (opcional)
+ * @param {object} filter - Filtro fijo que se añade a la consulta y al total (opcional)
  * @returns {Function} Middleware de Express que procesa la consulta
  * 
  * @description
@@ -67,6 +126,9 @@ interface QueryRequest extends Request {
  * - Ordenamiento flexible con alias predefinidos
  * - Selección de campos específicos
  * - Población automática de referencias
+ * - Filtro fijo que el cliente no puede sobrescribir (p. ej. excluir la papelera)
+ * - Los campos con select: false se ignoran en select y sort, y filtrar por
+ *   ellos responde 400
  * 
  * @example
  * ```typescript
@@ -79,12 +141,13 @@ interface QueryRequest extends Request {
  * // GET /items?price[gte]=100&price[lte]=500
  * ```
  */
-const advancedResults = (model: Model<any>, populate?: string | object) => async (
+const advancedResults = (model: Model<any>, populate?: string | object, filter: object = {}) => async (
   req: QueryRequest,
   res: AdvancedResultsResponse,
   next: NextFunction
 ) => {
   let query;
+  const hiddenPaths = getHiddenPaths(model);
 
   // Copia req.query
   const reqQuery = { ...req.query };
@@ -100,14 +163,23 @@ const advancedResults = (model: Model<any>, populate?: string | object) => async
 
   // Operadores ($gt, $gte, etc)
   queryStr = queryStr.replace(/\b(gt|gte|lt|lte|in)\b/g, match => `$${match}`);
+  const clientFilter = JSON.parse(queryStr);
+
+  // Los campos ocultos no se pueden filtrar (p. ej. exactCoordinates.0[gte]=...)
+  if (filtersHiddenPath(clientFilter, hiddenPaths)) {
+    return next(new AppError('No se puede filtrar por ese campo', 400));
+  }
 
   // Encontrar el recurso
-  query = model.find(JSON.parse(queryStr));
+  // El filtro fijo se combina con $and para no sustituir los filtros del cliente
+  query = model.find({ $and: [clientFilter, filter] });
 
-  // Seleccionar campos relevantes
+  // Seleccionar campos relevantes (nunca los ocultos, aunque se pidan con +campo)
   if (req.query.select) {
-    const fields = req.query.select.split(',').join(' ');
-    query = query.select(fields);
+    const fields = withoutHiddenFields(String(req.query.select), hiddenPaths);
+    if (fields) {
+      query = query.select(fields);
+    }
   }
 
   // Ordenar usando sort
@@ -126,8 +198,9 @@ const advancedResults = (model: Model<any>, populate?: string | object) => async
     }
     
     // Función para combinar varios tipo s de ordenación
-    sortBy = sortBy.split(',').join(' ');
-    query = query.sort(sortBy);
+    // (ordenar por un campo oculto también revelaría su valor)
+    sortBy = withoutHiddenFields(sortBy, hiddenPaths);
+    query = query.sort(sortBy || '-createdAt');
   } else {
     query = query.sort('-createdAt');
   }
@@ -137,7 +210,7 @@ const advancedResults = (model: Model<any>, populate?: string | object) => async
   const limit = parseInt(req.query.limit || '25', 10) || 25;
   const startIndex = (page - 1) * limit;
   const endIndex = page * limit;
-  const total = await model.countDocuments();
+  const total = await model.countDocuments(filter);
 
   query = query.skip(startIndex).limit(limit);
 
@@ -7,11 +7,13 @@
  * @created 2024
  * 
  * Este middleware proporciona:
- * - Protección de rutas mediante tokens JWT
+ * - Protección de rutas mediante tokens JWT ligados a una sesión del servidor
  * - Verificación de autenticación de usuarios
  * - Control de acceso basado en roles
  * - Manejo de tokens desde headers y cookies
  * - Validación de permisos específicos
+ * - Restricción de acciones a usuarios con el email sin verificar
+ * - Verificación en dos pasos obligatoria para administradores (configurable)
  */
 
 import jwt from 'jsonwebtoken';
@@ -19,6 +21,8 @@ import { Request, Response, NextFunction } from 'express';
 import asyncHandler from '../utils/async';
 import ErrorResponse from '../utils/errorResponse';
 import User from '../models/User';
+import Setting from '../models/Setting';
+import Session from '../models/Session';
 
 /**
  * Interfaz que extiende Request para incluir información del usuario autenticado
@@ -26,8 +30,63 @@ import User from '../models/User';
 interface AuthenticatedRequest extends Request {
   /** Usuario autenticado obtenido del token JWT */
   user?: any;
+  /** ID de la sesión a la que pertenece el token */
+  sessionId?: string;
 }
 
+/**
+ * Obtiene el usuario y la sesión a los que pertenece un token JWT
+ * 
+ * @param {string} token - Token de acceso emitido por getSignedJwtToken
+ * @returns {Promise<{ user: any, sessionId: string } | null>} Usuario y sesión, o null si no son válidos
+ * @throws {Error} Si el token no es válido o ha expirado
+ * 
+ * @description
+ * El token debe pertenecer a una sesión activa: al cerrar sesión o revocarla
+ * desde otro dispositivo, sus tokens dejan de aceptarse aunque no hayan
+ * caducado. Los usuarios suspendidos por moderación (isActive = false)
+ * también pierden el acceso. Compartido por protect y por la pasarela de
+ * Socket.IO para que ambas autentiquen exactamente con el mismo token.
+ */
+export const getSessionFromToken = async (token: string): Promise<{ user: any; sessionId: string } | null> => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+  if (!decoded.sid) {
+    return null;
+  }
+
+  const session = await Session.findOne({
+    _id: decoded.sid,
+    user: decoded.id,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const user = await User.findById(decoded.id);
+
+  return user && user.isActive !== false ? { user, sessionId: session.id } : null;
+};
+
+/**
+ * Extrae el token de acceso del header Authorization o de las cookies
+ *
+ * @param {Request} req - Objeto de solicitud
+ * @returns {string | undefined} Token de la petición, si lo hay
+ */
+const getRequestToken = (req: Request): string | undefined => {
+  if (
+    req.headers.authorization &&
+    req.headers.authorization.startsWith('Bearer')
+  ) {
+    return req.headers.authorization.split(' ')[1];
+  }
+  return req.cookies?.token;
+};
+
 /**
  * Middleware de protección de rutas
  * Verifica que el usuario esté autenticado mediante token JWT
@@ -39,6 +98,7 @@ interface AuthenticatedRequest extends Request {
  * @description
  * - Extrae el token del header Authorization o cookies
  * - Verifica la validez del token JWT
+ * - Comprueba que la sesión del token no se haya revocado
  * - Obtiene la información del usuario desde la base de datos
  * - Añade el usuario al objeto request para uso posterior
  * 
@@ -49,16 +109,7 @@ interface AuthenticatedRequest extends Request {
  * ```
  */
 export const protect = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  let token;
-
-  if (
-    req.headers.authorization &&
-    req.headers.authorization.startsWith('Bearer')
-  ) {
-    token = req.headers.authorization.split(' ')[1];
-  } else if (req.cookies.token) {
-    token = req.cookies.token;
-  }
+  const token = getRequestToken(req);
 
   // Make sure token exists
   if (!token) {
@@ -66,10 +117,14 @@ export const protect = async (req: AuthenticatedRequest, res: Response, next: Ne
   }
 
   try {
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    const result = await getSessionFromToken(token);
+
+    if (!result) {
+      return next(new ErrorResponse('Not authorized to access this route', 401));
+    }
 
-    req.user = await User.findById(decoded.id);
+    req.user = result.user;
+    req.sessionId = result.sessionId;
 
     next();
   } catch (err) {
@@ -77,6 +132,64 @@ export const protect = async (req: AuthenticatedRequest, res: Response, next: Ne
   }
 };
 
+/**
+ * Middleware de identificación opcional para rutas públicas
+ *
+ * @param {AuthenticatedRequest} req - Objeto de solicitud con usuario
+ * @param {Response} res - Objeto de respuesta de Express
+ * @param {NextFunction} next - Función de continuación
+ *
+ * @description
+ * Si la petición trae un token válido añade el usuario como protect; si no lo
+ * trae o no es válido, la petición continúa como anónima en lugar de fallar.
+ * Permite que una ruta pública muestre más datos a quien tiene derecho a verlos.
+ */
+export const optionalAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const token = getRequestToken(req);
+
+  if (token) {
+    try {
+      const result = await getSessionFromToken(token);
+      if (result) {
+        req.user = result.user;
+        req.sessionId = result.sessionId;
+      }
+    } catch (err) {
+      // Token caducado o no válido: se sigue como usuario anónimo
+    }
+  }
+
+  next();
+};
+
+/**
+ * Política de verificación en dos pasos
+ *
+ * @description
+ * Entrada de la configuración del sistema, editable desde el panel de
+ * administración. Cuando está activa, los administradores sin la verificación
+ * en dos pasos activada no pueden usar las rutas de administración.
+ */
+export const TWO_FACTOR_POLICY_DEFAULTS = {
+  /** Exigir la verificación en dos pasos al rol admin */
+  requireTwoFactorForAdmins: false
+};
+
+/**
+ * Comprueba si la configuración exige la verificación en dos pasos a un rol
+ *
+ * @param {string} role - Rol del usuario
+ * @returns {Promise<boolean>} true si el rol debe tener la verificación en dos pasos activada
+ */
+export const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> => {
+  if (role !== 'admin') {
+    return false;
+  }
+
+  const setting = await Setting.findOne({ key: 'requireTwoFactorForAdmins' });
+  return setting ? setting.value === true : TWO_FACTOR_POLICY_DEFAULTS.requireTwoFactorForAdmins;
+};
+
 /**
  * Middleware de autorización basado en roles
  * Controla el acceso a rutas según los roles del usuario
@@ -88,6 +201,7 @@ export const protect = async (req: AuthenticatedRequest, res: Response, next: Ne
  * - Verifica que el usuario tenga uno de los roles especificados
  * - Debe usarse después del middleware protect
  * - Retorna error 403 si el usuario no tiene permisos
+ * - Retorna error 403 si su rol exige la verificación en dos pasos y no la tiene activada
  * 
  * @example
  * ```typescript
@@ -99,7 +213,7 @@ export const protect = async (req: AuthenticatedRequest, res: Response, next: Ne
  * ```
  */
 export const authorize = (...roles: string[]) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  return asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user || !roles.includes(req.user.role)) {
       return next(
         new ErrorResponse(
@@ -108,6 +222,72 @@ export const authorize = (...roles: string[]) => {
         )
       );
     }
+
+    if (!req.user.twoFactorEnabled && await isTwoFactorRequiredForRole(req.user.role)) {
+      return next(
+        new ErrorResponse('Debes activar la verificación en dos pasos para acceder a esta sección', 403)
+      );
+    }
+
     next();
-  };
-};
\ No newline at end of file
+  });
+};
+
+/**
+ * Acciones que un usuario con el email sin verificar puede tener restringidas
+ *
+ * @description
+ * Cada clave es también una entrada de la configuración del sistema, editable
+ * desde el panel de administración. Por defecto un usuario sin verificar puede
+ * navegar por la plataforma pero no publicar ni contactar con otros usuarios.
+ */
+export const VERIFICATION_POLICY_DEFAULTS = {
+  /** Publicar artículos */
+  unverifiedCanPostItems: false,
+  /** Enviar mensajes e iniciar conversaciones */
+  unverifiedCanSendMessages: false,
+  /** Proponer intercambios y contraofertas */
+  unverifiedCanProposeTrades: false,
+  /** Valorar a otros usuarios */
+  unverifiedCanReview: false
+};
+
+export type VerificationPolicyKey = keyof typeof VERIFICATION_POLICY_DEFAULTS;
+
+/**
+ * Middleware que exige el email verificado para una acción
+ * Debe usarse después del middleware protect
+ *
+ * @param {VerificationPolicyKey} policyKey - Clave de la política que permite la acción sin verificar
+ * @returns {Function} Middleware que comprueba la verificación del email
+ *
+ * @description
+ * - Los usuarios verificados y los administradores siempre pasan
+ * - Para el resto se consulta la configuración del sistema (o su valor por defecto)
+ * - Retorna error 403 si la política no permite la acción sin verificar
+ *
+ * @example
+ * ```typescript
+ * router.post('/items', protect, requireVerifiedEmail('unverifiedCanPostItems'), createItem);
+ * ```
+ */
+export const requireVerifiedEmail = (policyKey: VerificationPolicyKey) => {
+  return asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new ErrorResponse('Not authorized to access this route', 401));
+    }
+
+    if (req.user.emailVerified || req.user.role === 'admin') {
+      return next();
+    }
+
+    const setting = await Setting.findOne({ key: policyKey });
+    const allowed = setting ? setting.value === true : VERIFICATION_POLICY_DEFAULTS[policyKey];
+
+    if (!allowed) {
+      return next(new ErrorResponse('Debes verificar tu email para realizar esta acción', 403));
+    }
+
+    next();
+  });
+};
@@ -0,0 +1,74 @@
+/**
+ * @file add-item-status.ts
+ * @description Migración que asigna un estado del ciclo de vida a los artículos existentes
+ * @module Migrations/AddItemStatus
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Antes del ciclo de vida los artículos solo tenían el booleano available.
+ * Esta migración les asigna un estado equivalente:
+ * - 'traded' si forman parte de un intercambio completado
+ * - 'active' si estaban disponibles
+ * - 'withdrawn' en el resto de casos
+ * y abre su historial de estados con la fecha de la última actualización.
+ *
+ * Es idempotente: solo procesa artículos sin el campo status, por lo que puede
+ * ejecutarse de nuevo sin afectar a los creados después.
+ *
+ * @example
+ * ```bash
+ * npm run migrate:item-status
+ * ```
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Item from '../models/Item';
+import Trade from '../models/Trade';
+import logger from '../utils/logger';
+
+/**
+ * Asigna el estado a todos los artículos que todavía no lo tienen
+ *
+ * @returns {Promise<number>} Artículos actualizados
+ */
+export const addItemStatus = async (): Promise<number> => {
+  const completedTrades = await Trade.find({ status: 'completed' }).select('requestedItem offeredItems');
+  const tradedIds = completedTrades.flatMap(trade => [trade.requestedItem, ...trade.offeredItems]);
+
+  // Se trabaja sobre la colección para no aplicar los valores por defecto del esquema
+  const setStatus = (filter: object, status: string) => Item.collection.updateMany(
+    { status: { $exists: false }, ...filter },
+    [{
+      $set: {
+        status,
+        statusChangedAt: '$updatedAt',
+        statusHistory: [{ status, changedAt: '$updatedAt' }]
+      }
+    }]
+  );
+
+  const traded = await setStatus({ _id: { $in: tradedIds } }, 'traded');
+  const active = await setStatus({ available: true }, 'active');
+  const withdrawn = await setStatus({}, 'withdrawn');
+
+  return traded.modifiedCount + active.modifiedCount + withdrawn.modifiedCount;
+};
+
+if (require.main === module) {
+  dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(addItemStatus)
+    .then((items) => {
+      logger.info(`Migración completada: ${items} artículos con estado asignado`);
+      return mongoose.disconnect();
+    })
+    .catch(async (error) => {
+      logger.error(`Error en la migración del estado de los artículos: ${error.message}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * @file fuzz-public-coordinates.ts
+ * @description Migración que deja de publicar el punto exacto de artículos y perfiles
+ * @module Migrations/FuzzPublicCoordinates
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Antes de la privacidad de la ubicación, coordinates guardaba el punto
+ * exacto elegido por el usuario. Esta migración mueve ese punto a
+ * exactCoordinates y deja en coordinates el centro de su celda de la
+ * rejilla (ver utils/locationPrivacy), en artículos y en usuarios.
+ *
+ * Es idempotente: solo procesa documentos con coordenadas y sin
+ * exactCoordinates, por lo que puede ejecutarse de nuevo sin afectar a los
+ * guardados después.
+ *
+ * @example
+ * ```bash
+ * npm run migrate:location-privacy
+ * ```
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Item from '../models/Item';
+import User from '../models/User';
+import { toPrivateLocation } from '../utils/locationPrivacy';
+import logger from '../utils/logger';
+
+/**
+ * Separa el punto exacto de las coordenadas públicas de una colección
+ *
+ * @param {mongoose.Collection} collection - Colección de artículos o usuarios
+ * @param {object} filter - Documentos con coordenadas que procesar
+ * @returns {Promise<number>} Documentos actualizados
+ */
+const fuzzCollection = async (collection: mongoose.Collection, filter: object): Promise<number> => {
+  // Se trabaja sobre la colección para no aplicar los valores por defecto del esquema
+  const cursor = collection.find({
+    ...filter,
+    'coordinates.coordinates.1': { $exists: true },
+    exactCoordinates: { $exists: false }
+  }).project({ 'coordinates.coordinates': 1 });
+
+  let updated = 0;
+  for await (const doc of cursor) {
+    const { coordinates, exactCoordinates } = toPrivateLocation(doc.coordinates.coordinates);
+    await collection.updateOne(
+      { _id: doc._id },
+      { $set: { 'coordinates.coordinates': coordinates, exactCoordinates } }
+    );
+    updated++;
+  }
+
+  return updated;
+};
+
+/**
+ * Aplica la privacidad de la ubicación a los artículos y usuarios existentes
+ *
+ * @returns {Promise<{ items: number; users: number }>} Documentos actualizados
+ */
+export const fuzzPublicCoordinates = async (): Promise<{ items: number; users: number }> => ({
+  items: await fuzzCollection(Item.collection, { 'coordinates.enabled': true }),
+  users: await fuzzCollection(User.collection, {})
+});
+
+if (require.main === module) {
+  dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(fuzzPublicCoordinates)
+    .then(({ items, users }) => {
+      logger.info(`Migración completada: ${items} artículos y ${users} usuarios con la ubicación pública aproximada`);
+      return mongoose.disconnect();
+    })
+    .catch(async (error) => {
+      logger.error(`Error en la migración de la privacidad de la ubicación: ${error.message}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    });
+}
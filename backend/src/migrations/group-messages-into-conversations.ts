@@ -0,0 +1,99 @@
+/**
+ * @file group-messages-into-conversations.ts
+ * @description Migración que agrupa los mensajes existentes en conversaciones
+ * @module Migrations/GroupMessagesIntoConversations
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Antes del modelo Conversation los mensajes solo tenían remitente,
+ * destinatario e item opcional. Esta migración:
+ * - Agrupa los mensajes sin conversación por pareja de usuarios e item
+ * - Crea (o reutiliza) la conversación de cada grupo
+ * - Asigna la conversación a los mensajes del grupo
+ * - Actualiza el último mensaje y la fecha de última actividad
+ *
+ * Es idempotente: solo procesa mensajes sin conversación, por lo que puede
+ * ejecutarse de nuevo sin duplicar hilos.
+ *
+ * @example
+ * ```bash
+ * npm run migrate:conversations
+ * ```
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Message from '../models/Message';
+import Conversation, { findOrCreateConversation } from '../models/Conversation';
+import logger from '../utils/logger';
+
+/**
+ * Agrupa en conversaciones todos los mensajes que aún no tienen una
+ *
+ * @returns {Promise<{ conversations: number, messages: number }>} Conversaciones tocadas y mensajes migrados
+ */
+export const groupMessagesIntoConversations = async () => {
+  // Un grupo por pareja de usuarios (sin importar el sentido) e item
+  const groups = await Message.aggregate([
+    { $match: { conversation: { $exists: false } } },
+    {
+      $group: {
+        _id: {
+          userA: { $min: ['$sender', '$recipient'] },
+          userB: { $max: ['$sender', '$recipient'] },
+          item: { $ifNull: ['$item', null] }
+        },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  let migrated = 0;
+
+  for (const { _id: { userA, userB, item } } of groups) {
+    const conversation = await findOrCreateConversation(userA, userB, item || undefined);
+
+    const result = await Message.updateMany(
+      {
+        conversation: { $exists: false },
+        $or: [
+          { sender: userA, recipient: userB },
+          { sender: userB, recipient: userA }
+        ],
+        item: item || null
+      },
+      { $set: { conversation: conversation._id } }
+    );
+
+    // El último mensaje puede ser uno ya migrado o uno recién asignado
+    const lastMessage = await Message.findOne({ conversation: conversation._id }).sort({ createdAt: -1 });
+    if (lastMessage) {
+      await Conversation.updateOne(
+        { _id: conversation._id },
+        { $set: { lastMessage: lastMessage._id, lastMessageAt: lastMessage.createdAt } }
+      );
+    }
+
+    migrated += result.modifiedCount;
+  }
+
+  return { conversations: groups.length, messages: migrated };
+};
+
+if (require.main === module) {
+  dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(groupMessagesIntoConversations)
+    .then(({ conversations, messages }) => {
+      logger.info(`Migración completada: ${messages} mensajes agrupados en ${conversations} conversaciones`);
+      return mongoose.disconnect();
+    })
+    .catch(async (error) => {
+      logger.error(`Error en la migración de conversaciones: ${error.message}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    });
+}
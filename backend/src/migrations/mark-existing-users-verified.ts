@@ -0,0 +1,56 @@
+/**
+ * @file mark-existing-users-verified.ts
+ * @description Migración que marca como verificados los usuarios ya existentes
+ * @module Migrations/MarkExistingUsersVerified
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Los usuarios registrados antes de la verificación de email no tienen el
+ * campo emailVerified y quedarían restringidos por la política de usuarios
+ * sin verificar. Esta migración les asigna emailVerified = true.
+ *
+ * Es idempotente: solo procesa usuarios sin el campo, por lo que puede
+ * ejecutarse de nuevo sin afectar a los registrados después.
+ *
+ * @example
+ * ```bash
+ * npm run migrate:verified-users
+ * ```
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import logger from '../utils/logger';
+
+/**
+ * Marca como verificados todos los usuarios sin el campo emailVerified
+ *
+ * @returns {Promise<number>} Usuarios actualizados
+ */
+export const markExistingUsersVerified = async (): Promise<number> => {
+  const result = await User.updateMany(
+    { emailVerified: { $exists: false } },
+    { $set: { emailVerified: true } }
+  );
+
+  return result.modifiedCount;
+};
+
+if (require.main === module) {
+  dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+  mongoose.connect(process.env.MONGO_URI!)
+    .then(markExistingUsersVerified)
+    .then((users) => {
+      logger.info(`Migración completada: ${users} usuarios marcados como verificados`);
+      return mongoose.disconnect();
+    })
+    .catch(async (error) => {
+      logger.error(`Error en la migración de usuarios verificados: ${error.message}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,382 @@
+/**
+ * @file Category.ts
+ * @description Modelo de datos para las categorías de artículos
+ * @module Models/Category
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Las categorías de los artículos se gestionan desde el panel de
+ * administración en lugar de estar fijadas en el código:
+ * - Cada categoría se identifica por su slug, que es lo que guardan los
+ *   artículos y las búsquedas guardadas y no puede cambiarse
+ * - Nombre traducido a cada idioma (el español es obligatorio) e icono
+ * - Jerarquía de dos niveles: una categoría puede tener subcategorías, y al
+ *   filtrar por una categoría se incluyen los artículos de sus subcategorías
+ * - Las categorías desactivadas no admiten artículos nuevos, pero los que ya
+ *   tenían las conservan
+ * - Atributos propios de cada categoría (autor e ISBN de un libro, talla de
+ *   una prenda...) que se validan al publicar o modificar un artículo; las
+ *   subcategorías heredan los de su categoría padre
+ *
+ * Si la colección está vacía se crean las categorías por defecto
+ * (DEFAULT_CATEGORIES) la primera vez que se consulta.
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Idioma obligatorio en los nombres de las categorías
+ */
+export const DEFAULT_CATEGORY_LOCALE = 'es';
+
+/**
+ * Formato de los slugs: minúsculas, números y guiones bajos
+ */
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(_[a-z0-9]+)*$/;
+
+/**
+ * Formato de las claves de los atributos: empiezan por una letra y solo
+ * tienen minúsculas, números y guiones bajos (se usan en los filtros attr.<clave>)
+ */
+export const CATEGORY_ATTRIBUTE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Tipos de atributo de una categoría
+ * - text: texto libre
+ * - number: número
+ * - enum: uno de los valores de options
+ * - boolean: sí / no
+ */
+export const CATEGORY_ATTRIBUTE_TYPES = ['text', 'number', 'enum', 'boolean'] as const;
+
+export type CategoryAttributeType = typeof CATEGORY_ATTRIBUTE_TYPES[number];
+
+/**
+ * Datos de un atributo de una categoría por defecto
+ */
+export interface CategoryAttributeDefinition {
+  key: string;
+  labels: Record<string, string>;
+  type: CategoryAttributeType;
+  required?: boolean;
+  options?: string[];
+}
+
+/**
+ * Datos de una categoría por defecto
+ */
+export interface CategoryDefinition {
+  slug: string;
+  labels: Record<string, string>;
+  icon?: string;
+  parent?: string | null;
+  order?: number;
+  attributes?: CategoryAttributeDefinition[];
+}
+
+/**
+ * Categorías con las que arranca una instalación nueva
+ * (las que existían antes de gestionarse desde el panel)
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    slug: 'books',
+    labels: { es: 'Libros', en: 'Books' },
+    icon: 'book',
+    order: 1,
+    attributes: [
+      { key: 'author', labels: { es: 'Autor', en: 'Author' }, type: 'text' },
+      { key: 'isbn', labels: { es: 'ISBN', en: 'ISBN' }, type: 'text' }
+    ]
+  },
+  { slug: 'electronics', labels: { es: 'Electrónicos', en: 'Electronics' }, icon: 'smartphone', order: 2 },
+  {
+    slug: 'clothing',
+    labels: { es: 'Ropa', en: 'Clothing' },
+    icon: 'shirt',
+    order: 3,
+    attributes: [
+      { key: 'size', labels: { es: 'Talla', en: 'Size' }, type: 'enum', required: true, options: ['XS', 'S', 'M', 'L', 'XL', 'XXL'] },
+      { key: 'gender', labels: { es: 'Género', en: 'Gender' }, type: 'enum', options: ['Hombre', 'Mujer', 'Unisex', 'Infantil'] }
+    ]
+  },
+  { slug: 'furniture', labels: { es: 'Muebles', en: 'Furniture' }, icon: 'home', order: 4 },
+  { slug: 'other', labels: { es: 'Otros', en: 'Other' }, icon: 'package', order: 99 }
+];
+
+/**
+ * Atributo de los artículos de una categoría
+ *
+ * @interface ICategoryAttribute
+ */
+export interface ICategoryAttribute {
+  /** Clave con la que se guarda en el artículo ("size") */
+  key: string;
+  /** Nombre del atributo en cada idioma */
+  labels: Map<string, string>;
+  /** Tipo de valor */
+  type: CategoryAttributeType;
+  /** Si es obligatorio al publicar un artículo */
+  required: boolean;
+  /** Valores admitidos (solo en los atributos enum) */
+  options: string[];
+}
+
+/**
+ * Interfaz TypeScript para el modelo Category
+ *
+ * @interface ICategory
+ * @extends Document
+ */
+export interface ICategory extends Document {
+  /** Identificador estable de la categoría ("books") */
+  slug: string;
+  /** Nombre de la categoría en cada idioma */
+  labels: Map<string, string>;
+  /** Nombre del icono para la interfaz (opcional) */
+  icon?: string;
+  /** Slug de la categoría padre (null en las categorías principales) */
+  parent: string | null;
+  /** Posición en los listados (menor = antes) */
+  order: number;
+  /** Si admite artículos nuevos y aparece en los listados públicos */
+  active: boolean;
+  /** Atributos propios de los artículos de la categoría */
+  attributes: ICategoryAttribute[];
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Valida que un mapa de nombres tenga el nombre en español
+ */
+const labelsValidator = {
+  validator: (labels: Map<string, string>) => Boolean(labels && labels.get(DEFAULT_CATEGORY_LOCALE)),
+  message: `Falta el nombre en '${DEFAULT_CATEGORY_LOCALE}'`
+};
+
+/**
+ * Esquema de los atributos de una categoría
+ */
+const CategoryAttributeSchema = new mongoose.Schema<ICategoryAttribute>({
+  key: {
+    type: String,
+    required: [true, 'Por favor añade la clave del atributo'],
+    trim: true,
+    lowercase: true,
+    maxlength: [30, 'La clave del atributo no puede tener más de 30 caracteres'],
+    match: [CATEGORY_ATTRIBUTE_KEY_PATTERN, 'La clave del atributo solo puede tener minúsculas, números y guiones bajos']
+  },
+  labels: {
+    type: Map,
+    of: {
+      type: String,
+      trim: true,
+      maxlength: [60, 'El nombre no puede tener más de 60 caracteres']
+    },
+    validate: labelsValidator
+  },
+  type: {
+    type: String,
+    enum: {
+      values: CATEGORY_ATTRIBUTE_TYPES,
+      message: 'Tipo de atributo no válido'
+    },
+    default: 'text'
+  },
+  required: {
+    type: Boolean,
+    default: false
+  },
+  options: {
+    type: [{ type: String, trim: true, maxlength: [60, 'Un valor no puede tener más de 60 caracteres'] }],
+    default: []
+  }
+}, {
+  _id: false
+});
+
+// Los atributos enum necesitan al menos un valor admitido
+CategoryAttributeSchema.path('options').validate(function (this: ICategoryAttribute, options: string[]) {
+  return this.type !== 'enum' || options.length > 0;
+}, 'Un atributo de tipo enum necesita al menos un valor');
+
+/**
+ * Esquema de Mongoose para categorías
+ *
+ * @description
+ * La validación de la jerarquía (que el padre exista y sea una categoría
+ * principal) necesita consultar la colección y se hace en el controlador.
+ */
+const CategorySchema = new mongoose.Schema({
+  slug: {
+    type: String,
+    required: [true, 'Por favor añade el identificador de la categoría'],
+    unique: true,
+    immutable: true,
+    trim: true,
+    lowercase: true,
+    maxlength: [40, 'El identificador no puede tener más de 40 caracteres'],
+    match: [CATEGORY_SLUG_PATTERN, 'El identificador solo puede tener minúsculas, números y guiones bajos']
+  },
+  labels: {
+    type: Map,
+    of: {
+      type: String,
+      trim: true,
+      maxlength: [60, 'El nombre no puede tener más de 60 caracteres']
+    },
+    validate: {
+      validator: labelsValidator.validator,
+      message: `La categoría necesita un nombre en '${DEFAULT_CATEGORY_LOCALE}'`
+    }
+  },
+  icon: {
+    type: String,
+    trim: true,
+    maxlength: [40, 'El icono no puede tener más de 40 caracteres']
+  },
+  parent: {
+    type: String,
+    default: null
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  attributes: {
+    type: [CategoryAttributeSchema],
+    default: [],
+    validate: {
+      validator: (attributes: ICategoryAttribute[]) =>
+        new Set(attributes.map(attribute => attribute.key)).size === attributes.length,
+      message: 'Hay atributos con la misma clave'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+// Índice para los listados (subcategorías de cada categoría, en orden)
+CategorySchema.index({ parent: 1, order: 1 });
+
+const Category = mongoose.model<ICategory>('Category', CategorySchema);
+
+/**
+ * Crea las categorías por defecto si la colección está vacía
+ *
+ * @returns {Promise<void>}
+ */
+export const ensureDefaultCategories = async (): Promise<void> => {
+  if (await Category.estimatedDocumentCount() > 0) {
+    return;
+  }
+
+  try {
+    await Category.insertMany(DEFAULT_CATEGORIES, { ordered: false });
+  } catch (error: any) {
+    // Otra petición las ha creado a la vez
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Categorías ordenadas para los listados
+ *
+ * @param {boolean} includeInactive - Incluir las desactivadas (panel de administración)
+ * @returns {Promise<ICategory[]>} Categorías por orden y slug
+ */
+export const getCategories = async (includeInactive = false): Promise<ICategory[]> => {
+  await ensureDefaultCategories();
+
+  return Category.find(includeInactive ? {} : { active: true }).sort({ order: 1, slug: 1 });
+};
+
+/**
+ * Busca una categoría por su slug
+ *
+ * @param {string} slug - Slug de la categoría
+ * @returns {Promise<ICategory | null>} Categoría o null si no existe
+ */
+export const findCategory = async (slug: string): Promise<ICategory | null> => {
+  await ensureDefaultCategories();
+
+  return Category.findOne({ slug: String(slug).toLowerCase() });
+};
+
+/**
+ * Indica si una categoría existe y admite artículos nuevos
+ *
+ * @param {string} slug - Slug de la categoría
+ * @returns {Promise<boolean>} true si la categoría existe y está activa
+ */
+export const isActiveCategory = async (slug: string): Promise<boolean> => {
+  const category = await findCategory(slug);
+
+  return Boolean(category && category.active);
+};
+
+/**
+ * Slugs que abarca un filtro por categoría: la categoría y sus subcategorías
+ *
+ * @param {string} slug - Slug de la categoría del filtro
+ * @returns {Promise<string[]>} Slugs de la categoría y de sus subcategorías
+ */
+export const getCategoryFamily = async (slug: string): Promise<string[]> => {
+  const children = await Category.find({ parent: slug }).distinct('slug');
+
+  return [slug, ...children];
+};
+
+/**
+ * Atributos de los artículos de una categoría
+ *
+ * @param {string} slug - Slug de la categoría
+ * @returns {Promise<ICategoryAttribute[]>} Atributos de la categoría padre
+ * seguidos de los de la categoría (estos prevalecen si repiten clave)
+ */
+export const getCategoryAttributes = async (slug: string): Promise<ICategoryAttribute[]> => {
+  const category = await findCategory(slug);
+  if (!category) {
+    return [];
+  }
+
+  const parent = category.parent ? await findCategory(category.parent) : null;
+  const ownKeys = new Set(category.attributes.map(attribute => attribute.key));
+
+  return [
+    ...(parent ? parent.attributes.filter(attribute => !ownKeys.has(attribute.key)) : []),
+    ...category.attributes
+  ];
+};
+
+/**
+ * Nombre de una categoría en un idioma
+ *
+ * @param {ICategory} category - Categoría
+ * @param {string} locale - Idioma deseado
+ * @returns {string} Nombre en el idioma o, si no lo tiene, en español
+ */
+export const getCategoryLabel = (category: ICategory, locale: string = DEFAULT_CATEGORY_LOCALE): string =>
+  category.labels.get(locale) || category.labels.get(DEFAULT_CATEGORY_LOCALE) || category.slug;
+
+/**
+ * Nombre de un atributo en un idioma
+ *
+ * @param {ICategoryAttribute} attribute - Atributo
+ * @param {string} locale - Idioma deseado
+ * @returns {string} Nombre en el idioma o, si no lo tiene, en español
+ */
+export const getCategoryAttributeLabel = (attribute: ICategoryAttribute, locale: string = DEFAULT_CATEGORY_LOCALE): string =>
+  attribute.labels.get(locale) || attribute.labels.get(DEFAULT_CATEGORY_LOCALE) || attribute.key;
+
+export default Category;
@@ -0,0 +1,200 @@
+/**
+ * @file Conversation.ts
+ * @description Modelo de datos para conversaciones entre usuarios en Ecommunitas
+ * @module Models/Conversation
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este modelo agrupa los mensajes en hilos independientes:
+ * - Dos participantes por conversación
+ * - Referencia opcional al item sobre el que se conversa
+ * - Un hilo distinto por cada item (y uno general sin item)
+ * - Preferencias por participante: archivada y silenciada
+ * - Marcas de última actividad y última lectura
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Preferencias y estado de un participante en la conversación
+ *
+ * @interface IConversationParticipantState
+ */
+export interface IConversationParticipantState {
+  /** Usuario al que pertenece el estado */
+  user: mongoose.Types.ObjectId;
+  /** Conversación archivada por el usuario */
+  archived: boolean;
+  /** Conversación silenciada por el usuario */
+  muted: boolean;
+  /** Última vez que el usuario leyó la conversación (opcional) */
+  lastReadAt?: Date;
+}
+
+/**
+ * Interfaz TypeScript para el modelo Conversation
+ *
+ * @interface IConversation
+ * @extends Document
+ */
+export interface IConversation extends Document {
+  /** Usuarios que participan en la conversación */
+  participants: mongoose.Types.ObjectId[];
+  /** Item sobre el que trata la conversación (opcional) */
+  item?: mongoose.Types.ObjectId;
+  /** Clave única de participantes + item para evitar hilos duplicados */
+  key: string;
+  /** Estado de cada participante */
+  participantStates: IConversationParticipantState[];
+  /** Último mensaje de la conversación (opcional) */
+  lastMessage?: mongoose.Types.ObjectId;
+  /** Fecha de la última actividad */
+  lastMessageAt: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Construye la clave única de una conversación
+ *
+ * @param {any} userA - Uno de los participantes
+ * @param {any} userB - El otro participante
+ * @param {any} [item] - Item de la conversación (opcional)
+ * @returns {string} Clave independiente del orden de los participantes
+ */
+export const buildConversationKey = (userA: any, userB: any, item?: any): string => {
+  const [first, second] = [String(userA), String(userB)].sort();
+  return `${first}:${second}:${item ? String(item) : 'general'}`;
+};
+
+/**
+ * Esquema de Mongoose para conversaciones
+ *
+ * @description
+ * Define la estructura de datos para conversaciones con:
+ * - Participantes y item de referencia
+ * - Clave única para localizar el hilo de dos usuarios sobre un item
+ * - Estado por participante (archivada, silenciada, última lectura)
+ * - Último mensaje y fecha de última actividad
+ * - Timestamps automáticos
+ */
+const ConversationSchema = new mongoose.Schema({
+  participants: {
+    type: [{
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    }],
+    validate: {
+      validator: (val: mongoose.Types.ObjectId[]) => val.length === 2,
+      message: 'Una conversación debe tener exactamente dos participantes'
+    }
+  },
+  item: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Item'
+  },
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  participantStates: [{
+    _id: false,
+    user: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    archived: {
+      type: Boolean,
+      default: false
+    },
+    muted: {
+      type: Boolean,
+      default: false
+    },
+    lastReadAt: {
+      type: Date
+    }
+  }],
+  lastMessage: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Message'
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Índice para listar las conversaciones de un usuario por actividad reciente;
+// _id desempata el orden de la paginación por cursor
+ConversationSchema.index({ participants: 1, lastMessageAt: -1, _id: -1 });
+
+const Conversation = mongoose.model<IConversation>('Conversation', ConversationSchema);
+
+/**
+ * Obtiene la conversación de dos usuarios sobre un item, creándola si no existe
+ *
+ * @param {any} userA - Uno de los participantes
+ * @param {any} userB - El otro participante
+ * @param {any} [item] - Item de la conversación (opcional)
+ * @returns {Promise<IConversation>} Conversación existente o recién creada
+ *
+ * @description
+ * Usa un upsert sobre la clave única para que dos peticiones simultáneas no
+ * creen hilos duplicados.
+ */
+export const findOrCreateConversation = async (userA: any, userB: any, item?: any): Promise<IConversation> => {
+  const key = buildConversationKey(userA, userB, item);
+
+  const conversation = await Conversation.findOneAndUpdate(
+    { key },
+    {
+      $setOnInsert: {
+        key,
+        participants: [userA, userB],
+        ...(item && { item }),
+        participantStates: [
+          { user: userA, archived: false, muted: false },
+          { user: userB, archived: false, muted: false }
+        ],
+        lastMessageAt: new Date()
+      }
+    },
+    { upsert: true, new: true }
+  );
+
+  return conversation!;
+};
+
+/**
+ * Registra un mensaje nuevo como última actividad de su conversación
+ *
+ * @param {any} conversationId - Conversación del mensaje
+ * @param {any} message - Mensaje recién creado
+ *
+ * @description
+ * Un mensaje nuevo desarchiva la conversación para ambos participantes.
+ */
+export const recordConversationActivity = async (conversationId: any, message: any) => {
+  await Conversation.updateOne(
+    { _id: conversationId },
+    {
+      $set: {
+        lastMessage: message._id,
+        lastMessageAt: message.createdAt,
+        'participantStates.$[].archived': false
+      }
+    }
+  );
+};
+
+export default Conversation;
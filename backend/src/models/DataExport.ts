@@ -0,0 +1,183 @@
+/**
+ * @file DataExport.ts
+ * @description Modelo de datos para las exportaciones de datos personales
+ * @module Models/DataExport
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cada solicitud de "descargar mis datos" crea una exportación que:
+ * - Se genera al momento en cuentas pequeñas o en segundo plano en las grandes
+ * - Guarda el archivo generado (JSON o ZIP) en EXPORT_PATH/personal-data
+ * - Queda disponible para su descarga durante DATA_EXPORT_EXPIRE_DAYS
+ *
+ * Configuración (variables de entorno):
+ * - DATA_EXPORT_EXPIRE_DAYS: Días que se conserva cada archivo (7)
+ * - DATA_EXPORT_SYNC_LIMIT: Artículos y mensajes hasta los que se genera al momento (1000)
+ */
+
+import mongoose, { Document } from 'mongoose';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Formatos de exportación disponibles
+ */
+export const DATA_EXPORT_FORMATS = ['json', 'zip'] as const;
+export type DataExportFormat = typeof DATA_EXPORT_FORMATS[number];
+
+/**
+ * Estados de una exportación
+ */
+export type DataExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Interfaz TypeScript para el modelo DataExport
+ *
+ * @interface IDataExport
+ * @extends Document
+ */
+export interface IDataExport extends Document {
+  /** Usuario cuyos datos se exportan */
+  user: mongoose.Types.ObjectId;
+  /** Formato del archivo */
+  format: DataExportFormat;
+  /** Estado de la generación */
+  status: DataExportStatus;
+  /** Nombre con el que se descarga el archivo */
+  fileName?: string;
+  /** Ruta del archivo en el servidor */
+  filePath?: string;
+  /** Tamaño del archivo en bytes */
+  size?: number;
+  /** Motivo del fallo (si la generación ha fallado) */
+  error?: string;
+  /** Fecha en la que terminó la generación */
+  completedAt?: Date;
+  /** Fecha a partir de la cual el archivo deja de estar disponible */
+  expiresAt?: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para las exportaciones de datos
+ *
+ * @description
+ * Define una exportación con:
+ * - Referencia al usuario y formato
+ * - Estado de la generación y motivo del fallo
+ * - Archivo generado y fecha de caducidad
+ */
+const DataExportSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  format: {
+    type: String,
+    enum: {
+      values: DATA_EXPORT_FORMATS,
+      message: 'Formato de exportación no válido'
+    },
+    default: 'zip'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending'
+  },
+  fileName: String,
+  filePath: {
+    type: String,
+    select: false
+  },
+  size: Number,
+  error: String,
+  completedAt: Date,
+  expiresAt: Date
+}, {
+  timestamps: true,
+  toJSON: {
+    // La ruta del archivo en el servidor nunca se envía al cliente
+    transform: (_doc, ret) => {
+      delete ret.filePath;
+      return ret;
+    }
+  }
+});
+
+// Índice para consultar la última exportación de un usuario
+DataExportSchema.index({ user: 1, createdAt: -1 });
+DataExportSchema.index({ expiresAt: 1 });
+
+const DataExport = mongoose.model<IDataExport>('DataExport', DataExportSchema);
+
+/**
+ * Configuración de las exportaciones leída del entorno
+ */
+export const getDataExportSettings = () => ({
+  directory: path.resolve(process.env.EXPORT_PATH || 'exports', 'personal-data'),
+  expireDays: parseInt(process.env.DATA_EXPORT_EXPIRE_DAYS || '7', 10),
+  syncLimit: parseInt(process.env.DATA_EXPORT_SYNC_LIMIT || '1000', 10)
+});
+
+/**
+ * Obtiene la última exportación de un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @param {boolean} [withFile] - Incluir la ruta del archivo
+ * @returns {Promise<IDataExport | null>} Exportación más reciente o null
+ */
+export const getLatestDataExport = (
+  userId: mongoose.Types.ObjectId | string,
+  withFile = false
+): Promise<IDataExport | null> => {
+  const query = DataExport.findOne({ user: userId }).sort({ createdAt: -1 });
+  return (withFile ? query.select('+filePath') : query).exec();
+};
+
+/**
+ * Elimina las exportaciones caducadas junto con sus archivos
+ *
+ * @returns {Promise<number>} Número de exportaciones eliminadas
+ *
+ * @description
+ * No se usa un índice TTL porque MongoDB borraría el documento pero no el
+ * archivo: se limpian aquí, al solicitar una exportación nueva.
+ */
+export const purgeExpiredDataExports = async (): Promise<number> => {
+  const expired = await DataExport.find({ expiresAt: { $lte: new Date() } }).select('+filePath');
+
+  for (const dataExport of expired) {
+    if (dataExport.filePath) {
+      await fs.rm(dataExport.filePath, { force: true });
+    }
+  }
+
+  const result = await DataExport.deleteMany({ _id: { $in: expired.map(dataExport => dataExport._id) } });
+  return result.deletedCount;
+};
+
+/**
+ * Elimina todas las exportaciones de un usuario junto con sus archivos
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @returns {Promise<void>}
+ */
+export const deleteUserDataExports = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+  const dataExports = await DataExport.find({ user: userId }).select('+filePath');
+
+  for (const dataExport of dataExports) {
+    if (dataExport.filePath) {
+      await fs.rm(dataExport.filePath, { force: true });
+    }
+  }
+
+  await DataExport.deleteMany({ user: userId });
+};
+
+export default DataExport;
@@ -0,0 +1,77 @@
+/**
+ * @file Favorite.ts
+ * @description Modelo de datos para los artículos favoritos de los usuarios
+ * @module Models/Favorite
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Un favorito relaciona a un usuario con un artículo que quiere seguir:
+ * - El usuario consulta sus favoritos desde cualquier dispositivo
+ * - Recibe un aviso cuando el artículo se reserva, se intercambia o se edita
+ * - El propietario del artículo ve cuántos usuarios lo siguen
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Interfaz TypeScript para el modelo Favorite
+ *
+ * @interface IFavorite
+ * @extends Document
+ */
+export interface IFavorite extends Document {
+  /** Usuario que sigue el artículo */
+  user: mongoose.Types.ObjectId;
+  /** Artículo seguido */
+  item: mongoose.Types.ObjectId;
+  /** Fecha en la que se añadió a favoritos */
+  createdAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para los favoritos
+ *
+ * @description
+ * Un usuario solo puede tener cada artículo una vez en favoritos.
+ */
+const FavoriteSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  item: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Índice único para evitar favoritos duplicados y listar los de un usuario
+FavoriteSchema.index({ user: 1, item: 1 }, { unique: true });
+// Índice para contar y avisar a los usuarios que siguen un artículo
+FavoriteSchema.index({ item: 1 });
+
+const Favorite = mongoose.model<IFavorite>('Favorite', FavoriteSchema);
+
+/**
+ * Cuenta los usuarios que siguen cada artículo
+ *
+ * @param {mongoose.Types.ObjectId[]} itemIds - Artículos a consultar
+ * @returns {Promise<Map<string, number>>} Número de favoritos por ID de artículo
+ */
+export const countFavoritesByItem = async (itemIds: mongoose.Types.ObjectId[]): Promise<Map<string, number>> => {
+  const counts = await Favorite.aggregate([
+    { $match: { item: { $in: itemIds } } },
+    { $group: { _id: '$item', count: { $sum: 1 } } }
+  ]);
+
+  return new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+};
+
+export default Favorite;
@@ -7,11 +7,27 @@
  * funcionalidades geoespaciales para búsquedas por ubicación.
  * 
  * Características principales:
- * - Soporte para múltiples categorías y condiciones
- * - Geolocalización opcional con búsquedas por proximidad
+ * - Categorías gestionadas desde el panel de administración (modelo Category)
+ *   y condiciones predefinidas
+ * - Atributos propios de la categoría (autor, talla...) que se validan
+ *   contra la definición de la categoría (ver utils/itemAttributes)
+ * - Geolocalización opcional con búsquedas por proximidad; si el usuario no
+ *   indica coordenadas se obtienen geocodificando la ubicación textual
+ * - Privacidad de la ubicación: coordinates guarda un punto aproximado
+ *   (ver utils/locationPrivacy) y el punto exacto queda en exactCoordinates
  * - Sistema de moderación con estados de aprobación
+ * - Ciclo de vida: draft → active → reserved → traded / withdrawn / expired,
+ *   con transiciones validadas e historial de cambios con marca temporal
  * - Soporte para múltiples imágenes con Cloudinary
  * - Índices optimizados para búsquedas eficientes
+ * - Borrado lógico con papelera: el item eliminado se oculta y puede
+ *   restaurarse hasta que la tarea programada lo purga definitivamente
+ * 
+ * Configuración (variables de entorno):
+ * - ITEM_RESTORE_DAYS: Días durante los que el propietario puede restaurar un item eliminado (30)
+ * - ITEM_PURGE_DAYS: Días tras los que se purgan los items eliminados y sus imágenes (90)
+ * - ITEM_EXPIRE_DAYS: Días sin cambios de estado tras los que un anuncio activo caduca (90, 0 = nunca)
+ * - LOCATION_PRIVACY_GRID_METERS: Lado de la rejilla de las ubicaciones públicas (500)
  * 
  * @author Equipo de Desarrollo Ecommunitas
  * @version 1.0.0
@@ -22,6 +38,62 @@
 // IMPORTACIONES
 // ============================================================================
 import mongoose, { Document } from 'mongoose';
+import { findCategory } from './Category';
+
+// ============================================================================
+// CICLO DE VIDA DEL ITEM
+// ============================================================================
+
+/**
+ * Valor de un atributo de categoría de un item
+ */
+export type ItemAttributeValue = string | number | boolean;
+
+/**
+ * Estados posibles de un item
+ */
+export const ITEM_STATUSES = ['draft', 'active', 'reserved', 'traded', 'withdrawn', 'expired'] as const;
+export type ItemStatus = typeof ITEM_STATUSES[number];
+
+/**
+ * Transiciones de estado permitidas
+ *
+ * @description
+ * - draft: el propietario lo publica o lo descarta
+ * - active: se reserva para alguien, se intercambia, se retira o caduca
+ * - reserved: vuelve a estar activo, se intercambia o se retira
+ * - withdrawn, expired: el propietario puede volver a publicarlo
+ * - traded: estado final
+ */
+export const ITEM_TRANSITIONS: Record<ItemStatus, ItemStatus[]> = {
+  draft: ['active', 'withdrawn'],
+  active: ['reserved', 'traded', 'withdrawn', 'expired'],
+  reserved: ['active', 'traded', 'withdrawn'],
+  traded: [],
+  withdrawn: ['active'],
+  expired: ['active']
+};
+
+/**
+ * Estados con los que se puede crear un item
+ */
+export const INITIAL_ITEM_STATUSES: ItemStatus[] = ['draft', 'active'];
+
+/**
+ * Entrada del historial de estados de un item
+ *
+ * @interface IItemStatusChange
+ */
+export interface IItemStatusChange {
+  /** Estado alcanzado */
+  status: ItemStatus;
+  /** Usuario que provocó el cambio (vacío si lo hizo una tarea programada) */
+  changedBy?: mongoose.Types.ObjectId;
+  /** Usuario para el que se reservó (solo en reservas) */
+  reservedFor?: mongoose.Types.ObjectId;
+  /** Fecha del cambio */
+  changedAt: Date;
+}
 
 // ============================================================================
 // INTERFAZ TYPESCRIPT PARA ITEMS
@@ -38,8 +110,11 @@ export interface IItem extends Document {
   /** Descripción detallada del item (máximo 1000 caracteres) */
   description: string;
   
-  /** Categoría del item - valores predefinidos */
-  category: 'books' | 'electronics' | 'clothing' | 'furniture' | 'other';
+  /** Slug de la categoría del item (colección Category) */
+  category: string;
+  
+  /** Atributos propios de la categoría por clave (autor, talla...) */
+  attributes?: Record<string, ItemAttributeValue>;
   
   /** Condición física del item */
   condition: 'new' | 'like_new' | 'good' | 'fair' | 'poor';
@@ -55,7 +130,14 @@ export interface IItem extends Document {
     type: 'Point';
     coordinates: [number, number] | null;  // [longitud, latitud]
     enabled: boolean;  // Si la geolocalización está activa
+    source: 'user' | 'geocoded';  // Elegidas por el usuario u obtenidas de location
   };
+
+  /**
+   * Punto exacto [longitud, latitud] del que se obtuvo coordinates
+   * Privado: no se selecciona por defecto
+   */
+  exactCoordinates?: [number, number];
   
   /** URLs de las imágenes del item almacenadas en Cloudinary */
   imageUrls: string[];
@@ -66,9 +148,24 @@ export interface IItem extends Document {
   /** Referencia al usuario propietario del item */
   user: mongoose.Types.ObjectId;
   
-  /** Si el item está disponible para intercambio */
+  /**
+   * Si el item está disponible para intercambio
+   * Se deriva de status y moderationStatus al guardar (ver isItemAvailable)
+   */
   available: boolean;
   
+  /** Estado del ciclo de vida del item */
+  status: ItemStatus;
+  
+  /** Usuario para el que está reservado (solo en estado reserved) */
+  reservedFor?: mongoose.Types.ObjectId;
+  
+  /** Fecha del último cambio de estado (se usa para la caducidad) */
+  statusChangedAt: Date;
+  
+  /** Historial de cambios de estado */
+  statusHistory: IItemStatusChange[];
+  
   /** Estado de moderación del item */
   moderationStatus: 'pending' | 'approved' | 'rejected';
   
@@ -81,6 +178,15 @@ export interface IItem extends Document {
   /** Razón del rechazo en caso de moderación negativa (opcional) */
   rejectionReason?: string;
   
+  /** Fecha de eliminación (solo en items enviados a la papelera) */
+  deletedAt?: Date;
+  
+  /** Usuario que eliminó el item: el propietario o un administrador */
+  deletedBy?: mongoose.Types.ObjectId;
+  
+  /** Fecha en que la purga lo archivó en vez de borrarlo (forma parte de intercambios) */
+  archivedAt?: Date;
+  
   /** Fecha de creación (automática) */
   createdAt: Date;
   
@@ -124,12 +230,28 @@ const ItemSchema = new mongoose.Schema({
   /**
    * Categoría del item
    * - Requerida para clasificación
-   * - Valores predefinidos para consistencia
+   * - Slug de una categoría existente (se gestionan desde el panel de
+   *   administración); que esté activa se comprueba al asignarla
    */
   category: {
     type: String,
     required: [true, 'Please select a category'],
-    enum: ['books', 'electronics', 'clothing', 'furniture', 'other']
+    trim: true,
+    lowercase: true,
+    validate: {
+      validator: async (slug: string) => Boolean(await findCategory(slug)),
+      message: 'Categoría no válida'
+    }
+  },
+  
+  /**
+   * Atributos propios de la categoría del item
+   * - Claves y tipos definidos en la categoría; se validan y convierten en
+   *   el controlador porque dependen de la categoría elegida
+   */
+  attributes: {
+    type: mongoose.Schema.Types.Mixed,
+    default: undefined
   },
   
   /**
@@ -168,8 +290,22 @@ const ItemSchema = new mongoose.Schema({
     enabled: {
       type: Boolean,
       default: false
+    },
+    // Origen de las coordenadas: las geocodificadas se recalculan al
+    // cambiar la ubicación textual, las del usuario se respetan
+    source: {
+      type: String,
+      enum: ['user', 'geocoded'],
+      default: 'user'
     }
   },
+  // Punto exacto: solo lo ven el propietario y la otra parte de un
+  // intercambio acordado (coordinates guarda el centro de su celda)
+  exactCoordinates: {
+    type: [Number],
+    default: undefined,
+    select: false
+  },
   // Soporte para múltiples imágenes
   imageUrls: {
     type: [String],
@@ -189,6 +325,40 @@ const ItemSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
+  // Ciclo de vida del item
+  status: {
+    type: String,
+    enum: ITEM_STATUSES,
+    default: 'active'
+  },
+  reservedFor: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User'
+  },
+  statusChangedAt: {
+    type: Date,
+    default: Date.now
+  },
+  statusHistory: [{
+    _id: false,
+    status: {
+      type: String,
+      enum: ITEM_STATUSES,
+      required: true
+    },
+    changedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    },
+    reservedFor: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   // Campos para moderación
   moderationStatus: {
     type: String,
@@ -204,6 +374,17 @@ const ItemSchema = new mongoose.Schema({
   },
   rejectionReason: {
     type: String
+  },
+  // Campos para el borrado lógico
+  deletedAt: {
+    type: Date
+  },
+  deletedBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User'
+  },
+  archivedAt: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -239,12 +420,39 @@ ItemSchema.index({ location: 1 });
 ItemSchema.index({ available: 1, moderationStatus: 1, createdAt: -1 });
 ItemSchema.index({ category: 1, available: 1, moderationStatus: 1 });
 ItemSchema.index({ user: 1, available: 1 });
+ItemSchema.index({ status: 1, moderationStatus: 1, createdAt: -1 });
+
+// Índice para la caducidad de los anuncios activos
+ItemSchema.index({ status: 1, statusChangedAt: 1 });
+
+// Índice para la papelera y la purga de items eliminados
+ItemSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $exists: true } } });
 
 // Virtual para calcular la distancia (se usa en búsquedas geoespaciales)
 ItemSchema.virtual('distance');
 
+/**
+ * Indica si un item está disponible para intercambio
+ * Solo los anuncios activos que no han sido rechazados en moderación
+ *
+ * @param {ItemStatus} status - Estado del ciclo de vida
+ * @param {string} moderationStatus - Estado de moderación
+ * @returns {boolean} Si el item está disponible
+ */
+export const isItemAvailable = (status: ItemStatus, moderationStatus: string): boolean =>
+  status === 'active' && moderationStatus !== 'rejected';
+
 // Middleware pre-save para validaciones adicionales
 ItemSchema.pre('save', function(next) {
+  // available se mantiene sincronizado con el estado para los listados existentes
+  this.available = isItemAvailable(this.status as ItemStatus, this.moderationStatus);
+
+  // El historial empieza con el estado inicial del item
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ status: this.status, changedBy: this.user, changedAt: this.statusChangedAt });
+  }
+  
+
   // Validar que si coordinates.enabled es true, coordinates.coordinates debe existir
   if (this.coordinates && (this.coordinates as any).enabled && (!(this.coordinates as any).coordinates || (this.coordinates as any).coordinates.length !== 2)) {
     const error = new Error('Las coordenadas son requeridas cuando la geolocalización está habilitada');
@@ -263,4 +471,41 @@ ItemSchema.pre('save', function(next) {
   next();
 });
 
-export default mongoose.model<IItem>('Item', ItemSchema);
\ No newline at end of file
+const Item = mongoose.model<IItem>('Item', ItemSchema);
+
+/**
+ * Filtro que excluye los items enviados a la papelera
+ * Se aplica en todos los listados públicos
+ */
+export const NOT_DELETED_FILTER = { deletedAt: { $exists: false } };
+
+/**
+ * Configuración de la papelera leída del entorno
+ *
+ * La purga nunca se adelanta al plazo de restauración del propietario
+ */
+export const getItemDeletionSettings = () => {
+  const restoreDays = parseInt(process.env.ITEM_RESTORE_DAYS || '30', 10);
+  const purgeDays = parseInt(process.env.ITEM_PURGE_DAYS || '90', 10);
+
+  return {
+    restoreDays,
+    purgeDays: Math.max(purgeDays, restoreDays)
+  };
+};
+
+/**
+ * Calcula hasta cuándo puede restaurar el propietario un item eliminado
+ *
+ * @param {Date} deletedAt - Fecha de eliminación
+ * @returns {Date} Fecha límite de restauración
+ */
+export const getRestoreDeadline = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + getItemDeletionSettings().restoreDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Días sin cambios de estado tras los que caduca un anuncio activo (0 = nunca)
+ */
+export const getItemExpireDays = (): number => parseInt(process.env.ITEM_EXPIRE_DAYS || '90', 10);
+
+export default Item;
\ No newline at end of file
@@ -0,0 +1,324 @@
+/**
+ * @file LoginAttempt.ts
+ * @description Modelo de datos para el control de intentos de inicio de sesión
+ * @module Models/LoginAttempt
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Registra los inicios de sesión fallidos por cuenta (email) y por IP para:
+ * - Imponer una espera exponencial entre intentos fallidos consecutivos
+ * - Bloquear temporalmente la cuenta o la IP tras demasiados fallos
+ * - Desbloquear la cuenta con el enlace enviado por email
+ *
+ * Las cuentas se identifican por el email normalizado, de modo que también
+ * se limitan los intentos contra emails que no existen. Los registros
+ * caducan solos cuando pasa el periodo de bloqueo sin nuevos fallos.
+ *
+ * Configuración (variables de entorno):
+ * - LOGIN_MAX_ATTEMPTS: Fallos seguidos que bloquean una cuenta (5)
+ * - LOGIN_MAX_ATTEMPTS_PER_IP: Fallos que bloquean una IP (20)
+ * - LOGIN_LOCKOUT_MINUTES: Duración del bloqueo y de la ventana de fallos (15)
+ * - LOGIN_BACKOFF_BASE_SECONDS: Espera tras el primer fallo, se duplica en cada uno (1)
+ * - LOGIN_BACKOFF_MAX_SECONDS: Espera máxima entre intentos (60)
+ */
+
+import mongoose, { Document } from 'mongoose';
+import crypto from 'crypto';
+
+/**
+ * Ámbito de un registro de intentos: una cuenta o una dirección IP
+ */
+export type LoginAttemptScope = 'account' | 'ip';
+
+/**
+ * Interfaz TypeScript para el modelo LoginAttempt
+ *
+ * @interface ILoginAttempt
+ * @extends Document
+ */
+export interface ILoginAttempt extends Document {
+  /** Ámbito del registro */
+  scope: LoginAttemptScope;
+  /** Email normalizado o dirección IP */
+  key: string;
+  /** Fallos consecutivos dentro de la ventana */
+  failures: number;
+  /** Fecha del último fallo */
+  lastFailureAt: Date;
+  /** Fecha a partir de la cual se admite el siguiente intento */
+  nextAttemptAt: Date;
+  /** Fin del bloqueo temporal (si está bloqueado) */
+  lockedUntil?: Date;
+  /** Hash del token de desbloqueo enviado por email */
+  unlockTokenHash?: string;
+  /** Fecha en la que el registro deja de tener efecto */
+  expiresAt: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Límite que impide intentar el inicio de sesión
+ */
+export interface LoginBlock {
+  /** Ámbito que ha provocado el bloqueo */
+  scope: LoginAttemptScope;
+  /** locked: bloqueo temporal; backoff: espera entre intentos */
+  reason: 'locked' | 'backoff';
+  /** Segundos que quedan hasta poder intentarlo de nuevo */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Esquema de Mongoose para los intentos de inicio de sesión
+ *
+ * @description
+ * Define un contador de fallos con:
+ * - Ámbito y clave (email o IP)
+ * - Número de fallos y fechas de espera y bloqueo
+ * - Hash del token de desbloqueo
+ */
+const LoginAttemptSchema = new mongoose.Schema({
+  scope: {
+    type: String,
+    enum: ['account', 'ip'],
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lastFailureAt: Date,
+  nextAttemptAt: Date,
+  lockedUntil: Date,
+  unlockTokenHash: {
+    type: String,
+    select: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Un único registro por cuenta o IP
+LoginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+LoginAttemptSchema.index({ unlockTokenHash: 1 });
+LoginAttemptSchema.index({ scope: 1, lockedUntil: 1 });
+
+// Los registros sin fallos recientes se eliminan automáticamente
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
+
+/**
+ * Configuración del control de intentos leída del entorno
+ */
+export const getLoginThrottleSettings = () => ({
+  maxAccountFailures: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  maxIpFailures: parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || '20', 10),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+  backoffBaseSeconds: parseFloat(process.env.LOGIN_BACKOFF_BASE_SECONDS || '1'),
+  backoffMaxSeconds: parseFloat(process.env.LOGIN_BACKOFF_MAX_SECONDS || '60')
+});
+
+/**
+ * Normaliza un email para usarlo como clave de cuenta
+ *
+ * @param {string} email - Email introducido en el formulario
+ * @returns {string} Email en minúsculas y sin espacios
+ */
+export const normalizeAccountKey = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Calcula el hash con el que se guarda un token de desbloqueo
+ *
+ * @param {string} unlockToken - Token en claro
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+const hashUnlockToken = (unlockToken: string): string =>
+  crypto.createHash('sha256').update(unlockToken).digest('hex');
+
+/**
+ * Segundos que faltan hasta una fecha (redondeando hacia arriba)
+ */
+const secondsUntil = (date: Date, now: Date): number =>
+  Math.max(Math.ceil((date.getTime() - now.getTime()) / 1000), 1);
+
+/**
+ * Comprueba si alguno de los registros impide intentar el inicio de sesión
+ *
+ * @param {{ scope: LoginAttemptScope, key: string }[]} targets - Cuenta e IP del intento
+ * @returns {Promise<LoginBlock | null>} Límite más restrictivo o null si se puede intentar
+ */
+export const getLoginBlock = async (
+  targets: { scope: LoginAttemptScope; key: string }[]
+): Promise<LoginBlock | null> => {
+  const now = new Date();
+  const attempts = await LoginAttempt.find({
+    $or: targets.map(({ scope, key }) => ({ scope, key })),
+    expiresAt: { $gt: now }
+  });
+
+  let block: LoginBlock | null = null;
+
+  for (const attempt of attempts) {
+    let candidate: LoginBlock | null = null;
+
+    if (attempt.lockedUntil && attempt.lockedUntil > now) {
+      candidate = { scope: attempt.scope, reason: 'locked', retryAfterSeconds: secondsUntil(attempt.lockedUntil, now) };
+    } else if (attempt.nextAttemptAt && attempt.nextAttemptAt > now) {
+      candidate = { scope: attempt.scope, reason: 'backoff', retryAfterSeconds: secondsUntil(attempt.nextAttemptAt, now) };
+    }
+
+    if (candidate && (!block || candidate.retryAfterSeconds > block.retryAfterSeconds)) {
+      block = candidate;
+    }
+  }
+
+  return block;
+};
+
+/**
+ * Anota un inicio de sesión fallido y aplica la espera o el bloqueo que corresponda
+ *
+ * @param {LoginAttemptScope} scope - Cuenta o IP
+ * @param {string} key - Email normalizado o IP
+ * @returns {Promise<{ attempt: ILoginAttempt, lockedNow: boolean }>} Registro actualizado y si el fallo ha provocado el bloqueo
+ *
+ * @description
+ * Tras el fallo n se exige esperar LOGIN_BACKOFF_BASE_SECONDS * 2^(n-1) segundos
+ * (con un máximo de LOGIN_BACKOFF_MAX_SECONDS). Al alcanzar el máximo de fallos
+ * del ámbito, el registro queda bloqueado durante LOGIN_LOCKOUT_MINUTES.
+ */
+export const registerLoginFailure = async (
+  scope: LoginAttemptScope,
+  key: string
+): Promise<{ attempt: ILoginAttempt; lockedNow: boolean }> => {
+  const settings = getLoginThrottleSettings();
+  const now = new Date();
+  const lockoutMs = settings.lockoutMinutes * 60 * 1000;
+
+  // Un registro caducado (aún no eliminado por el índice TTL) vuelve a empezar
+  await LoginAttempt.deleteOne({ scope, key, expiresAt: { $lte: now } });
+
+  /**
+   * El contador se incrementa en una sola operación atómica: los intentos en
+   * paralelo no pierden fallos y el primero de varios simultáneos no choca
+   * con el índice único (MongoDB reintenta el upsert por sí mismo)
+   */
+  const counted = await LoginAttempt.findOneAndUpdate(
+    { scope, key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now },
+      $setOnInsert: { expiresAt: new Date(now.getTime() + lockoutMs) }
+    },
+    { upsert: true, new: true }
+  );
+
+  const backoffSeconds = Math.min(
+    settings.backoffBaseSeconds * Math.pow(2, counted.failures - 1),
+    settings.backoffMaxSeconds
+  );
+
+  let attempt = await LoginAttempt.findOneAndUpdate(
+    { _id: counted._id },
+    {
+      $max: {
+        nextAttemptAt: new Date(now.getTime() + backoffSeconds * 1000),
+        expiresAt: new Date(now.getTime() + lockoutMs)
+      }
+    },
+    { new: true }
+  );
+
+  // Solo bloquea el fallo que encuentra el registro sin bloqueo vigente,
+  // aunque varios alcancen el máximo a la vez (un único email de desbloqueo)
+  const maxFailures = scope === 'account' ? settings.maxAccountFailures : settings.maxIpFailures;
+  let lockedNow = false;
+
+  if (counted.failures >= maxFailures) {
+    const lockedUntil = new Date(now.getTime() + lockoutMs);
+    const locked = await LoginAttempt.findOneAndUpdate(
+      { _id: counted._id, lockedUntil: { $not: { $gt: now } } },
+      { $set: { lockedUntil }, $max: { expiresAt: lockedUntil } },
+      { new: true }
+    );
+
+    if (locked) {
+      attempt = locked;
+      lockedNow = true;
+    }
+  }
+
+  return { attempt: attempt || counted, lockedNow };
+};
+
+/**
+ * Olvida los fallos de una cuenta o IP (tras un inicio de sesión correcto)
+ *
+ * @param {LoginAttemptScope} scope - Cuenta o IP
+ * @param {string} key - Email normalizado o IP
+ * @returns {Promise<void>}
+ */
+export const clearLoginFailures = async (scope: LoginAttemptScope, key: string): Promise<void> => {
+  await LoginAttempt.deleteOne({ scope, key });
+};
+
+/**
+ * Genera el token de desbloqueo de una cuenta bloqueada
+ *
+ * @param {ILoginAttempt} attempt - Registro de la cuenta bloqueada
+ * @returns {Promise<string>} Token en claro (solo se envía por email)
+ */
+export const createUnlockToken = async (attempt: ILoginAttempt): Promise<string> => {
+  const unlockToken = crypto.randomBytes(20).toString('hex');
+
+  attempt.unlockTokenHash = hashUnlockToken(unlockToken);
+  await attempt.save();
+
+  return unlockToken;
+};
+
+/**
+ * Desbloquea la cuenta asociada a un token de desbloqueo
+ *
+ * @param {string} unlockToken - Token recibido por email
+ * @returns {Promise<string | null>} Email de la cuenta desbloqueada o null si el token no es válido
+ */
+export const unlockAccountByToken = async (unlockToken: string): Promise<string | null> => {
+  const attempt = await LoginAttempt.findOne({
+    scope: 'account',
+    unlockTokenHash: hashUnlockToken(unlockToken),
+    lockedUntil: { $gt: new Date() }
+  });
+
+  if (!attempt) {
+    return null;
+  }
+
+  await attempt.deleteOne();
+  return attempt.key;
+};
+
+/**
+ * Obtiene los bloqueos de cuenta vigentes
+ *
+ * @returns {Promise<ILoginAttempt[]>} Registros de cuentas bloqueadas, el bloqueo más reciente primero
+ */
+export const getLockedAccounts = (): Promise<ILoginAttempt[]> =>
+  LoginAttempt.find({ scope: 'account', lockedUntil: { $gt: new Date() } })
+    .sort({ lockedUntil: -1 })
+    .exec();
+
+export default LoginAttempt;
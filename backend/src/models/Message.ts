@@ -9,6 +9,7 @@
  * Este modelo define la estructura para el sistema de mensajería:
  * - Mensajes privados entre usuarios
  * - Asociación opcional con items específicos
+ * - Pertenencia a una conversación (hilo por participantes + item)
  * - Estado de lectura para notificaciones
  * - Índices optimizados para conversaciones
  * - Timestamps automáticos
@@ -31,6 +32,8 @@ export interface IMessage extends Document {
   content: string;
   /** ID del item asociado al mensaje (opcional) */
   item?: mongoose.Types.ObjectId;
+  /** ID de la conversación a la que pertenece el mensaje (opcional en mensajes antiguos) */
+  conversation?: mongoose.Types.ObjectId;
   /** Estado de lectura del mensaje */
   read: boolean;
   /** Fecha de creación del mensaje */
@@ -72,6 +75,10 @@ const MessageSchema = new mongoose.Schema({
     ref: 'Item',
     required: false // Un mensaje no siempre está asociado a un item
   },
+  conversation: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Conversation'
+  },
   read: {
     type: Boolean,
     default: false
@@ -89,4 +96,10 @@ const MessageSchema = new mongoose.Schema({
 // Índice compuesto para búsquedas eficientes de conversaciones
 MessageSchema.index({ sender: 1, recipient: 1, createdAt: -1 });
 
+// Índice para contar mensajes no leídos (bandeja de entrada y contadores)
+MessageSchema.index({ recipient: 1, read: 1 });
+
+// Índice para paginar los mensajes de una conversación
+MessageSchema.index({ conversation: 1, createdAt: -1 });
+
 export default mongoose.model<IMessage>('Message', MessageSchema);
\ No newline at end of file
@@ -0,0 +1,129 @@
+/**
+ * @file Notification.ts
+ * @description Modelo de datos para las notificaciones de la aplicación
+ * @module Models/Notification
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Las notificaciones quedan guardadas para que el usuario las vea en el
+ * centro de notificaciones aunque no estuviera conectado cuando ocurrieron:
+ * - message: Mensaje nuevo en una conversación no silenciada
+ * - item_approved / item_rejected: Resultado de la moderación de un artículo
+ * - favorite_update: Un artículo favorito se ha reservado, intercambiado o editado
+ * - search_match: Artículo nuevo que coincide con una búsqueda guardada
+ * - admin_broadcast: Aviso enviado por un administrador
+ *
+ * Configuración (variables de entorno):
+ * - NOTIFICATION_RETENTION_DAYS: Días que se conservan las notificaciones leídas (90)
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Tipos de notificación
+ */
+export const NOTIFICATION_TYPES = [
+  'message',
+  'item_approved',
+  'item_rejected',
+  'favorite_update',
+  'search_match',
+  'admin_broadcast'
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+/**
+ * Interfaz TypeScript para el modelo Notification
+ *
+ * @interface INotification
+ * @extends Document
+ */
+export interface INotification extends Document {
+  /** Destinatario */
+  user: mongoose.Types.ObjectId;
+  /** Tipo de notificación */
+  type: NotificationType;
+  /** Texto principal */
+  title: string;
+  /** Texto secundario (opcional) */
+  body?: string;
+  /** Ruta del frontend a la que lleva la notificación (opcional) */
+  link?: string;
+  /** Datos del evento que la originó (IDs, estados, etc.) */
+  payload: Record<string, any>;
+  /** Leída por el destinatario */
+  read: boolean;
+  /** Fecha de lectura */
+  readAt?: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para las notificaciones
+ */
+const NotificationSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 200
+  },
+  body: {
+    type: String,
+    maxlength: 1000
+  },
+  link: String,
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  minimize: false
+});
+
+// Índice para listar las notificaciones de un usuario
+NotificationSchema.index({ user: 1, createdAt: -1 });
+// Índice para contar las no leídas
+NotificationSchema.index({ user: 1, read: 1 });
+
+const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
+
+/**
+ * Días que se conservan las notificaciones leídas
+ *
+ * @returns {number} Días de conservación
+ */
+export const getNotificationRetentionDays = (): number =>
+  parseInt(process.env.NOTIFICATION_RETENTION_DAYS || '90', 10);
+
+/**
+ * Cuenta las notificaciones sin leer de un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @returns {Promise<number>} Notificaciones sin leer
+ */
+export const countUnreadNotifications = (userId: mongoose.Types.ObjectId | string): Promise<number> =>
+  Notification.countDocuments({ user: userId, read: false });
+
+export default Notification;
@@ -0,0 +1,167 @@
+/**
+ * @file Report.ts
+ * @description Modelo de datos para denuncias de contenido en Ecommunitas
+ * @module Models/Report
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este modelo define las denuncias que los usuarios envían a moderación:
+ * - Contenido denunciado: un item, un usuario o un mensaje concreto
+ * - Motivo de la denuncia por categorías y detalles opcionales
+ * - Estado de la denuncia (pendiente, resuelta o desestimada)
+ * - Resolución con la acción aplicada y el administrador que la gestionó
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Tipos de contenido que pueden denunciarse
+ */
+export const REPORT_TARGET_TYPES = ['item', 'user', 'message'] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+/**
+ * Categorías de motivo de una denuncia
+ */
+export const REPORT_REASONS = [
+  'spam',
+  'inappropriate',
+  'fraud',
+  'harassment',
+  'prohibited_item',
+  'other'
+] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+/**
+ * Acciones con las que un administrador puede resolver una denuncia
+ */
+export const REPORT_ACTIONS = ['dismiss', 'hide_item', 'suspend_user'] as const;
+export type ReportAction = typeof REPORT_ACTIONS[number];
+
+/**
+ * Modelo de Mongoose de cada tipo de contenido denunciable
+ */
+export const REPORT_TARGET_MODELS: Record<ReportTargetType, string> = {
+  item: 'Item',
+  user: 'User',
+  message: 'Message'
+};
+
+/**
+ * Interfaz TypeScript para el modelo Report
+ *
+ * @interface IReport
+ * @extends Document
+ */
+export interface IReport extends Document {
+  /** Usuario que envía la denuncia */
+  reporter: mongoose.Types.ObjectId;
+  /** Tipo de contenido denunciado */
+  targetType: ReportTargetType;
+  /** Modelo de Mongoose del contenido denunciado (para populate) */
+  targetModel: string;
+  /** Contenido denunciado */
+  target: mongoose.Types.ObjectId;
+  /** Motivo de la denuncia */
+  reason: ReportReason;
+  /** Explicación adicional del usuario (opcional) */
+  details?: string;
+  /** Estado de la denuncia */
+  status: 'pending' | 'resolved' | 'dismissed';
+  /** Resolución aplicada por un administrador */
+  resolution?: {
+    action: ReportAction;
+    note?: string;
+    resolvedBy: mongoose.Types.ObjectId;
+    resolvedAt: Date;
+  };
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para denuncias
+ *
+ * @description
+ * Define la estructura de datos para denuncias con:
+ * - Referencia polimórfica al contenido denunciado (refPath)
+ * - Motivo, detalles y estado
+ * - Resolución con acción, nota, administrador y fecha
+ * - Timestamps automáticos
+ */
+const ReportSchema = new mongoose.Schema({
+  reporter: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: {
+      values: REPORT_TARGET_TYPES,
+      message: 'Tipo de contenido denunciado no válido'
+    },
+    required: [true, 'Debes indicar qué contenido denuncias']
+  },
+  targetModel: {
+    type: String,
+    enum: Object.values(REPORT_TARGET_MODELS),
+    required: true
+  },
+  target: {
+    type: mongoose.Schema.ObjectId,
+    refPath: 'targetModel',
+    required: [true, 'Debes indicar qué contenido denuncias']
+  },
+  reason: {
+    type: String,
+    enum: {
+      values: REPORT_REASONS,
+      message: 'Motivo de denuncia no válido'
+    },
+    required: [true, 'Por favor indica el motivo de la denuncia']
+  },
+  details: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Los detalles no pueden tener más de 1000 caracteres']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'resolved', 'dismissed'],
+    default: 'pending'
+  },
+  resolution: {
+    action: {
+      type: String,
+      enum: REPORT_ACTIONS
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'La nota no puede tener más de 500 caracteres']
+    },
+    resolvedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User'
+    },
+    resolvedAt: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Índice para la cola de moderación (denuncias pendientes, más antiguas primero)
+ReportSchema.index({ status: 1, createdAt: 1 });
+// Índice para localizar las denuncias de un mismo contenido
+ReportSchema.index({ targetType: 1, target: 1, status: 1 });
+// Índice para evitar denuncias pendientes duplicadas del mismo usuario
+ReportSchema.index({ reporter: 1, target: 1, status: 1 });
+
+const Report = mongoose.model<IReport>('Report', ReportSchema);
+
+export default Report;
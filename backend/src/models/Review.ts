@@ -0,0 +1,128 @@
+/**
+ * @file Review.ts
+ * @description Modelo de datos para valoraciones entre usuarios en Ecommunitas
+ * @module Models/Review
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este modelo define la reputación de los usuarios:
+ * - Puntuación de 1 a 5 con comentario opcional
+ * - Referencia al item sobre el que se trató y, si lo hubo, al intercambio
+ * - Una sola valoración por autor, usuario valorado e item
+ * - Resumen agregado (media y número de valoraciones) por usuario
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Interfaz TypeScript para el modelo Review
+ *
+ * @interface IReview
+ * @extends Document
+ */
+export interface IReview extends Document {
+  /** Usuario que escribe la valoración */
+  reviewer: mongoose.Types.ObjectId;
+  /** Usuario valorado */
+  reviewee: mongoose.Types.ObjectId;
+  /** Puntuación de 1 a 5 */
+  rating: number;
+  /** Comentario de la valoración (opcional) */
+  comment?: string;
+  /** Item sobre el que conversaron ambos usuarios */
+  item: mongoose.Types.ObjectId;
+  /** Intercambio valorado (opcional) */
+  trade?: mongoose.Types.ObjectId;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Resumen de la reputación de un usuario
+ *
+ * @interface IRatingSummary
+ */
+export interface IRatingSummary {
+  /** Media de las puntuaciones redondeada a un decimal (0 si no hay valoraciones) */
+  average: number;
+  /** Número de valoraciones recibidas */
+  count: number;
+}
+
+/**
+ * Esquema de Mongoose para valoraciones
+ *
+ * @description
+ * Define la estructura de datos para valoraciones con:
+ * - Autor y usuario valorado
+ * - Puntuación entera entre 1 y 5
+ * - Item e intercambio de referencia
+ * - Timestamps automáticos
+ */
+const ReviewSchema = new mongoose.Schema({
+  reviewer: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reviewee: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Por favor añade una puntuación'],
+    min: [1, 'La puntuación mínima es 1'],
+    max: [5, 'La puntuación máxima es 5'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'La puntuación debe ser un número entero'
+    }
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El comentario no puede tener más de 500 caracteres']
+  },
+  item: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Item',
+    required: [true, 'Debes indicar el artículo o el intercambio valorado']
+  },
+  trade: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Trade'
+  }
+}, {
+  timestamps: true
+});
+
+// Una valoración por autor, usuario valorado e item
+ReviewSchema.index({ reviewer: 1, reviewee: 1, item: 1 }, { unique: true });
+// Índice para listar las valoraciones recibidas por un usuario
+ReviewSchema.index({ reviewee: 1, createdAt: -1 });
+
+const Review = mongoose.model<IReview>('Review', ReviewSchema);
+
+/**
+ * Calcula la reputación agregada de un usuario
+ *
+ * @param {any} userId - Usuario valorado
+ * @returns {Promise<IRatingSummary>} Media y número de valoraciones
+ */
+export const getRatingSummary = async (userId: any): Promise<IRatingSummary> => {
+  const [summary] = await Review.aggregate([
+    { $match: { reviewee: new mongoose.Types.ObjectId(String(userId)) } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } }
+  ]);
+
+  return summary
+    ? { average: Math.round(summary.average * 10) / 10, count: summary.count }
+    : { average: 0, count: 0 };
+};
+
+export default Review;
@@ -0,0 +1,208 @@
+/**
+ * @file SavedSearch.ts
+ * @description Modelo de datos para las búsquedas guardadas de los usuarios
+ * @module Models/SavedSearch
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Una búsqueda guardada conserva los filtros de searchItems (texto, categoría,
+ * condición, ubicación y proximidad) para avisar al usuario cuando se publica
+ * un artículo que coincide:
+ * - Al aprobar un artículo se comprueba contra las búsquedas guardadas
+ * - Las coincidencias se guardan en la búsqueda y se avisan en la aplicación
+ * - Opcionalmente se envían en un resumen por email periódico
+ *
+ * Configuración (variables de entorno):
+ * - SAVED_SEARCH_MAX_PER_USER: Búsquedas guardadas por usuario (20)
+ * - SAVED_SEARCH_DIGEST_HOURS: Horas mínimas entre resúmenes por email (24)
+ */
+
+import mongoose, { Document } from 'mongoose';
+import { findCategory } from './Category';
+
+/**
+ * Coincidencias que se conservan por búsqueda (las más recientes)
+ */
+export const SAVED_SEARCH_MAX_MATCHES = 50;
+
+/**
+ * Filtros de una búsqueda guardada (mismos nombres que los de searchItems)
+ */
+export interface ISavedSearchFilters {
+  q?: string;
+  category?: string;
+  condition?: string;
+  location?: string;
+  lat?: number;
+  lng?: number;
+  distance?: number;
+}
+
+/**
+ * Artículo que coincidió con una búsqueda guardada
+ */
+export interface ISavedSearchMatch {
+  /** Artículo publicado */
+  item: mongoose.Types.ObjectId;
+  /** Fecha en la que se detectó la coincidencia */
+  matchedAt: Date;
+}
+
+/**
+ * Interfaz TypeScript para el modelo SavedSearch
+ *
+ * @interface ISavedSearch
+ * @extends Document
+ */
+export interface ISavedSearch extends Document {
+  /** Propietario de la búsqueda */
+  user: mongoose.Types.ObjectId;
+  /** Nombre con el que el usuario identifica la búsqueda */
+  name: string;
+  /** Filtros de la búsqueda */
+  filters: ISavedSearchFilters;
+  /** Incluir las coincidencias en el resumen por email */
+  emailDigest: boolean;
+  /** Coincidencias más recientes */
+  matches: ISavedSearchMatch[];
+  /** Última vez que el usuario revisó las coincidencias */
+  lastSeenAt: Date;
+  /** Último resumen por email enviado con esta búsqueda */
+  lastDigestAt?: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para las búsquedas guardadas
+ *
+ * @description
+ * Define una búsqueda guardada con:
+ * - Referencia al usuario y nombre
+ * - Filtros de la búsqueda con las mismas restricciones que searchItems
+ * - Coincidencias y fechas de revisión y de resumen
+ */
+const SavedSearchSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Por favor añade un nombre a la búsqueda'],
+    trim: true,
+    maxlength: [100, 'El nombre no puede tener más de 100 caracteres']
+  },
+  filters: {
+    q: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'El texto de búsqueda no puede tener más de 100 caracteres']
+    },
+    category: {
+      type: String,
+      lowercase: true,
+      validate: {
+        validator: async (slug: string) => Boolean(await findCategory(slug)),
+        message: 'Categoría no válida'
+      }
+    },
+    condition: {
+      type: String,
+      enum: {
+        values: ['new', 'like_new', 'good', 'fair', 'poor'],
+        message: 'Condición no válida'
+      }
+    },
+    location: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'La ubicación no puede tener más de 100 caracteres']
+    },
+    lat: {
+      type: Number,
+      min: [-90, 'La latitud debe estar entre -90 y 90'],
+      max: [90, 'La latitud debe estar entre -90 y 90']
+    },
+    lng: {
+      type: Number,
+      min: [-180, 'La longitud debe estar entre -180 y 180'],
+      max: [180, 'La longitud debe estar entre -180 y 180']
+    },
+    distance: {
+      type: Number,
+      min: [1, 'La distancia debe ser de al menos 1 km'],
+      max: [500, 'La distancia no puede ser mayor de 500 km']
+    }
+  },
+  emailDigest: {
+    type: Boolean,
+    default: false
+  },
+  matches: [{
+    _id: false,
+    item: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'Item',
+      required: true
+    },
+    matchedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastDigestAt: Date
+}, {
+  timestamps: true
+});
+
+// Índice para listar las búsquedas de un usuario
+SavedSearchSchema.index({ user: 1, createdAt: -1 });
+// Índice para preseleccionar las búsquedas candidatas al publicar un artículo
+SavedSearchSchema.index({ 'filters.category': 1 });
+// Índice para el resumen por email
+SavedSearchSchema.index({ emailDigest: 1, 'matches.matchedAt': 1 });
+
+/**
+ * Comprueba que las coordenadas de una búsqueda vienen juntas
+ */
+SavedSearchSchema.pre('validate', function(next) {
+  const hasLat = this.filters?.lat !== undefined && this.filters?.lat !== null;
+  const hasLng = this.filters?.lng !== undefined && this.filters?.lng !== null;
+
+  if (hasLat !== hasLng) {
+    this.invalidate('filters.lat', 'La latitud y la longitud deben indicarse juntas');
+  }
+  next();
+});
+
+const SavedSearch = mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
+
+/**
+ * Configuración de las búsquedas guardadas leída del entorno
+ *
+ * @returns {{maxPerUser: number, digestHours: number}} Límite por usuario y horas entre resúmenes
+ */
+export const getSavedSearchSettings = () => ({
+  maxPerUser: parseInt(process.env.SAVED_SEARCH_MAX_PER_USER || '20', 10),
+  digestHours: parseInt(process.env.SAVED_SEARCH_DIGEST_HOURS || '24', 10)
+});
+
+/**
+ * Cuenta las coincidencias que el usuario todavía no ha revisado
+ *
+ * @param {ISavedSearch} search - Búsqueda guardada
+ * @returns {number} Coincidencias posteriores a lastSeenAt
+ */
+export const countNewMatches = (search: ISavedSearch): number =>
+  search.matches.filter(match => match.matchedAt > search.lastSeenAt).length;
+
+export default SavedSearch;
@@ -0,0 +1,269 @@
+/**
+ * @file Session.ts
+ * @description Modelo de datos para las sesiones de usuario de Ecommunitas
+ * @module Models/Session
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cada inicio de sesión crea una sesión en el servidor que permite:
+ * - Renovar el token de acceso (de corta duración) con un refresh token rotatorio
+ * - Guardar solo el hash del refresh token, nunca el token en claro
+ * - Mostrar al usuario sus dispositivos conectados (navegador, IP, último uso)
+ * - Revocar una sesión concreta o todas las del usuario
+ *
+ * El token de acceso lleva el ID de su sesión, de modo que el middleware
+ * protect rechaza los tokens de sesiones revocadas aunque no hayan caducado.
+ */
+
+import mongoose, { Document } from 'mongoose';
+import crypto from 'crypto';
+
+/**
+ * Interfaz TypeScript para el modelo Session
+ *
+ * @interface ISession
+ * @extends Document
+ */
+export interface ISession extends Document {
+  /** Usuario propietario de la sesión */
+  user: mongoose.Types.ObjectId;
+  /** Hash SHA-256 del refresh token vigente */
+  refreshTokenHash: string;
+  /** Hash del refresh token anterior (para detectar reutilización) */
+  previousRefreshTokenHash?: string;
+  /** Fecha de la última rotación del refresh token */
+  rotatedAt?: Date;
+  /** User-Agent del dispositivo que inició la sesión */
+  userAgent?: string;
+  /** Descripción legible del dispositivo (navegador y sistema) */
+  deviceName: string;
+  /** Última IP desde la que se usó la sesión */
+  ipAddress?: string;
+  /** Fecha del último uso (inicio o renovación) */
+  lastUsedAt: Date;
+  /** Fecha de caducidad del refresh token */
+  expiresAt: Date;
+  /** Fecha de revocación (si la sesión se ha cerrado) */
+  revokedAt?: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Metadatos del dispositivo que inicia o renueva una sesión
+ */
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Esquema de Mongoose para las sesiones
+ *
+ * @description
+ * Define una sesión con:
+ * - Referencia al usuario
+ * - Hash del refresh token vigente y del anterior
+ * - Metadatos del dispositivo
+ * - Fechas de uso, caducidad y revocación
+ */
+const SessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    select: false
+  },
+  rotatedAt: Date,
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  deviceName: {
+    type: String,
+    default: 'Dispositivo desconocido'
+  },
+  ipAddress: String,
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date
+}, {
+  timestamps: true
+});
+
+// Índices para búsquedas por token y listados por usuario
+SessionSchema.index({ refreshTokenHash: 1 });
+SessionSchema.index({ previousRefreshTokenHash: 1 });
+SessionSchema.index({ user: 1, revokedAt: 1 });
+
+// Las sesiones caducadas se eliminan automáticamente
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>('Session', SessionSchema);
+
+/**
+ * Días de validez de un refresh token (REFRESH_TOKEN_EXPIRE_DAYS, 30 por defecto)
+ */
+export const getRefreshTokenExpireDays = (): number =>
+  parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS || '30', 10);
+
+/**
+ * Segundos tras una rotación en los que el refresh token anterior no se
+ * trata como reutilizado (REFRESH_TOKEN_GRACE_SECONDS, 30 por defecto)
+ *
+ * Varias pestañas comparten el mismo refresh token: si dos renuevan a la vez,
+ * la segunda presenta el token que la primera acaba de rotar.
+ */
+export const getRefreshTokenGraceSeconds = (): number =>
+  parseInt(process.env.REFRESH_TOKEN_GRACE_SECONDS || '30', 10);
+
+/**
+ * Calcula el hash con el que se guarda un refresh token
+ *
+ * @param {string} refreshToken - Token en claro
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+export const hashRefreshToken = (refreshToken: string): string =>
+  crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+/**
+ * Genera un refresh token aleatorio
+ *
+ * @returns {string} Token en claro (solo se entrega al cliente)
+ */
+const generateRefreshToken = (): string => crypto.randomBytes(40).toString('hex');
+
+/**
+ * Obtiene una descripción legible del dispositivo a partir del User-Agent
+ *
+ * @param {string} [userAgent] - Cabecera User-Agent
+ * @returns {string} Navegador y sistema operativo, por ejemplo "Chrome en Windows"
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) {
+    return 'Dispositivo desconocido';
+  }
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari']
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} en ${system}`;
+  }
+  return browser || system || 'Dispositivo desconocido';
+};
+
+/**
+ * Crea una sesión nueva para un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario que inicia sesión
+ * @param {SessionClientInfo} client - User-Agent e IP del dispositivo
+ * @returns {Promise<{ session: ISession, refreshToken: string }>} Sesión creada y refresh token en claro
+ */
+export const createSession = async (
+  userId: mongoose.Types.ObjectId | string,
+  client: SessionClientInfo
+): Promise<{ session: ISession; refreshToken: string }> => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await Session.create({
+    user: userId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    userAgent: client.userAgent?.slice(0, 500),
+    deviceName: describeUserAgent(client.userAgent),
+    ipAddress: client.ipAddress,
+    expiresAt: new Date(Date.now() + getRefreshTokenExpireDays() * 24 * 60 * 60 * 1000)
+  });
+
+  return { session, refreshToken };
+};
+
+/**
+ * Sustituye el refresh token de una sesión por uno nuevo
+ *
+ * @param {ISession} session - Sesión activa (con refreshTokenHash seleccionado)
+ * @param {SessionClientInfo} client - User-Agent e IP del dispositivo
+ * @returns {Promise<string | null>} Nuevo refresh token en claro, o null si otra
+ * petición ya rotó el token presentado
+ *
+ * @description
+ * El token anterior se conserva como previousRefreshTokenHash: si alguien
+ * vuelve a presentarlo pasado el margen de getRefreshTokenGraceSeconds es
+ * que se ha filtrado y la sesión se revoca. La rotación es una única
+ * actualización condicionada al hash presentado, de modo que dos renovaciones
+ * simultáneas con el mismo token no se pisan: solo una de ellas rota.
+ */
+export const rotateSessionToken = async (session: ISession, client: SessionClientInfo): Promise<string | null> => {
+  const refreshToken = generateRefreshToken();
+  const now = new Date();
+
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: session.refreshTokenHash, revokedAt: { $exists: false } },
+    {
+      $set: {
+        previousRefreshTokenHash: session.refreshTokenHash,
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        rotatedAt: now,
+        lastUsedAt: now,
+        ipAddress: client.ipAddress || session.ipAddress
+      }
+    },
+    { new: true }
+  );
+
+  return rotated ? refreshToken : null;
+};
+
+/**
+ * Revoca todas las sesiones activas de un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario cuyas sesiones se cierran
+ * @param {mongoose.Types.ObjectId | string} [exceptSessionId] - Sesión que se mantiene abierta
+ * @returns {Promise<number>} Número de sesiones revocadas
+ */
+export const revokeUserSessions = async (
+  userId: mongoose.Types.ObjectId | string,
+  exceptSessionId?: mongoose.Types.ObjectId | string
+): Promise<number> => {
+  const filter: Record<string, any> = { user: userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(filter, { $set: { revokedAt: new Date() } });
+  return result.modifiedCount;
+};
+
+export default Session;
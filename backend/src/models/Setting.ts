@@ -0,0 +1,65 @@
+/**
+ * @file Setting.ts
+ * @description Modelo de datos para la configuración del sistema de Ecommunitas
+ * @module Models/Setting
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este modelo almacena la configuración editable desde el panel de administración:
+ * - Un documento por clave de configuración
+ * - Valor libre validado por el controlador contra los valores por defecto
+ * - Registro del administrador que realizó el último cambio
+ * - Timestamps automáticos
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Interfaz TypeScript para el modelo Setting
+ *
+ * @interface ISetting
+ * @extends Document
+ */
+export interface ISetting extends Document {
+  /** Clave única de la configuración */
+  key: string;
+  /** Valor de la configuración */
+  value: any;
+  /** Administrador que realizó el último cambio (opcional) */
+  updatedBy?: mongoose.Types.ObjectId;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para la configuración del sistema
+ *
+ * @description
+ * Define un almacén clave/valor con:
+ * - Clave única indexada
+ * - Valor de tipo mixto
+ * - Referencia al administrador que lo modificó
+ */
+const SettingSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  value: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  updatedBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<ISetting>('Setting', SettingSchema);
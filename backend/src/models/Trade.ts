@@ -0,0 +1,188 @@
+/**
+ * @file Trade.ts
+ * @description Modelo de datos para propuestas de intercambio entre usuarios
+ * @module Models/Trade
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este modelo define la estructura de un intercambio (trueque):
+ * - El proponente ofrece uno o varios de sus items
+ * - A cambio solicita un item de otro usuario
+ * - Ciclo de vida: proposed → accepted/rejected/countered → completed/cancelled
+ * - Las contraofertas se enlazan con la propuesta original
+ * - Historial de cambios de estado con marca temporal
+ */
+
+import mongoose, { Document } from 'mongoose';
+
+/**
+ * Estados posibles de un intercambio
+ */
+export type TradeStatus = 'proposed' | 'accepted' | 'rejected' | 'countered' | 'completed' | 'cancelled';
+
+/**
+ * Transiciones de estado permitidas
+ *
+ * @description
+ * - proposed: el destinatario acepta, rechaza o contraoferta; el proponente cancela
+ * - accepted: cualquiera de las partes completa o cancela
+ * - rejected, countered, completed, cancelled: estados finales
+ */
+export const TRADE_TRANSITIONS: Record<TradeStatus, TradeStatus[]> = {
+  proposed: ['accepted', 'rejected', 'countered', 'cancelled'],
+  accepted: ['completed', 'cancelled'],
+  rejected: [],
+  countered: [],
+  completed: [],
+  cancelled: []
+};
+
+/**
+ * Estados en los que un intercambio sigue abierto
+ */
+export const OPEN_TRADE_STATUSES: TradeStatus[] = ['proposed', 'accepted'];
+
+/**
+ * Estados en los que las partes han acordado el intercambio
+ * (a partir de ellos cada parte ve la ubicación exacta de los artículos)
+ */
+export const AGREED_TRADE_STATUSES: TradeStatus[] = ['accepted', 'completed'];
+
+/**
+ * Entrada del historial de estados de un intercambio
+ *
+ * @interface ITradeStatusChange
+ */
+export interface ITradeStatusChange {
+  /** Estado alcanzado */
+  status: TradeStatus;
+  /** Usuario que provocó el cambio */
+  changedBy: mongoose.Types.ObjectId;
+  /** Fecha del cambio */
+  changedAt: Date;
+}
+
+/**
+ * Interfaz TypeScript para el modelo Trade
+ *
+ * @interface ITrade
+ * @extends Document
+ */
+export interface ITrade extends Document {
+  /** Usuario que propone el intercambio */
+  proposer: mongoose.Types.ObjectId;
+  /** Usuario propietario del item solicitado */
+  recipient: mongoose.Types.ObjectId;
+  /** Items que ofrece el proponente */
+  offeredItems: mongoose.Types.ObjectId[];
+  /** Item que solicita el proponente */
+  requestedItem: mongoose.Types.ObjectId;
+  /** Mensaje opcional que acompaña a la propuesta */
+  message?: string;
+  /** Estado actual del intercambio */
+  status: TradeStatus;
+  /** Propuesta original a la que responde esta contraoferta (opcional) */
+  counterOf?: mongoose.Types.ObjectId;
+  /** Contraoferta generada a partir de esta propuesta (opcional) */
+  counteredBy?: mongoose.Types.ObjectId;
+  /** Historial de cambios de estado */
+  statusHistory: ITradeStatusChange[];
+  /** Fecha de finalización del intercambio (opcional) */
+  completedAt?: Date;
+  /** Fecha de creación */
+  createdAt: Date;
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Esquema de Mongoose para intercambios
+ *
+ * @description
+ * Define la estructura de datos para intercambios con:
+ * - Referencias a ambos usuarios y a los items implicados
+ * - Estado con valores predefinidos
+ * - Enlace entre propuestas y contraofertas
+ * - Historial de estados
+ * - Timestamps automáticos
+ */
+const TradeSchema = new mongoose.Schema({
+  proposer: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recipient: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  offeredItems: {
+    type: [{
+      type: mongoose.Schema.ObjectId,
+      ref: 'Item'
+    }],
+    validate: {
+      validator: (val: mongoose.Types.ObjectId[]) => val.length > 0 && val.length <= 5,
+      message: 'Debes ofrecer entre 1 y 5 artículos'
+    }
+  },
+  requestedItem: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Item',
+    required: [true, 'Debes indicar el artículo que solicitas']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'El mensaje no puede tener más de 500 caracteres']
+  },
+  status: {
+    type: String,
+    enum: ['proposed', 'accepted', 'rejected', 'countered', 'completed', 'cancelled'],
+    default: 'proposed'
+  },
+  counterOf: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Trade'
+  },
+  counteredBy: {
+    type: mongoose.Schema.ObjectId,
+    ref: 'Trade'
+  },
+  statusHistory: [{
+    _id: false,
+    status: {
+      type: String,
+      enum: ['proposed', 'accepted', 'rejected', 'countered', 'completed', 'cancelled'],
+      required: true
+    },
+    changedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Índices para listar los intercambios de cada usuario
+TradeSchema.index({ proposer: 1, status: 1, createdAt: -1 });
+TradeSchema.index({ recipient: 1, status: 1, createdAt: -1 });
+
+// Índices para localizar intercambios abiertos que implican un item
+TradeSchema.index({ requestedItem: 1, status: 1 });
+TradeSchema.index({ offeredItems: 1, status: 1 });
+
+export default mongoose.model<ITrade>('Trade', TradeSchema);
@@ -7,7 +7,10 @@
  * - Autenticación con hash de contraseñas
  * - Generación de tokens JWT
  * - Recuperación de contraseñas
- * - Geolocalización de usuarios
+ * - Historial de contraseñas para impedir su reutilización
+ * - Verificación en dos pasos (TOTP) con códigos de recuperación
+ * - Eliminación de la cuenta programada con periodo de gracia
+ * - Geolocalización de usuarios (pública aproximada, exacta privada)
  * - Validaciones de datos
  * 
  * @author Equipo de Desarrollo Ecommunitas
@@ -22,6 +25,7 @@ import mongoose, { Document, Schema } from 'mongoose'; // ODM para MongoDB
 import bcrypt from 'bcryptjs';                         // Librería para hash de contraseñas
 import jwt from 'jsonwebtoken';                        // Librería para tokens JWT
 import crypto from 'crypto';                           // Módulo nativo para criptografía
+import { verifyTotpCode } from '../utils/totp';         // Códigos TOTP de la verificación en dos pasos
 
 // ============================================================================
 // INTERFAZ TYPESCRIPT PARA EL USUARIO
@@ -56,18 +60,63 @@ interface IUser extends Document {
   /** Estado activo/inactivo del usuario */
   isActive: boolean;
   
-  /** Coordenadas geográficas del usuario para funcionalidades de proximidad */
+  /**
+   * Coordenadas geográficas del usuario para funcionalidades de proximidad
+   * Punto aproximado (ver utils/locationPrivacy)
+   */
   coordinates?: {
     type: string;                    // Tipo de geometría (Point)
     coordinates: [number, number];   // [longitud, latitud]
   };
   
+  /** Punto exacto [longitud, latitud] de la ubicación (privado) */
+  exactCoordinates?: [number, number];
+  
+  /** Indica si el usuario ha confirmado su dirección de correo */
+  emailVerified: boolean;
+  
+  /** Hash del token de verificación de email */
+  emailVerificationToken?: string;
+  
+  /** Fecha de expiración del token de verificación */
+  emailVerificationExpire?: Date;
+  
   /** Token temporal para recuperación de contraseña */
   resetPasswordToken?: string;
   
   /** Fecha de expiración del token de recuperación */
   resetPasswordExpire?: Date;
   
+  /** Hashes de las contraseñas anteriores (la más reciente primero) */
+  passwordHistory?: string[];
+  
+  /** Indica si la verificación en dos pasos está activada */
+  twoFactorEnabled: boolean;
+  
+  /** Secreto TOTP en Base32 de la verificación en dos pasos */
+  twoFactorSecret?: string;
+  
+  /** Secreto generado durante la activación, pendiente de confirmar */
+  twoFactorPendingSecret?: string;
+  
+  /** Hashes de los códigos de recuperación que quedan sin usar */
+  twoFactorRecoveryCodes?: string[];
+  
+  /** Último intervalo TOTP aceptado (impide repetir un código) */
+  twoFactorLastUsedStep?: number;
+  
+  /** Fecha en la que se eliminará la cuenta (si hay una eliminación programada) */
+  deletionScheduledFor?: Date;
+  
+  /** Fecha en la que se solicitó la eliminación */
+  deletionRequestedAt?: Date;
+  
+  /** Quién solicitó la eliminación: el propio usuario o un administrador */
+  deletionRequestedBy?: 'self' | 'admin';
+  
+  /** Fecha en la que la cuenta se eliminó y se anonimizó */
+  deletedAt?: Date;
+  
   /** Fecha de creación del usuario */
   createdAt: Date;
   
@@ -75,16 +124,103 @@ interface IUser extends Document {
   // MÉTODOS DE INSTANCIA
   // ============================================================================
   
-  /** Genera y retorna un token JWT firmado para el usuario */
-  getSignedJwtToken(): string;
+  /** Genera y retorna un token de acceso JWT firmado para una sesión del usuario */
+  getSignedJwtToken(sessionId: string): string;
   
   /** Compara una contraseña en texto plano con la contraseña hasheada */
   matchPassword(enteredPassword: string): Promise<boolean>;
   
   /** Genera un token seguro para recuperación de contraseña */
   getResetPasswordToken(): string;
+  
+  /** Genera un token seguro para verificar el email */
+  getEmailVerificationToken(): string;
+  
+  /** Comprueba si una contraseña coincide con la actual o con alguna del historial */
+  isPasswordReused(candidatePassword: string): Promise<boolean>;
+  
+  /** Guarda el hash de la contraseña actual en el historial antes de cambiarla */
+  rememberCurrentPassword(): void;
+  
+  /** Genera nuevos códigos de recuperación y devuelve los códigos en claro */
+  generateRecoveryCodes(): string[];
+  
+  /** Comprueba un código TOTP o de recuperación (los de recuperación se consumen) */
+  verifyTwoFactorCode(code: string): boolean;
 }
 
+// ============================================================================
+// REGLAS DE CONTRASEÑA
+// ============================================================================
+
+/**
+ * Longitud mínima de la contraseña
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Mensajes de error de las reglas de contraseña
+ */
+const PASSWORD_LENGTH_MESSAGE = `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres`;
+const PASSWORD_STRENGTH_MESSAGE = 'La contraseña debe contener al menos una mayúscula, un número y un carácter especial';
+
+/**
+ * Comprueba que la contraseña tenga al menos una mayúscula, un número y un carácter especial
+ *
+ * @param {string} password - Contraseña en texto plano
+ * @returns {boolean} true si cumple los requisitos de complejidad
+ */
+const hasRequiredCharacters = (password: string): boolean =>
+  /[A-Z]/.test(password) && /[0-9]/.test(password) && /[!@#$%^&*(),.?":{}|<>]/.test(password);
+
+/**
+ * Valida una contraseña con las mismas reglas que el esquema de usuario
+ *
+ * @param {string} password - Contraseña en texto plano
+ * @returns {string | null} Mensaje de error o null si la contraseña es válida
+ */
+export const getPasswordStrengthError = (password: string): string | null => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return PASSWORD_LENGTH_MESSAGE;
+  }
+  if (!hasRequiredCharacters(password)) {
+    return PASSWORD_STRENGTH_MESSAGE;
+  }
+  return null;
+};
+
+/**
+ * Número de contraseñas anteriores que no se pueden reutilizar
+ * (PASSWORD_HISTORY_LIMIT, 5 por defecto)
+ */
+export const getPasswordHistoryLimit = (): number =>
+  parseInt(process.env.PASSWORD_HISTORY_LIMIT || '5', 10);
+
+/**
+ * Días que pasan desde que se solicita la eliminación de una cuenta hasta que
+ * se ejecuta, durante los que se puede cancelar (ACCOUNT_DELETION_GRACE_DAYS, 30 por defecto)
+ */
+export const getAccountDeletionGraceDays = (): number =>
+  parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+
+// ============================================================================
+// VERIFICACIÓN EN DOS PASOS
+// ============================================================================
+
+/**
+ * Número de códigos de recuperación que se generan al activar la verificación en dos pasos
+ */
+export const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * Calcula el hash con el que se guarda un código de recuperación
+ *
+ * @param {string} code - Código en claro (se ignoran guiones, espacios y mayúsculas)
+ * @returns {string} Hash SHA-256 en hexadecimal
+ */
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+
 // ============================================================================
 // ESQUEMA DE MONGODB PARA USUARIOS
 // ============================================================================
@@ -137,16 +273,52 @@ const UserSchema = new Schema({
   password: {
     type: String,
     required: [true, 'Por favor añada una contraseña'],
-    minlength: [8, 'La contraseña debe tener al menos 8 caracteres'],
+    minlength: [PASSWORD_MIN_LENGTH, PASSWORD_LENGTH_MESSAGE],
     select: false,  // No incluir en consultas por seguridad
     validate: {
-      validator: function(val: string) {
-        // Debe tener al menos una mayúscula, un número y un carácter especial
-        return /[A-Z]/.test(val) && /[0-9]/.test(val) && /[!@#$%^&*(),.?":{}|<>]/.test(val);
-      },
-      message: 'La contraseña debe contener al menos una mayúscula, un número y un carácter especial'
+      // Debe tener al menos una mayúscula, un número y un carácter especial
+      validator: hasRequiredCharacters,
+      message: PASSWORD_STRENGTH_MESSAGE
     }
   },
+  
+  /**
+   * Hashes de las contraseñas anteriores
+   * - select: false igual que la contraseña
+   * - Se limita a las últimas PASSWORD_HISTORY_LIMIT contraseñas
+   */
+  passwordHistory: {
+    type: [String],
+    select: false,
+    default: undefined
+  },
+  
+  /**
+   * Verificación en dos pasos (TOTP)
+   * - El secreto y los códigos de recuperación nunca se incluyen en las consultas
+   * - Los códigos de recuperación se guardan hasheados
+   */
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false,
+    default: undefined
+  },
+  twoFactorLastUsedStep: {
+    type: Number,
+    select: false
+  },
   bio: {
     type: String,
     maxlength: [500, 'La biografía no puede tener más de 500 caracteres'],
@@ -181,8 +353,32 @@ const UserSchema = new Schema({
       index: '2dsphere'
     }
   },
+  exactCoordinates: {
+    type: [Number],
+    default: undefined,
+    select: false
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpire: {
+    type: Date,
+    select: false
+  },
   resetPasswordToken: String,
   resetPasswordExpire: Date,
+  deletionScheduledFor: Date,
+  deletionRequestedAt: Date,
+  deletionRequestedBy: {
+    type: String,
+    enum: ['self', 'admin']
+  },
+  deletedAt: Date,
   createdAt: {
     type: Date,
     default: Date.now
@@ -191,20 +387,21 @@ const UserSchema = new Schema({
 
 // Encrypt password using bcrypt
 UserSchema.pre('save', async function(next) {
+  // Solo hashear cuando la contraseña cambia (no se carga en las consultas)
   if (!this.isModified('password')) {
-    next();
+    return next();
   }
 
   const salt = await bcrypt.genSalt(10);
   this.password = await bcrypt.hash(this.password, salt);
 });
 
-// Sign JWT and return
-UserSchema.methods.getSignedJwtToken = function() {
+// Sign short-lived access JWT bound to a session and return
+UserSchema.methods.getSignedJwtToken = function(sessionId: string) {
   return jwt.sign(
-    { id: this._id },
+    { id: this._id, sid: sessionId },
     process.env.JWT_SECRET as string,
-    { expiresIn: process.env.JWT_EXPIRE || '30d' } as jwt.SignOptions
+    { expiresIn: process.env.JWT_EXPIRE || '15m' } as jwt.SignOptions
   );
 };
 
@@ -213,6 +410,66 @@ UserSchema.methods.matchPassword = async function(enteredPassword: string) {
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// Check candidate password against the current one and the stored history
+UserSchema.methods.isPasswordReused = async function(candidatePassword: string) {
+  const hashes: string[] = [this.password, ...(this.passwordHistory || [])].filter(Boolean);
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(candidatePassword, hash)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Move current password hash into the history (keeping the last N)
+UserSchema.methods.rememberCurrentPassword = function() {
+  if (!this.password) {
+    return;
+  }
+
+  // La contraseña actual también cuenta, por lo que el historial guarda N - 1
+  const limit = Math.max(getPasswordHistoryLimit() - 1, 0);
+  this.passwordHistory = [this.password, ...(this.passwordHistory || [])].slice(0, limit);
+};
+
+// Generate one-time recovery codes, store their hashes and return them in plain text
+UserSchema.methods.generateRecoveryCodes = function() {
+  const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  this.twoFactorRecoveryCodes = codes.map(hashRecoveryCode);
+  return codes;
+};
+
+// Check a TOTP code (rejecting replays) or consume a recovery code
+// Requires +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep
+UserSchema.methods.verifyTwoFactorCode = function(code: string) {
+  if (!this.twoFactorSecret || !code) {
+    return false;
+  }
+
+  const step = verifyTotpCode(this.twoFactorSecret, code);
+  if (step !== null) {
+    if (this.twoFactorLastUsedStep !== undefined && step <= this.twoFactorLastUsedStep) {
+      return false;
+    }
+    this.twoFactorLastUsedStep = step;
+    return true;
+  }
+
+  const hash = hashRecoveryCode(code);
+  const remaining: string[] = this.twoFactorRecoveryCodes || [];
+  if (!remaining.includes(hash)) {
+    return false;
+  }
+
+  this.twoFactorRecoveryCodes = remaining.filter(stored => stored !== hash);
+  return true;
+};
+
 // Generate and hash password token
 UserSchema.methods.getResetPasswordToken = function() {
   // Generate token
@@ -230,4 +487,21 @@ UserSchema.methods.getResetPasswordToken = function() {
   return resetToken;
 };
 
+// Generate and hash email verification token
+UserSchema.methods.getEmailVerificationToken = function() {
+  // Generate token
+  const verificationToken = crypto.randomBytes(20).toString('hex');
+
+  // Hash token and set to emailVerificationToken field
+  this.emailVerificationToken = crypto
+    .createHash('sha256')
+    .update(verificationToken)
+    .digest('hex');
+
+  // Set expire (24 hours)
+  this.emailVerificationExpire = Date.now() + 24 * 60 * 60 * 1000;
+
+  return verificationToken;
+};
+
 export default mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
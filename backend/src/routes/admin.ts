@@ -0,0 +1,61 @@
+/**
+ * @file admin.ts
+ * @description Rutas del panel de administración en la API de Ecommunitas
+ * @module Routes/Admin
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define las rutas administrativas que consume adminService
+ * en el frontend. Todas requieren autenticación y rol de administrador.
+ *
+ * Rutas disponibles:
+ * - GET /logs - Logs del sistema
+ * - POST /export/:type - Exportar usuarios, artículos, intercambios o logs
+ * - GET /export/download/:file - Descargar una exportación
+ * - POST /backup - Crear un respaldo
+ * - GET /backup/history - Historial de respaldos
+ * - GET /backup/:id/download - Descargar un respaldo
+ * - GET /settings - Obtener la configuración del sistema
+ * - PATCH /settings - Actualizar la configuración del sistema
+ * - POST /notifications - Enviar una notificación del sistema
+ */
+
+import express from 'express';
+import {
+  getSystemLogs,
+  exportData,
+  downloadExport,
+  createBackup,
+  getBackupHistory,
+  downloadBackup,
+  getSystemSettings,
+  updateSystemSettings,
+  sendSystemNotification
+} from '../controllers/admin';
+
+const router = express.Router();
+
+// Importar middleware de protección y autorización
+import { protect, authorize } from '../middleware/auth';
+
+// Rutas exclusivas de administradores
+router.use(protect);
+router.use(authorize('admin'));
+
+router.route('/logs').get(getSystemLogs);
+
+router.route('/export/download/:file').get(downloadExport);
+router.route('/export/:type').post(exportData);
+
+router.route('/backup').post(createBackup);
+router.route('/backup/history').get(getBackupHistory);
+router.route('/backup/:id/download').get(downloadBackup);
+
+router.route('/settings')
+  .get(getSystemSettings)
+  .patch(updateSystemSettings);
+
+router.route('/notifications').post(sendSystemNotification);
+
+export default router;
@@ -0,0 +1,29 @@
+/**
+ * @file analytics.ts
+ * @description Rutas de estadísticas y analíticas en la API de Ecommunitas
+ * @module Routes/Analytics
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo expone las estadísticas del panel de administración en la
+ * ruta que usa ADMIN_ROUTES.ANALYTICS en el frontend.
+ *
+ * Rutas disponibles:
+ * - GET / - Estadísticas y analíticas del sistema (solo administradores)
+ */
+
+import express from 'express';
+import { getAnalytics } from '../controllers/admin';
+
+const router = express.Router();
+
+// Importar middleware de protección y autorización
+import { protect, authorize } from '../middleware/auth';
+
+router.use(protect);
+router.use(authorize('admin'));
+
+router.route('/').get(getAnalytics);
+
+export default router;
@@ -8,8 +8,14 @@
  * Rutas disponibles:
  * - POST /register - Registro de nuevos usuarios
  * - POST /login - Inicio de sesión
- * - GET /logout - Cierre de sesión
+ * - POST /logout - Cierre de sesión en este dispositivo
+ * - POST /refresh - Renovar el token de acceso con el refresh token
+ * - POST /logout-all - Cierre de sesión en todos los dispositivos
+ * - GET /sessions - Sesiones activas del usuario
+ * - DELETE /sessions/:id - Cerrar una sesión concreta
  * - GET /me - Obtener perfil del usuario autenticado
+ * - GET /verify-email/:token - Verificar el email con el enlace recibido
+ * - POST /resend-verification - Reenviar el enlace de verificación
  * 
  * @author Equipo de Desarrollo Ecommunitas
  * @version 1.0.0
@@ -27,8 +33,21 @@ import {
   login,           // Controlador para inicio de sesión
   getMe,           // Controlador para obtener perfil del usuario
   logout,          // Controlador para cierre de sesión
+  logoutAll,       // Controlador para cerrar sesión en todos los dispositivos
+  refreshToken,    // Controlador para renovar el token de acceso
+  getSessions,     // Controlador para listar las sesiones activas
+  revokeSession,   // Controlador para cerrar una sesión concreta
   forgotPassword,  // Controlador para solicitar reset de contraseña
-  resetPassword    // Controlador para resetear contraseña
+  resetPassword,   // Controlador para resetear contraseña
+  updatePassword,  // Controlador para cambiar la contraseña
+  verifyEmail,     // Controlador para verificar el email
+  resendVerification, // Controlador para reenviar el email de verificación
+  unlockAccount,   // Controlador para desbloquear una cuenta
+  loginTwoFactor,  // Controlador para el segundo paso del inicio de sesión
+  setupTwoFactor,  // Controlador para iniciar la activación de la verificación en dos pasos
+  enableTwoFactor, // Controlador para confirmar la verificación en dos pasos
+  disableTwoFactor, // Controlador para desactivar la verificación en dos pasos
+  regenerateRecoveryCodes // Controlador para generar nuevos códigos de recuperación
 } from '../controllers/auth';
 
 // Importar middleware de protección de rutas
@@ -61,24 +80,45 @@ router.post('/register', register);
  * @desc    Iniciar sesión con email y contraseña
  * @access  Public
  * @body    { email, password }
- * @returns { success, token, data: user }
+ * @returns { success, token, data: user } o, con verificación en dos pasos, { success, twoFactorRequired, twoFactorToken }
  */
 router.post('/login', login);
 
 /**
- * @route   GET /logout
- * @desc    Cerrar sesión del usuario (limpiar cookies)
+ * @route   POST /logout
+ * @desc    Cerrar la sesión de este dispositivo (revocarla y limpiar cookies)
  * @access  Public
+ * @body    { refreshToken? }
  * @returns { success, message }
  */
-router.get('/logout', logout);
+router.route('/logout')
+  .post(logout)
+  .get(logout);  // Compatibilidad con clientes anteriores
+
+/**
+ * @route   POST /2fa/login
+ * @desc    Completar el inicio de sesión con el código de verificación en dos pasos
+ * @access  Public
+ * @body    { twoFactorToken, code }
+ * @returns { success, token, refreshToken, data: user }
+ */
+router.post('/2fa/login', loginTwoFactor);
+
+/**
+ * @route   POST /refresh
+ * @desc    Renovar el token de acceso (el refresh token se rota en cada uso)
+ * @access  Public
+ * @body    { refreshToken }
+ * @returns { success, token, refreshToken }
+ */
+router.post('/refresh', refreshToken);
 
 /**
  * @route   POST /forgotpassword
- * @desc    Solicitar token para resetear contraseña
+ * @desc    Solicitar un enlace por email para resetear contraseña
  * @access  Public
  * @body    { email }
- * @returns { success, message, resetToken }
+ * @returns { success, message }
  */
 router.post('/forgotpassword', forgotPassword);
 
@@ -92,6 +132,24 @@ router.post('/forgotpassword', forgotPassword);
  */
 router.put('/resetpassword/:resettoken', resetPassword);
 
+/**
+ * @route   GET /verify-email/:token
+ * @desc    Verificar el email con el token enviado tras el registro
+ * @access  Public
+ * @params  { token }
+ * @returns { success, message }
+ */
+router.get('/verify-email/:token', verifyEmail);
+
+/**
+ * @route   GET /unlock-account/:token
+ * @desc    Desbloquear una cuenta con el token enviado al bloquearse
+ * @access  Public
+ * @params  { token }
+ * @returns { success, message }
+ */
+router.get('/unlock-account/:token', unlockAccount);
+
 // ============================================================================
 // RUTAS PROTEGIDAS (Requieren autenticación)
 // ============================================================================
@@ -105,6 +163,92 @@ router.put('/resetpassword/:resettoken', resetPassword);
  */
 router.get('/me', protect, getMe);
 
+/**
+ * @route   PUT /updatepassword
+ * @desc    Cambiar la contraseña del usuario autenticado
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @body    { currentPassword, newPassword, confirmPassword }
+ * @returns { success, message }
+ */
+router.put('/updatepassword', protect, updatePassword);
+
+/**
+ * @route   POST /resend-verification
+ * @desc    Reenviar el email de verificación al usuario autenticado
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @returns { success, message }
+ */
+router.post('/resend-verification', protect, resendVerification);
+
+/**
+ * @route   POST /logout-all
+ * @desc    Cerrar sesión en todos los dispositivos del usuario
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @returns { success, message, data: { revoked } }
+ */
+router.post('/logout-all', protect, logoutAll);
+
+/**
+ * @route   GET /sessions
+ * @desc    Listar las sesiones activas del usuario
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @returns { success, count, data: sessions[] }
+ */
+router.get('/sessions', protect, getSessions);
+
+/**
+ * @route   DELETE /sessions/:id
+ * @desc    Cerrar una sesión concreta del usuario
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @params  { id }
+ * @returns { success, message }
+ */
+router.delete('/sessions/:id', protect, revokeSession);
+
+/**
+ * @route   POST /2fa/setup
+ * @desc    Generar el secreto de la verificación en dos pasos
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @returns { success, data: { secret, otpauthUri } }
+ */
+router.post('/2fa/setup', protect, setupTwoFactor);
+
+/**
+ * @route   POST /2fa/enable
+ * @desc    Activar la verificación en dos pasos con un código de la aplicación
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @body    { code }
+ * @returns { success, message, data: { recoveryCodes } }
+ */
+router.post('/2fa/enable', protect, enableTwoFactor);
+
+/**
+ * @route   POST /2fa/disable
+ * @desc    Desactivar la verificación en dos pasos (exige contraseña y código)
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @body    { password, code }
+ * @returns { success, message }
+ */
+router.post('/2fa/disable', protect, disableTwoFactor);
+
+/**
+ * @route   POST /2fa/recovery-codes
+ * @desc    Generar nuevos códigos de recuperación (exige contraseña y código)
+ * @access  Private
+ * @headers Authorization: Bearer <token>
+ * @body    { password, code }
+ * @returns { success, message, data: { recoveryCodes } }
+ */
+router.post('/2fa/recovery-codes', protect, regenerateRecoveryCodes);
+
 // ============================================================================
 // EXPORTACIÓN
 // ============================================================================
@@ -0,0 +1,40 @@
+/**
+ * @file categories.ts
+ * @description Rutas de categorías de artículos en la API de Ecommunitas
+ * @module Routes/Categories
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define el listado público de categorías que carga el frontend
+ * y su gestión desde el panel de administración.
+ *
+ * Rutas disponibles:
+ * - GET / - Categorías activas (todas para administradores con ?includeInactive=true)
+ * - POST / - Crear una categoría (solo administradores)
+ * - PUT /:id - Modificar una categoría (solo administradores)
+ * - DELETE /:id - Borrar una categoría sin uso (solo administradores)
+ */
+
+import express from 'express';
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../controllers/categories';
+
+const router = express.Router();
+
+// Importar middleware de protección y autorización
+import { protect, optionalAuth, authorize } from '../middleware/auth';
+
+router.route('/')
+  .get(optionalAuth, getCategories)
+  .post(protect, authorize('admin'), createCategory);
+
+router.route('/:id')
+  .put(protect, authorize('admin'), updateCategory)
+  .delete(protect, authorize('admin'), deleteCategory);
+
+export default router;
@@ -0,0 +1,24 @@
+/**
+ * @file geocoding.ts
+ * @description Rutas de geocodificación en la API de Ecommunitas
+ * @module Routes/Geocoding
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define la ruta pública de autocompletado de ubicaciones
+ * que usa el selector de ubicación (LocationPicker) al publicar artículos.
+ *
+ * Rutas disponibles:
+ * - GET /autocomplete - Sugerencias de ubicaciones
+ */
+
+import express from 'express';
+import { autocompleteLocations } from '../controllers/geocoding';
+
+const router = express.Router();
+
+// Rutas públicas
+router.route('/autocomplete').get(autocompleteLocations);
+
+export default router;
@@ -9,9 +9,16 @@
  * - GET / - Obtener todos los items con paginación
  * - POST / - Crear un nuevo item (requiere autenticación)
  * - GET /search - Búsqueda avanzada de items
- * - GET /:id - Obtener un item específico
+ * - GET /map - Artículos del área visible del mapa, agrupados según el zoom
+ * - GET /deleted - Papelera del usuario (todos los eliminados para administradores)
+ * - GET /favorites - Favoritos del usuario (requiere autenticación)
+ * - GET /favorites/counts - Favoritos de cada artículo propio (requiere autenticación)
+ * - GET /:id - Obtener un item específico (con la ubicación exacta para quien puede verla)
  * - PUT /:id - Actualizar un item (requiere autenticación)
- * - DELETE /:id - Eliminar un item (requiere autenticación)
+ * - DELETE /:id - Enviar un item a la papelera (requiere autenticación)
+ * - PATCH /:id/restore - Restaurar un item de la papelera (requiere autenticación)
+ * - PATCH /:id/status - Cambiar el estado del ciclo de vida (requiere autenticación)
+ * - GET/POST/DELETE /:id/favorite - Consultar, añadir o quitar de favoritos (requiere autenticación)
  * - PATCH /:id/approve - Aprobar un item (solo administradores)
  * - PATCH /:id/reject - Rechazar un item (solo administradores)
  * - GET /user/:userId - Obtener items de un usuario específico
@@ -32,17 +39,30 @@ import {
   getItem,       // Obtener un item específico por ID
   createItem,    // Crear un nuevo item
   updateItem,    // Actualizar un item existente
-  deleteItem,    // Eliminar un item
+  deleteItem,    // Enviar un item a la papelera
+  restoreItem,   // Restaurar un item de la papelera
+  updateItemStatus,// Cambiar el estado del ciclo de vida
+  getDeletedItems,// Obtener los items de la papelera
   searchItems,   // Búsqueda avanzada de items
+  getItemsMap,   // Artículos del área visible del mapa
   getItemsByUser,// Obtener items de un usuario específico
   approveItem,   // Aprobar un item (moderación)
   rejectItem     // Rechazar un item (moderación)
 } from '../controllers/items';
 
+// Importar controladores de favoritos
+import {
+  getFavorites,      // Favoritos del usuario
+  getFavoriteCounts, // Favoritos de cada artículo propio
+  getFavoriteStatus, // Saber si un item está en favoritos
+  addFavorite,       // Añadir a favoritos
+  removeFavorite     // Quitar de favoritos
+} from '../controllers/favorites';
+
 // Importar middleware de protección de rutas y resultados avanzados
-import { protect, authorize } from '../middleware/auth';
+import { protect, optionalAuth, authorize, requireVerifiedEmail } from '../middleware/auth';
 import advancedResults from '../middleware/advancedResults';
-import Item from '../models/Item'; // Modelo principal de items
+import Item, { NOT_DELETED_FILTER } from '../models/Item'; // Modelo principal de items
 
 // ============================================================================
 // CONFIGURACIÓN DEL ROUTER
@@ -66,13 +86,13 @@ const router = express.Router();
  * 
  * @route   POST /
  * @desc    Crear un nuevo item
- * @access  Private
+ * @access  Private (email verificado, según la configuración del sistema)
  * @body    { title, description, category, location, images?, status? }
  * @returns { success, data: item }
  */
 router.route('/')
-  .get(advancedResults(Item, 'user'), getItems)  // Con middleware de resultados avanzados
-  .post(protect, createItem);  // Requiere autenticación
+  .get(advancedResults(Item, 'user', { ...NOT_DELETED_FILTER, status: { $ne: 'draft' } }), getItems)  // Con middleware de resultados avanzados (sin la papelera ni borradores)
+  .post(protect, requireVerifiedEmail('unverifiedCanPostItems'), createItem);  // Requiere autenticación
 
 // ============================================================================
 // RUTAS DE BÚSQUEDA
@@ -82,12 +102,60 @@ router.route('/')
  * @route   GET /search
  * @desc    Búsqueda avanzada de items con capacidades geoespaciales
  * @access  Public
- * @query   { q?, category?, location?, radius?, lat?, lng?, status? }
+ * @query   { q?, category?, location?, radius?, lat?, lng?, status?, attr.<clave>? }
  * @returns { success, count, data: items[] }
  */
 router.route('/search')
   .get(searchItems);
 
+/**
+ * @route   GET /map
+ * @desc    Artículos del área visible del mapa: grupos en las zonas densas
+ *          y marcadores individuales al acercarse
+ * @access  Public
+ * @query   { bbox, zoom, q?, category?, condition? }
+ * @returns { success, zoom, clustered, total, truncated, data: { clusters[], items[] } }
+ */
+router.route('/map')
+  .get(getItemsMap);
+
+// ============================================================================
+// RUTAS DE PAPELERA
+// ============================================================================
+
+/**
+ * @route   GET /deleted
+ * @desc    Obtener los items eliminados que el usuario puede restaurar
+ *          (los administradores ven todos los pendientes de purga)
+ * @access  Private
+ * @query   { user?, page?, limit? }
+ * @returns { success, count, total, pagination, data: items[] }
+ */
+router.route('/deleted')
+  .get(protect, getDeletedItems);
+
+// ============================================================================
+// RUTAS DE FAVORITOS
+// ============================================================================
+
+/**
+ * @route   GET /favorites
+ * @desc    Obtener los items favoritos del usuario (sin los de la papelera)
+ * @access  Private
+ * @returns { success, count, data: items[] }
+ */
+router.route('/favorites')
+  .get(protect, getFavorites);
+
+/**
+ * @route   GET /favorites/counts
+ * @desc    Obtener cuántos usuarios siguen cada item del usuario
+ * @access  Private
+ * @returns { success, data: { [itemId]: number } }
+ */
+router.route('/favorites/counts')
+  .get(protect, getFavoriteCounts);
+
 // ============================================================================
 // RUTAS PARA ITEMS ESPECÍFICOS
 // ============================================================================
@@ -95,9 +163,11 @@ router.route('/search')
 /**
  * @route   GET /:id
  * @desc    Obtener un item específico por su ID
- * @access  Public
+ * @access  Public (identificación opcional)
  * @params  { id: string } - ID del item
- * @returns { success, data: item }
+ * @returns { success, data: item } - data.distance si el usuario identificado
+ *          tiene ubicación; data.exactCoordinates para el propietario y la otra
+ *          parte de un intercambio aceptado
  * 
  * @route   PUT /:id
  * @desc    Actualizar un item existente
@@ -107,16 +177,60 @@ router.route('/search')
  * @returns { success, data: item }
  * 
  * @route   DELETE /:id
- * @desc    Eliminar un item
+ * @desc    Enviar un item a la papelera
  * @access  Private (solo el propietario o admin)
  * @params  { id: string } - ID del item
- * @returns { success, message }
+ * @returns { success, data: { deletedAt, restorableUntil } }
  */
 router.route('/:id')
-  .get(getItem)
+  .get(optionalAuth, getItem)
   .put(protect, updateItem)
   .delete(protect, deleteItem);
 
+/**
+ * @route   PATCH /:id/restore
+ * @desc    Restaurar un item de la papelera
+ * @access  Private (el propietario dentro del plazo de restauración, admin siempre)
+ * @params  { id: string } - ID del item
+ * @returns { success, data: item }
+ */
+router.route('/:id/restore')
+  .patch(protect, restoreItem);
+
+/**
+ * @route   PATCH /:id/status
+ * @desc    Cambiar el estado del ciclo de vida de un item
+ *          (draft → active → reserved → traded / withdrawn / expired)
+ * @access  Private (solo el propietario o admin)
+ * @params  { id: string } - ID del item
+ * @body    { status: string, reservedFor?: string }
+ * @returns { success, data: item }
+ */
+router.route('/:id/status')
+  .patch(protect, updateItemStatus);
+
+/**
+ * @route   GET /:id/favorite
+ * @desc    Saber si un item está en favoritos (el propietario ve además cuántos lo siguen)
+ * @access  Private
+ * @params  { id: string } - ID del item
+ * @returns { success, data: { favorited, favoriteCount? } }
+ *
+ * @route   POST /:id/favorite
+ * @desc    Añadir un item a favoritos
+ * @access  Private
+ * @returns { success, data: { favorited: true } }
+ *
+ * @route   DELETE /:id/favorite
+ * @desc    Quitar un item de favoritos
+ * @access  Private
+ * @returns { success, data: { favorited: false } }
+ */
+router.route('/:id/favorite')
+  .get(protect, getFavoriteStatus)
+  .post(protect, addFavorite)
+  .delete(protect, removeFavorite);
+
 // ============================================================================
 // RUTAS DE MODERACIÓN (Solo Administradores)
 // ============================================================================
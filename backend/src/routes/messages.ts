@@ -15,8 +15,11 @@
  * Rutas disponibles:
  * - GET / - Obtener mensajes del usuario actual
  * - POST / - Enviar un nuevo mensaje
+ * - POST /start - Iniciar una conversación sobre un item
  * - GET /unread - Obtener mensajes no leídos
  * - GET /conversations - Obtener lista de conversaciones
+ * - GET /conversation/:conversationId - Obtener mensajes de una conversación
+ * - PUT /conversation/:conversationId/settings - Archivar o silenciar una conversación
  * - GET /conversations/:userId - Obtener conversación específica
  * - PUT /conversations/:userId/read - Marcar conversación como leída
  * - PUT /:id/read - Marcar mensaje como leído
@@ -33,13 +36,16 @@ import {
   getUnreadMessages,
   checkNewMessages,
   getConversations,
-  markConversationAsRead
+  markConversationAsRead,
+  startConversation,
+  getConversationMessages,
+  updateConversationSettings
 } from '../controllers/messages';
 
 const router = express.Router();
 
 // Importar middleware de protección de rutas
-import { protect } from '../middleware/auth';
+import { protect, requireVerifiedEmail } from '../middleware/auth';
 
 // Rutas protegidas (requieren autenticación)
 router.use(protect);
@@ -47,10 +53,13 @@ router.use(protect);
 // Rutas para mensajes
 router.route('/')
   .get(getMyMessages)
-  .post(sendMessage);
+  .post(requireVerifiedEmail('unverifiedCanSendMessages'), sendMessage);
 
+router.route('/start').post(requireVerifiedEmail('unverifiedCanSendMessages'), startConversation);
 router.route('/unread').get(getUnreadMessages);
 router.route('/conversations').get(getConversations);
+router.route('/conversation/:conversationId').get(getConversationMessages);
+router.route('/conversation/:conversationId/settings').put(updateConversationSettings);
 router.route('/conversations/:userId').get(getConversation);
 router.route('/conversations/:userId/read').put(markConversationAsRead);
 router.route('/:id/read').put(markAsRead);
@@ -0,0 +1,39 @@
+/**
+ * @file notifications.ts
+ * @description Rutas del centro de notificaciones en la API de Ecommunitas
+ * @module Routes/Notifications
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define las rutas con las que el usuario autenticado consulta
+ * sus notificaciones y las marca como leídas.
+ *
+ * Rutas disponibles:
+ * - GET / - Notificaciones del usuario
+ * - PATCH /read-all - Marcar todas como leídas
+ * - PATCH /:id/read - Marcar una como leída
+ */
+
+import express from 'express';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notifications';
+
+const router = express.Router();
+
+// Importar middleware de protección de rutas
+import { protect } from '../middleware/auth';
+
+// Rutas protegidas (requieren autenticación)
+router.use(protect);
+
+router.route('/').get(getNotifications);
+
+router.route('/read-all').patch(markAllNotificationsRead);
+
+router.route('/:id/read').patch(markNotificationRead);
+
+export default router;
@@ -0,0 +1,40 @@
+/**
+ * @file reports.ts
+ * @description Rutas para el sistema de denuncias en la API de Ecommunitas
+ * @module Routes/Reports
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define las rutas de denuncias y de la cola de moderación:
+ * - Denuncia de artículos, perfiles y mensajes por cualquier usuario
+ * - Consulta y resolución de denuncias por administradores
+ *
+ * Rutas disponibles:
+ * - POST / - Denunciar un contenido
+ * - GET / - Cola de denuncias (solo administradores)
+ * - PUT /:id/resolve - Resolver una denuncia (solo administradores)
+ */
+
+import express from 'express';
+import {
+  createReport,
+  getReports,
+  resolveReport
+} from '../controllers/reports';
+
+const router = express.Router();
+
+// Importar middleware de protección de rutas
+import { protect, authorize } from '../middleware/auth';
+
+// Rutas protegidas (requieren autenticación)
+router.use(protect);
+
+router.route('/')
+  .get(authorize('admin'), getReports)
+  .post(createReport);
+
+router.route('/:id/resolve').put(authorize('admin'), resolveReport);
+
+export default router;
@@ -0,0 +1,47 @@
+/**
+ * @file savedSearches.ts
+ * @description Rutas para las búsquedas guardadas en la API de Ecommunitas
+ * @module Routes/SavedSearches
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define las rutas de las búsquedas guardadas del usuario
+ * autenticado y de los artículos que han coincidido con ellas.
+ *
+ * Rutas disponibles:
+ * - GET / - Búsquedas guardadas del usuario
+ * - POST / - Guardar una búsqueda
+ * - PUT /:id - Modificar una búsqueda
+ * - DELETE /:id - Borrar una búsqueda
+ * - GET /:id/matches - Artículos que coinciden con la búsqueda
+ */
+
+import express from 'express';
+import {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchMatches
+} from '../controllers/savedSearches';
+
+const router = express.Router();
+
+// Importar middleware de protección de rutas
+import { protect } from '../middleware/auth';
+
+// Rutas protegidas (requieren autenticación)
+router.use(protect);
+
+router.route('/')
+  .get(getSavedSearches)
+  .post(createSavedSearch);
+
+router.route('/:id')
+  .put(updateSavedSearch)
+  .delete(deleteSavedSearch);
+
+router.route('/:id/matches').get(getSavedSearchMatches);
+
+export default router;
@@ -0,0 +1,56 @@
+/**
+ * @file trades.ts
+ * @description Rutas para el sistema de intercambios en la API de Ecommunitas
+ * @module Routes/Trades
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Este archivo define las rutas para el ciclo de vida de los intercambios:
+ * - Propuesta de intercambio de uno o varios artículos por otro
+ * - Aceptación, rechazo y contraoferta por parte del destinatario
+ * - Finalización y cancelación del intercambio
+ *
+ * Rutas disponibles:
+ * - GET / - Obtener intercambios del usuario actual
+ * - POST / - Proponer un intercambio
+ * - GET /:id - Obtener un intercambio específico
+ * - PUT /:id/accept - Aceptar propuesta
+ * - PUT /:id/reject - Rechazar propuesta
+ * - POST /:id/counter - Contraofertar propuesta
+ * - PUT /:id/complete - Completar intercambio
+ * - PUT /:id/cancel - Cancelar intercambio
+ */
+
+import express from 'express';
+import {
+  getTrades,
+  getTrade,
+  createTrade,
+  acceptTrade,
+  rejectTrade,
+  counterTrade,
+  completeTrade,
+  cancelTrade
+} from '../controllers/trades';
+
+const router = express.Router();
+
+// Importar middleware de protección de rutas
+import { protect, requireVerifiedEmail } from '../middleware/auth';
+
+// Rutas protegidas (requieren autenticación)
+router.use(protect);
+
+router.route('/')
+  .get(getTrades)
+  .post(requireVerifiedEmail('unverifiedCanProposeTrades'), createTrade);
+
+router.route('/:id').get(getTrade);
+router.route('/:id/accept').put(acceptTrade);
+router.route('/:id/reject').put(rejectTrade);
+router.route('/:id/counter').post(requireVerifiedEmail('unverifiedCanProposeTrades'), counterTrade);
+router.route('/:id/complete').put(completeTrade);
+router.route('/:id/cancel').put(cancelTrade);
+
+export default router;
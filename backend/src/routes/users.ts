@@ -8,32 +8,55 @@
  * 
  * Este archivo define las rutas para la gestión de usuarios:
  * - Obtener lista de usuarios (solo administradores)
+ * - Consultar las cuentas bloqueadas temporalmente (solo administradores)
  * - Obtener perfil del usuario actual
+ * - Exportar los datos personales del usuario actual
  * - Obtener perfil de usuario específico
  * - Actualizar perfil de usuario
- * - Eliminar usuario (solo administradores)
+ * - Eliminar usuario con periodo de gracia (solo administradores)
+ * - Eliminar la propia cuenta con periodo de gracia y cancelarlo
  * 
  * Rutas disponibles:
  * - GET / - Obtener todos los usuarios (admin)
+ * - GET /locked - Cuentas bloqueadas por intentos fallidos (admin)
  * - GET /profile - Obtener perfil del usuario actual
+ * - POST /me/export - Solicitar la exportación de los datos personales
+ * - GET /me/export - Estado de la última exportación
+ * - GET /me/export/download - Descargar la última exportación
  * - GET /:id - Obtener usuario específico
  * - PUT /:id - Actualizar usuario
- * - DELETE /:id - Eliminar usuario (admin)
+ * - DELETE /:id - Programar la eliminación del usuario, ?immediate=true para ejecutarla ya (admin)
+ * - POST /:id/deletion/cancel - Cancelar la eliminación programada (admin)
+ * - DELETE /me - Solicitar la eliminación de la propia cuenta
+ * - POST /me/deletion/cancel - Cancelar la eliminación de la propia cuenta
+ * - GET /:userId/trades - Historial de intercambios del usuario
+ * - GET /:id/reviews - Valoraciones recibidas por el usuario
+ * - POST /:id/reviews - Valorar al usuario
+ * - DELETE /:id/reviews/:reviewId - Eliminar una valoración
  */
 
 import express from 'express';
 import {
   getUsers,
+  getLockedUsers,
   getProfile,
+  createDataExport,
+  getDataExport,
+  downloadDataExport,
   getUser,
   updateUser,
-  deleteUser
+  deleteUser,
+  cancelUserDeletion,
+  deleteMyAccount,
+  cancelMyAccountDeletion
 } from '../controllers/users';
+import { getUserTrades } from '../controllers/trades';
+import { getUserReviews, createReview, deleteReview } from '../controllers/reviews';
 
 const router = express.Router();
 
 // Importar middleware de protección de rutas y resultados avanzados
-import { protect, authorize } from '../middleware/auth';
+import { protect, authorize, requireVerifiedEmail } from '../middleware/auth';
 import advancedResults from '../middleware/advancedResults';
 import User from '../models/User';
 // Removed express-fileupload import - using global middleware instead
@@ -45,13 +68,39 @@ router.use(protect);
 router.route('/')
   .get(authorize('admin'), advancedResults(User), getUsers);
 
+// Cuentas bloqueadas temporalmente por intentos fallidos de inicio de sesión
+router.route('/locked').get(authorize('admin'), getLockedUsers);
+
 // Ruta para obtener perfil del usuario actual
 router.route('/profile').get(getProfile);
 
+// Exportación de los datos personales del usuario actual
+router.route('/me/export')
+  .get(getDataExport)
+  .post(createDataExport);
+
+router.route('/me/export/download').get(downloadDataExport);
+
+// Eliminación de la propia cuenta (antes de /:id, que exige ser administrador)
+router.route('/me').delete(deleteMyAccount);
+router.route('/me/deletion/cancel').post(cancelMyAccountDeletion);
+
 // Rutas para usuarios normales y administradores
 router.route('/:id')
   .get(getUser)
   .put(updateUser) // Using global fileUpload middleware
   .delete(authorize('admin'), deleteUser);
 
+router.route('/:id/deletion/cancel').post(authorize('admin'), cancelUserDeletion);
+
+// Historial de intercambios (el propio usuario o administradores)
+router.route('/:userId/trades').get(getUserTrades);
+
+// Valoraciones recibidas por el usuario
+router.route('/:id/reviews')
+  .get(getUserReviews)
+  .post(requireVerifiedEmail('unverifiedCanReview'), createReview);
+
+router.route('/:id/reviews/:reviewId').delete(deleteReview);
+
 export default router;
\ No newline at end of file
@@ -65,6 +65,7 @@
  * - /api/users - Gestión de perfiles de usuario
  * - /api/items - CRUD de artículos y publicaciones
  * - /api/messages - Sistema de mensajería privada
+ * - /api/trades - Propuestas e historial de intercambios
  * - /api/admin - Panel de administración
  * 
  * FLUJO DE INICIALIZACIÓN:
@@ -202,6 +203,12 @@ import connectDB from './config/db';
 // Procesa todos los errores de la aplicación y devuelve respuestas consistentes
 import errorMiddleware from './middleware/error';
 
+// Pasarela de Socket.IO para mensajería en tiempo real
+import { initSocket } from './config/socket';
+
+// Tareas periódicas de mantenimiento (eliminación de cuentas, papelera, caducidad, resúmenes y notificaciones)
+import { startScheduler } from './config/scheduler';
+
 // ============================================================================
 // IMPORTACIÓN DE RUTAS DE LA API REST
 // ============================================================================
@@ -226,6 +233,35 @@ import messagesRoutes from './routes/messages';
 // Perfiles, configuración, seguimiento, bloqueo, administración de cuentas
 import usersRoutes from './routes/users';
 
+// Rutas del sistema de intercambios (/api/trades)
+// Propuestas, contraofertas, aceptación, finalización y cancelación de trueques
+import tradesRoutes from './routes/trades';
+
+// Rutas del sistema de denuncias (/api/reports)
+// Denuncias de artículos, perfiles y mensajes y cola de moderación
+import reportsRoutes from './routes/reports';
+
+// Rutas de búsquedas guardadas (/api/saved-searches)
+// Filtros guardados por el usuario y avisos de artículos nuevos que coinciden
+import savedSearchesRoutes from './routes/savedSearches';
+
+// Rutas del centro de notificaciones (/api/notifications)
+// Notificaciones guardadas del usuario y marcado como leídas
+import notificationsRoutes from './routes/notifications';
+
+// Rutas de geocodificación (/api/geocoding)
+// Autocompletado de ubicaciones para el selector de ubicación
+import geocodingRoutes from './routes/geocoding';
+
+// Rutas de categorías (/api/categories)
+// Listado de categorías de artículos y su gestión por administradores
+import categoriesRoutes from './routes/categories';
+
+// Rutas del panel de administración (/api/admin y /api/analytics)
+// Estadísticas, logs, exportaciones, respaldos, configuración y notificaciones
+import adminRoutes from './routes/admin';
+import analyticsRoutes from './routes/analytics';
+
 // ============================================================================
 // INICIALIZACIÓN CRÍTICA DE BASE DE DATOS
 // ============================================================================
@@ -385,11 +421,21 @@ app.use('/api', limiter);
  * - items: Gestión de artículos para intercambio
  * - messages: Sistema de mensajería entre usuarios
  * - users: Gestión de perfiles y datos de usuarios
+ * - trades: Propuestas de intercambio entre usuarios
+ * - admin/analytics: Panel de administración (solo administradores)
  */
 app.use('/api/v1/auth', authRoutes);         // Rutas de autenticación
 app.use('/api/v1/items', itemsRoutes);       // Rutas de artículos
 app.use('/api/v1/messages', messagesRoutes); // Rutas de mensajería
 app.use('/api/v1/users', usersRoutes);       // Rutas de usuarios
+app.use('/api/v1/trades', tradesRoutes);     // Rutas de intercambios
+app.use('/api/v1/reports', reportsRoutes);   // Rutas de denuncias y moderación
+app.use('/api/v1/saved-searches', savedSearchesRoutes); // Búsquedas guardadas y sus avisos
+app.use('/api/v1/notifications', notificationsRoutes); // Centro de notificaciones
+app.use('/api/v1/geocoding', geocodingRoutes); // Autocompletado de ubicaciones
+app.use('/api/v1/categories', categoriesRoutes); // Categorías de artículos
+app.use('/api/v1/admin', adminRoutes);       // Rutas de administración
+app.use('/api/v1/analytics', analyticsRoutes); // Estadísticas del panel de administración
 
 // ============================================================================
 // MIDDLEWARE DE MANEJO DE ERRORES
@@ -421,6 +467,12 @@ if (process.env.NODE_ENV !== 'test') {
   server = app.listen(PORT, () => {
     console.log(colors.yellow.bold(`🚀 Servidor corriendo en modo ${process.env.NODE_ENV} en puerto ${PORT}`));
   });
+
+  // Eventos de mensajería en tiempo real sobre el mismo servidor HTTP
+  initSocket(server);
+
+  // Tareas periódicas de mantenimiento
+  startScheduler();
 }
 
 // ============================================================================
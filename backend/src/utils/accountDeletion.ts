@@ -0,0 +1,267 @@
+/**
+ * @file accountDeletion.ts
+ * @description Eliminación de cuentas de usuario con periodo de gracia
+ * @module Utils/AccountDeletion
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * La eliminación de una cuenta (solicitada por el propio usuario o por un
+ * administrador) se programa para dentro de ACCOUNT_DELETION_GRACE_DAYS días.
+ * Durante ese periodo el usuario puede cancelarla desde su perfil. Al vencer,
+ * la tarea programada ejecuta la eliminación:
+ * - Borra las imágenes de sus artículos y su avatar de Cloudinary
+ * - Borra sus artículos, salvo los que forman parte de intercambios, que se
+ *   archivan (sin imágenes y retirados) para conservar el historial de la otra parte
+ * - Cancela sus intercambios abiertos
+ * - Cierra sus sesiones y borra sus exportaciones de datos, búsquedas guardadas,
+ *   favoritos y notificaciones, y los favoritos de otros usuarios sobre sus
+ *   artículos borrados
+ * - Anonimiza el usuario ("Usuario eliminado"): el documento se conserva para
+ *   que sus mensajes, valoraciones e intercambios sigan apuntando a alguien
+ */
+
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import User, { getAccountDeletionGraceDays } from '../models/User';
+import Item from '../models/Item';
+import Trade, { OPEN_TRADE_STATUSES } from '../models/Trade';
+import { revokeUserSessions } from '../models/Session';
+import { clearLoginFailures, normalizeAccountKey } from '../models/LoginAttempt';
+import { deleteUserDataExports } from '../models/DataExport';
+import SavedSearch from '../models/SavedSearch';
+import Favorite from '../models/Favorite';
+import Notification from '../models/Notification';
+import { deleteImageSafely } from '../config/cloudinary';
+import { disconnectUserSessions } from '../config/socket';
+import { sendTemplateEmail, buildFrontendUrl } from '../mailer';
+import logger from './logger';
+
+/** Nombre que muestran las cuentas eliminadas */
+export const DELETED_USER_NAME = 'Usuario eliminado';
+
+/**
+ * Resumen de una eliminación ejecutada
+ */
+export interface AccountDeletionSummary {
+  /** Artículos borrados */
+  itemsDeleted: number;
+  /** Artículos archivados por formar parte de intercambios */
+  itemsArchived: number;
+  /** Imágenes borradas de Cloudinary */
+  imagesDeleted: number;
+  /** Intercambios abiertos cancelados */
+  tradesCancelled: number;
+}
+
+/**
+ * Programa la eliminación de una cuenta y avisa al usuario por email
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario a eliminar
+ * @param {'self' | 'admin'} requestedBy - Quién solicita la eliminación
+ * @param {mongoose.Types.ObjectId | string} [keepSessionId] - Sesión que se mantiene abierta (la del propio usuario)
+ * @returns {Promise<Date | null>} Fecha de eliminación o null si el usuario no existe o ya está eliminado
+ *
+ * @description
+ * Se cierran las demás sesiones del usuario: para cancelar la eliminación
+ * tiene que volver a iniciar sesión.
+ */
+export const scheduleAccountDeletion = async (
+  userId: mongoose.Types.ObjectId | string,
+  requestedBy: 'self' | 'admin',
+  keepSessionId?: mongoose.Types.ObjectId | string
+): Promise<Date | null> => {
+  const user = await User.findById(userId);
+  if (!user || user.deletedAt) {
+    return null;
+  }
+
+  const now = new Date();
+  const deletionDate = new Date(now.getTime() + getAccountDeletionGraceDays() * 24 * 60 * 60 * 1000);
+
+  await User.updateOne({ _id: user._id }, {
+    $set: {
+      deletionScheduledFor: deletionDate,
+      deletionRequestedAt: now,
+      deletionRequestedBy: requestedBy
+    }
+  });
+  await revokeUserSessions(user._id, keepSessionId);
+  disconnectUserSessions(user._id, keepSessionId);
+
+  logger.info(`Eliminación de la cuenta ${user._id} programada para el ${deletionDate.toISOString()} (${requestedBy})`);
+
+  try {
+    await sendTemplateEmail(user.email, 'accountDeletionScheduled', {
+      name: user.name,
+      deletionDate: deletionDate.toLocaleDateString('es-ES', { timeZone: 'Europe/Madrid' }),
+      requestedByAdmin: requestedBy === 'admin',
+      cancelUrl: buildFrontendUrl('/profile')
+    });
+  } catch (error: any) {
+    logger.error(`Error al enviar el aviso de eliminación a ${user.email}: ${error.message}`);
+  }
+
+  return deletionDate;
+};
+
+/**
+ * Cancela la eliminación programada de una cuenta
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @returns {Promise<boolean>} true si había una eliminación programada
+ */
+export const cancelAccountDeletion = async (userId: mongoose.Types.ObjectId | string): Promise<boolean> => {
+  const result = await User.updateOne(
+    { _id: userId, deletionScheduledFor: { $exists: true }, deletedAt: { $exists: false } },
+    { $unset: { deletionScheduledFor: 1, deletionRequestedAt: 1, deletionRequestedBy: 1 } }
+  );
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Eliminación de la cuenta ${userId} cancelada`);
+  }
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Elimina una cuenta: borra o archiva sus artículos y anonimiza al usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario a eliminar
+ * @returns {Promise<AccountDeletionSummary | null>} Resumen o null si el usuario no existe o ya está eliminado
+ */
+export const deleteUserAccount = async (
+  userId: mongoose.Types.ObjectId | string
+): Promise<AccountDeletionSummary | null> => {
+  const user = await User.findById(userId);
+  if (!user || user.deletedAt) {
+    return null;
+  }
+
+  const summary: AccountDeletionSummary = { itemsDeleted: 0, itemsArchived: 0, imagesDeleted: 0, tradesCancelled: 0 };
+  const now = new Date();
+
+  // Cancelar los intercambios abiertos antes de retirar los artículos
+  const openTrades = await Trade.updateMany(
+    { $or: [{ proposer: user._id }, { recipient: user._id }], status: { $in: OPEN_TRADE_STATUSES } },
+    {
+      $set: { status: 'cancelled' },
+      $push: { statusHistory: { status: 'cancelled', changedBy: user._id, changedAt: now } }
+    }
+  );
+  summary.tradesCancelled = openTrades.modifiedCount;
+
+  const items = await Item.find({ user: user._id });
+  const itemIds = items.map(item => item._id);
+  const tradedItemIds = new Set<string>([
+    ...(await Trade.distinct('requestedItem', { requestedItem: { $in: itemIds } })),
+    ...(await Trade.distinct('offeredItems', { offeredItems: { $in: itemIds } }))
+  ].map(String));
+
+  for (const item of items) {
+    for (const imageUrl of item.imageUrls || []) {
+      if (await deleteImageSafely(imageUrl)) {
+        summary.imagesDeleted++;
+      }
+    }
+  }
+
+  // Los artículos de intercambios se archivan para el historial de la otra parte
+  const archivedIds = itemIds.filter(id => tradedItemIds.has(String(id)));
+  if (archivedIds.length > 0) {
+    await Item.updateMany(
+      { _id: { $in: archivedIds }, status: { $nin: ['traded', 'withdrawn'] } },
+      {
+        $set: { status: 'withdrawn', statusChangedAt: now },
+        $unset: { reservedFor: 1 },
+        $push: { statusHistory: { status: 'withdrawn', changedBy: user._id, changedAt: now } }
+      }
+    );
+    await Item.updateMany(
+      { _id: { $in: archivedIds } },
+      { $set: { available: false, imageUrls: [], imagePublicIds: [] } }
+    );
+  }
+  summary.itemsArchived = archivedIds.length;
+
+  const removableIds = itemIds.filter(id => !tradedItemIds.has(String(id)));
+  const deletedItems = await Item.deleteMany({ _id: { $in: removableIds } });
+  await Favorite.deleteMany({ item: { $in: removableIds } });
+  summary.itemsDeleted = deletedItems.deletedCount;
+
+  if (user.avatar && user.avatar.startsWith('http') && await deleteImageSafely(user.avatar)) {
+    summary.imagesDeleted++;
+  }
+
+  await revokeUserSessions(user._id);
+  disconnectUserSessions(user._id);
+  await clearLoginFailures('account', normalizeAccountKey(user.email));
+  await deleteUserDataExports(user._id);
+  await SavedSearch.deleteMany({ user: user._id });
+  await Favorite.deleteMany({ user: user._id });
+  await Notification.deleteMany({ user: user._id });
+
+  // Anonimizar sin pasar por las validaciones: el documento se conserva como
+  // referencia de sus mensajes, valoraciones e intercambios
+  await User.updateOne({ _id: user._id }, {
+    $set: {
+      name: DELETED_USER_NAME,
+      email: `deleted-${user._id}@deleted.ecommunitas.invalid`,
+      password: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+      bio: '',
+      location: '',
+      avatar: 'default-avatar.png',
+      role: 'user',
+      isActive: false,
+      emailVerified: false,
+      twoFactorEnabled: false,
+      deletedAt: now
+    },
+    $unset: {
+      coordinates: 1,
+      exactCoordinates: 1,
+      passwordHistory: 1,
+      twoFactorSecret: 1,
+      twoFactorPendingSecret: 1,
+      twoFactorRecoveryCodes: 1,
+      twoFactorLastUsedStep: 1,
+      emailVerificationToken: 1,
+      emailVerificationExpire: 1,
+      resetPasswordToken: 1,
+      resetPasswordExpire: 1,
+      deletionScheduledFor: 1
+    }
+  });
+
+  logger.info(
+    `Cuenta ${user._id} eliminada: ${summary.itemsDeleted} artículos borrados, ` +
+    `${summary.itemsArchived} archivados, ${summary.imagesDeleted} imágenes y ${summary.tradesCancelled} intercambios cancelados`
+  );
+
+  return summary;
+};
+
+/**
+ * Ejecuta las eliminaciones de cuentas cuyo periodo de gracia ha vencido
+ *
+ * @returns {Promise<number>} Número de cuentas eliminadas
+ */
+export const processDueAccountDeletions = async (): Promise<number> => {
+  const dueUsers = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    deletedAt: { $exists: false }
+  }).select('_id');
+
+  let deleted = 0;
+  for (const { _id } of dueUsers) {
+    try {
+      if (await deleteUserAccount(_id)) {
+        deleted++;
+      }
+    } catch (error: any) {
+      logger.error(`Error al eliminar la cuenta ${_id}: ${error.message}`);
+    }
+  }
+
+  return deleted;
+};
@@ -0,0 +1,270 @@
+/**
+ * @file dataExport.ts
+ * @description Generación de la exportación de datos personales de un usuario
+ * @module Utils/DataExport
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Reúne todo lo que Ecommunitas guarda sobre un usuario y lo empaqueta en
+ * un archivo descargable:
+ * - Perfil (sin contraseñas, secretos ni tokens)
+ * - Artículos publicados con las URLs de sus imágenes
+ * - Mensajes enviados y recibidos
+ * - Búsquedas guardadas con sus filtros
+ * - Artículos favoritos
+ * - Historial de moderación: revisión de sus artículos, denuncias que ha
+ *   enviado y denuncias recibidas (sin identificar a quien denunció)
+ *
+ * Las cuentas pequeñas se exportan al momento; las grandes, en segundo plano.
+ */
+
+import mongoose from 'mongoose';
+import fs from 'fs/promises';
+import path from 'path';
+import User from '../models/User';
+import Item from '../models/Item';
+import Message from '../models/Message';
+import Report from '../models/Report';
+import SavedSearch from '../models/SavedSearch';
+import Favorite from '../models/Favorite';
+import DataExport, {
+  IDataExport,
+  DataExportFormat,
+  getDataExportSettings,
+  purgeExpiredDataExports
+} from '../models/DataExport';
+import { createZipArchive } from './zip';
+import logger from './logger';
+
+/**
+ * Datos exportados de un usuario, agrupados por sección
+ */
+export interface UserDataExport {
+  exportedAt: string;
+  profile: Record<string, any> | null;
+  items: Record<string, any>[];
+  messages: Record<string, any>[];
+  savedSearches: Record<string, any>[];
+  favorites: Record<string, any>[];
+  moderation: {
+    items: Record<string, any>[];
+    reportsFiled: Record<string, any>[];
+    reportsReceived: Record<string, any>[];
+  };
+}
+
+/** Minutos tras los que una exportación sin terminar se da por abandonada */
+const STALE_EXPORT_MINUTES = 60;
+
+/** Explicación incluida en el ZIP */
+const ZIP_README = [
+  'Exportación de tus datos en Ecommunitas',
+  '',
+  'profile.json     Tu perfil',
+  'items.json       Los artículos que has publicado, con las URLs de sus imágenes',
+  'messages.json    Los mensajes que has enviado y recibido',
+  'searches.json    Tus búsquedas guardadas',
+  'favorites.json   Los artículos que sigues en favoritos',
+  'moderation.json  La revisión de tus artículos y las denuncias enviadas y recibidas',
+  '',
+  'Las denuncias recibidas no incluyen quién las envió para proteger su privacidad.'
+].join('\n');
+
+/**
+ * Reúne los datos personales de un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @returns {Promise<UserDataExport>} Datos agrupados por sección
+ */
+export const collectUserData = async (userId: mongoose.Types.ObjectId | string): Promise<UserDataExport> => {
+  const profile = await User.findById(userId)
+    .select('-resetPasswordToken -resetPasswordExpire +exactCoordinates')
+    .lean();
+
+  const items = await Item.find({ user: userId })
+    .select('-imagePublicIds -moderatedBy +exactCoordinates')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const messages = await Message.find({ $or: [{ sender: userId }, { recipient: userId }] })
+    .populate('sender', 'name')
+    .populate('recipient', 'name')
+    .populate('item', 'title')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const sentMessageIds = messages
+    .filter((message: any) => String(message.sender?._id) === String(userId))
+    .map(message => message._id);
+
+  const savedSearches = await SavedSearch.find({ user: userId })
+    .select('name filters emailDigest createdAt')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const favorites = await Favorite.find({ user: userId })
+    .populate('item', 'title')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const reportsFiled = await Report.find({ reporter: userId })
+    .select('-reporter -targetModel -resolution.resolvedBy')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  // Denuncias contra el usuario, sus artículos o sus mensajes
+  const reportsReceived = await Report.find({
+    $or: [
+      { targetType: 'user', target: userId },
+      { targetType: 'item', target: { $in: items.map(item => item._id) } },
+      { targetType: 'message', target: { $in: sentMessageIds } }
+    ]
+  })
+    .select('targetType target reason status resolution.action resolution.note resolution.resolvedAt createdAt')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    items,
+    messages: messages.map((message: any) => ({
+      _id: message._id,
+      direction: String(message.sender?._id) === String(userId) ? 'sent' : 'received',
+      from: message.sender?.name || null,
+      to: message.recipient?.name || null,
+      item: message.item ? { _id: message.item._id, title: message.item.title } : null,
+      content: message.content,
+      read: message.read,
+      createdAt: message.createdAt
+    })),
+    savedSearches,
+    favorites: favorites.map((favorite: any) => ({
+      item: favorite.item ? { _id: favorite.item._id, title: favorite.item.title } : null,
+      createdAt: favorite.createdAt
+    })),
+    moderation: {
+      items: items.map(item => ({
+        _id: item._id,
+        title: item.title,
+        moderationStatus: item.moderationStatus,
+        moderatedAt: item.moderatedAt,
+        rejectionReason: item.rejectionReason
+      })),
+      reportsFiled,
+      reportsReceived
+    }
+  };
+};
+
+/**
+ * Empaqueta los datos exportados en el formato solicitado
+ *
+ * @param {UserDataExport} data - Datos del usuario
+ * @param {DataExportFormat} format - json (un único documento) o zip (un archivo por sección)
+ * @returns {Buffer} Contenido del archivo
+ */
+export const buildDataExportFile = (data: UserDataExport, format: DataExportFormat): Buffer => {
+  if (format === 'json') {
+    return Buffer.from(JSON.stringify(data, null, 2), 'utf8');
+  }
+
+  const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+  return createZipArchive([
+    { name: 'README.txt', content: ZIP_README },
+    { name: 'profile.json', content: toJson({ exportedAt: data.exportedAt, ...data.profile }) },
+    { name: 'items.json', content: toJson(data.items) },
+    { name: 'messages.json', content: toJson(data.messages) },
+    { name: 'searches.json', content: toJson(data.savedSearches) },
+    { name: 'favorites.json', content: toJson(data.favorites) },
+    { name: 'moderation.json', content: toJson(data.moderation) }
+  ]);
+};
+
+/**
+ * Genera el archivo de una exportación y actualiza su estado
+ *
+ * @param {IDataExport} dataExport - Exportación pendiente
+ * @returns {Promise<IDataExport>} Exportación completada o fallida
+ */
+export const processDataExport = async (dataExport: IDataExport): Promise<IDataExport> => {
+  const settings = getDataExportSettings();
+
+  dataExport.status = 'processing';
+  await dataExport.save();
+
+  try {
+    const data = await collectUserData(dataExport.user);
+    const content = buildDataExportFile(data, dataExport.format);
+    const filePath = path.join(settings.directory, `${dataExport._id}.${dataExport.format}`);
+
+    await fs.mkdir(settings.directory, { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    const completedAt = new Date();
+    dataExport.status = 'completed';
+    dataExport.filePath = filePath;
+    dataExport.fileName = `ecommunitas-mis-datos-${completedAt.toISOString().slice(0, 10)}.${dataExport.format}`;
+    dataExport.size = content.length;
+    dataExport.completedAt = completedAt;
+    dataExport.expiresAt = new Date(completedAt.getTime() + settings.expireDays * 24 * 60 * 60 * 1000);
+  } catch (err) {
+    logger.error(`Error al generar la exportación de datos ${dataExport._id}:`, err);
+    dataExport.status = 'failed';
+    dataExport.error = 'No se ha podido generar la exportación. Inténtalo de nuevo.';
+  }
+
+  await dataExport.save();
+  return dataExport;
+};
+
+/**
+ * Solicita una exportación de los datos de un usuario
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Usuario
+ * @param {DataExportFormat} format - Formato del archivo
+ * @returns {Promise<IDataExport>} Exportación completada o pendiente de generar
+ *
+ * @description
+ * Si ya hay una exportación en curso se devuelve esa. Las cuentas con más de
+ * DATA_EXPORT_SYNC_LIMIT artículos y mensajes se procesan en segundo plano:
+ * el usuario consulta el estado hasta que la exportación se completa.
+ */
+export const requestDataExport = async (
+  userId: mongoose.Types.ObjectId | string,
+  format: DataExportFormat
+): Promise<IDataExport> => {
+  const settings = getDataExportSettings();
+
+  const inProgress = await DataExport.findOne({
+    user: userId,
+    status: { $in: ['pending', 'processing'] },
+    updatedAt: { $gt: new Date(Date.now() - STALE_EXPORT_MINUTES * 60 * 1000) }
+  });
+  if (inProgress) {
+    return inProgress;
+  }
+
+  await purgeExpiredDataExports();
+
+  const dataExport = await DataExport.create({ user: userId, format });
+
+  const [itemCount, messageCount] = await Promise.all([
+    Item.countDocuments({ user: userId }),
+    Message.countDocuments({ $or: [{ sender: userId }, { recipient: userId }] })
+  ]);
+
+  if (itemCount + messageCount <= settings.syncLimit) {
+    return processDataExport(dataExport);
+  }
+
+  setImmediate(() => {
+    processDataExport(dataExport).catch(err =>
+      logger.error(`Error al procesar la exportación de datos ${dataExport._id}:`, err)
+    );
+  });
+
+  return dataExport;
+};
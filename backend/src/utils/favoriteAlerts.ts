@@ -0,0 +1,82 @@
+/**
+ * @file favoriteAlerts.ts
+ * @description Avisos a los usuarios que siguen un artículo en favoritos
+ * @module Utils/FavoriteAlerts
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cuando un artículo favorito cambia se crea una notificación para quienes
+ * lo siguen (nunca para su propietario):
+ * - reserved: el propietario lo ha reservado para otro usuario
+ * - traded: se ha intercambiado, manualmente o al completar un intercambio
+ * - updated: el propietario ha editado el anuncio
+ */
+
+import mongoose from 'mongoose';
+import Item from '../models/Item';
+import Favorite from '../models/Favorite';
+import { notifyUser } from './notifications';
+import logger from './logger';
+
+/**
+ * Cambios de un artículo que se avisan a quienes lo siguen
+ */
+export type FavoriteChange = 'reserved' | 'traded' | 'updated';
+
+/**
+ * Texto de la notificación para cada cambio
+ */
+const CHANGE_TITLES: Record<FavoriteChange, (title: string) => string> = {
+  reserved: title => `"${title}" ha sido reservado`,
+  traded: title => `"${title}" ya ha sido intercambiado`,
+  updated: title => `"${title}" ha sido actualizado`
+};
+
+/**
+ * Avisa a los usuarios que siguen unos artículos de un cambio
+ *
+ * @param {mongoose.Types.ObjectId[]} itemIds - Artículos que han cambiado
+ * @param {FavoriteChange} change - Tipo de cambio
+ * @returns {Promise<number>} Avisos enviados
+ *
+ * @description
+ * Nunca lanza: un fallo en los avisos no debe impedir el cambio.
+ */
+export const notifyItemWatchers = async (
+  itemIds: mongoose.Types.ObjectId[],
+  change: FavoriteChange
+): Promise<number> => {
+  try {
+    const favorites = await Favorite.find({ item: { $in: itemIds } }).select('user item');
+    if (favorites.length === 0) {
+      return 0;
+    }
+
+    const items = await Item.find({ _id: { $in: itemIds } }).select('title user');
+    const itemsById = new Map(items.map(item => [item._id.toString(), item]));
+
+    let notified = 0;
+    for (const favorite of favorites) {
+      const item = itemsById.get(favorite.item.toString());
+      if (!item || item.user.toString() === favorite.user.toString()) {
+        continue;
+      }
+
+      const created = await notifyUser(favorite.user, {
+        type: 'favorite_update',
+        title: CHANGE_TITLES[change](item.title),
+        link: `/item/${item._id}`,
+        payload: { itemId: item._id.toString(), change }
+      });
+      if (created) {
+        notified++;
+      }
+    }
+
+    return notified;
+  } catch (error: any) {
+    logger.error(`Error al avisar a los seguidores de los artículos ${itemIds.join(', ')}: ${error.message}`);
+    return 0;
+  }
+};
@@ -0,0 +1,177 @@
+/**
+ * @file itemAttributes.ts
+ * @description Atributos propios de la categoría de cada artículo
+ * @module Utils/ItemAttributes
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cada categoría define los atributos de sus artículos (autor e ISBN de un
+ * libro, talla y género de una prenda...). Este módulo:
+ * - Valida los atributos de un artículo contra los de su categoría al
+ *   publicarlo o modificarlo, convirtiendo cada valor a su tipo
+ * - Traduce los filtros attr.<clave>=<valor> de la búsqueda a condiciones
+ *   sobre el campo attributes del artículo
+ */
+
+import { getCategoryAttributes, getCategoryAttributeLabel, CATEGORY_ATTRIBUTE_KEY_PATTERN, ICategoryAttribute } from '../models/Category';
+import { ItemAttributeValue } from '../models/Item';
+import { AppError } from './app-error';
+
+/** Longitud máxima de un atributo de texto */
+export const MAX_TEXT_ATTRIBUTE_LENGTH = 200;
+
+/** Prefijo de los filtros de atributos en la búsqueda (attr.size=M) */
+const ATTRIBUTE_FILTER_PREFIX = 'attr.';
+
+/**
+ * Convierte el valor de un atributo a su tipo
+ *
+ * @param {ICategoryAttribute} attribute - Definición del atributo
+ * @param {unknown} value - Valor recibido (texto en las peticiones multipart)
+ * @returns {ItemAttributeValue} Valor convertido
+ * @throws {AppError} Si el valor no es válido para el tipo del atributo
+ */
+const parseAttributeValue = (attribute: ICategoryAttribute, value: unknown): ItemAttributeValue => {
+  const label = getCategoryAttributeLabel(attribute);
+
+  switch (attribute.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(number)) {
+        throw new AppError(`El atributo '${label}' debe ser un número`, 400);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw new AppError(`El atributo '${label}' debe ser sí o no`, 400);
+    case 'enum':
+      if (!attribute.options.includes(String(value))) {
+        throw new AppError(`El atributo '${label}' debe ser uno de: ${attribute.options.join(', ')}`, 400);
+      }
+      return String(value);
+    default: {
+      const text = String(value).trim();
+      if (text.length > MAX_TEXT_ATTRIBUTE_LENGTH) {
+        throw new AppError(`El atributo '${label}' no puede tener más de ${MAX_TEXT_ATTRIBUTE_LENGTH} caracteres`, 400);
+      }
+      return text;
+    }
+  }
+};
+
+/**
+ * Valida los atributos de un artículo contra los de su categoría
+ *
+ * @param {string} category - Slug de la categoría del artículo
+ * @param {unknown} input - Atributos recibidos: objeto o JSON (peticiones multipart)
+ * @param {object} options - dropUnknown descarta en lugar de rechazar los
+ * atributos que la categoría no define (al cambiar de categoría un artículo
+ * sin enviar sus atributos)
+ * @returns {Promise<Record<string, ItemAttributeValue>>} Atributos con cada valor convertido a su tipo
+ * @throws {AppError} Si falta un atributo obligatorio, sobra alguno o un valor no es válido
+ */
+export const validateItemAttributes = async (
+  category: string,
+  input: unknown,
+  { dropUnknown = false }: { dropUnknown?: boolean } = {}
+): Promise<Record<string, ItemAttributeValue>> => {
+  let values: unknown = input ?? {};
+
+  if (typeof values === 'string') {
+    try {
+      values = values.trim() ? JSON.parse(values) : {};
+    } catch (e) {
+      throw new AppError('Atributos inválidos', 400);
+    }
+  }
+
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new AppError('Atributos inválidos', 400);
+  }
+
+  const definitions = await getCategoryAttributes(category);
+  const received = values as Record<string, unknown>;
+  const attributes: Record<string, ItemAttributeValue> = {};
+
+  if (!dropUnknown) {
+    const unknownKeys = Object.keys(received).filter(key => !definitions.some(attribute => attribute.key === key));
+    if (unknownKeys.length > 0) {
+      throw new AppError(`La categoría no admite los atributos: ${unknownKeys.join(', ')}`, 400);
+    }
+  }
+
+  for (const attribute of definitions) {
+    const value = received[attribute.key];
+
+    // Los campos vacíos del formulario equivalen a no indicar el atributo
+    if (value === undefined || value === null || value === '') {
+      if (attribute.required) {
+        throw new AppError(`El atributo '${getCategoryAttributeLabel(attribute)}' es obligatorio`, 400);
+      }
+      continue;
+    }
+
+    attributes[attribute.key] = parseAttributeValue(attribute, value);
+  }
+
+  return attributes;
+};
+
+/**
+ * Extrae los filtros de atributos de los parámetros de la búsqueda
+ *
+ * @param {Record<string, unknown>} params - Parámetros de la consulta
+ * @returns {Record<string, string>} Valor buscado de cada atributo
+ *
+ * @description
+ * Admite attr.size=M y attr[size]=M. Las claves que no tienen el formato de
+ * una clave de atributo y los valores que no son texto se ignoran, de modo
+ * que los filtros no pueden inyectar operadores de MongoDB.
+ */
+export const getAttributeFilters = (params: Record<string, unknown>): Record<string, string> => {
+  const filters: Record<string, string> = {};
+  const nested = params.attr && typeof params.attr === 'object' ? params.attr as Record<string, unknown> : {};
+  const entries = [
+    ...Object.entries(nested),
+    ...Object.entries(params)
+      .filter(([key]) => key.startsWith(ATTRIBUTE_FILTER_PREFIX))
+      .map(([key, value]): [string, unknown] => [key.slice(ATTRIBUTE_FILTER_PREFIX.length), value])
+  ];
+
+  for (const [key, value] of entries) {
+    if (CATEGORY_ATTRIBUTE_KEY_PATTERN.test(key) && typeof value === 'string' && value.trim()) {
+      filters[key] = value.trim();
+    }
+  }
+
+  return filters;
+};
+
+/**
+ * Condiciones de MongoDB de los filtros de atributos
+ *
+ * @param {Record<string, string>} filters - Valor buscado de cada atributo
+ * @returns {Record<string, unknown>} Condición sobre attributes.<clave> de cada filtro
+ *
+ * @description
+ * Los filtros llegan como texto, así que cada valor también se compara con
+ * su equivalente numérico o booleano para encontrar los atributos number y boolean.
+ */
+export const buildAttributeQuery = (filters: Record<string, string>): Record<string, unknown> => {
+  const query: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(filters)) {
+    const candidates: ItemAttributeValue[] = [value];
+    const number = Number(value);
+
+    if (Number.isFinite(number)) candidates.push(number);
+    if (value === 'true' || value === 'false') candidates.push(value === 'true');
+
+    query[`attributes.${key}`] = candidates.length === 1 ? value : { $in: candidates };
+  }
+
+  return query;
+};
@@ -0,0 +1,131 @@
+/**
+ * @file itemLifecycle.ts
+ * @description Transiciones del ciclo de vida de los artículos
+ * @module Utils/ItemLifecycle
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Centraliza los cambios de estado de los artículos para que todos pasen por
+ * la misma validación (ITEM_TRANSITIONS) y dejen rastro en el historial:
+ * - Cambios manuales del propietario o de un administrador
+ * - Artículos intercambiados al completar un intercambio
+ * - Caducidad de los anuncios activos sin cambios durante ITEM_EXPIRE_DAYS
+ */
+
+import mongoose from 'mongoose';
+import Item, { IItem, ItemStatus, ITEM_TRANSITIONS, NOT_DELETED_FILTER, getItemExpireDays } from '../models/Item';
+import { AppError } from './app-error';
+
+/**
+ * Aplica una transición de estado a un artículo (sin guardarlo)
+ *
+ * @param {IItem} item - Artículo a modificar
+ * @param {ItemStatus} status - Estado destino
+ * @param {string} [changedBy] - Usuario que provoca el cambio
+ * @param {string} [reservedFor] - Usuario para el que se reserva (obligatorio en 'reserved')
+ * @throws {AppError} Si la transición no está permitida
+ */
+export const transitionItem = (
+  item: IItem,
+  status: ItemStatus,
+  changedBy?: string,
+  reservedFor?: string
+): void => {
+  if (!ITEM_TRANSITIONS[item.status].includes(status)) {
+    throw new AppError(`No se puede pasar un artículo de '${item.status}' a '${status}'`, 400);
+  }
+
+  const now = new Date();
+
+  item.status = status;
+  item.statusChangedAt = now;
+  item.reservedFor = status === 'reserved' && reservedFor ? new mongoose.Types.ObjectId(reservedFor) : undefined;
+  item.statusHistory.push({
+    status,
+    changedBy: changedBy ? new mongoose.Types.ObjectId(changedBy) : undefined,
+    reservedFor: item.reservedFor,
+    changedAt: now
+  });
+};
+
+/**
+ * Marca como intercambiados los artículos de un intercambio completado
+ *
+ * @param {mongoose.Types.ObjectId[]} itemIds - Artículos del intercambio
+ * @param {string} changedBy - Usuario que completa el intercambio
+ * @returns {Promise<boolean>} true si se marcaron todos; false si alguno ya no
+ * estaba disponible, en cuyo caso no se marca ninguno
+ *
+ * @description
+ * Cada artículo se marca con una actualización condicionada a su estado, de
+ * modo que dos intercambios completados a la vez sobre el mismo artículo no
+ * pueden marcarlo los dos. Si alguno falla se deshacen los ya marcados.
+ */
+export const markItemsTraded = async (
+  itemIds: mongoose.Types.ObjectId[],
+  changedBy: string
+): Promise<boolean> => {
+  const now = new Date();
+  const marked: IItem[] = [];
+
+  for (const itemId of itemIds) {
+    // Se devuelve el documento anterior para poder deshacer el cambio
+    const previous = await Item.findOneAndUpdate(
+      { _id: itemId, status: { $in: ['active', 'reserved'] }, ...NOT_DELETED_FILTER },
+      {
+        $set: { status: 'traded', statusChangedAt: now, available: false },
+        $unset: { reservedFor: 1 },
+        $push: { statusHistory: { status: 'traded', changedBy, changedAt: now } }
+      }
+    );
+
+    if (!previous) {
+      await Promise.all(marked.map(item => Item.updateOne(
+        { _id: item._id, status: 'traded' },
+        {
+          $set: {
+            status: item.status,
+            statusChangedAt: item.statusChangedAt,
+            available: item.available,
+            ...(item.reservedFor ? { reservedFor: item.reservedFor } : {})
+          },
+          $pop: { statusHistory: 1 }
+        }
+      )));
+      return false;
+    }
+
+    marked.push(previous);
+  }
+
+  return true;
+};
+
+/**
+ * Caduca los anuncios activos que llevan ITEM_EXPIRE_DAYS sin cambios de estado
+ *
+ * @returns {Promise<number>} Anuncios caducados
+ *
+ * @description
+ * El propietario puede volver a publicarlos (expired → active), lo que
+ * reinicia el plazo.
+ */
+export const expireStaleItems = async (): Promise<number> => {
+  const expireDays = getItemExpireDays();
+  if (expireDays <= 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - expireDays * 24 * 60 * 60 * 1000);
+  const result = await Item.updateMany(
+    { status: 'active', statusChangedAt: { $lte: cutoff }, ...NOT_DELETED_FILTER },
+    {
+      $set: { status: 'expired', statusChangedAt: now, available: false },
+      $push: { statusHistory: { status: 'expired', changedAt: now } }
+    }
+  );
+
+  return result.modifiedCount;
+};
@@ -0,0 +1,263 @@
+/**
+ * @file itemMap.ts
+ * @description Artículos del mapa agrupados por zonas
+ * @module Utils/ItemMap
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Devuelve los artículos geolocalizados dentro del área visible del mapa:
+ * - La zona se divide en una rejilla cuyo tamaño depende del zoom y cada
+ *   celda con varios artículos se devuelve como un grupo con su número
+ * - Las celdas con un solo artículo, y todas a partir de MAP_PINS_ZOOM, se
+ *   devuelven como marcadores individuales (como mucho MAP_MAX_PINS)
+ * - Se rechazan las áreas que, para su zoom, tendrían más de MAP_MAX_CELLS
+ *   celdas: ninguna pantalla muestra tantas y agruparlas es costoso
+ * - Los filtros son los de la búsqueda pública (buildItemSearchQuery), así
+ *   que el mapa y el listado muestran los mismos artículos
+ */
+
+import Item from '../models/Item';
+import { AppError } from './app-error';
+import { buildItemSearchQuery, ItemSearchFilters } from './itemSearch';
+
+/** Zoom a partir del cual se devuelven siempre marcadores individuales */
+export const MAP_PINS_ZOOM = 15;
+
+/** Zoom máximo admitido */
+export const MAP_MAX_ZOOM = 20;
+
+/** Número máximo de marcadores individuales por petición */
+export const MAP_MAX_PINS = 500;
+
+/** Número máximo de celdas de la rejilla por petición (unas cuatro pantallas 4K) */
+export const MAP_MAX_CELLS = 8192;
+
+/** Celdas de la rejilla por cada tesela de 256 px del mapa */
+const CELLS_PER_TILE = 4;
+
+/**
+ * Área visible del mapa en grados
+ */
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Grupo de artículos de una celda de la rejilla
+ */
+export interface MapCluster {
+  /** Centro del grupo (media de sus artículos) */
+  lat: number;
+  lng: number;
+  /** Artículos del grupo */
+  count: number;
+  /** Extensión del grupo [oeste, sur, este, norte] para acercar el mapa */
+  bounds: [number, number, number, number];
+}
+
+/**
+ * Resultado del mapa para un área y un zoom
+ */
+export interface ItemMapResult {
+  /** Grupos de artículos (vacío a partir de MAP_PINS_ZOOM) */
+  clusters: MapCluster[];
+  /** Marcadores individuales */
+  items: any[];
+  /** Artículos que hay en el área */
+  total: number;
+  /** Si se han omitido marcadores por superar MAP_MAX_PINS */
+  truncated: boolean;
+}
+
+/** Campos de los marcadores individuales */
+const PIN_FIELDS = 'title category condition status imageUrls location coordinates.coordinates createdAt';
+
+/**
+ * Interpreta el parámetro bbox del mapa
+ *
+ * @param {unknown} bbox - "oeste,sur,este,norte" en grados
+ * @returns {MapBounds} Área del mapa
+ * @throws {AppError} Si el área no es válida
+ *
+ * @description
+ * El oeste puede ser mayor que el este cuando el área cruza el antimeridiano.
+ */
+export const parseMapBounds = (bbox: unknown): MapBounds => {
+  const values = typeof bbox === 'string' ? bbox.split(',').map(value => parseFloat(value)) : [];
+
+  if (values.length !== 4 || values.some(value => isNaN(value))) {
+    throw new AppError('bbox debe tener el formato oeste,sur,este,norte', 400);
+  }
+
+  const [west, south, east, north] = values;
+  if ([west, east].some(lng => lng < -180 || lng > 180) || [south, north].some(lat => lat < -90 || lat > 90)) {
+    throw new AppError('bbox contiene coordenadas fuera de rango', 400);
+  }
+
+  if (south >= north) {
+    throw new AppError('El sur de bbox debe ser menor que el norte', 400);
+  }
+
+  return { west, south, east, north };
+};
+
+/**
+ * Interpreta el parámetro zoom del mapa
+ *
+ * @param {unknown} zoom - Nivel de zoom (0 a MAP_MAX_ZOOM)
+ * @returns {number} Zoom entero
+ * @throws {AppError} Si el zoom no es válido
+ */
+export const parseMapZoom = (zoom: unknown): number => {
+  const value = parseInt(zoom as string, 10);
+
+  if (isNaN(value) || value < 0 || value > MAP_MAX_ZOOM) {
+    throw new AppError(`zoom debe ser un número entre 0 y ${MAP_MAX_ZOOM}`, 400);
+  }
+
+  return value;
+};
+
+/**
+ * Tamaño en grados de las celdas de la rejilla para un zoom
+ *
+ * @param {number} zoom - Nivel de zoom
+ * @returns {number} Lado de la celda en grados
+ */
+export const getMapCellSize = (zoom: number): number => 360 / (Math.pow(2, zoom) * CELLS_PER_TILE);
+
+/**
+ * Número de celdas de la rejilla que cubren un área
+ *
+ * @param {MapBounds} bounds - Área del mapa
+ * @param {number} zoom - Nivel de zoom
+ * @returns {number} Celdas de la rejilla
+ */
+export const countMapCells = (bounds: MapBounds, zoom: number): number => {
+  const cellSize = getMapCellSize(zoom);
+  const lngSpan = bounds.west > bounds.east ? bounds.east + 360 - bounds.west : bounds.east - bounds.west;
+
+  return Math.ceil(lngSpan / cellSize) * Math.ceil((bounds.north - bounds.south) / cellSize);
+};
+
+/**
+ * Construye la consulta de los artículos dentro del área del mapa
+ *
+ * @param {ItemSearchFilters} filters - Filtros de la búsqueda (sin proximidad)
+ * @param {MapBounds} bounds - Área del mapa
+ * @returns {Promise<any>} Filtro de MongoDB
+ */
+export const buildItemMapQuery = async (filters: ItemSearchFilters, bounds: MapBounds): Promise<any> => {
+  const { query } = await buildItemSearchQuery({ ...filters, lat: undefined, lng: undefined });
+  const box = (west: number, east: number) => ({
+    'coordinates.coordinates': { $geoWithin: { $box: [[west, bounds.south], [east, bounds.north]] } }
+  });
+
+  query['coordinates.enabled'] = true;
+
+  // Un área que cruza el antimeridiano se parte en dos rectángulos
+  if (bounds.west > bounds.east) {
+    query.$and = [
+      ...(query.$and || []),
+      { $or: [box(bounds.west, 180), box(-180, bounds.east)] }
+    ];
+  } else {
+    Object.assign(query, box(bounds.west, bounds.east));
+  }
+
+  return query;
+};
+
+/**
+ * Lleva una longitud al rango -180 a 180
+ *
+ * @param {number} lng - Longitud en grados
+ * @returns {number} Longitud normalizada
+ */
+const toLongitude = (lng: number): number => (lng > 180 ? lng - 360 : lng);
+
+/**
+ * Obtiene los grupos y marcadores del mapa
+ *
+ * @param {ItemSearchFilters} filters - Filtros de la búsqueda
+ * @param {MapBounds} bounds - Área del mapa
+ * @param {number} zoom - Nivel de zoom
+ * @returns {Promise<ItemMapResult>} Grupos y marcadores del área
+ * @throws {AppError} Si el área tiene demasiadas celdas para su zoom
+ */
+export const getItemMap = async (
+  filters: ItemSearchFilters,
+  bounds: MapBounds,
+  zoom: number
+): Promise<ItemMapResult> => {
+  const query = await buildItemMapQuery(filters, bounds);
+
+  if (zoom >= MAP_PINS_ZOOM) {
+    const [items, total] = await Promise.all([
+      Item.find(query).select(PIN_FIELDS).sort({ createdAt: -1 }).limit(MAP_MAX_PINS).lean(),
+      Item.countDocuments(query)
+    ]);
+
+    return { clusters: [], items, total, truncated: total > items.length };
+  }
+
+  if (countMapCells(bounds, zoom) > MAP_MAX_CELLS) {
+    throw new AppError('El área del mapa es demasiado grande para este zoom', 400);
+  }
+
+  // Las celdas se cuentan desde el oeste del área (sumando 360 al otro lado
+  // del antimeridiano) para que la rejilla no se corte dentro del mapa
+  const cellSize = getMapCellSize(zoom);
+  const lng = { $arrayElemAt: ['$coordinates.coordinates', 0] };
+  const lat = { $arrayElemAt: ['$coordinates.coordinates', 1] };
+  const offsetLng = {
+    $cond: [{ $lt: [lng, bounds.west] }, { $add: [lng, 360 - bounds.west] }, { $subtract: [lng, bounds.west] }]
+  };
+
+  const cells = await Item.aggregate([
+    { $match: query },
+    { $project: { lat, offsetLng } },
+    {
+      $group: {
+        _id: {
+          x: { $floor: { $divide: ['$offsetLng', cellSize] } },
+          y: { $floor: { $divide: [{ $subtract: ['$lat', bounds.south] }, cellSize] } }
+        },
+        count: { $sum: 1 },
+        offsetLng: { $avg: '$offsetLng' },
+        lat: { $avg: '$lat' },
+        west: { $min: '$offsetLng' },
+        east: { $max: '$offsetLng' },
+        south: { $min: '$lat' },
+        north: { $max: '$lat' },
+        itemId: { $first: '$_id' }
+      }
+    }
+  ]);
+
+  const clusters: MapCluster[] = cells
+    .filter(cell => cell.count > 1)
+    .map(cell => ({
+      lat: cell.lat,
+      lng: toLongitude(bounds.west + cell.offsetLng),
+      count: cell.count,
+      bounds: [toLongitude(bounds.west + cell.west), cell.south, toLongitude(bounds.west + cell.east), cell.north]
+    }));
+
+  // Como con zoom alto, solo los MAP_MAX_PINS marcadores más recientes
+  const singleIds = cells.filter(cell => cell.count === 1).map(cell => cell.itemId);
+  const items = singleIds.length > 0
+    ? await Item.find({ _id: { $in: singleIds } }).select(PIN_FIELDS).sort({ createdAt: -1 }).limit(MAP_MAX_PINS).lean()
+    : [];
+
+  return {
+    clusters,
+    items,
+    total: cells.reduce((sum, cell) => sum + cell.count, 0),
+    truncated: singleIds.length > items.length
+  };
+};
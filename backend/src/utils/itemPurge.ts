@@ -0,0 +1,81 @@
+/**
+ * @file itemPurge.ts
+ * @description Purga definitiva de los artículos de la papelera
+ * @module Utils/ItemPurge
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Los artículos eliminados se conservan en la papelera (deletedAt) para que el
+ * propietario pueda restaurarlos durante ITEM_RESTORE_DAYS y los moderadores
+ * puedan revisarlos. Pasados ITEM_PURGE_DAYS la tarea programada los borra:
+ * - Borra sus imágenes de Cloudinary
+ * - Borra el documento del artículo y los favoritos que lo siguen
+ * - Aplaza la purga de los artículos con denuncias pendientes, que siguen
+ *   siendo la prueba de la denuncia hasta que moderación la resuelva
+ * - Archiva (sin imágenes, con archivedAt) en vez de borrar los artículos que
+ *   forman parte de intercambios, para conservar el historial de la otra parte
+ */
+
+import Item, { getItemDeletionSettings } from '../models/Item';
+import Report from '../models/Report';
+import Trade from '../models/Trade';
+import Favorite from '../models/Favorite';
+import { deleteImageSafely } from '../config/cloudinary';
+import logger from './logger';
+
+/**
+ * Purga los artículos eliminados cuyo plazo de conservación ha vencido
+ *
+ * @returns {Promise<number>} Número de artículos purgados (borrados o archivados)
+ */
+export const purgeDeletedItems = async (): Promise<number> => {
+  const { purgeDays } = getItemDeletionSettings();
+  const cutoff = new Date(Date.now() - purgeDays * 24 * 60 * 60 * 1000);
+
+  const expiredItems = await Item.find({ deletedAt: { $lte: cutoff }, archivedAt: { $exists: false } }).select('imageUrls');
+  if (expiredItems.length === 0) {
+    return 0;
+  }
+
+  const reportedIds = new Set<string>((await Report.distinct('target', {
+    targetType: 'item',
+    status: 'pending',
+    target: { $in: expiredItems.map(item => item._id) }
+  })).map(String));
+
+  const purgeable = expiredItems.filter(item => !reportedIds.has(String(item._id)));
+
+  let imagesDeleted = 0;
+  for (const item of purgeable) {
+    for (const imageUrl of item.imageUrls || []) {
+      if (await deleteImageSafely(imageUrl)) {
+        imagesDeleted++;
+      }
+    }
+  }
+
+  const purgeableIds = purgeable.map(item => item._id);
+  const tradedIds = new Set<string>([
+    ...(await Trade.distinct('requestedItem', { requestedItem: { $in: purgeableIds } })),
+    ...(await Trade.distinct('offeredItems', { offeredItems: { $in: purgeableIds } }))
+  ].map(String));
+
+  const archivedIds = purgeableIds.filter(id => tradedIds.has(String(id)));
+  const archived = await Item.updateMany(
+    { _id: { $in: archivedIds } },
+    { $set: { archivedAt: new Date(), available: false, imageUrls: [], imagePublicIds: [] } }
+  );
+
+  const result = await Item.deleteMany({ _id: { $in: purgeableIds.filter(id => !tradedIds.has(String(id))) } });
+  await Favorite.deleteMany({ item: { $in: purgeableIds } });
+
+  const purged = result.deletedCount + archived.modifiedCount;
+  if (purged > 0) {
+    logger.info(
+      `Papelera: ${result.deletedCount} artículos purgados, ${archived.modifiedCount} archivados ` +
+      `por sus intercambios y ${imagesDeleted} imágenes borradas`
+    );
+  }
+  return purged;
+};
@@ -0,0 +1,184 @@
+/**
+ * @file itemSearch.ts
+ * @description Construcción de la consulta de búsqueda de artículos
+ * @module Utils/ItemSearch
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Traduce los filtros de la búsqueda pública (texto, categoría, condición,
+ * atributos de la categoría, ubicación y proximidad) a una consulta de MongoDB. La comparten:
+ * - searchItems, que la ejecuta con paginación y ordenamiento
+ * - Las búsquedas guardadas, que la usan para saber si un artículo recién
+ *   publicado coincide, de modo que las alertas y la búsqueda den los
+ *   mismos resultados
+ *
+ * El filtro por categoría incluye las subcategorías de la categoría elegida.
+ */
+
+import { NOT_DELETED_FILTER } from '../models/Item';
+import { getCategoryFamily } from '../models/Category';
+import { buildAttributeQuery } from './itemAttributes';
+
+/**
+ * Filtros admitidos por la búsqueda de artículos
+ */
+export interface ItemSearchFilters {
+  /** Consulta de texto */
+  q?: unknown;
+  /** Categoría (incluye sus subcategorías) */
+  category?: unknown;
+  /** Condición exacta */
+  condition?: unknown;
+  /** Valor exacto de atributos de la categoría por clave (attr.size=M) */
+  attributes?: Record<string, string>;
+  /** Ubicación en texto (coincidencia parcial) */
+  location?: unknown;
+  /** Latitud para búsqueda geoespacial */
+  lat?: unknown;
+  /** Longitud para búsqueda geoespacial */
+  lng?: unknown;
+  /** Radio de búsqueda en km (por defecto 10) */
+  distance?: unknown;
+}
+
+/**
+ * Consulta construida a partir de los filtros
+ */
+export interface ItemSearchQuery {
+  /** Filtro de MongoDB */
+  query: any;
+  /** Centro [lng, lat] y radio en km si la búsqueda es geoespacial */
+  geo: { coordinates: [number, number]; distance: number } | null;
+}
+
+/**
+ * Construye la consulta de MongoDB de la búsqueda de artículos
+ *
+ * @param {ItemSearchFilters} filters - Filtros de la búsqueda
+ * @returns {Promise<ItemSearchQuery>} Consulta y datos de la búsqueda geoespacial
+ *
+ * @description
+ * Solo devuelve anuncios activos, no rechazados en moderación y fuera de la
+ * papelera. Las coordenadas no válidas se ignoran en lugar de fallar.
+ */
+export const buildItemSearchQuery = async (filters: ItemSearchFilters): Promise<ItemSearchQuery> => {
+  const { q, category, condition, attributes, location, lat, lng, distance = 10 } = filters;
+  const query: any = {};
+  let geo: ItemSearchQuery['geo'] = null;
+
+  /**
+   * FILTRO DE BÚSQUEDA DE TEXTO
+   * Utiliza índice de texto de MongoDB para búsqueda eficiente
+   * Fallback a regex si el índice no está disponible
+   */
+  if (q) {
+    const searchText = (q as string).trim();
+
+    if (searchText.length > 0) {
+      try {
+        query.$text = { $search: searchText };
+      } catch (err) {
+        /**
+         * Fallback a búsqueda por expresiones regulares
+         * Busca en título y descripción con insensibilidad a mayúsculas
+         */
+        query.$or = [
+          { title: { $regex: searchText, $options: 'i' } },
+          { description: { $regex: searchText, $options: 'i' } }
+        ];
+      }
+    }
+  }
+
+  /**
+   * FILTRO POR CATEGORÍA
+   * La categoría especificada o cualquiera de sus subcategorías
+   */
+  if (category) {
+    query.category = { $in: await getCategoryFamily(String(category).toLowerCase()) };
+  }
+
+  /**
+   * FILTRO POR CONDICIÓN
+   * Coincidencia exacta con la condición del artículo
+   */
+  if (condition) {
+    query.condition = condition;
+  }
+
+  /**
+   * FILTRO POR ATRIBUTOS DE LA CATEGORÍA
+   * Coincidencia exacta con el valor de cada atributo
+   */
+  if (attributes) {
+    Object.assign(query, buildAttributeQuery(attributes));
+  }
+
+  /**
+   * FILTRO POR UBICACIÓN (TEXTO)
+   * Búsqueda parcial en el campo de ubicación
+   */
+  if (location) {
+    query.location = { $regex: location, $options: 'i' };
+  }
+
+  /**
+   * FILTRO POR ESTADO
+   * Solo mostrar anuncios activos que no hayan sido rechazados en moderación
+   */
+  query.status = 'active';
+  query.moderationStatus = { $ne: 'rejected' };
+
+  /**
+   * FILTRO DE PAPELERA
+   * Excluir artículos eliminados pendientes de purga
+   */
+  Object.assign(query, NOT_DELETED_FILTER);
+
+  /**
+   * FILTRO GEOESPACIAL POR PROXIMIDAD
+   * Utiliza índices 2dsphere de MongoDB para búsqueda eficiente
+   */
+  if (lat && lng) {
+    const parsedLat = parseFloat(lat as string);
+    const parsedLng = parseFloat(lng as string);
+    const parsedDistance = parseInt(distance as string) || 10;
+
+    /**
+     * Validar rangos de coordenadas geográficas
+     * Latitud: -90 a 90, Longitud: -180 a 180
+     */
+    if (isNaN(parsedLat) || isNaN(parsedLng)) {
+      // Coordenadas no numéricas: se busca sin filtro de proximidad
+    } else if (parsedLat < -90 || parsedLat > 90 || parsedLng < -180 || parsedLng > 180) {
+      console.error('Coordenadas fuera de rango válido:', { lat: parsedLat, lng: parsedLng });
+    } else {
+      /**
+       * Filtrar solo artículos con geolocalización habilitada
+       * Evita errores en artículos sin coordenadas
+       */
+      query['coordinates.enabled'] = true;
+
+      /**
+       * Configurar búsqueda geoespacial con $near
+       * - Ordena automáticamente por distancia (más eficiente)
+       * - Utiliza índice 2dsphere para optimización
+       * - Convierte kilómetros a metros para MongoDB
+       */
+      query['coordinates.coordinates'] = {
+        $near: {
+          $geometry: {
+            type: 'Point',
+            coordinates: [parsedLng, parsedLat] // GeoJSON: [lng, lat]
+          },
+          $maxDistance: parsedDistance * 1000 // Convertir km a metros
+        }
+      };
+
+      geo = { coordinates: [parsedLng, parsedLat], distance: parsedDistance };
+    }
+  }
+
+  return { query, geo };
+};
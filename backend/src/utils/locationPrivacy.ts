@@ -0,0 +1,129 @@
+/**
+ * @file locationPrivacy.ts
+ * @description Privacidad de las ubicaciones de artículos y perfiles
+ * @module Utils/LocationPrivacy
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * El punto exacto que elige un usuario suele ser su casa, así que no se
+ * publica nunca:
+ * - Se guarda en exactCoordinates (campo no seleccionado por defecto)
+ * - El campo público coordinates guarda el centro de la celda de una rejilla
+ *   de LOCATION_PRIVACY_GRID_METERS metros (500 por defecto). Es determinista:
+ *   el mismo punto da siempre la misma ubicación pública, por lo que no puede
+ *   promediarse para reconstruir el punto exacto
+ * - Las distancias entre usuarios se calculan sobre las ubicaciones públicas
+ *   y se redondean a DISTANCE_STEP_KM
+ * - El punto exacto de un artículo solo lo ven su propietario y la otra parte
+ *   de un intercambio aceptado o completado en el que participa el artículo
+ *
+ * Todas las consultas (búsqueda, mapa, alertas) usan el campo público, así
+ * que ninguna respuesta filtra el punto exacto.
+ */
+
+import Trade, { AGREED_TRADE_STATUSES } from '../models/Trade';
+
+/** Metros por grado de latitud */
+const METERS_PER_DEGREE = 111320;
+
+/** Radio de la Tierra en kilómetros */
+const EARTH_RADIUS_KM = 6371;
+
+/** Precisión de las distancias aproximadas en kilómetros */
+export const DISTANCE_STEP_KM = 0.5;
+
+/**
+ * Lado de la celda de la rejilla en metros
+ *
+ * @returns {number} LOCATION_PRIVACY_GRID_METERS (500 por defecto)
+ */
+export const getLocationGridMeters = (): number =>
+  parseInt(process.env.LOCATION_PRIVACY_GRID_METERS || '500', 10);
+
+/**
+ * Ubicación pública de un punto: el centro de su celda de la rejilla
+ *
+ * @param {[number, number]} point - Punto exacto [longitud, latitud]
+ * @returns {[number, number]} Punto público [longitud, latitud]
+ *
+ * @description
+ * Las filas de la rejilla miden lo mismo en todo el mundo; las columnas se
+ * ensanchan en grados según la latitud del centro de la fila para que las
+ * celdas sigan midiendo lo mismo en metros.
+ */
+export const fuzzCoordinates = ([lng, lat]: [number, number]): [number, number] => {
+  const latStep = getLocationGridMeters() / METERS_PER_DEGREE;
+  const rowLat = Math.min(Math.max((Math.floor(lat / latStep) + 0.5) * latStep, -89.9), 89.9);
+
+  const lngStep = latStep / Math.cos(rowLat * Math.PI / 180);
+  const cellLng = (Math.floor(lng / lngStep) + 0.5) * lngStep;
+
+  return [
+    Math.round(Math.min(Math.max(cellLng, -180), 180) * 1e6) / 1e6,
+    Math.round(rowLat * 1e6) / 1e6
+  ];
+};
+
+/**
+ * Campos de ubicación a guardar a partir del punto exacto
+ *
+ * @param {[number, number]} point - Punto exacto [longitud, latitud]
+ * @returns {{ coordinates: [number, number]; exactCoordinates: [number, number] }}
+ * Punto público para coordinates.coordinates y punto exacto para exactCoordinates
+ */
+export const toPrivateLocation = (point: [number, number]) => ({
+  coordinates: fuzzCoordinates(point),
+  exactCoordinates: point
+});
+
+/**
+ * Distancia aproximada entre dos puntos públicos
+ *
+ * @param {[number, number]} from - Punto [longitud, latitud]
+ * @param {[number, number]} to - Punto [longitud, latitud]
+ * @returns {number} Kilómetros redondeados a DISTANCE_STEP_KM (nunca 0: dos
+ * puntos de la misma celda están "a menos de" DISTANCE_STEP_KM)
+ */
+export const getApproximateDistance = ([fromLng, fromLat]: [number, number], [toLng, toLat]: [number, number]): number => {
+  const dLat = (toLat - fromLat) * Math.PI / 180;
+  const dLng = (toLng - fromLng) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(fromLat * Math.PI / 180) * Math.cos(toLat * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const distance = EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return Math.max(DISTANCE_STEP_KM, Math.round(distance / DISTANCE_STEP_KM) * DISTANCE_STEP_KM);
+};
+
+/**
+ * Indica si un usuario puede ver el punto exacto de un artículo
+ *
+ * @param {string | undefined} viewerId - Usuario que consulta (si está identificado)
+ * @param {{ _id: any; user: any }} item - Artículo con su propietario (poblado o no)
+ * @returns {Promise<boolean>} true para el propietario y para la otra parte de
+ * un intercambio aceptado o completado en el que participa el artículo
+ */
+export const canSeeExactItemLocation = async (
+  viewerId: string | undefined,
+  item: { _id: any; user: any }
+): Promise<boolean> => {
+  if (!viewerId) {
+    return false;
+  }
+
+  const ownerId = String(item.user?._id || item.user);
+  if (ownerId === viewerId) {
+    return true;
+  }
+
+  const trade = await Trade.exists({
+    status: { $in: AGREED_TRADE_STATUSES },
+    $and: [
+      { $or: [{ proposer: viewerId, recipient: ownerId }, { proposer: ownerId, recipient: viewerId }] },
+      { $or: [{ requestedItem: item._id }, { offeredItems: item._id }] }
+    ]
+  });
+
+  return trade !== null;
+};
@@ -0,0 +1,141 @@
+/**
+ * @file loginThrottle.ts
+ * @description Límite de intentos fallidos al autenticarse
+ * @module Utils/LoginThrottle
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Funciones compartidas por el inicio de sesión y por las acciones que piden
+ * de nuevo la contraseña con la sesión abierta (cambiar la contraseña,
+ * desactivar la verificación en dos pasos o eliminar la cuenta). Todos los
+ * fallos cuentan para el mismo límite por cuenta y por IP, de modo que un
+ * token de acceso robado no permite adivinar la contraseña sin límite.
+ */
+
+import { Request, Response } from 'express';
+import {
+  getLoginBlock,
+  registerLoginFailure,
+  clearLoginFailures,
+  createUnlockToken,
+  normalizeAccountKey,
+  getLoginThrottleSettings,
+  LoginBlock
+} from '../models/LoginAttempt';
+import ErrorResponse from './errorResponse';
+import { sendTemplateEmail, buildFrontendUrl } from '../mailer';
+import logger from './logger';
+
+/**
+ * @desc    Anotar un inicio de sesión fallido en la cuenta y en la IP
+ * @param   {any} user - Usuario del email introducido (null si no existe)
+ * @param   {string} accountKey - Email normalizado
+ * @param   {string} ipKey - IP de la petición
+ * @param   {string} message - Mensaje del error si la cuenta no se bloquea
+ * @param   {number} [statusCode=401] - Código del error si la cuenta no se bloquea
+ * @returns {Promise<ErrorResponse>} Error con statusCode, o 423 si este fallo ha bloqueado la cuenta
+ * 
+ * Al bloquearse una cuenta existente se le envía un enlace de desbloqueo.
+ */
+export const rejectFailedLogin = async (
+  user: any,
+  accountKey: string,
+  ipKey: string,
+  message: string,
+  statusCode = 401
+): Promise<ErrorResponse> => {
+  const [account] = await Promise.all([
+    registerLoginFailure('account', accountKey),
+    registerLoginFailure('ip', ipKey)
+  ]);
+
+  if (!account.lockedNow) {
+    return new ErrorResponse(message, statusCode);
+  }
+
+  logger.warn(`Cuenta ${accountKey} bloqueada tras ${account.attempt.failures} intentos fallidos (IP ${ipKey})`);
+
+  if (user) {
+    try {
+      const unlockToken = await createUnlockToken(account.attempt);
+      await sendTemplateEmail(user.email, 'accountLocked', {
+        name: user.name,
+        unlockUrl: buildFrontendUrl(`/unlock-account/${unlockToken}`),
+        lockoutMinutes: getLoginThrottleSettings().lockoutMinutes
+      });
+    } catch (error: any) {
+      logger.error(`Error al enviar el enlace de desbloqueo a ${user.email}: ${error.message}`);
+    }
+  }
+
+  return new ErrorResponse(
+    'Demasiados intentos fallidos. Tu cuenta se ha bloqueado temporalmente; te hemos enviado un email para desbloquearla',
+    423
+  );
+};
+
+/**
+ * @desc    Construir el error de un intento de inicio de sesión limitado
+ * @param   {LoginBlock} block - Límite que impide el intento
+ * @param   {Response} res - Respuesta en la que se indica la cabecera Retry-After
+ * @returns {ErrorResponse} Error 423 si la cuenta está bloqueada, o 429 en el resto de casos
+ */
+export const getLoginBlockError = (block: LoginBlock, res: Response): ErrorResponse => {
+  res.set('Retry-After', String(block.retryAfterSeconds));
+
+  if (block.reason === 'backoff') {
+    return new ErrorResponse(
+      `Demasiados intentos seguidos. Espera ${block.retryAfterSeconds} segundos antes de volver a intentarlo`,
+      429
+    );
+  }
+
+  const minutes = Math.ceil(block.retryAfterSeconds / 60);
+  if (block.scope === 'account') {
+    return new ErrorResponse(
+      `Tu cuenta está bloqueada temporalmente por demasiados intentos fallidos. Inténtalo de nuevo en ${minutes} minutos o usa el enlace de desbloqueo que te hemos enviado por email`,
+      423
+    );
+  }
+  return new ErrorResponse(`Demasiados intentos fallidos desde esta IP. Inténtalo de nuevo en ${minutes} minutos`, 429);
+};
+
+/**
+ * @desc    Confirmar la identidad del usuario autenticado antes de una acción sensible
+ * @param   {Request} req - Petición de la que se toma la IP
+ * @param   {Response} res - Respuesta en la que se indica Retry-After si hay un límite
+ * @param   {any} user - Usuario autenticado (con los campos que necesite isValid)
+ * @param   {() => boolean | Promise<boolean>} isValid - Comprueba la contraseña y, si procede, el código
+ * @param   {string} message - Mensaje del error si la confirmación falla
+ * @returns {Promise<ErrorResponse | null>} Error si hay un límite o la confirmación falla, o null
+ *
+ * Los fallos se responden con 400 y no 401: la sesión sigue siendo válida
+ * aunque la confirmación falle, y un 401 la cerraría en el frontend.
+ */
+export const reauthenticateUser = async (
+  req: Request,
+  res: Response,
+  user: any,
+  isValid: () => boolean | Promise<boolean>,
+  message: string
+): Promise<ErrorResponse | null> => {
+  const accountKey = normalizeAccountKey(user.email);
+  const ipKey = req.ip || 'desconocida';
+
+  const block = await getLoginBlock([
+    { scope: 'account', key: accountKey },
+    { scope: 'ip', key: ipKey }
+  ]);
+
+  if (block) {
+    return getLoginBlockError(block, res);
+  }
+
+  if (!(await isValid())) {
+    return rejectFailedLogin(user, accountKey, ipKey, message, 400);
+  }
+
+  await clearLoginFailures('account', accountKey);
+  return null;
+};
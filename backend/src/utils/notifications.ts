@@ -0,0 +1,100 @@
+/**
+ * @file notifications.ts
+ * @description Creación y entrega de las notificaciones de la aplicación
+ * @module Utils/Notifications
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Todos los eventos que avisan a un usuario pasan por aquí:
+ * - Se guarda la notificación para el centro de notificaciones
+ * - Se envía en tiempo real (notification:new) con el total de no leídas
+ * - La tarea programada borra las leídas pasado NOTIFICATION_RETENTION_DAYS
+ */
+
+import mongoose from 'mongoose';
+import Notification, {
+  NotificationType,
+  countUnreadNotifications,
+  getNotificationRetentionDays
+} from '../models/Notification';
+import { emitToUser } from '../config/socket';
+import logger from './logger';
+
+/**
+ * Datos de una notificación nueva
+ */
+export interface NotificationData {
+  type: NotificationType;
+  title: string;
+  body?: string;
+  link?: string;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Guarda una notificación para varios usuarios y la envía en tiempo real
+ *
+ * @param {Array<mongoose.Types.ObjectId | string>} userIds - Destinatarios
+ * @param {NotificationData} data - Contenido de la notificación
+ * @returns {Promise<number>} Notificaciones creadas
+ *
+ * @description
+ * Nunca lanza: un fallo al notificar no debe deshacer la acción que la
+ * provocó (un mensaje enviado, un artículo aprobado...).
+ */
+export const notifyUsers = async (
+  userIds: Array<mongoose.Types.ObjectId | string>,
+  data: NotificationData
+): Promise<number> => {
+  if (userIds.length === 0) {
+    return 0;
+  }
+
+  try {
+    const notifications = await Notification.insertMany(userIds.map(user => ({
+      user,
+      type: data.type,
+      title: data.title,
+      body: data.body,
+      link: data.link,
+      payload: data.payload || {}
+    })));
+
+    await Promise.all(notifications.map(async notification => {
+      emitToUser(notification.user, 'notification:new', {
+        notification,
+        unreadCount: await countUnreadNotifications(notification.user)
+      });
+    }));
+
+    return notifications.length;
+  } catch (error: any) {
+    logger.error(`Error al crear notificaciones '${data.type}': ${error.message}`);
+    return 0;
+  }
+};
+
+/**
+ * Guarda una notificación para un usuario y la envía en tiempo real
+ *
+ * @param {mongoose.Types.ObjectId | string} userId - Destinatario
+ * @param {NotificationData} data - Contenido de la notificación
+ * @returns {Promise<boolean>} Si se ha creado la notificación
+ */
+export const notifyUser = async (
+  userId: mongoose.Types.ObjectId | string,
+  data: NotificationData
+): Promise<boolean> => (await notifyUsers([userId], data)) > 0;
+
+/**
+ * Borra las notificaciones leídas más antiguas que NOTIFICATION_RETENTION_DAYS
+ *
+ * @returns {Promise<number>} Notificaciones borradas
+ */
+export const purgeReadNotifications = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - getNotificationRetentionDays() * 24 * 60 * 60 * 1000);
+  const result = await Notification.deleteMany({ read: true, createdAt: { $lte: cutoff } });
+
+  return result.deletedCount;
+};
@@ -0,0 +1,184 @@
+/**
+ * @file savedSearchAlerts.ts
+ * @description Avisos de artículos nuevos que coinciden con búsquedas guardadas
+ * @module Utils/SavedSearchAlerts
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Cuando moderación aprueba un artículo se comprueba contra las búsquedas
+ * guardadas con la misma consulta que searchItems (buildItemSearchQuery):
+ * - Cada coincidencia se guarda en la búsqueda y se crea una notificación
+ * - Las búsquedas con emailDigest reciben además un resumen periódico por
+ *   email con las coincidencias que el usuario aún no ha revisado
+ */
+
+import Item, { IItem, NOT_DELETED_FILTER } from '../models/Item';
+import SavedSearch, { ISavedSearch, SAVED_SEARCH_MAX_MATCHES, getSavedSearchSettings } from '../models/SavedSearch';
+import User from '../models/User';
+import { findCategory } from '../models/Category';
+import { buildItemSearchQuery } from './itemSearch';
+import { notifyUser } from './notifications';
+import { sendTemplateEmail, buildFrontendUrl } from '../mailer';
+import logger from './logger';
+
+/**
+ * Enlace del frontend que repite una búsqueda guardada
+ *
+ * @param {ISavedSearch} search - Búsqueda guardada
+ * @returns {string} URL de la página de búsqueda con los filtros
+ */
+export const buildSavedSearchUrl = (search: ISavedSearch): string => {
+  const params = new URLSearchParams();
+  Object.entries(search.filters || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return buildFrontendUrl(`/search${query ? `?${query}` : ''}`);
+};
+
+/**
+ * Comprueba un artículo recién publicado contra las búsquedas guardadas
+ *
+ * @param {IItem} item - Artículo publicado
+ * @returns {Promise<number>} Búsquedas que coinciden
+ *
+ * @description
+ * Las búsquedas del propio autor no se avisan. Se preseleccionan por
+ * categoría y condición y cada candidata se confirma con su consulta
+ * completa restringida al artículo. Nunca lanza: un fallo en los avisos no
+ * debe impedir la publicación.
+ */
+export const notifySavedSearchMatches = async (item: IItem): Promise<number> => {
+  try {
+    // Las búsquedas de la categoría padre también incluyen el artículo
+    const category = await findCategory(item.category);
+    const candidates = await SavedSearch.find({
+      user: { $ne: item.user },
+      'filters.category': { $in: [null, item.category, category?.parent || null] },
+      'filters.condition': { $in: [null, item.condition] },
+      'matches.item': { $ne: item._id }
+    });
+
+    const now = new Date();
+    let matched = 0;
+
+    for (const search of candidates) {
+      const { query } = await buildItemSearchQuery(search.filters || {});
+      if (!(await Item.exists({ ...query, _id: item._id }))) {
+        continue;
+      }
+
+      // Se conservan solo las coincidencias más recientes
+      await SavedSearch.updateOne({ _id: search._id }, {
+        $push: {
+          matches: {
+            $each: [{ item: item._id, matchedAt: now }],
+            $slice: -SAVED_SEARCH_MAX_MATCHES
+          }
+        }
+      });
+
+      await notifyUser(search.user, {
+        type: 'search_match',
+        title: `Nuevo artículo para tu búsqueda "${search.name}"`,
+        body: item.title,
+        link: `/item/${item._id}`,
+        payload: { savedSearchId: search._id.toString(), itemId: item._id.toString() }
+      });
+      matched++;
+    }
+
+    return matched;
+  } catch (error: any) {
+    logger.error(`Error al comprobar las búsquedas guardadas del artículo ${item._id}: ${error.message}`);
+    return 0;
+  }
+};
+
+/**
+ * Envía el resumen por email de las búsquedas guardadas con coincidencias nuevas
+ *
+ * @returns {Promise<number>} Emails enviados
+ *
+ * @description
+ * Cada usuario recibe como mucho un resumen cada SAVED_SEARCH_DIGEST_HOURS
+ * con los artículos que siguen publicados y que no ha visto en la aplicación.
+ */
+export const sendSavedSearchDigests = async (): Promise<number> => {
+  const { digestHours } = getSavedSearchSettings();
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - digestHours * 60 * 60 * 1000);
+
+  const searches = await SavedSearch.find({
+    emailDigest: true,
+    'matches.0': { $exists: true },
+    $or: [{ lastDigestAt: { $exists: false } }, { lastDigestAt: { $lte: cutoff } }]
+  });
+
+  // Coincidencias que no se han enviado ni revisado en la aplicación
+  const pendingBySearch = new Map<string, ISavedSearch['matches']>();
+  for (const search of searches) {
+    const since = Math.max(search.lastSeenAt.getTime(), search.lastDigestAt ? search.lastDigestAt.getTime() : 0);
+    const pending = search.matches.filter(match => match.matchedAt.getTime() > since);
+    if (pending.length > 0) {
+      pendingBySearch.set(search._id.toString(), pending);
+    }
+  }
+
+  if (pendingBySearch.size === 0) {
+    return 0;
+  }
+
+  const pendingSearches = searches.filter(search => pendingBySearch.has(search._id.toString()));
+  const itemIds = [...pendingBySearch.values()].flat().map(match => match.item);
+  const items = await Item.find({ _id: { $in: itemIds }, status: 'active', ...NOT_DELETED_FILTER }).select('title');
+  const titles = new Map(items.map(item => [item._id.toString(), item.title]));
+
+  const users = await User.find({
+    _id: { $in: pendingSearches.map(search => search.user) },
+    isActive: true,
+    deletedAt: { $exists: false }
+  }).select('name email');
+
+  let sent = 0;
+  for (const user of users) {
+    const userSearches = pendingSearches.filter(search => search.user.toString() === user._id.toString());
+    const digest = userSearches
+      .map(search => ({
+        name: search.name,
+        url: buildSavedSearchUrl(search),
+        items: pendingBySearch.get(search._id.toString())!
+          .filter(match => titles.has(match.item.toString()))
+          .map(match => ({
+            title: titles.get(match.item.toString())!,
+            url: buildFrontendUrl(`/item/${match.item}`)
+          }))
+      }))
+      .filter(search => search.items.length > 0);
+
+    if (digest.length > 0) {
+      try {
+        await sendTemplateEmail(user.email, 'savedSearchDigest', {
+          name: user.name,
+          searches: digest,
+          profileUrl: buildFrontendUrl('/profile')
+        });
+        sent++;
+      } catch (error: any) {
+        // Se reintenta en la siguiente ejecución
+        logger.error(`Error al enviar el resumen de búsquedas guardadas a ${user._id}: ${error.message}`);
+        continue;
+      }
+    }
+
+    await SavedSearch.updateMany(
+      { _id: { $in: userSearches.map(search => search._id) } },
+      { $set: { lastDigestAt: now } }
+    );
+  }
+
+  return sent;
+};
@@ -0,0 +1,171 @@
+/**
+ * @file totp.ts
+ * @description Contraseñas de un solo uso basadas en tiempo (TOTP, RFC 6238)
+ * @module Utils/TOTP
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Implementa los códigos de 6 dígitos que generan las aplicaciones de
+ * autenticación (Google Authenticator, Authy, 1Password...) para la
+ * verificación en dos pasos:
+ * - Generación del secreto compartido en Base32
+ * - URI otpauth:// que las aplicaciones leen desde un código QR
+ * - Cálculo y verificación de códigos con tolerancia de desfase de reloj
+ */
+
+import crypto from 'crypto';
+
+/** Periodo de validez de cada código en segundos */
+export const TOTP_PERIOD_SECONDS = 30;
+
+/** Número de dígitos de cada código */
+export const TOTP_DIGITS = 6;
+
+/** Alfabeto Base32 (RFC 4648) */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codifica bytes en Base32 sin relleno
+ *
+ * @param {Buffer} buffer - Bytes a codificar
+ * @returns {string} Texto en Base32
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodifica un texto en Base32 (ignora espacios, guiones y relleno)
+ *
+ * @param {string} input - Texto en Base32
+ * @returns {Buffer} Bytes decodificados
+ * @throws {Error} Si el texto contiene caracteres no válidos
+ */
+const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Carácter Base32 no válido: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Genera un secreto TOTP aleatorio de 160 bits
+ *
+ * @returns {string} Secreto en Base32
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Construye la URI otpauth:// que se muestra como código QR
+ *
+ * @param {string} secret - Secreto en Base32
+ * @param {string} accountName - Identificador de la cuenta (email)
+ * @param {string} [issuer] - Nombre del servicio en la aplicación de autenticación
+ * @returns {string} URI otpauth://totp/...
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer = 'Ecommunitas'): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Intervalo de tiempo TOTP correspondiente a un instante
+ *
+ * @param {number} [timestamp] - Instante en milisegundos (por defecto, ahora)
+ * @returns {number} Número de intervalo
+ */
+export const getTotpStep = (timestamp = Date.now()): number =>
+  Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Calcula el código TOTP de un intervalo
+ *
+ * @param {string} secret - Secreto en Base32
+ * @param {number} [step] - Intervalo (por defecto, el actual)
+ * @returns {string} Código de TOTP_DIGITS dígitos
+ */
+export const generateTotpCode = (secret: string, step = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verifica un código TOTP
+ *
+ * @param {string} secret - Secreto en Base32
+ * @param {string} code - Código introducido por el usuario
+ * @param {number} [window] - Intervalos de tolerancia antes y después del actual
+ * @returns {number | null} Intervalo del código si es válido, o null
+ *
+ * @description
+ * Devuelve el intervalo para que quien llama pueda rechazar un código
+ * que ya se ha usado (protección frente a la repetición).
+ */
+export const verifyTotpCode = (secret: string, code: string, window = 1): number | null => {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep();
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = generateTotpCode(secret, step);
+
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
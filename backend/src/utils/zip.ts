@@ -0,0 +1,110 @@
+/**
+ * @file zip.ts
+ * @description Generación de archivos ZIP en memoria
+ * @module Utils/Zip
+ * @version 1.0.0
+ * @author Ecommunitas Team
+ * @created 2024
+ *
+ * Escribe archivos ZIP (PKWARE APPNOTE) comprimidos con deflate usando solo
+ * zlib de Node, para no añadir dependencias por una necesidad tan acotada
+ * como la exportación de datos personales. No admite ZIP64: cada archivo y
+ * el total deben ocupar menos de 4 GB.
+ */
+
+import zlib from 'zlib';
+
+/**
+ * Archivo que se añade al ZIP
+ */
+export interface ZipEntry {
+  /** Ruta dentro del ZIP (con / como separador) */
+  name: string;
+  /** Contenido del archivo */
+  content: Buffer | string;
+  /** Fecha de modificación (por defecto, ahora) */
+  modifiedAt?: Date;
+}
+
+/** Versión del formato necesaria para extraer (2.0: deflate y carpetas) */
+const ZIP_VERSION = 20;
+
+/** Bit 11 de los flags: nombres codificados en UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+/** Método de compresión deflate */
+const DEFLATE_METHOD = 8;
+
+/**
+ * Convierte una fecha al formato de fecha y hora de MS-DOS que usa ZIP
+ *
+ * @param {Date} date - Fecha a convertir
+ * @returns {{ time: number, date: number }} Hora y fecha en 16 bits cada una
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Crea un archivo ZIP con los archivos indicados
+ *
+ * @param {ZipEntry[]} entries - Archivos que contiene el ZIP
+ * @returns {Buffer} Contenido del archivo ZIP
+ */
+export const createZipArchive = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = zlib.crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date());
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(ZIP_VERSION, 4);
+    localHeader.writeUInt16LE(UTF8_FLAG, 6);
+    localHeader.writeUInt16LE(DEFLATE_METHOD, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(crc, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+    centralHeader.writeUInt16LE(UTF8_FLAG, 8);
+    centralHeader.writeUInt16LE(DEFLATE_METHOD, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    // Campo extra, comentario, disco, atributos internos y externos a cero
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
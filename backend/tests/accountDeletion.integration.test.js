@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Tests de integración para la eliminación de cuentas
+ *
+ * Estos tests verifican que la eliminación de una cuenta (solicitada por el
+ * usuario o por un administrador) se programa con un periodo de gracia en el
+ * que se puede cancelar y que, al ejecutarse, borra o archiva los artículos,
+ * cancela los intercambios abiertos y anonimiza al usuario sin romper las
+ * conversaciones de la otra parte.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const fs = require('fs');
+const path = require('path');
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Trade = require('../dist/src/models/Trade').default;
+const { processDueAccountDeletions } = require('../dist/src/utils/accountDeletion');
+
+// Directorio donde el transporte de ficheros guarda los emails (ver setup.js)
+const outboxPath = process.env.MAIL_OUTBOX_PATH;
+
+/**
+ * Devuelve el último email guardado por el transporte de ficheros
+ */
+const readLastEmail = () => {
+  const files = fs.readdirSync(outboxPath).sort();
+  return JSON.parse(fs.readFileSync(path.join(outboxPath, files[files.length - 1]), 'utf8'));
+};
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Trade.deleteMany({});
+});
+
+/**
+ * Crea un artículo aprobado y disponible para un usuario
+ */
+const createApprovedItem = (userId, title) => Item.create({
+  title,
+  description: `Descripción de ${title}`,
+  category: 'books',
+  condition: 'good',
+  location: 'Madrid, Spain',
+  user: userId,
+  moderationStatus: 'approved'
+});
+
+describe('Account Deletion Integration Tests', () => {
+  let ana;
+  let luis;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Saliente', 'ana@example.com');
+    luis = await registerUser('Luis Vecino', 'luis@example.com');
+  });
+
+  const deleteMyAccount = (user, password) => request(app)
+    .delete('/api/v1/users/me')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ password });
+
+  test('Debe programar la eliminación tras confirmar la contraseña y avisar por email', async () => {
+    const wrongPassword = await deleteMyAccount(ana, 'Incorrecta123!');
+    expect(wrongPassword.status).toBe(400);
+
+    const response = await deleteMyAccount(ana, 'Password123!');
+    expect(response.status).toBe(200);
+
+    const days = (new Date(response.body.data.deletionScheduledFor) - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBe(30);
+
+    const user = await User.findById(ana.id);
+    expect(user.deletionRequestedBy).toBe('self');
+    expect(user.deletedAt).toBeUndefined();
+
+    const email = readLastEmail();
+    expect(email.to).toBe('ana@example.com');
+    expect(email.text).toContain('/profile');
+  });
+
+  test('Debe contar las contraseñas incorrectas para el límite de intentos', async () => {
+    for (let i = 0; i < 4; i++) {
+      expect((await deleteMyAccount(ana, 'Incorrecta123!')).status).toBe(400);
+    }
+
+    expect((await deleteMyAccount(ana, 'Incorrecta123!')).status).toBe(423);
+    expect((await deleteMyAccount(ana, 'Password123!')).status).toBe(423);
+    expect((await User.findById(ana.id)).deletionScheduledFor).toBeUndefined();
+  });
+
+  test('Debe permitir cancelar la eliminación durante el periodo de gracia', async () => {
+    await deleteMyAccount(ana, 'Password123!');
+
+    const cancel = () => request(app)
+      .post('/api/v1/users/me/deletion/cancel')
+      .set('Authorization', `Bearer ${ana.token}`);
+
+    expect((await cancel()).status).toBe(200);
+    expect((await User.findById(ana.id)).deletionScheduledFor).toBeUndefined();
+
+    // Sin eliminación programada no hay nada que cancelar
+    expect((await cancel()).status).toBe(400);
+  });
+
+  test('Al vencer el plazo debe borrar o archivar los artículos y anonimizar al usuario', async () => {
+    const anaBook = await createApprovedItem(ana.id, 'Libro de Ana');
+    const anaLamp = await createApprovedItem(ana.id, 'Lámpara de Ana');
+    const luisBook = await createApprovedItem(luis.id, 'Libro de Luis');
+
+    const trade = await Trade.create({
+      proposer: luis.id,
+      recipient: ana.id,
+      offeredItems: [luisBook._id],
+      requestedItem: anaBook._id
+    });
+    await Message.create({ sender: ana.id, recipient: luis.id, content: 'Hola Luis', item: anaBook._id });
+
+    await deleteMyAccount(ana, 'Password123!');
+    await User.updateOne({ _id: ana.id }, { deletionScheduledFor: new Date(Date.now() - 1000) });
+
+    expect(await processDueAccountDeletions()).toBe(1);
+
+    // El artículo del intercambio se archiva; el resto se borra
+    const archived = await Item.findById(anaBook._id);
+    expect(archived.available).toBe(false);
+    expect(archived.imageUrls).toHaveLength(0);
+    expect(await Item.findById(anaLamp._id)).toBeNull();
+    expect((await Trade.findById(trade._id)).status).toBe('cancelled');
+
+    const user = await User.findById(ana.id);
+    expect(user.name).toBe('Usuario eliminado');
+    expect(user.email).not.toBe('ana@example.com');
+    expect(user.isActive).toBe(false);
+    expect(user.deletedAt).toBeDefined();
+
+    // La conversación de Luis sigue mostrando un remitente
+    const message = await Message.findOne({ recipient: luis.id }).populate('sender', 'name');
+    expect(message.sender.name).toBe('Usuario eliminado');
+
+    // El email queda libre y la cuenta no puede iniciar sesión
+    const login = await request(app)
+      .post('/api/v1/auth/login')
+      .send({ email: 'ana@example.com', password: 'Password123!' });
+    expect(login.status).toBe(401);
+  });
+
+  test('Un administrador puede eliminar una cuenta de inmediato', async () => {
+    const admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+    await createApprovedItem(luis.id, 'Libro de Luis');
+
+    const response = await request(app)
+      .delete(`/api/v1/users/${luis.id}?immediate=true`)
+      .set('Authorization', `Bearer ${admin.token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.itemsDeleted).toBe(1);
+    expect((await User.findById(luis.id)).deletedAt).toBeDefined();
+  });
+
+  test('Un usuario no puede eliminar la cuenta de otro', async () => {
+    const response = await request(app)
+      .delete(`/api/v1/users/${luis.id}`)
+      .set('Authorization', `Bearer ${ana.token}`);
+
+    expect(response.status).toBe(403);
+    expect((await User.findById(luis.id)).deletionScheduledFor).toBeUndefined();
+  });
+});
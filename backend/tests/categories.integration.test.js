@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Tests de integración para las categorías de artículos
+ *
+ * Estos tests verifican el listado público de categorías con las categorías
+ * por defecto, su gestión por administradores, la validación de la categoría
+ * de los artículos y el filtro de búsqueda con subcategorías.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Category = require('../dist/src/models/Category').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test (las categorías por defecto se recrean solas)
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Category.deleteMany({});
+});
+
+describe('Categories Integration Tests', () => {
+  let user;
+  let admin;
+
+  beforeEach(async () => {
+    user = await registerUser('Ana', 'ana@example.com');
+    admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+  });
+
+  const createCategory = body => request(app)
+    .post('/api/v1/categories')
+    .set('Authorization', `Bearer ${admin.token}`)
+    .send(body);
+
+  const postItem = category => request(app)
+    .post('/api/v1/items')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ title: 'Artículo', description: 'Artículo de prueba', category, condition: 'good', location: 'Madrid' });
+
+  test('Debe listar las categorías por defecto en el idioma pedido', async () => {
+    const response = await request(app).get('/api/v1/categories').query({ lang: 'en' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map(category => category.slug)).toEqual(['books', 'electronics', 'clothing', 'furniture', 'other']);
+    expect(response.body.data[0]).toMatchObject({ label: 'Books', labels: { es: 'Libros', en: 'Books' }, parent: null });
+  });
+
+  test('Solo los administradores gestionan las categorías', async () => {
+    const forbidden = await request(app)
+      .post('/api/v1/categories')
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ slug: 'toys', labels: { es: 'Juguetes' } });
+
+    expect(forbidden.status).toBe(403);
+
+    const created = await createCategory({ slug: 'Toys', labels: { es: 'Juguetes', en: 'Toys' }, icon: 'gift', order: 5 });
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ slug: 'toys', label: 'Juguetes', active: true });
+
+    const duplicated = await createCategory({ slug: 'toys', labels: { es: 'Otra' } });
+    expect(duplicated.status).toBe(400);
+
+    const withoutSpanish = await createCategory({ slug: 'garden', labels: { en: 'Garden' } });
+    expect(withoutSpanish.status).toBe(400);
+
+    const renamed = await request(app)
+      .put(`/api/v1/categories/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({ slug: 'games' });
+
+    expect(renamed.status).toBe(400);
+  });
+
+  test('Los artículos solo se publican en categorías activas', async () => {
+    expect((await postItem('books')).status).toBe(201);
+    expect((await postItem('toys')).status).toBe(400);
+
+    const created = await createCategory({ slug: 'toys', labels: { es: 'Juguetes' } });
+    expect((await postItem('toys')).status).toBe(201);
+
+    await request(app)
+      .put(`/api/v1/categories/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({ active: false });
+
+    expect((await postItem('toys')).status).toBe(400);
+
+    const listed = await request(app).get('/api/v1/categories');
+    expect(listed.body.data.map(category => category.slug)).not.toContain('toys');
+
+    const all = await request(app)
+      .get('/api/v1/categories')
+      .query({ includeInactive: 'true' })
+      .set('Authorization', `Bearer ${admin.token}`);
+    expect(all.body.data.map(category => category.slug)).toContain('toys');
+
+    // Una categoría con artículos no se borra, se desactiva
+    const removed = await request(app)
+      .delete(`/api/v1/categories/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${admin.token}`);
+    expect(removed.status).toBe(409);
+  });
+
+  test('Al filtrar por una categoría se incluyen sus subcategorías', async () => {
+    const parent = await createCategory({ slug: 'home', labels: { es: 'Hogar' } });
+    await createCategory({ slug: 'garden', labels: { es: 'Jardín' }, parent: 'home' });
+
+    const tooDeep = await createCategory({ slug: 'plants', labels: { es: 'Plantas' }, parent: 'garden' });
+    expect(tooDeep.status).toBe(400);
+
+    await postItem('garden');
+    await postItem('books');
+    await Item.updateMany({}, { moderationStatus: 'approved' });
+
+    const response = await request(app).get('/api/v1/items/search').query({ category: 'home' });
+    expect(response.body.data.map(item => item.category)).toEqual(['garden']);
+
+    const withChildren = await request(app)
+      .delete(`/api/v1/categories/${parent.body.data._id}`)
+      .set('Authorization', `Bearer ${admin.token}`);
+    expect(withChildren.status).toBe(409);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Tests de integración para la exportación de datos personales
+ *
+ * Estos tests verifican que un usuario puede descargar todo lo que
+ * guardamos sobre él (perfil, artículos, mensajes e historial de moderación)
+ * en JSON o en ZIP, sin contraseñas ni datos de quien le denunció, y que
+ * las cuentas grandes se exportan en segundo plano.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+
+// Las exportaciones se guardan en una carpeta temporal
+process.env.EXPORT_PATH = fs.mkdtempSync(path.join(os.tmpdir(), 'ecommunitas-export-test-'));
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Report = require('../dist/src/models/Report').default;
+const DataExport = require('../dist/src/models/DataExport').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+afterAll(async () => {
+  fs.rmSync(process.env.EXPORT_PATH, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Report.deleteMany({});
+  await DataExport.deleteMany({});
+});
+
+afterEach(() => {
+  delete process.env.DATA_EXPORT_SYNC_LIMIT;
+});
+
+/**
+ * Lee el cuerpo de la respuesta como Buffer (para las descargas)
+ */
+const binaryParser = (res, callback) => {
+  const chunks = [];
+  res.on('data', chunk => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Data Export Integration Tests', () => {
+  let ana;
+  let luis;
+  let anaItem;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Exportadora', 'ana@example.com');
+    luis = await registerUser('Luis Vecino', 'luis@example.com');
+
+    anaItem = await Item.create({
+      title: 'Bicicleta de paseo',
+      description: 'Bicicleta en buen estado',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      imageUrls: ['https://res.cloudinary.com/demo/image/upload/bici.jpg'],
+      imagePublicIds: ['bici'],
+      user: ana.id,
+      moderationStatus: 'rejected',
+      rejectionReason: 'Faltan fotos del estado real'
+    });
+
+    await Message.create([
+      { sender: ana.id, recipient: luis.id, content: '¿Te interesa la bicicleta?', item: anaItem._id },
+      { sender: luis.id, recipient: ana.id, content: 'Sí, ¿cuándo quedamos?', item: anaItem._id }
+    ]);
+
+    await Report.create({
+      reporter: luis.id,
+      targetType: 'item',
+      targetModel: 'Item',
+      target: anaItem._id,
+      reason: 'fraud',
+      details: 'Texto privado de Luis'
+    });
+  });
+
+  const requestExport = (user, body) => request(app)
+    .post('/api/v1/users/me/export')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send(body);
+
+  const download = user => request(app)
+    .get('/api/v1/users/me/export/download')
+    .set('Authorization', `Bearer ${user.token}`)
+    .buffer(true)
+    .parse(binaryParser);
+
+  test('Debe exportar perfil, artículos, mensajes y moderación en JSON', async () => {
+    const response = await requestExport(ana, { format: 'json' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.status).toBe('completed');
+    expect(response.body.data.filePath).toBeUndefined();
+
+    const file = await download(ana);
+    expect(file.status).toBe(200);
+    expect(file.headers['content-disposition']).toMatch(/ecommunitas-mis-datos-.*\.json/);
+
+    const data = JSON.parse(file.body.toString('utf8'));
+    expect(data.profile.email).toBe('ana@example.com');
+    expect(data.profile.password).toBeUndefined();
+    expect(data.items).toHaveLength(1);
+    expect(data.items[0].imageUrls).toEqual(['https://res.cloudinary.com/demo/image/upload/bici.jpg']);
+    expect(data.items[0].imagePublicIds).toBeUndefined();
+    expect(data.messages.map(message => message.direction)).toEqual(['sent', 'received']);
+    expect(data.messages[1].from).toBe('Luis Vecino');
+    expect(data.moderation.items[0].rejectionReason).toBe('Faltan fotos del estado real');
+
+    // Las denuncias recibidas no identifican a quien denunció
+    expect(data.moderation.reportsReceived).toHaveLength(1);
+    expect(data.moderation.reportsReceived[0].reporter).toBeUndefined();
+    expect(data.moderation.reportsReceived[0].details).toBeUndefined();
+  });
+
+  test('Debe exportar un ZIP con un archivo por sección', async () => {
+    const response = await requestExport(ana, { format: 'zip' });
+    expect(response.status).toBe(201);
+
+    const file = await download(ana);
+    expect(file.status).toBe(200);
+    expect(file.headers['content-disposition']).toMatch(/\.zip/);
+    expect(file.body.subarray(0, 4).toString('hex')).toBe('504b0304');
+
+    const content = file.body.toString('latin1');
+    ['README.txt', 'profile.json', 'items.json', 'messages.json', 'moderation.json'].forEach(name => {
+      expect(content).toContain(name);
+    });
+  });
+
+  test('Debe generar en segundo plano las exportaciones de cuentas grandes', async () => {
+    process.env.DATA_EXPORT_SYNC_LIMIT = '1';
+
+    const response = await requestExport(ana, { format: 'json' });
+    expect(response.status).toBe(202);
+    expect(['pending', 'processing']).toContain(response.body.data.status);
+
+    let status = response.body.data.status;
+    for (let attempt = 0; attempt < 20 && status !== 'completed'; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const statusResponse = await request(app)
+        .get('/api/v1/users/me/export')
+        .set('Authorization', `Bearer ${ana.token}`);
+      status = statusResponse.body.data.status;
+    }
+
+    expect(status).toBe('completed');
+    expect((await download(ana)).status).toBe(200);
+  });
+
+  test('Debe rechazar formatos no soportados', async () => {
+    const response = await requestExport(ana, { format: 'csv' });
+
+    expect(response.status).toBe(400);
+    expect(await DataExport.countDocuments()).toBe(0);
+  });
+
+  test('Cada usuario solo descarga su propia exportación', async () => {
+    await requestExport(ana, { format: 'json' });
+
+    const response = await download(luis);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests de integración para los artículos favoritos
+ *
+ * Estos tests verifican que un usuario puede seguir artículos de otros
+ * usuarios, consultarlos desde el servidor, que el propietario ve cuántos
+ * usuarios siguen sus artículos y que los seguidores reciben una notificación cuando
+ * el artículo se reserva, se intercambia o se edita.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Favorite = require('../dist/src/models/Favorite').default;
+const Notification = require('../dist/src/models/Notification').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeAll(async () => {
+  await Favorite.createIndexes();
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Favorite.deleteMany({});
+  await Notification.deleteMany({});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Favorites Integration Tests', () => {
+  let ana;
+  let luis;
+  let item;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Vendedora', 'ana@example.com');
+    luis = await registerUser('Luis Vecino', 'luis@example.com');
+
+    item = await Item.create({
+      title: 'Bicicleta de montaña',
+      description: 'Bicicleta con poco uso',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const favorite = (user, method, itemId = item._id) => request(app)[method](`/api/v1/items/${itemId}/favorite`)
+    .set('Authorization', `Bearer ${user.token}`);
+
+  test('Debe añadir y quitar un artículo de favoritos', async () => {
+    const added = await favorite(luis, 'post');
+    expect(added.status).toBe(200);
+    expect(added.body.data.favorited).toBe(true);
+
+    // Añadirlo dos veces no duplica el favorito
+    await favorite(luis, 'post');
+    expect(await Favorite.countDocuments()).toBe(1);
+
+    const status = await favorite(luis, 'get');
+    expect(status.body.data).toEqual({ favorited: true });
+
+    const list = await request(app)
+      .get('/api/v1/items/favorites')
+      .set('Authorization', `Bearer ${luis.token}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data.map(favoriteItem => favoriteItem.title)).toEqual(['Bicicleta de montaña']);
+
+    const removed = await favorite(luis, 'delete');
+    expect(removed.body.data.favorited).toBe(false);
+    expect(await Favorite.countDocuments()).toBe(0);
+  });
+
+  test('No se pueden seguir artículos propios ni borradores', async () => {
+    const own = await favorite(ana, 'post');
+    expect(own.status).toBe(400);
+
+    const draft = await Item.create({
+      title: 'Borrador',
+      description: 'Sin publicar',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      status: 'draft'
+    });
+    const response = await favorite(luis, 'post', draft._id);
+    expect(response.status).toBe(404);
+  });
+
+  test('Solo el propietario ve cuántos usuarios siguen su artículo', async () => {
+    await favorite(luis, 'post');
+
+    const owner = await favorite(ana, 'get');
+    expect(owner.body.data).toEqual({ favorited: false, favoriteCount: 1 });
+
+    const counts = await request(app)
+      .get('/api/v1/items/favorites/counts')
+      .set('Authorization', `Bearer ${ana.token}`);
+    expect(counts.body.data).toEqual({ [item._id.toString()]: 1 });
+
+    const watcher = await favorite(luis, 'get');
+    expect(watcher.body.data.favoriteCount).toBeUndefined();
+  });
+
+  test('Debe avisar a los seguidores cuando el artículo se reserva o se edita', async () => {
+    await favorite(luis, 'post');
+
+    await request(app)
+      .put(`/api/v1/items/${item._id}`)
+      .set('Authorization', `Bearer ${ana.token}`)
+      .send({ title: 'Bicicleta de montaña revisada' });
+
+    await request(app)
+      .patch(`/api/v1/items/${item._id}/status`)
+      .set('Authorization', `Bearer ${ana.token}`)
+      .send({ status: 'reserved', reservedFor: luis.id });
+
+    const notifications = await Notification.find({ type: 'favorite_update' }).sort({ _id: 1 });
+    expect(notifications.map(notification => [String(notification.user), notification.payload.change])).toEqual([
+      [luis.id, 'updated'],
+      [luis.id, 'reserved']
+    ]);
+    expect(notifications[1].title).toContain('Bicicleta de montaña revisada');
+    expect(notifications[1].link).toBe(`/item/${item._id}`);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Tests de integración para la geocodificación
+ *
+ * Estos tests verifican el autocompletado de ubicaciones con el nomenclátor
+ * incluido en el proyecto y que los artículos y perfiles sin coordenadas
+ * las obtienen geocodificando su ubicación textual.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const { geocodeLocation, setGeocodingProviders } = require('../dist/src/geocoding');
+const { fuzzCoordinates } = require('../dist/src/utils/locationPrivacy');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test y volver a los proveedores del entorno
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  setGeocodingProviders(null);
+});
+
+describe('Geocoding Integration Tests', () => {
+  let token;
+  let userId;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ name: 'Ana', email: 'ana@example.com', password: 'Password123!' });
+    await User.updateOne({ _id: response.body.data._id }, { emailVerified: true });
+
+    token = response.body.token;
+    userId = response.body.data._id;
+  });
+
+  const postItem = fields => request(app)
+    .post('/api/v1/items')
+    .set('Authorization', `Bearer ${token}`)
+    .send({
+      title: 'Libro de cocina',
+      description: 'Libro de recetas en buen estado',
+      category: 'books',
+      condition: 'good',
+      ...fields
+    });
+
+  test('Debe geocodificar textos libres y códigos postales con el nomenclátor', async () => {
+    const byPostcode = await geocodeLocation('Calle Mayor 3, 28901');
+    expect(byPostcode).toMatchObject({ municipality: 'Getafe', precision: 'postcode', provider: 'gazetteer' });
+
+    const byName = await geocodeLocation('Móstoles, Madrid, España');
+    expect(byName).toMatchObject({ label: 'Móstoles, Madrid', precision: 'municipality' });
+
+    const byProvince = await geocodeLocation('Una aldea, 46999');
+    expect(byProvince).toMatchObject({ label: 'Valencia/València', precision: 'province' });
+
+    expect(await geocodeLocation('Ningún sitio')).toBeNull();
+  });
+
+  test('Debe reconocer municipios pequeños sin confundirlos con palabras de la dirección', async () => {
+    expect(await geocodeLocation('Uña, Cuenca')).toMatchObject({ label: 'Uña, Cuenca', precision: 'municipality' });
+    expect(await geocodeLocation('San Sebastián')).toMatchObject({ province: 'Gipuzkoa', precision: 'municipality' });
+
+    // "Campo" es un municipio de Huesca, pero aquí es parte del texto
+    expect(await geocodeLocation('Mi casa en el campo')).toBeNull();
+  });
+
+  test('Debe sugerir municipios por nombre y por código postal', async () => {
+    const byName = await request(app)
+      .get('/api/v1/geocoding/autocomplete')
+      .query({ q: 'geta' });
+
+    expect(byName.status).toBe(200);
+    expect(byName.body.data[0]).toMatchObject({ label: 'Getafe, Madrid', lat: 40.3083, lng: -3.7327 });
+
+    const byPostcode = await request(app)
+      .get('/api/v1/geocoding/autocomplete')
+      .query({ q: '08015', limit: 3 });
+
+    expect(byPostcode.body.data.map(place => place.label)).toEqual(['Barcelona']);
+
+    const tooShort = await request(app)
+      .get('/api/v1/geocoding/autocomplete')
+      .query({ q: 'g' });
+
+    expect(tooShort.status).toBe(400);
+  });
+
+  test('Un artículo sin coordenadas las obtiene de su ubicación', async () => {
+    const geocoded = await postItem({ location: 'Getafe, Madrid' });
+
+    expect(geocoded.status).toBe(201);
+    expect(geocoded.body.data.coordinates).toMatchObject({
+      coordinates: fuzzCoordinates([-3.7327, 40.3083]),
+      enabled: true,
+      source: 'geocoded'
+    });
+    expect(geocoded.body.data.exactCoordinates).toEqual([-3.7327, 40.3083]);
+
+    // Las coordenadas elegidas por el usuario no se sustituyen
+    const picked = await postItem({
+      location: 'Getafe, Madrid',
+      coordinates: JSON.stringify({ lat: 40.3, lng: -3.72, enabled: true })
+    });
+
+    expect(picked.body.data.coordinates).toMatchObject({ coordinates: fuzzCoordinates([-3.72, 40.3]), source: 'user' });
+    expect(picked.body.data.exactCoordinates).toEqual([-3.72, 40.3]);
+  });
+
+  test('Al cambiar la ubicación se vuelven a geocodificar las coordenadas', async () => {
+    const created = await postItem({ location: 'Getafe' });
+    const itemId = created.body.data._id;
+
+    const moved = await request(app)
+      .put(`/api/v1/items/${itemId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ location: 'Sevilla' });
+
+    expect(moved.body.data.coordinates).toMatchObject({ coordinates: fuzzCoordinates([-5.9845, 37.3891]), enabled: true });
+
+    const unknown = await request(app)
+      .put(`/api/v1/items/${itemId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ location: 'Ningún sitio' });
+
+    expect(unknown.body.data.coordinates.enabled).toBe(false);
+
+    const stored = await Item.findById(itemId).select('+exactCoordinates').lean();
+    expect(stored.exactCoordinates).toBeUndefined();
+  });
+
+  test('Si falla un proveedor se prueba el siguiente', async () => {
+    setGeocodingProviders([
+      { name: 'roto', geocode: async () => { throw new Error('sin conexión'); }, autocomplete: async () => [] },
+      { name: 'fijo', geocode: async () => ({ label: 'Fijo', lat: 1, lng: 2, precision: 'address', provider: 'fijo' }), autocomplete: async () => [] }
+    ]);
+
+    const response = await postItem({ location: 'Cualquier sitio' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.exactCoordinates).toEqual([2, 1]);
+  });
+
+  test('Una ubicación de toda una provincia no da coordenadas al artículo', async () => {
+    const response = await postItem({ location: 'Una aldea, 46999' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.coordinates.enabled).toBe(false);
+
+    // Un proveedor posterior más preciso tiene preferencia
+    setGeocodingProviders([
+      { name: 'provincia', geocode: async () => ({ label: 'Valencia/València', lat: 39.47, lng: -0.38, precision: 'province', provider: 'provincia' }), autocomplete: async () => [] },
+      { name: 'fijo', geocode: async () => ({ label: 'Fijo', lat: 1, lng: 2, precision: 'address', provider: 'fijo' }), autocomplete: async () => [] }
+    ]);
+
+    expect(await geocodeLocation('Una aldea, 46999')).toMatchObject({ provider: 'fijo' });
+  });
+
+  test('La ubicación del perfil se geocodifica', async () => {
+    const response = await request(app)
+      .put(`/api/v1/users/${userId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ location: 'Bilbao' });
+
+    expect(response.status).toBe(200);
+
+    const user = await User.findById(userId).select('+exactCoordinates').lean();
+    expect(user.coordinates.coordinates).toEqual(fuzzCoordinates([-2.935, 43.263]));
+    expect(user.exactCoordinates).toEqual([-2.935, 43.263]);
+
+    await request(app)
+      .put(`/api/v1/users/${userId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ location: '' });
+
+    const cleared = await User.findById(userId).select('+exactCoordinates').lean();
+    expect(cleared.coordinates).toBeUndefined();
+    expect(cleared.exactCoordinates).toBeUndefined();
+  });
+});
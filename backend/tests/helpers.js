@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Utilidades compartidas por los tests de integración
+ *
+ * Reúne la preparación que repiten todas las suites de integración:
+ * - useInMemoryDatabase: arranca un MongoDB en memoria antes de la suite y
+ *   lo detiene al terminar
+ * - registerUser: registra un usuario por la API con el email ya verificado
+ *
+ * @example
+ * ```javascript
+ * const { useInMemoryDatabase, registerUser } = require('./helpers');
+ *
+ * useInMemoryDatabase();
+ *
+ * beforeEach(async () => {
+ *   ana = await registerUser('Ana', 'ana@example.com');
+ * });
+ * ```
+ */
+
+const request = require('supertest');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const mongoose = require('mongoose');
+const app = require('../dist/src/server').default;
+const User = require('../dist/src/models/User').default;
+
+/** Contraseña de los usuarios registrados con registerUser */
+const TEST_PASSWORD = 'Password123!';
+
+/**
+ * Conecta mongoose a un MongoDB en memoria durante la suite
+ *
+ * Registra los hooks beforeAll/afterAll de la suite que lo llama; los
+ * beforeAll que se declaren después ya tienen la conexión abierta (por
+ * ejemplo, para crear índices).
+ */
+const useInMemoryDatabase = () => {
+  let mongoServer;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+};
+
+/**
+ * Registra un usuario con el email verificado y devuelve su token e ID
+ *
+ * La verificación se fuerza en la base de datos para no depender del email
+ * de verificación en las suites que no la prueban.
+ */
+const registerUser = async (name, email) => {
+  const response = await request(app)
+    .post('/api/v1/auth/register')
+    .send({ name, email, password: TEST_PASSWORD });
+  await User.updateOne({ _id: response.body.data._id }, { emailVerified: true });
+
+  return { token: response.body.token, id: response.body.data._id };
+};
+
+module.exports = {
+  TEST_PASSWORD,
+  useInMemoryDatabase,
+  registerUser
+};
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Tests de integración para los atributos de categoría de los artículos
+ *
+ * Estos tests verifican la validación de los atributos de un artículo contra
+ * los que define su categoría (obligatorios, tipos y valores admitidos), la
+ * herencia de los atributos de la categoría padre, su conservación al editar
+ * el artículo y los filtros attr.<clave> de la búsqueda.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Category = require('../dist/src/models/Category').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test (las categorías por defecto se recrean solas)
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Category.deleteMany({});
+});
+
+describe('Item Attributes Integration Tests', () => {
+  let user;
+  let admin;
+
+  beforeEach(async () => {
+    user = await registerUser('Ana', 'ana@example.com');
+    admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+  });
+
+  const createCategory = body => request(app)
+    .post('/api/v1/categories')
+    .set('Authorization', `Bearer ${admin.token}`)
+    .send(body);
+
+  const postItem = (category, attributes) => request(app)
+    .post('/api/v1/items')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ title: 'Artículo', description: 'Artículo de prueba', category, attributes, condition: 'good', location: 'Madrid' });
+
+  test('Las categorías por defecto incluyen sus atributos', async () => {
+    const response = await request(app).get('/api/v1/categories').query({ lang: 'en' });
+    const clothing = response.body.data.find(category => category.slug === 'clothing');
+
+    expect(clothing.attributes.map(attribute => attribute.key)).toEqual(['size', 'gender']);
+    expect(clothing.attributes[0]).toMatchObject({ label: 'Size', type: 'enum', required: true });
+  });
+
+  test('Debe validar los atributos contra los de la categoría', async () => {
+    expect((await postItem('clothing')).status).toBe(400);
+    expect((await postItem('clothing', { size: 'XXXL' })).status).toBe(400);
+    expect((await postItem('clothing', { size: 'M', color: 'rojo' })).status).toBe(400);
+
+    const created = await postItem('clothing', { size: 'M', gender: '' });
+    expect(created.status).toBe(201);
+    expect(created.body.data.attributes).toEqual({ size: 'M' });
+
+    // Las peticiones multipart envían los atributos como JSON
+    const fromJson = await postItem('books', JSON.stringify({ author: ' Cervantes ', isbn: '9788424116' }));
+    expect(fromJson.status).toBe(201);
+    expect(fromJson.body.data.attributes).toEqual({ author: 'Cervantes', isbn: '9788424116' });
+  });
+
+  test('Debe convertir los atributos numéricos y booleanos', async () => {
+    const invalid = await createCategory({
+      slug: 'bikes',
+      labels: { es: 'Bicicletas' },
+      attributes: [{ key: 'frame', labels: { es: 'Cuadro' }, type: 'enum' }]
+    });
+    expect(invalid.status).toBe(400);
+
+    const created = await createCategory({
+      slug: 'bikes',
+      labels: { es: 'Bicicletas' },
+      attributes: [
+        { key: 'wheel_size', labels: { es: 'Tamaño de rueda' }, type: 'number', required: true },
+        { key: 'electric', labels: { es: 'Eléctrica' }, type: 'boolean' }
+      ]
+    });
+    expect(created.status).toBe(201);
+
+    expect((await postItem('bikes', { wheel_size: 'grande' })).status).toBe(400);
+
+    const item = await postItem('bikes', { wheel_size: '26', electric: 'true' });
+    expect(item.status).toBe(201);
+    expect(item.body.data.attributes).toEqual({ wheel_size: 26, electric: true });
+  });
+
+  test('Las subcategorías heredan los atributos de su categoría padre', async () => {
+    await createCategory({
+      slug: 'shoes',
+      labels: { es: 'Calzado' },
+      parent: 'clothing',
+      attributes: [{ key: 'size', labels: { es: 'Número' }, type: 'number', required: true }]
+    });
+
+    expect((await postItem('shoes', { size: 'M' })).status).toBe(400);
+
+    const item = await postItem('shoes', { size: 42, gender: 'Mujer' });
+    expect(item.status).toBe(201);
+    expect(item.body.data.attributes).toEqual({ size: 42, gender: 'Mujer' });
+  });
+
+  test('Al cambiar de categoría se conservan los atributos que admite la nueva', async () => {
+    await createCategory({
+      slug: 'sportswear',
+      labels: { es: 'Ropa deportiva' },
+      attributes: [{ key: 'size', labels: { es: 'Talla' }, type: 'enum', options: ['S', 'M', 'L'] }]
+    });
+
+    const created = await postItem('clothing', { size: 'M', gender: 'Unisex' });
+
+    const moved = await request(app)
+      .put(`/api/v1/items/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ category: 'sportswear' });
+
+    expect(moved.status).toBe(200);
+    expect(moved.body.data.attributes).toEqual({ size: 'M' });
+
+    const invalid = await request(app)
+      .put(`/api/v1/items/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ attributes: { size: 'XL' } });
+
+    expect(invalid.status).toBe(400);
+  });
+
+  test('Debe filtrar la búsqueda por atributos', async () => {
+    await postItem('clothing', { size: 'M' });
+    await postItem('clothing', { size: 'L' });
+    await postItem('books', { author: 'Cervantes' });
+    await Item.updateMany({}, { moderationStatus: 'approved' });
+
+    const bySize = await request(app).get('/api/v1/items/search').query({ 'attr.size': 'M' });
+    expect(bySize.body.data.map(item => item.attributes.size)).toEqual(['M']);
+
+    const nested = await request(app).get('/api/v1/items/search?category=books&attr[author]=Cervantes');
+    expect(nested.body.data).toHaveLength(1);
+
+    // Los filtros que no son texto se ignoran en lugar de llegar a MongoDB
+    const injected = await request(app).get('/api/v1/items/search?attr[size][$ne]=M');
+    expect(injected.status).toBe(200);
+    expect(injected.body.data).toHaveLength(3);
+  });
+});
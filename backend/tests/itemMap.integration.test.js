@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Tests de integración para el mapa de artículos
+ *
+ * Estos tests verifican que el mapa devuelve los artículos del área visible
+ * agrupados por zonas según el zoom, que al acercarse devuelve marcadores
+ * individuales y que aplica los mismos filtros que la búsqueda.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const { MAP_MAX_PINS } = require('../dist/src/utils/itemMap');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeAll(async () => {
+  await Item.createIndexes();
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+});
+
+describe('Item Map Integration Tests', () => {
+  // Área que cubre la península y zoom en el que Madrid es una sola celda
+  const SPAIN_BBOX = '-10,35,5,45';
+  const MADRID_BBOX = '-3.8,40.3,-3.6,40.5';
+
+  beforeEach(async () => {
+    const user = await User.create({ name: 'Ana', email: 'ana@example.com', password: 'Password123!' });
+
+    const createItem = (title, coordinates, fields = {}) => Item.create({
+      title,
+      description: 'Artículo de segunda mano',
+      category: 'books',
+      condition: 'good',
+      location: 'España',
+      coordinates: { type: 'Point', coordinates, enabled: true },
+      user: user._id,
+      moderationStatus: 'approved',
+      ...fields
+    });
+
+    await createItem('Novela en Sol', [-3.7038, 40.4168]);
+    await createItem('Novela en Chamberí', [-3.7100, 40.4300]);
+    await createItem('Cómic en Retiro', [-3.6850, 40.4150], { condition: 'new' });
+    await createItem('Portátil en Barcelona', [2.1734, 41.3851], { category: 'electronics' });
+    await createItem('Libro rechazado', [-3.7000, 40.4200], { moderationStatus: 'rejected' });
+    await createItem('Libro sin ubicación', [-3.7000, 40.4200], { coordinates: undefined });
+  });
+
+  const getMap = query => request(app).get('/api/v1/items/map').query(query);
+
+  test('Debe agrupar las zonas densas y devolver sueltos los artículos aislados', async () => {
+    const response = await getMap({ bbox: SPAIN_BBOX, zoom: 6 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.clustered).toBe(true);
+    expect(response.body.total).toBe(4);
+    expect(response.body.data.clusters).toHaveLength(1);
+    expect(response.body.data.clusters[0].count).toBe(3);
+    expect(response.body.data.clusters[0].lat).toBeCloseTo(40.42, 1);
+    expect(response.body.data.items.map(item => item.title)).toEqual(['Portátil en Barcelona']);
+  });
+
+  test('Debe aplicar los filtros de categoría y condición', async () => {
+    const byCategory = await getMap({ bbox: SPAIN_BBOX, zoom: 6, category: 'electronics' });
+    expect(byCategory.body.total).toBe(1);
+    expect(byCategory.body.data.clusters).toHaveLength(0);
+
+    const byCondition = await getMap({ bbox: SPAIN_BBOX, zoom: 6, category: 'books', condition: 'good' });
+    expect(byCondition.body.total).toBe(2);
+    expect(byCondition.body.data.clusters[0].count).toBe(2);
+  });
+
+  test('Al acercarse debe devolver marcadores individuales del área visible', async () => {
+    const response = await getMap({ bbox: MADRID_BBOX, zoom: 16 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.clustered).toBe(false);
+    expect(response.body.data.clusters).toHaveLength(0);
+    expect(response.body.data.items.map(item => item.title).sort()).toEqual([
+      'Cómic en Retiro',
+      'Novela en Chamberí',
+      'Novela en Sol'
+    ]);
+  });
+
+  test('Debe rechazar un área o un zoom no válidos', async () => {
+    expect((await getMap({ zoom: 6 })).status).toBe(400);
+    expect((await getMap({ bbox: '-10,45,5,35', zoom: 6 })).status).toBe(400);
+    expect((await getMap({ bbox: SPAIN_BBOX, zoom: 30 })).status).toBe(400);
+
+    // Demasiadas celdas para agrupar: la península entera a zoom de barrio
+    expect((await getMap({ bbox: SPAIN_BBOX, zoom: 14 })).status).toBe(400);
+    expect((await getMap({ bbox: MADRID_BBOX, zoom: 14 })).status).toBe(200);
+  });
+
+  test('Debe limitar los marcadores sueltos de las zonas agrupadas', async () => {
+    const user = await User.findOne({ email: 'ana@example.com' });
+    await Item.deleteMany({});
+
+    // Un artículo en cada celda de una rejilla de 5 grados (zoom 4)
+    const rows = Math.ceil((MAP_MAX_PINS + 1) / 60);
+    await Item.insertMany(Array.from({ length: MAP_MAX_PINS + 1 }, (_, index) => ({
+      title: `Artículo ${index}`,
+      description: 'Artículo de segunda mano',
+      category: 'books',
+      condition: 'good',
+      location: 'Mundo',
+      coordinates: {
+        type: 'Point',
+        coordinates: [-177 + (index % 60) * 5.625, -60 + Math.floor(index / 60) * (120 / rows)],
+        enabled: true
+      },
+      user: user._id,
+      moderationStatus: 'approved'
+    })));
+
+    const response = await getMap({ bbox: '-180,-80,180,80', zoom: 4 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.total).toBe(MAP_MAX_PINS + 1);
+    expect(response.body.data.clusters).toHaveLength(0);
+    expect(response.body.data.items).toHaveLength(MAP_MAX_PINS);
+    expect(response.body.truncated).toBe(true);
+  });
+});
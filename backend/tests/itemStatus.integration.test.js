@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Tests de integración para el ciclo de vida de los artículos
+ *
+ * Estos tests verifican que los artículos pasan por los estados
+ * draft → active → reserved → traded / withdrawn / expired solo a través de
+ * transiciones permitidas, que cada cambio queda en el historial y que la
+ * búsqueda solo devuelve anuncios activos.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const { expireStaleItems } = require('../dist/src/utils/itemLifecycle');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeAll(async () => {
+  await Item.createIndexes();
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+});
+
+describe('Item Status Integration Tests', () => {
+  let ana;
+  let luis;
+  let item;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Vendedora', 'ana@example.com');
+    luis = await registerUser('Luis Vecino', 'luis@example.com');
+
+    item = await Item.create({
+      title: 'Bicicleta de montaña',
+      description: 'Bicicleta con poco uso',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const changeStatus = (user, body, itemId = item._id) => request(app)
+    .patch(`/api/v1/items/${itemId}/status`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .send(body);
+
+  test('Debe reservar un artículo para otro usuario y registrar el historial', async () => {
+    const missingUser = await changeStatus(ana, { status: 'reserved' });
+    expect(missingUser.status).toBe(400);
+
+    const response = await changeStatus(ana, { status: 'reserved', reservedFor: luis.id });
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe('reserved');
+    expect(response.body.data.reservedFor.name).toBe('Luis Vecino');
+    expect(response.body.data.available).toBe(false);
+
+    const traded = await changeStatus(ana, { status: 'traded' });
+    expect(traded.status).toBe(200);
+
+    const saved = await Item.findById(item._id);
+    expect(saved.reservedFor).toBeUndefined();
+    expect(saved.statusHistory.map(change => change.status)).toEqual(['active', 'reserved', 'traded']);
+    expect(saved.statusHistory[1].reservedFor.toString()).toBe(luis.id);
+    saved.statusHistory.forEach(change => expect(change.changedAt).toBeInstanceOf(Date));
+  });
+
+  test('Debe rechazar las transiciones no permitidas', async () => {
+    await changeStatus(ana, { status: 'traded' });
+
+    const response = await changeStatus(ana, { status: 'active' });
+    expect(response.status).toBe(400);
+
+    const unknown = await changeStatus(ana, { status: 'sold' });
+    expect(unknown.status).toBe(400);
+  });
+
+  test('Solo el propietario puede cambiar el estado', async () => {
+    const response = await changeStatus(luis, { status: 'withdrawn' });
+
+    expect(response.status).toBe(401);
+    expect((await Item.findById(item._id)).status).toBe('active');
+  });
+
+  test('La búsqueda solo devuelve anuncios activos', async () => {
+    const other = { description: 'Bicicleta urbana', category: 'other', condition: 'good', location: 'Madrid, Spain', user: ana.id };
+    await Item.create({ ...other, title: 'Bicicleta borrador', status: 'draft' });
+    const reserved = await Item.create({ ...other, title: 'Bicicleta reservada' });
+    await changeStatus(ana, { status: 'reserved', reservedFor: luis.id }, reserved._id);
+
+    const response = await request(app).get('/api/v1/items/search?q=Bicicleta');
+    expect(response.status).toBe(200);
+    expect(response.body.data.map(result => result.title)).toEqual(['Bicicleta de montaña']);
+  });
+
+  test('Los borradores no aparecen en el listado público hasta publicarse', async () => {
+    const created = await request(app)
+      .post('/api/v1/items')
+      .set('Authorization', `Bearer ${ana.token}`)
+      .send({
+        title: 'Lámpara de pie',
+        description: 'Lámpara sin bombilla',
+        category: 'furniture',
+        condition: 'fair',
+        location: 'Madrid, Spain',
+        status: 'draft'
+      });
+    expect(created.status).toBe(201);
+    expect(created.body.data.status).toBe('draft');
+
+    let list = await request(app).get('/api/v1/items');
+    expect(list.body.data.map(result => result.title)).not.toContain('Lámpara de pie');
+
+    await changeStatus(ana, { status: 'active' }, created.body.data._id);
+    list = await request(app).get('/api/v1/items');
+    expect(list.body.data.map(result => result.title)).toContain('Lámpara de pie');
+
+    // Un artículo nuevo no puede nacer intercambiado
+    const invalid = await request(app)
+      .post('/api/v1/items')
+      .set('Authorization', `Bearer ${ana.token}`)
+      .send({ title: 'Silla', description: 'Silla', category: 'furniture', condition: 'good', location: 'Madrid', status: 'traded' });
+    expect(invalid.status).toBe(400);
+  });
+
+  test('Los anuncios activos sin cambios caducan y se pueden volver a publicar', async () => {
+    await Item.updateOne({ _id: item._id }, { statusChangedAt: new Date(Date.now() - 91 * 24 * 60 * 60 * 1000) });
+
+    expect(await expireStaleItems()).toBe(1);
+
+    const expired = await Item.findById(item._id);
+    expect(expired.status).toBe('expired');
+    expect(expired.available).toBe(false);
+
+    const renewed = await changeStatus(ana, { status: 'active' });
+    expect(renewed.status).toBe(200);
+    expect(renewed.body.data.available).toBe(true);
+  });
+});
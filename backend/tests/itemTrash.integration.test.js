@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Tests de integración para la papelera de artículos
+ *
+ * Estos tests verifican que eliminar un artículo lo envía a la papelera en
+ * lugar de borrarlo: deja de aparecer en los listados, el propietario puede
+ * restaurarlo dentro del plazo, los administradores en cualquier momento y
+ * la tarea programada lo purga al vencer el plazo de conservación.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Report = require('../dist/src/models/Report').default;
+const Trade = require('../dist/src/models/Trade').default;
+const { purgeDeletedItems } = require('../dist/src/utils/itemPurge');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Report.deleteMany({});
+  await Trade.deleteMany({});
+});
+
+describe('Item Trash Integration Tests', () => {
+  let ana;
+  let admin;
+  let item;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Vendedora', 'ana@example.com');
+    admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+
+    item = await Item.create({
+      title: 'Silla de madera',
+      description: 'Silla antigua restaurada',
+      category: 'furniture',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const deleteItem = user => request(app)
+    .delete(`/api/v1/items/${item._id}`)
+    .set('Authorization', `Bearer ${user.token}`);
+
+  const restoreItem = user => request(app)
+    .patch(`/api/v1/items/${item._id}/restore`)
+    .set('Authorization', `Bearer ${user.token}`);
+
+  test('Los artículos eliminados no aparecen en los listados ni en la búsqueda', async () => {
+    expect((await deleteItem(ana)).status).toBe(200);
+
+    const list = await request(app).get('/api/v1/items');
+    expect(list.body.data).toHaveLength(0);
+    expect(list.body.pagination.total).toBe(0);
+
+    const search = await request(app).get('/api/v1/items/search?q=Silla');
+    expect(search.body.data).toHaveLength(0);
+
+    const byUser = await request(app).get(`/api/v1/items/user/${ana.id}`);
+    expect(byUser.body.data).toHaveLength(0);
+
+    const trash = await request(app)
+      .get('/api/v1/items/deleted')
+      .set('Authorization', `Bearer ${ana.token}`);
+    expect(trash.body.data).toHaveLength(1);
+    expect(trash.body.data[0].restorableUntil).toBeDefined();
+  });
+
+  test('El propietario puede restaurar su artículo dentro del plazo', async () => {
+    await deleteItem(ana);
+
+    const response = await restoreItem(ana);
+    expect(response.status).toBe(200);
+    expect(response.body.data.deletedAt).toBeUndefined();
+
+    const detail = await request(app).get(`/api/v1/items/${item._id}`);
+    expect(detail.status).toBe(200);
+
+    // Un artículo que no está en la papelera no se restaura
+    expect((await restoreItem(ana)).status).toBe(400);
+  });
+
+  test('Pasado el plazo solo un administrador puede restaurarlo', async () => {
+    await deleteItem(ana);
+    await Item.updateOne({ _id: item._id }, { deletedAt: new Date(Date.now() - 31 * DAY_MS) });
+
+    expect((await restoreItem(ana)).status).toBe(410);
+    expect((await restoreItem(admin)).status).toBe(200);
+  });
+
+  test('El propietario no puede restaurar un artículo retirado por moderación', async () => {
+    await deleteItem(admin);
+
+    expect((await restoreItem(ana)).status).toBe(403);
+
+    const trash = await request(app)
+      .get('/api/v1/items/deleted')
+      .set('Authorization', `Bearer ${admin.token}`);
+    expect(trash.body.data).toHaveLength(1);
+  });
+
+  test('La purga borra los artículos vencidos salvo los que tienen denuncias pendientes', async () => {
+    const reported = await Item.create({
+      title: 'Reloj dudoso',
+      description: 'Reloj de marca',
+      category: 'other',
+      condition: 'new',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      moderationStatus: 'approved'
+    });
+    await Report.create({
+      reporter: admin.id,
+      targetType: 'item',
+      targetModel: 'Item',
+      target: reported._id,
+      reason: 'fraud'
+    });
+
+    const longAgo = new Date(Date.now() - 91 * DAY_MS);
+    await Item.updateMany({}, { deletedAt: longAgo, deletedBy: ana.id });
+
+    expect(await purgeDeletedItems()).toBe(1);
+    expect(await Item.findById(item._id)).toBeNull();
+    expect(await Item.findById(reported._id)).not.toBeNull();
+  });
+
+  test('Eliminar un artículo cancela sus intercambios abiertos', async () => {
+    const luis = await registerUser('Luis', 'luis@example.com');
+    const luisItem = await Item.create({
+      title: 'Mesa plegable',
+      description: 'Mesa de camping',
+      category: 'furniture',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: luis.id,
+      moderationStatus: 'approved'
+    });
+
+    const open = await Trade.create({ proposer: luis.id, recipient: ana.id, offeredItems: [luisItem._id], requestedItem: item._id });
+    const offered = await Trade.create({ proposer: ana.id, recipient: luis.id, offeredItems: [item._id], requestedItem: luisItem._id, status: 'accepted' });
+    const finished = await Trade.create({ proposer: ana.id, recipient: luis.id, offeredItems: [item._id], requestedItem: luisItem._id, status: 'rejected' });
+
+    expect((await deleteItem(ana)).status).toBe(200);
+
+    expect((await Trade.findById(open._id)).status).toBe('cancelled');
+    expect((await Trade.findById(offered._id)).status).toBe('cancelled');
+    expect((await Trade.findById(finished._id)).status).toBe('rejected');
+  });
+
+  test('La purga archiva los artículos que forman parte de intercambios', async () => {
+    const luis = await registerUser('Luis', 'luis@example.com');
+    const luisItem = await Item.create({
+      title: 'Mesa plegable',
+      description: 'Mesa de camping',
+      category: 'furniture',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: luis.id,
+      moderationStatus: 'approved'
+    });
+    const trade = await Trade.create({
+      proposer: ana.id,
+      recipient: luis.id,
+      offeredItems: [item._id],
+      requestedItem: luisItem._id,
+      status: 'completed'
+    });
+
+    await deleteItem(ana);
+    await Item.updateOne({ _id: item._id }, { deletedAt: new Date(Date.now() - 91 * DAY_MS) });
+
+    expect(await purgeDeletedItems()).toBe(1);
+
+    const archived = await Item.findById(item._id);
+    expect(archived.archivedAt).toBeDefined();
+    expect(archived.imageUrls).toEqual([]);
+    expect((await Trade.findById(trade._id).populate('offeredItems')).offeredItems[0].title).toBe('Silla de madera');
+
+    // Ya no está pendiente de purga ni puede restaurarse
+    expect(await purgeDeletedItems()).toBe(0);
+    expect((await restoreItem(admin)).status).toBe(410);
+
+    const trash = await request(app)
+      .get('/api/v1/items/deleted')
+      .set('Authorization', `Bearer ${admin.token}`);
+    expect(trash.body.data).toHaveLength(0);
+  });
+});
@@ -63,6 +63,7 @@ describe('Items Integration Tests', () => {
       .send(testUser);
 
     authToken = userResponse.body.token;
+    await User.updateOne({ _id: userResponse.body.data._id }, { emailVerified: true });
 
     // Datos de artículo de prueba
     testItem = {
@@ -264,17 +265,21 @@ describe('Items Integration Tests', () => {
       itemId = response.body.data._id;
     });
 
-    it('should delete own item', async () => {
+    it('should move own item to the trash', async () => {
       const response = await request(app)
         .delete(`/api/v1/items/${itemId}`)
         .set('Authorization', `Bearer ${authToken}`);
 
       expect(response.statusCode).toBe(200);
       expect(response.body.success).toBe(true);
+      expect(response.body.data.restorableUntil).toBeDefined();
 
-      // Verificar eliminación en base de datos
+      // Verificar que el item queda en la papelera y deja de ser visible
       const deletedItem = await Item.findById(itemId);
-      expect(deletedItem).toBeNull();
+      expect(deletedItem.deletedAt).toBeDefined();
+
+      const detail = await request(app).get(`/api/v1/items/${itemId}`);
+      expect(detail.statusCode).toBe(404);
     });
 
     it('should reject deletion without authentication', async () => {
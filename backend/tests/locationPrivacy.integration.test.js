@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Tests de integración para la privacidad de la ubicación
+ *
+ * Estos tests verifican que artículos y perfiles publican una ubicación
+ * aproximada y determinista, que las distancias se redondean y que el punto
+ * exacto solo lo ven el propietario y la otra parte de un intercambio acordado.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Trade = require('../dist/src/models/Trade').default;
+const { fuzzCoordinates, getApproximateDistance } = require('../dist/src/utils/locationPrivacy');
+const { fuzzPublicCoordinates } = require('../dist/src/migrations/fuzz-public-coordinates');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeAll(async () => {
+  await Item.createIndexes();
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Trade.deleteMany({});
+});
+
+// Punto exacto de prueba (una calle de Madrid) y su ubicación pública
+const HOME = [-3.70379, 40.41678];
+
+describe('Location Privacy Integration Tests', () => {
+  test('La ubicación pública es el centro de una celda de unos 500 m', () => {
+    const fuzzed = fuzzCoordinates(HOME);
+
+    expect(fuzzed).not.toEqual(HOME);
+    expect(fuzzCoordinates(HOME)).toEqual(fuzzed);
+    expect(getApproximateDistance(HOME, fuzzed)).toBeLessThanOrEqual(0.5);
+
+    // Puntos de la misma celda comparten ubicación pública
+    expect(fuzzCoordinates(fuzzed)).toEqual(fuzzed);
+  });
+
+  describe('Artículos', () => {
+    let owner;
+    let other;
+    let itemId;
+
+    beforeEach(async () => {
+      owner = await registerUser('Ana', 'ana@example.com');
+      other = await registerUser('Luis', 'luis@example.com');
+
+      const response = await request(app)
+        .post('/api/v1/items')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({
+          title: 'Bicicleta de paseo',
+          description: 'Bicicleta en buen estado',
+          category: 'other',
+          condition: 'good',
+          location: 'Madrid',
+          coordinates: { lat: HOME[1], lng: HOME[0], enabled: true }
+        });
+
+      itemId = response.body.data._id;
+      await Item.updateOne({ _id: itemId }, { moderationStatus: 'approved' });
+    });
+
+    const getItem = token => {
+      const req = request(app).get(`/api/v1/items/${itemId}`);
+      return token ? req.set('Authorization', `Bearer ${token}`) : req;
+    };
+
+    test('Solo se publica la ubicación aproximada', async () => {
+      const stored = await Item.findById(itemId).select('+exactCoordinates').lean();
+      expect(stored.coordinates.coordinates).toEqual(fuzzCoordinates(HOME));
+      expect(stored.exactCoordinates).toEqual(HOME);
+
+      const anonymous = await getItem();
+      expect(anonymous.status).toBe(200);
+      expect(anonymous.body.data.coordinates.coordinates).toEqual(fuzzCoordinates(HOME));
+      expect(anonymous.body.data.exactCoordinates).toBeUndefined();
+
+      const stranger = await getItem(other.token);
+      expect(stranger.body.data.exactCoordinates).toBeUndefined();
+
+      const mine = await getItem(owner.token);
+      expect(mine.body.data.exactCoordinates).toEqual(HOME);
+    });
+
+    test('El punto exacto se revela a la otra parte tras acordar el intercambio', async () => {
+      const otherItem = await Item.create({
+        title: 'Libro',
+        description: 'Libro de Luis',
+        category: 'books',
+        condition: 'good',
+        location: 'Madrid',
+        user: other.id,
+        moderationStatus: 'approved'
+      });
+
+      const trade = await Trade.create({
+        proposer: other.id,
+        recipient: owner.id,
+        offeredItems: [otherItem._id],
+        requestedItem: itemId
+      });
+
+      const proposed = await getItem(other.token);
+      expect(proposed.body.data.exactCoordinates).toBeUndefined();
+
+      await Trade.updateOne({ _id: trade._id }, { status: 'accepted' });
+
+      const accepted = await getItem(other.token);
+      expect(accepted.body.data.exactCoordinates).toEqual(HOME);
+    });
+
+    test('El cliente no puede fijar el punto exacto directamente', async () => {
+      await request(app)
+        .put(`/api/v1/items/${itemId}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ exactCoordinates: [0, 0] });
+
+      const stored = await Item.findById(itemId).select('+exactCoordinates').lean();
+      expect(stored.exactCoordinates).toEqual(HOME);
+    });
+
+    test('El listado no permite seleccionar ni filtrar por el punto exacto', async () => {
+      const selected = await request(app)
+        .get('/api/v1/items')
+        .query({ select: 'title,exactCoordinates,+exactCoordinates' });
+
+      expect(selected.status).toBe(200);
+      expect(selected.body.data[0].title).toBe('Bicicleta de paseo');
+      expect(selected.body.data[0].exactCoordinates).toBeUndefined();
+
+      // Un filtro por rangos permitiría acotar el punto exacto
+      const ranged = await request(app).get(`/api/v1/items?exactCoordinates.0[gte]=${HOME[0] - 0.001}`);
+      expect(ranged.status).toBe(400);
+
+      const nested = await request(app).get('/api/v1/items?exactCoordinates[gte]=0');
+      expect(nested.status).toBe(400);
+    });
+
+    test('Las distancias se calculan sobre la ubicación pública y se redondean', async () => {
+      const response = await request(app)
+        .get('/api/v1/items/search')
+        .query({ lat: 40.45, lng: -3.69, distance: 20 });
+
+      expect(response.status).toBe(200);
+      const [item] = response.body.data;
+      expect(item.exactCoordinates).toBeUndefined();
+      expect(item.distance).toBe(getApproximateDistance([-3.69, 40.45], fuzzCoordinates(HOME)));
+      expect(item.distance % 0.5).toBe(0);
+    });
+  });
+
+  test('La migración separa el punto exacto de los datos existentes', async () => {
+    const user = await User.create({ name: 'Ana', email: 'ana@example.com', password: 'Password123!' });
+    await User.collection.updateOne({ _id: user._id }, { $set: { coordinates: { type: 'Point', coordinates: HOME } } });
+    await Item.collection.insertOne({
+      title: 'Artículo antiguo',
+      user: user._id,
+      coordinates: { type: 'Point', coordinates: HOME, enabled: true }
+    });
+
+    expect(await fuzzPublicCoordinates()).toEqual({ items: 1, users: 1 });
+    // Es idempotente
+    expect(await fuzzPublicCoordinates()).toEqual({ items: 0, users: 0 });
+
+    const item = await Item.findOne({ user: user._id }).select('+exactCoordinates').lean();
+    expect(item.coordinates.coordinates).toEqual(fuzzCoordinates(HOME));
+    expect(item.exactCoordinates).toEqual(HOME);
+
+    const migrated = await User.findById(user._id).select('+exactCoordinates').lean();
+    expect(migrated.coordinates.coordinates).toEqual(fuzzCoordinates(HOME));
+    expect(migrated.exactCoordinates).toEqual(HOME);
+  });
+});
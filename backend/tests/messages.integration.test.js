@@ -0,0 +1,365 @@
+/**
+ * @fileoverview Tests de integración para la mensajería por conversaciones
+ *
+ * Estos tests verifican el inicio de conversaciones sobre un artículo, la
+ * lectura y configuración de cada conversación, el listado paginado por
+ * cursor, los eventos en tiempo real y la migración de los mensajes antiguos.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Conversation = require('../dist/src/models/Conversation').default;
+const socket = require('../dist/src/config/socket');
+const { groupMessagesIntoConversations } = require('../dist/src/migrations/group-messages-into-conversations');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Conversation.deleteMany({});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Messages Integration Tests', () => {
+  let ana;
+  let luis;
+  let item;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana', 'ana@example.com');
+    luis = await registerUser('Luis', 'luis@example.com');
+
+    item = await Item.create({
+      title: 'Bicicleta de paseo',
+      description: 'Bicicleta en buen estado',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid',
+      user: luis.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const start = (from, fields) => request(app)
+    .post('/api/v1/messages/start')
+    .set('Authorization', `Bearer ${from.token}`)
+    .send({ recipientId: luis.id, itemId: item._id, content: '¿Sigue disponible?', ...fields });
+
+  const send = (from, conversationId, content) => request(app)
+    .post('/api/v1/messages')
+    .set('Authorization', `Bearer ${from.token}`)
+    .send({ conversation: conversationId, content });
+
+  const listConversations = (user, query = {}) => request(app)
+    .get('/api/v1/messages/conversations')
+    .set('Authorization', `Bearer ${user.token}`)
+    .query(query);
+
+  describe('POST /start', () => {
+    test('Debe crear la conversación sobre el artículo con el primer mensaje', async () => {
+      const response = await start(ana);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.content).toBe('¿Sigue disponible?');
+      expect(response.body.conversation).toMatchObject({
+        withUser: { _id: luis.id, name: 'Luis' },
+        item: { title: 'Bicicleta de paseo' },
+        unreadCount: 0,
+        archived: false,
+        muted: false
+      });
+
+      // Una segunda conversación sobre el mismo artículo reutiliza el hilo
+      const again = await start(ana, { content: 'Te hago una oferta' });
+      expect(again.body.conversation._id).toBe(response.body.conversation._id);
+      expect(await Conversation.countDocuments()).toBe(1);
+
+      // Sin artículo se abre un hilo general distinto
+      const general = await start(ana, { itemId: undefined });
+      expect(general.body.conversation._id).not.toBe(response.body.conversation._id);
+      expect(general.body.conversation.item).toBeNull();
+    });
+
+    test('Debe rechazar destinatarios o artículos inválidos', async () => {
+      const toSelf = await start(ana, { recipientId: ana.id });
+      expect(toSelf.status).toBe(400);
+
+      const invalidRecipient = await start(ana, { recipientId: 'no-es-un-id' });
+      expect(invalidRecipient.status).toBe(400);
+
+      const missingRecipient = await start(ana, { recipientId: '507f1f77bcf86cd799439011' });
+      expect(missingRecipient.status).toBe(404);
+
+      const missingItem = await start(ana, { itemId: '507f1f77bcf86cd799439011' });
+      expect(missingItem.status).toBe(404);
+
+      expect(await Conversation.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('GET /conversation/:id', () => {
+    test('Debe devolver los mensajes por páginas en orden cronológico y marcarlos como leídos', async () => {
+      const started = await start(ana, { content: 'Mensaje 1' });
+      const conversationId = started.body.conversation._id;
+      await send(ana, conversationId, 'Mensaje 2');
+      await send(ana, conversationId, 'Mensaje 3');
+
+      const firstPage = await request(app)
+        .get(`/api/v1/messages/conversation/${conversationId}`)
+        .set('Authorization', `Bearer ${luis.token}`)
+        .query({ limit: 2 });
+
+      expect(firstPage.status).toBe(200);
+      expect(firstPage.body.messages.map(message => message.content)).toEqual(['Mensaje 2', 'Mensaje 3']);
+      expect(firstPage.body).toMatchObject({ total: 3, page: 1, totalPages: 2, hasNextPage: true, hasPrevPage: false });
+      expect(firstPage.body.conversation.unreadCount).toBe(0);
+
+      const secondPage = await request(app)
+        .get(`/api/v1/messages/conversation/${conversationId}`)
+        .set('Authorization', `Bearer ${luis.token}`)
+        .query({ limit: 2, page: 2 });
+
+      expect(secondPage.body.messages.map(message => message.content)).toEqual(['Mensaje 1']);
+      expect(await Message.countDocuments({ recipient: luis.id, read: false })).toBe(0);
+    });
+
+    test('Solo los participantes pueden leer la conversación', async () => {
+      const started = await start(ana);
+      const marta = await registerUser('Marta', 'marta@example.com');
+
+      const stranger = await request(app)
+        .get(`/api/v1/messages/conversation/${started.body.conversation._id}`)
+        .set('Authorization', `Bearer ${marta.token}`);
+      expect(stranger.status).toBe(403);
+
+      const invalid = await request(app)
+        .get('/api/v1/messages/conversation/no-es-un-id')
+        .set('Authorization', `Bearer ${ana.token}`);
+      expect(invalid.status).toBe(404);
+    });
+  });
+
+  describe('PUT /conversation/:id/settings', () => {
+    test('Debe archivar la conversación solo para quien la archiva', async () => {
+      const started = await start(ana);
+      const conversationId = started.body.conversation._id;
+
+      const archived = await request(app)
+        .put(`/api/v1/messages/conversation/${conversationId}/settings`)
+        .set('Authorization', `Bearer ${ana.token}`)
+        .send({ archived: true, muted: true });
+
+      expect(archived.status).toBe(200);
+      expect(archived.body.data).toMatchObject({ archived: true, muted: true });
+
+      expect((await listConversations(ana)).body.data).toHaveLength(0);
+      expect((await listConversations(ana, { archived: 'true' })).body.data).toHaveLength(1);
+      expect((await listConversations(ana, { archived: 'all' })).body.data).toHaveLength(1);
+      expect((await listConversations(luis)).body.data[0].archived).toBe(false);
+
+      // Un mensaje nuevo la desarchiva, pero sigue silenciada
+      await send(luis, conversationId, 'Sí, sigue disponible');
+      const [conversation] = (await listConversations(ana)).body.data;
+      expect(conversation).toMatchObject({ archived: false, muted: true });
+    });
+
+    test('Debe validar los campos y los participantes', async () => {
+      const started = await start(ana);
+      const settings = (user, body) => request(app)
+        .put(`/api/v1/messages/conversation/${started.body.conversation._id}/settings`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .send(body);
+
+      expect((await settings(ana, {})).status).toBe(400);
+      expect((await settings(ana, { archived: 'sí' })).status).toBe(400);
+
+      const marta = await registerUser('Marta', 'marta@example.com');
+      expect((await settings(marta, { archived: true })).status).toBe(403);
+    });
+  });
+
+  describe('GET /conversations', () => {
+    let partners;
+
+    beforeEach(async () => {
+      // Tres conversaciones de Ana con actividad en días distintos
+      partners = [luis, await registerUser('Marta', 'marta@example.com'), await registerUser('Pedro', 'pedro@example.com')];
+
+      for (const [index, partner] of partners.entries()) {
+        const started = await start(partner, { recipientId: ana.id, itemId: undefined, content: `Hola de ${index}` });
+        await Conversation.updateOne(
+          { _id: started.body.conversation._id },
+          { lastMessageAt: new Date(Date.UTC(2024, 0, index + 1)) }
+        );
+      }
+
+      // Un hilo sin mensajes no aparece en el listado
+      await Conversation.create({
+        key: 'sin-mensajes',
+        participants: [ana.id, luis.id],
+        participantStates: [{ user: ana.id }, { user: luis.id }]
+      });
+    });
+
+    test('Debe devolver la actividad más reciente primero con sus no leídos', async () => {
+      const response = await listConversations(ana);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map(conversation => conversation.withUser.name)).toEqual(['Pedro', 'Marta', 'Luis']);
+      expect(response.body.pagination).toMatchObject({ limit: 20, page: 1, hasMore: false, nextCursor: null });
+
+      const [latest] = response.body.data;
+      expect(latest.unreadCount).toBe(1);
+      expect(latest.lastMessage).toMatchObject({
+        content: 'Hola de 2',
+        sender: { name: 'Pedro' },
+        recipient: { name: 'Ana' }
+      });
+    });
+
+    test('Debe paginar por cursor sin repetir ni saltar conversaciones', async () => {
+      const first = await listConversations(ana, { limit: 2 });
+
+      expect(first.body.data.map(conversation => conversation.withUser.name)).toEqual(['Pedro', 'Marta']);
+      expect(first.body.pagination.hasMore).toBe(true);
+
+      // Una conversación con actividad nueva no desplaza la página siguiente
+      await start(partners[1], { recipientId: ana.id, itemId: undefined, content: 'Otra cosa' });
+      const second = await listConversations(ana, { limit: 2, cursor: first.body.pagination.nextCursor });
+
+      expect(second.body.data.map(conversation => conversation.withUser.name)).toEqual(['Luis']);
+      expect(second.body.pagination).toMatchObject({ hasMore: false, nextCursor: null });
+      expect(second.body.pagination.page).toBeUndefined();
+
+      const byPage = await listConversations(ana, { limit: 2, page: 2 });
+      expect(byPage.body.data.map(conversation => conversation.withUser.name)).toEqual(['Luis']);
+      expect(byPage.body.pagination).toMatchObject({ page: 2, hasMore: false });
+
+      const invalid = await listConversations(ana, { cursor: 'no-es-un-cursor' });
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe('Eventos en tiempo real', () => {
+    test('Un mensaje nuevo se emite a ambos participantes con sus no leídos', async () => {
+      const emit = jest.spyOn(socket, 'emitToUser');
+
+      const started = await start(ana);
+      const conversationId = started.body.conversation._id;
+
+      const events = emit.mock.calls.map(([userId, event, payload]) => ({ userId: String(userId), event, payload }));
+
+      const newMessages = events.filter(({ event }) => event === 'message:new');
+      expect(newMessages.map(({ userId }) => userId).sort()).toEqual([ana.id, luis.id].sort());
+      newMessages.forEach(({ payload }) => expect(payload.content).toBe('¿Sigue disponible?'));
+
+      const updated = events.filter(({ event }) => event === 'conversation:updated');
+      expect(updated.find(({ userId }) => userId === luis.id).payload).toMatchObject({
+        conversationId,
+        withUser: ana.id,
+        unreadCount: 1,
+        totalUnread: 1
+      });
+      expect(updated.find(({ userId }) => userId === ana.id).payload).toMatchObject({
+        conversationId,
+        withUser: luis.id,
+        unreadCount: 0,
+        totalUnread: 0
+      });
+    });
+
+    test('Leer la conversación avisa al remitente y actualiza los contadores del lector', async () => {
+      const started = await start(ana);
+      const conversationId = started.body.conversation._id;
+      const message = await Message.findOne({ conversation: conversationId });
+
+      const emit = jest.spyOn(socket, 'emitToUser');
+
+      await request(app)
+        .get(`/api/v1/messages/conversation/${conversationId}`)
+        .set('Authorization', `Bearer ${luis.token}`);
+
+      const read = emit.mock.calls.find(([, event]) => event === 'message:read');
+      expect(String(read[0])).toBe(ana.id);
+      expect(read[2]).toEqual({ readerId: luis.id, conversationId, messageIds: [message._id.toString()] });
+
+      const updated = emit.mock.calls.find(([, event]) => event === 'conversation:updated');
+      expect(String(updated[0])).toBe(luis.id);
+      expect(updated[2]).toMatchObject({ conversationId, unreadCount: 0, totalUnread: 0 });
+
+      // Sin mensajes pendientes no se vuelve a avisar
+      emit.mockClear();
+      await request(app)
+        .get(`/api/v1/messages/conversation/${conversationId}`)
+        .set('Authorization', `Bearer ${luis.token}`);
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    test('Borrar un mensaje actualiza la conversación de ambos participantes', async () => {
+      const started = await start(ana);
+      const emit = jest.spyOn(socket, 'emitToUser');
+
+      await request(app)
+        .delete(`/api/v1/messages/${started.body.data._id}`)
+        .set('Authorization', `Bearer ${ana.token}`);
+
+      const updated = emit.mock.calls.filter(([, event]) => event === 'conversation:updated');
+      expect(updated.map(([userId]) => String(userId)).sort()).toEqual([ana.id, luis.id].sort());
+      updated.forEach(([, , payload]) => expect(payload).toMatchObject({ lastMessage: null, unreadCount: 0 }));
+    });
+  });
+
+  describe('Migración a conversaciones', () => {
+    test('Debe agrupar los mensajes antiguos por pareja de usuarios y artículo', async () => {
+      const legacy = (sender, recipient, content, fields = {}) => ({
+        sender: sender._id,
+        recipient: recipient._id,
+        content,
+        read: false,
+        createdAt: new Date(),
+        ...fields
+      });
+      const [anaUser, luisUser] = await Promise.all([User.findById(ana.id), User.findById(luis.id)]);
+
+      // Los mensajes sin artículo pueden no tener el campo o tenerlo a null
+      await Message.collection.insertMany([
+        legacy(anaUser, luisUser, 'Hola', { createdAt: new Date('2024-01-01') }),
+        legacy(luisUser, anaUser, 'Hola, Ana', { item: null, createdAt: new Date('2024-01-02') }),
+        legacy(anaUser, luisUser, '¿Y la bici?', { item: item._id, createdAt: new Date('2024-01-03') })
+      ]);
+
+      expect(await groupMessagesIntoConversations()).toEqual({ conversations: 2, messages: 3 });
+      // Es idempotente
+      expect(await groupMessagesIntoConversations()).toEqual({ conversations: 0, messages: 0 });
+
+      expect(await Message.countDocuments({ conversation: { $exists: false } })).toBe(0);
+
+      const general = await Conversation.findOne({ item: { $exists: false } });
+      const generalMessages = await Message.find({ conversation: general._id }).sort({ createdAt: 1 });
+      expect(generalMessages.map(message => message.content)).toEqual(['Hola', 'Hola, Ana']);
+      expect(general.lastMessage.toString()).toBe(generalMessages[1]._id.toString());
+
+      const aboutItem = await Conversation.findOne({ item: item._id });
+      expect(await Message.countDocuments({ conversation: aboutItem._id })).toBe(1);
+
+      // Las conversaciones migradas aparecen en el listado
+      const response = await listConversations(ana);
+      expect(response.body.data).toHaveLength(2);
+    });
+  });
+});
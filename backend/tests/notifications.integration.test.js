@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Tests de integración para el centro de notificaciones
+ *
+ * Estos tests verifican que los eventos de la aplicación (mensajes nuevos,
+ * moderación de artículos y avisos de administración) quedan guardados como
+ * notificaciones y que el usuario puede listarlas y marcarlas como leídas.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Conversation = require('../dist/src/models/Conversation').default;
+const Notification = require('../dist/src/models/Notification').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Conversation.deleteMany({});
+  await Notification.deleteMany({});
+});
+
+describe('Notifications Integration Tests', () => {
+  let ana;
+  let luis;
+  let admin;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Vendedora', 'ana@example.com');
+    luis = await registerUser('Luis Comprador', 'luis@example.com');
+    admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+  });
+
+  const listNotifications = (user, query = {}) => request(app)
+    .get('/api/v1/notifications')
+    .query(query)
+    .set('Authorization', `Bearer ${user.token}`);
+
+  const sendMessage = (from, to, content) => request(app)
+    .post('/api/v1/messages')
+    .set('Authorization', `Bearer ${from.token}`)
+    .send({ recipient: to.id, content });
+
+  test('Un mensaje nuevo crea una notificación salvo en conversaciones silenciadas', async () => {
+    const sent = await sendMessage(luis, ana, '¿Sigue disponible la bicicleta?');
+    expect(sent.status).toBe(201);
+
+    const list = await listNotifications(ana);
+    expect(list.status).toBe(200);
+    expect(list.body.unreadCount).toBe(1);
+    expect(list.body.data[0]).toMatchObject({
+      type: 'message',
+      title: 'Nuevo mensaje de Luis Comprador',
+      body: '¿Sigue disponible la bicicleta?',
+      read: false
+    });
+    expect(list.body.data[0].link).toContain(`/message/${luis.id}`);
+    expect((await listNotifications(luis)).body.total).toBe(0);
+
+    await request(app)
+      .put(`/api/v1/messages/conversation/${sent.body.data.conversation}/settings`)
+      .set('Authorization', `Bearer ${ana.token}`)
+      .send({ muted: true });
+    await sendMessage(luis, ana, 'Te escribo otra vez');
+
+    expect((await listNotifications(ana)).body.total).toBe(1);
+  });
+
+  test('La moderación de un artículo notifica a su propietario', async () => {
+    const createItem = title => Item.create({
+      title,
+      description: 'Artículo de segunda mano',
+      category: 'books',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: ana.id,
+      moderationStatus: 'pending'
+    });
+    const approved = await createItem('Novela de misterio');
+    const rejected = await createItem('Libro repetido');
+
+    await request(app)
+      .patch(`/api/v1/items/${approved._id}/approve`)
+      .set('Authorization', `Bearer ${admin.token}`);
+    await request(app)
+      .patch(`/api/v1/items/${rejected._id}/reject`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({ reason: 'Fotos poco claras' });
+
+    const notifications = await Notification.find({ user: ana.id }).sort({ _id: 1 });
+    expect(notifications.map(notification => notification.type)).toEqual(['item_approved', 'item_rejected']);
+    expect(notifications[0].link).toBe(`/item/${approved._id}`);
+    expect(notifications[1].body).toBe('Fotos poco claras');
+    expect(notifications[1].payload.itemId).toBe(rejected._id.toString());
+  });
+
+  test('Los avisos de administración llegan al centro de notificaciones', async () => {
+    const response = await request(app)
+      .post('/api/v1/admin/notifications')
+      .set('Authorization', `Bearer ${admin.token}`)
+      .send({
+        title: 'Mantenimiento',
+        message: 'El servicio se detendrá esta noche',
+        type: 'warning',
+        recipients: 'users',
+        channels: ['in_app']
+      });
+    expect(response.status).toBe(201);
+    expect(response.body.data).toEqual({ sent: 2, failed: 0 });
+
+    const list = await listNotifications(luis);
+    expect(list.body.data[0]).toMatchObject({
+      type: 'admin_broadcast',
+      title: 'Mantenimiento',
+      body: 'El servicio se detendrá esta noche',
+      payload: { level: 'warning' }
+    });
+    expect(await Message.countDocuments()).toBe(0);
+  });
+
+  test('Debe marcar como leídas una notificación o todas', async () => {
+    await sendMessage(luis, ana, 'Hola');
+    await sendMessage(luis, ana, '¿Hacemos el intercambio?');
+    await sendMessage(luis, ana, 'Quedo atento');
+
+    const [first] = (await listNotifications(ana)).body.data;
+
+    const forbidden = await request(app)
+      .patch(`/api/v1/notifications/${first._id}/read`)
+      .set('Authorization', `Bearer ${luis.token}`);
+    expect(forbidden.status).toBe(404);
+
+    const read = await request(app)
+      .patch(`/api/v1/notifications/${first._id}/read`)
+      .set('Authorization', `Bearer ${ana.token}`);
+    expect(read.status).toBe(200);
+    expect(read.body.data.read).toBe(true);
+    expect(read.body.unreadCount).toBe(2);
+
+    const unread = await listNotifications(ana, { unread: 'true' });
+    expect(unread.body.total).toBe(2);
+
+    const all = await request(app)
+      .patch('/api/v1/notifications/read-all')
+      .set('Authorization', `Bearer ${ana.token}`);
+    expect(all.body.data.updated).toBe(2);
+    expect((await listNotifications(ana)).body.unreadCount).toBe(0);
+  });
+});
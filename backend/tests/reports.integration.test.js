@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Tests de integración para las denuncias y la cola de moderación (Reports)
+ *
+ * Estos tests verifican que los usuarios pueden denunciar artículos, perfiles
+ * y mensajes, que los administradores ven la cola de denuncias pendientes y
+ * que al resolverlas se aplica la acción elegida y se registra quién la gestionó.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Conversation = require('../dist/src/models/Conversation').default;
+const Report = require('../dist/src/models/Report').default;
+const Session = require('../dist/src/models/Session').default;
+const socket = require('../dist/src/config/socket');
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Conversation.deleteMany({});
+  await Report.deleteMany({});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Reports Integration Tests', () => {
+  let ana;
+  let luis;
+  let admin;
+  let luisItem;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Denunciante', 'ana@example.com');
+    luis = await registerUser('Luis Denunciado', 'luis@example.com');
+    admin = await registerUser('Admin Moderador', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+
+    luisItem = await Item.create({
+      title: 'Artículo sospechoso',
+      description: 'Descripción del artículo',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: luis.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const report = (user, body) => request(app)
+    .post('/api/v1/reports')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ targetType: 'item', targetId: luisItem._id, reason: 'fraud', ...body });
+
+  const resolve = (reportId, body) => request(app)
+    .put(`/api/v1/reports/${reportId}/resolve`)
+    .set('Authorization', `Bearer ${admin.token}`)
+    .send(body);
+
+  describe('POST /api/v1/reports', () => {
+    it('should create a pending report for an item', async () => {
+      const response = await report(ana);
+
+      expect(response.statusCode).toBe(201);
+      expect(response.body.data.status).toBe('pending');
+      expect(response.body.data.targetModel).toBe('Item');
+    });
+
+    it('should not allow reporting your own item', async () => {
+      const response = await report(luis);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should not allow a duplicate pending report', async () => {
+      await report(ana);
+
+      const response = await report(ana, { reason: 'spam' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should only allow the recipient to report a message', async () => {
+      const sent = await request(app)
+        .post('/api/v1/messages')
+        .set('Authorization', `Bearer ${luis.token}`)
+        .send({ recipientId: ana.id, content: 'Mensaje ofensivo' });
+      const messageId = sent.body.data._id;
+
+      const asSender = await report(luis, { targetType: 'message', targetId: messageId, reason: 'harassment' });
+      const asRecipient = await report(ana, { targetType: 'message', targetId: messageId, reason: 'harassment' });
+
+      expect(asSender.statusCode).toBe(403);
+      expect(asRecipient.statusCode).toBe(201);
+    });
+  });
+
+  describe('GET /api/v1/reports', () => {
+    it('should list pending reports with the reported content for admins', async () => {
+      await report(ana);
+
+      const response = await request(app)
+        .get('/api/v1/reports')
+        .set('Authorization', `Bearer ${admin.token}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.data[0].target.title).toBe('Artículo sospechoso');
+      expect(response.body.data[0].reporter.name).toBe('Ana Denunciante');
+    });
+
+    it('should reject non-admin users', async () => {
+      const response = await request(app)
+        .get('/api/v1/reports')
+        .set('Authorization', `Bearer ${ana.token}`);
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('PUT /api/v1/reports/:id/resolve', () => {
+    it('should hide the item and record who handled the report', async () => {
+      const created = await report(ana);
+
+      const response = await resolve(created.body.data._id, { action: 'hide_item', note: 'Estafa' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.data.status).toBe('resolved');
+      expect(response.body.data.resolution.resolvedBy.name).toBe('Admin Moderador');
+
+      const item = await Item.findById(luisItem._id);
+      expect(item.moderationStatus).toBe('rejected');
+      expect(item.available).toBe(false);
+    });
+
+    it('should suspend the owner of the reported item and block their access', async () => {
+      const created = await report(ana);
+      const disconnect = jest.spyOn(socket, 'disconnectUserSessions');
+
+      await resolve(created.body.data._id, { action: 'suspend_user' });
+
+      const profile = await request(app)
+        .get('/api/v1/auth/me')
+        .set('Authorization', `Bearer ${luis.token}`);
+      const login = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: 'luis@example.com', password: 'Password123!' });
+
+      expect(profile.statusCode).toBe(401);
+      expect(login.statusCode).toBe(403);
+
+      // Sus sesiones se revocan y sus sockets se desconectan
+      expect(await Session.countDocuments({ user: luis.id, revokedAt: { $exists: false } })).toBe(0);
+      expect(disconnect).toHaveBeenCalledTimes(1);
+      expect(String(disconnect.mock.calls[0][0])).toBe(luis.id);
+    });
+
+    it('should dismiss every pending report on the same content', async () => {
+      const maria = await registerUser('María Testigo', 'maria@example.com');
+      const created = await report(ana);
+      await report(maria, { reason: 'spam' });
+
+      const response = await resolve(created.body.data._id, { action: 'dismiss' });
+
+      expect(response.statusCode).toBe(200);
+      expect(await Report.countDocuments({ status: 'dismissed' })).toBe(2);
+      expect(await Report.countDocuments({ status: 'pending' })).toBe(0);
+    });
+
+    it('should not resolve a report twice', async () => {
+      const created = await report(ana);
+      await resolve(created.body.data._id, { action: 'dismiss' });
+
+      const response = await resolve(created.body.data._id, { action: 'hide_item' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
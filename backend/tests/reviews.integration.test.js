@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tests de integración para las valoraciones entre usuarios (Reviews)
+ *
+ * Estos tests verifican que solo los usuarios que han conversado sobre un
+ * artículo pueden valorarse, que no se duplican valoraciones y que la
+ * reputación agregada se expone en el perfil.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Message = require('../dist/src/models/Message').default;
+const Conversation = require('../dist/src/models/Conversation').default;
+const Review = require('../dist/src/models/Review').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Message.deleteMany({});
+  await Conversation.deleteMany({});
+  await Review.deleteMany({});
+});
+
+/**
+ * Envía un mensaje sobre un artículo
+ */
+const sendMessage = (from, to, itemId) => request(app)
+  .post('/api/v1/messages')
+  .set('Authorization', `Bearer ${from.token}`)
+  .send({ recipientId: to.id, itemId, content: 'Hola' });
+
+describe('Reviews Integration Tests', () => {
+  let ana;
+  let luis;
+  let luisItem;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Compradora', 'ana@example.com');
+    luis = await registerUser('Luis Vendedor', 'luis@example.com');
+
+    luisItem = await Item.create({
+      title: 'Bicicleta de Luis',
+      description: 'Bicicleta de montaña',
+      category: 'other',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: luis.id,
+      moderationStatus: 'approved'
+    });
+  });
+
+  const review = (body) => request(app)
+    .post(`/api/v1/users/${luis.id}/reviews`)
+    .set('Authorization', `Bearer ${ana.token}`)
+    .send({ itemId: luisItem._id, rating: 5, comment: 'Muy amable', ...body });
+
+  describe('POST /api/v1/users/:id/reviews', () => {
+    it('should reject reviews between users who have not talked about the item', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+
+      const response = await review();
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should create a review once both users have exchanged messages', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+      await sendMessage(luis, ana, luisItem._id);
+
+      const response = await review();
+
+      expect(response.statusCode).toBe(201);
+      expect(response.body.data.rating).toBe(5);
+      expect(response.body.data.reviewer.name).toBe('Ana Compradora');
+    });
+
+    it('should not allow a second review for the same item', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+      await sendMessage(luis, ana, luisItem._id);
+      await review();
+
+      const response = await review({ rating: 1 });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject ratings outside 1-5', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+      await sendMessage(luis, ana, luisItem._id);
+
+      const response = await review({ rating: 6 });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/users/:id/reviews', () => {
+    it('should list reviews with the aggregated rating', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+      await sendMessage(luis, ana, luisItem._id);
+      await review({ rating: 4 });
+
+      const response = await request(app)
+        .get(`/api/v1/users/${luis.id}/reviews`)
+        .set('Authorization', `Bearer ${ana.token}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.rating).toEqual({ average: 4, count: 1 });
+    });
+
+    it('should expose the rating on the user profile', async () => {
+      await sendMessage(ana, luis, luisItem._id);
+      await sendMessage(luis, ana, luisItem._id);
+      await review({ rating: 3 });
+
+      const response = await request(app)
+        .get(`/api/v1/users/${luis.id}`)
+        .set('Authorization', `Bearer ${luis.token}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.data.rating).toEqual({ average: 3, count: 1 });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tests de integración para las búsquedas guardadas
+ *
+ * Estos tests verifican que un usuario puede guardar los filtros de una
+ * búsqueda, que al aprobar un artículo se avisa a las búsquedas que
+ * coinciden con la misma lógica que la búsqueda pública y que las
+ * coincidencias sin revisar se envían en el resumen por email.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const fs = require('fs');
+const path = require('path');
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const SavedSearch = require('../dist/src/models/SavedSearch').default;
+const { sendSavedSearchDigests } = require('../dist/src/utils/savedSearchAlerts');
+
+// Directorio donde el transporte de ficheros guarda los emails (ver setup.js)
+const outboxPath = process.env.MAIL_OUTBOX_PATH;
+
+/**
+ * Devuelve el último email guardado por el transporte de ficheros
+ */
+const readLastEmail = () => {
+  const files = fs.readdirSync(outboxPath).sort();
+  return JSON.parse(fs.readFileSync(path.join(outboxPath, files[files.length - 1]), 'utf8'));
+};
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeAll(async () => {
+  await Item.createIndexes();
+});
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await SavedSearch.deleteMany({});
+});
+
+describe('Saved Searches Integration Tests', () => {
+  let ana;
+  let luis;
+  let admin;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Vendedora', 'ana@example.com');
+    luis = await registerUser('Luis Buscador', 'luis@example.com');
+    admin = await registerUser('Admin', 'admin@example.com');
+    await User.updateOne({ _id: admin.id }, { role: 'admin' });
+  });
+
+  const saveSearch = (user, body) => request(app)
+    .post('/api/v1/saved-searches')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send(body);
+
+  const listSearches = user => request(app)
+    .get('/api/v1/saved-searches')
+    .set('Authorization', `Bearer ${user.token}`);
+
+  /**
+   * Crea un artículo pendiente de moderación y lo aprueba como administrador
+   */
+  const publishItem = async (userId, fields) => {
+    const item = await Item.create({
+      description: 'Artículo de segunda mano',
+      category: 'books',
+      condition: 'good',
+      location: 'Madrid, Spain',
+      user: userId,
+      moderationStatus: 'pending',
+      ...fields
+    });
+
+    await request(app)
+      .patch(`/api/v1/items/${item._id}/approve`)
+      .set('Authorization', `Bearer ${admin.token}`);
+
+    return item;
+  };
+
+  test('Debe guardar una búsqueda con al menos un filtro', async () => {
+    const empty = await saveSearch(luis, { name: 'Vacía', filters: { q: '  ' } });
+    expect(empty.status).toBe(400);
+
+    const invalid = await saveSearch(luis, { name: 'Coches', filters: { category: 'cars' } });
+    expect(invalid.status).toBe(400);
+
+    const response = await saveSearch(luis, { name: 'Novelas', filters: { q: 'novela', category: 'books' } });
+    expect(response.status).toBe(201);
+    expect(response.body.data.filters).toEqual({ q: 'novela', category: 'books' });
+    expect(response.body.data.newMatches).toBe(0);
+
+    const list = await listSearches(luis);
+    expect(list.body.data).toHaveLength(1);
+    expect((await listSearches(ana)).body.data).toHaveLength(0);
+  });
+
+  test('Al aprobar un artículo se avisa a las búsquedas que coinciden', async () => {
+    const saved = await saveSearch(luis, { name: 'Novelas', filters: { q: 'novela', category: 'books' } });
+    const searchId = saved.body.data._id;
+
+    const matching = await publishItem(ana.id, { title: 'Novela de misterio' });
+    await publishItem(ana.id, { title: 'Novela gráfica', category: 'other' });
+    await publishItem(ana.id, { title: 'Novela en borrador', status: 'draft' });
+    // Las búsquedas no avisan de los artículos propios
+    await publishItem(luis.id, { title: 'Novela histórica' });
+
+    const list = await listSearches(luis);
+    expect(list.body.data[0].newMatches).toBe(1);
+
+    // La búsqueda pública da el mismo resultado que el aviso
+    const search = await request(app).get('/api/v1/items/search?q=novela&category=books');
+    expect(search.body.data.map(item => item.title)).toEqual(expect.arrayContaining(['Novela de misterio']));
+
+    const matches = await request(app)
+      .get(`/api/v1/saved-searches/${searchId}/matches`)
+      .set('Authorization', `Bearer ${luis.token}`);
+    expect(matches.status).toBe(200);
+    expect(matches.body.data.map(item => item._id)).toEqual([matching._id.toString()]);
+
+    // Revisar las coincidencias las marca como vistas
+    expect((await listSearches(luis)).body.data[0].newMatches).toBe(0);
+  });
+
+  test('Solo el propietario puede modificar o borrar su búsqueda', async () => {
+    const saved = await saveSearch(luis, { name: 'Lámparas', filters: { q: 'lámpara' } });
+    const searchId = saved.body.data._id;
+
+    const foreign = await request(app)
+      .delete(`/api/v1/saved-searches/${searchId}`)
+      .set('Authorization', `Bearer ${ana.token}`);
+    expect(foreign.status).toBe(404);
+
+    const updated = await request(app)
+      .put(`/api/v1/saved-searches/${searchId}`)
+      .set('Authorization', `Bearer ${luis.token}`)
+      .send({ name: 'Lámparas de pie', emailDigest: true });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.name).toBe('Lámparas de pie');
+    expect(updated.body.data.emailDigest).toBe(true);
+
+    const removed = await request(app)
+      .delete(`/api/v1/saved-searches/${searchId}`)
+      .set('Authorization', `Bearer ${luis.token}`);
+    expect(removed.status).toBe(200);
+    expect(await SavedSearch.countDocuments()).toBe(0);
+  });
+
+  test('Las coincidencias sin revisar se envían en el resumen por email', async () => {
+    await saveSearch(luis, { name: 'Novelas', filters: { q: 'novela' }, emailDigest: true });
+    await saveSearch(luis, { name: 'Sin resumen', filters: { category: 'books' } });
+
+    await publishItem(ana.id, { title: 'Novela de aventuras' });
+
+    expect(await sendSavedSearchDigests()).toBe(1);
+
+    const email = readLastEmail();
+    expect(email.to).toBe('luis@example.com');
+    expect(email.text).toContain('Novela de aventuras');
+    expect(email.text).not.toContain('Sin resumen');
+
+    // Cada coincidencia se envía una sola vez
+    expect(await sendSavedSearchDigests()).toBe(0);
+  });
+});
@@ -107,6 +107,10 @@ process.env.CLOUDINARY_API_SECRET = 'test_api_secret';
 process.env.PORT = '5000';
 process.env.FRONTEND_URL = 'http://localhost:3000';
 
+// Los emails se guardan como ficheros JSON para poder inspeccionarlos en las pruebas
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_OUTBOX_PATH = require('path').join(require('os').tmpdir(), 'ecommunitas-test-mail');
+
 // ============================================================================
 // CONFIGURACIÓN DEL SISTEMA DE LOGGING
 // ============================================================================
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Tests de integración para el módulo de intercambios (Trades)
+ *
+ * Estos tests verifican el ciclo de vida completo de un intercambio:
+ * propuesta, aceptación, contraoferta, finalización y cancelación.
+ * Utilizan MongoDB en memoria para aislamiento completo.
+ */
+
+// Configurar entorno de pruebas
+process.env.NODE_ENV = 'test';
+
+const request = require('supertest');
+const app = require('../dist/src/server').default;
+const { useInMemoryDatabase, registerUser } = require('./helpers');
+const User = require('../dist/src/models/User').default;
+const Item = require('../dist/src/models/Item').default;
+const Trade = require('../dist/src/models/Trade').default;
+
+// Configuración de base de datos en memoria
+useInMemoryDatabase();
+
+beforeEach(async () => {
+  // Limpiar colecciones antes de cada test
+  await User.deleteMany({});
+  await Item.deleteMany({});
+  await Trade.deleteMany({});
+});
+
+/**
+ * Crea un artículo aprobado y disponible para un usuario
+ */
+const createApprovedItem = (userId, title) => Item.create({
+  title,
+  description: `Descripción de ${title}`,
+  category: 'books',
+  condition: 'good',
+  location: 'Madrid, Spain',
+  user: userId,
+  moderationStatus: 'approved'
+});
+
+describe('Trades Integration Tests', () => {
+  let ana;
+  let luis;
+  let anaItem;
+  let luisItem;
+
+  beforeEach(async () => {
+    ana = await registerUser('Ana Proponente', 'ana@example.com');
+    luis = await registerUser('Luis Destinatario', 'luis@example.com');
+
+    anaItem = await createApprovedItem(ana.id, 'Libro de Ana');
+    luisItem = await createApprovedItem(luis.id, 'Libro de Luis');
+  });
+
+  const propose = () => request(app)
+    .post('/api/v1/trades')
+    .set('Authorization', `Bearer ${ana.token}`)
+    .send({ offeredItems: [anaItem._id], requestedItem: luisItem._id, message: '¿Cambiamos?' });
+
+  describe('POST /api/v1/trades', () => {
+    it('should create a proposal for another user item', async () => {
+      const response = await propose();
+
+      expect(response.statusCode).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.status).toBe('proposed');
+      expect(response.body.data.recipient._id).toBe(luis.id);
+      expect(response.body.data.offeredItems).toHaveLength(1);
+    });
+
+    it('should reject offering items the proposer does not own', async () => {
+      const response = await request(app)
+        .post('/api/v1/trades')
+        .set('Authorization', `Bearer ${ana.token}`)
+        .send({ offeredItems: [luisItem._id], requestedItem: luisItem._id });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should accept items pending moderation on both sides, but not rejected ones', async () => {
+      await Item.updateMany({}, { moderationStatus: 'pending' });
+      expect((await propose()).statusCode).toBe(201);
+
+      await Trade.deleteMany({});
+      await Item.updateOne({ _id: luisItem._id }, { moderationStatus: 'rejected' });
+      expect((await propose()).statusCode).toBe(400);
+    });
+
+    it('should reject trades without authentication', async () => {
+      const response = await request(app)
+        .post('/api/v1/trades')
+        .send({ offeredItems: [anaItem._id], requestedItem: luisItem._id });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('Trade lifecycle', () => {
+    let tradeId;
+
+    beforeEach(async () => {
+      const response = await propose();
+      tradeId = response.body.data._id;
+    });
+
+    it('should only let the recipient accept', async () => {
+      const response = await request(app)
+        .put(`/api/v1/trades/${tradeId}/accept`)
+        .set('Authorization', `Bearer ${ana.token}`);
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should mark both sides unavailable on completion', async () => {
+      await request(app)
+        .put(`/api/v1/trades/${tradeId}/accept`)
+        .set('Authorization', `Bearer ${luis.token}`)
+        .expect(200);
+
+      const response = await request(app)
+        .put(`/api/v1/trades/${tradeId}/complete`)
+        .set('Authorization', `Bearer ${ana.token}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.data.status).toBe('completed');
+
+      const [offered, requested] = await Promise.all([
+        Item.findById(anaItem._id),
+        Item.findById(luisItem._id)
+      ]);
+      expect(offered.available).toBe(false);
+      expect(requested.available).toBe(false);
+    });
+
+    it('should complete only one of two accepted trades on the same item', async () => {
+      const marta = await registerUser('Marta Competidora', 'marta@example.com');
+      const martaItem = await createApprovedItem(marta.id, 'Libro de Marta');
+
+      const other = await request(app)
+        .post('/api/v1/trades')
+        .set('Authorization', `Bearer ${marta.token}`)
+        .send({ offeredItems: [martaItem._id], requestedItem: luisItem._id });
+
+      for (const id of [tradeId, other.body.data._id]) {
+        await request(app)
+          .put(`/api/v1/trades/${id}/accept`)
+          .set('Authorization', `Bearer ${luis.token}`)
+          .expect(200);
+      }
+
+      const responses = await Promise.all([tradeId, other.body.data._id].map(id => request(app)
+        .put(`/api/v1/trades/${id}/complete`)
+        .set('Authorization', `Bearer ${luis.token}`)));
+
+      expect(responses.map(response => response.statusCode).sort()).toEqual([200, 409]);
+      expect(await Trade.countDocuments({ status: 'completed' })).toBe(1);
+
+      // El artículo del intercambio que no se completó sigue disponible
+      const loser = responses.find(response => response.statusCode === 409) === responses[0] ? anaItem : martaItem;
+      const item = await Item.findById(loser._id);
+      expect(item.status).toBe('active');
+      expect(item.available).toBe(true);
+    });
+
+    it('should not complete a trade that has not been accepted', async () => {
+      const response = await request(app)
+        .put(`/api/v1/trades/${tradeId}/complete`)
+        .set('Authorization', `Bearer ${luis.token}`);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should link a counter-offer to the original proposal', async () => {
+      const anaOtherItem = await createApprovedItem(ana.id, 'Disco de Ana');
+
+      const response = await request(app)
+        .post(`/api/v1/trades/${tradeId}/counter`)
+        .set('Authorization', `Bearer ${luis.token}`)
+        .send({ offeredItems: [luisItem._id], requestedItem: anaOtherItem._id });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.body.data.counterOf).toBe(tradeId);
+      expect(response.body.data.recipient._id).toBe(ana.id);
+
+      const original = await Trade.findById(tradeId);
+      expect(original.status).toBe('countered');
+      expect(original.counteredBy.toString()).toBe(response.body.data._id);
+    });
+
+    it('should list trades for the user history endpoint', async () => {
+      const response = await request(app)
+        .get(`/api/v1/users/${luis.id}/trades?role=received`)
+        .set('Authorization', `Bearer ${luis.token}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.pagination.total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Tipos del paquete all-the-cities (GeoNames), que no publica los suyos.
+ * Solo lo usa el generador del nomenclátor (src/geocoding/build-gazetteer.ts).
+ */
+declare module 'all-the-cities' {
+  interface City {
+    cityId: number;
+    name: string;
+    altName: string;
+    country: string;
+    featureCode: string;
+    adminCode: string;
+    population: number;
+    loc: { type: 'Point'; coordinates: [number, number] };
+    /** Código INE del municipio en España (provincia + municipio) */
+    muni?: string;
+  }
+
+  const cities: City[];
+  export = cities;
+}
@@ -103,7 +103,7 @@ export interface IUser extends Document {
   updatedAt: Date;
   
   // Methods
-  getSignedJwtToken(): string;
+  getSignedJwtToken(sessionId: string): string;
   matchPassword(enteredPassword: string): Promise<boolean>;
   getResetPasswordToken(): string;
 }
@@ -42,17 +42,30 @@ export const API_BASE_URL = '/api/v1'
  * - FORGOT_PASSWORD: Solicitar recuperación de contraseña
  * - RESET_PASSWORD: Restablecer contraseña con token
  * - UPDATE_PASSWORD: Actualizar contraseña
+ * - TWO_FACTOR_*: Verificación en dos pasos (segundo paso del login, activación y desactivación)
  */
 export const AUTH_ROUTES = {
   LOGIN: `${API_BASE_URL}/auth/login`,
   REGISTER: `${API_BASE_URL}/auth/register`,
   LOGOUT: `${API_BASE_URL}/auth/logout`,
+  LOGOUT_ALL: `${API_BASE_URL}/auth/logout-all`,
+  REFRESH: `${API_BASE_URL}/auth/refresh`,
+  SESSIONS: `${API_BASE_URL}/auth/sessions`,
+  SESSION_BY_ID: (id: string) => `${API_BASE_URL}/auth/sessions/${id}`,
   ME: `${API_BASE_URL}/auth/me`,
   PROFILE: `${API_BASE_URL}/auth/profile`,
   CHECK: `${API_BASE_URL}/auth/check`,
   FORGOT_PASSWORD: `${API_BASE_URL}/auth/forgotpassword`,
   RESET_PASSWORD: (token: string) => `${API_BASE_URL}/auth/resetpassword/${token}`,
-  UPDATE_PASSWORD: `${API_BASE_URL}/auth/updatepassword`
+  UPDATE_PASSWORD: `${API_BASE_URL}/auth/updatepassword`,
+  VERIFY_EMAIL: (token: string) => `${API_BASE_URL}/auth/verify-email/${token}`,
+  RESEND_VERIFICATION: `${API_BASE_URL}/auth/resend-verification`,
+  UNLOCK_ACCOUNT: (token: string) => `${API_BASE_URL}/auth/unlock-account/${token}`,
+  TWO_FACTOR_LOGIN: `${API_BASE_URL}/auth/2fa/login`,
+  TWO_FACTOR_SETUP: `${API_BASE_URL}/auth/2fa/setup`,
+  TWO_FACTOR_ENABLE: `${API_BASE_URL}/auth/2fa/enable`,
+  TWO_FACTOR_DISABLE: `${API_BASE_URL}/auth/2fa/disable`,
+  TWO_FACTOR_RECOVERY_CODES: `${API_BASE_URL}/auth/2fa/recovery-codes`
 } as const
 
 /**
@@ -64,20 +77,31 @@ export const AUTH_ROUTES = {
  * - BASE: Operaciones CRUD básicas
  * - BY_ID: Obtener item específico por ID
  * - SEARCH: Búsqueda avanzada de items
+ * - MAP: Items del área visible del mapa, agrupados según el zoom
  * - BY_USER: Items de un usuario específico
  * - AVAILABILITY: Gestión de disponibilidad
  * - MODERATION: Rutas de moderación
  * - APPROVE/REJECT: Aprobación y rechazo de items
+ * - DELETED/RESTORE: Papelera de items eliminados y su restauración
+ * - STATUS: Cambio de estado del ciclo de vida de un item
+ * - FAVORITES/FAVORITE_COUNTS/FAVORITE: Favoritos del usuario, favoritos de sus items y alta/baja de un favorito
  */
 export const ITEM_ROUTES = {
   BASE: `${API_BASE_URL}/items`,
   BY_ID: (id: string) => `${API_BASE_URL}/items/${id}`,
   SEARCH: `${API_BASE_URL}/items/search`,
+  MAP: `${API_BASE_URL}/items/map`,
   BY_USER: (userId: string) => `${API_BASE_URL}/items/user/${userId}`,
   AVAILABILITY: (id: string) => `${API_BASE_URL}/items/${id}/availability`,
   MODERATION: `${API_BASE_URL}/items/moderation`,
   APPROVE: (id: string) => `${API_BASE_URL}/items/${id}/approve`,
-  REJECT: (id: string) => `${API_BASE_URL}/items/${id}/reject`
+  REJECT: (id: string) => `${API_BASE_URL}/items/${id}/reject`,
+  DELETED: `${API_BASE_URL}/items/deleted`,
+  RESTORE: (id: string) => `${API_BASE_URL}/items/${id}/restore`,
+  STATUS: (id: string) => `${API_BASE_URL}/items/${id}/status`,
+  FAVORITES: `${API_BASE_URL}/items/favorites`,
+  FAVORITE_COUNTS: `${API_BASE_URL}/items/favorites/counts`,
+  FAVORITE: (id: string) => `${API_BASE_URL}/items/${id}/favorite`
 } as const
 
 /**
@@ -91,13 +115,22 @@ export const ITEM_ROUTES = {
  * - PROFILE: Gestión de perfil de usuario
  * - ITEMS: Items de un usuario específico
  * - TRADES: Intercambios de un usuario
+ * - REVIEWS: Valoraciones recibidas por un usuario
+ * - DATA_EXPORT: Exportación de los datos personales del usuario actual
+ * - ME / CANCEL_DELETION: Eliminación de la cuenta del usuario actual y su cancelación
  */
 export const USER_ROUTES = {
   BASE: `${API_BASE_URL}/users`,
   BY_ID: (id: string) => `${API_BASE_URL}/users/${id}`,
   PROFILE: `${API_BASE_URL}/users/profile`,
   ITEMS: (userId: string) => `${API_BASE_URL}/users/${userId}/items`,
-  TRADES: (userId: string) => `${API_BASE_URL}/users/${userId}/trades`
+  TRADES: (userId: string) => `${API_BASE_URL}/users/${userId}/trades`,
+  REVIEWS: (userId: string) => `${API_BASE_URL}/users/${userId}/reviews`,
+  REVIEW_BY_ID: (userId: string, reviewId: string) => `${API_BASE_URL}/users/${userId}/reviews/${reviewId}`,
+  DATA_EXPORT: `${API_BASE_URL}/users/me/export`,
+  DATA_EXPORT_DOWNLOAD: `${API_BASE_URL}/users/me/export/download`,
+  ME: `${API_BASE_URL}/users/me`,
+  CANCEL_DELETION: `${API_BASE_URL}/users/me/deletion/cancel`
 } as const
 
 /**
@@ -113,6 +146,7 @@ export const USER_ROUTES = {
  * - CONVERSATIONS: Lista de conversaciones del usuario
  * - MARK_READ: Marcar mensajes como leídos
  * - UNREAD_COUNT: Contador de mensajes no leídos
+ * - CONVERSATION_SETTINGS: Archivar o silenciar una conversación
  */
 export const MESSAGE_ROUTES = {
   BASE: `${API_BASE_URL}/messages`,
@@ -126,7 +160,102 @@ export const MESSAGE_ROUTES = {
   MARK_READ: (id: string) => `${API_BASE_URL}/messages/${id}/read`,
   MARK_CONVERSATION_READ: (userId: string) => `${API_BASE_URL}/messages/conversations/${userId}/read`,
   DELETE: (id: string) => `${API_BASE_URL}/messages/${id}`,
-  START_CONVERSATION: `${API_BASE_URL}/messages/start`
+  START_CONVERSATION: `${API_BASE_URL}/messages/start`,
+  CONVERSATION_SETTINGS: (conversationId: string) => `${API_BASE_URL}/messages/conversation/${conversationId}/settings`
+} as const
+
+/**
+ * Rutas para el sistema de intercambios
+ * 
+ * @constant {object} TRADE_ROUTES
+ * @description
+ * Contiene todas las rutas para el ciclo de vida de un intercambio:
+ * - BASE: Listar intercambios propios y proponer nuevos
+ * - BY_ID: Obtener intercambio específico por ID
+ * - ACCEPT/REJECT: Respuesta del destinatario a una propuesta
+ * - COUNTER: Contraoferta a una propuesta
+ * - COMPLETE/CANCEL: Finalización o cancelación del intercambio
+ */
+export const TRADE_ROUTES = {
+  BASE: `${API_BASE_URL}/trades`,
+  BY_ID: (id: string) => `${API_BASE_URL}/trades/${id}`,
+  ACCEPT: (id: string) => `${API_BASE_URL}/trades/${id}/accept`,
+  REJECT: (id: string) => `${API_BASE_URL}/trades/${id}/reject`,
+  COUNTER: (id: string) => `${API_BASE_URL}/trades/${id}/counter`,
+  COMPLETE: (id: string) => `${API_BASE_URL}/trades/${id}/complete`,
+  CANCEL: (id: string) => `${API_BASE_URL}/trades/${id}/cancel`
+} as const
+
+/**
+ * Rutas para el sistema de denuncias
+ * 
+ * @constant {object} REPORT_ROUTES
+ * @description
+ * Contiene las rutas de denuncias y de la cola de moderación:
+ * - BASE: Denunciar contenido (usuarios) y listar denuncias (administradores)
+ * - RESOLVE: Resolver una denuncia con una acción de moderación
+ */
+export const REPORT_ROUTES = {
+  BASE: `${API_BASE_URL}/reports`,
+  RESOLVE: (id: string) => `${API_BASE_URL}/reports/${id}/resolve`
+} as const
+
+/**
+ * Rutas para las búsquedas guardadas
+ * 
+ * @constant {object} SAVED_SEARCH_ROUTES
+ * @description
+ * Contiene las rutas de las búsquedas guardadas del usuario actual:
+ * - BASE: Listar y guardar búsquedas
+ * - BY_ID: Modificar o borrar una búsqueda
+ * - MATCHES: Artículos nuevos que coinciden con una búsqueda
+ */
+export const SAVED_SEARCH_ROUTES = {
+  BASE: `${API_BASE_URL}/saved-searches`,
+  BY_ID: (id: string) => `${API_BASE_URL}/saved-searches/${id}`,
+  MATCHES: (id: string) => `${API_BASE_URL}/saved-searches/${id}/matches`
+} as const
+
+/**
+ * Rutas para el centro de notificaciones
+ * 
+ * @constant {object} NOTIFICATION_ROUTES
+ * @description
+ * Contiene las rutas de las notificaciones del usuario actual:
+ * - BASE: Listar notificaciones
+ * - READ: Marcar una notificación como leída
+ * - READ_ALL: Marcar todas como leídas
+ */
+export const NOTIFICATION_ROUTES = {
+  BASE: `${API_BASE_URL}/notifications`,
+  READ: (id: string) => `${API_BASE_URL}/notifications/${id}/read`,
+  READ_ALL: `${API_BASE_URL}/notifications/read-all`
+} as const
+
+/**
+ * Rutas de geocodificación
+ * 
+ * @constant {object} GEOCODING_ROUTES
+ * @description
+ * Contiene las rutas públicas de geocodificación:
+ * - AUTOCOMPLETE: Sugerencias de ubicaciones (municipios y códigos postales)
+ */
+export const GEOCODING_ROUTES = {
+  AUTOCOMPLETE: `${API_BASE_URL}/geocoding/autocomplete`
+} as const
+
+/**
+ * Rutas de categorías de artículos
+ * 
+ * @constant {object} CATEGORY_ROUTES
+ * @description
+ * Contiene las rutas de categorías:
+ * - BASE: Listado público y alta de categorías (alta solo administradores)
+ * - BY_ID: Modificación y borrado de una categoría (solo administradores)
+ */
+export const CATEGORY_ROUTES = {
+  BASE: `${API_BASE_URL}/categories`,
+  BY_ID: (id: string) => `${API_BASE_URL}/categories/${id}`
 } as const
 
 /**
@@ -179,6 +308,12 @@ export const SYSTEM_ROUTES = {
  * - ITEMS: Rutas de items/artículos
  * - USERS: Rutas de usuarios
  * - MESSAGES: Rutas de mensajería
+ * - TRADES: Rutas de intercambios
+ * - REPORTS: Rutas de denuncias
+ * - SAVED_SEARCHES: Rutas de búsquedas guardadas
+ * - NOTIFICATIONS: Rutas del centro de notificaciones
+ * - GEOCODING: Rutas de geocodificación
+ * - CATEGORIES: Rutas de categorías
  * - ADMIN: Rutas administrativas
  * - SYSTEM: Rutas del sistema
  */
@@ -187,6 +322,12 @@ export const API_ROUTES = {
   ITEMS: ITEM_ROUTES,
   USERS: USER_ROUTES,
   MESSAGES: MESSAGE_ROUTES,
+  TRADES: TRADE_ROUTES,
+  REPORTS: REPORT_ROUTES,
+  SAVED_SEARCHES: SAVED_SEARCH_ROUTES,
+  NOTIFICATIONS: NOTIFICATION_ROUTES,
+  GEOCODING: GEOCODING_ROUTES,
+  CATEGORIES: CATEGORY_ROUTES,
   ADMIN: ADMIN_ROUTES,
   SYSTEM: SYSTEM_ROUTES
 } as const
@@ -208,6 +349,24 @@ export type UserRoutes = typeof USER_ROUTES
 /** Tipo para rutas de mensajes */
 export type MessageRoutes = typeof MESSAGE_ROUTES
 
+/** Tipo para rutas de intercambios */
+export type TradeRoutes = typeof TRADE_ROUTES
+
+/** Tipo para rutas de denuncias */
+export type ReportRoutes = typeof REPORT_ROUTES
+
+/** Tipo para rutas de búsquedas guardadas */
+export type SavedSearchRoutes = typeof SAVED_SEARCH_ROUTES
+
+/** Tipo para rutas de notificaciones */
+export type NotificationRoutes = typeof NOTIFICATION_ROUTES
+
+/** Tipo para rutas de geocodificación */
+export type GeocodingRoutes = typeof GEOCODING_ROUTES
+
+/** Tipo para rutas de categorías */
+export type CategoryRoutes = typeof CATEGORY_ROUTES
+
 /** Tipo para rutas administrativas */
 export type AdminRoutes = typeof ADMIN_ROUTES
 
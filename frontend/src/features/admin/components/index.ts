@@ -6,6 +6,7 @@
 
 // Management Components
 export { default as ItemManagement } from './ItemManagement.vue'
+export { default as CategoryManagement } from './CategoryManagement.vue'
 
 // TODO: Add when implemented
 // export { default as AdminDashboard } from './AdminDashboard.vue'
@@ -74,6 +74,7 @@ export function useAdminDashboard(): UseAdminDashboardReturn {
   const tabs: Tab[] = [
     { id: 'users', name: 'User Management' },
     { id: 'items', name: 'Item Moderation' },
+    { id: 'categories', name: 'Categories' },
     { id: 'analytics', name: 'Analytics' }
   ]
 
@@ -0,0 +1,121 @@
+import { ref, computed, type Ref, type ComputedRef } from 'vue'
+import { categoryService, type ItemCategory, type CategoryData } from '@/features/items'
+import { loadCategories } from '@/shared/composables/useCategories'
+import { useNotifications } from '@/shared/composables/useNotifications'
+import { displayError } from '@/shared/utils/errorHandler'
+
+/**
+ * Interfaz de retorno del composable useCategoryManagement
+ * @interface UseCategoryManagementReturn
+ */
+interface UseCategoryManagementReturn {
+  /** Todas las categorías, también las desactivadas */
+  categories: Ref<ItemCategory[]>;
+  /** Categorías principales (posibles categorías padre) */
+  parentCategories: ComputedRef<ItemCategory[]>;
+  /** Indica si se están cargando las categorías */
+  loading: Ref<boolean>;
+  /** Indica si se está guardando una categoría */
+  saving: Ref<boolean>;
+  /** Carga todas las categorías */
+  fetchCategories: () => Promise<void>;
+  /** Crea una categoría */
+  createCategory: (data: CategoryData) => Promise<boolean>;
+  /** Modifica una categoría */
+  updateCategory: (category: ItemCategory, data: CategoryData) => Promise<boolean>;
+  /** Activa o desactiva una categoría */
+  toggleCategory: (category: ItemCategory) => Promise<boolean>;
+  /** Borra una categoría sin uso */
+  deleteCategory: (category: ItemCategory) => Promise<boolean>;
+}
+
+/**
+ * Composable para la gestión de categorías desde el panel de administración
+ * Tras cada cambio recarga las categorías que usan los formularios y filtros
+ *
+ * @returns {UseCategoryManagementReturn} Estado y acciones de la gestión de categorías
+ *
+ * @example
+ * ```typescript
+ * const { categories, fetchCategories, createCategory } = useCategoryManagement()
+ *
+ * await fetchCategories()
+ * await createCategory({ slug: 'toys', labels: { es: 'Juguetes', en: 'Toys' } })
+ * ```
+ */
+export function useCategoryManagement(): UseCategoryManagementReturn {
+  const { notifySuccess } = useNotifications()
+
+  const categories = ref<ItemCategory[]>([])
+  const loading = ref(false)
+  const saving = ref(false)
+
+  const parentCategories = computed(() => categories.value.filter(category => !category.parent))
+
+  /**
+   * Carga todas las categorías, incluidas las desactivadas
+   *
+   * @returns {Promise<void>}
+   */
+  const fetchCategories = async (): Promise<void> => {
+    loading.value = true
+
+    try {
+      categories.value = await categoryService.getCategories(true)
+    } catch (error) {
+      displayError(error)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Ejecuta una operación sobre las categorías y recarga los listados
+   *
+   * @param {() => Promise<unknown>} operation - Operación de la API
+   * @param {string} successMessage - Mensaje si la operación tiene éxito
+   * @returns {Promise<boolean>} true si la operación tuvo éxito
+   */
+  const runOperation = async (operation: () => Promise<unknown>, successMessage: string): Promise<boolean> => {
+    saving.value = true
+
+    try {
+      await operation()
+      notifySuccess(successMessage)
+      await Promise.all([fetchCategories(), loadCategories(true)])
+      return true
+    } catch (error) {
+      displayError(error)
+      return false
+    } finally {
+      saving.value = false
+    }
+  }
+
+  const createCategory = (data: CategoryData): Promise<boolean> =>
+    runOperation(() => categoryService.createCategory(data), 'Categoría creada')
+
+  const updateCategory = (category: ItemCategory, data: CategoryData): Promise<boolean> =>
+    runOperation(() => categoryService.updateCategory(category._id, data), 'Categoría actualizada')
+
+  const toggleCategory = (category: ItemCategory): Promise<boolean> =>
+    runOperation(
+      () => categoryService.updateCategory(category._id, { active: !category.active }),
+      category.active ? 'Categoría desactivada' : 'Categoría activada'
+    )
+
+  const deleteCategory = (category: ItemCategory): Promise<boolean> =>
+    runOperation(() => categoryService.deleteCategory(category._id), 'Categoría borrada')
+
+  return {
+    categories,
+    parentCategories,
+    loading,
+    saving,
+    fetchCategories,
+    createCategory,
+    updateCategory,
+    toggleCategory,
+    deleteCategory
+  }
+}
@@ -1,7 +1,10 @@
-import { onMounted } from 'vue'
+import { ref, onMounted, type Ref } from 'vue'
 import { useRouter } from 'vue-router'
 // import { useToast } from 'vue-toastification' // Migrated to standardized error handling
 import { useItemsStore } from '@/features/items'
+import { adminService } from '../services/adminService'
+import type { ContentReport, ReportAction } from '../services/adminService'
+import { displayError } from '@/shared/utils/errorHandler'
 
 // Types
 /**
@@ -41,6 +44,18 @@ interface Item {
  * @interface UseItemManagementReturn
  */
 interface UseItemManagementReturn {
+  /** Denuncias pendientes de la cola de moderación */
+  reports: Ref<ContentReport[]>;
+  /** Total de denuncias pendientes */
+  reportsTotal: Ref<number>;
+  /** Indica si se está cargando la cola de denuncias */
+  reportsLoading: Ref<boolean>;
+  /** ID de la denuncia que se está resolviendo */
+  resolvingReportId: Ref<string | null>;
+  /** Carga las denuncias pendientes */
+  loadReports: () => Promise<void>;
+  /** Resuelve una denuncia con una acción de moderación */
+  resolveReport: (report: ContentReport, action: ReportAction, note?: string) => Promise<boolean>;
   /** Maneja la actualización exitosa de un artículo */
   handleItemUpdated: (updatedItem: Item) => void;
   /** Maneja la eliminación exitosa de un artículo */
@@ -53,12 +68,13 @@ interface UseItemManagementReturn {
  * Composable para gestión de artículos
  * Maneja la lógica de inicialización y eventos del componente ItemManagement
  * Proporciona handlers para actualización y eliminación de artículos
+ * y la cola de denuncias pendientes de moderación
  * 
  * @returns {UseItemManagementReturn} Objeto con métodos para gestionar artículos
  * 
  * @example
  * ```typescript
- * const { handleItemUpdated, handleItemDeleted, initializeComponent } = useItemManagement()
+ * const { handleItemUpdated, handleItemDeleted, initializeComponent, resolveReport } = useItemManagement()
  * 
  * // Inicializar componente
  * await initializeComponent()
@@ -66,6 +82,9 @@ interface UseItemManagementReturn {
  * // Manejar eventos de artículos
  * handleItemUpdated(updatedItem)
  * handleItemDeleted(deletedItem)
+ * 
+ * // Ocultar el artículo de una denuncia
+ * await resolveReport(report, 'hide_item', 'Artículo prohibido')
  * ```
  */
 export function useItemManagement(): UseItemManagementReturn {
@@ -73,6 +92,74 @@ export function useItemManagement(): UseItemManagementReturn {
   // const toast = useToast() // Migrated to standardized error handling
   const itemsStore = useItemsStore()
 
+  // ===== ESTADO DE LA COLA DE DENUNCIAS =====
+
+  const reports = ref<ContentReport[]>([])
+  const reportsTotal = ref(0)
+  const reportsLoading = ref(false)
+  const resolvingReportId = ref<string | null>(null)
+
+  /**
+   * Carga las denuncias pendientes, las más antiguas primero
+   * 
+   * @returns {Promise<void>}
+   */
+  const loadReports = async (): Promise<void> => {
+    reportsLoading.value = true
+
+    try {
+      const response = await adminService.getReports({ status: 'pending', limit: 50 })
+
+      if (!response.success) {
+        displayError((response as any).error || 'Error al cargar las denuncias')
+        return
+      }
+
+      reports.value = response.data || []
+      reportsTotal.value = (response as any).pagination?.total ?? reports.value.length
+    } finally {
+      reportsLoading.value = false
+    }
+  }
+
+  /**
+   * Resuelve una denuncia y la retira de la cola junto con las demás
+   * denuncias pendientes sobre el mismo contenido
+   * 
+   * Si se oculta un artículo se recargan los artículos del store para
+   * reflejar su nueva disponibilidad.
+   * 
+   * @param {ContentReport} report - Denuncia que se resuelve
+   * @param {ReportAction} action - Acción de moderación elegida
+   * @param {string} note - Nota del administrador (opcional)
+   * @returns {Promise<boolean>} true si la denuncia se resolvió
+   */
+  const resolveReport = async (report: ContentReport, action: ReportAction, note?: string): Promise<boolean> => {
+    resolvingReportId.value = report._id
+
+    try {
+      const response = await adminService.resolveReport(report._id, action, note)
+
+      if (!response.success) {
+        displayError((response as any).error || 'Error al resolver la denuncia')
+        return false
+      }
+
+      const targetId = report.target?._id
+      const remaining = reports.value.filter(r => r._id !== report._id && (!targetId || r.target?._id !== targetId))
+      reportsTotal.value = Math.max(reportsTotal.value - (reports.value.length - remaining.length), 0)
+      reports.value = remaining
+
+      if (action === 'hide_item') {
+        await itemsStore.fetchItems()
+      }
+
+      return true
+    } finally {
+      resolvingReportId.value = null
+    }
+  }
+
   /**
    * Maneja la actualización exitosa de un artículo
    * Ejecuta lógica adicional después de que un artículo ha sido actualizado
@@ -118,6 +205,9 @@ export function useItemManagement(): UseItemManagementReturn {
     if (!itemsStore.isInitialized) {
       await itemsStore.initialize()
     }
+
+    // Cargar la cola de denuncias pendientes
+    await loadReports()
   }
 
   // ===== INICIALIZACIÓN =====
@@ -130,6 +220,14 @@ export function useItemManagement(): UseItemManagementReturn {
   // ===== RETORNO DEL COMPOSABLE =====
   
   return {
+    // Cola de denuncias
+    reports,                // Denuncias pendientes
+    reportsTotal,           // Total de denuncias pendientes
+    reportsLoading,         // Carga de la cola en curso
+    resolvingReportId,      // Denuncia que se está resolviendo
+    loadReports,            // Recargar la cola
+    resolveReport,          // Resolver una denuncia
+    
     // Manejadores de eventos
     handleItemUpdated,      // Callback para actualización de artículo
     handleItemDeleted,      // Callback para eliminación de artículo
@@ -220,6 +220,8 @@ export type {
   AdminStats,
   AdminAnalytics,
   ModerationItem,
+  ContentReport,
+  ReportAction,
   AdminUser,
   SystemLog,
   AdminResponse
@@ -249,7 +251,6 @@ export {
   ADMIN_ROLES,
   MODERATION_STATUSES,
   LOG_LEVELS,
-  ITEM_CATEGORIES,
   
   // Role utilities
   getRoleLabel,
@@ -313,6 +314,5 @@ export {
 export type {
   AdminRole,
   ModerationStatus,
-  LogLevel,
-  ItemCategory
+  LogLevel
 } from './utils/adminUtils'
\ No newline at end of file
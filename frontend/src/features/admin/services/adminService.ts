@@ -27,11 +27,11 @@
  */
 
 import axios, { AxiosResponse } from 'axios'
-import { ADMIN_ROUTES, ITEM_ROUTES, USER_ROUTES } from '@/config/apiRoutes'
+import { ADMIN_ROUTES, ITEM_ROUTES, USER_ROUTES, REPORT_ROUTES } from '@/config/apiRoutes'
 import { processError, handleAuthError } from '@/shared/utils/errorHandler'
 import { getAuthHeaders } from '@/features/auth/utils/authUtils'
 import type { Item } from '@/features/items/services/itemService'
-import type { User } from '@/features/users/services/userService'
+import type { User, ReportTargetType, ReportReason } from '@/features/users/services/userService'
 
 /**
  * Interfaz para las estadísticas administrativas del sistema
@@ -201,6 +201,64 @@ export interface ModerationItem extends Item {
   }>
 }
 
+/**
+ * Acción con la que un administrador resuelve una denuncia
+ */
+export type ReportAction = 'dismiss' | 'hide_item' | 'suspend_user'
+
+/**
+ * Interfaz para denuncias de la cola de moderación
+ * 
+ * El contenido denunciado llega poblado: un artículo, un usuario
+ * o un mensaje según el tipo de denuncia.
+ * 
+ * @interface ContentReport
+ */
+export interface ContentReport {
+  /** ID único de la denuncia */
+  _id: string
+  /** Usuario que denunció */
+  reporter: {
+    _id: string
+    name: string
+    email?: string
+    avatar?: string
+  }
+  /** Tipo de contenido denunciado */
+  targetType: ReportTargetType
+  /** Contenido denunciado (null si ya no existe) */
+  target: {
+    _id: string
+    /** Título (artículos) */
+    title?: string
+    /** Propietario (artículos) */
+    user?: string
+    /** Nombre y email (usuarios) */
+    name?: string
+    email?: string
+    /** Estado de la cuenta (usuarios) */
+    isActive?: boolean
+    /** Contenido y remitente (mensajes) */
+    content?: string
+    sender?: string
+  } | null
+  /** Motivo de la denuncia */
+  reason: ReportReason
+  /** Explicación adicional del denunciante (opcional) */
+  details?: string
+  /** Estado de la denuncia */
+  status: 'pending' | 'resolved' | 'dismissed'
+  /** Resolución aplicada (opcional) */
+  resolution?: {
+    action: ReportAction
+    note?: string
+    resolvedBy?: { _id: string; name: string }
+    resolvedAt: string
+  }
+  /** Fecha de la denuncia */
+  createdAt: string
+}
+
 /**
  * Interfaz para usuarios en vista administrativa
  * 
@@ -225,6 +283,8 @@ export interface AdminUser extends User {
   verificationStatus?: 'pending' | 'verified' | 'rejected'
   /** Estado de verificación de email (opcional) */
   isEmailVerified?: boolean
+  /** Fecha de la eliminación programada de la cuenta (opcional) */
+  deletionScheduledFor?: string
 }
 
 /**
@@ -548,6 +608,77 @@ class AdminService {
     }
   }
 
+  /**
+   * Obtiene la cola de denuncias
+   * 
+   * Por defecto devuelve las denuncias pendientes, las más antiguas primero,
+   * con el contenido denunciado y el denunciante poblados.
+   * 
+   * @param {Object} params - Parámetros de consulta opcionales
+   * @param {number} params.page - Número de página
+   * @param {number} params.limit - Límite de denuncias por página
+   * @param {string} params.status - Estado de las denuncias (pending, resolved, dismissed o all)
+   * @param {ReportTargetType} params.targetType - Tipo de contenido denunciado
+   * @returns {Promise<AdminResponse<ContentReport[]> | {success: false; error: string; data: null}>} Promesa con las denuncias
+   * 
+   * @example
+   * ```typescript
+   * const reports = await adminService.getReports({ targetType: 'item' })
+   * ```
+   */
+  async getReports(params?: {
+    page?: number
+    limit?: number
+    status?: 'pending' | 'resolved' | 'dismissed' | 'all'
+    targetType?: ReportTargetType
+  }): Promise<AdminResponse<ContentReport[]> | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<AdminResponse<ContentReport[]>> = await axios.get(
+        REPORT_ROUTES.BASE,
+        {
+          headers: getAuthHeaders(),
+          params
+        }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al cargar las denuncias')
+    }
+  }
+
+  /**
+   * Resuelve una denuncia aplicando una acción de moderación
+   * 
+   * La resolución se aplica también al resto de denuncias pendientes
+   * sobre el mismo contenido.
+   * 
+   * @param {string} reportId - ID de la denuncia
+   * @param {ReportAction} action - Desestimar, ocultar el artículo o suspender al usuario
+   * @param {string} note - Nota del administrador (opcional)
+   * @returns {Promise<AdminResponse<ContentReport> | {success: false; error: string; data: null}>} Promesa con la denuncia resuelta
+   * 
+   * @example
+   * ```typescript
+   * await adminService.resolveReport('report123', 'hide_item', 'Artículo prohibido')
+   * ```
+   */
+  async resolveReport(
+    reportId: string,
+    action: ReportAction,
+    note?: string
+  ): Promise<AdminResponse<ContentReport> | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<AdminResponse<ContentReport>> = await axios.put(
+        REPORT_ROUTES.RESOLVE(reportId),
+        { action, note },
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al resolver la denuncia')
+    }
+  }
+
   /**
    * Cambia la disponibilidad de un artículo
    * 
@@ -713,11 +844,12 @@ class AdminService {
   /**
    * Elimina un usuario
    * 
-   * Elimina permanentemente una cuenta de usuario del sistema.
-   * Esta acción es irreversible y debe usarse con precaución.
+   * Programa la eliminación de la cuenta: al terminar el periodo de gracia se
+   * borran sus artículos e imágenes y se anonimiza el usuario. Hasta entonces
+   * el usuario o un administrador pueden cancelarla.
    * 
    * @param {string} userId - ID del usuario a eliminar
-   * @returns {Promise<AdminResponse<void> | {success: false; error: string; data: null}>} Promesa con resultado de eliminación
+   * @returns {Promise<AdminResponse<{deletionScheduledFor: string}> | {success: false; error: string; data: null}>} Promesa con la fecha de eliminación
    * 
    * @example
    * ```typescript
@@ -729,9 +861,9 @@ class AdminService {
    * }
    * ```
    */
-  async deleteUser(userId: string): Promise<AdminResponse<void> | { success: false; error: string; data: null }> {
+  async deleteUser(userId: string): Promise<AdminResponse<{ deletionScheduledFor: string }> | { success: false; error: string; data: null }> {
     try {
-      const response: AxiosResponse<AdminResponse<void>> = await axios.delete(
+      const response: AxiosResponse<AdminResponse<{ deletionScheduledFor: string }>> = await axios.delete(
         USER_ROUTES.BY_ID(userId),
         { headers: getAuthHeaders() }
       )
@@ -986,8 +1118,9 @@ class AdminService {
   /**
    * Envía notificación del sistema
    * 
-   * Envía notificaciones masivas a usuarios del sistema
-   * a través de múltiples canales (email, push, in-app).
+   * Envía notificaciones masivas a usuarios del sistema. Por ahora solo
+   * está disponible el canal in_app: cada destinatario la recibe en su
+   * centro de notificaciones (campana de la barra de navegación).
    * 
    * @param {Object} notification - Datos de la notificación
    * @param {string} notification.title - Título de la notificación
@@ -1005,7 +1138,7 @@ class AdminService {
    *   message: 'El sistema estará en mantenimiento mañana de 2-4 AM',
    *   type: 'warning',
    *   recipients: 'all',
-   *   channels: ['email', 'in_app']
+   *   channels: ['in_app']
    * })
    * 
    * if (result.success) {
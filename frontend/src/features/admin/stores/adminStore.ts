@@ -570,7 +570,7 @@ export const useAdminStore = defineStore('admin', () => {
   }
 
   /**
-   * Delete user
+   * Delete user (schedules the deletion after the grace period)
    */
   const deleteUser = async (userId: string): Promise<boolean> => {
     state.isUpdating = true
@@ -580,13 +580,15 @@ export const useAdminStore = defineStore('admin', () => {
       const response = await adminService.deleteUser(userId)
       
       if (response.success) {
-        // Remove user from list
-        state.users = state.users.filter(user => user.id !== userId && user._id !== userId)
+        // La cuenta se elimina al terminar el periodo de gracia
+        const deletionScheduledFor = (response as any).data?.deletionScheduledFor
+        state.users = state.users.map(user =>
+          user.id === userId || user._id === userId ? { ...user, deletionScheduledFor } : user
+        )
         
-        // Update pagination
-        state.usersPagination.total = Math.max(0, state.usersPagination.total - 1)
-        
-        notifySuccess('Usuario eliminado correctamente')
+        notifySuccess(deletionScheduledFor
+          ? `La cuenta se eliminará el ${new Date(deletionScheduledFor).toLocaleDateString('es-ES')}`
+          : 'Usuario eliminado correctamente')
         return true
       } else {
         throw new Error((response as any).error || 'Error en la operación')
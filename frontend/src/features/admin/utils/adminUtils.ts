@@ -9,6 +9,10 @@ import type {
   AdminUser,
   ModerationItem
 } from '../services/adminService'
+import {
+  getCategoryLabel as getLoadedCategoryLabel,
+  getLoadedCategories
+} from '@/shared/composables/useCategories'
 
 // Constants
 export const ADMIN_ROLES = {
@@ -32,20 +36,10 @@ export const LOG_LEVELS = {
   DEBUG: 'debug'
 } as const
 
-export const ITEM_CATEGORIES = {
-  ELECTRONICS: 'electronics',
-  CLOTHING: 'clothing',
-  BOOKS: 'books',
-  SPORTS: 'sports',
-  HOME: 'home',
-  OTHER: 'other'
-} as const
-
 // Type definitions
 export type AdminRole = typeof ADMIN_ROLES[keyof typeof ADMIN_ROLES]
 export type ModerationStatus = typeof MODERATION_STATUSES[keyof typeof MODERATION_STATUSES]
 export type LogLevel = typeof LOG_LEVELS[keyof typeof LOG_LEVELS]
-export type ItemCategory = typeof ITEM_CATEGORIES[keyof typeof ITEM_CATEGORIES]
 
 // Role utilities
 export const getRoleLabel = (role: string): string => {
@@ -165,29 +159,13 @@ export const getLogLevelIcon = (level: string): string => {
   return levelIcons[level] || 'help-circle'
 }
 
-// Category utilities
+// Category utilities (categories are loaded from the API, see useCategories)
 export const getCategoryLabel = (category: string): string => {
-  const categoryLabels: Record<string, string> = {
-    [ITEM_CATEGORIES.ELECTRONICS]: 'Electrónicos',
-    [ITEM_CATEGORIES.CLOTHING]: 'Ropa',
-    [ITEM_CATEGORIES.BOOKS]: 'Libros',
-    [ITEM_CATEGORIES.SPORTS]: 'Deportes',
-    [ITEM_CATEGORIES.HOME]: 'Hogar',
-    [ITEM_CATEGORIES.OTHER]: 'Otros'
-  }
-  return categoryLabels[category] || 'Otros'
+  return getLoadedCategoryLabel(category)
 }
 
 export const getCategoryIcon = (category: string): string => {
-  const categoryIcons: Record<string, string> = {
-    [ITEM_CATEGORIES.ELECTRONICS]: 'smartphone',
-    [ITEM_CATEGORIES.CLOTHING]: 'shirt',
-    [ITEM_CATEGORIES.BOOKS]: 'book',
-    [ITEM_CATEGORIES.SPORTS]: 'activity',
-    [ITEM_CATEGORIES.HOME]: 'home',
-    [ITEM_CATEGORIES.OTHER]: 'package'
-  }
-  return categoryIcons[category] || 'package'
+  return getLoadedCategories().find(loaded => loaded.slug === category)?.icon || 'package'
 }
 
 // Formatting utilities
@@ -278,7 +256,7 @@ export const isValidLogLevel = (level: string): boolean => {
 }
 
 export const isValidCategory = (category: string): boolean => {
-  return Object.values(ITEM_CATEGORIES).includes(category as ItemCategory)
+  return getLoadedCategories().some(loaded => loaded.slug === category)
 }
 
 // Data processing utilities
@@ -491,8 +469,8 @@ export const getModerationItemPriority = (item: ModerationItem): number => {
     priority += item.reportCount * 10
   }
   
-  // Higher priority for certain categories
-  if (item.category === ITEM_CATEGORIES.ELECTRONICS) {
+  // Higher priority for electronics
+  if (item.category === 'electronics') {
     priority += 5
   }
   
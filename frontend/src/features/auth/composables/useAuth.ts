@@ -85,6 +85,7 @@ import { authService } from '../services/authService'
 
 // Importaciones de tipos TypeScript
 import type { LoginCredentials, RegisterCredentials, User } from '../../../types/auth'
+import type { AuthResponse } from '../services/authService'
 
 /**
  * Composable useAuth
@@ -122,6 +123,12 @@ export function useAuth() {
   /** Mensaje de éxito para operaciones completadas */
   const successMessage = ref('')
   
+  /** Token temporal del primer paso cuando la cuenta tiene verificación en dos pasos */
+  const twoFactorToken = ref('')
+  
+  /** Preferencia "recordarme" del primer paso, aplicada al completar el segundo */
+  const pendingRemember = ref(false)
+  
   /**
    * Propiedades computadas que exponen el estado del store
    * Estas propiedades son reactivas y se actualizan automáticamente
@@ -136,6 +143,9 @@ export function useAuth() {
   /** Token JWT actual (null si no hay sesión) */
   const token = computed(() => authStore.token)
   
+  /** Indica si el inicio de sesión espera el código de verificación en dos pasos */
+  const twoFactorRequired = computed(() => twoFactorToken.value !== '')
+  
   /** Rol del usuario actual (para control de acceso) */
   const userRole = computed(() => authStore.user?.role)
   
@@ -175,8 +185,11 @@ export function useAuth() {
       }
     } else if (err.response?.status === 429) {
       error.value = 'Demasiados intentos. Por favor, espera unos minutos antes de intentar nuevamente.'
-    } else if (err.code === 'NETWORK_ERROR' || !err.response) {
+    } else if (err.code === 'NETWORK_ERROR') {
       error.value = 'Error de conexión. Por favor, verifica tu conexión a internet.'
+    } else if (!err.response) {
+      // Errores ya procesados por authService: conservan el mensaje del servidor
+      error.value = err.message || 'Error de conexión. Por favor, verifica tu conexión a internet.'
     } else {
       error.value = err.response?.data?.message || 'Ha ocurrido un error inesperado. Por favor, intenta nuevamente.'
     }
@@ -216,39 +229,98 @@ export function useAuth() {
       // Realizar petición de autenticación al servidor
       const response = await authService.login(credentials)
       
-      // Verificar que la respuesta contenga los datos necesarios
-      if (!response.data.token || !response.data.user) {
-        throw new Error('Respuesta inválida del servidor')
+      // Con verificación en dos pasos, la sesión se abre al enviar el código
+      if (response.data.twoFactorRequired && response.data.twoFactorToken) {
+        twoFactorToken.value = response.data.twoFactorToken
+        pendingRemember.value = !!credentials.remember
+        return false
       }
       
-      // Actualizar el store con los datos del usuario autenticado
-      authStore.saveAuth(response.data.token, response.data.user)
+      await completeLogin(response.data, !!credentials.remember)
+      return true
       
-      // Configurar persistencia de sesión si se solicitó
-      if (credentials.remember) {
-        localStorage.setItem('rememberMe', 'true')
-      }
+    } catch (err) {
+      // Manejar errores de autenticación
+      handleAuthError(err)
+      return false
       
-      // Mostrar mensaje de éxito
-      successMessage.value = `¡Bienvenido/a, ${response.data.user?.name}!`
+    } finally {
+      // Desactivar estado de carga
+      isLoading.value = false
+    }
+  }
+  
+  /**
+   * Segundo paso del inicio de sesión con verificación en dos pasos
+   * 
+   * Envía el código de la aplicación de autenticación (o un código de
+   * recuperación) con el token temporal obtenido en login.
+   * 
+   * @param {string} code - Código de 6 dígitos o código de recuperación
+   * @returns {Promise<boolean>} True si el login se completó
+   */
+  const completeTwoFactorLogin = async (code: string): Promise<boolean> => {
+    try {
+      clearMessages()
+      isLoading.value = true
       
-      // Redirigir según el rol del usuario
-      const redirectPath = getRedirectPath(response.data.user?.role || 'user')
-      await router.push(redirectPath)
+      if (!code.trim()) {
+        error.value = 'Introduce el código de verificación.'
+        return false
+      }
+      
+      const response = await authService.loginTwoFactor(twoFactorToken.value, code.trim())
+      await completeLogin(response.data, pendingRemember.value)
       
+      twoFactorToken.value = ''
       return true
       
     } catch (err) {
-      // Manejar errores de autenticación
       handleAuthError(err)
       return false
       
     } finally {
-      // Desactivar estado de carga
       isLoading.value = false
     }
   }
   
+  /**
+   * Abandona el segundo paso y vuelve al formulario de email y contraseña
+   */
+  const cancelTwoFactorLogin = () => {
+    twoFactorToken.value = ''
+    pendingRemember.value = false
+    clearMessages()
+  }
+  
+  /**
+   * Guarda la sesión iniciada y redirige según el rol del usuario
+   * 
+   * @param {AuthResponse} data - Respuesta de autenticación con token y usuario
+   * @param {boolean} remember - Si mantener la sesión activa
+   */
+  const completeLogin = async (data: AuthResponse, remember: boolean) => {
+    // Verificar que la respuesta contenga los datos necesarios
+    if (!data.token || !data.user) {
+      throw new Error('Respuesta inválida del servidor')
+    }
+    
+    // Actualizar el store con los datos del usuario autenticado
+    authStore.saveAuth(data.token, data.user, data.refreshToken)
+    
+    // Configurar persistencia de sesión si se solicitó
+    if (remember) {
+      localStorage.setItem('rememberMe', 'true')
+    }
+    
+    // Mostrar mensaje de éxito
+    successMessage.value = `¡Bienvenido/a, ${data.user?.name}!`
+    
+    // Redirigir según el rol del usuario
+    const redirectPath = getRedirectPath(data.user?.role || 'user')
+    await router.push(redirectPath)
+  }
+  
   /**
    * Función de registro de usuario
    * 
@@ -298,7 +370,12 @@ export function useAuth() {
       
       // Iniciar sesión automáticamente si se solicitó
       if (autoLogin && response.token && response.user) {
-        authStore.saveAuth(response.token, response.user)
+        authStore.saveAuth(response.token, response.user, response.refreshToken)
+        
+        // Con el email sin verificar, la vista de registro pide revisar el correo
+        if (response.user.emailVerified === false) {
+          return true
+        }
         
         // Redirigir a la página de bienvenida o dashboard
         await router.push('/welcome')
@@ -443,13 +520,12 @@ export function useAuth() {
    */
   const refreshToken = async (): Promise<boolean> => {
     try {
-      const response = await authService.refreshToken()
-      
-      if (response.token && response.user) {
-        authStore.saveAuth(response.token, response.user)
+      // El store guarda el nuevo token y el refresh token rotado
+      if (await authStore.refreshSession()) {
         return true
       }
       
+      await logout(false)
       return false
       
     } catch (err) {
@@ -566,9 +642,12 @@ export function useAuth() {
     isLoading,
     error,
     successMessage,
+    twoFactorRequired,
     
     // Métodos de autenticación
     login,
+    completeTwoFactorLogin,
+    cancelTwoFactorLogin,
     register,
     logout,
     refreshToken,
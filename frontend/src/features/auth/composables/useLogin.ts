@@ -13,6 +13,7 @@
  * - ✅ Redirección automática post-login
  * - ✅ Gestión de visibilidad de contraseña
  * - ✅ Limpieza y reseteo de formularios
+ * - ✅ Segundo paso con código de verificación en dos pasos
  * 
  * ## Funcionalidades UX:
  * - Validación inmediata de formato de email
@@ -116,7 +117,21 @@ interface UseLoginReturn {
    */
   showPassword: Ref<boolean>;
   
+  /** 
+   * Código del segundo paso
+   * @type {Ref<string>}
+   * @description Código de la aplicación de autenticación o de recuperación
+   */
+  twoFactorCode: Ref<string>;
+  
   // Propiedades computadas
+  /** 
+   * Indica si el login espera el código de verificación en dos pasos
+   * @type {ComputedRef<boolean>}
+   * @description true tras validar la contraseña de una cuenta con verificación en dos pasos
+   */
+  twoFactorRequired: ComputedRef<boolean>;
+  
   /** 
    * Indica si el formulario es válido
    * @type {ComputedRef<boolean>}
@@ -150,6 +165,18 @@ interface UseLoginReturn {
    */
   handleSubmit: () => Promise<void>;
   
+  /** 
+   * Envía el código del segundo paso
+   * @returns {Promise<void>} Promesa que resuelve cuando el login se completa
+   */
+  handleTwoFactorSubmit: () => Promise<void>;
+  
+  /** 
+   * Vuelve del segundo paso al formulario de email y contraseña
+   * @returns {void}
+   */
+  cancelTwoFactor: () => void;
+  
   /** 
    * Alterna la visibilidad de la contraseña
    * @returns {void}
@@ -245,7 +272,13 @@ export function useLogin(): UseLoginReturn {
   const route = useRoute()
   
   // Integración con el sistema de autenticación
-  const { login, error: authError } = useAuth()
+  const {
+    login,
+    completeTwoFactorLogin,
+    cancelTwoFactorLogin,
+    twoFactorRequired,
+    error: authError
+  } = useAuth()
 
   // Estados reactivos del formulario
   /** Campo de email del usuario */
@@ -268,6 +301,9 @@ export function useLogin(): UseLoginReturn {
   
   /** Control de visibilidad de la contraseña */
   const showPassword = ref<boolean>(false)
+  
+  /** Código del segundo paso (aplicación de autenticación o recuperación) */
+  const twoFactorCode = ref<string>('')
 
   // Propiedades computadas
   /**
@@ -508,12 +544,10 @@ export function useLogin(): UseLoginReturn {
       })
       
       if (success) {
-        // Manejar redirección post-login
-        const redirectPath = (Array.isArray(route.query.redirect) 
-          ? route.query.redirect[0] 
-          : route.query.redirect) || '/'
-        
-        await router.push(redirectPath)
+        await redirectAfterLogin()
+      } else if (twoFactorRequired.value) {
+        // La contraseña es correcta: falta el código del segundo paso
+        password.value = ''
       } else {
         // Manejar error de autenticación
         error.value = authError.value || 'Error al iniciar sesión'
@@ -528,6 +562,56 @@ export function useLogin(): UseLoginReturn {
     }
   }
 
+  /**
+   * Maneja el envío del código de verificación en dos pasos
+   * 
+   * Completa el inicio de sesión iniciado con handleSubmit cuando la
+   * cuenta tiene activada la verificación en dos pasos.
+   * 
+   * @returns {Promise<void>} Promesa que resuelve cuando el proceso se completa
+   */
+  const handleTwoFactorSubmit = async (): Promise<void> => {
+    isLoading.value = true
+    error.value = ''
+    
+    try {
+      const success = await completeTwoFactorLogin(twoFactorCode.value)
+      
+      if (success) {
+        twoFactorCode.value = ''
+        await redirectAfterLogin()
+      } else {
+        error.value = authError.value || 'Código de verificación incorrecto'
+      }
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Vuelve del segundo paso al formulario de email y contraseña
+   * 
+   * @returns {void}
+   */
+  const cancelTwoFactor = (): void => {
+    cancelTwoFactorLogin()
+    twoFactorCode.value = ''
+    clearErrors()
+  }
+
+  /**
+   * Redirige tras un inicio de sesión correcto
+   * 
+   * Respeta el parámetro redirect de la URL y usa la página de inicio por defecto.
+   */
+  const redirectAfterLogin = async (): Promise<void> => {
+    const redirectPath = (Array.isArray(route.query.redirect) 
+      ? route.query.redirect[0] 
+      : route.query.redirect) || '/'
+    
+    await router.push(redirectPath)
+  }
+
   /**
    * Alterna la visibilidad de la contraseña
    * 
@@ -565,9 +649,11 @@ export function useLogin(): UseLoginReturn {
     passwordError,
     isLoading,
     showPassword,
+    twoFactorCode,
     
     // Propiedades computadas
     isFormValid,
+    twoFactorRequired,
     
     // Funciones de validación
     validateEmail,
@@ -579,7 +665,9 @@ export function useLogin(): UseLoginReturn {
     resetForm,
     togglePasswordVisibility,
     
-    // Función principal de envío
-    handleSubmit
+    // Funciones de envío
+    handleSubmit,
+    handleTwoFactorSubmit,
+    cancelTwoFactor
   }
 }
\ No newline at end of file
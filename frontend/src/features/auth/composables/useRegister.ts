@@ -13,6 +13,7 @@
  * - 🚨 Manejo robusto de errores con mensajes contextuales
  * - ⚡ Estados de carga para feedback visual
  * - 🔄 Integración con sistema de autenticación
+ * - 📬 Estado de "revisa tu correo" con reenvío del email de verificación
  * - 📱 Optimizado para experiencia móvil
  * - ♿ Soporte completo de accesibilidad
  * - 🧪 Preparado para testing unitario
@@ -53,7 +54,7 @@
 
 // Importaciones de Vue 3 Composition API
 import { ref, computed, type Ref, type ComputedRef } from 'vue'
-import { useAuth } from '@/features/auth'
+import { useAuth, authService } from '@/features/auth'
 import { useNotifications } from '@/shared/composables/useNotifications'
 
 // Types
@@ -91,10 +92,16 @@ interface UseRegisterReturn {
   showPassword: Ref<boolean>;
   /** Estado reactivo para la visibilidad de la confirmación de contraseña */
   showConfirmPassword: Ref<boolean>;
+  /** Email al que se ha enviado el enlace de verificación tras el registro */
+  registeredEmail: Ref<string>;
+  /** Estado reactivo para el reenvío del email de verificación */
+  isResending: Ref<boolean>;
   
   // Propiedades computadas
   /** Propiedad computada que indica si el formulario es válido */
   isFormValid: ComputedRef<boolean>;
+  /** Propiedad computada que indica si el registro espera la verificación del email */
+  isAwaitingVerification: ComputedRef<boolean>;
   
   // Métodos de validación
   /** Método para validar el nombre del usuario */
@@ -117,6 +124,8 @@ interface UseRegisterReturn {
   clearErrors: () => void;
   /** Método para resetear el formulario */
   resetForm: () => void;
+  /** Método para reenviar el email de verificación */
+  resendVerification: () => Promise<void>;
 }
 
 /**
@@ -196,6 +205,11 @@ export function useRegister(): UseRegisterReturn {
   const isLoading = ref<boolean>(false)
   const showPassword = ref<boolean>(false)
   const showConfirmPassword = ref<boolean>(false)
+  
+  // Estados de verificación del email
+  // Se rellenan al completar el registro para mostrar el aviso de revisar el correo
+  const registeredEmail = ref<string>('')
+  const isResending = ref<boolean>(false)
 
   // Propiedades computadas
   /**
@@ -218,6 +232,16 @@ export function useRegister(): UseRegisterReturn {
            passwordError.value === '' && confirmPasswordError.value === ''
   })
 
+  /**
+   * Propiedad computada que indica si el registro espera la verificación del email
+   * 
+   * Tras un registro correcto la vista sustituye el formulario por el aviso
+   * de revisar la bandeja de entrada.
+   * 
+   * @returns {boolean} true si se ha enviado el enlace de verificación
+   */
+  const isAwaitingVerification = computed<boolean>(() => registeredEmail.value !== '')
+
   /**
    * Valida el nombre del usuario
    * 
@@ -603,13 +627,16 @@ export function useRegister(): UseRegisterReturn {
       })
       
       if (success) {
+        // Guardar el email al que se envió el enlace antes de limpiar el formulario
+        registeredEmail.value = email.value.trim().toLowerCase()
+        
         // Limpiar formulario después del éxito
         resetForm()
         
         // Mostrar mensaje de éxito al usuario
-        notifySuccess('¡Registro exitoso! Bienvenido a Ecommunitas.')
+        notifySuccess('¡Registro exitoso! Revisa tu correo para verificar tu cuenta.')
         
-        // No necesitamos redirigir aquí, useAuth ya maneja la redirección automática
+        // La vista muestra el aviso de verificación en lugar de redirigir
       } else {
         error.value = 'Error en el registro. Por favor, verifica tus datos e intenta nuevamente.'
       }
@@ -623,6 +650,28 @@ export function useRegister(): UseRegisterReturn {
     }
   }
 
+  /**
+   * Reenvía el email de verificación al usuario recién registrado
+   * 
+   * El usuario queda autenticado tras el registro, por lo que puede pedir
+   * un nuevo enlace si no le ha llegado el primero o ha caducado.
+   * 
+   * @returns {Promise<void>} Promesa que se resuelve cuando el proceso termina
+   */
+  const resendVerification = async (): Promise<void> => {
+    try {
+      isResending.value = true
+      error.value = ''
+      
+      const response = await authService.resendVerification()
+      notifySuccess(response.message || 'Te hemos enviado un nuevo enlace de verificación.')
+    } catch (err: any) {
+      error.value = err.message || 'Error al reenviar el email de verificación'
+    } finally {
+      isResending.value = false
+    }
+  }
+
   // Retorno del composable con todos los estados y métodos
   return {
     // Estados reactivos del formulario
@@ -638,9 +687,12 @@ export function useRegister(): UseRegisterReturn {
     isLoading,
     showPassword,
     showConfirmPassword,
+    registeredEmail,
+    isResending,
     
     // Propiedades computadas
     isFormValid,
+    isAwaitingVerification,
     
     // Funciones de validación
     validateName,
@@ -656,6 +708,7 @@ export function useRegister(): UseRegisterReturn {
     toggleConfirmPasswordVisibility,
     
     // Función principal
-    handleSubmit
+    handleSubmit,
+    resendVerification
   }
 }
\ No newline at end of file
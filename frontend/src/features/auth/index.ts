@@ -185,7 +185,10 @@ export type {
   UpdateProfileData,
   PasswordUpdateData,
   ForgotPasswordData,
-  ResetPasswordData
+  ResetPasswordData,
+  AuthSession,
+  RefreshTokenResponse,
+  TwoFactorSetup
 } from './services/authService'
 
 // Legacy exports for backward compatibility
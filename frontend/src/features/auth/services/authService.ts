@@ -49,6 +49,10 @@ export interface User {
   avatar?: string
   /** Rol del usuario en el sistema (opcional) */
   role?: string
+  /** Indica si el usuario ha confirmado su email (opcional) */
+  emailVerified?: boolean
+  /** Indica si tiene activada la verificación en dos pasos (opcional) */
+  twoFactorEnabled?: boolean
   /** Fecha de creación de la cuenta (opcional) */
   createdAt?: string
   /** Fecha de última actualización del perfil (opcional) */
@@ -104,6 +108,12 @@ export interface AuthResponse {
   token: string
   /** Datos del usuario autenticado */
   user: User
+  /** Refresh token de la sesión, para renovar el token JWT (opcional) */
+  refreshToken?: string
+  /** Indica que falta el segundo paso de la verificación en dos pasos (opcional) */
+  twoFactorRequired?: boolean
+  /** Token temporal para enviar el código del segundo paso (opcional) */
+  twoFactorToken?: string
   /** Mensaje adicional del servidor (opcional) */
   message?: string
 }
@@ -172,6 +182,57 @@ export interface ResetPasswordData {
   confirmPassword: string
 }
 
+/**
+ * Interfaz para una sesión activa del usuario
+ * 
+ * Cada dispositivo en el que el usuario ha iniciado sesión
+ * tiene su propia sesión, que puede cerrarse de forma independiente.
+ * 
+ * @interface AuthSession
+ */
+export interface AuthSession {
+  /** Identificador de la sesión */
+  _id: string
+  /** Navegador y sistema del dispositivo (ej: "Chrome en Windows") */
+  deviceName: string
+  /** User-Agent completo del dispositivo (opcional) */
+  userAgent?: string
+  /** Última IP desde la que se usó la sesión (opcional) */
+  ipAddress?: string
+  /** Fecha del último uso de la sesión */
+  lastUsedAt: string
+  /** Fecha de inicio de la sesión */
+  createdAt: string
+  /** Indica si es la sesión del dispositivo actual */
+  current: boolean
+}
+
+/**
+ * Datos para configurar la aplicación de autenticación
+ * 
+ * @interface TwoFactorSetup
+ */
+export interface TwoFactorSetup {
+  /** Secreto en Base32 para introducirlo a mano */
+  secret: string
+  /** URI otpauth:// que se muestra como código QR */
+  otpauthUri: string
+}
+
+/**
+ * Token de acceso renovado y nuevo refresh token de la sesión
+ * 
+ * @interface RefreshTokenResponse
+ */
+export interface RefreshTokenResponse {
+  /** Indica si la operación fue exitosa */
+  success: boolean
+  /** Nuevo token JWT de acceso */
+  token: string
+  /** Nuevo refresh token (el anterior deja de ser válido) */
+  refreshToken: string
+}
+
 /**
  * Clase de Servicio de Autenticación
  * 
@@ -309,6 +370,9 @@ class AuthService {
           success: backendData.success,
           token: backendData.token,
           user: backendData.data,
+          refreshToken: backendData.refreshToken,
+          twoFactorRequired: backendData.twoFactorRequired,
+          twoFactorToken: backendData.twoFactorToken,
           message: backendData.message
         }
       }
@@ -317,6 +381,47 @@ class AuthService {
     }
   }
 
+  /**
+   * Completa el inicio de sesión con el código de verificación en dos pasos
+   * 
+   * Envía el código de la aplicación de autenticación (o un código
+   * de recuperación) junto con el token temporal devuelto por login.
+   * 
+   * @param {string} twoFactorToken - Token temporal del primer paso
+   * @param {string} code - Código de 6 dígitos o código de recuperación
+   * @returns {Promise<{data: AuthResponse}>} Promesa con respuesta de autenticación
+   * @throws {Error} Si el código es incorrecto o el token ha caducado
+   * 
+   * @example
+   * ```typescript
+   * const first = await authService.login(credentials)
+   * if (first.data.twoFactorRequired) {
+   *   const response = await authService.loginTwoFactor(first.data.twoFactorToken!, '123456')
+   * }
+   * ```
+   */
+  async loginTwoFactor(twoFactorToken: string, code: string): Promise<{data: AuthResponse}> {
+    try {
+      const response: AxiosResponse<any> = await axios.post(
+        AUTH_ROUTES.TWO_FACTOR_LOGIN,
+        { twoFactorToken, code }
+      )
+
+      const backendData = response.data
+      return {
+        data: {
+          success: backendData.success,
+          token: backendData.token,
+          user: backendData.data,
+          refreshToken: backendData.refreshToken,
+          message: backendData.message
+        }
+      }
+    } catch (error) {
+      this.handleError(error, 'Error al verificar el código')
+    }
+  }
+
   /**
    * Registra un nuevo usuario
    * 
@@ -346,13 +451,21 @@ class AuthService {
     const headers = this.getAuthHeaders()
     
     try {
-      const response: AxiosResponse<AuthResponse> = await axios.post(
+      const response: AxiosResponse<any> = await axios.post(
         AUTH_ROUTES.REGISTER,
         credentials,
         { headers }
       )
       
-      return response.data
+      // El backend envía {success, token, data: user} pero necesitamos {success, token, user}
+      const backendData = response.data
+      return {
+        success: backendData.success,
+        token: backendData.token,
+        user: backendData.data,
+        refreshToken: backendData.refreshToken,
+        message: backendData.message
+      }
     } catch (error: unknown) {
       this.handleError(error, 'Error al registrar usuario')
     }
@@ -379,7 +492,7 @@ class AuthService {
     try {
       await axios.post(
         AUTH_ROUTES.LOGOUT,
-        {},
+        { refreshToken: localStorage.getItem('refreshToken') },
         { headers: this.getAuthHeaders() }
       )
     } catch (error) {
@@ -592,6 +705,88 @@ class AuthService {
     }
   }
 
+  /**
+   * Verifica el email del usuario
+   * 
+   * Confirma la dirección de correo con el token del enlace
+   * enviado por email tras el registro.
+   * 
+   * @param {string} token - Token de verificación recibido por email
+   * @returns {Promise<{success: boolean; message: string}>} Promesa con respuesta de éxito
+   * @throws {Error} Si el enlace es inválido o ha expirado
+   * 
+   * @example
+   * ```typescript
+   * // Verificar el email desde el enlace recibido
+   * const result = await authService.verifyEmail(route.params.token)
+   * ```
+   */
+  async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message: string }> = await axios.get(
+        AUTH_ROUTES.VERIFY_EMAIL(token)
+      )
+      return response.data
+    } catch (error) {
+      this.handleError(error, 'Error al verificar el email')
+    }
+  }
+
+  /**
+   * Desbloquea una cuenta bloqueada por intentos fallidos
+   * 
+   * Usa el token del enlace enviado por email cuando la cuenta
+   * se bloqueó tras demasiados inicios de sesión fallidos.
+   * 
+   * @param {string} token - Token de desbloqueo recibido por email
+   * @returns {Promise<{success: boolean; message: string}>} Promesa con respuesta de éxito
+   * @throws {Error} Si el enlace es inválido o la cuenta ya no está bloqueada
+   * 
+   * @example
+   * ```typescript
+   * // Desbloquear la cuenta desde el enlace recibido
+   * const result = await authService.unlockAccount(route.params.token)
+   * ```
+   */
+  async unlockAccount(token: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message: string }> = await axios.get(
+        AUTH_ROUTES.UNLOCK_ACCOUNT(token)
+      )
+      return response.data
+    } catch (error) {
+      this.handleError(error, 'Error al desbloquear la cuenta')
+    }
+  }
+
+  /**
+   * Reenvía el email de verificación
+   * 
+   * Solicita un nuevo enlace de verificación para el usuario
+   * autenticado. El enlace anterior deja de ser válido.
+   * 
+   * @returns {Promise<{success: boolean; message: string}>} Promesa con respuesta de éxito
+   * @throws {Error} Si el email ya está verificado o no se pudo enviar
+   * 
+   * @example
+   * ```typescript
+   * // Pedir un nuevo enlace de verificación
+   * const result = await authService.resendVerification()
+   * ```
+   */
+  async resendVerification(): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message: string }> = await axios.post(
+        AUTH_ROUTES.RESEND_VERIFICATION,
+        {},
+        { headers: this.getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      this.handleError(error, 'Error al reenviar el email de verificación')
+    }
+  }
+
   /**
    * Verifica el token de autenticación
    * 
@@ -654,11 +849,13 @@ class AuthService {
   /**
    * Renueva el token de autenticación
    * 
-   * Obtiene un nuevo token JWT válido utilizando el token actual,
-   * útil para mantener la sesión activa sin requerir login.
+   * Obtiene un nuevo token JWT válido utilizando el refresh token de la sesión,
+   * útil para mantener la sesión activa sin requerir login. El servidor rota
+   * el refresh token, por lo que hay que guardar el nuevo.
    * 
-   * @returns {Promise<AuthResponse>} Promesa con nueva respuesta de autenticación
-   * @throws {Error} Si ocurre un error al renovar el token
+   * @param {string} [refreshToken] - Refresh token de la sesión (por defecto el guardado)
+   * @returns {Promise<RefreshTokenResponse>} Promesa con el nuevo token y refresh token
+   * @throws {Error} Si la sesión ha caducado o se ha cerrado
    * 
    * @example
    * ```typescript
@@ -667,20 +864,183 @@ class AuthService {
    * 
    * if (response.success) {
    *   localStorage.setItem('token', response.token)
-   *   console.log('Token renovado exitosamente')
+   *   localStorage.setItem('refreshToken', response.refreshToken)
    * }
    * ```
    */
-  async refreshToken(): Promise<AuthResponse> {
+  async refreshToken(refreshToken: string | null = localStorage.getItem('refreshToken')): Promise<RefreshTokenResponse> {
     try {
-      const response: AxiosResponse<AuthResponse> = await axios.post(
-        `${AUTH_ROUTES.LOGIN}/refresh`,
+      const response: AxiosResponse<RefreshTokenResponse> = await axios.post(
+        AUTH_ROUTES.REFRESH,
+        { refreshToken }
+      )
+      return response.data
+    } catch (error) {
+      this.handleError(error, 'Error al renovar token')
+    }
+  }
+
+  /**
+   * Obtiene las sesiones activas del usuario
+   * 
+   * Lista los dispositivos en los que el usuario tiene la sesión
+   * iniciada, indicando cuál es el actual.
+   * 
+   * @returns {Promise<AuthSession[]>} Promesa con las sesiones activas
+   * @throws {Error} Si ocurre un error al obtener las sesiones
+   * 
+   * @example
+   * ```typescript
+   * const sessions = await authService.getSessions()
+   * const others = sessions.filter(session => !session.current)
+   * ```
+   */
+  async getSessions(): Promise<AuthSession[]> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: AuthSession[] }> = await axios.get(
+        AUTH_ROUTES.SESSIONS,
+        { headers: this.getAuthHeaders() }
+      )
+      return response.data.data
+    } catch (error) {
+      this.handleError(error, 'Error al obtener las sesiones')
+    }
+  }
+
+  /**
+   * Cierra una sesión concreta del usuario
+   * 
+   * Los tokens de esa sesión dejan de ser válidos de inmediato.
+   * 
+   * @param {string} sessionId - ID de la sesión a cerrar
+   * @returns {Promise<void>}
+   * @throws {Error} Si la sesión no existe o ya estaba cerrada
+   * 
+   * @example
+   * ```typescript
+   * await authService.revokeSession(session._id)
+   * ```
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await axios.delete(
+        AUTH_ROUTES.SESSION_BY_ID(sessionId),
+        { headers: this.getAuthHeaders() }
+      )
+    } catch (error) {
+      this.handleError(error, 'Error al cerrar la sesión')
+    }
+  }
+
+  /**
+   * Cierra la sesión en todos los dispositivos del usuario
+   * 
+   * Incluye la sesión actual, por lo que después hay que limpiar
+   * los datos de autenticación locales.
+   * 
+   * @returns {Promise<number>} Número de sesiones cerradas
+   * @throws {Error} Si ocurre un error al cerrar las sesiones
+   * 
+   * @example
+   * ```typescript
+   * await authService.logoutAllDevices()
+   * authStore.clearAuth()
+   * ```
+   */
+  async logoutAllDevices(): Promise<number> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: { revoked: number } }> = await axios.post(
+        AUTH_ROUTES.LOGOUT_ALL,
+        {},
+        { headers: this.getAuthHeaders() }
+      )
+      return response.data.data.revoked
+    } catch (error) {
+      this.handleError(error, 'Error al cerrar las sesiones')
+    }
+  }
+
+  /**
+   * Inicia la activación de la verificación en dos pasos
+   * 
+   * Genera un secreto nuevo que el usuario añade a su aplicación
+   * de autenticación. No se activa hasta confirmar un código.
+   * 
+   * @returns {Promise<TwoFactorSetup>} Secreto y URI otpauth
+   * @throws {Error} Si ya está activada
+   */
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: TwoFactorSetup }> = await axios.post(
+        AUTH_ROUTES.TWO_FACTOR_SETUP,
         {},
         { headers: this.getAuthHeaders() }
       )
+      return response.data.data
+    } catch (error) {
+      this.handleError(error, 'Error al configurar la verificación en dos pasos')
+    }
+  }
+
+  /**
+   * Activa la verificación en dos pasos con un código de la aplicación
+   * 
+   * @param {string} code - Código de 6 dígitos generado por la aplicación
+   * @returns {Promise<string[]>} Códigos de recuperación (solo se muestran esta vez)
+   * @throws {Error} Si el código es incorrecto
+   */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: { recoveryCodes: string[] } }> = await axios.post(
+        AUTH_ROUTES.TWO_FACTOR_ENABLE,
+        { code },
+        { headers: this.getAuthHeaders() }
+      )
+      return response.data.data.recoveryCodes
+    } catch (error) {
+      this.handleError(error, 'Error al activar la verificación en dos pasos')
+    }
+  }
+
+  /**
+   * Desactiva la verificación en dos pasos
+   * 
+   * @param {string} password - Contraseña actual del usuario
+   * @param {string} code - Código de la aplicación o de recuperación
+   * @returns {Promise<{success: boolean; message: string}>} Promesa con respuesta de éxito
+   * @throws {Error} Si la contraseña o el código no son correctos
+   */
+  async disableTwoFactor(password: string, code: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response: AxiosResponse<{ success: boolean; message: string }> = await axios.post(
+        AUTH_ROUTES.TWO_FACTOR_DISABLE,
+        { password, code },
+        { headers: this.getAuthHeaders() }
+      )
       return response.data
     } catch (error) {
-      this.handleError(error, 'Error al renovar token')
+      this.handleError(error, 'Error al desactivar la verificación en dos pasos')
+    }
+  }
+
+  /**
+   * Genera nuevos códigos de recuperación (los anteriores dejan de servir)
+   * 
+   * @param {string} password - Contraseña actual del usuario
+   * @param {string} code - Código de la aplicación o de recuperación
+   * @returns {Promise<string[]>} Nuevos códigos de recuperación
+   * @throws {Error} Si la contraseña o el código no son correctos
+   */
+  async regenerateRecoveryCodes(password: string, code: string): Promise<string[]> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: { recoveryCodes: string[] } }> = await axios.post(
+        AUTH_ROUTES.TWO_FACTOR_RECOVERY_CODES,
+        { password, code },
+        { headers: this.getAuthHeaders() }
+      )
+      return response.data.data.recoveryCodes
+    } catch (error) {
+      this.handleError(error, 'Error al generar los códigos de recuperación')
     }
   }
 }
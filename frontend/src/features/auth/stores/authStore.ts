@@ -82,6 +82,10 @@ export interface User {
   avatar?: string
   /** Rol del usuario en el sistema (user, admin, moderator) */
   role?: string
+  /** Indica si el usuario ha confirmado su email */
+  emailVerified?: boolean
+  /** Indica si tiene activada la verificación en dos pasos */
+  twoFactorEnabled?: boolean
   /** Fecha de creación de la cuenta */
   createdAt?: string
   /** Fecha de última actualización */
@@ -170,6 +174,8 @@ export const useAuthStore = defineStore('auth', () => {
   const user = ref<User | null>(null)
   /** Token JWT de autenticación */
   const token = ref<string | null>(localStorage.getItem('token'))
+  /** Refresh token de la sesión, para renovar el token JWT cuando caduca */
+  const refreshToken = ref<string | null>(localStorage.getItem('refreshToken'))
   /** Estado de carga para operaciones asíncronas */
   const isLoading = ref(false)
   /** Mensaje de error actual, null si no hay errores */
@@ -215,8 +221,10 @@ export const useAuthStore = defineStore('auth', () => {
   const clearAuth = () => {
     user.value = null
     token.value = null
+    refreshToken.value = null
     error.value = null
     localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
     localStorage.removeItem('user')
     delete axios.defaults.headers.common['Authorization']
   }
@@ -227,13 +235,76 @@ export const useAuthStore = defineStore('auth', () => {
    * 
    * @param {string} authToken - Token JWT recibido del servidor
    * @param {User} userData - Datos del usuario autenticado
+   * @param {string} [sessionRefreshToken] - Refresh token de la sesión (si se ha emitido uno nuevo)
    */
-  const saveAuth = (authToken: string, userData: User) => {
+  const saveAuth = (authToken: string, userData: User, sessionRefreshToken?: string) => {
     token.value = authToken
     user.value = userData
     localStorage.setItem('token', authToken)
     localStorage.setItem('user', JSON.stringify(userData))
+    if (sessionRefreshToken) {
+      refreshToken.value = sessionRefreshToken
+      localStorage.setItem('refreshToken', sessionRefreshToken)
+    }
+    setupAxiosAuth()
+  }
+
+  /** Renovación en curso, compartida por las peticiones que fallan a la vez */
+  let refreshPromise: Promise<boolean> | null = null
+
+  /**
+   * Adopta los tokens que otra pestaña ha guardado en localStorage
+   *
+   * @returns {boolean} true si había un refresh token distinto del actual
+   */
+  const syncFromStorage = (): boolean => {
+    const storedRefreshToken = localStorage.getItem('refreshToken')
+    const storedToken = localStorage.getItem('token')
+
+    if (!storedRefreshToken || !storedToken || storedRefreshToken === refreshToken.value) {
+      return false
+    }
+
+    token.value = storedToken
+    refreshToken.value = storedRefreshToken
     setupAxiosAuth()
+    return true
+  }
+
+  /**
+   * Renueva el token JWT con el refresh token de la sesión
+   * El servidor rota el refresh token, así que se guardan ambos
+   *
+   * Las pestañas comparten la sesión: el refresh token se lee de localStorage
+   * al renovar (otra pestaña puede haberlo rotado) y, si el servidor lo
+   * rechaza porque otra pestaña lo ha rotado a la vez, se adopta el nuevo.
+   *
+   * @returns {Promise<boolean>} true si se ha obtenido un token nuevo
+   */
+  const refreshSession = (): Promise<boolean> => {
+    syncFromStorage()
+
+    if (!refreshToken.value) {
+      return Promise.resolve(false)
+    }
+
+    if (!refreshPromise) {
+      refreshPromise = axios.post(AUTH_ROUTES.REFRESH, { refreshToken: refreshToken.value })
+        .then((response) => {
+          token.value = response.data.token
+          refreshToken.value = response.data.refreshToken
+          localStorage.setItem('token', response.data.token)
+          localStorage.setItem('refreshToken', response.data.refreshToken)
+          setupAxiosAuth()
+          return true
+        })
+        .catch(() => syncFromStorage())
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+
+    return refreshPromise
   }
 
   const handleStoreError = (error: any, defaultMessage: string): string => {
@@ -250,9 +321,9 @@ export const useAuthStore = defineStore('auth', () => {
     
     try {
       const response = await axios.post(AUTH_ROUTES.LOGIN, credentials)
-      const { token: authToken, user: userData } = response.data
+      const { token: authToken, user: userData, refreshToken: sessionRefreshToken } = response.data
       
-      saveAuth(authToken, userData)
+      saveAuth(authToken, userData, sessionRefreshToken)
       return { success: true, data: response.data }
     } catch (err: any) {
       const errorMessage = handleStoreError(err, 'Error al iniciar sesión')
@@ -268,10 +339,10 @@ export const useAuthStore = defineStore('auth', () => {
     
     try {
       const response = await axios.post(AUTH_ROUTES.REGISTER, credentials)
-      const { token: authToken, user: userData } = response.data
+      const { token: authToken, user: userData, refreshToken: sessionRefreshToken } = response.data
       
       if (authToken && userData) {
-        saveAuth(authToken, userData)
+        saveAuth(authToken, userData, sessionRefreshToken)
       }
       
       return { success: true, data: { token: authToken, user: userData } }
@@ -287,7 +358,7 @@ export const useAuthStore = defineStore('auth', () => {
     try {
       // Attempt server logout
       if (token.value) {
-        await axios.post(AUTH_ROUTES.LOGOUT)
+        await axios.post(AUTH_ROUTES.LOGOUT, { refreshToken: refreshToken.value })
       }
     } catch (err) {
       // Continue with local logout even if server logout fails
@@ -375,9 +446,9 @@ export const useAuthStore = defineStore('auth', () => {
     
     try {
       const response = await axios.put(AUTH_ROUTES.RESET_PASSWORD(token), { password })
-      const { token: authToken, user: userData } = response.data
+      const { token: authToken, user: userData, refreshToken: sessionRefreshToken } = response.data
       
-      saveAuth(authToken, userData)
+      saveAuth(authToken, userData, sessionRefreshToken)
       return { success: true, data: response.data }
     } catch (err: any) {
       const errorMessage = handleStoreError(err, 'Error al restablecer contraseña')
@@ -447,6 +518,7 @@ export const useAuthStore = defineStore('auth', () => {
     clearAuth,
     clearError,
     saveAuth,
+    refreshSession,
     
     // Utilities
     hasRole,
@@ -457,9 +529,29 @@ export const useAuthStore = defineStore('auth', () => {
 })
 
 // Global axios interceptor for handling 401 errors
+// Un token caducado se renueva una vez con el refresh token y se repite la petición
 axios.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const originalRequest = error.config
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      originalRequest.url !== AUTH_ROUTES.REFRESH &&
+      originalRequest.url !== AUTH_ROUTES.LOGIN &&
+      originalRequest.url !== AUTH_ROUTES.TWO_FACTOR_LOGIN
+    ) {
+      originalRequest._retry = true
+      const authStore = useAuthStore()
+
+      if (await authStore.refreshSession()) {
+        originalRequest.headers.Authorization = `Bearer ${authStore.token}`
+        return axios(originalRequest)
+      }
+    }
+
     if (error.response?.status === 401) {
       const authStore = useAuthStore()
       authStore.clearAuth()
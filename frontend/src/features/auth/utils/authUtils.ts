@@ -203,6 +203,7 @@ export function validateName(name: string): { isValid: boolean; message: string
  */
 export function clearAuthData(): void {
   localStorage.removeItem('token')
+  localStorage.removeItem('refreshToken')
   localStorage.removeItem('user')
 }
 
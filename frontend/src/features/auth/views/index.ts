@@ -5,4 +5,7 @@
  */
 
 export { default as LoginView } from './LoginView.vue'
-export { default as RegisterView } from './RegisterView.vue'
\ No newline at end of file
+export { default as RegisterView } from './RegisterView.vue'
+export { default as VerifyEmailView } from './VerifyEmailView.vue'
+export { default as UnlockAccountView } from './UnlockAccountView.vue'
+export { default as ResetPasswordView } from './ResetPasswordView.vue'
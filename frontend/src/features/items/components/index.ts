@@ -7,6 +7,7 @@
 // Item Forms
 export { default as ItemForm } from './ItemForm.vue'
 export { default as EditItemModal } from './EditItemModal.vue'
+export { default as ItemAttributeFields } from './ItemAttributeFields.vue'
 
 // Item Display
 export { default as ItemGrid } from './ItemGrid.vue'
@@ -7,7 +7,7 @@
  * 
  * Funcionalidades principales:
  * - Carga de datos del artículo para edición
- * - Actualización de campos del artículo
+ * - Actualización de campos del artículo y de los atributos de su categoría
  * - Manejo de carga de nuevas imágenes
  * - Eliminación de artículos con confirmación
  * - Validación y manejo de errores
@@ -20,7 +20,7 @@ import { ref, computed, onMounted, type Ref, type ComputedRef } from 'vue'
 import { useRouter } from 'vue-router'
 import { displayError } from '@/shared/utils/errorHandler'
 import { useItemsStore } from '@/features/items'
-import type { Item } from '../services/itemService'
+import type { Item, ItemAttributes } from '../services/itemService'
 
 /**
  * Interfaz para los datos del formulario de edición
@@ -33,6 +33,8 @@ interface ItemForm {
   description: string;
   /** Categoría del artículo */
   category: string;
+  /** Atributos propios de la categoría */
+  attributes: ItemAttributes;
   /** Condición del artículo */
   condition: string;
   /** Ubicación del artículo */
@@ -99,6 +101,7 @@ export function useEditItem(itemId: string): UseEditItemReturn {
     title: '',
     description: '',
     category: '',
+    attributes: {},
     condition: '',
     location: '',
     imageUrl: null
@@ -139,6 +142,7 @@ export function useEditItem(itemId: string): UseEditItemReturn {
           title: itemData.title || '',
           description: itemData.description || '',
           category: itemData.category || '',
+          attributes: itemData.attributes || {},
           condition: itemData.condition || '',
           location: itemData.location || '',
           imageUrl: null // Las imágenes se manejan por separado
@@ -171,6 +175,7 @@ export function useEditItem(itemId: string): UseEditItemReturn {
       formData.append('title', form.value.title)
       formData.append('description', form.value.description)
       formData.append('category', form.value.category)
+      formData.append('attributes', JSON.stringify(form.value.attributes))
       formData.append('condition', form.value.condition)
       formData.append('location', form.value.location)
       
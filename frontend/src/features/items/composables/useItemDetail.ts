@@ -7,12 +7,36 @@ import { ref, computed, watch, onMounted, type Ref, type ComputedRef } from 'vue
 import { useRouter } from 'vue-router'
 import { useAuthStore } from '@/features/auth'
 import { useItemsStore } from '@/features/items'
-import { translateCategory, translateCondition } from '@/utils/translations'
+import { messageService } from '@/features/messages'
+import { translateCategory, translateCondition, translateItemStatus } from '@/utils/translations'
 import { displayError } from '@/shared/utils/errorHandler'
-import type { Item } from '../services/itemService'
+import { getCategoryAttributes } from '@/shared/composables/useCategories'
+import {
+  updateItemStatus,
+  getFavoriteStatus,
+  addFavorite,
+  removeFavorite,
+  ITEM_STATUS_TRANSITIONS,
+  type Item,
+  type ItemStatus,
+  type FavoriteStatus
+} from '../services/itemService'
 
 // Types
 
+/**
+ * Atributo de la categoría de un artículo listo para mostrarse
+ * @interface ItemAttributeDisplay
+ */
+interface ItemAttributeDisplay {
+  /** Clave del atributo */
+  key: string;
+  /** Nombre del atributo */
+  label: string;
+  /** Valor formateado (los booleanos como Sí / No) */
+  value: string;
+}
+
 /**
  * Interfaz de retorno del composable useItemDetail
  * @interface UseItemDetailReturn
@@ -25,6 +49,14 @@ interface UseItemDetailReturn {
   showContactForm: Ref<boolean>;
   /** Estado de visibilidad del modal de edición */
   showEditModal: Ref<boolean>;
+  /** Usuarios que han escrito sobre el artículo, candidatos a la reserva */
+  reservationCandidates: Ref<{ _id: string; name: string }[]>;
+  /** Indica si se está cambiando el estado del artículo */
+  changingStatus: Ref<boolean>;
+  /** Estado de favorito del artículo (null sin sesión iniciada) */
+  favoriteStatus: Ref<FavoriteStatus | null>;
+  /** Indica si se está añadiendo o quitando de favoritos */
+  togglingFavorite: Ref<boolean>;
   
   // Computed
   /** Artículo actual */
@@ -39,8 +71,14 @@ interface UseItemDetailReturn {
   itemImages: ComputedRef<string[]>;
   /** Categoría traducida al español */
   translatedCategory: ComputedRef<string>;
+  /** Atributos de la categoría con su nombre, en el orden de la categoría */
+  itemAttributes: ComputedRef<ItemAttributeDisplay[]>;
   /** Condición traducida al español */
   translatedCondition: ComputedRef<string>;
+  /** Estado del anuncio traducido al español */
+  translatedStatus: ComputedRef<string>;
+  /** Estados a los que el propietario puede pasar el artículo */
+  allowedStatuses: ComputedRef<ItemStatus[]>;
   
   // Methods
   /** Obtiene los datos del artículo */
@@ -71,6 +109,12 @@ interface UseItemDetailReturn {
   translateCondition: (condition: string) => string;
   /** Maneja la actualización exitosa de un artículo */
   handleItemUpdated: () => Promise<void>;
+  /** Cambia el estado del anuncio */
+  changeStatus: (status: ItemStatus, reservedFor?: string) => Promise<void>;
+  /** Traduce un estado del anuncio al español */
+  translateItemStatus: (status: string | null | undefined) => string;
+  /** Añade o quita el artículo de favoritos */
+  toggleFavorite: () => Promise<void>;
 }
 
 /**
@@ -103,6 +147,10 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
   const currentImageIndex = ref<number>(0)
   const showContactForm = ref<boolean>(false)
   const showEditModal = ref<boolean>(false)
+  const reservationCandidates = ref<{ _id: string; name: string }[]>([])
+  const changingStatus = ref<boolean>(false)
+  const favoriteStatus = ref<FavoriteStatus | null>(null)
+  const togglingFavorite = ref<boolean>(false)
 
   // Computed properties del store
   const item = computed(() => itemsStore.currentItem)
@@ -267,6 +315,86 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
     // Artículo actualizado correctamente (sin notificación)
   }
 
+  /**
+   * Carga los usuarios que han escrito al propietario sobre este artículo
+   * Son los candidatos a los que se puede reservar
+   * 
+   * @returns {Promise<void>}
+   */
+  const fetchReservationCandidates = async (): Promise<void> => {
+    try {
+      const response = await messageService.getConversations(1, 50)
+      reservationCandidates.value = response.data
+        .filter(conversation => conversation.item?._id === itemId && conversation.withUser)
+        .map(conversation => ({ _id: conversation.withUser._id, name: conversation.withUser.name }))
+    } catch (err) {
+      console.error('Error al cargar los interesados en el artículo:', err)
+      reservationCandidates.value = []
+    }
+  }
+
+  /**
+   * Cambia el estado del anuncio y recarga sus datos
+   * El servidor valida que la transición esté permitida
+   * 
+   * @param {ItemStatus} status - Estado destino
+   * @param {string} [reservedFor] - Usuario para el que se reserva (solo en 'reserved')
+   * @returns {Promise<void>}
+   */
+  const changeStatus = async (status: ItemStatus, reservedFor?: string): Promise<void> => {
+    changingStatus.value = true
+    try {
+      await updateItemStatus(itemId, status, reservedFor)
+      await fetchItemDetails()
+    } catch (err) {
+      displayError(err, { customMessage: 'No se pudo cambiar el estado del anuncio' })
+    } finally {
+      changingStatus.value = false
+    }
+  }
+
+  /**
+   * Carga si el usuario sigue el artículo (y, si es el propietario, cuántos lo siguen)
+   * 
+   * @returns {Promise<void>}
+   */
+  const fetchFavoriteStatus = async (): Promise<void> => {
+    try {
+      favoriteStatus.value = await getFavoriteStatus(itemId)
+    } catch (err) {
+      console.error('Error al cargar el estado de favorito:', err)
+      favoriteStatus.value = null
+    }
+  }
+
+  /**
+   * Añade el artículo a favoritos o lo quita si ya estaba
+   * Redirige al login si el usuario no está autenticado
+   * 
+   * @returns {Promise<void>}
+   */
+  const toggleFavorite = async (): Promise<void> => {
+    if (!authStore.isAuthenticated) {
+      router.push({
+        path: '/login',
+        query: { redirect: router.currentRoute.value.fullPath }
+      })
+      return
+    }
+
+    togglingFavorite.value = true
+    try {
+      const status = favoriteStatus.value?.favorited
+        ? await removeFavorite(itemId)
+        : await addFavorite(itemId)
+      favoriteStatus.value = { ...favoriteStatus.value, ...status }
+    } catch (err) {
+      displayError(err, { customMessage: 'No se pudo actualizar tus favoritos' })
+    } finally {
+      togglingFavorite.value = false
+    }
+  }
+
   // Watchers
 
   // Computed properties adicionales
@@ -278,11 +406,63 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
     item.value ? translateCategory(item.value.category) : ''
   )
   
+  /**
+   * Atributos del artículo en el orden en que los define su categoría
+   * Los que la categoría ya no define se muestran al final con su clave
+   */
+  const itemAttributes = computed<ItemAttributeDisplay[]>(() => {
+    const values = item.value?.attributes || {}
+    const definitions = getCategoryAttributes(item.value?.category || '')
+    const keys = [
+      ...definitions.map(attribute => attribute.key).filter(key => key in values),
+      ...Object.keys(values).filter(key => !definitions.some(attribute => attribute.key === key))
+    ]
+
+    return keys.map(key => {
+      const value = values[key]
+      return {
+        key,
+        label: definitions.find(attribute => attribute.key === key)?.label || key,
+        value: typeof value === 'boolean' ? (value ? 'Sí' : 'No') : String(value)
+      }
+    })
+  })
+  
   /** Condición del artículo traducida al español */
   const translatedCondition = computed<string>(() => 
     item.value ? translateCondition(item.value.condition) : ''
   )
 
+  /** Estado del anuncio traducido al español */
+  const translatedStatus = computed<string>(() => 
+    item.value ? translateItemStatus(item.value.status) : ''
+  )
+
+  /** Estados a los que se puede pasar el anuncio desde el actual */
+  const allowedStatuses = computed<ItemStatus[]>(() => 
+    item.value ? ITEM_STATUS_TRANSITIONS[item.value.status || 'active'] : []
+  )
+
+  /**
+   * Carga los candidatos a la reserva cuando el propietario ve su artículo
+   */
+  watch(isOwner, (owner: boolean): void => {
+    if (owner) {
+      fetchReservationCandidates()
+    }
+  }, { immediate: true })
+
+  /**
+   * Carga el estado de favorito cuando hay sesión iniciada
+   */
+  watch(() => authStore.isAuthenticated, (authenticated: boolean): void => {
+    if (authenticated) {
+      fetchFavoriteStatus()
+    } else {
+      favoriteStatus.value = null
+    }
+  }, { immediate: true })
+
   /**
    * Resetea el índice de imagen cuando cambia el artículo
    * Evita mostrar índices fuera de rango al cambiar de artículo
@@ -302,6 +482,10 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
     currentImageIndex,
     showContactForm,
     showEditModal,
+    reservationCandidates,
+    changingStatus,
+    favoriteStatus,
+    togglingFavorite,
     
     // Computed
     item,
@@ -310,7 +494,10 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
     isOwner,
     itemImages,
     translatedCategory,
+    itemAttributes,
     translatedCondition,
+    translatedStatus,
+    allowedStatuses,
     
     // Métodos
     fetchItem: fetchItemDetails,
@@ -335,9 +522,12 @@ export function useItemDetail(itemId: string): UseItemDetailReturn {
     getItemImages,
     formatDate,
     handleItemUpdated,
+    changeStatus,
+    toggleFavorite,
     
     // Utilidades de traducción
     translateCategory,
-    translateCondition
+    translateCondition,
+    translateItemStatus
   }
 }
\ No newline at end of file
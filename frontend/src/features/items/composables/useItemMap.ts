@@ -0,0 +1,177 @@
+/**
+ * Composable para el mapa de artículos
+ * Carga los grupos y marcadores del área visible del mapa, con los filtros de
+ * categoría y condición, y centra el mapa en la ubicación del usuario
+ */
+
+import { ref, watch, onUnmounted, type Ref } from 'vue'
+import { useGeolocation } from '@/shared/composables/useGeolocation'
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM } from '@/shared/constants/map'
+import { displayError } from '@/shared/utils/errorHandler'
+import {
+  getItemsMap,
+  type MapBounds,
+  type MapCluster,
+  type MapItem
+} from '../services/itemService'
+
+// Types
+
+/**
+ * Filtros del mapa de artículos
+ * @interface ItemMapFilters
+ */
+export interface ItemMapFilters {
+  category: string
+  condition: string
+}
+
+/**
+ * Interfaz de retorno del composable useItemMap
+ * @interface UseItemMapReturn
+ */
+interface UseItemMapReturn {
+  /** Grupos de artículos de las zonas densas */
+  clusters: Ref<MapCluster[]>
+  /** Marcadores individuales */
+  pins: Ref<MapItem[]>
+  /** Artículos del área visible */
+  total: Ref<number>
+  /** Si se han omitido marcadores por ser demasiados */
+  truncated: Ref<boolean>
+  /** Estado de carga */
+  loading: Ref<boolean>
+  /** Filtros aplicados */
+  filters: Ref<ItemMapFilters>
+  /** Centro del mapa [lat, lng] */
+  center: Ref<[number, number]>
+  /** Nivel de zoom del mapa */
+  zoom: Ref<number>
+  /** Indica si se está obteniendo la ubicación del usuario */
+  locating: Ref<boolean>
+  /** Carga los artículos de un área (con espera para agrupar movimientos seguidos) */
+  loadArea: (bounds: MapBounds, zoom: number) => void
+  /** Centra el mapa en la ubicación del usuario */
+  locateUser: () => Promise<void>
+}
+
+/** Espera tras mover el mapa antes de pedir los artículos */
+const LOAD_DELAY_MS = 300
+
+/**
+ * Normaliza un área de Leaflet para la API
+ * Las longitudes se llevan al rango -180 a 180 (el oeste puede quedar
+ * mayor que el este si el área cruza el antimeridiano) y las latitudes se
+ * recortan a los polos
+ * @param {MapBounds} bounds - Área visible del mapa
+ * @returns {MapBounds} Área normalizada
+ */
+export const normalizeMapBounds = (bounds: MapBounds): MapBounds => {
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180
+  const clampLat = (lat: number) => Math.max(-90, Math.min(90, lat))
+  const fullWorld = bounds.east - bounds.west >= 360
+
+  return {
+    west: fullWorld ? -180 : wrap(bounds.west),
+    south: clampLat(bounds.south),
+    east: fullWorld ? 180 : wrap(bounds.east),
+    north: clampLat(bounds.north)
+  }
+}
+
+/**
+ * Composable para el mapa de artículos
+ * @returns {UseItemMapReturn} Estado y acciones del mapa
+ */
+export function useItemMap(): UseItemMapReturn {
+  const { getCurrentLocation, loading: locating } = useGeolocation()
+
+  const clusters = ref<MapCluster[]>([])
+  const pins = ref<MapItem[]>([])
+  const total = ref<number>(0)
+  const truncated = ref<boolean>(false)
+  const loading = ref<boolean>(false)
+  const filters = ref<ItemMapFilters>({ category: '', condition: '' })
+  const center = ref<[number, number]>([...DEFAULT_MAP_CENTER])
+  const zoom = ref<number>(DEFAULT_MAP_ZOOM)
+
+  let lastArea: { bounds: MapBounds; zoom: number } | null = null
+  let loadTimeout: ReturnType<typeof setTimeout> | null = null
+  let controller: AbortController | null = null
+
+  const fetchArea = async (bounds: MapBounds, mapZoom: number): Promise<void> => {
+    // Solo cuenta la respuesta del último movimiento del mapa
+    controller?.abort()
+    controller = new AbortController()
+    const { signal } = controller
+
+    loading.value = true
+    try {
+      const response = await getItemsMap(bounds, mapZoom, filters.value, { signal })
+      clusters.value = response.data.clusters
+      pins.value = response.data.items
+      total.value = response.total
+      truncated.value = response.truncated
+    } catch (err) {
+      if (!signal.aborted) {
+        displayError(err, { customMessage: 'Error al cargar el mapa' })
+      }
+    } finally {
+      if (!signal.aborted) {
+        loading.value = false
+      }
+    }
+  }
+
+  const loadArea = (bounds: MapBounds, mapZoom: number): void => {
+    lastArea = { bounds: normalizeMapBounds(bounds), zoom: mapZoom }
+
+    if (loadTimeout) {
+      clearTimeout(loadTimeout)
+    }
+    loadTimeout = setTimeout(() => {
+      loadTimeout = null
+      if (lastArea) {
+        fetchArea(lastArea.bounds, lastArea.zoom)
+      }
+    }, LOAD_DELAY_MS)
+  }
+
+  const locateUser = async (): Promise<void> => {
+    try {
+      const coords = await getCurrentLocation()
+      center.value = [coords.lat, coords.lng]
+      zoom.value = DEFAULT_MAP_ZOOM
+    } catch {
+      // useGeolocation ya ha mostrado el error
+    }
+  }
+
+  // Recargar el área actual al cambiar los filtros
+  watch(filters, () => {
+    if (lastArea) {
+      fetchArea(lastArea.bounds, lastArea.zoom)
+    }
+  }, { deep: true })
+
+  onUnmounted(() => {
+    if (loadTimeout) {
+      clearTimeout(loadTimeout)
+    }
+    controller?.abort()
+  })
+
+  return {
+    clusters,
+    pins,
+    total,
+    truncated,
+    loading,
+    filters,
+    center,
+    zoom,
+    locating,
+    loadArea,
+    locateUser
+  }
+}
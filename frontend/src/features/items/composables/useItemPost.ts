@@ -2,6 +2,8 @@ import { ref, computed, type Ref, type ComputedRef } from 'vue'
 import { useRouter } from 'vue-router'
 import { displayError } from '@/shared/utils/errorHandler'
 import { useItemsStore } from '@/features/items'
+import type { ItemAttributes } from '../services/itemService'
+import { getCategoryAttributes } from '@/shared/composables/useCategories'
 
 // Types
 
@@ -18,6 +20,8 @@ interface UseItemPostReturn {
   description: Ref<string>;
   /** Categoría del artículo */
   category: Ref<string>;
+  /** Atributos propios de la categoría */
+  attributes: Ref<ItemAttributes>;
   /** Condición del artículo */
   condition: Ref<string>;
   /** Dirección de ubicación del artículo */
@@ -80,6 +84,7 @@ export function useItemPost(): UseItemPostReturn {
   const title = ref<string>('')
   const description = ref<string>('')
   const category = ref<string>('')
+  const attributes = ref<ItemAttributes>({})
   const condition = ref<string>('')
   const location = ref<string>('')
   const latitude = ref<number | null>(null)
@@ -213,6 +218,14 @@ export function useItemPost(): UseItemPostReturn {
       return false
     }
     
+    // Validar atributos obligatorios de la categoría
+    const missingAttribute = getCategoryAttributes(category.value)
+      .find(attribute => attribute.required && attributes.value[attribute.key] === undefined)
+    if (missingAttribute) {
+      error.value = `El atributo '${missingAttribute.label}' es requerido`
+      return false
+    }
+    
     // Validar condición
     if (!condition.value) {
       error.value = 'La condición es requerida'
@@ -253,7 +266,7 @@ export function useItemPost(): UseItemPostReturn {
   /**
    * Crea el FormData con todos los datos del artículo
    * Prepara los datos del formulario en formato FormData para envío multipart
-   * Incluye texto, coordenadas e imágenes
+   * Incluye texto, atributos de la categoría (JSON), coordenadas e imágenes
    * 
    * @returns {FormData} Datos del formulario listos para enviar al servidor
    */
@@ -263,6 +276,7 @@ export function useItemPost(): UseItemPostReturn {
     formData.append('title', title.value.trim())
     formData.append('description', description.value.trim())
     formData.append('category', category.value)
+    formData.append('attributes', JSON.stringify(attributes.value))
     formData.append('condition', condition.value)
     formData.append('location', location.value)
     
@@ -291,6 +305,7 @@ export function useItemPost(): UseItemPostReturn {
     title.value = ''
     description.value = ''
     category.value = ''
+    attributes.value = {}
     condition.value = ''
     location.value = ''
     latitude.value = null
@@ -354,6 +369,7 @@ export function useItemPost(): UseItemPostReturn {
     title,
     description,
     category,
+    attributes,
     condition,
     location,
     latitude,
@@ -27,6 +27,8 @@
  * - Carga de imágenes con compresión automática
  * - Moderación y reportes de contenido
  * - Estadísticas y analytics de artículos
+ * - savedSearchService: Búsquedas guardadas y artículos nuevos que coinciden
+ * - categoryService: Categorías de artículos y su gestión por administradores
  * 
  * 🧩 COMPONENTES (UI):
  * - ItemGrid: Grilla responsiva de artículos
@@ -144,6 +146,10 @@
 // Services
 export { default as itemService } from './services/itemService'
 export * from './services/itemService'
+export { default as savedSearchService } from './services/savedSearchService'
+export * from './services/savedSearchService'
+export { default as categoryService } from './services/categoryService'
+export * from './services/categoryService'
 
 // Stores
 export { useItemsStore } from './stores/itemsStore'
@@ -157,8 +163,31 @@ export * from './views'
 // Types (re-export for convenience)
 export type {
   Item,
+  ItemAttributes,
   ItemsResponse,
+  DeletedItem,
+  DeleteItemResponse,
+  FavoriteItem,
+  FavoriteStatus,
+  MapBounds,
+  MapCluster,
+  MapItem,
+  ItemMapResponse,
+  ItemStatus,
+  ItemStatusChange,
   CreateItemData,
   UpdateItemData,
   SearchParams
-} from './services/itemService'
\ No newline at end of file
+} from './services/itemService'
+export type {
+  SavedSearch,
+  SavedSearchData,
+  SavedSearchFilters,
+  SavedSearchMatch
+} from './services/savedSearchService'
+export type {
+  ItemCategory,
+  CategoryAttribute,
+  CategoryAttributeType,
+  CategoryData
+} from './services/categoryService'
\ No newline at end of file
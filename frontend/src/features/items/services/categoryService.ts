@@ -0,0 +1,165 @@
+/**
+ * Servicio de Categorías
+ * Maneja las operaciones de API de las categorías de artículos: el listado
+ * que cargan los formularios y filtros y su gestión desde el panel de administración
+ */
+
+import axios, { type AxiosResponse } from 'axios'
+import { CATEGORY_ROUTES } from '@/config/apiRoutes'
+import { processError } from '@/shared/utils/errorHandler'
+import { getAuthHeaders } from '@/features/auth/utils/authUtils'
+
+/**
+ * Tipos de atributo de una categoría
+ * @typedef {string} CategoryAttributeType
+ */
+export type CategoryAttributeType = 'text' | 'number' | 'enum' | 'boolean'
+
+/**
+ * Atributo de los artículos de una categoría (autor, talla...)
+ * @interface CategoryAttribute
+ * @property {string} key - Clave con la que se guarda en el artículo
+ * @property {string} label - Nombre en el idioma pedido
+ * @property {Record<string, string>} labels - Nombre en cada idioma (es obligatorio)
+ * @property {CategoryAttributeType} type - Tipo de valor
+ * @property {boolean} required - Si es obligatorio al publicar
+ * @property {string[]} options - Valores admitidos (solo en los atributos enum)
+ */
+export interface CategoryAttribute {
+  key: string
+  label: string
+  labels: Record<string, string>
+  type: CategoryAttributeType
+  required: boolean
+  options: string[]
+}
+
+/**
+ * Interfaz de una categoría de artículos
+ * @interface ItemCategory
+ * @property {string} slug - Identificador estable que guardan los artículos
+ * @property {string} label - Nombre en el idioma pedido
+ * @property {Record<string, string>} labels - Nombre en cada idioma (es obligatorio)
+ * @property {string} icon - Nombre del icono (opcional)
+ * @property {string | null} parent - Slug de la categoría padre (null en las principales)
+ * @property {number} order - Posición en los listados
+ * @property {boolean} active - Si admite artículos nuevos
+ * @property {CategoryAttribute[]} attributes - Atributos propios de sus artículos
+ */
+export interface ItemCategory {
+  _id: string
+  slug: string
+  label: string
+  labels: Record<string, string>
+  icon?: string
+  parent: string | null
+  order: number
+  active: boolean
+  attributes: CategoryAttribute[]
+}
+
+/**
+ * Datos para crear o modificar una categoría
+ * @interface CategoryData
+ */
+export interface CategoryData {
+  slug?: string
+  labels?: Record<string, string>
+  icon?: string
+  parent?: string | null
+  order?: number
+  active?: boolean
+  attributes?: Omit<CategoryAttribute, 'label'>[]
+}
+
+/**
+ * Lanza un error con el mensaje de la API y el contexto de la operación
+ * @param {unknown} error - Error capturado
+ * @param {string} context - Operación que ha fallado
+ * @throws {Error} Error con mensaje descriptivo
+ */
+const handleCategoryError = (error: unknown, context: string): never => {
+  const errorResponse = processError(error)
+  throw new Error(`${context}: ${errorResponse.message}`)
+}
+
+/**
+ * Obtiene las categorías
+ * @param {boolean} includeInactive - Incluir las desactivadas (solo administradores)
+ * @returns {Promise<ItemCategory[]>} Categorías por orden, con el nombre en español
+ * @throws {Error} Si ocurre un error al obtener las categorías
+ */
+export const getCategories = async (includeInactive = false): Promise<ItemCategory[]> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: ItemCategory[] }> = await axios.get(CATEGORY_ROUTES.BASE, {
+      params: includeInactive ? { includeInactive: true } : undefined,
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleCategoryError(error, 'Error al obtener las categorías')
+  }
+}
+
+/**
+ * Crea una categoría
+ * @param {CategoryData} data - Slug, nombres, icono, categoría padre y orden
+ * @returns {Promise<ItemCategory>} Categoría creada
+ * @throws {Error} Si el slug ya existe o los datos no son válidos
+ */
+export const createCategory = async (data: CategoryData): Promise<ItemCategory> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: ItemCategory }> = await axios.post(CATEGORY_ROUTES.BASE, data, {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleCategoryError(error, 'Error al crear la categoría')
+  }
+}
+
+/**
+ * Modifica una categoría (el slug no puede cambiarse)
+ * @param {string} id - ID de la categoría
+ * @param {CategoryData} data - Campos a modificar
+ * @returns {Promise<ItemCategory>} Categoría actualizada
+ * @throws {Error} Si ocurre un error al modificar la categoría
+ */
+export const updateCategory = async (id: string, data: CategoryData): Promise<ItemCategory> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: ItemCategory }> = await axios.put(CATEGORY_ROUTES.BY_ID(id), data, {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleCategoryError(error, 'Error al modificar la categoría')
+  }
+}
+
+/**
+ * Borra una categoría sin artículos ni subcategorías
+ * @param {string} id - ID de la categoría
+ * @returns {Promise<void>}
+ * @throws {Error} Si la categoría está en uso (debe desactivarse)
+ */
+export const deleteCategory = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(CATEGORY_ROUTES.BY_ID(id), {
+      headers: getAuthHeaders()
+    })
+  } catch (error) {
+    handleCategoryError(error, 'Error al borrar la categoría')
+  }
+}
+
+/**
+ * Objeto de servicio que agrupa las operaciones de categorías
+ */
+const categoryService = {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory
+}
+
+export default categoryService
@@ -17,6 +17,7 @@ import type { SearchFilters } from '@/shared/constants/searchFilters'
  * @property {string} description - Descripción detallada del item
  * @property {string} category - Categoría del item
  * @property {string} condition - Estado/condición del item
+ * @property {ItemAttributes} attributes - Atributos propios de la categoría (opcional)
  * @property {string} location - Ubicación del item
  * @property {Object} coordinates - Coordenadas geográficas opcionales
  * @property {number} coordinates.lat - Latitud
@@ -30,7 +31,12 @@ import type { SearchFilters } from '@/shared/constants/searchFilters'
  * @property {string} user.email - Email del usuario
  * @property {string} createdAt - Fecha de creación
  * @property {string} updatedAt - Fecha de última actualización
- * @property {number} distance - Distancia calculada (opcional)
+ * @property {number} distance - Distancia aproximada en km, redondeada a 0,5 (opcional)
+ * @property {[number, number]} exactCoordinates - Punto exacto [lng, lat]; solo para el
+ *   propietario y la otra parte de un intercambio acordado (opcional)
+ * @property {ItemStatus} status - Estado del ciclo de vida del anuncio
+ * @property {Object} reservedFor - Usuario para el que está reservado (solo en 'reserved')
+ * @property {ItemStatusChange[]} statusHistory - Historial de cambios de estado
  */
 export interface Item {
   _id: string
@@ -38,6 +44,7 @@ export interface Item {
   description: string
   category: string
   condition: string
+  attributes?: ItemAttributes
   location: string
   coordinates?: {
     lat: number
@@ -55,6 +62,49 @@ export interface Item {
   createdAt: string
   updatedAt: string
   distance?: number
+  exactCoordinates?: [number, number]
+  status?: ItemStatus
+  reservedFor?: {
+    _id: string
+    name: string
+  } | null
+  statusHistory?: ItemStatusChange[]
+}
+
+/**
+ * Atributos propios de la categoría de un item por clave (autor, talla...)
+ * @typedef {Object} ItemAttributes
+ */
+export type ItemAttributes = Record<string, string | number | boolean>
+
+/**
+ * Estados del ciclo de vida de un item
+ * @typedef {string} ItemStatus
+ */
+export type ItemStatus = 'draft' | 'active' | 'reserved' | 'traded' | 'withdrawn' | 'expired'
+
+/**
+ * Entrada del historial de estados de un item
+ * @interface ItemStatusChange
+ */
+export interface ItemStatusChange {
+  status: ItemStatus
+  changedBy?: string
+  reservedFor?: string
+  changedAt: string
+}
+
+/**
+ * Transiciones de estado permitidas (reflejo de ITEM_TRANSITIONS del backend)
+ * @constant {Record<ItemStatus, ItemStatus[]>} ITEM_STATUS_TRANSITIONS
+ */
+export const ITEM_STATUS_TRANSITIONS: Record<ItemStatus, ItemStatus[]> = {
+  draft: ['active', 'withdrawn'],
+  active: ['reserved', 'traded', 'withdrawn', 'expired'],
+  reserved: ['active', 'traded', 'withdrawn'],
+  traded: [],
+  withdrawn: ['active'],
+  expired: ['active']
 }
 
 /**
@@ -90,6 +140,110 @@ export interface ItemsResponse {
   }
 }
 
+/**
+ * Interfaz para un item de la papelera
+ * @interface DeletedItem
+ * @property {string} deletedAt - Fecha de eliminación
+ * @property {string} restorableUntil - Fecha límite para que el propietario lo restaure
+ */
+export interface DeletedItem extends Item {
+  deletedAt: string
+  restorableUntil: string
+}
+
+/**
+ * Interfaz para un item favorito
+ * @interface FavoriteItem
+ * @property {string} favoritedAt - Fecha en la que se añadió a favoritos
+ */
+export interface FavoriteItem extends Item {
+  favoritedAt: string
+}
+
+/**
+ * Estado de favorito de un item para el usuario actual
+ * @interface FavoriteStatus
+ * @property {boolean} favorited - Si el usuario sigue el item
+ * @property {number} favoriteCount - Usuarios que siguen el item (solo para el propietario)
+ */
+export interface FavoriteStatus {
+  favorited: boolean
+  favoriteCount?: number
+}
+
+/**
+ * Área visible del mapa en grados
+ * @interface MapBounds
+ */
+export interface MapBounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+/**
+ * Grupo de items de una zona densa del mapa
+ * @interface MapCluster
+ * @property {number} count - Items del grupo
+ * @property {[number, number, number, number]} bounds - Extensión [oeste, sur, este, norte] para acercar el mapa
+ */
+export interface MapCluster {
+  lat: number
+  lng: number
+  count: number
+  bounds: [number, number, number, number]
+}
+
+/**
+ * Marcador individual de un item en el mapa
+ * @interface MapItem
+ * @property {{ coordinates: [number, number] }} coordinates - Posición [longitud, latitud]
+ */
+export interface MapItem {
+  _id: string
+  title: string
+  category: string
+  condition: string
+  status?: ItemStatus
+  imageUrls: string[]
+  location: string
+  coordinates: {
+    coordinates: [number, number]
+  }
+  createdAt: string
+}
+
+/**
+ * Respuesta del mapa de items
+ * @interface ItemMapResponse
+ * @property {boolean} clustered - Si las zonas densas se devuelven agrupadas
+ * @property {boolean} truncated - Si se han omitido marcadores por ser demasiados
+ */
+export interface ItemMapResponse {
+  success: boolean
+  zoom: number
+  clustered: boolean
+  total: number
+  truncated: boolean
+  data: {
+    clusters: MapCluster[]
+    items: MapItem[]
+  }
+}
+
+/**
+ * Interfaz para la respuesta de la API al enviar un item a la papelera
+ * @interface DeleteItemResponse
+ */
+export interface DeleteItemResponse {
+  success: boolean
+  data: {
+    deletedAt: string
+    restorableUntil: string
+  }
+}
+
 /**
  * Interfaz para los datos necesarios para crear un nuevo item
  * @interface CreateItemData
@@ -97,6 +251,7 @@ export interface ItemsResponse {
  * @property {string} description - Descripción del item
  * @property {string} category - Categoría del item
  * @property {string} condition - Condición del item
+ * @property {ItemAttributes} attributes - Atributos propios de la categoría (opcional)
  * @property {string} location - Ubicación del item
  * @property {Object} coordinates - Coordenadas geográficas (opcional)
  * @property {File[]} images - Archivos de imagen (opcional)
@@ -106,6 +261,7 @@ export interface CreateItemData {
   description: string
   category: string
   condition: string
+  attributes?: ItemAttributes
   location: string
   coordinates?: {
     lat: number
@@ -216,9 +372,9 @@ const createFormData = (itemData: CreateItemData | UpdateItemData): FormData =>
       Array.from(value as File[]).forEach(file => {
         formData.append('images', file)
       })
-    } else if (key === 'coordinates' && value) {
-      // Maneja objeto de coordenadas
-      formData.append('coordinates', JSON.stringify(value))
+    } else if ((key === 'coordinates' || key === 'attributes') && value) {
+      // Maneja objetos de coordenadas y atributos
+      formData.append(key, JSON.stringify(value))
     } else if (value !== null && value !== undefined) {
       formData.append(key, String(value))
     }
@@ -308,6 +464,43 @@ export const searchItems = async (
   }
 }
 
+/**
+ * Obtiene los items del área visible del mapa
+ * Las zonas densas llegan agrupadas hasta que el zoom es suficiente
+ * @param {MapBounds} bounds - Área visible del mapa
+ * @param {number} zoom - Nivel de zoom del mapa
+ * @param {{ category?: string; condition?: string; q?: string }} filters - Filtros de la búsqueda
+ * @param {AxiosRequestConfig} options - Opciones adicionales para la petición
+ * @returns {Promise<ItemMapResponse>} Promesa con los grupos y marcadores
+ * @throws {Error} Si ocurre un error al obtener el mapa
+ */
+export const getItemsMap = async (
+  bounds: MapBounds,
+  zoom: number,
+  filters: { category?: string; condition?: string; q?: string } = {},
+  options: AxiosRequestConfig = {}
+): Promise<ItemMapResponse> => {
+  try {
+    const params: Record<string, string | number> = {
+      bbox: [bounds.west, bounds.south, bounds.east, bounds.north].join(','),
+      zoom
+    }
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params[key] = value
+    })
+
+    const response: AxiosResponse<ItemMapResponse> = await axios.get(ITEM_ROUTES.MAP, {
+      params,
+      timeout: REQUEST_TIMEOUT,
+      ...options
+    })
+    return response.data
+  } catch (error) {
+    handleItemError(error, 'Error al cargar el mapa')
+    throw error // Esta línea nunca se alcanzará pero satisface TypeScript
+  }
+}
+
 /**
  * Obtiene un item específico por su ID
  * @param {string} id - ID del item
@@ -383,14 +576,14 @@ export const updateItem = async (id: string, itemData: UpdateItemData | FormData
 }
 
 /**
- * Elimina un item
+ * Envía un item a la papelera (se puede restaurar durante un tiempo)
  * @param {string} id - ID del item
- * @returns {Promise<{message: string}>} Promesa con confirmación de eliminación
+ * @returns {Promise<DeleteItemResponse>} Promesa con la fecha límite de restauración
  * @throws {Error} Si ocurre un error al eliminar el item
  */
-export const deleteItem = async (id: string): Promise<{ message: string }> => {
+export const deleteItem = async (id: string): Promise<DeleteItemResponse> => {
   try {
-    const response: AxiosResponse<{ message: string }> = await axios.delete(ITEM_ROUTES.BY_ID(id), {
+    const response: AxiosResponse<DeleteItemResponse> = await axios.delete(ITEM_ROUTES.BY_ID(id), {
       headers: getAuthHeaders(),
       timeout: REQUEST_TIMEOUT
     })
@@ -402,6 +595,169 @@ export const deleteItem = async (id: string): Promise<{ message: string }> => {
   }
 }
 
+/**
+ * Restaura un item de la papelera
+ * @param {string} id - ID del item
+ * @returns {Promise<{success: boolean, data: Item}>} Promesa con el item restaurado
+ * @throws {Error} Si ocurre un error al restaurar el item
+ */
+export const restoreItem = async (id: string): Promise<{ success: boolean; data: Item }> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: Item }> = await axios.patch(ITEM_ROUTES.RESTORE(id), {}, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data
+  } catch (error) {
+    handleItemError(error, 'Error al restaurar el item')
+    throw error
+  }
+}
+
+/**
+ * Obtiene los items de la papelera del usuario actual (requiere autenticación)
+ * @returns {Promise<ItemsResponse>} Promesa con los items eliminados que se pueden restaurar
+ * @throws {Error} Si ocurre un error al obtener la papelera
+ */
+export const getDeletedItems = async (): Promise<Omit<ItemsResponse, 'data'> & { data: DeletedItem[] }> => {
+  try {
+    const response: AxiosResponse<Omit<ItemsResponse, 'data'> & { data: DeletedItem[] }> = await axios.get(ITEM_ROUTES.DELETED, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data
+  } catch (error) {
+    handleItemError(error, 'Error al obtener la papelera')
+    throw error
+  }
+}
+
+/**
+ * Cambia el estado del ciclo de vida de un item (solo propietario o administrador)
+ * @param {string} id - ID del item
+ * @param {ItemStatus} status - Estado destino
+ * @param {string} [reservedFor] - ID del usuario para el que se reserva (obligatorio en 'reserved')
+ * @returns {Promise<{success: boolean, data: Item}>} Promesa con el item actualizado
+ * @throws {Error} Si la transición no está permitida
+ */
+export const updateItemStatus = async (
+  id: string,
+  status: ItemStatus,
+  reservedFor?: string
+): Promise<{ success: boolean; data: Item }> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: Item }> = await axios.patch(ITEM_ROUTES.STATUS(id), { status, reservedFor }, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data
+  } catch (error) {
+    handleItemError(error, 'Error al cambiar el estado del item')
+    throw error
+  }
+}
+
+/**
+ * Obtiene si el usuario actual sigue un item (el propietario recibe además cuántos lo siguen)
+ * @param {string} id - ID del item
+ * @returns {Promise<FavoriteStatus>} Promesa con el estado de favorito
+ * @throws {Error} Si ocurre un error al consultar el favorito
+ */
+export const getFavoriteStatus = async (id: string): Promise<FavoriteStatus> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: FavoriteStatus }> = await axios.get(ITEM_ROUTES.FAVORITE(id), {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data.data
+  } catch (error) {
+    handleItemError(error, 'Error al consultar el favorito')
+    throw error
+  }
+}
+
+/**
+ * Añade un item a favoritos
+ * @param {string} id - ID del item
+ * @returns {Promise<FavoriteStatus>} Promesa con el nuevo estado de favorito
+ * @throws {Error} Si el item es propio o no está publicado
+ */
+export const addFavorite = async (id: string): Promise<FavoriteStatus> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: FavoriteStatus }> = await axios.post(ITEM_ROUTES.FAVORITE(id), {}, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data.data
+  } catch (error) {
+    handleItemError(error, 'Error al añadir a favoritos')
+    throw error
+  }
+}
+
+/**
+ * Quita un item de favoritos
+ * @param {string} id - ID del item
+ * @returns {Promise<FavoriteStatus>} Promesa con el nuevo estado de favorito
+ * @throws {Error} Si ocurre un error al quitar el favorito
+ */
+export const removeFavorite = async (id: string): Promise<FavoriteStatus> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: FavoriteStatus }> = await axios.delete(ITEM_ROUTES.FAVORITE(id), {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data.data
+  } catch (error) {
+    handleItemError(error, 'Error al quitar de favoritos')
+    throw error
+  }
+}
+
+/**
+ * Obtiene los items favoritos del usuario actual (requiere autenticación)
+ * @returns {Promise<FavoriteItem[]>} Promesa con los favoritos, del más reciente al más antiguo
+ * @throws {Error} Si ocurre un error al obtener los favoritos
+ */
+export const getFavoriteItems = async (): Promise<FavoriteItem[]> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: FavoriteItem[] }> = await axios.get(ITEM_ROUTES.FAVORITES, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data.data
+  } catch (error) {
+    handleItemError(error, 'Error al obtener los favoritos')
+    throw error
+  }
+}
+
+/**
+ * Obtiene cuántos usuarios siguen cada item del usuario actual
+ * @returns {Promise<Record<string, number>>} Promesa con el número de favoritos por ID de item
+ * @throws {Error} Si ocurre un error al obtener los contadores
+ */
+export const getFavoriteCounts = async (): Promise<Record<string, number>> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: Record<string, number> }> = await axios.get(ITEM_ROUTES.FAVORITE_COUNTS, {
+      headers: getAuthHeaders(),
+      timeout: REQUEST_TIMEOUT
+    })
+    
+    return response.data.data
+  } catch (error) {
+    handleItemError(error, 'Error al obtener los favoritos de tus items')
+    throw error
+  }
+}
+
 /**
  * Alterna la disponibilidad de un item
  * @param {string} id - ID del item
@@ -522,10 +878,19 @@ export const deleteItemImage = async (id: string, imageUrl: string): Promise<Ite
 const itemService = {
   getItems,
   searchItems,
+  getItemsMap,
   getItemById,
   createItem,
   updateItem,
   deleteItem,
+  restoreItem,
+  getDeletedItems,
+  updateItemStatus,
+  getFavoriteStatus,
+  addFavorite,
+  removeFavorite,
+  getFavoriteItems,
+  getFavoriteCounts,
   toggleItemAvailability,
   getItemsByUser,
   getMyItems,
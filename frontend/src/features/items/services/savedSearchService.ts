@@ -0,0 +1,208 @@
+/**
+ * Servicio de Búsquedas Guardadas
+ * Maneja las operaciones de API de las búsquedas guardadas del usuario actual
+ * y de los artículos nuevos que coinciden con ellas
+ */
+
+import axios, { type AxiosResponse } from 'axios'
+import { SAVED_SEARCH_ROUTES } from '@/config/apiRoutes'
+import { processError } from '@/shared/utils/errorHandler'
+import { getAuthHeaders } from '@/features/auth/utils/authUtils'
+import type { Item } from './itemService'
+
+/**
+ * Filtros de una búsqueda guardada (mismos nombres que los parámetros de búsqueda de la API)
+ * @interface SavedSearchFilters
+ */
+export interface SavedSearchFilters {
+  q?: string
+  category?: string
+  condition?: string
+  location?: string
+  lat?: number
+  lng?: number
+  distance?: number
+}
+
+/**
+ * Interfaz de una búsqueda guardada
+ * @interface SavedSearch
+ * @property {string} name - Nombre de la búsqueda
+ * @property {SavedSearchFilters} filters - Filtros guardados
+ * @property {boolean} emailDigest - Recibir las coincidencias en un resumen por email
+ * @property {number} matchCount - Coincidencias conservadas
+ * @property {number} newMatches - Coincidencias que el usuario aún no ha revisado
+ */
+export interface SavedSearch {
+  _id: string
+  name: string
+  filters: SavedSearchFilters
+  emailDigest: boolean
+  matchCount: number
+  newMatches: number
+  lastSeenAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Artículo que ha coincidido con una búsqueda guardada
+ * @interface SavedSearchMatch
+ * @property {string} matchedAt - Fecha en la que se detectó la coincidencia
+ */
+export interface SavedSearchMatch extends Item {
+  matchedAt: string
+}
+
+/**
+ * Datos para guardar o modificar una búsqueda
+ * @interface SavedSearchData
+ */
+export interface SavedSearchData {
+  name: string
+  filters: SavedSearchFilters
+  emailDigest?: boolean
+}
+
+/**
+ * Filtros de la página de búsqueda que se pueden guardar
+ * @interface SearchPageFilters
+ */
+export interface SearchPageFilters {
+  query?: string
+  category?: string
+  condition?: string
+  location?: string
+  distance?: number
+  coordinates?: { lat: number; lng: number } | null
+}
+
+/**
+ * Convierte los filtros de la página de búsqueda en los de una búsqueda guardada
+ * Descarta los filtros vacíos y los que no intervienen en los avisos (orden, página)
+ * @param {SearchPageFilters} filters - Filtros de la búsqueda actual
+ * @returns {SavedSearchFilters} Filtros para guardar
+ */
+export const toSavedSearchFilters = (filters: SearchPageFilters): SavedSearchFilters => {
+  const saved: SavedSearchFilters = {}
+
+  if (filters.query?.trim()) saved.q = filters.query.trim()
+  if (filters.category) saved.category = filters.category
+  if (filters.condition) saved.condition = filters.condition
+  if (filters.location?.trim()) saved.location = filters.location.trim()
+  if (filters.coordinates) {
+    saved.lat = filters.coordinates.lat
+    saved.lng = filters.coordinates.lng
+    saved.distance = filters.distance
+  }
+
+  return saved
+}
+
+/**
+ * Lanza un error con el mensaje de la API y el contexto de la operación
+ * @param {unknown} error - Error capturado
+ * @param {string} context - Operación que ha fallado
+ * @throws {Error} Error con mensaje descriptivo
+ */
+const handleSavedSearchError = (error: unknown, context: string): never => {
+  const errorResponse = processError(error)
+  throw new Error(`${context}: ${errorResponse.message}`)
+}
+
+/**
+ * Obtiene las búsquedas guardadas del usuario actual
+ * @returns {Promise<SavedSearch[]>} Búsquedas con sus coincidencias nuevas
+ * @throws {Error} Si ocurre un error al obtener las búsquedas
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: SavedSearch[] }> = await axios.get(SAVED_SEARCH_ROUTES.BASE, {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleSavedSearchError(error, 'Error al obtener las búsquedas guardadas')
+  }
+}
+
+/**
+ * Guarda una búsqueda
+ * @param {SavedSearchData} data - Nombre, filtros y preferencia de resumen por email
+ * @returns {Promise<SavedSearch>} Búsqueda guardada
+ * @throws {Error} Si la búsqueda no tiene filtros o se ha alcanzado el límite
+ */
+export const createSavedSearch = async (data: SavedSearchData): Promise<SavedSearch> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: SavedSearch }> = await axios.post(SAVED_SEARCH_ROUTES.BASE, data, {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleSavedSearchError(error, 'Error al guardar la búsqueda')
+  }
+}
+
+/**
+ * Modifica una búsqueda guardada
+ * @param {string} id - ID de la búsqueda
+ * @param {Partial<SavedSearchData>} data - Campos a modificar
+ * @returns {Promise<SavedSearch>} Búsqueda actualizada
+ * @throws {Error} Si ocurre un error al modificar la búsqueda
+ */
+export const updateSavedSearch = async (id: string, data: Partial<SavedSearchData>): Promise<SavedSearch> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: SavedSearch }> = await axios.put(SAVED_SEARCH_ROUTES.BY_ID(id), data, {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleSavedSearchError(error, 'Error al modificar la búsqueda')
+  }
+}
+
+/**
+ * Borra una búsqueda guardada
+ * @param {string} id - ID de la búsqueda
+ * @returns {Promise<void>}
+ * @throws {Error} Si ocurre un error al borrar la búsqueda
+ */
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(SAVED_SEARCH_ROUTES.BY_ID(id), {
+      headers: getAuthHeaders()
+    })
+  } catch (error) {
+    handleSavedSearchError(error, 'Error al borrar la búsqueda')
+  }
+}
+
+/**
+ * Obtiene los artículos que han coincidido con una búsqueda y la marca como revisada
+ * @param {string} id - ID de la búsqueda
+ * @returns {Promise<SavedSearchMatch[]>} Artículos todavía publicados, del más reciente al más antiguo
+ * @throws {Error} Si ocurre un error al obtener las coincidencias
+ */
+export const getSavedSearchMatches = async (id: string): Promise<SavedSearchMatch[]> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; data: SavedSearchMatch[] }> = await axios.get(SAVED_SEARCH_ROUTES.MATCHES(id), {
+      headers: getAuthHeaders()
+    })
+    return response.data.data
+  } catch (error) {
+    return handleSavedSearchError(error, 'Error al obtener las coincidencias')
+  }
+}
+
+/**
+ * Objeto de servicio que agrupa las operaciones de búsquedas guardadas
+ */
+const savedSearchService = {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchMatches
+}
+
+export default savedSearchService
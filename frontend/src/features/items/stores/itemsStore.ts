@@ -595,7 +595,7 @@ export const useItemsStore = defineStore('items', () => {
       
       lastFetch.value = Date.now()
       
-      notifySuccess('Item eliminado exitosamente')
+      notifySuccess('Item enviado a la papelera')
     } catch (err) {
       handleStoreError(err, 'Error al eliminar el item')
       throw err
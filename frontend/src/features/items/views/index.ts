@@ -7,5 +7,6 @@
 export { default as ItemDetailView } from './ItemDetailView.vue'
 export { default as ItemPostView } from './ItemPostView.vue'
 export { default as EditItemView } from './EditItemView.vue'
+export { default as ItemMapView } from './ItemMapView.vue'
 // export { default as ItemManagementView } from './ItemManagementView.vue'
 // export { default as SearchView } from './SearchView.vue'
\ No newline at end of file
@@ -2,7 +2,7 @@ import { ref, onMounted, watch, nextTick, type Ref } from 'vue'
 import { useRoute, useRouter } from 'vue-router'
 import { displayError } from '@/shared/utils/errorHandler'
 import { jwtDecode } from 'jwt-decode'
-import { messageService } from '@/features/messages'
+import { messageService, type CreateMessageData } from '@/features/messages'
 import { getUserAvatarUrl } from '@/features/users'
 
 // Types
@@ -203,13 +203,23 @@ export function useMessageDetail(): UseMessageDetailReturn {
     return true
   }
 
+  /**
+   * Conversación abierta desde la lista (?conversation=<id>); sin ella se
+   * muestra todo el historial con el usuario de la ruta
+   */
+  const getConversationId = (): string | undefined =>
+    (route.query.conversation as string | undefined) || undefined
+
   /**
    * Marca la conversación como leída en el backend
    */
   const markConversationAsRead = async (): Promise<void> => {
     if (otherUser.value && otherUser.value?._id) {
       try {
-        await messageService.markConversationAsRead(otherUser.value._id)
+        // Los mensajes de una conversación concreta ya se marcan al obtenerlos
+        if (!getConversationId()) {
+          await messageService.markConversationAsRead(otherUser.value._id)
+        }
         
         // Emitir evento para actualizar UI en otros componentes
         window.dispatchEvent(new CustomEvent('conversationRead', { 
@@ -238,18 +248,22 @@ export function useMessageDetail(): UseMessageDetailReturn {
 
       // Cargando conversación... (sin notificación)
       
-      const response = await messageService.getConversation(route.params.userId as string)
+      const conversationId = getConversationId()
+      const response: any = conversationId
+        ? await messageService.getMessages(conversationId)
+        : await messageService.getConversation(route.params.userId as string)
 
       // Validar datos de la respuesta
-      if (!validateConversationData(response)) {
+      const otherUserData = conversationId ? response.conversation?.withUser : response.otherUser
+      if (!validateConversationData({ ...response, otherUser: otherUserData })) {
         loading.value = false
         return
       }
 
       // Asignar datos válidos
-      messages.value = (response as any).conversation || []
-      otherUser.value = (response as any).otherUser
-      item.value = (response as any).item
+      messages.value = (conversationId ? response.messages : response.conversation) || []
+      otherUser.value = otherUserData
+      item.value = conversationId ? response.conversation.item : response.item
 
       // Marcar conversación como leída
       await markConversationAsRead()
@@ -309,7 +323,13 @@ export function useMessageDetail(): UseMessageDetailReturn {
    * Crea el objeto de mensaje para enviar
    * @returns {Object} Datos del mensaje
    */
-  const createMessageData = (): { recipientId: string; content: string; itemId?: string } => {
+  const createMessageData = (): CreateMessageData => {
+    const conversationId = getConversationId()
+
+    if (conversationId) {
+      return { conversationId, content: newMessage.value.trim() }
+    }
+
     return {
       recipientId: otherUser.value?._id || '',
       content: newMessage.value.trim(),
@@ -319,7 +339,7 @@ export function useMessageDetail(): UseMessageDetailReturn {
 
   /**
    * Añade el mensaje enviado a la lista local
-   * @param {Object} response - Respuesta del servidor
+   * @param {Object} response - Mensaje devuelto por el servidor
    */
   const addMessageToList = (response: any): void => {
     const currentUser = {
@@ -328,7 +348,7 @@ export function useMessageDetail(): UseMessageDetailReturn {
     }
 
     messages.value.push({
-      ...response.data,
+      ...response,
       sender: currentUser,
       receiver: otherUser.value,
       createdAt: new Date().toISOString()
@@ -386,8 +406,8 @@ export function useMessageDetail(): UseMessageDetailReturn {
     fetchMessages()
   })
 
-  // Actualizar cuando cambie el ID de la conversación
-  watch(() => route.params.userId, () => {
+  // Actualizar cuando cambie el usuario o la conversación
+  watch(() => [route.params.userId, route.query.conversation], () => {
     fetchMessages()
   })
 
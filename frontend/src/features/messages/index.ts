@@ -16,6 +16,7 @@
  * 
  * 🔧 SERVICIOS (API):
  * - messageService: Cliente HTTP para operaciones de mensajería
+ * - notificationService: Centro de notificaciones (listar y marcar como leídas)
  * - Gestión de conversaciones y mensajes
  * - Envío y recepción de mensajes en tiempo real
  * - Búsqueda en historial de conversaciones
@@ -182,9 +183,26 @@ export type {
   Conversation,
   User,
   CreateMessageData,
+  ConversationSettings,
   MessagesResponse,
-  ConversationsResponse
+  ConversationsResponse,
+  MessageReadEvent,
+  ConversationUpdatedEvent,
+  NotificationNewEvent,
+  NotificationReadEvent,
+  MessageSocketEvents
 } from './services/messageService'
+export {
+  default as notificationService,
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from './services/notificationService'
+export type {
+  NotificationType,
+  AppNotification,
+  NotificationsPage
+} from './services/notificationService'
 
 // Components
 export * from './components'
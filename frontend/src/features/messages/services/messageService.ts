@@ -11,10 +11,12 @@
  * - Manejo de mensajes no leídos
  * - Paginación de conversaciones y mensajes
  * - Integración con artículos (mensajes contextuales)
+ * - Eventos en tiempo real mediante Socket.IO
  * - Manejo robusto de errores
  * 
  * Tecnologías utilizadas:
  * - Axios para peticiones HTTP
+ * - Socket.IO para mensajería en tiempo real
  * - TypeScript para tipado estático
  * - Manejo centralizado de errores
  * 
@@ -25,6 +27,8 @@
 import axios, { AxiosResponse } from 'axios'
 import { MESSAGE_ROUTES } from '@/config/apiRoutes'
 import { processError } from '@/shared/utils/errorHandler'
+import { io, type Socket } from 'socket.io-client'
+import type { AppNotification } from './notificationService'
 
 /**
  * Interfaz para representar un usuario en el contexto de mensajes
@@ -74,7 +78,7 @@ export interface Message {
     images: string[]
   }
   /** ID de la conversación a la que pertenece */
-  conversationId: string
+  conversation?: string
   /** Estado de lectura del mensaje */
   isRead: boolean
   /** Fecha de creación del mensaje */
@@ -86,31 +90,37 @@ export interface Message {
 /**
  * Interfaz para representar una conversación
  * 
- * Agrupa mensajes entre usuarios con metadatos útiles como
- * participantes, último mensaje y contadores de mensajes no leídos.
+ * Cada conversación es un hilo entre dos usuarios sobre un artículo concreto
+ * (o general si no hay artículo), con el estado del usuario actual.
  * 
  * @interface Conversation
  */
 export interface Conversation {
   /** Identificador único de la conversación */
   _id: string
-  /** Lista de usuarios participantes en la conversación */
-  participants: User[]
+  /** Otro participante de la conversación */
+  withUser: User
+  /** Lista de usuarios participantes (solo en el detalle de la conversación) */
+  participants?: User[]
   /** Último mensaje enviado en la conversación */
-  lastMessage: Message
+  lastMessage: Message | null
+  /** Fecha de la última actividad */
+  lastMessageAt: string
   /** Número de mensajes no leídos en la conversación */
   unreadCount: number
-  /** ID del artículo relacionado (opcional) */
-  itemId?: string
-  /** Información del artículo relacionado (opcional) */
-  item?: {
+  /** Conversación archivada por el usuario actual */
+  archived: boolean
+  /** Conversación silenciada por el usuario actual */
+  muted: boolean
+  /** Información del artículo relacionado (null si es una conversación general) */
+  item: {
     /** ID del artículo */
     _id: string
     /** Título del artículo */
     title: string
     /** Array de URLs de imágenes del artículo */
-    images: string[]
-  }
+    imageUrls?: string[]
+  } | null
   /** Fecha de creación de la conversación */
   createdAt: string
   /** Fecha de última actualización de la conversación */
@@ -128,12 +138,26 @@ export interface Conversation {
 export interface CreateMessageData {
   /** Contenido del mensaje a enviar */
   content: string
-  /** ID del usuario destinatario */
-  recipientId: string
-  /** ID del artículo relacionado (opcional) */
+  /** ID de una conversación existente (alternativa a recipientId) */
+  conversationId?: string
+  /** ID del usuario destinatario (si no se indica conversationId) */
+  recipientId?: string
+  /** ID del artículo relacionado (opcional, junto con recipientId) */
   itemId?: string
 }
 
+/**
+ * Preferencias del usuario actual en una conversación
+ * 
+ * @interface ConversationSettings
+ */
+export interface ConversationSettings {
+  /** Archivar o desarchivar la conversación */
+  archived?: boolean
+  /** Silenciar o reactivar la conversación */
+  muted?: boolean
+}
+
 /**
  * Interfaz para respuesta paginada de mensajes
  * 
@@ -155,6 +179,8 @@ export interface MessagesResponse {
   hasNextPage: boolean
   /** Indica si existe una página anterior */
   hasPrevPage: boolean
+  /** Conversación a la que pertenecen los mensajes */
+  conversation?: Conversation
 }
 
 /**
@@ -172,10 +198,106 @@ export interface ConversationsResponse {
   count: number
   /** Lista de conversaciones */
   data: Conversation[]
+  /** Información de paginación */
+  pagination?: {
+    /** Conversaciones por página */
+    limit: number
+    /** Página actual (solo si no se usó cursor) */
+    page?: number
+    /** Indica si hay más conversaciones */
+    hasMore: boolean
+    /** Cursor para pedir la siguiente página (null si no hay más) */
+    nextCursor: string | null
+  }
   /** Mensaje opcional del servidor */
   message?: string
 }
 
+/**
+ * Evento emitido cuando el destinatario lee mensajes propios
+ * 
+ * @interface MessageReadEvent
+ */
+export interface MessageReadEvent {
+  /** ID del usuario que ha leído los mensajes */
+  readerId: string
+  /** ID de la conversación (null en mensajes anteriores a las conversaciones) */
+  conversationId: string | null
+  /** IDs de los mensajes leídos */
+  messageIds: string[]
+}
+
+/**
+ * Evento emitido cuando cambia el estado de una conversación
+ * 
+ * @interface ConversationUpdatedEvent
+ */
+export interface ConversationUpdatedEvent {
+  /** ID de la conversación (null en mensajes anteriores a las conversaciones) */
+  conversationId: string | null
+  /** ID del otro participante de la conversación */
+  withUser: string
+  /** Último mensaje de la conversación (null si ya no quedan mensajes) */
+  lastMessage: Message | null
+  /** Mensajes no leídos de la conversación */
+  unreadCount: number
+  /** Total de mensajes no leídos del usuario */
+  totalUnread: number
+}
+
+/**
+ * Evento emitido cuando se crea una notificación para el usuario
+ * 
+ * @interface NotificationNewEvent
+ */
+export interface NotificationNewEvent {
+  /** Notificación creada */
+  notification: AppNotification
+  /** Total de notificaciones sin leer del usuario */
+  unreadCount: number
+}
+
+/**
+ * Evento emitido cuando el usuario lee notificaciones (sincroniza sus pestañas)
+ * 
+ * @interface NotificationReadEvent
+ */
+export interface NotificationReadEvent {
+  /** ID de la notificación leída (null si se han marcado todas) */
+  notificationId: string | null
+  /** Total de notificaciones sin leer del usuario */
+  unreadCount: number
+}
+
+/**
+ * Manejadores de los eventos en tiempo real de mensajería
+ * 
+ * @interface MessageSocketEvents
+ */
+export interface MessageSocketEvents {
+  /** Nuevo mensaje enviado o recibido */
+  'message:new': (message: Message) => void
+  /** Mensajes propios leídos por el destinatario */
+  'message:read': (event: MessageReadEvent) => void
+  /** Cambio en el último mensaje o en los no leídos de una conversación */
+  'conversation:updated': (event: ConversationUpdatedEvent) => void
+  /** Notificación nueva en el centro de notificaciones */
+  'notification:new': (event: NotificationNewEvent) => void
+  /** Notificaciones leídas desde otra pestaña */
+  'notification:read': (event: NotificationReadEvent) => void
+}
+
+/**
+ * Nombres de los eventos en tiempo real de mensajería
+ */
+const MESSAGE_SOCKET_EVENTS: Array<keyof MessageSocketEvents> = [
+  'message:new',
+  'message:read',
+  'conversation:updated',
+  'notification:new',
+  'notification:read'
+]
+
 /**
  * Clase de Servicio de Mensajes
  * 
@@ -189,10 +311,23 @@ export interface ConversationsResponse {
  * - Marcar mensajes como leídos
  * - Contar mensajes no leídos
  * - Iniciar conversaciones contextuales
+ * - Suscribirse a eventos de mensajería en tiempo real
  * 
  * @class MessageService
  */
 class MessageService {
+  /** Conexión de Socket.IO (null si no hay sesión activa) */
+  private socket: Socket | null = null
+
+  /** Token con el que se abrió la conexión actual */
+  private socketToken: string | null = null
+
+  /** Manejadores registrados para cada evento en tiempo real */
+  private eventHandlers = new Map<keyof MessageSocketEvents, Set<(payload: any) => void>>()
+
+  /** Manejadores de cambios en el estado de la conexión */
+  private connectionHandlers = new Set<(connected: boolean) => void>()
+
   /**
    * Obtiene todas las conversaciones del usuario actual
    * 
@@ -201,6 +336,8 @@ class MessageService {
    * 
    * @param {number} page - Número de página (por defecto 1)
    * @param {number} limit - Límite de resultados por página (por defecto 20)
+   * @param {string} cursor - Cursor de pagination.nextCursor; si se indica, se ignora page
+   * @param {boolean | 'all'} archived - true para ver solo las archivadas, 'all' para ver todas
    * @returns {Promise<ConversationsResponse>} Lista paginada de conversaciones
    * @throws {Error} Si ocurre un error al obtener las conversaciones
    * 
@@ -211,14 +348,25 @@ class MessageService {
    * 
    * // Obtener página específica con límite personalizado
    * const page2 = await messageService.getConversations(2, 10)
+   * 
+   * // Cargar más conversaciones a partir del cursor anterior
+   * const more = await messageService.getConversations(1, 20, conversations.pagination?.nextCursor)
    * ```
    */
-  async getConversations(page: number = 1, limit: number = 20): Promise<ConversationsResponse> {
+  async getConversations(
+    page: number = 1,
+    limit: number = 20,
+    cursor?: string | null,
+    archived?: boolean | 'all'
+  ): Promise<ConversationsResponse> {
     try {
       const response: AxiosResponse<ConversationsResponse> = await axios.get(
         MESSAGE_ROUTES.CONVERSATIONS,
         {
-          params: { page, limit }
+          params: {
+            ...(cursor ? { cursor, limit } : { page, limit }),
+            ...(archived !== undefined && { archived: String(archived) })
+          }
         }
       )
       return response.data
@@ -230,8 +378,9 @@ class MessageService {
   /**
    * Obtiene mensajes de una conversación específica
    * 
-   * Recupera una lista paginada de mensajes de una conversación,
-   * ordenados cronológicamente para mostrar el historial completo.
+   * Recupera una lista paginada de mensajes de una conversación, empezando
+   * por los más recientes; cada página viene en orden cronológico. Los
+   * mensajes recibidos se marcan como leídos en el servidor.
    * 
    * @param {string} conversationId - ID de la conversación
    * @param {number} page - Número de página (por defecto 1)
@@ -296,8 +445,9 @@ class MessageService {
   /**
    * Envía un nuevo mensaje
    * 
-   * Crea y envía un mensaje a un destinatario específico, opcionalmente
-   * relacionado con un artículo para proporcionar contexto.
+   * Envía un mensaje a una conversación existente o a un destinatario,
+   * opcionalmente sobre un artículo; en ese caso el servidor usa (o crea)
+   * la conversación de ambos usuarios sobre ese artículo.
    * 
    * @param {CreateMessageData} messageData - Datos del mensaje a enviar
    * @returns {Promise<Message>} El mensaje creado y enviado
@@ -305,10 +455,10 @@ class MessageService {
    * 
    * @example
    * ```typescript
-   * // Enviar mensaje simple
+   * // Responder en una conversación existente
    * const message = await messageService.sendMessage({
    *   content: 'Hola, ¿está disponible este artículo?',
-   *   recipientId: 'user123'
+   *   conversationId: 'conv123'
    * })
    * 
    * // Enviar mensaje relacionado con un artículo
@@ -321,11 +471,11 @@ class MessageService {
    */
   async sendMessage(messageData: CreateMessageData): Promise<Message> {
     try {
-      const response: AxiosResponse<{ message: Message }> = await axios.post(
+      const response: AxiosResponse<{ success: boolean; data: Message }> = await axios.post(
         MESSAGE_ROUTES.SEND,
         messageData
       )
-      return response.data.message
+      return response.data.data
     } catch (error: any) {
       throw processError(error, 'Error al enviar mensaje')
     }
@@ -496,6 +646,155 @@ class MessageService {
       throw processError(error, 'Error al iniciar conversación')
     }
   }
+
+  /**
+   * Archiva o silencia una conversación para el usuario actual
+   * 
+   * @param {string} conversationId - ID de la conversación
+   * @param {ConversationSettings} settings - Preferencias a cambiar
+   * @returns {Promise<Conversation>} La conversación actualizada
+   * @throws {Error} Si ocurre un error al actualizar la conversación
+   * 
+   * @example
+   * ```typescript
+   * // Archivar una conversación
+   * await messageService.updateConversationSettings('conv123', { archived: true })
+   * ```
+   */
+  async updateConversationSettings(conversationId: string, settings: ConversationSettings): Promise<Conversation> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: Conversation }> = await axios.put(
+        MESSAGE_ROUTES.CONVERSATION_SETTINGS(conversationId),
+        settings
+      )
+      return response.data.data
+    } catch (error: any) {
+      throw processError(error, 'Error al actualizar la conversación')
+    }
+  }
+
+  /**
+   * Abre la conexión en tiempo real con el servidor
+   * 
+   * Se autentica con el mismo token JWT que las peticiones HTTP. Si ya hay
+   * una conexión abierta con ese token no hace nada; si el token ha cambiado
+   * (otra sesión), cierra la anterior y abre una nueva. Socket.IO se encarga
+   * de reconectar automáticamente si la conexión se cae; cada intento lee el
+   * token de localStorage, porque el de la conexión inicial caduca y se renueva.
+   * 
+   * @example
+   * ```typescript
+   * messageService.connectRealtime()
+   * ```
+   */
+  connectRealtime(): void {
+    const token = localStorage.getItem('token')
+
+    if (!token) {
+      this.disconnectRealtime()
+      return
+    }
+
+    if (this.socket && this.socketToken === token) {
+      return
+    }
+
+    this.disconnectRealtime()
+
+    this.socketToken = token
+    this.socket = io({ auth: cb => cb({ token: localStorage.getItem('token') }) })
+
+    this.socket.on('connect', () => this.notifyConnection(true))
+    this.socket.on('disconnect', () => this.notifyConnection(false))
+    this.socket.on('connect_error', () => this.notifyConnection(false))
+
+    MESSAGE_SOCKET_EVENTS.forEach(event => {
+      this.socket!.on(event, (payload: any) => {
+        this.eventHandlers.get(event)?.forEach(handler => handler(payload))
+      })
+    })
+  }
+
+  /**
+   * Cierra la conexión en tiempo real
+   * 
+   * Debe llamarse al cerrar sesión. Los manejadores registrados se conservan
+   * y volverán a recibir eventos cuando se abra una nueva conexión.
+   */
+  disconnectRealtime(): void {
+    if (!this.socket) return
+
+    this.socket.removeAllListeners()
+    this.socket.disconnect()
+    this.socket = null
+    this.socketToken = null
+    this.notifyConnection(false)
+  }
+
+  /**
+   * Indica si la conexión en tiempo real está activa
+   * 
+   * @returns {boolean} true si el socket está conectado
+   */
+  isRealtimeConnected(): boolean {
+    return this.socket?.connected ?? false
+  }
+
+  /**
+   * Se suscribe a un evento de mensajería en tiempo real
+   * 
+   * @param {K} event - Nombre del evento
+   * @param {MessageSocketEvents[K]} handler - Función que recibe los datos del evento
+   * @returns {() => void} Función para cancelar la suscripción
+   * 
+   * @example
+   * ```typescript
+   * const unsubscribe = messageService.subscribe('message:new', (message) => {
+   *   console.log('Nuevo mensaje de', message.sender.name)
+   * })
+   * 
+   * // Al desmontar el componente
+   * unsubscribe()
+   * ```
+   */
+  subscribe<K extends keyof MessageSocketEvents>(event: K, handler: MessageSocketEvents[K]): () => void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set())
+    }
+
+    const handlers = this.eventHandlers.get(event)!
+    handlers.add(handler as (payload: any) => void)
+
+    return () => {
+      handlers.delete(handler as (payload: any) => void)
+    }
+  }
+
+  /**
+   * Se suscribe a los cambios de estado de la conexión en tiempo real
+   * 
+   * Permite activar el polling como respaldo mientras el socket está caído.
+   * 
+   * @param {(connected: boolean) => void} handler - Función que recibe el nuevo estado
+   * @returns {() => void} Función para cancelar la suscripción
+   */
+  onConnectionChange(handler: (connected: boolean) => void): () => void {
+    this.connectionHandlers.add(handler)
+
+    return () => {
+      this.connectionHandlers.delete(handler)
+    }
+  }
+
+  /**
+   * Notifica un cambio de estado de la conexión a los suscriptores
+   * 
+   * @private
+   * @param {boolean} connected - Nuevo estado de la conexión
+   */
+  private notifyConnection(connected: boolean): void {
+    this.connectionHandlers.forEach(handler => handler(connected))
+  }
 }
 
 /**
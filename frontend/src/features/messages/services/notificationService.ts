@@ -0,0 +1,149 @@
+/**
+ * Servicio de Notificaciones
+ * Maneja las operaciones de API del centro de notificaciones del usuario actual.
+ * Las notificaciones nuevas llegan en tiempo real por el socket de mensajería
+ * (eventos notification:new y notification:read)
+ */
+
+import axios, { type AxiosResponse } from 'axios'
+import { NOTIFICATION_ROUTES } from '@/config/apiRoutes'
+import { processError } from '@/shared/utils/errorHandler'
+import { getAuthHeaders } from '@/features/auth/utils/authUtils'
+
+/**
+ * Tipos de notificación
+ */
+export type NotificationType =
+  | 'message'
+  | 'item_approved'
+  | 'item_rejected'
+  | 'favorite_update'
+  | 'search_match'
+  | 'admin_broadcast'
+
+/**
+ * Interfaz de una notificación guardada
+ * @interface AppNotification
+ * @property {NotificationType} type - Evento que la originó
+ * @property {string} title - Texto principal
+ * @property {string} [body] - Texto secundario
+ * @property {string} [link] - Ruta del frontend a la que lleva la notificación
+ * @property {Record<string, any>} payload - Datos del evento (IDs, estados, etc.)
+ * @property {boolean} read - Leída por el usuario
+ */
+export interface AppNotification {
+  _id: string
+  type: NotificationType
+  title: string
+  body?: string
+  link?: string
+  payload: Record<string, any>
+  read: boolean
+  readAt?: string
+  createdAt: string
+}
+
+/**
+ * Página de notificaciones con el total sin leer
+ * @interface NotificationsPage
+ */
+export interface NotificationsPage {
+  notifications: AppNotification[]
+  total: number
+  unreadCount: number
+  hasNextPage: boolean
+}
+
+/**
+ * Lanza un error con el mensaje de la API y el contexto de la operación
+ * @param {unknown} error - Error capturado
+ * @param {string} context - Operación que ha fallado
+ * @throws {Error} Error con mensaje descriptivo
+ */
+const handleNotificationError = (error: unknown, context: string): never => {
+  const errorResponse = processError(error)
+  throw new Error(`${context}: ${errorResponse.message}`)
+}
+
+/**
+ * Obtiene las notificaciones del usuario actual, de la más reciente a la más antigua
+ * @param {Object} [options] - Opciones de la consulta
+ * @param {number} [options.page=1] - Página
+ * @param {number} [options.limit=20] - Notificaciones por página (máximo 50)
+ * @param {boolean} [options.unread] - Solo las no leídas
+ * @returns {Promise<NotificationsPage>} Notificaciones y total sin leer
+ * @throws {Error} Si ocurre un error al obtener las notificaciones
+ */
+export const getNotifications = async (
+  options: { page?: number; limit?: number; unread?: boolean } = {}
+): Promise<NotificationsPage> => {
+  try {
+    const response: AxiosResponse<{
+      success: boolean
+      total: number
+      unreadCount: number
+      pagination: { hasNextPage: boolean }
+      data: AppNotification[]
+    }> = await axios.get(NOTIFICATION_ROUTES.BASE, {
+      headers: getAuthHeaders(),
+      params: {
+        page: options.page,
+        limit: options.limit,
+        unread: options.unread ? 'true' : undefined
+      }
+    })
+    return {
+      notifications: response.data.data,
+      total: response.data.total,
+      unreadCount: response.data.unreadCount,
+      hasNextPage: response.data.pagination.hasNextPage
+    }
+  } catch (error) {
+    return handleNotificationError(error, 'Error al obtener las notificaciones')
+  }
+}
+
+/**
+ * Marca una notificación como leída
+ * @param {string} id - ID de la notificación
+ * @returns {Promise<number>} Notificaciones que quedan sin leer
+ * @throws {Error} Si la notificación no existe
+ */
+export const markNotificationRead = async (id: string): Promise<number> => {
+  try {
+    const response: AxiosResponse<{ success: boolean; unreadCount: number }> = await axios.patch(
+      NOTIFICATION_ROUTES.READ(id),
+      {},
+      { headers: getAuthHeaders() }
+    )
+    return response.data.unreadCount
+  } catch (error) {
+    return handleNotificationError(error, 'Error al marcar la notificación como leída')
+  }
+}
+
+/**
+ * Marca todas las notificaciones del usuario como leídas
+ * @returns {Promise<void>}
+ * @throws {Error} Si ocurre un error al marcar las notificaciones
+ */
+export const markAllNotificationsRead = async (): Promise<void> => {
+  try {
+    await axios.patch(NOTIFICATION_ROUTES.READ_ALL, {}, {
+      headers: getAuthHeaders()
+    })
+  } catch (error) {
+    handleNotificationError(error, 'Error al marcar las notificaciones como leídas')
+  }
+}
+
+/**
+ * Objeto de servicio que agrupa las operaciones del centro de notificaciones
+ */
+const notificationService = {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+}
+
+export default notificationService
@@ -3,17 +3,21 @@
  * 
  * Este composable proporciona funcionalidades completas para la gestión del perfil
  * de usuario, incluyendo la carga de datos del perfil, actualización de información
- * personal, gestión de artículos publicados y manejo de estados de UI.
+ * personal, gestión de artículos publicados y de su papelera, búsquedas guardadas, favoritos, valoraciones recibidas, sesiones
+ * activas en otros dispositivos, verificación en dos pasos, exportación de datos
+ * personales, eliminación de la cuenta y manejo de estados de UI.
  * 
  * @author Sistema de Gestión de Usuarios
  * @version 1.0.0
  */
 
-import { ref, computed, onMounted, type Ref, type ComputedRef } from 'vue'
+import { ref, computed, onMounted, onUnmounted, type Ref, type ComputedRef } from 'vue'
 import { useRouter } from 'vue-router'
 import { displayError } from '@/shared/utils/errorHandler'
 import axios from 'axios'
-import { userService } from '@/features/users'
+import { userService, type UserRating, type UserReview, type DataExport, type DataExportFormat } from '@/features/users'
+import { authService, useAuthStore, type AuthSession, type TwoFactorSetup } from '@/features/auth'
+import { itemService, savedSearchService, type SavedSearch, type SavedSearchMatch, type FavoriteItem } from '@/features/items'
 import { ITEM_ROUTES } from '@/config/apiRoutes'
 
 /**
@@ -62,6 +66,18 @@ interface Item {
   updatedAt: string;
 }
 
+/**
+ * Artículo de la papelera con su fecha límite de restauración
+ * 
+ * @interface DeletedItem
+ */
+interface DeletedItem extends Item {
+  /** Fecha de eliminación */
+  deletedAt: string;
+  /** Fecha hasta la que se puede restaurar */
+  restorableUntil: string;
+}
+
 /**
  * Interfaz que define el tipo de retorno del composable useProfile
  * 
@@ -73,6 +89,48 @@ interface UseProfileReturn {
   user: Ref<User>;
   /** Lista de artículos del usuario */
   items: Ref<Item[]>;
+  /** Artículos eliminados que el usuario puede restaurar */
+  deletedItems: Ref<DeletedItem[]>;
+  /** ID del artículo que se está restaurando */
+  restoringItemId: Ref<string | null>;
+  /** Búsquedas guardadas del usuario */
+  savedSearches: Ref<SavedSearch[]>;
+  /** Coincidencias cargadas de cada búsqueda guardada */
+  savedSearchMatches: Ref<Record<string, SavedSearchMatch[]>>;
+  /** Artículos que el usuario sigue en favoritos */
+  favoriteItems: Ref<FavoriteItem[]>;
+  /** Usuarios que siguen cada artículo del usuario (por ID de artículo) */
+  favoriteCounts: Ref<Record<string, number>>;
+  /** Valoraciones recibidas por el usuario */
+  reviews: Ref<UserReview[]>;
+  /** Reputación agregada del usuario */
+  rating: Ref<UserRating>;
+  /** Estado de carga de las valoraciones */
+  reviewsLoading: Ref<boolean>;
+  /** Indica si quedan más valoraciones por cargar */
+  hasMoreReviews: Ref<boolean>;
+  /** Sesiones activas del usuario en sus dispositivos */
+  sessions: Ref<AuthSession[]>;
+  /** Estado de carga de las sesiones */
+  sessionsLoading: Ref<boolean>;
+  /** ID de la sesión que se está cerrando */
+  revokingSessionId: Ref<string | null>;
+  /** Indica si la verificación en dos pasos está activada */
+  twoFactorEnabled: Ref<boolean>;
+  /** Secreto y URI de la activación en curso */
+  twoFactorSetup: Ref<TwoFactorSetup | null>;
+  /** Códigos de recuperación recién generados (solo se muestran una vez) */
+  recoveryCodes: Ref<string[]>;
+  /** Estado de carga de las operaciones de verificación en dos pasos */
+  twoFactorLoading: Ref<boolean>;
+  /** Última exportación de datos personales */
+  dataExport: Ref<DataExport | null>;
+  /** Estado de carga de la exportación de datos */
+  dataExportLoading: Ref<boolean>;
+  /** Fecha de la eliminación programada de la cuenta (si la hay) */
+  deletionScheduledFor: Ref<string | null>;
+  /** Estado de carga de la eliminación de la cuenta */
+  deletionLoading: Ref<boolean>;
   /** Estado de carga */
   isLoading: Ref<boolean>;
   /** Mensaje de error */
@@ -95,6 +153,50 @@ interface UseProfileReturn {
   fetchUserData: () => Promise<void>;
   /** Función para cargar artículos del usuario */
   fetchUserItems: () => Promise<void>;
+  /** Función para cargar la papelera del usuario */
+  fetchDeletedItems: () => Promise<void>;
+  /** Función para restaurar un artículo de la papelera */
+  restoreItem: (itemId: string) => Promise<void>;
+  /** Función para cargar las búsquedas guardadas */
+  fetchSavedSearches: () => Promise<void>;
+  /** Función para mostrar u ocultar los artículos que coinciden con una búsqueda */
+  toggleSavedSearchMatches: (searchId: string) => Promise<void>;
+  /** Función para activar o desactivar el resumen por email de una búsqueda */
+  toggleSavedSearchDigest: (search: SavedSearch) => Promise<void>;
+  /** Función para borrar una búsqueda guardada */
+  deleteSavedSearch: (searchId: string) => Promise<void>;
+  /** Función para cargar los favoritos y los favoritos de los artículos propios */
+  fetchFavorites: () => Promise<void>;
+  /** Función para quitar un artículo de favoritos */
+  removeFavorite: (itemId: string) => Promise<void>;
+  /** Función para cargar valoraciones del usuario */
+  fetchUserReviews: (userId: string, page?: number) => Promise<void>;
+  /** Función para cargar la siguiente página de valoraciones */
+  loadMoreReviews: () => Promise<void>;
+  /** Función para cargar las sesiones activas */
+  fetchSessions: () => Promise<void>;
+  /** Función para cerrar la sesión de otro dispositivo */
+  revokeSession: (session: AuthSession) => Promise<void>;
+  /** Función para cerrar la sesión en todos los dispositivos */
+  logoutAllDevices: () => Promise<void>;
+  /** Función para iniciar la activación de la verificación en dos pasos */
+  startTwoFactorSetup: () => Promise<void>;
+  /** Función para confirmar la activación con un código de la aplicación */
+  confirmTwoFactor: (code: string) => Promise<void>;
+  /** Función para desactivar la verificación en dos pasos */
+  disableTwoFactor: (password: string, code: string) => Promise<void>;
+  /** Función para generar nuevos códigos de recuperación */
+  regenerateRecoveryCodes: (password: string, code: string) => Promise<void>;
+  /** Función para consultar la última exportación de datos */
+  fetchDataExport: () => Promise<void>;
+  /** Función para solicitar una exportación de datos */
+  requestDataExport: (format: DataExportFormat) => Promise<void>;
+  /** Función para descargar la exportación de datos */
+  downloadDataExport: () => Promise<void>;
+  /** Función para solicitar la eliminación de la cuenta */
+  requestAccountDeletion: (password: string) => Promise<void>;
+  /** Función para cancelar la eliminación de la cuenta */
+  cancelAccountDeletion: () => Promise<void>;
   /** Función para guardar cambios del perfil */
   handleProfileSave: (profileData: Partial<User>) => Promise<void>;
   /** Función para abrir modal de edición de artículo */
@@ -160,6 +262,54 @@ export function useProfile(): UseProfileReturn {
   
   /** Lista de artículos publicados por el usuario */
   const items = ref<Item[]>([])
+  /** Artículos de la papelera del usuario */
+  const deletedItems = ref<DeletedItem[]>([])
+  /** ID del artículo que se está restaurando */
+  const restoringItemId = ref<string | null>(null)
+  /** Búsquedas guardadas del usuario */
+  const savedSearches = ref<SavedSearch[]>([])
+  /** Coincidencias cargadas de cada búsqueda guardada (por ID de búsqueda) */
+  const savedSearchMatches = ref<Record<string, SavedSearchMatch[]>>({})
+  /** Artículos que el usuario sigue en favoritos */
+  const favoriteItems = ref<FavoriteItem[]>([])
+  /** Usuarios que siguen cada artículo del usuario (por ID de artículo) */
+  const favoriteCounts = ref<Record<string, number>>({})
+  /** Valoraciones recibidas por el usuario */
+  const reviews = ref<UserReview[]>([])
+  /** Reputación agregada del usuario */
+  const rating = ref<UserRating>({ average: 0, count: 0 })
+  /** Indicador de carga de las valoraciones */
+  const reviewsLoading = ref<boolean>(false)
+  /** Página actual de valoraciones */
+  const reviewsPage = ref<number>(1)
+  /** Indica si quedan más valoraciones por cargar */
+  const hasMoreReviews = ref<boolean>(false)
+  /** Sesiones activas del usuario */
+  const sessions = ref<AuthSession[]>([])
+  /** Indicador de carga de las sesiones */
+  const sessionsLoading = ref<boolean>(false)
+  /** ID de la sesión que se está cerrando */
+  const revokingSessionId = ref<string | null>(null)
+  /** Verificación en dos pasos activada */
+  const twoFactorEnabled = ref<boolean>(false)
+  /** Activación de la verificación en dos pasos en curso */
+  const twoFactorSetup = ref<TwoFactorSetup | null>(null)
+  /** Códigos de recuperación recién generados */
+  const recoveryCodes = ref<string[]>([])
+  /** Indicador de carga de la verificación en dos pasos */
+  const twoFactorLoading = ref<boolean>(false)
+  /** Última exportación de datos personales */
+  const dataExport = ref<DataExport | null>(null)
+  /** Indicador de carga de la exportación de datos */
+  const dataExportLoading = ref<boolean>(false)
+  /** Fecha de la eliminación programada de la cuenta */
+  const deletionScheduledFor = ref<string | null>(null)
+  /** Indicador de carga de la eliminación de la cuenta */
+  const deletionLoading = ref<boolean>(false)
+  /** Temporizador de la consulta del estado de la exportación */
+  let dataExportTimer: ReturnType<typeof setTimeout> | null = null
+  /** ID del usuario cuyo perfil se muestra */
+  const profileUserId = ref<string>('')
   /** Indicador de estado de carga */
   const isLoading = ref<boolean>(false)
   /** Mensaje de error en caso de fallo */
@@ -236,10 +386,22 @@ export function useProfile(): UseProfileReturn {
             new Date(backendUser.createdAt).toLocaleDateString('es-ES') : 
             new Date().toLocaleDateString('es-ES')
         }
+        rating.value = backendUser.rating || { average: 0, count: 0 }
+        profileUserId.value = backendUser._id || backendUser.id || ''
+        twoFactorEnabled.value = !!backendUser.twoFactorEnabled
+        deletionScheduledFor.value = backendUser.deletionScheduledFor || null
       }
       
-      // Obtener artículos del usuario
-      await fetchUserItems()
+      // Obtener artículos y valoraciones del usuario
+      await Promise.all([
+        fetchUserItems(),
+        fetchDeletedItems(),
+        fetchSavedSearches(),
+        fetchFavorites(),
+        profileUserId.value ? fetchUserReviews(profileUserId.value) : Promise.resolve(),
+        fetchSessions(),
+        fetchDataExport()
+      ])
       
     } catch (err) {
       console.error('Error al cargar datos del usuario:', err)
@@ -301,6 +463,52 @@ export function useProfile(): UseProfileReturn {
     }
   }
   
+  /**
+   * Obtiene las valoraciones recibidas por el usuario
+   * 
+   * La primera página sustituye a la lista actual; las siguientes se añaden
+   * al final. La reputación agregada se actualiza con cada respuesta.
+   * 
+   * @async
+   * @function fetchUserReviews
+   * @param {string} userId - ID del usuario valorado
+   * @param {number} page - Página a cargar (por defecto 1)
+   * @returns {Promise<void>}
+   */
+  const fetchUserReviews = async (userId: string, page: number = 1): Promise<void> => {
+    try {
+      reviewsLoading.value = true
+      
+      const response = await userService.getUserReviews(userId, { page })
+      if (!response.success) {
+        return
+      }
+      
+      reviews.value = page === 1 ? response.data : [...reviews.value, ...response.data]
+      rating.value = response.rating
+      reviewsPage.value = response.pagination.page
+      hasMoreReviews.value = response.pagination.page < response.pagination.pages
+      
+    } catch (err) {
+      console.error('Error al cargar valoraciones del usuario:', err)
+      handleError(err, 'Error al cargar las valoraciones')
+    } finally {
+      reviewsLoading.value = false
+    }
+  }
+  
+  /**
+   * Carga la siguiente página de valoraciones
+   * 
+   * @async
+   * @function loadMoreReviews
+   * @returns {Promise<void>}
+   */
+  const loadMoreReviews = async (): Promise<void> => {
+    if (!profileUserId.value || !hasMoreReviews.value || reviewsLoading.value) return
+    await fetchUserReviews(profileUserId.value, reviewsPage.value + 1)
+  }
+  
   /**
    * Maneja la actualización del perfil del usuario
    * 
@@ -376,7 +584,7 @@ export function useProfile(): UseProfileReturn {
    * @returns {Promise<void>}
    */
   const deleteItem = async (itemId: number): Promise<void> => {
-    if (!confirm('¿Estás seguro de que quieres eliminar este artículo?')) {
+    if (!confirm('¿Quieres eliminar este artículo? Irá a la papelera y podrás restaurarlo durante un tiempo.')) {
       return
     }
     
@@ -393,8 +601,9 @@ export function useProfile(): UseProfileReturn {
         }
       })
       
-      // Remover el artículo de la lista local
+      // Remover el artículo de la lista local y mostrarlo en la papelera
       items.value = items.value.filter(item => item._id !== itemId.toString())
+      await fetchDeletedItems()
       
     } catch (err) {
       console.error('Error al eliminar artículo:', err)
@@ -402,6 +611,185 @@ export function useProfile(): UseProfileReturn {
     }
   }
   
+  /**
+   * Obtiene los artículos de la papelera que el usuario puede restaurar
+   * 
+   * @async
+   * @function fetchDeletedItems
+   * @returns {Promise<void>}
+   */
+  const fetchDeletedItems = async (): Promise<void> => {
+    try {
+      const token = localStorage.getItem('token')
+      if (!token) return
+      
+      const response = await axios.get(ITEM_ROUTES.DELETED, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+      deletedItems.value = response.data?.data || []
+    } catch (err) {
+      // La papelera es secundaria: no se bloquea el perfil si falla
+      console.error('Error al cargar la papelera:', err)
+      deletedItems.value = []
+    }
+  }
+  
+  /**
+   * Obtiene las búsquedas guardadas del usuario con sus coincidencias nuevas
+   * 
+   * @async
+   * @function fetchSavedSearches
+   * @returns {Promise<void>}
+   */
+  const fetchSavedSearches = async (): Promise<void> => {
+    try {
+      savedSearches.value = await savedSearchService.getSavedSearches()
+    } catch (err) {
+      // Las búsquedas guardadas son secundarias: no se bloquea el perfil si fallan
+      console.error('Error al cargar las búsquedas guardadas:', err)
+      savedSearches.value = []
+    }
+  }
+  
+  /**
+   * Muestra u oculta los artículos que coinciden con una búsqueda guardada
+   * Al cargarlos, la búsqueda queda revisada y deja de tener coincidencias nuevas
+   * 
+   * @async
+   * @function toggleSavedSearchMatches
+   * @param {string} searchId - ID de la búsqueda
+   * @returns {Promise<void>}
+   */
+  const toggleSavedSearchMatches = async (searchId: string): Promise<void> => {
+    if (savedSearchMatches.value[searchId]) {
+      const { [searchId]: _hidden, ...rest } = savedSearchMatches.value
+      savedSearchMatches.value = rest
+      return
+    }
+    
+    try {
+      const matches = await savedSearchService.getSavedSearchMatches(searchId)
+      savedSearchMatches.value = { ...savedSearchMatches.value, [searchId]: matches }
+      savedSearches.value = savedSearches.value.map(search =>
+        search._id === searchId ? { ...search, newMatches: 0 } : search
+      )
+    } catch (err) {
+      handleError(err, 'Error al cargar los artículos de la búsqueda')
+    }
+  }
+  
+  /**
+   * Activa o desactiva el resumen por email de una búsqueda guardada
+   * 
+   * @async
+   * @function toggleSavedSearchDigest
+   * @param {SavedSearch} search - Búsqueda a modificar
+   * @returns {Promise<void>}
+   */
+  const toggleSavedSearchDigest = async (search: SavedSearch): Promise<void> => {
+    try {
+      const updated = await savedSearchService.updateSavedSearch(search._id, { emailDigest: !search.emailDigest })
+      savedSearches.value = savedSearches.value.map(item => item._id === updated._id ? updated : item)
+    } catch (err) {
+      handleError(err, 'Error al modificar la búsqueda')
+    }
+  }
+  
+  /**
+   * Borra una búsqueda guardada tras pedir confirmación
+   * 
+   * @async
+   * @function deleteSavedSearch
+   * @param {string} searchId - ID de la búsqueda
+   * @returns {Promise<void>}
+   */
+  const deleteSavedSearch = async (searchId: string): Promise<void> => {
+    if (!confirm('¿Borrar esta búsqueda guardada? Dejarás de recibir avisos de artículos nuevos.')) {
+      return
+    }
+    
+    try {
+      await savedSearchService.deleteSavedSearch(searchId)
+      savedSearches.value = savedSearches.value.filter(search => search._id !== searchId)
+    } catch (err) {
+      handleError(err, 'Error al borrar la búsqueda')
+    }
+  }
+  
+  /**
+   * Obtiene los favoritos del usuario y cuántos usuarios siguen sus artículos
+   * 
+   * @async
+   * @function fetchFavorites
+   * @returns {Promise<void>}
+   */
+  const fetchFavorites = async (): Promise<void> => {
+    try {
+      const [favorites, counts] = await Promise.all([
+        itemService.getFavoriteItems(),
+        itemService.getFavoriteCounts()
+      ])
+      favoriteItems.value = favorites
+      favoriteCounts.value = counts
+    } catch (err) {
+      // Los favoritos son secundarios: no se bloquea el perfil si fallan
+      console.error('Error al cargar los favoritos:', err)
+      favoriteItems.value = []
+      favoriteCounts.value = {}
+    }
+  }
+  
+  /**
+   * Quita un artículo de favoritos y lo saca de la lista
+   * 
+   * @async
+   * @function removeFavorite
+   * @param {string} itemId - ID del artículo
+   * @returns {Promise<void>}
+   */
+  const removeFavorite = async (itemId: string): Promise<void> => {
+    try {
+      await itemService.removeFavorite(itemId)
+      favoriteItems.value = favoriteItems.value.filter(item => item._id !== itemId)
+    } catch (err) {
+      handleError(err, 'Error al quitar el artículo de favoritos')
+    }
+  }
+  
+  /**
+   * Restaura un artículo de la papelera y lo devuelve a la lista
+   * 
+   * @async
+   * @function restoreItem
+   * @param {string} itemId - ID del artículo a restaurar
+   * @returns {Promise<void>}
+   */
+  const restoreItem = async (itemId: string): Promise<void> => {
+    try {
+      restoringItemId.value = itemId
+      const token = localStorage.getItem('token')
+      if (!token) {
+        router.push('/login')
+        return
+      }
+      
+      await axios.patch(ITEM_ROUTES.RESTORE(itemId), {}, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+      
+      deletedItems.value = deletedItems.value.filter(item => item._id !== itemId)
+      await fetchUserItems()
+    } catch (err) {
+      handleError(err, 'Error al restaurar el artículo')
+    } finally {
+      restoringItemId.value = null
+    }
+  }
+  
   /**
    * Maneja errores de manera consistente
    * 
@@ -431,15 +819,329 @@ export function useProfile(): UseProfileReturn {
     displayError(new Error(errorMessage), { customMessage: errorMessage })
   }
   
+  /**
+   * Obtiene las sesiones activas del usuario
+   * 
+   * @async
+   * @function fetchSessions
+   * @returns {Promise<void>}
+   */
+  const fetchSessions = async (): Promise<void> => {
+    try {
+      sessionsLoading.value = true
+      sessions.value = await authService.getSessions()
+    } catch (err) {
+      console.error('Error al cargar las sesiones:', err)
+    } finally {
+      sessionsLoading.value = false
+    }
+  }
+  
+  /**
+   * Cierra la sesión de otro dispositivo
+   * 
+   * @async
+   * @function revokeSession
+   * @param {AuthSession} session - Sesión a cerrar
+   * @returns {Promise<void>}
+   */
+  const revokeSession = async (session: AuthSession): Promise<void> => {
+    try {
+      revokingSessionId.value = session._id
+      await authService.revokeSession(session._id)
+      sessions.value = sessions.value.filter(s => s._id !== session._id)
+    } catch (err) {
+      handleError(err, 'Error al cerrar la sesión')
+    } finally {
+      revokingSessionId.value = null
+    }
+  }
+  
+  /**
+   * Cierra la sesión en todos los dispositivos, incluido el actual
+   * 
+   * @async
+   * @function logoutAllDevices
+   * @returns {Promise<void>}
+   */
+  const logoutAllDevices = async (): Promise<void> => {
+    if (!confirm('¿Cerrar la sesión en todos tus dispositivos, incluido este?')) {
+      return
+    }
+    
+    try {
+      await authService.logoutAllDevices()
+      useAuthStore().clearAuth()
+      router.push('/login')
+    } catch (err) {
+      handleError(err, 'Error al cerrar las sesiones')
+    }
+  }
+  
+  /**
+   * Refleja el estado de la verificación en dos pasos en el perfil y en el store
+   * 
+   * @function setTwoFactorEnabled
+   * @param {boolean} enabled - Nuevo estado
+   */
+  const setTwoFactorEnabled = (enabled: boolean): void => {
+    twoFactorEnabled.value = enabled
+    const authStore = useAuthStore()
+    if (authStore.token && authStore.user) {
+      authStore.saveAuth(authStore.token, { ...authStore.user, twoFactorEnabled: enabled })
+    }
+  }
+  
+  /**
+   * Genera el secreto con el que se configura la aplicación de autenticación
+   * 
+   * @async
+   * @function startTwoFactorSetup
+   * @returns {Promise<void>}
+   */
+  const startTwoFactorSetup = async (): Promise<void> => {
+    try {
+      twoFactorLoading.value = true
+      recoveryCodes.value = []
+      twoFactorSetup.value = await authService.setupTwoFactor()
+    } catch (err) {
+      handleError(err, 'Error al preparar la verificación en dos pasos')
+    } finally {
+      twoFactorLoading.value = false
+    }
+  }
+  
+  /**
+   * Activa la verificación en dos pasos con el primer código de la aplicación
+   * 
+   * @async
+   * @function confirmTwoFactor
+   * @param {string} code - Código de 6 dígitos
+   * @returns {Promise<void>}
+   */
+  const confirmTwoFactor = async (code: string): Promise<void> => {
+    try {
+      twoFactorLoading.value = true
+      recoveryCodes.value = await authService.enableTwoFactor(code)
+      twoFactorSetup.value = null
+      setTwoFactorEnabled(true)
+    } catch (err) {
+      handleError(err, 'El código no es válido')
+    } finally {
+      twoFactorLoading.value = false
+    }
+  }
+  
+  /**
+   * Desactiva la verificación en dos pasos
+   * 
+   * @async
+   * @function disableTwoFactor
+   * @param {string} password - Contraseña actual
+   * @param {string} code - Código de la aplicación o de recuperación
+   * @returns {Promise<void>}
+   */
+  const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+    try {
+      twoFactorLoading.value = true
+      await authService.disableTwoFactor(password, code)
+      recoveryCodes.value = []
+      setTwoFactorEnabled(false)
+    } catch (err) {
+      handleError(err, 'Error al desactivar la verificación en dos pasos')
+    } finally {
+      twoFactorLoading.value = false
+    }
+  }
+  
+  /**
+   * Sustituye los códigos de recuperación por otros nuevos
+   * 
+   * @async
+   * @function regenerateRecoveryCodes
+   * @param {string} password - Contraseña actual
+   * @param {string} code - Código de la aplicación o de recuperación
+   * @returns {Promise<void>}
+   */
+  const regenerateRecoveryCodes = async (password: string, code: string): Promise<void> => {
+    try {
+      twoFactorLoading.value = true
+      recoveryCodes.value = await authService.regenerateRecoveryCodes(password, code)
+    } catch (err) {
+      handleError(err, 'Error al generar los códigos de recuperación')
+    } finally {
+      twoFactorLoading.value = false
+    }
+  }
+  
+  /** Milisegundos entre consultas del estado de una exportación en curso */
+  const DATA_EXPORT_POLL_MS = 3000
+  
+  /**
+   * Consulta el estado de la exportación mientras se genera en segundo plano
+   * 
+   * @function scheduleDataExportPoll
+   */
+  const scheduleDataExportPoll = (): void => {
+    if (dataExportTimer) {
+      clearTimeout(dataExportTimer)
+      dataExportTimer = null
+    }
+    
+    const status = dataExport.value?.status
+    if (status === 'pending' || status === 'processing') {
+      dataExportTimer = setTimeout(fetchDataExport, DATA_EXPORT_POLL_MS)
+    }
+  }
+  
+  /**
+   * Obtiene la última exportación de datos personales del usuario
+   * 
+   * @async
+   * @function fetchDataExport
+   * @returns {Promise<void>}
+   */
+  const fetchDataExport = async (): Promise<void> => {
+    const response = await userService.getDataExport()
+    if (response.success) {
+      dataExport.value = response.data
+      scheduleDataExportPoll()
+    }
+  }
+  
+  /**
+   * Solicita una exportación de los datos personales
+   * 
+   * @async
+   * @function requestDataExport
+   * @param {DataExportFormat} format - json o zip
+   * @returns {Promise<void>}
+   */
+  const requestDataExport = async (format: DataExportFormat): Promise<void> => {
+    try {
+      dataExportLoading.value = true
+      const response = await userService.requestDataExport(format)
+      if (!response.success) {
+        throw new Error(response.error)
+      }
+      dataExport.value = response.data
+      scheduleDataExportPoll()
+    } catch (err) {
+      handleError(err, 'Error al solicitar la exportación de tus datos')
+    } finally {
+      dataExportLoading.value = false
+    }
+  }
+  
+  /**
+   * Descarga el archivo de la exportación de datos
+   * 
+   * @async
+   * @function downloadDataExport
+   * @returns {Promise<void>}
+   */
+  const downloadDataExport = async (): Promise<void> => {
+    try {
+      dataExportLoading.value = true
+      const response = await userService.downloadDataExport()
+      if (!response.success) {
+        throw new Error(response.error)
+      }
+      
+      const url = URL.createObjectURL(response.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = dataExport.value?.fileName || `ecommunitas-mis-datos.${dataExport.value?.format || 'zip'}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      handleError(err, 'Error al descargar la exportación de tus datos')
+    } finally {
+      dataExportLoading.value = false
+    }
+  }
+  
+  /**
+   * Solicita la eliminación de la cuenta tras confirmar la contraseña
+   * 
+   * @async
+   * @function requestAccountDeletion
+   * @param {string} password - Contraseña actual
+   * @returns {Promise<void>}
+   */
+  const requestAccountDeletion = async (password: string): Promise<void> => {
+    try {
+      deletionLoading.value = true
+      const response = await userService.deleteMyAccount(password)
+      if (!response.success) {
+        throw new Error(response.error)
+      }
+      deletionScheduledFor.value = response.data.deletionScheduledFor
+    } catch (err) {
+      handleError(err, 'Error al solicitar la eliminación de tu cuenta')
+    } finally {
+      deletionLoading.value = false
+    }
+  }
+  
+  /**
+   * Cancela la eliminación programada de la cuenta
+   * 
+   * @async
+   * @function cancelAccountDeletion
+   * @returns {Promise<void>}
+   */
+  const cancelAccountDeletion = async (): Promise<void> => {
+    try {
+      deletionLoading.value = true
+      const response = await userService.cancelAccountDeletion()
+      if (!response.success) {
+        throw new Error((response as { error: string }).error)
+      }
+      deletionScheduledFor.value = null
+    } catch (err) {
+      handleError(err, 'Error al cancelar la eliminación de tu cuenta')
+    } finally {
+      deletionLoading.value = false
+    }
+  }
+  
   // Inicialización
   onMounted(() => {
     fetchUserData()
   })
   
+  onUnmounted(() => {
+    if (dataExportTimer) {
+      clearTimeout(dataExportTimer)
+    }
+  })
+  
   return {
     // Estado reactivo del usuario
     user,                    // Datos del perfil del usuario
     items,                   // Artículos publicados por el usuario
+    deletedItems,            // Artículos de la papelera
+    restoringItemId,         // Artículo que se está restaurando
+    savedSearches,           // Búsquedas guardadas
+    savedSearchMatches,      // Coincidencias cargadas de cada búsqueda
+    favoriteItems,           // Artículos seguidos en favoritos
+    favoriteCounts,          // Favoritos de cada artículo propio
+    reviews,                 // Valoraciones recibidas por el usuario
+    rating,                  // Reputación agregada del usuario
+    reviewsLoading,          // Estado de carga de las valoraciones
+    hasMoreReviews,          // Quedan más valoraciones por cargar
+    sessions,                // Sesiones activas en otros dispositivos
+    sessionsLoading,         // Estado de carga de las sesiones
+    revokingSessionId,       // Sesión que se está cerrando
+    twoFactorEnabled,        // Verificación en dos pasos activada
+    twoFactorSetup,          // Activación en curso
+    recoveryCodes,           // Códigos de recuperación recién generados
+    twoFactorLoading,        // Estado de carga de la verificación en dos pasos
+    dataExport,              // Última exportación de datos personales
+    dataExportLoading,       // Estado de carga de la exportación de datos
+    deletionScheduledFor,    // Fecha de la eliminación programada de la cuenta
+    deletionLoading,         // Estado de carga de la eliminación de la cuenta
     isLoading,              // Estado de carga
     error,                  // Mensajes de error
     
@@ -455,12 +1157,34 @@ export function useProfile(): UseProfileReturn {
     // Métodos de datos
     fetchUserData,          // Cargar datos del usuario y artículos
     fetchUserItems,         // Cargar solo artículos del usuario
+    fetchDeletedItems,      // Cargar la papelera del usuario
+    fetchSavedSearches,     // Cargar las búsquedas guardadas
+    fetchFavorites,         // Cargar los favoritos
+    fetchUserReviews,       // Cargar valoraciones del usuario
+    loadMoreReviews,        // Cargar más valoraciones
+    fetchSessions,          // Cargar sesiones activas
+    revokeSession,          // Cerrar la sesión de otro dispositivo
+    logoutAllDevices,       // Cerrar la sesión en todos los dispositivos
+    startTwoFactorSetup,    // Preparar la verificación en dos pasos
+    confirmTwoFactor,       // Activar la verificación en dos pasos
+    disableTwoFactor,       // Desactivar la verificación en dos pasos
+    regenerateRecoveryCodes, // Generar nuevos códigos de recuperación
+    fetchDataExport,        // Consultar la exportación de datos
+    requestDataExport,      // Solicitar una exportación de datos
+    downloadDataExport,     // Descargar la exportación de datos
+    requestAccountDeletion, // Solicitar la eliminación de la cuenta
+    cancelAccountDeletion,  // Cancelar la eliminación de la cuenta
     
     // Métodos de gestión
     handleProfileSave,      // Guardar cambios del perfil
     openEditItemModal,      // Abrir modal de edición de artículo
     handleItemSave,         // Guardar cambios de artículo
-    deleteItem,             // Eliminar artículo
+    deleteItem,             // Enviar artículo a la papelera
+    restoreItem,            // Restaurar artículo de la papelera
+    toggleSavedSearchMatches, // Mostrar los artículos de una búsqueda guardada
+    toggleSavedSearchDigest, // Activar o desactivar el resumen por email
+    deleteSavedSearch,      // Borrar una búsqueda guardada
+    removeFavorite,         // Quitar un artículo de favoritos
     
     // Utilidades
     handleError             // Manejo centralizado de errores
@@ -260,7 +260,16 @@ export type {
   UsersResponse,
   UserResponse,
   UserItemsResponse,
-  UserTradesResponse
+  UserTradesResponse,
+  UserRating,
+  UserReview,
+  CreateReviewData,
+  UserReviewsResponse,
+  ReportTargetType,
+  ReportReason,
+  CreateReportData,
+  DataExportFormat,
+  DataExport
 } from './services/userService'
 
 export type {
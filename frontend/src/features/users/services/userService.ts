@@ -26,7 +26,7 @@
  */
 
 import axios, { AxiosResponse } from 'axios'
-import { USER_ROUTES, ITEM_ROUTES } from '@/config/apiRoutes'
+import { USER_ROUTES, ITEM_ROUTES, REPORT_ROUTES } from '@/config/apiRoutes'
 import { processError, handleAuthError } from '@/shared/utils/errorHandler'
 import { getAuthHeaders, getAuthHeadersFormData } from '@/features/auth/utils/authUtils'
 
@@ -67,6 +67,20 @@ export interface User {
   lastLogin?: string
   /** Preferencias personalizadas del usuario (opcional) */
   preferences?: UserPreferences
+  /** Reputación agregada del usuario (opcional) */
+  rating?: UserRating
+}
+
+/**
+ * Interfaz para la reputación agregada de un usuario
+ * 
+ * @interface UserRating
+ */
+export interface UserRating {
+  /** Media de las puntuaciones (0 si no hay valoraciones) */
+  average: number
+  /** Número de valoraciones recibidas */
+  count: number
 }
 
 /**
@@ -172,17 +186,27 @@ export interface UserItem {
  */
 export interface UserTrade {
   /** Identificador único del intercambio */
-  id: string
+  _id: string
   /** Estado actual del intercambio */
-  status: string
-  /** ID del usuario que inició el intercambio */
-  initiatedBy: string
-  /** ID del usuario que respondió al intercambio */
-  respondedBy: string
-  /** Artículo ofrecido en el intercambio */
-  itemOffered: UserItem
+  status: 'proposed' | 'accepted' | 'rejected' | 'countered' | 'completed' | 'cancelled'
+  /** Usuario que propuso el intercambio */
+  proposer: Pick<User, '_id' | 'name' | 'avatar'>
+  /** Usuario propietario del artículo solicitado */
+  recipient: Pick<User, '_id' | 'name' | 'avatar'>
+  /** Artículos ofrecidos por el proponente */
+  offeredItems: UserItem[]
   /** Artículo solicitado en el intercambio */
-  itemRequested: UserItem
+  requestedItem: UserItem
+  /** Mensaje que acompaña a la propuesta (opcional) */
+  message?: string
+  /** ID de la propuesta a la que responde esta contraoferta (opcional) */
+  counterOf?: string
+  /** ID de la contraoferta generada a partir de esta propuesta (opcional) */
+  counteredBy?: string
+  /** Historial de cambios de estado */
+  statusHistory: Array<{ status: UserTrade['status']; changedBy: string; changedAt: string }>
+  /** Fecha de finalización del intercambio (opcional) */
+  completedAt?: string
   /** Fecha de creación del intercambio */
   createdAt: string
   /** Fecha de última actualización del intercambio */
@@ -284,6 +308,140 @@ export interface UserTradesResponse {
   }
 }
 
+/**
+ * Interfaz para una valoración recibida por un usuario
+ * 
+ * @interface UserReview
+ */
+export interface UserReview {
+  /** Identificador único de la valoración */
+  _id: string
+  /** Usuario que escribió la valoración */
+  reviewer: {
+    _id: string
+    name: string
+    avatar?: string
+  }
+  /** Puntuación de 1 a 5 */
+  rating: number
+  /** Comentario de la valoración (opcional) */
+  comment?: string
+  /** Artículo sobre el que se conversó */
+  item?: {
+    _id: string
+    title: string
+  }
+  /** Intercambio valorado (opcional) */
+  trade?: {
+    _id: string
+    status: string
+  }
+  /** Fecha de creación */
+  createdAt: string
+}
+
+/**
+ * Interfaz para datos de creación de una valoración
+ * 
+ * Se debe indicar el artículo sobre el que se conversó o el intercambio.
+ * 
+ * @interface CreateReviewData
+ */
+export interface CreateReviewData {
+  /** Puntuación de 1 a 5 */
+  rating: number
+  /** Comentario opcional */
+  comment?: string
+  /** ID del artículo sobre el que se conversó */
+  itemId?: string
+  /** ID del intercambio valorado */
+  tradeId?: string
+}
+
+/**
+ * Interfaz para respuesta de valoraciones de usuario
+ * 
+ * @interface UserReviewsResponse
+ */
+export interface UserReviewsResponse {
+  /** Estado de éxito de la operación */
+  success: boolean
+  /** Número de valoraciones devueltas */
+  count: number
+  /** Reputación agregada del usuario */
+  rating: UserRating
+  /** Valoraciones de la página actual */
+  data: UserReview[]
+  /** Información de paginación */
+  pagination: {
+    /** Página actual */
+    page: number
+    /** Límite de resultados por página */
+    limit: number
+    /** Total de valoraciones */
+    total: number
+    /** Total de páginas disponibles */
+    pages: number
+  }
+}
+
+/**
+ * Tipo de contenido que un usuario puede denunciar
+ */
+export type ReportTargetType = 'item' | 'user' | 'message'
+
+/**
+ * Motivo de una denuncia
+ */
+export type ReportReason = 'spam' | 'inappropriate' | 'fraud' | 'harassment' | 'prohibited_item' | 'other'
+
+/**
+ * Interfaz para datos de creación de una denuncia
+ * 
+ * @interface CreateReportData
+ */
+export interface CreateReportData {
+  /** Tipo de contenido denunciado */
+  targetType: ReportTargetType
+  /** ID del artículo, usuario o mensaje denunciado */
+  targetId: string
+  /** Motivo de la denuncia */
+  reason: ReportReason
+  /** Explicación adicional (opcional) */
+  details?: string
+}
+
+/**
+ * Formato del archivo de exportación de datos personales
+ */
+export type DataExportFormat = 'json' | 'zip'
+
+/**
+ * Interfaz para una exportación de datos personales
+ * 
+ * @interface DataExport
+ */
+export interface DataExport {
+  /** Identificador de la exportación */
+  _id: string
+  /** Formato del archivo */
+  format: DataExportFormat
+  /** Estado de la generación */
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  /** Nombre del archivo descargable */
+  fileName?: string
+  /** Tamaño del archivo en bytes */
+  size?: number
+  /** Motivo del fallo */
+  error?: string
+  /** Fecha en la que terminó la generación */
+  completedAt?: string
+  /** Fecha hasta la que se puede descargar */
+  expiresAt?: string
+  /** Fecha de la solicitud */
+  createdAt: string
+}
+
 /**
  * Clase de Servicio de Usuarios
  * 
@@ -295,6 +453,8 @@ export interface UserTradesResponse {
  * - Obtener y actualizar perfiles de usuario
  * - Gestionar artículos de usuario
  * - Consultar historial de intercambios
+ * - Exportar los datos personales del usuario actual
+ * - Eliminar la cuenta del usuario actual (con periodo de gracia)
  * - Funciones administrativas (solo admin)
  * - Búsqueda y filtrado de usuarios
  * - Estadísticas de usuario
@@ -516,7 +676,8 @@ class UserService {
    * @param {Object} params - Parámetros de consulta opcionales
    * @param {number} params.page - Número de página
    * @param {number} params.limit - Límite de resultados por página
-   * @param {string} params.status - Filtrar por estado del intercambio
+   * @param {string} params.status - Filtrar por estado del intercambio (admite varios separados por comas)
+   * @param {'sent'|'received'|'all'} params.role - Filtrar por intercambios propuestos o recibidos
    * @returns {Promise<UserTradesResponse | {success: false, error: string, data: null}>} Historial de intercambios
    * @throws {Error} Si ocurre un error al obtener los intercambios
    * 
@@ -539,6 +700,7 @@ class UserService {
       page?: number
       limit?: number
       status?: string
+      role?: 'sent' | 'received' | 'all'
     }
   ): Promise<UserTradesResponse | { success: false; error: string; data: null }> {
     try {
@@ -555,6 +717,217 @@ class UserService {
     }
   }
 
+  /**
+   * Obtiene las valoraciones recibidas por un usuario
+   * 
+   * @param {string} userId - ID del usuario valorado
+   * @param {Object} params - Parámetros de paginación opcionales
+   * @param {number} params.page - Número de página
+   * @param {number} params.limit - Límite de resultados por página
+   * @returns {Promise<UserReviewsResponse | {success: false, error: string, data: null}>} Valoraciones y reputación agregada
+   * 
+   * @example
+   * ```typescript
+   * const reviews = await userService.getUserReviews('user123')
+   * console.log(`${reviews.rating.average} (${reviews.rating.count} valoraciones)`)
+   * ```
+   */
+  async getUserReviews(
+    userId: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<UserReviewsResponse | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<UserReviewsResponse> = await axios.get(
+        USER_ROUTES.REVIEWS(userId),
+        {
+          headers: getAuthHeaders(),
+          params
+        }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al cargar las valoraciones')
+    }
+  }
+
+  /**
+   * Valora a un usuario tras conversar sobre un artículo o cerrar un intercambio
+   * 
+   * @param {string} userId - ID del usuario valorado
+   * @param {CreateReviewData} reviewData - Puntuación, comentario y artículo o intercambio
+   * @returns {Promise<{success: true, data: UserReview} | {success: false, error: string, data: null}>} Valoración creada
+   * 
+   * @example
+   * ```typescript
+   * await userService.createReview('user123', { itemId: 'item456', rating: 5, comment: 'Muy puntual' })
+   * ```
+   */
+  async createReview(
+    userId: string,
+    reviewData: CreateReviewData
+  ): Promise<{ success: true; data: UserReview } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: true; data: UserReview }> = await axios.post(
+        USER_ROUTES.REVIEWS(userId),
+        reviewData,
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al enviar la valoración')
+    }
+  }
+
+  /**
+   * Elimina una valoración (autor o administradores)
+   * 
+   * @param {string} userId - ID del usuario valorado
+   * @param {string} reviewId - ID de la valoración
+   * @returns {Promise<{success: boolean} | {success: false, error: string, data: null}>} Resultado de la operación
+   */
+  async deleteReview(
+    userId: string,
+    reviewId: string
+  ): Promise<{ success: boolean } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: boolean }> = await axios.delete(
+        USER_ROUTES.REVIEW_BY_ID(userId, reviewId),
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al eliminar la valoración')
+    }
+  }
+
+  /**
+   * Denuncia un artículo, un usuario o un mensaje recibido
+   * 
+   * La denuncia queda pendiente en la cola de moderación hasta que un
+   * administrador la resuelve.
+   * 
+   * @param {CreateReportData} reportData - Contenido denunciado, motivo y detalles
+   * @returns {Promise<{success: boolean} | {success: false, error: string, data: null}>} Resultado de la operación
+   * 
+   * @example
+   * ```typescript
+   * await userService.createReport({ targetType: 'item', targetId: 'item123', reason: 'fraud' })
+   * ```
+   */
+  async createReport(
+    reportData: CreateReportData
+  ): Promise<{ success: boolean } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: boolean }> = await axios.post(
+        REPORT_ROUTES.BASE,
+        reportData,
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al enviar la denuncia')
+    }
+  }
+
+  /**
+   * Solicita la exportación de los datos personales del usuario actual
+   * 
+   * Las cuentas pequeñas se exportan al momento; en las grandes la
+   * exportación queda pendiente y hay que consultar su estado.
+   * 
+   * @param {DataExportFormat} format - json o zip
+   * @returns {Promise<{success: true, data: DataExport} | {success: false, error: string, data: null}>} Exportación solicitada
+   */
+  async requestDataExport(
+    format: DataExportFormat
+  ): Promise<{ success: true; data: DataExport } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: true; data: DataExport }> = await axios.post(
+        USER_ROUTES.DATA_EXPORT,
+        { format },
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al solicitar la exportación de tus datos')
+    }
+  }
+
+  /**
+   * Obtiene el estado de la última exportación de datos del usuario actual
+   * 
+   * @returns {Promise<{success: true, data: DataExport | null} | {success: false, error: string, data: null}>} Última exportación o null
+   */
+  async getDataExport(): Promise<{ success: true; data: DataExport | null } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: true; data: DataExport | null }> = await axios.get(
+        USER_ROUTES.DATA_EXPORT,
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al consultar la exportación de tus datos')
+    }
+  }
+
+  /**
+   * Descarga el archivo de la última exportación de datos del usuario actual
+   * 
+   * @returns {Promise<{success: true, data: Blob} | {success: false, error: string, data: null}>} Contenido del archivo
+   */
+  async downloadDataExport(): Promise<{ success: true; data: Blob } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<Blob> = await axios.get(
+        USER_ROUTES.DATA_EXPORT_DOWNLOAD,
+        { headers: getAuthHeaders(), responseType: 'blob' }
+      )
+      return { success: true, data: response.data }
+    } catch (error) {
+      return this.handleError(error, 'Error al descargar la exportación de tus datos')
+    }
+  }
+
+  /**
+   * Solicita la eliminación de la cuenta del usuario actual
+   * 
+   * La cuenta se elimina al terminar el periodo de gracia; hasta entonces se
+   * puede cancelar con cancelAccountDeletion.
+   * 
+   * @param {string} password - Contraseña actual para confirmar
+   * @returns {Promise<{success: true, data: {deletionScheduledFor: string}} | {success: false, error: string, data: null}>} Fecha de eliminación
+   */
+  async deleteMyAccount(
+    password: string
+  ): Promise<{ success: true; data: { deletionScheduledFor: string } } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: true; data: { deletionScheduledFor: string } }> = await axios.delete(
+        USER_ROUTES.ME,
+        { headers: getAuthHeaders(), data: { password } }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al solicitar la eliminación de tu cuenta')
+    }
+  }
+
+  /**
+   * Cancela la eliminación programada de la cuenta del usuario actual
+   * 
+   * @returns {Promise<{success: boolean} | {success: false, error: string, data: null}>} Resultado de la operación
+   */
+  async cancelAccountDeletion(): Promise<{ success: boolean } | { success: false; error: string; data: null }> {
+    try {
+      const response: AxiosResponse<{ success: boolean }> = await axios.post(
+        USER_ROUTES.CANCEL_DELETION,
+        {},
+        { headers: getAuthHeaders() }
+      )
+      return response.data
+    } catch (error) {
+      return this.handleError(error, 'Error al cancelar la eliminación de tu cuenta')
+    }
+  }
+
   /**
    * Obtiene todos los usuarios (solo administradores)
    * 
@@ -23,8 +23,11 @@
  * - / : Página principal (HomeView)
  * - /login : Inicio de sesión (solo invitados)
  * - /register : Registro de usuario (solo invitados)
+ * - /verify-email/:token : Verificación del email desde el enlace recibido
+ * - /reset-password/:token : Nueva contraseña desde el enlace recibido
  * - /post-item : Publicar artículo (requiere autenticación)
  * - /search : Búsqueda de artículos
+ * - /map : Mapa de artículos
  * - /item/:id : Detalle de artículo
  * - /edit-item/:id : Editar artículo (requiere autenticación)
  * - /profile : Perfil de usuario (requiere autenticación)
@@ -64,6 +67,21 @@ const routes = [
     component: () => import('../features/auth/views/RegisterView.vue'),
     meta: { requiresGuest: true }
   },
+  {
+    path: '/verify-email/:token',
+    name: 'VerifyEmailView',
+    component: () => import('../features/auth/views/VerifyEmailView.vue')
+  },
+  {
+    path: '/unlock-account/:token',
+    name: 'UnlockAccountView',
+    component: () => import('../features/auth/views/UnlockAccountView.vue')
+  },
+  {
+    path: '/reset-password/:token',
+    name: 'ResetPasswordView',
+    component: () => import('../features/auth/views/ResetPasswordView.vue')
+  },
   {
     path: '/post-item',
     name: 'ItemPostView',
@@ -75,6 +93,11 @@ const routes = [
     name: 'SearchView',
     component: () => import('../shared/views/SearchView.vue')
   },
+  {
+    path: '/map',
+    name: 'ItemMapView',
+    component: () => import('../features/items/views/ItemMapView.vue')
+  },
   {
     path: '/item/:id',
     name: 'ItemDetailView',
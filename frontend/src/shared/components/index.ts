@@ -10,11 +10,15 @@
  * 
  * 🧭 NAVEGACIÓN:
  * - NavBar: Barra de navegación principal con autenticación, tema y notificaciones
+ * - NotificationBell: Campana con el desplegable del centro de notificaciones
  * 
  * 📝 FORMULARIOS:
  * - ImageUploader: Carga de imágenes con drag & drop, validación y compresión
  * - LocationPicker: Selector de ubicación con mapas, geolocalización y búsqueda
  * 
+ * 🚩 MODERACIÓN:
+ * - ReportButton: Botón y diálogo para denunciar artículos, usuarios y mensajes
+ * 
  * 🔍 BÚSQUEDA:
  * - Search: Componente principal de búsqueda con filtros avanzados
  * - SearchFilters: Panel de filtros detallados para refinar búsquedas
@@ -64,11 +68,15 @@
 
 // Navigation
 export { default as NavBar } from './NavBar.vue'
+export { default as NotificationBell } from './NotificationBell.vue'
 
 // Form Components
 export { default as ImageUploader } from './ImageUploader.vue'
 export { default as LocationPicker } from './LocationPicker.vue'
 
+// Moderation Components
+export { default as ReportButton } from './ReportButton.vue'
+
 // Search Components
 export { default as Search } from './Search.vue'
 export { default as SearchFilters } from './SearchFilters.vue'
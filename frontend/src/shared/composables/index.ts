@@ -16,6 +16,9 @@
  * - useImageUpload: Carga y gestión de imágenes
  * - useSearch: Búsqueda avanzada de artículos
  * - useNavBar: Gestión de la barra de navegación
+ * - useNotificationCenter: Campana del centro de notificaciones
+ * - useLocationAutocomplete: Sugerencias de ubicaciones del selector de ubicación
+ * - useCategories: Categorías de artículos gestionadas por los administradores
  * 
  * VENTAJAS:
  * - Importaciones limpias y organizadas
@@ -94,4 +97,14 @@ export type {
 } from './useImageUpload'
 
 // Search composable
-export { useSearch } from './useSearch'
\ No newline at end of file
+export { useSearch } from './useSearch'
+
+// Notification center
+export { useNotificationCenter } from './useNotificationCenter'
+
+// Location autocomplete
+export { useLocationAutocomplete, getLocationSuggestions } from './useLocationAutocomplete'
+export type { LocationSuggestion, LocationPrecision } from './useLocationAutocomplete'
+
+// Item categories
+export { useCategories, loadCategories, getCategoryLabel, getCategoryAttributes, getLoadedCategories } from './useCategories'
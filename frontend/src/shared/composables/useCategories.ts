@@ -0,0 +1,152 @@
+import { ref, computed, type Ref, type ComputedRef } from 'vue'
+import categoryService, { type ItemCategory, type CategoryAttribute } from '@/features/items/services/categoryService'
+import type { SelectOption } from '@/shared/constants/translations'
+
+/**
+ * @file useCategories.ts
+ * @description Composable de las categorías de artículos
+ *
+ * Las categorías se gestionan desde el panel de administración y se cargan
+ * de la API (GET /categories) en lugar de estar fijadas en el código:
+ * - Se cargan una sola vez y se comparten entre todos los componentes
+ * - getCategoryLabel traduce un slug con las categorías cargadas; se puede
+ *   usar fuera de los componentes (translateCategory) y, al ser reactivo,
+ *   las plantillas se actualizan cuando terminan de cargarse
+ * - Las opciones de los selectores muestran las subcategorías tras su
+ *   categoría padre ("Hogar › Jardín")
+ * - getCategoryAttributes devuelve los atributos de los artículos de una
+ *   categoría, incluidos los que hereda de su categoría padre
+ *
+ * @author Equipo de Desarrollo Ecommunitas
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const { categoryOptions, getCategoryLabel } = useCategories()
+ * ```
+ */
+
+/**
+ * Valor de retorno del composable useCategories
+ * @interface UseCategoriesReturn
+ */
+interface UseCategoriesReturn {
+  /** Categorías activas por orden */
+  categories: Ref<ItemCategory[]>
+  /** Indica si se están cargando las categorías */
+  loading: Ref<boolean>
+  /** Opciones para los selectores de categoría */
+  categoryOptions: ComputedRef<SelectOption[]>
+  /** Nombre de una categoría a partir de su slug */
+  getCategoryLabel: (slug: string) => string
+  /** Atributos de los artículos de una categoría */
+  getCategoryAttributes: (slug: string) => CategoryAttribute[]
+  /** Vuelve a cargar las categorías (tras modificarlas en el panel) */
+  reloadCategories: () => Promise<void>
+}
+
+// Estado compartido por todos los componentes
+const categories = ref<ItemCategory[]>([])
+const loading = ref<boolean>(false)
+let loadPromise: Promise<void> | null = null
+
+/**
+ * Carga las categorías activas si aún no se han cargado
+ * @param {boolean} force - Volver a cargarlas aunque ya estén cargadas
+ * @returns {Promise<void>}
+ */
+export const loadCategories = (force = false): Promise<void> => {
+  if (loadPromise && !force) {
+    return loadPromise
+  }
+
+  loading.value = true
+  loadPromise = categoryService.getCategories()
+    .then(result => {
+      categories.value = result
+    })
+    .catch(() => {
+      // Sin categorías se muestran los slugs; se reintentará en el siguiente uso
+      loadPromise = null
+    })
+    .finally(() => {
+      loading.value = false
+    })
+
+  return loadPromise
+}
+
+/**
+ * Nombre de una categoría a partir de su slug
+ * @param {string} slug - Slug de la categoría
+ * @returns {string} Nombre de la categoría o el propio slug si no se conoce
+ */
+export const getCategoryLabel = (slug: string): string => {
+  loadCategories()
+  return categories.value.find(category => category.slug === slug)?.label || slug
+}
+
+/**
+ * Atributos de los artículos de una categoría
+ * @param {string} slug - Slug de la categoría
+ * @returns {CategoryAttribute[]} Atributos de la categoría padre seguidos de
+ * los de la categoría (estos prevalecen si repiten clave), como en la API
+ */
+export const getCategoryAttributes = (slug: string): CategoryAttribute[] => {
+  loadCategories()
+  const category = categories.value.find(loaded => loaded.slug === slug)
+  if (!category) {
+    return []
+  }
+
+  const parent = categories.value.find(loaded => loaded.slug === category.parent)
+  const ownKeys = new Set(category.attributes.map(attribute => attribute.key))
+
+  return [
+    ...(parent ? parent.attributes.filter(attribute => !ownKeys.has(attribute.key)) : []),
+    ...category.attributes
+  ]
+}
+
+/**
+ * Categorías cargadas hasta el momento (vacío hasta que responde la API)
+ * @returns {ItemCategory[]} Categorías activas por orden
+ */
+export const getLoadedCategories = (): ItemCategory[] => {
+  loadCategories()
+  return categories.value
+}
+
+/**
+ * Composable para los selectores y etiquetas de categorías
+ *
+ * @returns {UseCategoriesReturn} Categorías cargadas y utilidades
+ */
+export function useCategories(): UseCategoriesReturn {
+  loadCategories()
+
+  const categoryOptions = computed<SelectOption[]>(() => {
+    const options: SelectOption[] = []
+
+    categories.value
+      .filter(category => !category.parent)
+      .forEach(parent => {
+        options.push({ value: parent.slug, label: parent.label })
+        categories.value
+          .filter(category => category.parent === parent.slug)
+          .forEach(child => options.push({ value: child.slug, label: `${parent.label} › ${child.label}` }))
+      })
+
+    return options
+  })
+
+  return {
+    categories,
+    loading,
+    categoryOptions,
+    getCategoryLabel,
+    getCategoryAttributes,
+    reloadCategories: () => loadCategories(true)
+  }
+}
@@ -0,0 +1,180 @@
+import { ref, onUnmounted, type Ref } from 'vue'
+import axios from 'axios'
+import { GEOCODING_ROUTES } from '@/config/apiRoutes'
+import { displayError } from '@/shared/utils/errorHandler'
+
+/**
+ * @file useLocationAutocomplete.ts
+ * @description Composable de autocompletado de ubicaciones
+ *
+ * Pide al backend sugerencias de ubicaciones mientras el usuario escribe
+ * (GET /geocoding/autocomplete). El backend las resuelve con su nomenclátor
+ * de municipios y códigos postales y, si está configurado, con proveedores
+ * externos, así que el frontend no llama directamente a servicios de terceros.
+ * - Espera a que el usuario deje de escribir antes de pedir sugerencias
+ * - Descarta las respuestas de búsquedas anteriores
+ *
+ * @author Equipo de Desarrollo Ecommunitas
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const { suggestions, search, clear } = useLocationAutocomplete()
+ * search('Geta') // suggestions -> [{ label: 'Getafe, Madrid', lat: 40.3083, lng: -3.7327, ... }]
+ * ```
+ */
+
+/**
+ * Nivel de detalle de una sugerencia
+ */
+export type LocationPrecision = 'address' | 'postcode' | 'municipality' | 'province'
+
+/**
+ * Ubicación sugerida por el backend
+ * @interface LocationSuggestion
+ */
+export interface LocationSuggestion {
+  /** Texto para mostrar ("Getafe, Madrid") */
+  label: string
+  lat: number
+  lng: number
+  municipality?: string
+  province?: string
+  postcode?: string
+  precision: LocationPrecision
+  /** Proveedor que ha resuelto la ubicación */
+  provider: string
+}
+
+/**
+ * Opciones del autocompletado
+ * @interface LocationAutocompleteOptions
+ */
+interface LocationAutocompleteOptions {
+  /** Número máximo de sugerencias (5) */
+  limit?: number
+  /** Caracteres mínimos para buscar (3) */
+  minLength?: number
+  /** Espera tras la última pulsación en ms (300) */
+  delay?: number
+}
+
+/**
+ * Valor de retorno del composable useLocationAutocomplete
+ * @interface UseLocationAutocompleteReturn
+ */
+interface UseLocationAutocompleteReturn {
+  /** Sugerencias de la última búsqueda */
+  suggestions: Ref<LocationSuggestion[]>
+  /** Indica si hay una búsqueda en curso */
+  loading: Ref<boolean>
+  /** Busca sugerencias tras la espera configurada */
+  search: (query: string) => void
+  /** Busca sugerencias inmediatamente */
+  searchNow: (query: string) => Promise<void>
+  /** Vacía las sugerencias y cancela la búsqueda en curso */
+  clear: () => void
+}
+
+/** Tiempo máximo de espera de la petición */
+const REQUEST_TIMEOUT = 10000
+
+/**
+ * Pide sugerencias de ubicaciones al backend
+ * @param {string} query - Texto escrito por el usuario
+ * @param {number} limit - Número máximo de sugerencias
+ * @param {AbortSignal} [signal] - Señal para cancelar la petición
+ * @returns {Promise<LocationSuggestion[]>} Sugerencias ordenadas por relevancia
+ */
+export const getLocationSuggestions = async (
+  query: string,
+  limit = 5,
+  signal?: AbortSignal
+): Promise<LocationSuggestion[]> => {
+  const response = await axios.get<{ success: boolean; data: LocationSuggestion[] }>(
+    GEOCODING_ROUTES.AUTOCOMPLETE,
+    { params: { q: query, limit }, signal, timeout: REQUEST_TIMEOUT }
+  )
+
+  return response.data.data
+}
+
+/**
+ * Composable para el autocompletado de ubicaciones
+ *
+ * @param {LocationAutocompleteOptions} options - Opciones del autocompletado
+ * @returns {UseLocationAutocompleteReturn} Sugerencias y acciones de búsqueda
+ */
+export function useLocationAutocomplete(options: LocationAutocompleteOptions = {}): UseLocationAutocompleteReturn {
+  const { limit = 5, minLength = 3, delay = 300 } = options
+
+  const suggestions = ref<LocationSuggestion[]>([])
+  const loading = ref<boolean>(false)
+
+  let searchTimeout: ReturnType<typeof setTimeout> | null = null
+  let controller: AbortController | null = null
+
+  const cancel = (): void => {
+    if (searchTimeout) {
+      clearTimeout(searchTimeout)
+      searchTimeout = null
+    }
+    controller?.abort()
+    controller = null
+  }
+
+  const searchNow = async (query: string): Promise<void> => {
+    cancel()
+
+    const text = query.trim()
+    if (text.length < minLength) {
+      suggestions.value = []
+      loading.value = false
+      return
+    }
+
+    controller = new AbortController()
+    const { signal } = controller
+
+    loading.value = true
+    try {
+      suggestions.value = await getLocationSuggestions(text, limit, signal)
+    } catch (err) {
+      if (!signal.aborted) {
+        suggestions.value = []
+        displayError(err, { customMessage: 'Error al buscar ubicación' })
+      }
+    } finally {
+      if (!signal.aborted) {
+        loading.value = false
+      }
+    }
+  }
+
+  const search = (query: string): void => {
+    if (searchTimeout) {
+      clearTimeout(searchTimeout)
+    }
+    searchTimeout = setTimeout(() => {
+      searchTimeout = null
+      searchNow(query)
+    }, delay)
+  }
+
+  const clear = (): void => {
+    cancel()
+    suggestions.value = []
+    loading.value = false
+  }
+
+  onUnmounted(cancel)
+
+  return {
+    suggestions,
+    loading,
+    search,
+    searchNow,
+    clear
+  }
+}
@@ -1,4 +1,4 @@
-import { ref, computed, onMounted, onUnmounted, type Ref, type ComputedRef } from 'vue'
+import { ref, computed, watch, onMounted, onUnmounted, type Ref, type ComputedRef } from 'vue'
 import { useRouter } from 'vue-router'
 import { useAuth, useAuthStore } from '@/features/auth'
 import { getUserInitials, getUserAvatarUrl } from '@/features/users'
@@ -17,7 +17,7 @@ import { displayError } from '@/shared/utils/errorHandler'
  * CARACTERÍSTICAS PRINCIPALES:
  * - 🔐 Gestión completa de estado de autenticación
  * - 📱 Menús responsivos para dispositivos móviles
- * - 💬 Polling automático de mensajes no leídos
+ * - 💬 Mensajes no leídos en tiempo real (Socket.IO) con polling de respaldo
  * - 🌙 Modo oscuro con persistencia en localStorage
  * - 🧭 Navegación programática entre rutas
  * - 👤 Información de usuario con avatar e iniciales
@@ -28,7 +28,8 @@ import { displayError } from '@/shared/utils/errorHandler'
  * - Control de visibilidad de menús móviles
  * - Gestión de menú desplegable de usuario
  * - Alternancia de modo oscuro con persistencia
- * - Polling automático de mensajes cada 30 segundos
+ * - Contador de mensajes actualizado por eventos en tiempo real
+ * - Polling cada 30 segundos solo mientras el socket está desconectado
  * - Navegación a perfil, mensajes, configuración y admin
  * - Cierre de sesión con limpieza de estado
  * - Inicialización automática de preferencias
@@ -70,7 +71,8 @@ import { displayError } from '@/shared/utils/errorHandler'
  * - Vue Router para navegación
  * - Pinia para gestión de estado
  * - Web Storage API para persistencia
- * - Polling automático con setInterval
+ * - Socket.IO para eventos en tiempo real
+ * - Polling con setInterval como respaldo
  * 
  * @author Equipo de Desarrollo Ecommunitas
  * @version 1.0.0
@@ -169,7 +171,8 @@ interface UseNavBarReturn {
 /**
  * Composable para la lógica del NavBar
  * Maneja autenticación, mensajes, menús móviles, modo oscuro y navegación
- * Incluye polling automático de mensajes no leídos para usuarios autenticados
+ * Mantiene el contador de mensajes no leídos con eventos en tiempo real y
+ * recurre al polling solo mientras la conexión en tiempo real está caída
  * 
  * @returns {UseNavBarReturn} Objeto con estados, propiedades computadas y métodos del NavBar
  * 
@@ -207,6 +210,7 @@ export function useNavBar(): UseNavBarReturn {
   const isDarkMode = ref<boolean>(false)
   const unreadMessages = ref<number>(0)
   const messageInterval = ref<NodeJS.Timeout | null>(null)
+  let realtimeSubscriptions: Array<() => void> = []
   
   // Propiedades computadas
   const isAuthenticated = computed(() => authStore.isAuthenticated)
@@ -262,6 +266,7 @@ export function useNavBar(): UseNavBarReturn {
   const handleLogout = async (): Promise<void> => {
     try {
       await logout()
+      stopRealtimeMessages()
       showUserMenu.value = false
       showMobileMenu.value = false
       router.push('/')
@@ -293,17 +298,67 @@ export function useNavBar(): UseNavBarReturn {
     }
   }
   
+  /**
+   * Conecta el contador de mensajes a los eventos en tiempo real
+   * El polling se activa mientras el socket no está conectado y se detiene
+   * (resincronizando el contador) en cuanto la conexión se establece
+   */
+  const startRealtimeMessages = (): void => {
+    if (realtimeSubscriptions.length > 0) return
+    
+    realtimeSubscriptions = [
+      // Cada envío, lectura o borrado emite conversation:updated con el total de no leídos
+      messageService.subscribe('conversation:updated', (event) => {
+        unreadMessages.value = event.totalUnread
+      }),
+      messageService.onConnectionChange((connected) => {
+        if (connected) {
+          stopMessagePolling()
+          fetchUnreadMessages()
+        } else if (isAuthenticated.value) {
+          startMessagePolling()
+        }
+      })
+    ]
+    
+    messageService.connectRealtime()
+    if (!messageService.isRealtimeConnected()) {
+      startMessagePolling()
+    }
+  }
+  
+  /**
+   * Cancela las suscripciones en tiempo real y el polling de respaldo
+   */
+  const stopRealtimeMessages = (): void => {
+    realtimeSubscriptions.forEach(unsubscribe => unsubscribe())
+    realtimeSubscriptions = []
+    stopMessagePolling()
+  }
+  
   // Lifecycle hooks
   onMounted(() => {
     initializeDarkMode()
     if (isAuthenticated.value) {
       fetchUnreadMessages()
-      startMessagePolling()
+      startRealtimeMessages()
+    }
+  })
+  
+  // Iniciar o detener las actualizaciones al iniciar o cerrar sesión
+  watch(isAuthenticated, (authenticated) => {
+    if (authenticated) {
+      fetchUnreadMessages()
+      startRealtimeMessages()
+    } else {
+      stopRealtimeMessages()
+      messageService.disconnectRealtime()
+      unreadMessages.value = 0
     }
   })
   
   onUnmounted(() => {
-    stopMessagePolling()
+    stopRealtimeMessages()
   })
   
   // Funciones de navegación
@@ -0,0 +1,190 @@
+import { ref, computed, onMounted, onUnmounted, type Ref, type ComputedRef } from 'vue'
+import { useRouter } from 'vue-router'
+import { messageService, notificationService, type AppNotification } from '@/features/messages'
+import { displayError } from '@/shared/utils/errorHandler'
+import { useNotifications } from '@/shared/composables/useNotifications'
+
+/**
+ * @file useNotificationCenter.ts
+ * @description Composable del centro de notificaciones de la barra de navegación
+ *
+ * Mantiene la lista de notificaciones del usuario y el contador de no leídas
+ * de la campana del NavBar:
+ * - Carga las notificaciones más recientes al montarse
+ * - Añade las nuevas que llegan en tiempo real (notification:new) y las
+ *   muestra como toast, salvo los mensajes, que ya tienen su propio contador
+ * - Sincroniza las lecturas hechas desde otras pestañas (notification:read)
+ * - Abre el enlace de una notificación marcándola como leída
+ *
+ * @author Equipo de Desarrollo Ecommunitas
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @example
+ * ```typescript
+ * const { notifications, unreadCount, openNotification, markAllRead } = useNotificationCenter()
+ * ```
+ */
+
+/** Notificaciones que se cargan en el desplegable */
+const NOTIFICATION_PAGE_SIZE = 20
+
+/**
+ * Valor de retorno del composable useNotificationCenter
+ * @interface UseNotificationCenterReturn
+ */
+interface UseNotificationCenterReturn {
+  /** Notificaciones cargadas, de la más reciente a la más antigua */
+  notifications: Ref<AppNotification[]>
+  /** Número de notificaciones sin leer */
+  unreadCount: Ref<number>
+  /** Indica si se está cargando la lista */
+  loading: Ref<boolean>
+  /** Indica si el desplegable está abierto */
+  isOpen: Ref<boolean>
+  /** Indica si hay notificaciones sin leer */
+  hasUnread: ComputedRef<boolean>
+  /** Carga las notificaciones más recientes */
+  fetchNotifications: () => Promise<void>
+  /** Abre o cierra el desplegable */
+  toggleOpen: () => void
+  /** Cierra el desplegable */
+  close: () => void
+  /** Marca una notificación como leída y navega a su enlace */
+  openNotification: (notification: AppNotification) => Promise<void>
+  /** Marca todas las notificaciones como leídas */
+  markAllRead: () => Promise<void>
+}
+
+/**
+ * Composable para la campana de notificaciones
+ *
+ * @returns {UseNotificationCenterReturn} Estado y acciones del centro de notificaciones
+ */
+export function useNotificationCenter(): UseNotificationCenterReturn {
+  const router = useRouter()
+  const { notifyInfo, notifySuccess, notifyWarning, notifyError } = useNotifications()
+
+  const notifications = ref<AppNotification[]>([])
+  const unreadCount = ref<number>(0)
+  const loading = ref<boolean>(false)
+  const isOpen = ref<boolean>(false)
+  let realtimeSubscriptions: Array<() => void> = []
+
+  const hasUnread = computed(() => unreadCount.value > 0)
+
+  const fetchNotifications = async (): Promise<void> => {
+    loading.value = true
+    try {
+      const page = await notificationService.getNotifications({ limit: NOTIFICATION_PAGE_SIZE })
+      notifications.value = page.notifications
+      unreadCount.value = page.unreadCount
+    } catch (err) {
+      displayError(err, { customMessage: 'Error al cargar las notificaciones' })
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Muestra como toast una notificación recibida en tiempo real
+   * Los avisos de administración usan el nivel elegido por el administrador
+   */
+  const showToast = (notification: AppNotification): void => {
+    const text = notification.body ? `${notification.title}: ${notification.body}` : notification.title
+
+    if (notification.type === 'admin_broadcast') {
+      const level = notification.payload?.level
+      if (level === 'success') return notifySuccess(text)
+      if (level === 'warning') return notifyWarning(text)
+      if (level === 'error') return notifyError(text)
+    }
+
+    notifyInfo(text)
+  }
+
+  const toggleOpen = (): void => {
+    isOpen.value = !isOpen.value
+    if (isOpen.value) {
+      fetchNotifications()
+    }
+  }
+
+  const close = (): void => {
+    isOpen.value = false
+  }
+
+  const openNotification = async (notification: AppNotification): Promise<void> => {
+    close()
+
+    if (!notification.read) {
+      try {
+        unreadCount.value = await notificationService.markNotificationRead(notification._id)
+        notification.read = true
+      } catch (err) {
+        displayError(err, { customMessage: 'Error al marcar la notificación como leída' })
+      }
+    }
+
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  const markAllRead = async (): Promise<void> => {
+    try {
+      await notificationService.markAllNotificationsRead()
+      notifications.value.forEach(notification => { notification.read = true })
+      unreadCount.value = 0
+    } catch (err) {
+      displayError(err, { customMessage: 'Error al marcar las notificaciones como leídas' })
+    }
+  }
+
+  onMounted(() => {
+    fetchNotifications()
+
+    realtimeSubscriptions = [
+      messageService.subscribe('notification:new', (event) => {
+        notifications.value = [event.notification, ...notifications.value].slice(0, NOTIFICATION_PAGE_SIZE)
+        unreadCount.value = event.unreadCount
+        if (event.notification.type !== 'message') {
+          showToast(event.notification)
+        }
+      }),
+      // Lecturas hechas desde otra pestaña o dispositivo
+      messageService.subscribe('notification:read', (event) => {
+        notifications.value.forEach(notification => {
+          if (event.notificationId === null || notification._id === event.notificationId) {
+            notification.read = true
+          }
+        })
+        unreadCount.value = event.unreadCount
+      }),
+      // Recuperar las notificaciones perdidas mientras el socket estaba caído
+      messageService.onConnectionChange((connected) => {
+        if (connected) {
+          fetchNotifications()
+        }
+      })
+    ]
+  })
+
+  onUnmounted(() => {
+    realtimeSubscriptions.forEach(unsubscribe => unsubscribe())
+    realtimeSubscriptions = []
+  })
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    isOpen,
+    hasUnread,
+    fetchNotifications,
+    toggleOpen,
+    close,
+    openNotification,
+    markAllRead
+  }
+}
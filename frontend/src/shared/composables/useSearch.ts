@@ -133,9 +133,11 @@
  */
 
 import { ref, computed, watch, onMounted, type Ref, type ComputedRef } from 'vue'
-import { useRouter } from 'vue-router'
-import { useItemsStore } from '@/features/items'
+import { useRouter, useRoute } from 'vue-router'
+import { useItemsStore, createSavedSearch, toSavedSearchFilters } from '@/features/items'
 import { displayError } from '@/shared/utils/errorHandler'
+import { useNotifications } from '@/shared/composables/useNotifications'
+import { getCategoryLabel } from '@/shared/composables/useCategories'
 
 // Types
 interface SearchFilters {
@@ -190,7 +192,8 @@ interface UseSearchReturn {
   updateFilters: (filters: Partial<SearchFilters>) => void;
   validateSearchParams: () => boolean;
   getLocationCoordinates: (location: string) => Promise<{ lat: number; lng: number } | null>;
-  initializeFromRoute: () => void;
+initializeFromRoute: () => void;
+  saveCurrentSearch: (name: string, emailDigest: boolean) => Promise<boolean>;
   
   // Utility functions
   translateCategory: (category: string) => string;
@@ -208,7 +211,9 @@ interface UseSearchReturn {
  */
 export function useSearch(): UseSearchReturn {
   const router = useRouter()
+  const route = useRoute()
   const itemsStore = useItemsStore()
+  const { notifySuccess } = useNotifications()
 
   // Estados reactivos
   const currentPage = ref<number>(1)
@@ -274,20 +279,11 @@ export function useSearch(): UseSearchReturn {
   })
 
   /**
-   * Traduce las categorías del inglés al español
-   * @param {string} category - Categoría en inglés
-   * @returns {string} Categoría traducida
+   * Traduce el slug de una categoría a su nombre
+   * @param {string} category - Slug de la categoría
+   * @returns {string} Nombre de la categoría cargada de la API
    */
-  const translateCategory = (category: string): string => {
-    const categories: Record<string, string> = {
-      books: 'Libros',
-      electronics: 'Electrónica',
-      clothing: 'Ropa',
-      furniture: 'Muebles',
-      other: 'Otros'
-    }
-    return categories[category] || category
-  }
+  const translateCategory = (category: string): string => getCategoryLabel(category)
 
   /**
    * Traduce las condiciones del inglés al español
@@ -418,8 +414,27 @@ export function useSearch(): UseSearchReturn {
     isChangingFromHandlers.value = false
   })
 
+  /**
+   * Aplica los filtros de la URL (por ejemplo, los enlaces de las búsquedas guardadas)
+   * Usa los mismos nombres que la API: q, category, condition, location, lat, lng y distance
+   */
+  const applyRouteQuery = (): void => {
+    const { q, category, condition, location, lat, lng, distance } = route.query
+    if (typeof q === 'string') searchFilters.value.query = q
+    if (typeof category === 'string') searchFilters.value.category = category
+    if (typeof condition === 'string') searchFilters.value.condition = condition
+    if (typeof location === 'string') searchFilters.value.location = location
+    if (typeof distance === 'string' && !isNaN(Number(distance))) {
+      searchFilters.value.distance = Number(distance)
+    }
+    if (typeof lat === 'string' && typeof lng === 'string' && !isNaN(Number(lat)) && !isNaN(Number(lng))) {
+      searchFilters.value.coordinates = { lat: Number(lat), lng: Number(lng) }
+    }
+  }
+
   // Cargar datos iniciales al montar el componente
   onMounted(() => {
+    applyRouteQuery()
     fetchItems()
   })
 
@@ -453,10 +468,31 @@ export function useSearch(): UseSearchReturn {
   }
 
   const initializeFromRoute = (): void => {
-    // Initialize search from route parameters if needed
+    applyRouteQuery()
     fetchItems()
   }
 
+  /**
+   * Guarda los filtros actuales para recibir avisos de artículos nuevos que coincidan
+   * @param {string} name - Nombre de la búsqueda
+   * @param {boolean} emailDigest - Recibir también un resumen por email
+   * @returns {Promise<boolean>} true si la búsqueda se ha guardado
+   */
+  const saveCurrentSearch = async (name: string, emailDigest: boolean): Promise<boolean> => {
+    try {
+      await createSavedSearch({
+        name: name.trim(),
+        filters: toSavedSearchFilters(searchFilters.value),
+        emailDigest
+      })
+      notifySuccess('Búsqueda guardada. Te avisaremos cuando se publiquen artículos nuevos')
+      return true
+    } catch (err) {
+      displayError(err, { customMessage: 'No se pudo guardar la búsqueda' })
+      return false
+    }
+  }
+
   // ===== RETORNO DEL COMPOSABLE =====
   
   return {
@@ -485,6 +521,7 @@ export function useSearch(): UseSearchReturn {
     validateSearchParams,
     getLocationCoordinates,
     initializeFromRoute,
+    saveCurrentSearch,
     
     // Utility functions
     translateCategory,
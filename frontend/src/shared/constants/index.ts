@@ -1,17 +1,20 @@
 /**
  * Shared Constants Index
  * Centralizes exports for all shared constants
- * Enables clean imports: import { CATEGORY_TRANSLATIONS, DEFAULT_SEARCH_FILTERS } from '@/shared/constants'
+ * Enables clean imports: import { CONDITION_TRANSLATIONS, DEFAULT_SEARCH_FILTERS } from '@/shared/constants'
  */
 
 // Translation constants
 export {
-  CATEGORY_TRANSLATIONS,
   CONDITION_TRANSLATIONS,
-  CATEGORY_BADGE_CLASSES,
+  REPORT_REASON_TRANSLATIONS,
+  REPORT_ACTION_TRANSLATIONS,
   CONDITION_BADGE_CLASSES,
   translateCategory,
   translateCondition,
+  translateReportReason,
+  translateReportAction,
+  getReportReasonsOptions,
   getCategoriesOptions,
   getConditionsOptions,
   getConditionBadgeClass,
@@ -19,11 +22,10 @@ export {
   isValidCategory,
   isValidCondition,
   // Legacy exports for backward compatibility
-  categoryTranslations,
   conditionTranslations
 } from './translations'
 
-export type { Category, Condition, SelectOption } from './translations'
+export type { Category, Condition, ReportReasonKey, ReportActionKey, SelectOption } from './translations'
 
 // Search filter constants
 export {
@@ -40,4 +42,11 @@ export {
   searchParamsToFilters
 } from './searchFilters'
 
-export type { SearchFilters, SortOption } from './searchFilters'
\ No newline at end of file
+export type { SearchFilters, SortOption } from './searchFilters'
+// Map constants
+export {
+  MAP_TILE_URL,
+  MAP_ATTRIBUTION,
+  DEFAULT_MAP_CENTER,
+  DEFAULT_MAP_ZOOM
+} from './map'
@@ -0,0 +1,16 @@
+/**
+ * Map Constants
+ * Configuración común de los mapas de Leaflet (selector de ubicación y mapa de artículos)
+ */
+
+/** URL del servidor de tiles de OpenStreetMap */
+export const MAP_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+/** Atribución requerida para OpenStreetMap */
+export const MAP_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+
+/** Centro por defecto de los mapas [lat, lng] - Madrid */
+export const DEFAULT_MAP_CENTER: [number, number] = [40.4168, -3.7038]
+
+/** Zoom por defecto al centrar el mapa en una ubicación */
+export const DEFAULT_MAP_ZOOM = 13
@@ -2,26 +2,24 @@
  * Translation Constants
  * Centralizes all translations for categories, conditions, and UI elements
  * Provides consistent translation utilities across the application
+ *
+ * Categories are managed by administrators and loaded from the API
+ * (see useCategories), so they are not listed here
  */
 
+import { getCategoryLabel, getLoadedCategories } from '@/shared/composables/useCategories'
+
 // Types for better type safety
-export type Category = 'books' | 'electronics' | 'clothing' | 'furniture' | 'other'
+export type Category = string
 export type Condition = 'new' | 'like_new' | 'good' | 'fair' | 'poor'
+export type ReportReasonKey = 'spam' | 'inappropriate' | 'fraud' | 'harassment' | 'prohibited_item' | 'other'
+export type ReportActionKey = 'dismiss' | 'hide_item' | 'suspend_user'
 
 export interface SelectOption {
   value: string
   label: string
 }
 
-// Category translations
-export const CATEGORY_TRANSLATIONS: Record<Category, string> = {
-  books: 'Libros',
-  electronics: 'Electrónicos',
-  clothing: 'Ropa',
-  furniture: 'Muebles',
-  other: 'Otros'
-} as const
-
 // Condition translations
 export const CONDITION_TRANSLATIONS: Record<Condition, string> = {
   new: 'Nuevo',
@@ -31,6 +29,23 @@ export const CONDITION_TRANSLATIONS: Record<Condition, string> = {
   poor: 'Estado regular'
 } as const
 
+// Report reason translations
+export const REPORT_REASON_TRANSLATIONS: Record<ReportReasonKey, string> = {
+  spam: 'Spam o publicidad',
+  inappropriate: 'Contenido inapropiado',
+  fraud: 'Fraude o estafa',
+  harassment: 'Acoso u ofensas',
+  prohibited_item: 'Artículo prohibido',
+  other: 'Otro motivo'
+} as const
+
+// Report resolution action translations
+export const REPORT_ACTION_TRANSLATIONS: Record<ReportActionKey, string> = {
+  dismiss: 'Desestimar',
+  hide_item: 'Ocultar artículo',
+  suspend_user: 'Suspender usuario'
+} as const
+
 // Badge classes for conditions
 export const CONDITION_BADGE_CLASSES: Record<Condition, string> = {
   new: 'bg-green-100 text-green-800 dark:bg-green-700 dark:text-green-100',
@@ -40,14 +55,15 @@ export const CONDITION_BADGE_CLASSES: Record<Condition, string> = {
   poor: 'bg-red-100 text-red-800 dark:bg-red-700 dark:text-red-100'
 } as const
 
-// Badge classes for categories
-export const CATEGORY_BADGE_CLASSES: Record<Category, string> = {
-  books: 'bg-blue-100 text-blue-800 dark:bg-blue-700 dark:text-blue-100',
-  electronics: 'bg-purple-100 text-purple-800 dark:bg-purple-700 dark:text-purple-100',
-  clothing: 'bg-pink-100 text-pink-800 dark:bg-pink-700 dark:text-pink-100',
-  furniture: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-700 dark:text-indigo-100',
-  other: 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
-} as const
+// Badge classes for categories, picked by slug so each category keeps its colour
+const CATEGORY_BADGE_PALETTE: readonly string[] = [
+  'bg-blue-100 text-blue-800 dark:bg-blue-700 dark:text-blue-100',
+  'bg-purple-100 text-purple-800 dark:bg-purple-700 dark:text-purple-100',
+  'bg-pink-100 text-pink-800 dark:bg-pink-700 dark:text-pink-100',
+  'bg-indigo-100 text-indigo-800 dark:bg-indigo-700 dark:text-indigo-100',
+  'bg-teal-100 text-teal-800 dark:bg-teal-700 dark:text-teal-100',
+  'bg-amber-100 text-amber-800 dark:bg-amber-700 dark:text-amber-100'
+]
 
 // Default badge class for unknown values
 const DEFAULT_BADGE_CLASS = 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
@@ -59,7 +75,7 @@ const DEFAULT_BADGE_CLASS = 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:tex
  */
 export const translateCategory = (category: string | null | undefined): string => {
   if (!category) return 'Sin categoría'
-  return CATEGORY_TRANSLATIONS[category as Category] || category
+  return getCategoryLabel(category)
 }
 
 /**
@@ -73,16 +89,48 @@ export const translateCondition = (condition: string | null | undefined): string
 }
 
 /**
- * Gets all category options for select components
- * @returns Array of category options
+ * Translates a report reason key to its display name
+ * @param reason - The report reason key
+ * @returns Translated reason or fallback
  */
-export const getCategoriesOptions = (): SelectOption[] => {
-  return Object.entries(CATEGORY_TRANSLATIONS).map(([value, label]) => ({
+export const translateReportReason = (reason: string | null | undefined): string => {
+  if (!reason) return 'Sin motivo'
+  return REPORT_REASON_TRANSLATIONS[reason as ReportReasonKey] || reason
+}
+
+/**
+ * Translates a report resolution action key to its display name
+ * @param action - The report action key
+ * @returns Translated action or fallback
+ */
+export const translateReportAction = (action: string | null | undefined): string => {
+  if (!action) return ''
+  return REPORT_ACTION_TRANSLATIONS[action as ReportActionKey] || action
+}
+
+/**
+ * Gets all report reason options for select components
+ * @returns Array of report reason options
+ */
+export const getReportReasonsOptions = (): SelectOption[] => {
+  return Object.entries(REPORT_REASON_TRANSLATIONS).map(([value, label]) => ({
     value,
     label
   }))
 }
 
+/**
+ * Gets the loaded category options for select components
+ * Use useCategories().categoryOptions in components to react to the loading
+ * @returns Array of category options
+ */
+export const getCategoriesOptions = (): SelectOption[] => {
+  return getLoadedCategories().map(category => ({
+    value: category.slug,
+    label: category.label
+  }))
+}
+
 /**
  * Gets all condition options for select components
  * @returns Array of condition options
@@ -110,17 +158,18 @@ export const getConditionBadgeClass = (condition: string | null | undefined): st
  * @returns CSS class string for the category badge
  */
 export const getCategoryBadgeClass = (category: string | null | undefined): string => {
-  if (!category) return DEFAULT_BADGE_CLASS
-  return CATEGORY_BADGE_CLASSES[category as Category] || DEFAULT_BADGE_CLASS
+  if (!category || category === 'other') return DEFAULT_BADGE_CLASS
+  const hash = Array.from(category).reduce((total, char) => total + char.charCodeAt(0), 0)
+  return CATEGORY_BADGE_PALETTE[hash % CATEGORY_BADGE_PALETTE.length]
 }
 
 /**
- * Checks if a string is a valid category
+ * Checks if a string is one of the loaded categories
  * @param value - The value to check
  * @returns True if the value is a valid category
  */
 export const isValidCategory = (value: string): value is Category => {
-  return Object.keys(CATEGORY_TRANSLATIONS).includes(value)
+  return getLoadedCategories().some(category => category.slug === value)
 }
 
 /**
@@ -133,5 +182,4 @@ export const isValidCondition = (value: string): value is Condition => {
 }
 
 // Export legacy names for backward compatibility
-export const categoryTranslations = CATEGORY_TRANSLATIONS
 export const conditionTranslations = CONDITION_TRANSLATIONS
\ No newline at end of file
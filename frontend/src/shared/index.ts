@@ -41,6 +41,5 @@ export type {
 // Re-export constants for convenience
 export {
   DEFAULT_SEARCH_FILTERS,
-  CATEGORY_TRANSLATIONS,
   CONDITION_TRANSLATIONS
 } from './constants'
\ No newline at end of file
@@ -0,0 +1,147 @@
+/**
+ * @file messageService.test.ts
+ * @description Test suite for messageService conversations and real-time events
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+// Mock socket.io-client: the fake socket records handlers so tests can emit events
+const socketHandlers = new Map<string, (payload?: any) => void>()
+const mockSocket = {
+  connected: false,
+  on: vi.fn((event: string, handler: (payload?: any) => void) => {
+    socketHandlers.set(event, handler)
+    return mockSocket
+  }),
+  removeAllListeners: vi.fn(() => socketHandlers.clear()),
+  disconnect: vi.fn()
+}
+
+vi.mock('socket.io-client', () => ({
+  io: vi.fn(() => mockSocket)
+}))
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn()
+  }
+}))
+
+import axios from 'axios'
+import { io } from 'socket.io-client'
+import { messageService } from '@/features/messages/services/messageService'
+
+const emit = (event: string, payload?: any) => socketHandlers.get(event)?.(payload)
+
+describe('messageService real-time events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    socketHandlers.clear()
+    mockSocket.connected = false
+    localStorage.setItem('token', 'mock-jwt-token')
+  })
+
+  afterEach(() => {
+    messageService.disconnectRealtime()
+    localStorage.removeItem('token')
+  })
+
+  it('should not connect without a token', () => {
+    localStorage.removeItem('token')
+
+    messageService.connectRealtime()
+
+    expect(io).not.toHaveBeenCalled()
+  })
+
+  it('should authenticate the socket with the stored JWT', () => {
+    messageService.connectRealtime()
+
+    const [{ auth }] = vi.mocked(io).mock.calls[0] as [{ auth: (cb: (data: object) => void) => void }]
+    const callback = vi.fn()
+    auth(callback)
+
+    expect(callback).toHaveBeenCalledWith({ token: 'mock-jwt-token' })
+  })
+
+  it('should reuse the connection for the same token', () => {
+    messageService.connectRealtime()
+    messageService.connectRealtime()
+
+    expect(io).toHaveBeenCalledTimes(1)
+  })
+
+  it('should dispatch events to subscribers until they unsubscribe', () => {
+    const handler = vi.fn()
+    const unsubscribe = messageService.subscribe('message:new', handler)
+    messageService.connectRealtime()
+
+    emit('message:new', { _id: 'msg1' })
+    unsubscribe()
+    emit('message:new', { _id: 'msg2' })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ _id: 'msg1' })
+  })
+
+  it('should report connection changes so callers can fall back to polling', () => {
+    const handler = vi.fn()
+    const unsubscribe = messageService.onConnectionChange(handler)
+    messageService.connectRealtime()
+
+    emit('connect')
+    emit('disconnect')
+
+    expect(handler).toHaveBeenNthCalledWith(1, true)
+    expect(handler).toHaveBeenNthCalledWith(2, false)
+    unsubscribe()
+  })
+})
+
+describe('messageService conversations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should send a message to an existing conversation and return the created message', async () => {
+    const message = { _id: 'msg1', content: 'Hola', conversation: 'conv1' }
+    vi.mocked(axios.post).mockResolvedValue({ data: { success: true, data: message } })
+
+    const result = await messageService.sendMessage({ conversationId: 'conv1', content: 'Hola' })
+
+    expect(axios.post).toHaveBeenCalledWith('/api/v1/messages', { conversationId: 'conv1', content: 'Hola' })
+    expect(result).toEqual(message)
+  })
+
+  it('should request the messages of a conversation by its id', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { messages: [], total: 0 } })
+
+    await messageService.getMessages('conv1', 2, 20)
+
+    expect(axios.get).toHaveBeenCalledWith('/api/v1/messages/conversation/conv1', { params: { page: 2, limit: 20 } })
+  })
+
+  it('should only send the archived filter when requested', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { success: true, count: 0, data: [] } })
+
+    await messageService.getConversations()
+    await messageService.getConversations(1, 20, null, 'all')
+
+    expect(axios.get).toHaveBeenNthCalledWith(1, '/api/v1/messages/conversations', { params: { page: 1, limit: 20 } })
+    expect(axios.get).toHaveBeenNthCalledWith(2, '/api/v1/messages/conversations', {
+      params: { page: 1, limit: 20, archived: 'all' }
+    })
+  })
+
+  it('should archive a conversation through its settings endpoint', async () => {
+    const conversation = { _id: 'conv1', archived: true, muted: false }
+    vi.mocked(axios.put).mockResolvedValue({ data: { success: true, data: conversation } })
+
+    const result = await messageService.updateConversationSettings('conv1', { archived: true })
+
+    expect(axios.put).toHaveBeenCalledWith('/api/v1/messages/conversation/conv1/settings', { archived: true })
+    expect(result).toEqual(conversation)
+  })
+})
@@ -1,5 +1,5 @@
 /**
- * @fileoverview Utilidades de traducción tipadas para categorías y condiciones
+ * @fileoverview Utilidades de traducción tipadas para categorías, condiciones y estados
  * @description Sistema centralizado de traducciones con TypeScript para mantener consistencia
  * en la interfaz de usuario, proporcionando traducciones tipadas para categorías de artículos,
  * condiciones de estado y funciones auxiliares para la internacionalización.
@@ -7,6 +7,7 @@
  * @features
  * - Traducciones centralizadas con tipos TypeScript
  * - Traducciones de condiciones de artículos
+ * - Traducciones y badges de los estados del ciclo de vida de los artículos
  * - Funciones de traducción con fallbacks tipados
  * - Validación de claves de traducción en tiempo de compilación
  * - Soporte para valores nulos/indefinidos
@@ -21,15 +22,11 @@
  * - Fallbacks seguros
  * 
  * @types
- * - CategoryKey: Claves válidas para categorías
  * - ConditionKey: Claves válidas para condiciones
+ * - ItemStatusKey: Claves válidas para estados de artículos
  * 
  * @categories
- * - books: Libros
- * - electronics: Electrónicos
- * - clothing: Ropa
- * - furniture: Muebles
- * - other: Otros
+ * - Gestionadas por los administradores y cargadas de la API (useCategories)
  * 
  * @conditions
  * - new: Nuevo
@@ -38,16 +35,21 @@
  * - fair: Estado aceptable
  * - poor: Estado regular
  * 
+ * @statuses
+ * - draft: Borrador
+ * - active: Disponible
+ * - reserved: Reservado
+ * - traded: Intercambiado
+ * - withdrawn: Retirado
+ * - expired: Caducado
+ * 
  * @author Equipo Ecommunitas
  * @version 1.0.0
  * @since 2024
  */
 
-/**
- * Claves válidas para categorías de artículos
- * @typedef {('books'|'electronics'|'clothing'|'furniture'|'other')} CategoryKey
- */
-type CategoryKey = 'books' | 'electronics' | 'clothing' | 'furniture' | 'other'
+import { getCategoryLabel, getLoadedCategories } from '@/shared/composables/useCategories'
+import { getCategoryBadgeClass as getSharedCategoryBadgeClass } from '@/shared/constants/translations'
 
 /**
  * Claves válidas para condiciones de artículos
@@ -56,17 +58,10 @@ type CategoryKey = 'books' | 'electronics' | 'clothing' | 'furniture' | 'other'
 type ConditionKey = 'new' | 'like_new' | 'good' | 'fair' | 'poor'
 
 /**
- * Traducciones tipadas de categorías de artículos
- * @type {Record<CategoryKey, string>}
- * @description Mapeo tipado de claves de categorías a sus traducciones en español
+ * Claves válidas para estados del ciclo de vida de los artículos
+ * @typedef {('draft'|'active'|'reserved'|'traded'|'withdrawn'|'expired')} ItemStatusKey
  */
-export const categoryTranslations: Record<CategoryKey, string> = {
-  books: 'Libros',
-  electronics: 'Electrónicos',
-  clothing: 'Ropa',
-  furniture: 'Muebles',
-  other: 'Otros'
-}
+export type ItemStatusKey = 'draft' | 'active' | 'reserved' | 'traded' | 'withdrawn' | 'expired'
 
 /**
  * Traducciones tipadas de condiciones de artículos
@@ -81,11 +76,25 @@ export const conditionTranslations: Record<ConditionKey, string> = {
   poor: 'Estado regular'
 }
 
+/**
+ * Traducciones tipadas de estados de artículos
+ * @type {Record<ItemStatusKey, string>}
+ * @description Mapeo tipado de estados del ciclo de vida a sus traducciones en español
+ */
+export const itemStatusTranslations: Record<ItemStatusKey, string> = {
+  draft: 'Borrador',
+  active: 'Disponible',
+  reserved: 'Reservado',
+  traded: 'Intercambiado',
+  withdrawn: 'Retirado',
+  expired: 'Caducado'
+}
+
 /**
  * Traduce una clave de categoría a su texto en español con tipado
  * @param {string|null|undefined} category - Clave de la categoría a traducir
  * @returns {string} Texto traducido de la categoría o fallback
- * @description Proporciona traducción segura con fallback para categorías no encontradas
+ * @description Usa las categorías cargadas de la API; mientras se cargan devuelve el slug
  * 
  * @example
  * translateCategory('books') // 'Libros'
@@ -94,7 +103,7 @@ export const conditionTranslations: Record<ConditionKey, string> = {
  */
 export const translateCategory = (category: string | null | undefined): string => {
   if (!category) return 'Sin categoría'
-  return categoryTranslations[category as CategoryKey] || category
+  return getCategoryLabel(category)
 }
 
 /**
@@ -113,17 +122,32 @@ export const translateCondition = (condition: string | null | undefined): string
   return conditionTranslations[condition as ConditionKey] || condition
 }
 
+/**
+ * Traduce un estado de artículo a su texto en español con tipado
+ * @param {string|null|undefined} status - Estado del ciclo de vida a traducir
+ * @returns {string} Texto traducido del estado o fallback
+ * @description Los artículos sin estado (anteriores al ciclo de vida) se muestran como disponibles
+ * 
+ * @example
+ * translateItemStatus('reserved') // 'Reservado'
+ * translateItemStatus(undefined) // 'Disponible'
+ */
+export const translateItemStatus = (status: string | null | undefined): string => {
+  if (!status) return itemStatusTranslations.active
+  return itemStatusTranslations[status as ItemStatusKey] || status
+}
+
 // Tipo para las opciones
 type Option = {
   value: string
   label: string
 }
 
-// Función para obtener todas las categorías traducidas
+// Función para obtener las categorías cargadas de la API
 export const getCategoriesOptions = (): Option[] => {
-  return Object.entries(categoryTranslations).map(([value, label]) => ({
-    value,
-    label
+  return getLoadedCategories().map(category => ({
+    value: category.slug,
+    label: category.label
   }))
 }
 
@@ -149,12 +173,18 @@ export const getConditionBadgeClass = (condition: string): string => {
 
 // Función para obtener el color de badge según la categoría
 export const getCategoryBadgeClass = (category: string): string => {
-  const classes: Record<string, string> = {
-    books: 'bg-blue-100 text-blue-800 dark:bg-blue-700 dark:text-blue-100',
-    electronics: 'bg-purple-100 text-purple-800 dark:bg-purple-700 dark:text-purple-100',
-    clothing: 'bg-pink-100 text-pink-800 dark:bg-pink-700 dark:text-pink-100',
-    furniture: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-700 dark:text-indigo-100',
-    other: 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
+  return getSharedCategoryBadgeClass(category)
+}
+
+// Función para obtener el color de badge según el estado del artículo
+export const getItemStatusBadgeClass = (status: string | null | undefined): string => {
+  const classes: Record<ItemStatusKey, string> = {
+    draft: 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100',
+    active: 'bg-green-100 text-green-800 dark:bg-green-700 dark:text-green-100',
+    reserved: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-700 dark:text-yellow-100',
+    traded: 'bg-blue-100 text-blue-800 dark:bg-blue-700 dark:text-blue-100',
+    withdrawn: 'bg-red-100 text-red-800 dark:bg-red-700 dark:text-red-100',
+    expired: 'bg-orange-100 text-orange-800 dark:bg-orange-700 dark:text-orange-100'
   }
-  return classes[category] || 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
-}
\ No newline at end of file
+  return classes[(status || 'active') as ItemStatusKey] || 'bg-gray-100 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
+}
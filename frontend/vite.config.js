@@ -174,6 +174,18 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
         rewrite: (path) => path
+      },
+      /**
+       * Proxy para la pasarela de Socket.IO (mensajería en tiempo real)
+       * 
+       * CONFIGURACIÓN:
+       * - Patrón: '/socket.io' - Ruta por defecto de Socket.IO
+       * - ws: true - Redirige también las conexiones WebSocket
+       */
+      '/socket.io': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        ws: true
       }
     }
   }